@@ -55,6 +55,7 @@ public class AcceptStaffInviteTests : IntegrationTestBase
         // Assert
         result!.Email.Should().Be("staff2@test.com");
         result.Token.Should().NotBeNullOrEmpty();
+        result.InvitedBusinessSlug.Should().Be(businessSlug);
     }
 
     [Fact]
@@ -118,5 +119,5 @@ public class AcceptStaffInviteTests : IntegrationTestBase
         return verifyResponse!.Token;
     }
 
-    private record VerifyResponse(string Token, Guid UserId, string Email, bool IsNewUser);
+    private record VerifyResponse(string Token, Guid UserId, string Email, bool IsNewUser, string? InvitedBusinessSlug);
 }
@@ -0,0 +1,73 @@
+using System.Net;
+using System.Net.Http.Json;
+using FluentAssertions;
+
+namespace QueueDrop.Api.Tests;
+
+public class AddWalkInCustomerTests : IntegrationTestBase
+{
+    private record WalkInResponse(Guid CustomerId, string Token, int TicketNumber, int Position, string QueueName);
+
+    private record CustomerDto(Guid Id, string Name, string Status, int? Position, int? PartySize, string? Notes);
+
+    private record GetCustomersResponse(List<CustomerDto> Customers);
+
+    private record PositionResponse(int? Position, string Status);
+
+    [Fact]
+    public async Task AddWalkIn_ShouldAddCustomerToBackOfLine()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers",
+            new { Name = "Margaret", PartySize = 2, Notes = "Wheelchair access" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Created);
+        var result = await response.Content.ReadFromJsonAsync<WalkInResponse>();
+        result!.Position.Should().Be(2);
+        result.TicketNumber.Should().Be(2);
+
+        var customers = (await StaffClient.GetFromJsonAsync<GetCustomersResponse>($"/api/queues/{TestQueueId}/customers"))!.Customers;
+        customers.Should().ContainSingle(c => c.Id == result.CustomerId)
+            .Which.Should().BeEquivalentTo(new { Name = "Margaret", PartySize = 2, Notes = "Wheelchair access" });
+    }
+
+    [Fact]
+    public async Task AddWalkIn_TokenShouldOpenLiveView()
+    {
+        // Arrange
+        var response = await StaffClient.PostAsJsonAsync($"/api/queues/{TestQueueId}/customers", new { Name = "Margaret" });
+        var result = await response.Content.ReadFromJsonAsync<WalkInResponse>();
+
+        // Act
+        var position = await Client.GetFromJsonAsync<PositionResponse>($"/api/q/{result!.Token}");
+
+        // Assert
+        position!.Status.Should().Be("Waiting");
+        position.Position.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task AddWalkIn_WithoutName_ShouldReturnBadRequest()
+    {
+        // Act
+        var response = await StaffClient.PostAsJsonAsync($"/api/queues/{TestQueueId}/customers", new { Name = "" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task AddWalkIn_WithUnknownQueue_ShouldReturnNotFound()
+    {
+        // Act
+        var response = await StaffClient.PostAsJsonAsync($"/api/queues/{Guid.NewGuid()}/customers", new { Name = "Margaret" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+}
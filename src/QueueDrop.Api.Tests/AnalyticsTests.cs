@@ -0,0 +1,212 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.Extensions.DependencyInjection;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Api.Tests;
+
+public class AnalyticsTests : IntegrationTestBase
+{
+    private static readonly Guid BarStaffId = new("44444444-4444-4444-4444-444444444444");
+    private const string BarStaffEmail = "bar@demo-shop.test";
+
+    private record CallNextResponse(Guid CustomerId);
+
+    private record CustomerDto(Guid Id, string Name);
+
+    private record CustomersResponse(List<CustomerDto> Customers);
+
+    private record SummaryDto(
+        int JoinedCount,
+        int ServedCount,
+        int NoShowCount,
+        int AbandonedCount,
+        double? AverageWaitMinutes,
+        double? P90WaitMinutes,
+        double? AverageServiceMinutes,
+        double? P90ServiceMinutes,
+        double? ServedPerHour,
+        double? NoShowRate,
+        double? AbandonmentRate);
+
+    private record HourDto(int Hour, int Joined, int Served);
+
+    private record QueueAnalyticsResponse(Guid QueueId, string Name, string TimeZone, SummaryDto Summary, List<HourDto> Hours, int[][] Heatmap);
+
+    private record QueueSummaryDto(Guid QueueId, string Name, bool IsArchived, SummaryDto Summary);
+
+    private record BusinessAnalyticsResponse(SummaryDto Summary, List<HourDto> Hours, int[][] Heatmap, List<QueueSummaryDto> Queues);
+
+    protected override async Task SeedAdditionalDataAsync(TestAppDbContext db)
+    {
+        var staff = User.Create(BarStaffEmail, DateTimeOffset.UtcNow);
+        typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(staff, BarStaffId);
+        db.Users.Add(staff);
+
+        // Default staff permissions don't include reports
+        var membership = BusinessMember.CreateStaffInvite(BarStaffId, TestBusinessId, DateTimeOffset.UtcNow);
+        membership.AcceptInvite(DateTimeOffset.UtcNow);
+        db.BusinessMembers.Add(membership);
+
+        await db.SaveChangesAsync();
+        db.ChangeTracker.Clear();
+    }
+
+    [Fact]
+    public async Task QueueAnalytics_ShouldSummarizeWaitsServiceAndOutcomes()
+    {
+        // Arrange
+        await RunAMorning();
+
+        // Act
+        var analytics = await StaffClient.GetFromJsonAsync<QueueAnalyticsResponse>($"/api/queues/{TestQueueId}/analytics");
+
+        // Assert
+        var summary = analytics!.Summary;
+        summary.JoinedCount.Should().Be(3);
+        summary.ServedCount.Should().Be(1);
+        summary.NoShowCount.Should().Be(1);
+        summary.AbandonedCount.Should().Be(1);
+        summary.AverageWaitMinutes.Should().Be(12.5);
+        summary.P90WaitMinutes.Should().Be(15);
+        summary.AverageServiceMinutes.Should().Be(5);
+        summary.ServedPerHour.Should().Be(1);
+        summary.NoShowRate.Should().Be(0.5);
+        summary.AbandonmentRate.Should().Be(0.333);
+    }
+
+    [Fact]
+    public async Task QueueAnalytics_ShouldBucketJoinsByHourAndWeekday()
+    {
+        // Arrange
+        await RunAMorning();
+
+        // Act
+        var analytics = await StaffClient.GetFromJsonAsync<QueueAnalyticsResponse>($"/api/queues/{TestQueueId}/analytics");
+
+        // Assert - everyone joined at noon UTC on a Monday
+        analytics!.TimeZone.Should().Be("UTC");
+        analytics.Hours.Should().HaveCount(24);
+        analytics.Hours[12].Should().Be(new HourDto(12, 3, 1));
+        analytics.Heatmap[(int)DayOfWeek.Monday][12].Should().Be(3);
+        analytics.Heatmap.Sum(day => day.Sum()).Should().Be(3);
+    }
+
+    [Fact]
+    public async Task QueueAnalytics_WithTimeZone_ShouldReportLocalHours()
+    {
+        // Arrange
+        await RunAMorning();
+
+        // Act
+        var analytics = await StaffClient.GetFromJsonAsync<QueueAnalyticsResponse>(
+            $"/api/queues/{TestQueueId}/analytics?timeZone=America/New_York");
+
+        // Assert - noon UTC is 7am in New York in January
+        analytics!.Hours[7].Joined.Should().Be(3);
+    }
+
+    [Fact]
+    public async Task QueueAnalytics_WithUnknownTimeZone_ShouldReturn400()
+    {
+        // Act
+        var response = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/analytics?timeZone=Mars/Olympus_Mons");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task QueueAnalytics_WithStartAfterEnd_ShouldReturn400()
+    {
+        // Act
+        var response = await StaffClient.GetAsync(
+            $"/api/queues/{TestQueueId}/analytics?from=2024-01-15T12:00:00Z&to=2024-01-14T12:00:00Z");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task QueueAnalytics_ShouldLeaveOutCustomersWhoJoinedBeforeThePeriod()
+    {
+        // Arrange
+        await RunAMorning();
+
+        // Act
+        var analytics = await StaffClient.GetFromJsonAsync<QueueAnalyticsResponse>(
+            $"/api/queues/{TestQueueId}/analytics?from=2024-01-15T13:00:00Z&to=2024-01-15T14:00:00Z");
+
+        // Assert
+        analytics!.Summary.JoinedCount.Should().Be(0);
+        analytics.Summary.AverageWaitMinutes.Should().BeNull();
+        analytics.Summary.NoShowRate.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task BusinessAnalytics_ShouldSummarizeEachQueue()
+    {
+        // Arrange
+        await RunAMorning();
+
+        // Act
+        var analytics = await StaffClient.GetFromJsonAsync<BusinessAnalyticsResponse>($"/api/business/{TestBusinessSlug}/analytics");
+
+        // Assert
+        analytics!.Summary.JoinedCount.Should().Be(3);
+        analytics.Queues.Should().ContainSingle()
+            .Which.Should().Match<QueueSummaryDto>(q => q.Name == TestQueueName && q.Summary.ServedCount == 1);
+    }
+
+    [Fact]
+    public async Task Analytics_WithoutViewReports_ShouldReturn403()
+    {
+        // Arrange
+        var staffToken = ServiceProvider.GetRequiredService<IJwtTokenService>().GenerateToken(BarStaffId, BarStaffEmail);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", staffToken);
+
+        // Act
+        var queueResponse = await Client.GetAsync($"/api/queues/{TestQueueId}/analytics");
+        var businessResponse = await Client.GetAsync($"/api/business/{TestBusinessSlug}/analytics");
+
+        // Assert
+        queueResponse.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+        businessResponse.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    /// <summary>
+    /// Alice waits 10 minutes and takes 5 to serve, Bob waits 15 and doesn't turn up,
+    /// Carol gives up.
+    /// </summary>
+    private async Task RunAMorning()
+    {
+        var timeProvider = (FakeTimeProvider)ServiceProvider.GetRequiredService<TimeProvider>();
+
+        await JoinQueueAndGetToken("Alice");
+        await JoinQueueAndGetToken("Bob");
+        await JoinQueueAndGetToken("Carol");
+
+        timeProvider.Advance(TimeSpan.FromMinutes(10));
+        var aliceId = await CallNext();
+        timeProvider.Advance(TimeSpan.FromMinutes(5));
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{aliceId}/serve", null);
+
+        var bobId = await CallNext();
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{bobId}/no-show", null);
+
+        var customers = await StaffClient.GetFromJsonAsync<CustomersResponse>($"/api/queues/{TestQueueId}/customers");
+        var carolId = customers!.Customers.Single(c => c.Name == "Carol").Id;
+        await StaffClient.DeleteAsync($"/api/queues/{TestQueueId}/customers/{carolId}");
+    }
+
+    private async Task<Guid> CallNext()
+    {
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        response.EnsureSuccessStatusCode();
+        var result = await response.Content.ReadFromJsonAsync<CallNextResponse>();
+        return result!.CustomerId;
+    }
+}
@@ -22,7 +22,7 @@ public class CallNextTests : IntegrationTestBase
         var queueId = await GetTestQueueId();
 
         // Act
-        var response = await Client.PostAsync($"/api/queues/{queueId}/call-next", null);
+        var response = await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.OK);
@@ -43,7 +43,7 @@ public class CallNextTests : IntegrationTestBase
         var queueId = await GetTestQueueId();
 
         // Act
-        var response = await Client.PostAsync($"/api/queues/{queueId}/call-next", null);
+        var response = await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null);
 
         // Assert
         var result = await response.Content.ReadFromJsonAsync<CallNextResponse>();
@@ -60,10 +60,10 @@ public class CallNextTests : IntegrationTestBase
         var queueId = await GetTestQueueId();
 
         // Call first customer
-        await Client.PostAsync($"/api/queues/{queueId}/call-next", null);
+        await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null);
 
         // Act - call next
-        var response = await Client.PostAsync($"/api/queues/{queueId}/call-next", null);
+        var response = await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null);
 
         // Assert
         var result = await response.Content.ReadFromJsonAsync<CallNextResponse>();
@@ -78,7 +78,7 @@ public class CallNextTests : IntegrationTestBase
         var queueId = await GetTestQueueId();
 
         // Act - no customers have joined
-        var response = await Client.PostAsync($"/api/queues/{queueId}/call-next", null);
+        var response = await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.NotFound);
@@ -92,10 +92,10 @@ public class CallNextTests : IntegrationTestBase
         var queueId = await GetTestQueueId();
 
         // Call the only customer
-        await Client.PostAsync($"/api/queues/{queueId}/call-next", null);
+        await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null);
 
         // Act - try to call next when no one is waiting
-        var response = await Client.PostAsync($"/api/queues/{queueId}/call-next", null);
+        var response = await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.NotFound);
@@ -105,7 +105,7 @@ public class CallNextTests : IntegrationTestBase
     public async Task CallNext_WithNonExistentQueue_ShouldReturn404()
     {
         // Act
-        var response = await Client.PostAsync($"/api/queues/{Guid.NewGuid()}/call-next", null);
+        var response = await StaffClient.PostAsync($"/api/queues/{Guid.NewGuid()}/call-next", null);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.NotFound);
@@ -125,7 +125,7 @@ public class CallNextTests : IntegrationTestBase
         var pos3Before = await GetPosition(token3);
 
         // Act - call first customer
-        await Client.PostAsync($"/api/queues/{queueId}/call-next", null);
+        await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null);
 
         // Assert - positions should have shifted
         var pos2After = await GetPosition(token2);
@@ -0,0 +1,171 @@
+using System.Net;
+using System.Net.Http.Json;
+using FluentAssertions;
+
+namespace QueueDrop.Api.Tests;
+
+public class CustomerSelfServiceTests : IntegrationTestBase
+{
+    private record PositionResponse(int? Position, string Status, DateTimeOffset? OnTheWayAt);
+
+    private record LetAheadResponse(int Position);
+
+    private record OnTheWayResponse(DateTimeOffset OnTheWayAt);
+
+    private record CustomerDto(Guid Id, string Name, string Status, int? Position, DateTimeOffset? OnTheWayAt);
+
+    private record GetCustomersResponse(List<CustomerDto> Customers);
+
+    private record EntryDto(string Action, string? CustomerName, Guid? ActorUserId);
+
+    private record HistoryResponse(List<EntryDto> Entries);
+
+    [Fact]
+    public async Task Leave_WhenWaiting_ShouldRemoveCustomerAndMoveOthersUp()
+    {
+        // Arrange
+        var aliceToken = await JoinQueueAndGetToken("Alice");
+        var bobToken = await JoinQueueAndGetToken("Bob");
+
+        // Act
+        var response = await Client.PostAsync($"/api/q/{aliceToken}/leave", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        var alice = await Client.GetFromJsonAsync<PositionResponse>($"/api/q/{aliceToken}");
+        alice!.Status.Should().Be("Removed");
+
+        var bob = await Client.GetFromJsonAsync<PositionResponse>($"/api/q/{bobToken}");
+        bob!.Position.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task Leave_ShouldBeRecordedInHistoryWithoutStaffMember()
+    {
+        // Arrange
+        var token = await JoinQueueAndGetToken("Alice");
+
+        // Act
+        await Client.PostAsync($"/api/q/{token}/leave", null);
+
+        // Assert
+        var history = await StaffClient.GetFromJsonAsync<HistoryResponse>($"/api/queues/{TestQueueId}/history?action=left");
+        var entry = history!.Entries.Should().ContainSingle().Subject;
+        entry.CustomerName.Should().Be("Alice");
+        entry.ActorUserId.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task Leave_Twice_ShouldReturnBadRequest()
+    {
+        // Arrange
+        var token = await JoinQueueAndGetToken("Alice");
+        await Client.PostAsync($"/api/q/{token}/leave", null);
+
+        // Act
+        var response = await Client.PostAsync($"/api/q/{token}/leave", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Leave_WithUnknownToken_ShouldReturnNotFound()
+    {
+        // Act
+        var response = await Client.PostAsync("/api/q/not-a-token/leave", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task LetOthersAhead_ShouldMoveCustomerBack()
+    {
+        // Arrange
+        var aliceToken = await JoinQueueAndGetToken("Alice");
+        await JoinQueueAndGetToken("Bob");
+        await JoinQueueAndGetToken("Charlie");
+
+        // Act
+        var response = await Client.PostAsJsonAsync($"/api/q/{aliceToken}/let-ahead", new { Places = 2 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var result = await response.Content.ReadFromJsonAsync<LetAheadResponse>();
+        result!.Position.Should().Be(3);
+
+        var waiting = (await GetQueueCustomers()).OrderBy(c => c.Position).Select(c => c.Name);
+        waiting.Should().Equal("Bob", "Charlie", "Alice");
+    }
+
+    [Fact]
+    public async Task LetOthersAhead_TooManyPlaces_ShouldReturnBadRequest()
+    {
+        // Arrange
+        var aliceToken = await JoinQueueAndGetToken("Alice");
+        await JoinQueueAndGetToken("Bob");
+
+        // Act
+        var response = await Client.PostAsJsonAsync($"/api/q/{aliceToken}/let-ahead", new { Places = 4 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task LetOthersAhead_AtBackOfLine_ShouldReturnBadRequest()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var bobToken = await JoinQueueAndGetToken("Bob");
+
+        // Act
+        var response = await Client.PostAsJsonAsync($"/api/q/{bobToken}/let-ahead", new { Places = 1 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task OnMyWay_WhenCalled_ShouldShowOnStaffDashboard()
+    {
+        // Arrange
+        var token = await JoinQueueAndGetToken("Alice");
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+
+        // Act
+        var response = await Client.PostAsync($"/api/q/{token}/on-my-way", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var result = await response.Content.ReadFromJsonAsync<OnTheWayResponse>();
+
+        var alice = (await GetQueueCustomers()).Single();
+        alice.Status.Should().Be("Called");
+        alice.OnTheWayAt.Should().Be(result!.OnTheWayAt);
+
+        var position = await Client.GetFromJsonAsync<PositionResponse>($"/api/q/{token}");
+        position!.OnTheWayAt.Should().Be(result.OnTheWayAt);
+    }
+
+    [Fact]
+    public async Task OnMyWay_WhenWaiting_ShouldReturnBadRequest()
+    {
+        // Arrange
+        var token = await JoinQueueAndGetToken("Alice");
+
+        // Act
+        var response = await Client.PostAsync($"/api/q/{token}/on-my-way", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    private async Task<List<CustomerDto>> GetQueueCustomers()
+    {
+        var data = await StaffClient.GetFromJsonAsync<GetCustomersResponse>($"/api/queues/{TestQueueId}/customers");
+        return data!.Customers;
+    }
+}
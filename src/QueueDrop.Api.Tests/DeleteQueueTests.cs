@@ -26,6 +26,25 @@ public class DeleteQueueTests : IntegrationTestBase
         db.Queues.Any(q => q.Slug == queueSlug).Should().BeFalse();
     }
 
+    [Fact]
+    public async Task DeleteQueue_WithCustomersWaiting_ShouldReturn409()
+    {
+        // Arrange
+        var (token, businessSlug, queueSlug) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "busy");
+        await Client.PostAsJsonAsync($"/api/join/{businessSlug}/{queueSlug}", new { name = "Alice" });
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+
+        // Act
+        var response = await Client.DeleteAsync($"/api/business/{businessSlug}/queues/{queueSlug}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Conflict);
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        db.Queues.Any(q => q.Slug == queueSlug).Should().BeTrue();
+    }
+
     [Fact]
     public async Task DeleteQueue_AsNonOwner_ShouldReturn403()
     {
@@ -0,0 +1,41 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+
+namespace QueueDrop.Api.Tests;
+
+public class DemoSessionTests : IntegrationTestBase
+{
+    private record SessionResponse(string Token);
+
+    [Fact]
+    public async Task DemoSession_ShouldLetTheDemoDriveItsQueue()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+
+        // Act
+        var session = await Client.PostAsync("/api/demo/session", null);
+        var token = (await session.Content.ReadFromJsonAsync<SessionResponse>())!.Token;
+
+        var request = new HttpRequestMessage(HttpMethod.Post, $"/api/queues/{TestQueueId}/call-next");
+        request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        var callResponse = await Client.SendAsync(request);
+
+        // Assert
+        session.StatusCode.Should().Be(HttpStatusCode.OK);
+        callResponse.StatusCode.Should().Be(HttpStatusCode.OK);
+    }
+
+    [Fact]
+    public async Task DemoSession_Twice_ShouldReuseTheDemoStaffUser()
+    {
+        // Act
+        await Client.PostAsync("/api/demo/session", null);
+        var second = await Client.PostAsync("/api/demo/session", null);
+
+        // Assert
+        second.StatusCode.Should().Be(HttpStatusCode.OK);
+    }
+}
@@ -0,0 +1,193 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.Extensions.DependencyInjection;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Api.Tests;
+
+public class ExportTests : IntegrationTestBase
+{
+    private static readonly Guid BarStaffId = new("44444444-4444-4444-4444-444444444444");
+    private const string BarStaffEmail = "bar@demo-shop.test";
+
+    private record CallNextResponse(Guid CustomerId);
+
+    private record CustomerDto(Guid Id, string Name);
+
+    private record CustomersResponse(List<CustomerDto> Customers);
+
+    private record RowDto(
+        Guid CustomerId,
+        string Queue,
+        string Name,
+        string Status,
+        int? PartySize,
+        string? Notes,
+        DateTimeOffset JoinedAt,
+        DateTimeOffset? CalledAt,
+        string? CalledBy,
+        DateTimeOffset? CompletedAt,
+        string? CompletedBy);
+
+    protected override async Task SeedAdditionalDataAsync(TestAppDbContext db)
+    {
+        var staff = User.Create(BarStaffEmail, DateTimeOffset.UtcNow);
+        typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(staff, BarStaffId);
+        db.Users.Add(staff);
+
+        // Default staff permissions don't include reports
+        var membership = BusinessMember.CreateStaffInvite(BarStaffId, TestBusinessId, DateTimeOffset.UtcNow);
+        membership.AcceptInvite(DateTimeOffset.UtcNow);
+        db.BusinessMembers.Add(membership);
+
+        await db.SaveChangesAsync();
+        db.ChangeTracker.Clear();
+    }
+
+    [Fact]
+    public async Task QueueExport_ShouldDownloadCsvWithEveryCustomer()
+    {
+        // Arrange
+        await ServeAliceAndRemoveBob();
+
+        // Act
+        var response = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/export");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        response.Content.Headers.ContentType!.MediaType.Should().Be("text/csv");
+        response.Content.Headers.ContentDisposition!.FileName.Should().Contain(".csv");
+
+        var lines = (await response.Content.ReadAsStringAsync())
+            .Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries);
+        lines.Should().HaveCount(3);
+        lines[0].Should().StartWith("Customer ID,Queue,Name,Status");
+        lines[1].Should().Contain($"{TestQueueName},Alice,Served")
+            .And.Contain("2024-01-15T12:10:00Z")
+            .And.Contain(TestOwnerEmail);
+        lines[2].Should().Contain($"{TestQueueName},Bob,Removed");
+    }
+
+    [Fact]
+    public async Task QueueExport_AsJson_ShouldIncludeWhoCalledAndServed()
+    {
+        // Arrange
+        await ServeAliceAndRemoveBob();
+
+        // Act
+        var rows = await StaffClient.GetFromJsonAsync<List<RowDto>>($"/api/queues/{TestQueueId}/export?format=json");
+
+        // Assert
+        rows.Should().HaveCount(2);
+        var alice = rows!.Single(r => r.Name == "Alice");
+        alice.Status.Should().Be("Served");
+        alice.CalledBy.Should().Be(TestOwnerEmail);
+        alice.CompletedBy.Should().Be(TestOwnerEmail);
+        alice.CompletedAt.Should().Be(new DateTimeOffset(2024, 1, 15, 12, 15, 0, TimeSpan.Zero));
+
+        var bob = rows.Single(r => r.Name == "Bob");
+        bob.Status.Should().Be("Removed");
+        bob.CompletedAt.Should().NotBeNull();
+        bob.CalledBy.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task QueueExport_ShouldDefuseFormulasAndQuoteCommas()
+    {
+        // Arrange
+        var join = await Client.PostAsJsonAsync(
+            $"/api/join/{TestBusinessSlug}",
+            new { name = "=HYPERLINK(\"x\")", notes = "Window seat, please" });
+        join.EnsureSuccessStatusCode();
+        AdvanceTime(TimeSpan.FromMinutes(1));
+
+        // Act
+        var csv = await StaffClient.GetStringAsync($"/api/queues/{TestQueueId}/export");
+
+        // Assert
+        csv.Should().Contain("\"'=HYPERLINK(\"\"x\"\")\"");
+        csv.Should().Contain("\"Window seat, please\"");
+    }
+
+    [Fact]
+    public async Task QueueExport_ShouldLeaveOutCustomersWhoJoinedOutsideThePeriod()
+    {
+        // Arrange
+        await ServeAliceAndRemoveBob();
+
+        // Act
+        var rows = await StaffClient.GetFromJsonAsync<List<RowDto>>(
+            $"/api/queues/{TestQueueId}/export?format=json&from=2024-01-16T00:00:00Z&to=2024-01-17T00:00:00Z");
+
+        // Assert
+        rows.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task QueueExport_WithUnknownFormat_ShouldReturn400()
+    {
+        // Act
+        var response = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/export?format=xlsx");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task BusinessExport_ShouldIncludeEveryQueue()
+    {
+        // Arrange
+        await ServeAliceAndRemoveBob();
+
+        // Act
+        var response = await StaffClient.GetAsync($"/api/business/{TestBusinessSlug}/export?format=json");
+
+        // Assert
+        response.Content.Headers.ContentDisposition!.FileName.Should().Contain(TestBusinessSlug);
+        var rows = await response.Content.ReadFromJsonAsync<List<RowDto>>();
+        rows.Should().HaveCount(2).And.OnlyContain(r => r.Queue == TestQueueName);
+    }
+
+    [Fact]
+    public async Task Export_WithoutViewReports_ShouldReturn403()
+    {
+        // Arrange
+        var staffToken = ServiceProvider.GetRequiredService<IJwtTokenService>().GenerateToken(BarStaffId, BarStaffEmail);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", staffToken);
+
+        // Act
+        var queueResponse = await Client.GetAsync($"/api/queues/{TestQueueId}/export");
+        var businessResponse = await Client.GetAsync($"/api/business/{TestBusinessSlug}/export");
+
+        // Assert
+        queueResponse.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+        businessResponse.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    /// <summary>
+    /// Alice is called after 10 minutes and served 5 minutes later; Bob is taken off the list.
+    /// </summary>
+    private async Task ServeAliceAndRemoveBob()
+    {
+        await JoinQueueAndGetToken("Alice");
+        await JoinQueueAndGetToken("Bob");
+
+        AdvanceTime(TimeSpan.FromMinutes(10));
+        var callResponse = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        callResponse.EnsureSuccessStatusCode();
+        var aliceId = (await callResponse.Content.ReadFromJsonAsync<CallNextResponse>())!.CustomerId;
+
+        AdvanceTime(TimeSpan.FromMinutes(5));
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{aliceId}/serve", null);
+
+        var customers = await StaffClient.GetFromJsonAsync<CustomersResponse>($"/api/queues/{TestQueueId}/customers");
+        var bobId = customers!.Customers.Single(c => c.Name == "Bob").Id;
+        await StaffClient.DeleteAsync($"/api/queues/{TestQueueId}/customers/{bobId}");
+    }
+
+    private void AdvanceTime(TimeSpan by) =>
+        ((FakeTimeProvider)ServiceProvider.GetRequiredService<TimeProvider>()).Advance(by);
+}
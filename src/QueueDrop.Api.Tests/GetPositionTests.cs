@@ -13,9 +13,13 @@ public class GetPositionTests : IntegrationTestBase
         string QueueName,
         string BusinessName,
         int? EstimatedWaitMinutes,
+        WaitEstimateResponse? EstimatedWait,
         int RecentActivity,
         string? WelcomeMessage,
-        string? CalledMessage);
+        string? CalledMessage,
+        long Version);
+
+    private record WaitEstimateResponse(int MinMinutes, int MaxMinutes);
 
     [Fact]
     public async Task GetPosition_WithValidToken_ShouldReturnPosition()
@@ -35,6 +39,7 @@ public class GetPositionTests : IntegrationTestBase
         result.Status.Should().Be("Waiting");
         result.QueueName.Should().Be(TestQueueName);
         result.BusinessName.Should().Be(TestBusinessName);
+        result.Version.Should().BeGreaterThan(0);
     }
 
     [Fact]
@@ -53,6 +58,40 @@ public class GetPositionTests : IntegrationTestBase
         result.EstimatedWaitMinutes.Should().BeGreaterThanOrEqualTo(0);
     }
 
+    [Fact]
+    public async Task GetPosition_ShouldReturnEstimatedWaitRange()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("First");
+        var token = await JoinQueueAndGetToken("Second");
+
+        // Act
+        var response = await Client.GetAsync($"/api/q/{token}");
+
+        // Assert
+        var result = await response.Content.ReadFromJsonAsync<PositionResponse>();
+        result!.EstimatedWait.Should().NotBeNull();
+        result.EstimatedWait!.MinMinutes.Should().BeLessThan(result.EstimatedWait.MaxMinutes);
+        result.EstimatedWaitMinutes.Should().BeInRange(result.EstimatedWait.MinMinutes, result.EstimatedWait.MaxMinutes);
+    }
+
+    [Fact]
+    public async Task GetPosition_AfterBeingCalled_ShouldHaveNoEstimatedWait()
+    {
+        // Arrange
+        var token = await JoinQueueAndGetToken("Only Customer");
+        var queueId = await GetTestQueueId();
+        (await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null)).EnsureSuccessStatusCode();
+
+        // Act
+        var response = await Client.GetAsync($"/api/q/{token}");
+
+        // Assert
+        var result = await response.Content.ReadFromJsonAsync<PositionResponse>();
+        result!.EstimatedWait.Should().BeNull();
+        result.EstimatedWaitMinutes.Should().BeNull();
+    }
+
     [Fact]
     public async Task GetPosition_WithInvalidToken_ShouldReturn404()
     {
@@ -71,7 +110,7 @@ public class GetPositionTests : IntegrationTestBase
         var queueId = await GetTestQueueId();
 
         // Call next
-        var callResponse = await Client.PostAsync($"/api/queues/{queueId}/call-next", null);
+        var callResponse = await StaffClient.PostAsync($"/api/queues/{queueId}/call-next", null);
         callResponse.EnsureSuccessStatusCode();
 
         // Act
@@ -0,0 +1,169 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.Extensions.DependencyInjection;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Api.Tests;
+
+public class IdempotencyTests : IntegrationTestBase
+{
+    private static readonly Guid BarStaffId = new("44444444-4444-4444-4444-444444444444");
+    private const string BarStaffEmail = "bar@demo-shop.test";
+
+    private record CallNextResponse(Guid CustomerId, string CustomerName);
+
+    private record CustomerDto(string Name, string Status);
+
+    private record GetCustomersResponse(List<CustomerDto> Customers);
+
+    protected override async Task SeedAdditionalDataAsync(TestAppDbContext db)
+    {
+        var staff = User.Create(BarStaffEmail, DateTimeOffset.UtcNow);
+        typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(staff, BarStaffId);
+        db.Users.Add(staff);
+
+        var membership = BusinessMember.CreateStaffInvite(BarStaffId, TestBusinessId, DateTimeOffset.UtcNow);
+        membership.AcceptInvite(DateTimeOffset.UtcNow);
+        db.BusinessMembers.Add(membership);
+
+        await db.SaveChangesAsync();
+        db.ChangeTracker.Clear();
+    }
+
+    private Task<HttpResponseMessage> SendWithKey(HttpMethod method, string url, string key)
+    {
+        var request = new HttpRequestMessage(method, url);
+        request.Headers.Add("Idempotency-Key", key);
+        return StaffClient.SendAsync(request);
+    }
+
+    [Fact]
+    public async Task CallNext_RepeatedWithSameKey_ShouldOnlyCallOneCustomer()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("First");
+        await JoinQueueAndGetToken("Second");
+        var url = $"/api/queues/{TestQueueId}/call-next";
+
+        // Act - the client replays a request whose response it never saw
+        var first = await SendWithKey(HttpMethod.Post, url, "action-1");
+        var replay = await SendWithKey(HttpMethod.Post, url, "action-1");
+
+        // Assert
+        first.StatusCode.Should().Be(HttpStatusCode.OK);
+        replay.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var firstResult = await first.Content.ReadFromJsonAsync<CallNextResponse>();
+        var replayResult = await replay.Content.ReadFromJsonAsync<CallNextResponse>();
+        replayResult!.CustomerId.Should().Be(firstResult!.CustomerId);
+        replayResult.CustomerName.Should().Be("First");
+    }
+
+    [Fact]
+    public async Task CallNext_WithDifferentKeys_ShouldCallEachTime()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("First");
+        await JoinQueueAndGetToken("Second");
+        var url = $"/api/queues/{TestQueueId}/call-next";
+
+        // Act
+        await SendWithKey(HttpMethod.Post, url, "action-1");
+        var second = await SendWithKey(HttpMethod.Post, url, "action-2");
+
+        // Assert
+        var result = await second.Content.ReadFromJsonAsync<CallNextResponse>();
+        result!.CustomerName.Should().Be("Second");
+    }
+
+    [Fact]
+    public async Task CallNext_SentTwiceAtOnceWithSameKey_ShouldOnlyCallOneCustomer()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("First");
+        await JoinQueueAndGetToken("Second");
+        var url = $"/api/queues/{TestQueueId}/call-next";
+
+        // Act - the replay arrives before the first request has finished
+        var responses = await Task.WhenAll(
+            SendWithKey(HttpMethod.Post, url, "action-1"),
+            SendWithKey(HttpMethod.Post, url, "action-1"));
+
+        // Assert - the loser either waits its turn (409) or gets the first response back
+        responses.Select(r => r.StatusCode).Should().Contain(HttpStatusCode.OK)
+            .And.OnlyContain(s => s == HttpStatusCode.OK || s == HttpStatusCode.Conflict);
+
+        var customers = await StaffClient.GetFromJsonAsync<GetCustomersResponse>($"/api/queues/{TestQueueId}/customers");
+        customers!.Customers.Should().ContainSingle(c => c.Status == "Called").Which.Name.Should().Be("First");
+    }
+
+    [Fact]
+    public async Task CallNext_SameKeyFromAnotherUser_ShouldRunSeparately()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("First");
+        await JoinQueueAndGetToken("Second");
+        var url = $"/api/queues/{TestQueueId}/call-next";
+        await SendWithKey(HttpMethod.Post, url, "action-1");
+
+        var staffToken = ServiceProvider.GetRequiredService<IJwtTokenService>().GenerateToken(BarStaffId, BarStaffEmail);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", staffToken);
+        var request = new HttpRequestMessage(HttpMethod.Post, url);
+        request.Headers.Add("Idempotency-Key", "action-1");
+
+        // Act
+        var response = await Client.SendAsync(request);
+
+        // Assert - not the owner's cached response
+        var result = await response.Content.ReadFromJsonAsync<CallNextResponse>();
+        result!.CustomerName.Should().Be("Second");
+    }
+
+    [Fact]
+    public async Task MarkServed_RepeatedWithSameKey_ShouldReturnFirstResponse()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var callResponse = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        var called = await callResponse.Content.ReadFromJsonAsync<CallNextResponse>();
+        var url = $"/api/queues/{TestQueueId}/customers/{called!.CustomerId}/serve";
+
+        // Act
+        var first = await SendWithKey(HttpMethod.Post, url, "serve-1");
+        var replay = await SendWithKey(HttpMethod.Post, url, "serve-1");
+
+        // Assert - without the key, serving twice is rejected
+        first.StatusCode.Should().Be(HttpStatusCode.NoContent);
+        replay.StatusCode.Should().Be(HttpStatusCode.NoContent);
+    }
+
+    [Fact]
+    public async Task MarkServed_AlreadyServedWithNewKey_ShouldReturnBadRequest()
+    {
+        // Arrange - another device served the customer first
+        await JoinQueueAndGetToken("Alice");
+        var callResponse = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        var called = await callResponse.Content.ReadFromJsonAsync<CallNextResponse>();
+        var url = $"/api/queues/{TestQueueId}/customers/{called!.CustomerId}/serve";
+        await SendWithKey(HttpMethod.Post, url, "device-a");
+
+        // Act
+        var response = await SendWithKey(HttpMethod.Post, url, "device-b");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task CallNext_WithOverlongKey_ShouldReturnBadRequest()
+    {
+        // Act
+        var response = await SendWithKey(HttpMethod.Post, $"/api/queues/{TestQueueId}/call-next", new string('k', 101));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+}
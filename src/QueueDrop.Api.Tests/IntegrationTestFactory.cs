@@ -1,3 +1,4 @@
+using System.Net.Http.Headers;
 using System.Net.Http.Json;
 using Microsoft.AspNetCore.Hosting;
 using Microsoft.AspNetCore.Mvc.Testing;
@@ -26,10 +27,14 @@ public abstract class IntegrationTestBase : IAsyncLifetime
     protected const string TestBusinessSlug = "demo-shop";
     protected const string TestBusinessName = "Demo Shop";
     protected const string TestQueueName = "Main Queue";
+    protected static readonly Guid TestOwnerId = new("33333333-3333-3333-3333-333333333333");
+    protected const string TestOwnerEmail = "owner@demo-shop.test";
 
     private readonly WebApplicationFactory<Program> _factory;
     private readonly string _databaseName = $"TestDb_{Guid.NewGuid()}";
     protected HttpClient Client { get; private set; } = null!;
+    /// <summary>Signed in as an owner of the test business - the staff queue endpoints need a member.</summary>
+    protected HttpClient StaffClient { get; private set; } = null!;
     protected IServiceProvider ServiceProvider => _factory.Services;
 
     protected IntegrationTestBase()
@@ -90,6 +95,10 @@ public abstract class IntegrationTestBase : IAsyncLifetime
     {
         Client = _factory.CreateClient();
 
+        var ownerToken = _factory.Services.GetRequiredService<IJwtTokenService>().GenerateToken(TestOwnerId, TestOwnerEmail);
+        StaffClient = _factory.CreateClient();
+        StaffClient.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", ownerToken);
+
         await using var scope = _factory.Services.CreateAsyncScope();
         var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
 
@@ -132,6 +141,11 @@ public abstract class IntegrationTestBase : IAsyncLifetime
         typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(queue, TestQueueId);
         db.Queues.Add(queue);
 
+        var owner = User.Create(TestOwnerEmail, FixedTime);
+        typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(owner, TestOwnerId);
+        db.Users.Add(owner);
+        db.BusinessMembers.Add(BusinessMember.CreateOwner(TestOwnerId, TestBusinessId, FixedTime));
+
         await db.SaveChangesAsync();
 
         // Detach all tracked entities so subsequent operations get fresh tracking
@@ -141,6 +155,7 @@ public abstract class IntegrationTestBase : IAsyncLifetime
     public async Task DisposeAsync()
     {
         Client.Dispose();
+        StaffClient.Dispose();
         await _factory.DisposeAsync();
     }
 
@@ -0,0 +1,178 @@
+using System.Net;
+using System.Net.Http.Json;
+using FluentAssertions;
+
+namespace QueueDrop.Api.Tests;
+
+public class JoinFormTests : IntegrationTestBase
+{
+    private record JoinFieldDto(string Key, string Label, string Type, bool Required, List<string> Options, int? Min, int? Max);
+
+    private record SettingsResponse(List<JoinFieldDto> JoinFields);
+
+    private record QueueDto(Guid QueueId, List<JoinFieldDto> JoinFields);
+
+    private record GetBusinessQueuesResponse(List<QueueDto> Queues);
+
+    private record AnswerDto(string Label, string Value);
+
+    private record CustomerDto(string Name, int? PartySize, string? PhoneNumber, List<AnswerDto> JoinAnswers);
+
+    private record GetCustomersResponse(List<CustomerDto> Customers);
+
+    private record EntryDto(string Action, string? Details);
+
+    private record HistoryResponse(List<EntryDto> Entries);
+
+    private record Problem(string Title, string Detail);
+
+    private static object RestaurantForm(params object[] extraFields) => new
+    {
+        estimatedServiceTimeMinutes = 5,
+        noShowTimeoutMinutes = 5,
+        allowJoinWhenPaused = false,
+        joinFields = new object[]
+        {
+            new { key = "party", label = "Party size", type = "partySize", required = true, max = 8 },
+            new { key = "phone", label = "Phone", type = "phone", required = false },
+            new { key = "high-chair", label = "High chair", type = "checkbox", required = false },
+            new { key = "seating", label = "Seating", type = "choice", required = true, options = new[] { "Inside", "Outside" } }
+        }.Concat(extraFields).ToArray()
+    };
+
+    [Fact]
+    public async Task UpdateSettings_WithJoinFields_ShouldBeReturnedToStaffAndCustomers()
+    {
+        // Act
+        var response = await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", RestaurantForm());
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        var settings = await StaffClient.GetFromJsonAsync<SettingsResponse>($"/api/queues/{TestQueueId}/settings");
+        settings!.JoinFields.Select(f => f.Label).Should().Equal("Party size", "Phone", "High chair", "Seating");
+        settings.JoinFields[0].Type.Should().Be("PartySize");
+        settings.JoinFields[3].Options.Should().Equal("Inside", "Outside");
+
+        var business = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>($"/api/business/{TestBusinessSlug}/queues");
+        business!.Queues.Single(q => q.QueueId == TestQueueId).JoinFields.Should().HaveCount(4);
+    }
+
+    [Fact]
+    public async Task UpdateSettings_WithoutJoinFields_ShouldKeepTheCurrentOnes()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", RestaurantForm());
+
+        // Act
+        await StaffClient.PutAsJsonAsync(
+            $"/api/queues/{TestQueueId}/settings",
+            new { estimatedServiceTimeMinutes = 7, noShowTimeoutMinutes = 5, allowJoinWhenPaused = false });
+
+        // Assert
+        var settings = await StaffClient.GetFromJsonAsync<SettingsResponse>($"/api/queues/{TestQueueId}/settings");
+        settings!.JoinFields.Should().HaveCount(4);
+    }
+
+    [Fact]
+    public async Task UpdateSettings_WithUnknownFieldType_ShouldReturn400()
+    {
+        // Act
+        var response = await StaffClient.PutAsJsonAsync(
+            $"/api/queues/{TestQueueId}/settings",
+            RestaurantForm(new { key = "colour", label = "Favourite colour", type = "colourPicker", required = false }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task UpdateSettings_WithChoiceWithoutOptions_ShouldReturn400()
+    {
+        // Act
+        var response = await StaffClient.PutAsJsonAsync(
+            $"/api/queues/{TestQueueId}/settings",
+            RestaurantForm(new { key = "service", label = "Service", type = "choice", required = true }));
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task UpdateSettings_ChangingJoinFields_ShouldBeRecordedInHistory()
+    {
+        // Act
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", RestaurantForm());
+
+        // Assert
+        var history = await StaffClient.GetFromJsonAsync<HistoryResponse>(
+            $"/api/queues/{TestQueueId}/history?action=settingsChanged");
+        history!.Entries.Should().ContainSingle().Which.Details.Should().Contain("Seating (Inside/Outside, required)");
+    }
+
+    [Fact]
+    public async Task Join_WithAnswers_ShouldShowThemOnTheStaffDashboard()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", RestaurantForm());
+
+        // Act
+        var response = await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}", new
+        {
+            name = "Alice",
+            answers = new Dictionary<string, string>
+            {
+                ["party"] = "3",
+                ["phone"] = "07700 900123",
+                ["high-chair"] = "true",
+                ["seating"] = "Outside"
+            }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Created);
+
+        var customers = await StaffClient.GetFromJsonAsync<GetCustomersResponse>($"/api/queues/{TestQueueId}/customers");
+        var alice = customers!.Customers.Should().ContainSingle().Subject;
+        alice.PartySize.Should().Be(3);
+        alice.PhoneNumber.Should().Be("07700 900123");
+        alice.JoinAnswers.Should().Equal(new AnswerDto("High chair", "Yes"), new AnswerDto("Seating", "Outside"));
+    }
+
+    [Fact]
+    public async Task Join_WithoutRequiredAnswer_ShouldReturn400()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", RestaurantForm());
+
+        // Act
+        var response = await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}", new
+        {
+            name = "Alice",
+            answers = new Dictionary<string, string> { ["party"] = "3" }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        var problem = await response.Content.ReadFromJsonAsync<Problem>();
+        problem!.Title.Should().Be("Invalid answer");
+        problem.Detail.Should().Contain("Seating");
+    }
+
+    [Fact]
+    public async Task Join_WithPartyTooLarge_ShouldReturn400()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", RestaurantForm());
+
+        // Act
+        var response = await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}", new
+        {
+            name = "Alice",
+            answers = new Dictionary<string, string> { ["party"] = "12", ["seating"] = "Inside" }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+}
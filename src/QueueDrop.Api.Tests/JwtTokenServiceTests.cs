@@ -57,4 +57,18 @@ public class JwtTokenServiceTests
 
         jwt.ValidTo.Should().BeCloseTo(DateTime.UtcNow.AddMinutes(_options.ExpirationMinutes), TimeSpan.FromMinutes(1));
     }
+
+    [Fact]
+    public void GenerateToken_WithSession_ShouldIncludeSessionClaim()
+    {
+        // Arrange
+        var sessionId = Guid.NewGuid();
+
+        // Act
+        var token = _service.GenerateToken(Guid.NewGuid(), "test@example.com", sessionId);
+
+        // Assert
+        var jwt = new JwtSecurityTokenHandler().ReadJwtToken(token);
+        jwt.Claims.Should().Contain(c => c.Type == JwtTokenService.SessionIdClaim && c.Value == sessionId.ToString());
+    }
 }
@@ -227,18 +227,18 @@ public class MultiQueueTests : IntegrationTestBase
             var joinResult = await joinResponse.Content.ReadFromJsonAsync<JoinQueueWithSlugResponse>();
 
             // Get customer ID from queue
-            var customersResponse = await Client.GetAsync($"/api/queues/{SecondQueueId}/customers");
+            var customersResponse = await StaffClient.GetAsync($"/api/queues/{SecondQueueId}/customers");
             var customersResult = await customersResponse.Content.ReadFromJsonAsync<CustomersResponse>();
             var customerId = customersResult!.Customers.First().Id;
 
             // Act - remove from second queue
-            var removeResponse = await Client.DeleteAsync($"/api/queues/{SecondQueueId}/customers/{customerId}");
+            var removeResponse = await StaffClient.DeleteAsync($"/api/queues/{SecondQueueId}/customers/{customerId}");
 
             // Assert
             removeResponse.StatusCode.Should().Be(HttpStatusCode.NoContent);
 
             // Verify customer is gone
-            var verifyResponse = await Client.GetAsync($"/api/queues/{SecondQueueId}/customers");
+            var verifyResponse = await StaffClient.GetAsync($"/api/queues/{SecondQueueId}/customers");
             var verifyResult = await verifyResponse.Content.ReadFromJsonAsync<CustomersResponse>();
             verifyResult!.Customers.Should().BeEmpty();
         }
@@ -252,12 +252,12 @@ public class MultiQueueTests : IntegrationTestBase
                 new { name = "Alice" });
 
             // Get customer ID from second queue
-            var customersResponse = await Client.GetAsync($"/api/queues/{SecondQueueId}/customers");
+            var customersResponse = await StaffClient.GetAsync($"/api/queues/{SecondQueueId}/customers");
             var customersResult = await customersResponse.Content.ReadFromJsonAsync<CustomersResponse>();
             var customerId = customersResult!.Customers.First().Id;
 
             // Act - try to remove from FIRST queue (wrong queue)
-            var removeResponse = await Client.DeleteAsync($"/api/queues/{TestQueueId}/customers/{customerId}");
+            var removeResponse = await StaffClient.DeleteAsync($"/api/queues/{TestQueueId}/customers/{customerId}");
 
             // Assert - should fail because customer is not in first queue
             removeResponse.StatusCode.Should().Be(HttpStatusCode.NotFound);
@@ -271,20 +271,20 @@ public class MultiQueueTests : IntegrationTestBase
             await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}/{SecondQueueSlug}", new { name = "SecondQueue_Bob" });
 
             // Act - call next on second queue
-            var callResponse = await Client.PostAsync($"/api/queues/{SecondQueueId}/call-next", null);
+            var callResponse = await StaffClient.PostAsync($"/api/queues/{SecondQueueId}/call-next", null);
 
             // Assert
             callResponse.StatusCode.Should().Be(HttpStatusCode.OK);
 
             // Verify the correct customer was called
-            var customersResponse = await Client.GetAsync($"/api/queues/{SecondQueueId}/customers");
+            var customersResponse = await StaffClient.GetAsync($"/api/queues/{SecondQueueId}/customers");
             var customersResult = await customersResponse.Content.ReadFromJsonAsync<CustomersResponse>();
             var calledCustomer = customersResult!.Customers.First();
             calledCustomer.Name.Should().Be("SecondQueue_Bob");
             calledCustomer.Status.Should().Be("Called");
 
             // Verify first queue customer is still waiting
-            var firstQueueResponse = await Client.GetAsync($"/api/queues/{TestQueueId}/customers");
+            var firstQueueResponse = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/customers");
             var firstQueueResult = await firstQueueResponse.Content.ReadFromJsonAsync<CustomersResponse>();
             var waitingCustomer = firstQueueResult!.Customers.First();
             waitingCustomer.Name.Should().Be("FirstQueue_Alice");
@@ -296,20 +296,20 @@ public class MultiQueueTests : IntegrationTestBase
         {
             // Arrange - join and call customer on second queue
             await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}/{SecondQueueSlug}", new { name = "Alice" });
-            await Client.PostAsync($"/api/queues/{SecondQueueId}/call-next", null);
+            await StaffClient.PostAsync($"/api/queues/{SecondQueueId}/call-next", null);
 
-            var customersResponse = await Client.GetAsync($"/api/queues/{SecondQueueId}/customers");
+            var customersResponse = await StaffClient.GetAsync($"/api/queues/{SecondQueueId}/customers");
             var customersResult = await customersResponse.Content.ReadFromJsonAsync<CustomersResponse>();
             var customerId = customersResult!.Customers.First().Id;
 
             // Act
-            var serveResponse = await Client.PostAsync($"/api/queues/{SecondQueueId}/customers/{customerId}/serve", null);
+            var serveResponse = await StaffClient.PostAsync($"/api/queues/{SecondQueueId}/customers/{customerId}/serve", null);
 
             // Assert
             serveResponse.StatusCode.Should().Be(HttpStatusCode.NoContent);
 
             // Verify customer is served (removed from active list)
-            var verifyResponse = await Client.GetAsync($"/api/queues/{SecondQueueId}/customers");
+            var verifyResponse = await StaffClient.GetAsync($"/api/queues/{SecondQueueId}/customers");
             var verifyResult = await verifyResponse.Content.ReadFromJsonAsync<CustomersResponse>();
             verifyResult!.Customers.Should().BeEmpty();
         }
@@ -319,20 +319,20 @@ public class MultiQueueTests : IntegrationTestBase
         {
             // Arrange - join and call customer on second queue
             await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}/{SecondQueueSlug}", new { name = "Alice" });
-            await Client.PostAsync($"/api/queues/{SecondQueueId}/call-next", null);
+            await StaffClient.PostAsync($"/api/queues/{SecondQueueId}/call-next", null);
 
-            var customersResponse = await Client.GetAsync($"/api/queues/{SecondQueueId}/customers");
+            var customersResponse = await StaffClient.GetAsync($"/api/queues/{SecondQueueId}/customers");
             var customersResult = await customersResponse.Content.ReadFromJsonAsync<CustomersResponse>();
             var customerId = customersResult!.Customers.First().Id;
 
             // Act
-            var noShowResponse = await Client.PostAsync($"/api/queues/{SecondQueueId}/customers/{customerId}/no-show", null);
+            var noShowResponse = await StaffClient.PostAsync($"/api/queues/{SecondQueueId}/customers/{customerId}/no-show", null);
 
             // Assert
             noShowResponse.StatusCode.Should().Be(HttpStatusCode.NoContent);
 
             // Verify customer is marked as no-show (removed from active list)
-            var verifyResponse = await Client.GetAsync($"/api/queues/{SecondQueueId}/customers");
+            var verifyResponse = await StaffClient.GetAsync($"/api/queues/{SecondQueueId}/customers");
             var verifyResult = await verifyResponse.Content.ReadFromJsonAsync<CustomersResponse>();
             verifyResult!.Customers.Should().BeEmpty();
         }
@@ -0,0 +1,152 @@
+using System.Net;
+using System.Net.Http.Json;
+using FluentAssertions;
+
+namespace QueueDrop.Api.Tests;
+
+/// <summary>
+/// The test clock reads Monday 2024-01-15 12:00 UTC.
+/// </summary>
+public class OperatingHoursTests : IntegrationTestBase
+{
+    private record OpeningDto(bool IsOpen, bool AcceptsJoins, DateTimeOffset? OpensAt, DateTimeOffset? ClosesAt, string? TimeZone);
+
+    private record QueueDto(Guid QueueId, bool CanJoin, OpeningDto Opening);
+
+    private record GetBusinessQueuesResponse(List<QueueDto> Queues);
+
+    private record HoursResponse(object? Hours, OpeningDto Status);
+
+    private record ClosedProblem(string Title, DateTimeOffset? OpensAt);
+
+    private static object MondayHours(string opens, string closes, int? lastJoinMinutesBeforeClose = null) => new
+    {
+        hours = new
+        {
+            timeZone = "UTC",
+            weekly = new[] { new { day = (int)DayOfWeek.Monday, opens, closes } },
+            holidays = Array.Empty<object>(),
+            lastJoinMinutesBeforeClose
+        }
+    };
+
+    [Fact]
+    public async Task Join_BeforeOpening_ShouldBeRefusedWithOpeningTime()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/hours", MondayHours("13:00:00", "22:00:00"));
+
+        // Act
+        var response = await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}", new { name = "Night Owl" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        var problem = await response.Content.ReadFromJsonAsync<ClosedProblem>();
+        problem!.Title.Should().Be("Queue closed");
+        problem.OpensAt.Should().Be(new DateTimeOffset(2024, 1, 15, 13, 0, 0, TimeSpan.Zero));
+    }
+
+    [Fact]
+    public async Task Join_WithinHours_ShouldSucceed()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/hours", MondayHours("11:00:00", "22:00:00"));
+
+        // Act
+        var response = await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}", new { name = "Alice" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Created);
+    }
+
+    [Fact]
+    public async Task Join_AfterLastJoinCutoff_ShouldBeRefused()
+    {
+        // Arrange - closes at 12:20, joins stop at 11:50
+        await StaffClient.PutAsJsonAsync(
+            $"/api/queues/{TestQueueId}/hours",
+            MondayHours("09:00:00", "12:20:00", lastJoinMinutesBeforeClose: 30));
+
+        // Act
+        var response = await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}", new { name = "Latecomer" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task AddWalkIn_OutsideHours_ShouldStillWork()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/hours", MondayHours("13:00:00", "22:00:00"));
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync($"/api/queues/{TestQueueId}/customers", new { Name = "Margaret" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Created);
+    }
+
+    [Fact]
+    public async Task GetBusinessQueues_OutsideHours_ShouldShowWhenTheQueueOpens()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/hours", MondayHours("13:00:00", "22:00:00"));
+
+        // Act
+        var response = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>($"/api/business/{TestBusinessSlug}/queues");
+
+        // Assert
+        var queue = response!.Queues.Single(q => q.QueueId == TestQueueId);
+        queue.CanJoin.Should().BeFalse();
+        queue.Opening.IsOpen.Should().BeFalse();
+        queue.Opening.OpensAt.Should().Be(new DateTimeOffset(2024, 1, 15, 13, 0, 0, TimeSpan.Zero));
+        queue.Opening.TimeZone.Should().Be("UTC");
+    }
+
+    [Fact]
+    public async Task UpdateHours_WithNull_ShouldLetCustomersJoinAnyTime()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/hours", MondayHours("13:00:00", "22:00:00"));
+
+        // Act
+        var response = await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/hours", new { hours = (object?)null });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var hours = await response.Content.ReadFromJsonAsync<HoursResponse>();
+        hours!.Hours.Should().BeNull();
+        hours.Status.AcceptsJoins.Should().BeTrue();
+
+        var joinResponse = await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}", new { name = "Alice" });
+        joinResponse.StatusCode.Should().Be(HttpStatusCode.Created);
+    }
+
+    [Fact]
+    public async Task UpdateHours_WithUnknownTimeZone_ShouldReturn400()
+    {
+        // Act
+        var response = await StaffClient.PutAsJsonAsync(
+            $"/api/queues/{TestQueueId}/hours",
+            new { hours = new { timeZone = "Nowhere/Special", weekly = Array.Empty<object>() } });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task GetHours_ShouldReturnSavedHours()
+    {
+        // Arrange
+        await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/hours", MondayHours("11:00:00", "22:00:00"));
+
+        // Act
+        var response = await StaffClient.GetFromJsonAsync<HoursResponse>($"/api/queues/{TestQueueId}/hours");
+
+        // Assert
+        response!.Hours.Should().NotBeNull();
+        response.Status.IsOpen.Should().BeTrue();
+        response.Status.ClosesAt.Should().Be(new DateTimeOffset(2024, 1, 15, 22, 0, 0, TimeSpan.Zero));
+    }
+}
@@ -0,0 +1,161 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.Extensions.DependencyInjection;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Api.Tests;
+
+public class QueueHistoryTests : IntegrationTestBase
+{
+    private static readonly Guid BarStaffId = new("44444444-4444-4444-4444-444444444444");
+    private const string BarStaffEmail = "bar@demo-shop.test";
+    private const string StaffDevice = "Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X)";
+
+    private record CallNextResponse(Guid CustomerId);
+
+    private record EntryDto(
+        Guid Id,
+        string Action,
+        DateTimeOffset OccurredAt,
+        Guid? ActorUserId,
+        string? ActorEmail,
+        string? Device,
+        Guid? CustomerId,
+        string? CustomerName,
+        string? Details);
+
+    private record HistoryResponse(List<EntryDto> Entries, DateTimeOffset? NextBefore);
+
+    protected override async Task SeedAdditionalDataAsync(TestAppDbContext db)
+    {
+        var staff = User.Create(BarStaffEmail, DateTimeOffset.UtcNow);
+        typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(staff, BarStaffId);
+        db.Users.Add(staff);
+
+        // Default staff permissions don't include reports
+        var membership = BusinessMember.CreateStaffInvite(BarStaffId, TestBusinessId, DateTimeOffset.UtcNow);
+        membership.AcceptInvite(DateTimeOffset.UtcNow);
+        db.BusinessMembers.Add(membership);
+
+        await db.SaveChangesAsync();
+        db.ChangeTracker.Clear();
+    }
+
+    [Fact]
+    public async Task History_ShouldListEachStepNewestFirst()
+    {
+        // Arrange
+        StaffClient.DefaultRequestHeaders.UserAgent.ParseAdd(StaffDevice);
+        var timeProvider = (FakeTimeProvider)ServiceProvider.GetRequiredService<TimeProvider>();
+
+        await JoinQueueAndGetToken("Alice");
+        timeProvider.Advance(TimeSpan.FromMinutes(1));
+        var customerId = await CallNext();
+        timeProvider.Advance(TimeSpan.FromMinutes(1));
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/serve", null);
+
+        // Act
+        var history = await StaffClient.GetFromJsonAsync<HistoryResponse>($"/api/queues/{TestQueueId}/history");
+
+        // Assert
+        history!.Entries.Select(e => e.Action).Should().Equal("served", "called", "joined");
+        history.Entries.Should().OnlyContain(e => e.CustomerId == customerId && e.CustomerName == "Alice");
+
+        var served = history.Entries[0];
+        served.ActorUserId.Should().Be(TestOwnerId);
+        served.ActorEmail.Should().Be(TestOwnerEmail);
+        served.Device.Should().Be(StaffDevice);
+
+        // Customers join on their own
+        history.Entries[2].ActorUserId.Should().BeNull();
+        history.NextBefore.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task History_WithActionFilter_ShouldOnlyReturnThatAction()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        await JoinQueueAndGetToken("Bob");
+        await CallNext();
+
+        // Act
+        var history = await StaffClient.GetFromJsonAsync<HistoryResponse>($"/api/queues/{TestQueueId}/history?action=joined");
+
+        // Assert
+        history!.Entries.Should().HaveCount(2)
+            .And.OnlyContain(e => e.Action == "joined");
+    }
+
+    [Fact]
+    public async Task History_WithCustomerSearch_ShouldMatchPartOfTheName()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice Smith");
+        await JoinQueueAndGetToken("Bob");
+
+        // Act
+        var history = await StaffClient.GetFromJsonAsync<HistoryResponse>($"/api/queues/{TestQueueId}/history?customer=smi");
+
+        // Assert
+        history!.Entries.Should().ContainSingle()
+            .Which.CustomerName.Should().Be("Alice Smith");
+    }
+
+    [Fact]
+    public async Task History_WithLimit_ShouldPageBackwards()
+    {
+        // Arrange
+        var timeProvider = (FakeTimeProvider)ServiceProvider.GetRequiredService<TimeProvider>();
+        foreach (var name in new[] { "Alice", "Bob", "Carol" })
+        {
+            await JoinQueueAndGetToken(name);
+            timeProvider.Advance(TimeSpan.FromMinutes(1));
+        }
+
+        // Act
+        var first = await StaffClient.GetFromJsonAsync<HistoryResponse>($"/api/queues/{TestQueueId}/history?limit=2");
+        var before = Uri.EscapeDataString(first!.NextBefore!.Value.ToString("O"));
+        var second = await StaffClient.GetFromJsonAsync<HistoryResponse>($"/api/queues/{TestQueueId}/history?limit=2&before={before}");
+
+        // Assert
+        first.Entries.Select(e => e.CustomerName).Should().Equal("Carol", "Bob");
+        second!.Entries.Select(e => e.CustomerName).Should().Equal("Alice");
+        second.NextBefore.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task History_WithUnknownAction_ShouldReturn400()
+    {
+        // Act
+        var response = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/history?action=teleported");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task History_WithoutViewReports_ShouldReturn403()
+    {
+        // Arrange
+        var staffToken = ServiceProvider.GetRequiredService<IJwtTokenService>().GenerateToken(BarStaffId, BarStaffEmail);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", staffToken);
+
+        // Act
+        var response = await Client.GetAsync($"/api/queues/{TestQueueId}/history");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    private async Task<Guid> CallNext()
+    {
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        response.EnsureSuccessStatusCode();
+        var result = await response.Content.ReadFromJsonAsync<CallNextResponse>();
+        return result!.CustomerId;
+    }
+}
@@ -0,0 +1,112 @@
+using System.Security.Claims;
+using FluentAssertions;
+using Microsoft.AspNetCore.Http.Features;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.Extensions.DependencyInjection;
+using QueueDrop.Infrastructure.SignalR;
+
+namespace QueueDrop.Api.Tests;
+
+public class QueueHubTests : IntegrationTestBase
+{
+    [Fact]
+    public async Task JoinStaffRoom_AsMember_ShouldJoinTheQueueRoom()
+    {
+        // Arrange
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var (hub, groups) = CreateHub(scope, TestOwnerId.ToString());
+
+        // Act
+        await hub.JoinStaffRoom(TestQueueId);
+
+        // Assert
+        groups.Joined.Should().Equal($"queue:{TestQueueId}");
+    }
+
+    [Fact]
+    public async Task JoinStaffRoom_AsSomeoneElse_ShouldBeRefused()
+    {
+        // Arrange
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var (hub, groups) = CreateHub(scope, Guid.NewGuid().ToString());
+
+        // Act
+        var act = () => hub.JoinStaffRoom(TestQueueId);
+
+        // Assert
+        await act.Should().ThrowAsync<HubException>();
+        groups.Joined.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task JoinStaffRoom_WithoutSigningIn_ShouldBeRefused()
+    {
+        // Arrange
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var (hub, groups) = CreateHub(scope, userId: null);
+
+        // Act
+        var act = () => hub.JoinStaffRoom(TestQueueId);
+
+        // Assert
+        await act.Should().ThrowAsync<HubException>();
+        groups.Joined.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task JoinCustomerRoom_WithoutSigningIn_ShouldJoinTheCustomerRoom()
+    {
+        // Arrange
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var (hub, groups) = CreateHub(scope, userId: null);
+
+        // Act
+        await hub.JoinCustomerRoom("customer-token");
+
+        // Assert
+        groups.Joined.Should().Equal("customer:customer-token");
+    }
+
+    private static (QueueHub Hub, RecordingGroupManager Groups) CreateHub(AsyncServiceScope scope, string? userId)
+    {
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var groups = new RecordingGroupManager();
+        var hub = new QueueHub(db) { Context = new TestCallerContext(userId), Groups = groups };
+        return (hub, groups);
+    }
+
+    private sealed class RecordingGroupManager : IGroupManager
+    {
+        public List<string> Joined { get; } = [];
+
+        public Task AddToGroupAsync(string connectionId, string groupName, CancellationToken cancellationToken = default)
+        {
+            Joined.Add(groupName);
+            return Task.CompletedTask;
+        }
+
+        public Task RemoveFromGroupAsync(string connectionId, string groupName, CancellationToken cancellationToken = default)
+        {
+            Joined.Remove(groupName);
+            return Task.CompletedTask;
+        }
+    }
+
+    private sealed class TestCallerContext(string? userId) : HubCallerContext
+    {
+        public override string ConnectionId => "connection-1";
+        public override string? UserIdentifier => userId;
+
+        public override ClaimsPrincipal? User => userId is null
+            ? new ClaimsPrincipal(new ClaimsIdentity())
+            : new ClaimsPrincipal(new ClaimsIdentity([new Claim(ClaimTypes.NameIdentifier, userId)], "Bearer"));
+
+        public override IDictionary<object, object?> Items { get; } = new Dictionary<object, object?>();
+        public override IFeatureCollection Features { get; } = new FeatureCollection();
+        public override CancellationToken ConnectionAborted => CancellationToken.None;
+
+        public override void Abort()
+        {
+        }
+    }
+}
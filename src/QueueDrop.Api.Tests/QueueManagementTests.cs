@@ -0,0 +1,200 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.Extensions.DependencyInjection;
+
+namespace QueueDrop.Api.Tests;
+
+public class QueueManagementTests : IntegrationTestBase
+{
+    private record QueueDto(Guid QueueId, string Name, string Slug, bool IsActive, bool IsArchived);
+
+    private record SlugRedirectDto(string FromSlug, string ToSlug);
+
+    private record GetBusinessQueuesResponse(List<QueueDto> Queues, List<SlugRedirectDto> SlugRedirects);
+
+    [Fact]
+    public async Task UpdateQueue_WithNewSlug_ShouldRedirectOldSlug()
+    {
+        // Arrange
+        var (token, businessSlug, queueSlug) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "main");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{businessSlug}/queues/{queueSlug}",
+            new { name = "Walk-ins", slug = "Walk Ins" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var queues = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>($"/api/business/{businessSlug}/queues");
+        queues!.Queues.Should().ContainSingle().Which.Slug.Should().Be("walk-ins");
+        queues.SlugRedirects.Should().ContainSingle()
+            .Which.Should().Be(new SlugRedirectDto("main", "walk-ins"));
+    }
+
+    [Fact]
+    public async Task UpdateQueue_WithSlugOfAnotherQueue_ShouldReturn409()
+    {
+        // Arrange
+        var (token, businessSlug, queueSlug) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "main");
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/queues", new { name = "Takeout", slug = "takeout" });
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{businessSlug}/queues/{queueSlug}",
+            new { slug = "takeout" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Conflict);
+    }
+
+    [Fact]
+    public async Task UpdateQueue_BackToOldSlug_ShouldDropItsRedirect()
+    {
+        // Arrange
+        var (_, businessSlug, queueSlug) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "main");
+        await Client.PutAsJsonAsync($"/api/business/{businessSlug}/queues/{queueSlug}", new { slug = "front" });
+
+        // Act
+        var response = await Client.PutAsJsonAsync($"/api/business/{businessSlug}/queues/front", new { slug = "main" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var queues = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>($"/api/business/{businessSlug}/queues");
+        queues!.SlugRedirects.Should().ContainSingle()
+            .Which.Should().Be(new SlugRedirectDto("front", "main"));
+    }
+
+    [Fact]
+    public async Task ReorderQueues_ShouldChangeQueueOrder()
+    {
+        // Arrange
+        var (_, businessSlug, _) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "first");
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/queues", new { name = "second", slug = "second" });
+        var before = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>($"/api/business/{businessSlug}/queues");
+        var reversed = before!.Queues.Select(q => q.QueueId).Reverse().ToList();
+
+        // Act
+        var response = await Client.PutAsJsonAsync($"/api/business/{businessSlug}/queue-order", new { queueIds = reversed });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        var after = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>($"/api/business/{businessSlug}/queues");
+        after!.Queues.Select(q => q.Slug).Should().Equal("second", "first");
+    }
+
+    [Fact]
+    public async Task ReorderQueues_WithMissingQueue_ShouldReturn400()
+    {
+        // Arrange
+        var (_, businessSlug, _) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "first");
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/queues", new { name = "second", slug = "second" });
+        var queues = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>($"/api/business/{businessSlug}/queues");
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{businessSlug}/queue-order",
+            new { queueIds = new[] { queues!.Queues[0].QueueId } });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task ArchiveQueue_ShouldHideQueueUnlessArchivedAreRequested()
+    {
+        // Arrange
+        var (_, businessSlug, queueSlug) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "main");
+
+        // Act
+        var response = await Client.PostAsync($"/api/business/{businessSlug}/queues/{queueSlug}/archive", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var forStaff = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>(
+            $"/api/business/{businessSlug}/queues?includeClosed=true");
+        forStaff!.Queues.Should().BeEmpty();
+
+        var forOwner = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>(
+            $"/api/business/{businessSlug}/queues?includeClosed=true&includeArchived=true");
+        var archived = forOwner!.Queues.Should().ContainSingle().Subject;
+        archived.IsArchived.Should().BeTrue();
+        archived.IsActive.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task ArchiveQueue_WithCustomersWaiting_ShouldReturn409()
+    {
+        // Arrange
+        var (_, businessSlug, queueSlug) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "main");
+        await Client.PostAsJsonAsync($"/api/join/{businessSlug}/{queueSlug}", new { name = "Alice" });
+
+        // Act
+        var response = await Client.PostAsync($"/api/business/{businessSlug}/queues/{queueSlug}/archive", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Conflict);
+    }
+
+    [Fact]
+    public async Task RestoreQueue_ShouldBringQueueBackClosed()
+    {
+        // Arrange
+        var (_, businessSlug, queueSlug) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "main");
+        await Client.PostAsync($"/api/business/{businessSlug}/queues/{queueSlug}/archive", null);
+
+        // Act
+        var response = await Client.PostAsync($"/api/business/{businessSlug}/queues/{queueSlug}/restore", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var forStaff = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>(
+            $"/api/business/{businessSlug}/queues?includeClosed=true");
+        var restored = forStaff!.Queues.Should().ContainSingle().Subject;
+        restored.IsArchived.Should().BeFalse();
+        restored.IsActive.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task ArchiveQueue_AsNonOwner_ShouldReturn403()
+    {
+        // Arrange
+        var (_, businessSlug, queueSlug) = await SetupOwnerWithQueue("owner@test.com", "my-shop", "main");
+        var otherToken = await GetAuthToken("other@test.com");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", otherToken);
+
+        // Act
+        var response = await Client.PostAsync($"/api/business/{businessSlug}/queues/{queueSlug}/archive", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    private async Task<(string Token, string BusinessSlug, string QueueSlug)> SetupOwnerWithQueue(string email, string bizSlug, string queueSlug)
+    {
+        var token = await GetAuthToken(email);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        await Client.PostAsJsonAsync("/api/business", new { name = bizSlug, slug = bizSlug });
+        await Client.PostAsJsonAsync($"/api/business/{bizSlug}/queues", new { name = queueSlug, slug = queueSlug });
+        return (token, bizSlug, queueSlug);
+    }
+
+    private async Task<string> GetAuthToken(string email)
+    {
+        await Client.PostAsJsonAsync("/api/auth/send-magic-link", new { email });
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var magicLink = db.MagicLinks.OrderByDescending(l => l.CreatedAt).First(l => l.Email == email);
+        var verifyResponse = await Client.GetFromJsonAsync<VerifyResponse>($"/api/auth/verify?token={magicLink.Token}");
+        return verifyResponse!.Token;
+    }
+
+    private record VerifyResponse(string Token, Guid UserId, string Email, bool IsNewUser);
+}
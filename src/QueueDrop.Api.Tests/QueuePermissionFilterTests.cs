@@ -0,0 +1,33 @@
+using System.Security.Claims;
+using FluentAssertions;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Http.HttpResults;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Api.Tests;
+
+public class QueuePermissionFilterTests
+{
+    [Fact]
+    public async Task InvokeAsync_WithoutSignedInUser_ShouldReturn401WithoutRunningTheEndpoint()
+    {
+        // Arrange - no RequireAuthorization() in front of the filter
+        var httpContext = new DefaultHttpContext { User = new ClaimsPrincipal(new ClaimsIdentity()) };
+        httpContext.Request.RouteValues["queueId"] = Guid.NewGuid().ToString();
+        var context = new DefaultEndpointFilterInvocationContext(httpContext);
+        var filter = new QueuePermissionFilter(StaffPermission.CallCustomers);
+        var endpointRan = false;
+
+        // Act
+        var result = await filter.InvokeAsync(context, _ =>
+        {
+            endpointRan = true;
+            return ValueTask.FromResult<object?>(Results.NoContent());
+        });
+
+        // Assert
+        result.Should().BeOfType<UnauthorizedHttpResult>();
+        endpointRan.Should().BeFalse();
+    }
+}
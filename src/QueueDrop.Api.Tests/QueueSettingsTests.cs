@@ -10,7 +10,7 @@ public class QueueSettingsTests : IntegrationTestBase
     public async Task GetSettings_ShouldReturnCurrentSettings()
     {
         // Act
-        var response = await Client.GetAsync($"/api/queues/{TestQueueId}/settings");
+        var response = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/settings");
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.OK);
@@ -25,7 +25,7 @@ public class QueueSettingsTests : IntegrationTestBase
     public async Task GetSettings_WithNonExistentQueue_ShouldReturn404()
     {
         // Act
-        var response = await Client.GetAsync($"/api/queues/{Guid.NewGuid()}/settings");
+        var response = await StaffClient.GetAsync($"/api/queues/{Guid.NewGuid()}/settings");
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.NotFound);
@@ -46,11 +46,11 @@ public class QueueSettingsTests : IntegrationTestBase
         };
 
         // Act
-        var updateResponse = await Client.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
+        var updateResponse = await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
         updateResponse.StatusCode.Should().Be(HttpStatusCode.NoContent);
 
         // Verify changes persisted
-        var getResponse = await Client.GetAsync($"/api/queues/{TestQueueId}/settings");
+        var getResponse = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/settings");
         var settings = await getResponse.Content.ReadFromJsonAsync<SettingsResponse>();
 
         // Assert
@@ -78,11 +78,11 @@ public class QueueSettingsTests : IntegrationTestBase
         };
 
         // Act
-        var updateResponse = await Client.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
+        var updateResponse = await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
         updateResponse.StatusCode.Should().Be(HttpStatusCode.NoContent);
 
         // Verify
-        var getResponse = await Client.GetAsync($"/api/queues/{TestQueueId}/settings");
+        var getResponse = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/settings");
         var settings = await getResponse.Content.ReadFromJsonAsync<SettingsResponse>();
 
         // Assert
@@ -102,7 +102,7 @@ public class QueueSettingsTests : IntegrationTestBase
         };
 
         // Act
-        var response = await Client.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
+        var response = await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
@@ -121,7 +121,7 @@ public class QueueSettingsTests : IntegrationTestBase
         };
 
         // Act
-        var response = await Client.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
+        var response = await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
@@ -140,7 +140,7 @@ public class QueueSettingsTests : IntegrationTestBase
         };
 
         // Act
-        var response = await Client.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
+        var response = await StaffClient.PutAsJsonAsync($"/api/queues/{TestQueueId}/settings", newSettings);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
@@ -159,7 +159,7 @@ public class QueueSettingsTests : IntegrationTestBase
         };
 
         // Act
-        var response = await Client.PutAsJsonAsync($"/api/queues/{Guid.NewGuid()}/settings", newSettings);
+        var response = await StaffClient.PutAsJsonAsync($"/api/queues/{Guid.NewGuid()}/settings", newSettings);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.NotFound);
@@ -0,0 +1,146 @@
+using System.Net;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.Extensions.DependencyInjection;
+
+namespace QueueDrop.Api.Tests;
+
+public class QueueStatusTests : IntegrationTestBase
+{
+    private record StatusResponse(bool IsActive, bool IsPaused, DateTimeOffset? AutoCloseAt);
+
+    private record PositionResponse(int? Position, string Status, bool QueueIsActive, bool QueueIsPaused);
+
+    private record QueueDto(Guid QueueId, bool IsActive, bool IsPaused, bool CanJoin);
+
+    private record GetBusinessQueuesResponse(List<QueueDto> Queues);
+
+    [Fact]
+    public async Task Pause_ShouldStopJoinsAndCalls()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/pause", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var status = await response.Content.ReadFromJsonAsync<StatusResponse>();
+        status!.IsPaused.Should().BeTrue();
+
+        var joinResponse = await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}", new { name = "Bob" });
+        joinResponse.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var callResponse = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        callResponse.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Resume_ShouldLetCustomersJoinAgain()
+    {
+        // Arrange
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/pause", null);
+
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/resume", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var joinResponse = await Client.PostAsJsonAsync($"/api/join/{TestBusinessSlug}", new { name = "Bob" });
+        joinResponse.StatusCode.Should().Be(HttpStatusCode.Created);
+    }
+
+    [Fact]
+    public async Task Close_ShouldShowInCustomerPosition()
+    {
+        // Arrange
+        var token = await JoinQueueAndGetToken("Alice");
+
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/close", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var position = await Client.GetFromJsonAsync<PositionResponse>($"/api/q/{token}");
+        position!.QueueIsActive.Should().BeFalse();
+        position.Position.Should().Be(1);
+
+        var openResponse = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/open", null);
+        var status = await openResponse.Content.ReadFromJsonAsync<StatusResponse>();
+        status!.IsActive.Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task Close_ShouldHideQueueFromCustomersButNotStaff()
+    {
+        // Act
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/close", null);
+
+        // Assert
+        var forCustomers = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>(
+            $"/api/business/{TestBusinessSlug}/queues");
+        forCustomers!.Queues.Should().NotContain(q => q.QueueId == TestQueueId);
+
+        var forStaff = await StaffClient.GetFromJsonAsync<GetBusinessQueuesResponse>(
+            $"/api/business/{TestBusinessSlug}/queues?includeClosed=true");
+        forStaff!.Queues.Should().ContainSingle(q => q.QueueId == TestQueueId)
+            .Which.IsActive.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task Close_AskingForClosedQueuesWithoutSigningIn_ShouldStillHideQueue()
+    {
+        // Arrange
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/close", null);
+
+        // Act
+        var response = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>(
+            $"/api/business/{TestBusinessSlug}/queues?includeClosed=true&includeArchived=true");
+
+        // Assert
+        response!.Queues.Should().NotContain(q => q.QueueId == TestQueueId);
+    }
+
+    [Fact]
+    public async Task ScheduleAutoClose_InTheFuture_ShouldBeSaved()
+    {
+        // Arrange
+        var closesAt = ServiceProvider.GetRequiredService<TimeProvider>().GetUtcNow().AddHours(2);
+
+        // Act
+        var response = await StaffClient.PutAsJsonAsync(
+            $"/api/queues/{TestQueueId}/auto-close",
+            new { ClosesAt = closesAt });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var status = await response.Content.ReadFromJsonAsync<StatusResponse>();
+        status!.AutoCloseAt.Should().Be(closesAt);
+    }
+
+    [Fact]
+    public async Task ScheduleAutoClose_InThePast_ShouldReturnBadRequest()
+    {
+        // Arrange
+        var closesAt = ServiceProvider.GetRequiredService<TimeProvider>().GetUtcNow().AddMinutes(-5);
+
+        // Act
+        var response = await StaffClient.PutAsJsonAsync(
+            $"/api/queues/{TestQueueId}/auto-close",
+            new { ClosesAt = closesAt });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Pause_WithUnknownQueue_ShouldReturnNotFound()
+    {
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{Guid.NewGuid()}/pause", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+}
@@ -0,0 +1,131 @@
+using System.Net;
+using System.Net.Http.Json;
+using FluentAssertions;
+
+namespace QueueDrop.Api.Tests;
+
+public class RecallAndRequeueTests : IntegrationTestBase
+{
+    private record CallNextResponse(Guid CustomerId, string CustomerName);
+
+    private record RequeueResponse(Guid CustomerId, int Position);
+
+    private record CustomerDto(Guid Id, string Name, string Status, int? Position);
+
+    private record GetCustomersResponse(List<CustomerDto> Customers);
+
+    [Fact]
+    public async Task Recall_CalledCustomer_ShouldReturnNoContent()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var customerId = await CallNext();
+
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/recall", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        var customers = await GetQueueCustomers();
+        customers.Should().ContainSingle(c => c.Id == customerId)
+            .Which.Status.Should().Be("Called");
+    }
+
+    [Fact]
+    public async Task Recall_WaitingCustomer_ShouldReturnBadRequest()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var alice = (await GetQueueCustomers()).Single();
+
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{alice.Id}/recall", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Requeue_ToPosition_ShouldReturnCustomerToWaiting()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        await JoinQueueAndGetToken("Bob");
+        await JoinQueueAndGetToken("Charlie");
+        var aliceId = await CallNext();
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{aliceId}/requeue",
+            new { Position = 2 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var result = await response.Content.ReadFromJsonAsync<RequeueResponse>();
+        result!.Position.Should().Be(2);
+
+        var waiting = (await GetQueueCustomers())
+            .Where(c => c.Status == "Waiting")
+            .OrderBy(c => c.Position)
+            .Select(c => c.Name);
+        waiting.Should().Equal("Bob", "Alice", "Charlie");
+    }
+
+    [Fact]
+    public async Task Requeue_WithoutPosition_ShouldPutCustomerAtFront()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        await JoinQueueAndGetToken("Bob");
+        var aliceId = await CallNext();
+
+        // Act
+        await StaffClient.PostAsJsonAsync($"/api/queues/{TestQueueId}/customers/{aliceId}/requeue", new { });
+        var calledAgain = await CallNext();
+
+        // Assert
+        calledAgain.Should().Be(aliceId);
+    }
+
+    [Fact]
+    public async Task Requeue_WaitingCustomer_ShouldReturnBadRequest()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var alice = (await GetQueueCustomers()).Single();
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{alice.Id}/requeue",
+            new { Position = 1 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Requeue_WithUnknownCustomer_ShouldReturnNotFound()
+    {
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{Guid.NewGuid()}/requeue",
+            new { Position = 1 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    private async Task<Guid> CallNext()
+    {
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        var result = await response.Content.ReadFromJsonAsync<CallNextResponse>();
+        return result!.CustomerId;
+    }
+
+    private async Task<List<CustomerDto>> GetQueueCustomers()
+    {
+        var data = await StaffClient.GetFromJsonAsync<GetCustomersResponse>($"/api/queues/{TestQueueId}/customers");
+        return data!.Customers;
+    }
+}
@@ -0,0 +1,88 @@
+using System.Net;
+using System.Net.Http.Json;
+using FluentAssertions;
+
+namespace QueueDrop.Api.Tests;
+
+public class ReorderCustomerTests : IntegrationTestBase
+{
+    private record ReorderResponse(Guid CustomerId, int Position);
+
+    private record CustomerDto(Guid Id, string Name, string Status, int? Position);
+
+    private record GetCustomersResponse(List<CustomerDto> Customers);
+
+    [Fact]
+    public async Task Reorder_WaitingCustomer_ShouldMoveThemInLine()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        await JoinQueueAndGetToken("Bob");
+        await JoinQueueAndGetToken("Charlie");
+        var charlie = (await GetQueueCustomers()).Single(c => c.Name == "Charlie");
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{charlie.Id}/reorder",
+            new { Position = 1 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var result = await response.Content.ReadFromJsonAsync<ReorderResponse>();
+        result!.Position.Should().Be(1);
+
+        var order = (await GetQueueCustomers()).OrderBy(c => c.Position).Select(c => c.Name);
+        order.Should().Equal("Charlie", "Alice", "Bob");
+    }
+
+    [Fact]
+    public async Task Reorder_CalledCustomer_ShouldReturnBadRequest()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        var alice = (await GetQueueCustomers()).Single();
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{alice.Id}/reorder",
+            new { Position = 1 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Reorder_WithInvalidPosition_ShouldReturnBadRequest()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var alice = (await GetQueueCustomers()).Single();
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{alice.Id}/reorder",
+            new { Position = 0 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Reorder_WithUnknownCustomer_ShouldReturnNotFound()
+    {
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{Guid.NewGuid()}/reorder",
+            new { Position = 1 });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    private async Task<List<CustomerDto>> GetQueueCustomers()
+    {
+        var data = await StaffClient.GetFromJsonAsync<GetCustomersResponse>($"/api/queues/{TestQueueId}/customers");
+        return data!.Customers;
+    }
+}
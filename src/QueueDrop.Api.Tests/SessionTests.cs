@@ -0,0 +1,148 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.Extensions.DependencyInjection;
+
+namespace QueueDrop.Api.Tests;
+
+public class SessionTests : IntegrationTestBase
+{
+    [Fact]
+    public async Task Refresh_WithRefreshToken_ShouldIssueNewTokens()
+    {
+        // Arrange
+        var signIn = await SignIn("tablet@example.com");
+
+        // Act
+        var response = await Client.PostAsJsonAsync("/api/auth/refresh", new { refreshToken = signIn.RefreshToken });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var result = await response.Content.ReadFromJsonAsync<RefreshResponse>();
+        result!.Token.Should().NotBeNullOrEmpty();
+        result.RefreshToken.Should().NotBe(signIn.RefreshToken);
+
+        var me = await SendAs(result.Token, HttpMethod.Get, "/api/auth/me");
+        me.StatusCode.Should().Be(HttpStatusCode.OK);
+    }
+
+    [Fact]
+    public async Task Refresh_WithUsedRefreshToken_ShouldReturn401()
+    {
+        // Arrange
+        var signIn = await SignIn("tablet@example.com");
+        await Client.PostAsJsonAsync("/api/auth/refresh", new { refreshToken = signIn.RefreshToken });
+
+        // Act
+        var response = await Client.PostAsJsonAsync("/api/auth/refresh", new { refreshToken = signIn.RefreshToken });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
+    }
+
+    [Fact]
+    public async Task ListSessions_ShouldShowEachDeviceAndMarkTheCurrentOne()
+    {
+        // Arrange
+        var phone = await SignIn("sam@example.com", "Phone Browser");
+        await SignIn("sam@example.com", "Counter Tablet");
+
+        // Act
+        var response = await SendAs(phone.Token, HttpMethod.Get, "/api/auth/sessions");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var result = await response.Content.ReadFromJsonAsync<SessionsResponse>();
+        result!.Sessions.Should().HaveCount(2);
+        result.Sessions.Should().ContainSingle(s => s.IsCurrent).Which.Device.Should().Be("Phone Browser");
+    }
+
+    [Fact]
+    public async Task RevokeSession_ShouldSignThatDeviceOutImmediately()
+    {
+        // Arrange
+        var phone = await SignIn("sam@example.com", "Phone Browser");
+        var tablet = await SignIn("sam@example.com", "Counter Tablet");
+
+        var sessions = await (await SendAs(phone.Token, HttpMethod.Get, "/api/auth/sessions"))
+            .Content.ReadFromJsonAsync<SessionsResponse>();
+        var tabletSession = sessions!.Sessions.Single(s => s.Device == "Counter Tablet");
+
+        // Act
+        var response = await SendAs(phone.Token, HttpMethod.Delete, $"/api/auth/sessions/{tabletSession.SessionId}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        (await SendAs(tablet.Token, HttpMethod.Get, "/api/auth/me")).StatusCode
+            .Should().Be(HttpStatusCode.Unauthorized);
+        (await Client.PostAsJsonAsync("/api/auth/refresh", new { refreshToken = tablet.RefreshToken })).StatusCode
+            .Should().Be(HttpStatusCode.Unauthorized);
+        (await SendAs(phone.Token, HttpMethod.Get, "/api/auth/me")).StatusCode
+            .Should().Be(HttpStatusCode.OK);
+    }
+
+    [Fact]
+    public async Task RevokeSession_ForAnotherUser_ShouldReturn404()
+    {
+        // Arrange
+        var mine = await SignIn("sam@example.com");
+        var theirs = await SignIn("alex@example.com");
+
+        var sessions = await (await SendAs(theirs.Token, HttpMethod.Get, "/api/auth/sessions"))
+            .Content.ReadFromJsonAsync<SessionsResponse>();
+
+        // Act
+        var response = await SendAs(mine.Token, HttpMethod.Delete, $"/api/auth/sessions/{sessions!.Sessions[0].SessionId}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+        (await SendAs(theirs.Token, HttpMethod.Get, "/api/auth/me")).StatusCode
+            .Should().Be(HttpStatusCode.OK);
+    }
+
+    [Fact]
+    public async Task Logout_ShouldEndTheCurrentSession()
+    {
+        // Arrange
+        var signIn = await SignIn("sam@example.com");
+
+        // Act
+        var response = await SendAs(signIn.Token, HttpMethod.Post, "/api/auth/logout");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+        (await SendAs(signIn.Token, HttpMethod.Get, "/api/auth/me")).StatusCode
+            .Should().Be(HttpStatusCode.Unauthorized);
+        (await Client.PostAsJsonAsync("/api/auth/refresh", new { refreshToken = signIn.RefreshToken })).StatusCode
+            .Should().Be(HttpStatusCode.Unauthorized);
+    }
+
+    private async Task<VerifyResponse> SignIn(string email, string device = "Test Browser")
+    {
+        await Client.PostAsJsonAsync("/api/auth/send-magic-link", new { email });
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var magicLink = db.MagicLinks.First(l => l.Email == email && l.UsedAt == null);
+
+        var request = new HttpRequestMessage(HttpMethod.Get, $"/api/auth/verify?token={magicLink.Token}");
+        request.Headers.TryAddWithoutValidation("User-Agent", device);
+        var response = await Client.SendAsync(request);
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<VerifyResponse>())!;
+    }
+
+    private Task<HttpResponseMessage> SendAs(string token, HttpMethod method, string url)
+    {
+        var request = new HttpRequestMessage(method, url);
+        request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        return Client.SendAsync(request);
+    }
+
+    private record VerifyResponse(string Token, string RefreshToken, Guid UserId, string Email);
+    private record RefreshResponse(string Token, string RefreshToken);
+    private record SessionDto(Guid SessionId, string Device, bool IsCurrent);
+    private record SessionsResponse(List<SessionDto> Sessions);
+}
@@ -15,7 +15,7 @@ public class StaffDashboardTests : IntegrationTestBase
         await JoinQueueAndGetToken("Charlie");
 
         // Act
-        var response = await Client.GetAsync($"/api/queues/{TestQueueId}/customers");
+        var response = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/customers");
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.OK);
@@ -36,7 +36,7 @@ public class StaffDashboardTests : IntegrationTestBase
         await JoinQueueAndGetToken("Third");
 
         // Act
-        var response = await Client.GetAsync($"/api/queues/{TestQueueId}/customers");
+        var response = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/customers");
         var data = await response.Content.ReadFromJsonAsync<GetCustomersResponse>();
 
         // Assert
@@ -47,11 +47,28 @@ public class StaffDashboardTests : IntegrationTestBase
         waitingCustomers[2].Position.Should().Be(3);
     }
 
+    [Fact]
+    public async Task GetQueueCustomers_ShouldReturnVersionThatAdvancesWithEachChange()
+    {
+        // Arrange
+        var initial = await GetQueueCustomersResponse();
+
+        // Act
+        await JoinQueueAndGetToken("First");
+        var afterJoin = await GetQueueCustomersResponse();
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        var afterCall = await GetQueueCustomersResponse();
+
+        // Assert
+        afterJoin.Version.Should().Be(initial.Version + 1);
+        afterCall.Version.Should().Be(afterJoin.Version + 1);
+    }
+
     [Fact]
     public async Task GetQueueCustomers_WithNonExistentQueue_ShouldReturn404()
     {
         // Act
-        var response = await Client.GetAsync($"/api/queues/{Guid.NewGuid()}/customers");
+        var response = await StaffClient.GetAsync($"/api/queues/{Guid.NewGuid()}/customers");
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.NotFound);
@@ -62,14 +79,14 @@ public class StaffDashboardTests : IntegrationTestBase
     {
         // Arrange - add customer and call them
         var token = await JoinQueueAndGetToken("Customer");
-        await Client.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
 
         // Get customer ID
         var customers = await GetQueueCustomers();
         var customerId = customers.First(c => c.Token == token).Id;
 
         // Act
-        var response = await Client.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/serve", null);
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/serve", null);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.NoContent);
@@ -88,7 +105,7 @@ public class StaffDashboardTests : IntegrationTestBase
         var customerId = customers.First(c => c.Token == token).Id;
 
         // Act
-        var response = await Client.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/serve", null);
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/serve", null);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
@@ -99,13 +116,13 @@ public class StaffDashboardTests : IntegrationTestBase
     {
         // Arrange - add customer and call them
         var token = await JoinQueueAndGetToken("NoShowCustomer");
-        await Client.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
 
         var customers = await GetQueueCustomers();
         var customerId = customers.First(c => c.Token == token).Id;
 
         // Act
-        var response = await Client.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/no-show", null);
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/no-show", null);
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.NoContent);
@@ -120,7 +137,7 @@ public class StaffDashboardTests : IntegrationTestBase
         var customerId = customers.First(c => c.Token == token).Id;
 
         // Act
-        var response = await Client.DeleteAsync($"/api/queues/{TestQueueId}/customers/{customerId}");
+        var response = await StaffClient.DeleteAsync($"/api/queues/{TestQueueId}/customers/{customerId}");
 
         // Assert
         response.StatusCode.Should().Be(HttpStatusCode.NoContent);
@@ -158,9 +175,40 @@ public class StaffDashboardTests : IntegrationTestBase
 
     private async Task<List<CustomerDto>> GetQueueCustomers()
     {
+        var data = await GetQueueCustomersResponse();
+        return data.Customers;
+    }
+
+    [Fact]
+    public async Task GetQueueCustomers_WithoutSignIn_ShouldReturn401()
+    {
+        // Act
         var response = await Client.GetAsync($"/api/queues/{TestQueueId}/customers");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
+    }
+
+    [Fact]
+    public async Task CallNext_WithoutSignIn_ShouldNotCallAnyone()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+
+        // Act - knowing the queue id isn't enough to drive it
+        var response = await Client.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
+        var data = await GetQueueCustomersResponse();
+        data.QueueInfo.WaitingCount.Should().Be(1);
+    }
+
+    private async Task<GetCustomersResponse> GetQueueCustomersResponse()
+    {
+        var response = await StaffClient.GetAsync($"/api/queues/{TestQueueId}/customers");
         var data = await response.Content.ReadFromJsonAsync<GetCustomersResponse>();
-        return data!.Customers;
+        return data!;
     }
 
     private record CustomerDto(
@@ -181,7 +229,7 @@ public class StaffDashboardTests : IntegrationTestBase
         int WaitingCount,
         int CalledCount);
 
-    private record GetCustomersResponse(List<CustomerDto> Customers, QueueInfoDto QueueInfo);
+    private record GetCustomersResponse(List<CustomerDto> Customers, QueueInfoDto QueueInfo, long Version);
 
     private record QueueByBusinessResponse(Guid QueueId, string QueueName, Guid BusinessId, string BusinessName);
 }
@@ -0,0 +1,230 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Api.Tests;
+
+public class StaffPermissionsTests : IntegrationTestBase
+{
+    private record QueueDto(Guid QueueId, string Slug);
+
+    private record GetBusinessQueuesResponse(List<QueueDto> Queues);
+
+    private record QueuePermissionsDto(Guid QueueId, List<string> Permissions);
+
+    private record BusinessDto(string Slug, string Role, List<string> Permissions, List<QueuePermissionsDto> QueuePermissions);
+
+    private record MeResponse(List<BusinessDto> Businesses);
+
+    [Fact]
+    public async Task NewStaff_ShouldGetDefaultPermissions()
+    {
+        // Arrange
+        var setup = await SetupOwnerWithStaff();
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.StaffToken);
+
+        // Act
+        var me = await Client.GetFromJsonAsync<MeResponse>("/api/auth/me");
+
+        // Assert
+        me!.Businesses.Should().ContainSingle()
+            .Which.Permissions.Should().BeEquivalentTo("callCustomers", "manageCustomers", "editSettings");
+    }
+
+    [Fact]
+    public async Task SetPermissions_ShouldShowUpForTheStaffMember()
+    {
+        // Arrange
+        var setup = await SetupOwnerWithStaff();
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.OwnerToken);
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{setup.BusinessSlug}/staff/{setup.StaffUserId}/permissions",
+            new
+            {
+                permissions = new[] { "callCustomers", "manageCustomers" },
+                queuePermissions = new[] { new { queueId = setup.QueueId, permissions = new[] { "callCustomers" } } }
+            });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.StaffToken);
+        var me = await Client.GetFromJsonAsync<MeResponse>("/api/auth/me");
+        var business = me!.Businesses.Single();
+        business.Permissions.Should().BeEquivalentTo("callCustomers", "manageCustomers");
+        business.QueuePermissions.Should().ContainSingle()
+            .Which.Permissions.Should().BeEquivalentTo("callCustomers");
+    }
+
+    [Fact]
+    public async Task QueueOverride_ShouldBlockRemovingCustomersButAllowCalling()
+    {
+        // Arrange - bar staff may call customers on this queue but not clear it
+        var setup = await SetupOwnerWithStaff();
+        await SetStaffPermissions(setup, ["callCustomers", "manageCustomers"], setup.QueueId, ["callCustomers"]);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.StaffToken);
+
+        // Act
+        var removeResponse = await Client.DeleteAsync($"/api/queues/{setup.QueueId}/customers/{Guid.NewGuid()}");
+        var callResponse = await Client.PostAsync($"/api/queues/{setup.QueueId}/call-next", null);
+
+        // Assert
+        removeResponse.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+        callResponse.StatusCode.Should().NotBe(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task StaffWithoutEditSettings_ShouldNotCloseQueue()
+    {
+        // Arrange
+        var setup = await SetupOwnerWithStaff();
+        await SetStaffPermissions(setup, ["callCustomers"]);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.StaffToken);
+
+        // Act
+        var response = await Client.PostAsync($"/api/queues/{setup.QueueId}/close", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task MemberOfAnotherBusiness_ShouldNotDriveTheQueue()
+    {
+        // Arrange
+        var setup = await SetupOwnerWithStaff();
+        var otherToken = await GetAuthToken("other-owner@test.com");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", otherToken);
+        await Client.PostAsJsonAsync("/api/business", new { name = "Other Shop", slug = "other-shop" });
+
+        // Act
+        var response = await Client.PostAsync($"/api/queues/{setup.QueueId}/call-next", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task StaffWithManageTeam_ShouldSeeTheTeam()
+    {
+        // Arrange
+        var setup = await SetupOwnerWithStaff();
+        await SetStaffPermissions(setup, ["manageTeam"]);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.StaffToken);
+
+        // Act
+        var response = await Client.GetAsync($"/api/business/{setup.BusinessSlug}/staff");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+    }
+
+    [Fact]
+    public async Task SetPermissions_AsStaff_ShouldReturn403()
+    {
+        // Arrange
+        var setup = await SetupOwnerWithStaff();
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.StaffToken);
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{setup.BusinessSlug}/staff/{setup.StaffUserId}/permissions",
+            new { permissions = new[] { "manageTeam" } });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task SetPermissions_OnOwner_ShouldReturn400()
+    {
+        // Arrange
+        var setup = await SetupOwnerWithStaff();
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.OwnerToken);
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var owner = await db.BusinessMembers.FirstAsync(
+            bm => bm.Role == BusinessRole.Owner && bm.Business.Slug == setup.BusinessSlug);
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{setup.BusinessSlug}/staff/{owner.UserId}/permissions",
+            new { permissions = new[] { "callCustomers" } });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task SetPermissions_WithUnknownPermission_ShouldReturn400()
+    {
+        // Arrange
+        var setup = await SetupOwnerWithStaff();
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.OwnerToken);
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{setup.BusinessSlug}/staff/{setup.StaffUserId}/permissions",
+            new { permissions = new[] { "launchRockets" } });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    private sealed record Setup(string OwnerToken, string StaffToken, Guid StaffUserId, string BusinessSlug, Guid QueueId);
+
+    private async Task SetStaffPermissions(Setup setup, string[] permissions, Guid? queueId = null, string[]? queuePermissions = null)
+    {
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", setup.OwnerToken);
+
+        var queueOverrides = queueId is null
+            ? Array.Empty<object>()
+            : new object[] { new { queueId, permissions = queuePermissions } };
+
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{setup.BusinessSlug}/staff/{setup.StaffUserId}/permissions",
+            new { permissions, queuePermissions = queueOverrides });
+        response.EnsureSuccessStatusCode();
+    }
+
+    private async Task<Setup> SetupOwnerWithStaff()
+    {
+        const string businessSlug = "bar-and-grill";
+        var ownerToken = await GetAuthToken("owner@test.com");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", ownerToken);
+        await Client.PostAsJsonAsync("/api/business", new { name = "Bar and Grill", slug = businessSlug });
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/queues", new { name = "Dine-in", slug = "dine-in" });
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/staff/invite", new { email = "bar@test.com" });
+
+        var queues = await Client.GetFromJsonAsync<GetBusinessQueuesResponse>($"/api/business/{businessSlug}/queues");
+        var queueId = queues!.Queues.Single(q => q.Slug == "dine-in").QueueId;
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var inviteLink = await db.MagicLinks.FirstAsync(l => l.Email == "bar@test.com" && l.Type == MagicLinkType.Invite);
+
+        Client.DefaultRequestHeaders.Authorization = null;
+        var verifyResponse = await Client.GetFromJsonAsync<VerifyResponse>($"/api/auth/verify?token={inviteLink.Token}");
+
+        return new Setup(ownerToken, verifyResponse!.Token, verifyResponse.UserId, businessSlug, queueId);
+    }
+
+    private async Task<string> GetAuthToken(string email)
+    {
+        await Client.PostAsJsonAsync("/api/auth/send-magic-link", new { email });
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var magicLink = db.MagicLinks.OrderByDescending(l => l.CreatedAt).First(l => l.Email == email);
+        var verifyResponse = await Client.GetFromJsonAsync<VerifyResponse>($"/api/auth/verify?token={magicLink.Token}");
+        return verifyResponse!.Token;
+    }
+
+    private record VerifyResponse(string Token, Guid UserId, string Email, bool IsNewUser);
+}
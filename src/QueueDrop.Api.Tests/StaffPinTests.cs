@@ -0,0 +1,373 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Caching.Memory;
+using Microsoft.Extensions.DependencyInjection;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Api.Tests;
+
+public class StaffPinTests : IntegrationTestBase
+{
+    private static readonly Guid BarStaffId = new("44444444-4444-4444-4444-444444444444");
+    private const string BarStaffEmail = "bar@demo-shop.test";
+    private const string BarStaffPin = "2468";
+    private static readonly Guid TeamLeadId = new("55555555-5555-5555-5555-555555555555");
+    private const string TeamLeadEmail = "lead@demo-shop.test";
+
+    private record LockScreenMember(Guid UserId, string Email);
+
+    private record LockScreenResponse(List<LockScreenMember> Members);
+
+    private record UnlockResponse(string ActingToken, Guid UserId, string Email, string Role, List<string> Permissions);
+
+    protected override async Task SeedAdditionalDataAsync(TestAppDbContext db)
+    {
+        var staff = User.Create(BarStaffEmail, DateTimeOffset.UtcNow);
+        typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(staff, BarStaffId);
+        db.Users.Add(staff);
+
+        var membership = BusinessMember.CreateStaffInvite(BarStaffId, TestBusinessId, DateTimeOffset.UtcNow);
+        membership.AcceptInvite(DateTimeOffset.UtcNow);
+        membership.SetPin(BarStaffPin);
+        db.BusinessMembers.Add(membership);
+
+        // Staff who can manage the team, but aren't owners
+        var lead = User.Create(TeamLeadEmail, DateTimeOffset.UtcNow);
+        typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(lead, TeamLeadId);
+        db.Users.Add(lead);
+
+        var leadMembership = BusinessMember.CreateStaffInvite(TeamLeadId, TestBusinessId, DateTimeOffset.UtcNow);
+        leadMembership.AcceptInvite(DateTimeOffset.UtcNow);
+        leadMembership.SetPermissions(BusinessMember.DefaultStaffPermissions | StaffPermission.ManageTeam);
+        db.BusinessMembers.Add(leadMembership);
+
+        await db.SaveChangesAsync();
+        db.ChangeTracker.Clear();
+    }
+
+    [Fact]
+    public async Task LockScreen_ShouldListOnlyMembersWithAPin()
+    {
+        // Act
+        var response = await StaffClient.GetFromJsonAsync<LockScreenResponse>($"/api/business/{TestBusinessSlug}/lock-screen");
+
+        // Assert - the owner hasn't set a PIN yet
+        response!.Members.Should().ContainSingle()
+            .Which.Email.Should().Be(BarStaffEmail);
+    }
+
+    [Fact]
+    public async Task SetPin_ShouldLetTheMemberUnlock()
+    {
+        // Arrange
+        var setResponse = await StaffClient.PutAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/staff/{TestOwnerId}/pin",
+            new { pin = "1357" });
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/unlock",
+            new { userId = TestOwnerId, pin = "1357" });
+
+        // Assert
+        setResponse.StatusCode.Should().Be(HttpStatusCode.NoContent);
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var result = await response.Content.ReadFromJsonAsync<UnlockResponse>();
+        result!.Email.Should().Be(TestOwnerEmail);
+        result.Role.Should().Be("owner");
+    }
+
+    [Fact]
+    public async Task SetPin_WithLetters_ShouldReturn400()
+    {
+        // Act
+        var response = await StaffClient.PutAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/staff/{BarStaffId}/pin",
+            new { pin = "12ab" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task SetPin_ForAnotherMember_WithoutManageTeam_ShouldReturn403()
+    {
+        // Arrange
+        var staffToken = ServiceProvider.GetRequiredService<IJwtTokenService>().GenerateToken(BarStaffId, BarStaffEmail);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", staffToken);
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/staff/{TestOwnerId}/pin",
+            new { pin = "1111" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task SetPin_ForOwner_ByManageTeamStaff_ShouldReturn403()
+    {
+        // Arrange
+        SignInAsTeamLead();
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/staff/{TestOwnerId}/pin",
+            new { pin = "1111" });
+
+        // Assert - otherwise they could unlock a device as the owner
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+
+        var unlock = await StaffClient.PostAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/unlock",
+            new { userId = TestOwnerId, pin = "1111" });
+        unlock.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task SetPin_ForOwner_ByThatOwner_ShouldReturn204()
+    {
+        // Act
+        var response = await StaffClient.PutAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/staff/{TestOwnerId}/pin",
+            new { pin = "1111" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+    }
+
+    [Fact]
+    public async Task SetPin_ForStaff_ByManageTeamStaff_ShouldReturn403()
+    {
+        // Arrange
+        SignInAsTeamLead();
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/staff/{BarStaffId}/pin",
+            new { pin = "1111" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task RemovePin_ForStaff_ByManageTeamStaff_ShouldReturn204()
+    {
+        // Arrange
+        SignInAsTeamLead();
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/staff/{BarStaffId}/pin",
+            new { pin = (string?)null });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var membership = await db.BusinessMembers.SingleAsync(bm => bm.UserId == BarStaffId);
+        membership.HasPin.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task SetPin_ForThemselves_ByManageTeamStaff_ShouldReturn204()
+    {
+        // Arrange
+        SignInAsTeamLead();
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/staff/{TeamLeadId}/pin",
+            new { pin = "1357" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+    }
+
+    [Fact]
+    public async Task Unlock_WithWrongPin_ShouldReturn400()
+    {
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/unlock",
+            new { userId = BarStaffId, pin = "0000" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Unlock_AfterTooManyWrongPins_ShouldLockTheMemberOut()
+    {
+        // Arrange
+        for (var i = 0; i < BusinessMember.MaxFailedPinAttempts; i++)
+        {
+            await StaffClient.PostAsJsonAsync(
+                $"/api/business/{TestBusinessSlug}/unlock",
+                new { userId = BarStaffId, pin = "0000" });
+        }
+
+        // Act - even the right PIN is refused until the lockout ends
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/unlock",
+            new { userId = BarStaffId, pin = BarStaffPin });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.TooManyRequests);
+    }
+
+    [Fact]
+    public async Task Unlock_AfterTooManyWrongPins_ShouldStayLockedOutWithAFreshCache()
+    {
+        // Arrange
+        for (var i = 0; i < BusinessMember.MaxFailedPinAttempts; i++)
+        {
+            await StaffClient.PostAsJsonAsync(
+                $"/api/business/{TestBusinessSlug}/unlock",
+                new { userId = BarStaffId, pin = "0000" });
+        }
+
+        // As after a restart, or on another server
+        ((MemoryCache)ServiceProvider.GetRequiredService<IMemoryCache>()).Compact(1.0);
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/unlock",
+            new { userId = BarStaffId, pin = BarStaffPin });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.TooManyRequests);
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var membership = await db.BusinessMembers.SingleAsync(bm => bm.UserId == BarStaffId);
+        membership.PinLockedUntil.Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task CallNext_WhileUnlocked_ShouldCreditTheActingMember()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var actingToken = await Unlock(BarStaffId, BarStaffPin);
+
+        using var request = new HttpRequestMessage(HttpMethod.Post, $"/api/queues/{TestQueueId}/call-next");
+        request.Headers.Add(ActingMemberTokenService.HeaderName, actingToken);
+
+        // Act
+        var response = await StaffClient.SendAsync(request);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var customer = await db.QueueCustomers.SingleAsync(c => c.Name == "Alice");
+        customer.CalledByUserId.Should().Be(BarStaffId);
+    }
+
+    [Fact]
+    public async Task CallNext_WithoutUnlocking_ShouldCreditTheSignedInUser()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+
+        // Act
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+
+        // Assert
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var customer = await db.QueueCustomers.SingleAsync(c => c.Name == "Alice");
+        customer.CalledByUserId.Should().Be(TestOwnerId);
+    }
+
+    [Fact]
+    public async Task CallNext_WithInvalidActingToken_ShouldReturn403()
+    {
+        // Arrange
+        using var request = new HttpRequestMessage(HttpMethod.Post, $"/api/queues/{TestQueueId}/call-next");
+        request.Headers.Add(ActingMemberTokenService.HeaderName, "not-a-token");
+
+        // Act
+        var response = await StaffClient.SendAsync(request);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task ListStaff_WhileUnlockedAsMemberWithoutManageTeam_ShouldReturn403()
+    {
+        // Arrange - the owner's device, locked to a bar staff member
+        var actingToken = await Unlock(BarStaffId, BarStaffPin);
+
+        using var request = new HttpRequestMessage(HttpMethod.Get, $"/api/business/{TestBusinessSlug}/staff");
+        request.Headers.Add(ActingMemberTokenService.HeaderName, actingToken);
+
+        // Act
+        var response = await StaffClient.SendAsync(request);
+
+        // Assert - checked as the bar staff member, not the owner who signed the device in
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task DeleteQueue_WhileUnlockedAsStaff_ShouldReturn403()
+    {
+        // Arrange
+        var actingToken = await Unlock(BarStaffId, BarStaffPin);
+
+        using var request = new HttpRequestMessage(HttpMethod.Delete, $"/api/business/{TestBusinessSlug}/queues/test-queue");
+        request.Headers.Add(ActingMemberTokenService.HeaderName, actingToken);
+
+        // Act
+        var response = await StaffClient.SendAsync(request);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        (await db.Queues.AnyAsync(q => q.Id == TestQueueId)).Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task BusinessAnalytics_WithInvalidActingToken_ShouldReturn403()
+    {
+        // Arrange
+        using var request = new HttpRequestMessage(HttpMethod.Get, $"/api/business/{TestBusinessSlug}/analytics");
+        request.Headers.Add(ActingMemberTokenService.HeaderName, "not-a-token");
+
+        // Act
+        var response = await StaffClient.SendAsync(request);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    private void SignInAsTeamLead()
+    {
+        var token = ServiceProvider.GetRequiredService<IJwtTokenService>().GenerateToken(TeamLeadId, TeamLeadEmail);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+    }
+
+    private async Task<string> Unlock(Guid userId, string pin)
+    {
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/business/{TestBusinessSlug}/unlock",
+            new { userId, pin });
+        response.EnsureSuccessStatusCode();
+
+        var result = await response.Content.ReadFromJsonAsync<UnlockResponse>();
+        return result!.ActingToken;
+    }
+}
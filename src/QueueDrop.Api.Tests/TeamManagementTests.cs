@@ -0,0 +1,189 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Api.Tests;
+
+public class TeamManagementTests : IntegrationTestBase
+{
+    [Fact]
+    public async Task ListStaff_ShouldIncludePendingInvites()
+    {
+        // Arrange
+        var (token, businessSlug) = await SetupOwnerWithBusiness("owner@test.com", "my-shop");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/staff/invite", new { email = "pending@test.com" });
+
+        // Act
+        var result = await Client.GetFromJsonAsync<StaffListResponse>($"/api/business/{businessSlug}/staff");
+
+        // Assert
+        result!.Invites.Should().ContainSingle(i => i.Email == "pending@test.com")
+            .Which.IsExpired.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task ResendInvite_ShouldReplaceTheOldLink()
+    {
+        // Arrange
+        var (token, businessSlug) = await SetupOwnerWithBusiness("owner@test.com", "my-shop");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/staff/invite", new { email = "staff@test.com" });
+        var oldInvite = await GetInviteLink("staff@test.com");
+
+        // Act
+        var response = await Client.PostAsync(
+            $"/api/business/{businessSlug}/staff/invites/{oldInvite.Id}/resend", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var newInvite = await GetInviteLink("staff@test.com");
+        newInvite.Id.Should().NotBe(oldInvite.Id);
+
+        Client.DefaultRequestHeaders.Authorization = null;
+        var oldVerify = await Client.GetAsync($"/api/auth/verify?token={oldInvite.Token}");
+        oldVerify.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task RevokeInvite_ShouldMakeTheLinkUnusable()
+    {
+        // Arrange
+        var (token, businessSlug) = await SetupOwnerWithBusiness("owner@test.com", "my-shop");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/staff/invite", new { email = "staff@test.com" });
+        var invite = await GetInviteLink("staff@test.com");
+
+        // Act
+        var response = await Client.DeleteAsync($"/api/business/{businessSlug}/staff/invites/{invite.Id}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        Client.DefaultRequestHeaders.Authorization = null;
+        var verify = await Client.GetAsync($"/api/auth/verify?token={invite.Token}");
+        verify.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task RevokeInvite_AsNonOwner_ShouldReturn403()
+    {
+        // Arrange
+        var (token, businessSlug) = await SetupOwnerWithBusiness("owner@test.com", "my-shop");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/staff/invite", new { email = "staff@test.com" });
+        var invite = await GetInviteLink("staff@test.com");
+
+        var otherToken = await GetAuthToken("other@test.com");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", otherToken);
+
+        // Act
+        var response = await Client.DeleteAsync($"/api/business/{businessSlug}/staff/invites/{invite.Id}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task ChangeRole_ShouldPromoteStaffToOwner()
+    {
+        // Arrange
+        var (ownerToken, businessSlug, staffUserId) = await SetupOwnerWithStaff("owner@test.com", "my-shop", "staff@test.com");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", ownerToken);
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{businessSlug}/staff/{staffUserId}/role", new { role = "owner" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var membership = await db.BusinessMembers.FirstAsync(bm => bm.UserId == staffUserId);
+        membership.Role.Should().Be(BusinessRole.Owner);
+    }
+
+    [Fact]
+    public async Task ChangeRole_DemotingLastOwner_ShouldReturn400()
+    {
+        // Arrange
+        var (ownerToken, businessSlug) = await SetupOwnerWithBusiness("owner@test.com", "my-shop");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", ownerToken);
+
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var owner = await db.Users.FirstAsync(u => u.Email == "owner@test.com");
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{businessSlug}/staff/{owner.Id}/role", new { role = "staff" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task ChangeRole_WithUnknownRole_ShouldReturn400()
+    {
+        // Arrange
+        var (ownerToken, businessSlug, staffUserId) = await SetupOwnerWithStaff("owner@test.com", "my-shop", "staff@test.com");
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", ownerToken);
+
+        // Act
+        var response = await Client.PutAsJsonAsync(
+            $"/api/business/{businessSlug}/staff/{staffUserId}/role", new { role = "manager" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    private async Task<QueueDrop.Domain.Entities.MagicLink> GetInviteLink(string email)
+    {
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        return await db.MagicLinks.AsNoTracking()
+            .FirstAsync(l => l.Email == email && l.Type == MagicLinkType.Invite);
+    }
+
+    private async Task<(string Token, string BusinessSlug, Guid StaffUserId)> SetupOwnerWithStaff(string ownerEmail, string slug, string staffEmail)
+    {
+        var (ownerToken, businessSlug) = await SetupOwnerWithBusiness(ownerEmail, slug);
+
+        // Create staff via invite flow
+        await Client.PostAsJsonAsync($"/api/business/{businessSlug}/staff/invite", new { email = staffEmail });
+        var inviteLink = await GetInviteLink(staffEmail);
+
+        Client.DefaultRequestHeaders.Authorization = null;
+        var verifyResponse = await Client.GetFromJsonAsync<VerifyResponse>($"/api/auth/verify?token={inviteLink.Token}");
+
+        return (ownerToken, businessSlug, verifyResponse!.UserId);
+    }
+
+    private async Task<(string Token, string BusinessSlug)> SetupOwnerWithBusiness(string email, string slug)
+    {
+        var token = await GetAuthToken(email);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        await Client.PostAsJsonAsync("/api/business", new { name = slug, slug });
+        return (token, slug);
+    }
+
+    private async Task<string> GetAuthToken(string email)
+    {
+        await Client.PostAsJsonAsync("/api/auth/send-magic-link", new { email });
+        await using var scope = ServiceProvider.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<TestAppDbContext>();
+        var magicLink = db.MagicLinks.OrderByDescending(l => l.CreatedAt).First(l => l.Email == email);
+        var verifyResponse = await Client.GetFromJsonAsync<VerifyResponse>($"/api/auth/verify?token={magicLink.Token}");
+        return verifyResponse!.Token;
+    }
+
+    private record VerifyResponse(string Token, Guid UserId, string Email, bool IsNewUser);
+    private record StaffListResponse(List<StaffMember> Staff, List<PendingInvite> Invites);
+    private record StaffMember(Guid UserId, string Email, string Role, DateTimeOffset JoinedAt);
+    private record PendingInvite(Guid InviteId, string Email, DateTimeOffset InvitedAt, DateTimeOffset ExpiresAt, bool IsExpired);
+}
@@ -0,0 +1,109 @@
+using System.Net;
+using System.Net.Http.Json;
+using FluentAssertions;
+using QueueDrop.Domain.Common;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Api.Tests;
+
+public class TransferCustomerTests : IntegrationTestBase
+{
+    private static readonly Guid BarQueueId = new("44444444-4444-4444-4444-444444444444");
+
+    private record TransferResponse(Guid CustomerId, Guid QueueId, string QueueName, int Position);
+
+    private record CustomerDto(Guid Id, string Name, string Token, string Status, int? Position);
+
+    private record GetCustomersResponse(List<CustomerDto> Customers);
+
+    private record PositionResponse(int? Position, string Status, string QueueName);
+
+    [Fact]
+    public async Task Transfer_ShouldMoveCustomerAndKeepTheirLink()
+    {
+        // Arrange
+        var token = await JoinQueueAndGetToken("Alice");
+        var alice = (await GetQueueCustomers(TestQueueId)).Single();
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{alice.Id}/transfer",
+            new { TargetQueueId = BarQueueId });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var result = await response.Content.ReadFromJsonAsync<TransferResponse>();
+        result!.QueueId.Should().Be(BarQueueId);
+        result.Position.Should().Be(1);
+
+        (await GetQueueCustomers(TestQueueId)).Should().BeEmpty();
+        (await GetQueueCustomers(BarQueueId)).Should().ContainSingle(c => c.Id == alice.Id);
+
+        var position = await Client.GetFromJsonAsync<PositionResponse>($"/api/q/{token}");
+        position!.QueueName.Should().Be("Bar");
+        position.Position.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task Transfer_WithInvalidPlacement_ShouldReturnBadRequest()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var alice = (await GetQueueCustomers(TestQueueId)).Single();
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{alice.Id}/transfer",
+            new { TargetQueueId = BarQueueId, Placement = "Sideways" });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Transfer_ToSameQueue_ShouldReturnBadRequest()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var alice = (await GetQueueCustomers(TestQueueId)).Single();
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{alice.Id}/transfer",
+            new { TargetQueueId = TestQueueId });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Transfer_ToUnknownQueue_ShouldReturnNotFound()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var alice = (await GetQueueCustomers(TestQueueId)).Single();
+
+        // Act
+        var response = await StaffClient.PostAsJsonAsync(
+            $"/api/queues/{TestQueueId}/customers/{alice.Id}/transfer",
+            new { TargetQueueId = Guid.NewGuid() });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    protected override async Task SeedAdditionalDataAsync(TestAppDbContext db)
+    {
+        var bar = Queue.Create(TestBusinessId, "Bar", "bar", DateTimeOffset.UtcNow);
+        typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(bar, BarQueueId);
+        db.Queues.Add(bar);
+        await db.SaveChangesAsync();
+        db.ChangeTracker.Clear();
+    }
+
+    private async Task<List<CustomerDto>> GetQueueCustomers(Guid queueId)
+    {
+        var data = await StaffClient.GetFromJsonAsync<GetCustomersResponse>($"/api/queues/{queueId}/customers");
+        return data!.Customers;
+    }
+}
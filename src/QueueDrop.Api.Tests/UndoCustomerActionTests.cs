@@ -0,0 +1,172 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using FluentAssertions;
+using Microsoft.Extensions.DependencyInjection;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Api.Tests;
+
+public class UndoCustomerActionTests : IntegrationTestBase
+{
+    private static readonly Guid CallerId = new("44444444-4444-4444-4444-444444444444");
+    private const string CallerEmail = "caller@demo-shop.test";
+
+    private record CallNextResponse(Guid CustomerId, string CustomerName);
+
+    private record CustomerDto(Guid Id, string Name, string Status, int? Position);
+
+    private record GetCustomersResponse(List<CustomerDto> Customers);
+
+    protected override async Task SeedAdditionalDataAsync(TestAppDbContext db)
+    {
+        // Staff who may call and serve, but not remove customers
+        var caller = User.Create(CallerEmail, DateTimeOffset.UtcNow);
+        typeof(Entity).GetProperty(nameof(Entity.Id))!.SetValue(caller, CallerId);
+        db.Users.Add(caller);
+
+        var membership = BusinessMember.CreateStaffInvite(CallerId, TestBusinessId, DateTimeOffset.UtcNow);
+        membership.AcceptInvite(DateTimeOffset.UtcNow);
+        membership.SetPermissions(StaffPermission.CallCustomers);
+        db.BusinessMembers.Add(membership);
+
+        await db.SaveChangesAsync();
+        db.ChangeTracker.Clear();
+    }
+
+    [Fact]
+    public async Task Undo_AfterServe_ShouldRestoreCalledCustomer()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var customerId = await CallNext();
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/serve", null);
+
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/undo", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        var customers = await GetQueueCustomers();
+        customers.Should().ContainSingle(c => c.Id == customerId)
+            .Which.Status.Should().Be("Called");
+    }
+
+    [Fact]
+    public async Task Undo_AfterRemove_ShouldRestorePosition()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("First");
+        await JoinQueueAndGetToken("Second");
+        await JoinQueueAndGetToken("Third");
+        var second = (await GetQueueCustomers()).Single(c => c.Name == "Second");
+        await StaffClient.DeleteAsync($"/api/queues/{TestQueueId}/customers/{second.Id}");
+
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{second.Id}/undo", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+
+        var restored = (await GetQueueCustomers()).Single(c => c.Id == second.Id);
+        restored.Status.Should().Be("Waiting");
+        restored.Position.Should().Be(2);
+    }
+
+    [Fact]
+    public async Task Undo_AfterRemove_WithoutManageCustomers_ShouldReturn403()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var alice = (await GetQueueCustomers()).Single();
+        await StaffClient.DeleteAsync($"/api/queues/{TestQueueId}/customers/{alice.Id}");
+        AuthenticateAsCaller();
+
+        // Act
+        var response = await Client.PostAsync($"/api/queues/{TestQueueId}/customers/{alice.Id}/undo", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+        (await GetQueueCustomers()).Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task Undo_AfterServe_WithOnlyCallCustomers_ShouldRestoreCalledCustomer()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var customerId = await CallNext();
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/serve", null);
+        AuthenticateAsCaller();
+
+        // Act
+        var response = await Client.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/undo", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NoContent);
+    }
+
+    [Fact]
+    public async Task Undo_WithNothingToUndo_ShouldReturnBadRequest()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var customerId = await CallNext();
+
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/undo", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Undo_AfterUndoWindow_ShouldReturnBadRequest()
+    {
+        // Arrange
+        await JoinQueueAndGetToken("Alice");
+        var customerId = await CallNext();
+        await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/no-show", null);
+
+        var timeProvider = (FakeTimeProvider)ServiceProvider.GetRequiredService<TimeProvider>();
+        timeProvider.Advance(TimeSpan.FromMinutes(1));
+
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{customerId}/undo", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task Undo_WithUnknownCustomer_ShouldReturnNotFound()
+    {
+        // Act
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/customers/{Guid.NewGuid()}/undo", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    private void AuthenticateAsCaller()
+    {
+        var token = ServiceProvider.GetRequiredService<IJwtTokenService>().GenerateToken(CallerId, CallerEmail);
+        Client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token);
+    }
+
+    private async Task<Guid> CallNext()
+    {
+        var response = await StaffClient.PostAsync($"/api/queues/{TestQueueId}/call-next", null);
+        var result = await response.Content.ReadFromJsonAsync<CallNextResponse>();
+        return result!.CustomerId;
+    }
+
+    private async Task<List<CustomerDto>> GetQueueCustomers()
+    {
+        var data = await StaffClient.GetFromJsonAsync<GetCustomersResponse>($"/api/queues/{TestQueueId}/customers");
+        return data!.Customers;
+    }
+}
@@ -0,0 +1,34 @@
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Audit;
+
+/// <summary>
+/// Adds entries to a queue's audit log for the request being handled: credited to the staff
+/// member behind it (nobody for customers) and tagged with the device's user agent.
+/// Entries are saved by the handler's own SaveChangesAsync, so a change that fails to save
+/// never shows up in the history.
+/// </summary>
+public static class QueueAuditLog
+{
+    public static void RecordAudit(
+        this AppDbContext db,
+        HttpContext httpContext,
+        Guid queueId,
+        QueueAuditAction action,
+        DateTimeOffset now,
+        QueueCustomer? customer = null,
+        string? details = null)
+    {
+        db.QueueAuditEntries.Add(QueueAuditEntry.Record(
+            queueId,
+            action,
+            now,
+            httpContext.GetStaffUserId(),
+            httpContext.Request.Headers.UserAgent.ToString(),
+            customer,
+            details));
+    }
+}
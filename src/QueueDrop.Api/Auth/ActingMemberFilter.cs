@@ -0,0 +1,73 @@
+using System.Security.Claims;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Auth;
+
+/// <summary>
+/// Endpoint filter for business-wide endpoints (the {businessSlug} route value): when a shared device
+/// sends an acting-member token, the request runs as that member (see <see cref="StaffActor"/>), so
+/// handlers check their permissions rather than those of whoever signed the device in.
+/// Anonymous requests get a 401. Unknown businesses pass through so the handler can return its own 404.
+/// The queue equivalent is <see cref="QueuePermissionFilter"/>.
+/// </summary>
+public sealed class ActingMemberFilter : IEndpointFilter
+{
+    public async ValueTask<object?> InvokeAsync(EndpointFilterInvocationContext context, EndpointFilterDelegate next)
+    {
+        var httpContext = context.HttpContext;
+        var userIdClaim = httpContext.User.FindFirstValue(ClaimTypes.NameIdentifier);
+
+        if (!Guid.TryParse(userIdClaim, out var userId))
+        {
+            return Results.Unauthorized();
+        }
+
+        var actingToken = httpContext.Request.Headers[ActingMemberTokenService.HeaderName].ToString();
+        var businessSlug = httpContext.GetRouteValue("businessSlug")?.ToString();
+
+        if (string.IsNullOrEmpty(actingToken) || businessSlug is null)
+        {
+            return await next(context);
+        }
+
+        var services = httpContext.RequestServices;
+        var db = services.GetRequiredService<AppDbContext>();
+        var authService = services.GetRequiredService<IBusinessAuthorizationService>();
+        var cancellationToken = httpContext.RequestAborted;
+
+        var businessId = await db.Businesses
+            .Where(b => b.Slug == businessSlug.ToLowerInvariant())
+            .Select(b => (Guid?)b.Id)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (businessId is null)
+        {
+            return await next(context);
+        }
+
+        var acting = services.GetRequiredService<IActingMemberTokenService>().ReadToken(actingToken);
+
+        // The device itself has to be signed in to the same business
+        if (acting is null || acting.BusinessId != businessId ||
+            !await authService.IsMemberAsync(userId, businessSlug, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Unlock required",
+                detail: "Unlock with your PIN to continue.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        StaffActor.Set(httpContext, acting.UserId);
+        return await next(context);
+    }
+}
+
+public static class ActingMemberFilterExtensions
+{
+    /// <summary>Runs the request as the member a shared device is unlocked as, if any (see <see cref="ActingMemberFilter"/>).</summary>
+    public static RouteHandlerBuilder ResolveActingMember(this RouteHandlerBuilder builder) =>
+        builder
+            .RequireAuthorization()
+            .AddEndpointFilter<ActingMemberFilter>();
+}
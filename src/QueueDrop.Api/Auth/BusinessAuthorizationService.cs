@@ -10,6 +10,8 @@ public interface IBusinessAuthorizationService
     Task<BusinessMember?> GetMembershipAsync(Guid userId, string businessSlug, CancellationToken cancellationToken);
     Task<bool> IsOwnerAsync(Guid userId, string businessSlug, CancellationToken cancellationToken);
     Task<bool> IsMemberAsync(Guid userId, string businessSlug, CancellationToken cancellationToken);
+    Task<bool> HasPermissionAsync(Guid userId, string businessSlug, StaffPermission permission, CancellationToken cancellationToken);
+    Task<bool> HasQueuePermissionAsync(Guid userId, Guid queueId, StaffPermission permission, CancellationToken cancellationToken);
 }
 
 public sealed class BusinessAuthorizationService : IBusinessAuthorizationService
@@ -28,6 +30,7 @@ public sealed class BusinessAuthorizationService : IBusinessAuthorizationService
     {
         return await _db.BusinessMembers
             .Include(bm => bm.Business)
+            .Include(bm => bm.QueuePermissions)
             .FirstOrDefaultAsync(
                 bm => bm.UserId == userId
                     && bm.Business.Slug == businessSlug.ToLowerInvariant()
@@ -52,4 +55,31 @@ public sealed class BusinessAuthorizationService : IBusinessAuthorizationService
         var membership = await GetMembershipAsync(userId, businessSlug, cancellationToken);
         return membership != null;
     }
+
+    public async Task<bool> HasPermissionAsync(
+        Guid userId,
+        string businessSlug,
+        StaffPermission permission,
+        CancellationToken cancellationToken)
+    {
+        var membership = await GetMembershipAsync(userId, businessSlug, cancellationToken);
+        return membership?.HasPermission(permission) == true;
+    }
+
+    public async Task<bool> HasQueuePermissionAsync(
+        Guid userId,
+        Guid queueId,
+        StaffPermission permission,
+        CancellationToken cancellationToken)
+    {
+        var membership = await _db.BusinessMembers
+            .Include(bm => bm.QueuePermissions)
+            .FirstOrDefaultAsync(
+                bm => bm.UserId == userId
+                    && bm.JoinedAt != null
+                    && _db.Queues.Any(q => q.Id == queueId && q.BusinessId == bm.BusinessId),
+                cancellationToken);
+
+        return membership?.HasPermission(permission, queueId) == true;
+    }
 }
@@ -1,7 +1,9 @@
 using System.Text;
 using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Options;
 using Microsoft.IdentityModel.Tokens;
+using QueueDrop.Infrastructure.Persistence;
 
 namespace QueueDrop.Api.Auth;
 
@@ -41,5 +43,53 @@ public sealed class ConfigureJwtBearerOptions : IConfigureNamedOptions<JwtBearer
             IssuerSigningKey = new SymmetricSecurityKey(
                 Encoding.UTF8.GetBytes(_jwtOptions.SecretKey))
         };
+
+        options.Events = new JwtBearerEvents
+        {
+            OnMessageReceived = ReadHubAccessToken,
+            OnTokenValidated = RejectEndedSessionsAsync
+        };
+    }
+
+    /// <summary>
+    /// Browsers can't set headers on WebSocket and Server-Sent Events requests, so the SignalR
+    /// client sends its token in the access_token query string instead.
+    /// </summary>
+    private static Task ReadHubAccessToken(MessageReceivedContext context)
+    {
+        var accessToken = context.Request.Query["access_token"].ToString();
+        if (!string.IsNullOrEmpty(accessToken) && context.HttpContext.Request.Path.StartsWithSegments("/hubs"))
+        {
+            context.Token = accessToken;
+        }
+
+        return Task.CompletedTask;
+    }
+
+    /// <summary>
+    /// Access tokens outlive a revoke by up to their lifetime, so check the session on every request
+    /// - signing a device out has to take effect straight away.
+    /// </summary>
+    private static async Task RejectEndedSessionsAsync(TokenValidatedContext context)
+    {
+        var sessionClaim = context.Principal?.FindFirst(JwtTokenService.SessionIdClaim)?.Value;
+        if (sessionClaim is null)
+        {
+            // Server-issued tokens without a session (e.g. the demo)
+            return;
+        }
+
+        var services = context.HttpContext.RequestServices;
+        var now = services.GetRequiredService<TimeProvider>().GetUtcNow();
+        var db = services.GetRequiredService<AppDbContext>();
+
+        var isActive = Guid.TryParse(sessionClaim, out var sessionId) && await db.UserSessions
+            .AnyAsync(s => s.Id == sessionId && s.RevokedAt == null && s.ExpiresAt > now,
+                context.HttpContext.RequestAborted);
+
+        if (!isActive)
+        {
+            context.Fail("Session has ended");
+        }
     }
 }
@@ -7,5 +7,8 @@ public sealed class JwtOptions
     public string SecretKey { get; init; } = null!;
     public string Issuer { get; init; } = "QueueDrop";
     public string Audience { get; init; } = "QueueDrop";
-    public int ExpirationMinutes { get; init; } = 60;
+    public int ExpirationMinutes { get; init; } = 15;
+
+    /// <summary>How long a signed-in device can keep refreshing before it has to sign in again.</summary>
+    public int RefreshTokenDays { get; init; } = 30;
 }
@@ -8,7 +8,10 @@ namespace QueueDrop.Api.Auth;
 
 public interface IJwtTokenService
 {
-    string GenerateToken(Guid userId, string email);
+    /// <summary>
+    /// Creates an access token. Tokens tied to a session stop working as soon as the session is revoked.
+    /// </summary>
+    string GenerateToken(Guid userId, string email, Guid? sessionId = null);
 }
 
 public sealed class JwtTokenService : IJwtTokenService
@@ -20,18 +23,26 @@ public sealed class JwtTokenService : IJwtTokenService
         _options = options.Value;
     }
 
-    public string GenerateToken(Guid userId, string email)
+    /// <summary>Claim holding the <see cref="Domain.Entities.UserSession"/> the token was issued for.</summary>
+    public const string SessionIdClaim = "session_id";
+
+    public string GenerateToken(Guid userId, string email, Guid? sessionId = null)
     {
         var key = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(_options.SecretKey));
         var credentials = new SigningCredentials(key, SecurityAlgorithms.HmacSha256);
 
-        var claims = new[]
+        var claims = new List<Claim>
         {
-            new Claim(ClaimTypes.NameIdentifier, userId.ToString()),
-            new Claim(ClaimTypes.Email, email),
-            new Claim(JwtRegisteredClaimNames.Jti, Guid.NewGuid().ToString())
+            new(ClaimTypes.NameIdentifier, userId.ToString()),
+            new(ClaimTypes.Email, email),
+            new(JwtRegisteredClaimNames.Jti, Guid.NewGuid().ToString())
         };
 
+        if (sessionId.HasValue)
+        {
+            claims.Add(new Claim(SessionIdClaim, sessionId.Value.ToString()));
+        }
+
         var token = new JwtSecurityToken(
             issuer: _options.Issuer,
             audience: _options.Audience,
@@ -0,0 +1,24 @@
+using System.Security.Claims;
+
+namespace QueueDrop.Api.Auth;
+
+/// <summary>
+/// Who a queue action is credited to: the member a shared device is unlocked as
+/// (see <see cref="QueuePermissionFilter"/>), otherwise the signed-in user.
+/// </summary>
+public static class StaffActor
+{
+    private const string ItemKey = "QueueDrop.StaffUserId";
+
+    internal static void Set(HttpContext httpContext, Guid userId) => httpContext.Items[ItemKey] = userId;
+
+    public static Guid? GetStaffUserId(this HttpContext httpContext)
+    {
+        if (httpContext.Items[ItemKey] is Guid actingUserId)
+            return actingUserId;
+
+        return Guid.TryParse(httpContext.User.FindFirstValue(ClaimTypes.NameIdentifier), out var userId)
+            ? userId
+            : null;
+    }
+}
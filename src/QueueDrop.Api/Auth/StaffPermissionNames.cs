@@ -0,0 +1,49 @@
+using System.Text.Json;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Api.Auth;
+
+/// <summary>
+/// Converts permission flags to and from the camelCase names the client uses
+/// (e.g. "callCustomers"), so the API never exposes the raw bit values.
+/// </summary>
+public static class StaffPermissionNames
+{
+    public sealed record QueuePermissionsDto(Guid QueueId, List<string> Permissions);
+
+    private static readonly StaffPermission[] Single = Enum.GetValues<StaffPermission>()
+        .Where(p => p is not StaffPermission.None and not StaffPermission.All)
+        .ToArray();
+
+    public static List<string> ToNames(StaffPermission permissions) =>
+        Single
+            .Where(p => permissions.HasFlag(p))
+            .Select(p => JsonNamingPolicy.CamelCase.ConvertName(p.ToString()))
+            .ToList();
+
+    /// <summary>Per-queue overrides; owners have none since they can do everything everywhere.</summary>
+    public static List<QueuePermissionsDto> QueueOverrides(BusinessMember member) =>
+        member.Role == BusinessRole.Owner
+            ? []
+            : member.QueuePermissions
+                .Select(p => new QueuePermissionsDto(p.QueueId, ToNames(p.Permissions)))
+                .ToList();
+
+    /// <summary>Parses permission names, ignoring case. Fails on any unknown name.</summary>
+    public static bool TryParse(IEnumerable<string>? names, out StaffPermission permissions)
+    {
+        permissions = StaffPermission.None;
+
+        foreach (var name in names ?? [])
+        {
+            var match = Single.FirstOrDefault(p => string.Equals(p.ToString(), name, StringComparison.OrdinalIgnoreCase));
+            if (match == StaffPermission.None)
+                return false;
+
+            permissions |= match;
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,112 @@
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Features.Queues;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.BackgroundServices;
+
+/// <summary>
+/// Background service that closes queues once their scheduled closing time passes.
+/// </summary>
+public sealed class AutoCloseService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<AutoCloseService> _logger;
+    private readonly TimeSpan _checkInterval = TimeSpan.FromSeconds(30);
+
+    public AutoCloseService(
+        IServiceScopeFactory scopeFactory,
+        ILogger<AutoCloseService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("AutoCloseService started");
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await CloseDueQueuesAsync(stoppingToken);
+            }
+            catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+            {
+                // Expected during shutdown
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error closing scheduled queues");
+            }
+
+            await Task.Delay(_checkInterval, stoppingToken);
+        }
+
+        _logger.LogInformation("AutoCloseService stopped");
+    }
+
+    private async Task CloseDueQueuesAsync(CancellationToken cancellationToken)
+    {
+        await using var scope = _scopeFactory.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+        var timeProvider = scope.ServiceProvider.GetRequiredService<TimeProvider>();
+        var notifier = scope.ServiceProvider.GetRequiredService<IQueueHubNotifier>();
+
+        var now = timeProvider.GetUtcNow();
+
+        var dueQueueIds = await db.Queues
+            .Where(q => q.IsActive && q.AutoCloseAt != null && q.AutoCloseAt <= now)
+            .Select(q => q.Id)
+            .ToListAsync(cancellationToken);
+
+        foreach (var queueId in dueQueueIds)
+        {
+            await CloseQueueAsync(queueId, db, notifier, now, cancellationToken);
+        }
+    }
+
+    private async Task CloseQueueAsync(
+        Guid queueId,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        DateTimeOffset now,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        // Reopened or rescheduled since the query above
+        if (queue is null || !queue.CloseIfDue(now))
+            return;
+
+        db.QueueAuditEntries.Add(QueueAuditEntry.Record(
+            queue.Id,
+            QueueAuditAction.StatusChanged,
+            now,
+            actorUserId: null,
+            device: null,
+            details: "Closed at the scheduled time"));
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            // Someone changed the queue meanwhile - the next pass sees the fresh state
+            _logger.LogWarning("Concurrency conflict closing queue {QueueId}. Retrying next pass.", queueId);
+            db.ChangeTracker.Clear();
+            return;
+        }
+
+        _logger.LogInformation("Closed queue {QueueId} at its scheduled time", queueId);
+
+        await SetQueueStatus.NotifyStatusChangedAsync(queue, notifier, cancellationToken);
+    }
+}
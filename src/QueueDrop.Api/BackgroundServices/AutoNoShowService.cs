@@ -1,5 +1,6 @@
 using Microsoft.EntityFrameworkCore;
 using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Entities;
 using QueueDrop.Domain.Enums;
 using QueueDrop.Infrastructure.Persistence;
 
@@ -124,19 +125,32 @@ public sealed class AutoNoShowService : BackgroundService
                         continue;
                     }
 
+                    db.QueueAuditEntries.Add(QueueAuditEntry.Record(
+                        queue.Id,
+                        QueueAuditAction.NoShow,
+                        now,
+                        actorUserId: null,
+                        device: null,
+                        customer,
+                        $"Not served within {timeoutMinutes} minutes of being called"));
+
                     // Notify customer
                     await notifier.NotifyStatusChangedAsync(customer.Token, "NoShow", cancellationToken);
                 }
 
                 await db.SaveChangesAsync(cancellationToken);
 
-                // Notify staff about queue update
-                await notifier.NotifyQueueUpdatedAsync(queue.Id, QueueUpdateType.CustomerNoShow, cancellationToken);
+                // Notify staff about queue update - several customers may have changed, so
+                // no customer payload: dashboards see the version jump and refetch
+                await notifier.NotifyQueueUpdatedAsync(
+                    queue.Id,
+                    QueueUpdateType.CustomerNoShow,
+                    queue.Version,
+                    customer: null,
+                    cancellationToken);
 
                 // Update positions for remaining waiting customers
-                var updatedPositions = queue.GetUpdatedPositions()
-                    .Select(p => (queue.Customers.First(c => c.Id == p.CustomerId).Token, p.NewPosition))
-                    .ToList();
+                var updatedPositions = PositionUpdate.ForWaitingCustomers(queue, now);
 
                 if (updatedPositions.Count > 0)
                 {
@@ -0,0 +1,138 @@
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.BackgroundServices;
+
+/// <summary>
+/// Background service that clears queues with operating hours at closing time: customers
+/// still waiting are taken off the list and told, rather than left waiting until the next day.
+/// </summary>
+public sealed class ClosingTimeService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<ClosingTimeService> _logger;
+    private readonly TimeSpan _checkInterval = TimeSpan.FromSeconds(30);
+
+    public ClosingTimeService(
+        IServiceScopeFactory scopeFactory,
+        ILogger<ClosingTimeService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("ClosingTimeService started");
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await ClearClosedQueuesAsync(stoppingToken);
+            }
+            catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+            {
+                // Expected during shutdown
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error clearing queues at closing time");
+            }
+
+            await Task.Delay(_checkInterval, stoppingToken);
+        }
+
+        _logger.LogInformation("ClosingTimeService stopped");
+    }
+
+    private async Task ClearClosedQueuesAsync(CancellationToken cancellationToken)
+    {
+        await using var scope = _scopeFactory.CreateAsyncScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+        var timeProvider = scope.ServiceProvider.GetRequiredService<TimeProvider>();
+        var notifier = scope.ServiceProvider.GetRequiredService<IQueueHubNotifier>();
+
+        var now = timeProvider.GetUtcNow();
+
+        // Closing times depend on each queue's hours and time zone, so the domain works them out
+        var queueIds = await db.Queues
+            .Where(q => q.OperatingHours != null && q.Customers.Any(c => c.Status == CustomerStatus.Waiting))
+            .Select(q => q.Id)
+            .ToListAsync(cancellationToken);
+
+        foreach (var queueId in queueIds)
+        {
+            await ClearQueueAsync(queueId, db, notifier, now, cancellationToken);
+        }
+    }
+
+    private async Task ClearQueueAsync(
+        Guid queueId,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        DateTimeOffset now,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+            return;
+
+        var removed = queue.RemoveCustomersLeftAtClosing(now);
+        if (removed.Count == 0)
+            return;
+
+        foreach (var customer in removed)
+        {
+            db.QueueAuditEntries.Add(QueueAuditEntry.Record(
+                queue.Id,
+                QueueAuditAction.Removed,
+                now,
+                actorUserId: null,
+                device: null,
+                customer,
+                details: "Still waiting at closing time"));
+        }
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            // Someone changed the queue meanwhile - the next pass sees the fresh state
+            _logger.LogWarning("Concurrency conflict clearing queue {QueueId} at closing time. Retrying next pass.", queueId);
+            db.ChangeTracker.Clear();
+            return;
+        }
+
+        _logger.LogInformation("Removed {Count} customers left waiting at closing time in queue {QueueId}", removed.Count, queueId);
+
+        foreach (var customer in removed)
+        {
+            await notifier.NotifyStatusChangedAsync(customer.Token, "Removed", cancellationToken);
+        }
+
+        await notifier.NotifyQueueUpdatedAsync(
+            queue.Id,
+            QueueUpdateType.CustomerRemoved,
+            queue.Version,
+            customer: null,
+            cancellationToken);
+
+        // Walk-ins added after closing move up
+        var updatedPositions = PositionUpdate.ForWaitingCustomers(queue, now);
+
+        if (updatedPositions.Count > 0)
+        {
+            await notifier.NotifyPositionsChangedAsync(updatedPositions, cancellationToken);
+        }
+    }
+}
@@ -0,0 +1,181 @@
+using System.Globalization;
+using System.Runtime.CompilerServices;
+using System.Text;
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Analytics;
+
+/// <summary>
+/// Writes every customer who joined within a period out as a CSV or JSON download, one row each,
+/// with their outcome, timestamps and the staff who called and finished with them.
+/// Rows are streamed from the database, so a year of customers doesn't have to fit in memory.
+/// Shared by the per-queue and per-business export endpoints.
+/// </summary>
+public static class CustomerExport
+{
+    public const string Csv = "csv";
+    public const string Json = "json";
+
+    public sealed record RowDto(
+        Guid CustomerId,
+        string Queue,
+        string Name,
+        string Status,
+        int? PartySize,
+        string? Notes,
+        DateTimeOffset JoinedAt,
+        DateTimeOffset? CalledAt,
+        string? CalledBy,
+        DateTimeOffset? CompletedAt,
+        string? CompletedBy);
+
+    private static readonly string[] CsvHeader =
+    [
+        "Customer ID", "Queue", "Name", "Status", "Party size", "Notes",
+        "Joined at", "Called at", "Called by", "Completed at", "Completed by"
+    ];
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    /// <summary>
+    /// Works out the file format from the query string: CSV by default.
+    /// Returns a problem result for anything else.
+    /// </summary>
+    public static IResult? TryGetFormat(string? format, out string exportFormat)
+    {
+        exportFormat = string.IsNullOrWhiteSpace(format) ? Csv : format.Trim().ToLowerInvariant();
+
+        if (exportFormat is Csv or Json)
+            return null;
+
+        return Results.Problem(
+            title: "Invalid format",
+            detail: $"'{format}' is not an export format. Use '{Csv}' or '{Json}'.",
+            statusCode: StatusCodes.Status400BadRequest);
+    }
+
+    /// <summary>
+    /// The download for the given queues' customers, oldest first.
+    /// The file is named after <paramref name="name"/> and the period.
+    /// </summary>
+    public static IResult Download(
+        AppDbContext db,
+        IReadOnlyDictionary<Guid, string> queueNames,
+        QueueAnalytics.Period period,
+        string format,
+        string name,
+        CancellationToken cancellationToken)
+    {
+        var fileName = $"{name}-customers-{period.From:yyyy-MM-dd}-to-{period.To:yyyy-MM-dd}.{format}";
+
+        return format == Json
+            ? Results.Stream(
+                (Stream stream) => JsonSerializer.SerializeAsync(
+                    stream,
+                    ReadRowsAsync(db, queueNames, period, cancellationToken),
+                    JsonOptions,
+                    cancellationToken),
+                "application/json",
+                fileName)
+            : Results.Stream(
+                (Stream stream) => WriteCsvAsync(stream, ReadRowsAsync(db, queueNames, period, cancellationToken), cancellationToken),
+                "text/csv",
+                fileName);
+    }
+
+    private static async IAsyncEnumerable<RowDto> ReadRowsAsync(
+        AppDbContext db,
+        IReadOnlyDictionary<Guid, string> queueNames,
+        QueueAnalytics.Period period,
+        [EnumeratorCancellation] CancellationToken cancellationToken)
+    {
+        var queueIds = queueNames.Keys.ToList();
+        var customers = db.QueueCustomers
+            .AsNoTracking()
+            .Where(c => queueIds.Contains(c.QueueId) && c.JoinedAt >= period.From && c.JoinedAt < period.To);
+
+        // Staff who have since left the business still get their email on the rows they handled
+        var staffIds = await customers
+            .Where(c => c.CalledByUserId != null)
+            .Select(c => c.CalledByUserId!.Value)
+            .Union(customers.Where(c => c.CompletedByUserId != null).Select(c => c.CompletedByUserId!.Value))
+            .ToListAsync(cancellationToken);
+
+        var staffEmails = await db.Users
+            .Where(u => staffIds.Contains(u.Id))
+            .ToDictionaryAsync(u => u.Id, u => u.Email, cancellationToken);
+
+        var rows = customers
+            .OrderBy(c => c.JoinedAt)
+            .ThenBy(c => c.JoinPosition)
+            .AsAsyncEnumerable()
+            .WithCancellation(cancellationToken);
+
+        await foreach (var c in rows)
+        {
+            yield return new RowDto(
+                c.Id,
+                queueNames[c.QueueId],
+                c.Name,
+                c.Status.ToString(),
+                c.PartySize,
+                c.Notes,
+                c.JoinedAt,
+                c.CalledAt,
+                c.CalledByUserId is { } calledBy ? staffEmails.GetValueOrDefault(calledBy) : null,
+                // Served and no-show times are kept in ServedAt; removals only as the last transition
+                c.ServedAt ?? (c.Status == CustomerStatus.Removed ? c.StatusChangedAt : null),
+                c.CompletedByUserId is { } completedBy ? staffEmails.GetValueOrDefault(completedBy) : null);
+        }
+    }
+
+    private static async Task WriteCsvAsync(Stream stream, IAsyncEnumerable<RowDto> rows, CancellationToken cancellationToken)
+    {
+        await using var writer = new StreamWriter(stream, new UTF8Encoding(encoderShouldEmitUTF8Identifier: false));
+
+        await writer.WriteLineAsync(string.Join(',', CsvHeader));
+
+        await foreach (var row in rows.WithCancellation(cancellationToken))
+        {
+            string?[] fields =
+            [
+                row.CustomerId.ToString(),
+                row.Queue,
+                row.Name,
+                row.Status,
+                row.PartySize?.ToString(CultureInfo.InvariantCulture),
+                row.Notes,
+                FormatTime(row.JoinedAt),
+                FormatTime(row.CalledAt),
+                row.CalledBy,
+                FormatTime(row.CompletedAt),
+                row.CompletedBy
+            ];
+
+            await writer.WriteLineAsync(string.Join(',', fields.Select(EscapeCsv)));
+        }
+    }
+
+    private static string? FormatTime(DateTimeOffset? value) =>
+        value?.ToUniversalTime().ToString("yyyy-MM-dd'T'HH:mm:ss'Z'", CultureInfo.InvariantCulture);
+
+    /// <summary>
+    /// Quotes fields that need it, and defuses names and notes that a spreadsheet
+    /// would otherwise run as a formula.
+    /// </summary>
+    private static string EscapeCsv(string? value)
+    {
+        if (string.IsNullOrEmpty(value))
+            return string.Empty;
+
+        if (value[0] is '=' or '+' or '-' or '@' or '\t' or '\r')
+            value = "'" + value;
+
+        return value.IndexOfAny([',', '"', '\n', '\r']) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+}
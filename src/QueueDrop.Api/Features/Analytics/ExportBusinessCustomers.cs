@@ -0,0 +1,73 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Analytics;
+
+/// <summary>
+/// Vertical slice: Download the customers of every queue in a business as CSV or JSON.
+/// GET /api/business/{businessSlug}/export?from=&amp;to=&amp;format=csv|json
+/// Archived queues are included, so a month's figures add up after a queue is retired.
+/// Only members who can view reports business-wide can download it.
+/// </summary>
+public static class ExportBusinessCustomers
+{
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapGet("/api/business/{businessSlug}/export", Handler)
+            .WithName("ExportBusinessCustomers")
+            .WithTags("Analytics")
+            .Produces(StatusCodes.Status200OK, contentType: "text/csv")
+            .Produces<List<CustomerExport.RowDto>>(StatusCodes.Status200OK, "application/json")
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces(StatusCodes.Status404NotFound)
+            .ResolveActingMember();
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        DateTimeOffset? from,
+        DateTimeOffset? to,
+        string? format,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } userId)
+            return Results.Unauthorized();
+
+        var business = await db.Businesses
+            .FirstOrDefaultAsync(b => b.Slug == businessSlug.ToLowerInvariant(), cancellationToken);
+
+        if (business is null)
+            return Results.NotFound();
+
+        if (!await authService.HasPermissionAsync(userId, businessSlug, StaffPermission.ViewReports, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only members who can view reports can export customers for the whole business.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var problem = QueueAnalytics.TryGetPeriod(from, to, timeZone: null, timeProvider.GetUtcNow(), out var period);
+        if (problem is not null)
+            return problem;
+
+        problem = CustomerExport.TryGetFormat(format, out var exportFormat);
+        if (problem is not null)
+            return problem;
+
+        var queueNames = await db.Queues
+            .AsNoTracking()
+            .Where(q => q.BusinessId == business.Id)
+            .ToDictionaryAsync(q => q.Id, q => q.Name, cancellationToken);
+
+        return CustomerExport.Download(db, queueNames, period, exportFormat, business.Slug, cancellationToken);
+    }
+}
@@ -0,0 +1,68 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Analytics;
+
+/// <summary>
+/// Vertical slice: Download one queue's customers as CSV or JSON.
+/// GET /api/queues/{queueId}/export?from=&amp;to=&amp;format=csv|json
+/// Covers everyone who joined in the period (the last week by default), whatever became of them.
+/// </summary>
+public static class ExportQueueCustomers
+{
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapGet("/api/queues/{queueId:guid}/export", Handler)
+            .WithName("ExportQueueCustomers")
+            .WithTags("Analytics")
+            .Produces(StatusCodes.Status200OK, contentType: "text/csv")
+            .Produces<List<CustomerExport.RowDto>>(StatusCodes.Status200OK, "application/json")
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .RequireQueuePermission(StaffPermission.ViewReports);
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        DateTimeOffset? from,
+        DateTimeOffset? to,
+        string? format,
+        AppDbContext db,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var problem = QueueAnalytics.TryGetPeriod(from, to, timeZone: null, timeProvider.GetUtcNow(), out var period);
+        if (problem is not null)
+            return problem;
+
+        problem = CustomerExport.TryGetFormat(format, out var exportFormat);
+        if (problem is not null)
+            return problem;
+
+        var queue = await db.Queues
+            .AsNoTracking()
+            .Where(q => q.Id == queueId)
+            .Select(q => new { q.Id, q.Name, q.Slug })
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        return CustomerExport.Download(
+            db,
+            new Dictionary<Guid, string> { [queue.Id] = queue.Name },
+            period,
+            exportFormat,
+            queue.Slug,
+            cancellationToken);
+    }
+}
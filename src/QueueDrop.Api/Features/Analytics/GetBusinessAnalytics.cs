@@ -0,0 +1,103 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Analytics;
+
+/// <summary>
+/// Vertical slice: Wait-time and throughput figures across all of a business's queues.
+/// GET /api/business/{businessSlug}/analytics?from=&amp;to=&amp;timeZone=
+/// Also summarizes each queue, archived ones included, so they can be compared.
+/// Only members who can view reports business-wide can see it.
+/// </summary>
+public static class GetBusinessAnalytics
+{
+    public sealed record QueueSummaryDto(Guid QueueId, string Name, bool IsArchived, QueueAnalytics.SummaryDto Summary);
+
+    public sealed record Response(
+        DateTimeOffset From,
+        DateTimeOffset To,
+        string TimeZone,
+        QueueAnalytics.SummaryDto Summary,
+        List<QueueAnalytics.HourDto> Hours,
+        int[][] Heatmap,
+        List<QueueSummaryDto> Queues);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapGet("/api/business/{businessSlug}/analytics", Handler)
+            .WithName("GetBusinessAnalytics")
+            .WithTags("Analytics")
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces(StatusCodes.Status404NotFound)
+            .ResolveActingMember();
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        DateTimeOffset? from,
+        DateTimeOffset? to,
+        string? timeZone,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } userId)
+            return Results.Unauthorized();
+
+        var business = await db.Businesses
+            .FirstOrDefaultAsync(b => b.Slug == businessSlug.ToLowerInvariant(), cancellationToken);
+
+        if (business is null)
+            return Results.NotFound();
+
+        if (!await authService.HasPermissionAsync(userId, businessSlug, StaffPermission.ViewReports, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only members who can view reports can see analytics for the whole business.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var problem = QueueAnalytics.TryGetPeriod(from, to, timeZone, timeProvider.GetUtcNow(), out var period);
+        if (problem is not null)
+            return problem;
+
+        var queues = await db.Queues
+            .AsNoTracking()
+            .Where(q => q.BusinessId == business.Id)
+            .OrderBy(q => q.DisplayOrder)
+            .ThenBy(q => q.CreatedAt)
+            .Select(q => new { q.Id, q.Name, q.ArchivedAt })
+            .ToListAsync(cancellationToken);
+
+        var customers = await QueueAnalytics.LoadCustomersAsync(
+            db,
+            queues.Select(q => q.Id).ToList(),
+            period,
+            cancellationToken);
+
+        var queueSummaries = queues
+            .Select(q => new QueueSummaryDto(
+                q.Id,
+                q.Name,
+                q.ArchivedAt.HasValue,
+                QueueAnalytics.Summarize(customers.Where(c => c.QueueId == q.Id).ToList(), period.TimeZone)))
+            .ToList();
+
+        return Results.Ok(new Response(
+            period.From,
+            period.To,
+            period.TimeZone.Id,
+            QueueAnalytics.Summarize(customers, period.TimeZone),
+            QueueAnalytics.ByHour(customers, period.TimeZone),
+            QueueAnalytics.Heatmap(customers, period.TimeZone),
+            queueSummaries));
+    }
+}
@@ -0,0 +1,77 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Analytics;
+
+/// <summary>
+/// Vertical slice: Wait-time and throughput figures for one queue.
+/// GET /api/queues/{queueId}/analytics?from=&amp;to=&amp;timeZone=
+/// Covers customers who joined in the period (the last week by default).
+/// </summary>
+public static class GetQueueAnalytics
+{
+    public sealed record Response(
+        Guid QueueId,
+        string Name,
+        DateTimeOffset From,
+        DateTimeOffset To,
+        string TimeZone,
+        QueueAnalytics.SummaryDto Summary,
+        List<QueueAnalytics.HourDto> Hours,
+        int[][] Heatmap);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapGet("/api/queues/{queueId:guid}/analytics", Handler)
+            .WithName("GetQueueAnalytics")
+            .WithTags("Analytics")
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .RequireQueuePermission(StaffPermission.ViewReports);
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        DateTimeOffset? from,
+        DateTimeOffset? to,
+        string? timeZone,
+        AppDbContext db,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var problem = QueueAnalytics.TryGetPeriod(from, to, timeZone, timeProvider.GetUtcNow(), out var period);
+        if (problem is not null)
+            return problem;
+
+        var queue = await db.Queues
+            .AsNoTracking()
+            .Where(q => q.Id == queueId)
+            .Select(q => new { q.Id, q.Name })
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var customers = await QueueAnalytics.LoadCustomersAsync(db, [queue.Id], period, cancellationToken);
+
+        return Results.Ok(new Response(
+            queue.Id,
+            queue.Name,
+            period.From,
+            period.To,
+            period.TimeZone.Id,
+            QueueAnalytics.Summarize(customers, period.TimeZone),
+            QueueAnalytics.ByHour(customers, period.TimeZone),
+            QueueAnalytics.Heatmap(customers, period.TimeZone)));
+    }
+}
@@ -0,0 +1,202 @@
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Analytics;
+
+/// <summary>
+/// Wait, service and throughput figures for the customers who joined within a period,
+/// worked out from their JoinedAt, CalledAt and ServedAt timestamps.
+/// Shared by the per-queue and per-business analytics endpoints.
+/// </summary>
+public static class QueueAnalytics
+{
+    public static readonly TimeSpan DefaultPeriod = TimeSpan.FromDays(7);
+    public static readonly TimeSpan MaxPeriod = TimeSpan.FromDays(366);
+
+    public sealed record SummaryDto(
+        int JoinedCount,
+        int ServedCount,
+        int NoShowCount,
+        int AbandonedCount,
+        double? AverageWaitMinutes,
+        double? P90WaitMinutes,
+        double? AverageServiceMinutes,
+        double? P90ServiceMinutes,
+        double? ServedPerHour,
+        double? NoShowRate,
+        double? AbandonmentRate);
+
+    /// <summary>Totals for one hour of the day (0-23, in the requested time zone).</summary>
+    public sealed record HourDto(int Hour, int Joined, int Served);
+
+    /// <summary>
+    /// The period the figures cover. Hours and days are reported in <see cref="TimeZone"/>,
+    /// so a 9am rush shows up at 9 rather than at whatever that is in UTC.
+    /// </summary>
+    public sealed record Period(DateTimeOffset From, DateTimeOffset To, TimeZoneInfo TimeZone);
+
+    public sealed record CustomerTimes(
+        Guid QueueId,
+        CustomerStatus Status,
+        DateTimeOffset JoinedAt,
+        DateTimeOffset? CalledAt,
+        DateTimeOffset? ServedAt);
+
+    /// <summary>
+    /// Works out the period from the query string: the last week by default.
+    /// Returns a problem result when the values don't make sense.
+    /// </summary>
+    public static IResult? TryGetPeriod(
+        DateTimeOffset? from,
+        DateTimeOffset? to,
+        string? timeZone,
+        DateTimeOffset now,
+        out Period period)
+    {
+        var end = to ?? now;
+        var start = from ?? end - DefaultPeriod;
+        period = new Period(start, end, TimeZoneInfo.Utc);
+
+        if (start >= end)
+        {
+            return Results.Problem(
+                title: "Invalid period",
+                detail: "The start of the period must be before its end.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        if (end - start > MaxPeriod)
+        {
+            return Results.Problem(
+                title: "Invalid period",
+                detail: $"Analytics cover at most {MaxPeriod.TotalDays} days at a time.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        if (!string.IsNullOrWhiteSpace(timeZone))
+        {
+            if (!TimeZoneInfo.TryFindSystemTimeZoneById(timeZone, out var zone))
+            {
+                return Results.Problem(
+                    title: "Invalid time zone",
+                    detail: $"'{timeZone}' is not a known time zone.",
+                    statusCode: StatusCodes.Status400BadRequest);
+            }
+
+            period = period with { TimeZone = zone };
+        }
+
+        return null;
+    }
+
+    public static Task<List<CustomerTimes>> LoadCustomersAsync(
+        AppDbContext db,
+        IReadOnlyCollection<Guid> queueIds,
+        Period period,
+        CancellationToken cancellationToken)
+    {
+        return db.QueueCustomers
+            .AsNoTracking()
+            .Where(c => queueIds.Contains(c.QueueId) && c.JoinedAt >= period.From && c.JoinedAt < period.To)
+            .Select(c => new CustomerTimes(c.QueueId, c.Status, c.JoinedAt, c.CalledAt, c.ServedAt))
+            .ToListAsync(cancellationToken);
+    }
+
+    public static SummaryDto Summarize(IReadOnlyCollection<CustomerTimes> customers, TimeZoneInfo timeZone)
+    {
+        var served = customers.Where(c => c.Status == CustomerStatus.Served).ToList();
+        var noShowCount = customers.Count(c => c.Status == CustomerStatus.NoShow);
+        // Left, or were taken off the list, without being served
+        var abandonedCount = customers.Count(c => c.Status == CustomerStatus.Removed);
+
+        var waits = customers
+            .Where(c => c.CalledAt.HasValue)
+            .Select(c => (c.CalledAt!.Value - c.JoinedAt).TotalMinutes)
+            .ToList();
+
+        var serviceTimes = served
+            .Where(c => c.CalledAt.HasValue && c.ServedAt.HasValue)
+            .Select(c => (c.ServedAt!.Value - c.CalledAt!.Value).TotalMinutes)
+            .ToList();
+
+        // Averaged over the hours the queue was busy, so closed nights don't drag it down
+        var busyHours = customers
+            .Select(c => LocalHourStart(c.JoinedAt, timeZone))
+            .Concat(served.Select(c => LocalHourStart(c.ServedAt!.Value, timeZone)))
+            .Distinct()
+            .Count();
+
+        var completed = served.Count + noShowCount;
+
+        return new SummaryDto(
+            customers.Count,
+            served.Count,
+            noShowCount,
+            abandonedCount,
+            Average(waits),
+            Percentile(waits, 0.9),
+            Average(serviceTimes),
+            Percentile(serviceTimes, 0.9),
+            busyHours == 0 ? null : Math.Round((double)served.Count / busyHours, 2),
+            completed == 0 ? null : Math.Round((double)noShowCount / completed, 3),
+            customers.Count == 0 ? null : Math.Round((double)abandonedCount / customers.Count, 3));
+    }
+
+    /// <summary>Joins and serves per hour of the day, for every hour.</summary>
+    public static List<HourDto> ByHour(IReadOnlyCollection<CustomerTimes> customers, TimeZoneInfo timeZone)
+    {
+        var joined = new int[24];
+        var served = new int[24];
+
+        foreach (var customer in customers)
+        {
+            joined[ToLocal(customer.JoinedAt, timeZone).Hour]++;
+
+            if (customer.Status == CustomerStatus.Served && customer.ServedAt is { } servedAt)
+                served[ToLocal(servedAt, timeZone).Hour]++;
+        }
+
+        return Enumerable.Range(0, 24).Select(hour => new HourDto(hour, joined[hour], served[hour])).ToList();
+    }
+
+    /// <summary>
+    /// Joins by day of the week and hour of the day: rows follow <see cref="DayOfWeek"/>
+    /// (Sunday first), each with 24 hours.
+    /// </summary>
+    public static int[][] Heatmap(IReadOnlyCollection<CustomerTimes> customers, TimeZoneInfo timeZone)
+    {
+        var heatmap = Enumerable.Range(0, 7).Select(_ => new int[24]).ToArray();
+
+        foreach (var customer in customers)
+        {
+            var local = ToLocal(customer.JoinedAt, timeZone);
+            heatmap[(int)local.DayOfWeek][local.Hour]++;
+        }
+
+        return heatmap;
+    }
+
+    private static DateTimeOffset ToLocal(DateTimeOffset value, TimeZoneInfo timeZone) =>
+        TimeZoneInfo.ConvertTime(value, timeZone);
+
+    private static DateTime LocalHourStart(DateTimeOffset value, TimeZoneInfo timeZone)
+    {
+        var local = ToLocal(value, timeZone);
+        return new DateTime(local.Year, local.Month, local.Day, local.Hour, 0, 0);
+    }
+
+    private static double? Average(List<double> values) =>
+        values.Count == 0 ? null : Math.Round(values.Average(), 1);
+
+    /// <summary>Nearest-rank percentile: the value that fraction of customers are at or under.</summary>
+    private static double? Percentile(List<double> values, double fraction)
+    {
+        if (values.Count == 0)
+            return null;
+
+        var sorted = values.Order().ToList();
+        var rank = (int)Math.Ceiling(fraction * sorted.Count);
+        return Math.Round(sorted[Math.Max(rank, 1) - 1], 1);
+    }
+}
@@ -1,5 +1,6 @@
 using System.Security.Claims;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
 using QueueDrop.Infrastructure.Persistence;
 
 namespace QueueDrop.Api.Features.Auth;
@@ -10,7 +11,16 @@ namespace QueueDrop.Api.Features.Auth;
 /// </summary>
 public static class GetMe
 {
-    public sealed record BusinessDto(Guid Id, string Name, string Slug, string Role);
+    /// <summary>
+    /// Permissions are business-wide; QueuePermissions replace them on the listed queues.
+    /// </summary>
+    public sealed record BusinessDto(
+        Guid Id,
+        string Name,
+        string Slug,
+        string Role,
+        List<string> Permissions,
+        List<StaffPermissionNames.QueuePermissionsDto> QueuePermissions);
     public sealed record Response(Guid UserId, string Email, List<BusinessDto> Businesses);
 
     public static void MapEndpoint(IEndpointRouteBuilder app)
@@ -43,15 +53,21 @@ public static class GetMe
         }
 
         // Get all businesses where user is a member (JoinedAt is not null)
-        var businesses = await db.BusinessMembers
+        var memberships = await db.BusinessMembers
             .Include(bm => bm.Business)
+            .Include(bm => bm.QueuePermissions)
             .Where(bm => bm.UserId == userId && bm.JoinedAt != null)
+            .ToListAsync(cancellationToken);
+
+        var businesses = memberships
             .Select(bm => new BusinessDto(
                 bm.Business.Id,
                 bm.Business.Name,
                 bm.Business.Slug,
-                bm.Role.ToString().ToLowerInvariant()))
-            .ToListAsync(cancellationToken);
+                bm.Role.ToString().ToLowerInvariant(),
+                StaffPermissionNames.ToNames(bm.PermissionsFor()),
+                StaffPermissionNames.QueueOverrides(bm)))
+            .ToList();
 
         return Results.Ok(new Response(dbUser.Id, dbUser.Email, businesses));
     }
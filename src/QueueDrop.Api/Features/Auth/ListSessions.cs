@@ -0,0 +1,56 @@
+using System.Security.Claims;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Auth;
+
+/// <summary>
+/// Vertical slice: List the devices the current user is signed in on.
+/// GET /api/auth/sessions
+/// </summary>
+public static class ListSessions
+{
+    /// <summary>
+    /// Device is the user agent it signed in with. IsCurrent marks the session making this request.
+    /// </summary>
+    public sealed record SessionDto(
+        Guid SessionId,
+        string Device,
+        DateTimeOffset CreatedAt,
+        DateTimeOffset LastUsedAt,
+        bool IsCurrent);
+    public sealed record Response(List<SessionDto> Sessions);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapGet("/api/auth/sessions", Handler)
+            .WithName("ListSessions")
+            .WithTags("Auth")
+            .RequireAuthorization()
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces(StatusCodes.Status401Unauthorized);
+    }
+
+    private static async Task<IResult> Handler(
+        ClaimsPrincipal user,
+        AppDbContext db,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var userIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(userIdClaim, out var userId))
+            return Results.Unauthorized();
+
+        Guid.TryParse(user.FindFirstValue(JwtTokenService.SessionIdClaim), out var currentSessionId);
+        var now = timeProvider.GetUtcNow();
+
+        var sessions = await db.UserSessions
+            .Where(s => s.UserId == userId && s.RevokedAt == null && s.ExpiresAt > now)
+            .OrderByDescending(s => s.LastUsedAt)
+            .Select(s => new SessionDto(s.Id, s.Device, s.CreatedAt, s.LastUsedAt, s.Id == currentSessionId))
+            .ToListAsync(cancellationToken);
+
+        return Results.Ok(new Response(sessions));
+    }
+}
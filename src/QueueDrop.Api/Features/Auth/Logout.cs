@@ -0,0 +1,47 @@
+using System.Security.Claims;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Auth;
+
+/// <summary>
+/// Vertical slice: End the session the request was made with.
+/// POST /api/auth/logout
+/// </summary>
+public static class Logout
+{
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/auth/logout", Handler)
+            .WithName("Logout")
+            .WithTags("Auth")
+            .RequireAuthorization()
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces(StatusCodes.Status401Unauthorized);
+    }
+
+    private static async Task<IResult> Handler(
+        ClaimsPrincipal user,
+        AppDbContext db,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        if (!Guid.TryParse(user.FindFirstValue(JwtTokenService.SessionIdClaim), out var sessionId))
+        {
+            // Nothing to end for tokens without a session
+            return Results.NoContent();
+        }
+
+        var session = await db.UserSessions
+            .FirstOrDefaultAsync(s => s.Id == sessionId, cancellationToken);
+
+        if (session is not null)
+        {
+            session.Revoke(timeProvider.GetUtcNow());
+            await db.SaveChangesAsync(cancellationToken);
+        }
+
+        return Results.NoContent();
+    }
+}
@@ -0,0 +1,65 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Auth;
+
+/// <summary>
+/// Vertical slice: Swap a refresh token for a new access token.
+/// POST /api/auth/refresh
+/// The refresh token is rotated, so each one can only be used once.
+/// </summary>
+public static class RefreshSession
+{
+    public sealed record Request(string RefreshToken);
+    public sealed record Response(string Token, string RefreshToken);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/auth/refresh", Handler)
+            .WithName("RefreshSession")
+            .WithTags("Auth")
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status401Unauthorized);
+    }
+
+    private static async Task<IResult> Handler(
+        Request request,
+        AppDbContext db,
+        IJwtTokenService jwtService,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var now = timeProvider.GetUtcNow();
+
+        UserSession? session = null;
+        if (!string.IsNullOrWhiteSpace(request.RefreshToken))
+        {
+            var hash = UserSession.HashToken(request.RefreshToken);
+            session = await db.UserSessions
+                .FirstOrDefaultAsync(s => s.RefreshTokenHash == hash, cancellationToken);
+        }
+
+        if (session is null || !session.IsActive(now))
+        {
+            return Results.Problem(
+                title: "Session expired",
+                detail: "You've been signed out. Please sign in again.",
+                statusCode: StatusCodes.Status401Unauthorized);
+        }
+
+        var email = await db.Users
+            .Where(u => u.Id == session.UserId)
+            .Select(u => u.Email)
+            .FirstAsync(cancellationToken);
+
+        var refreshToken = session.Rotate(now);
+        await db.SaveChangesAsync(cancellationToken);
+
+        var jwt = jwtService.GenerateToken(session.UserId, email, session.Id);
+
+        return Results.Ok(new Response(jwt, refreshToken));
+    }
+}
@@ -0,0 +1,48 @@
+using System.Security.Claims;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Auth;
+
+/// <summary>
+/// Vertical slice: Sign one of the current user's devices out.
+/// DELETE /api/auth/sessions/{sessionId}
+/// The device's access token stops working straight away and it can't refresh again.
+/// </summary>
+public static class RevokeSession
+{
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapDelete("/api/auth/sessions/{sessionId:guid}", Handler)
+            .WithName("RevokeSession")
+            .WithTags("Auth")
+            .RequireAuthorization()
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces(StatusCodes.Status401Unauthorized)
+            .Produces(StatusCodes.Status404NotFound);
+    }
+
+    private static async Task<IResult> Handler(
+        Guid sessionId,
+        ClaimsPrincipal user,
+        AppDbContext db,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var userIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(userIdClaim, out var userId))
+            return Results.Unauthorized();
+
+        // Other users' sessions look the same as missing ones
+        var session = await db.UserSessions
+            .FirstOrDefaultAsync(s => s.Id == sessionId && s.UserId == userId, cancellationToken);
+
+        if (session is null)
+            return Results.NotFound();
+
+        session.Revoke(timeProvider.GetUtcNow());
+        await db.SaveChangesAsync(cancellationToken);
+
+        return Results.NoContent();
+    }
+}
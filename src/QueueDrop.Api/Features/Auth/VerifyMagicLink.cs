@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
 using QueueDrop.Api.Auth;
 using QueueDrop.Domain.Entities;
 using QueueDrop.Domain.Enums;
@@ -8,12 +9,22 @@ using QueueDrop.Infrastructure.Persistence;
 namespace QueueDrop.Api.Features.Auth;
 
 /// <summary>
-/// Vertical slice: Verify a magic link and return JWT.
+/// Vertical slice: Verify a magic link and start a session for this device.
 /// GET /api/auth/verify?token=xxx
 /// </summary>
 public static class VerifyMagicLink
 {
-    public sealed record Response(string Token, Guid UserId, string Email, bool IsNewUser);
+    /// <summary>
+    /// Token is a short-lived access token; RefreshToken gets new ones (see RefreshSession).
+    /// InvitedBusinessSlug is set when the link was a staff invite, so the client can open that business.
+    /// </summary>
+    public sealed record Response(
+        string Token,
+        string RefreshToken,
+        Guid UserId,
+        string Email,
+        bool IsNewUser,
+        string? InvitedBusinessSlug);
 
     public static void MapEndpoint(IEndpointRouteBuilder app)
     {
@@ -26,8 +37,10 @@ public static class VerifyMagicLink
 
     private static async Task<IResult> Handler(
         [FromQuery] string token,
+        HttpRequest request,
         AppDbContext db,
         IJwtTokenService jwtService,
+        IOptions<JwtOptions> jwtOptions,
         TimeProvider timeProvider,
         CancellationToken cancellationToken)
     {
@@ -77,9 +90,16 @@ public static class VerifyMagicLink
 
         await db.SaveChangesAsync(cancellationToken);
 
+        string? invitedBusinessSlug = null;
+
         // If this is an invite link, create staff membership
         if (magicLink.Type == MagicLinkType.Invite && magicLink.BusinessId.HasValue)
         {
+            invitedBusinessSlug = await db.Businesses
+                .Where(b => b.Id == magicLink.BusinessId.Value)
+                .Select(b => b.Slug)
+                .FirstOrDefaultAsync(cancellationToken);
+
             var existingMembership = await db.BusinessMembers
                 .FirstOrDefaultAsync(bm => bm.UserId == user!.Id && bm.BusinessId == magicLink.BusinessId.Value,
                     cancellationToken);
@@ -93,9 +113,17 @@ public static class VerifyMagicLink
             }
         }
 
-        // Generate JWT
-        var jwt = jwtService.GenerateToken(user!.Id, user.Email);
+        var session = UserSession.Start(
+            user!.Id,
+            request.Headers.UserAgent.ToString(),
+            now,
+            TimeSpan.FromDays(jwtOptions.Value.RefreshTokenDays),
+            out var refreshToken);
+        db.UserSessions.Add(session);
+        await db.SaveChangesAsync(cancellationToken);
+
+        var jwt = jwtService.GenerateToken(user.Id, user.Email, session.Id);
 
-        return Results.Ok(new Response(jwt, user.Id, user.Email, isNewUser));
+        return Results.Ok(new Response(jwt, refreshToken, user.Id, user.Email, isNewUser, invitedBusinessSlug));
     }
 }
@@ -0,0 +1,91 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Customers;
+
+/// <summary>
+/// Vertical slice: Called customer tells staff they're on their way.
+/// POST /api/q/{token}/on-my-way
+/// </summary>
+public static class AcknowledgeCall
+{
+    public sealed record Response(DateTimeOffset OnTheWayAt);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/q/{token}/on-my-way", Handler)
+            .WithName("AcknowledgeCall")
+            .WithTags("Customers")
+            .Produces<Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
+    }
+
+    private static async Task<IResult> Handler(
+        string token,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Customers.Any(c => c.Token == token), cancellationToken);
+
+        var customer = queue?.GetCustomerByToken(token);
+        if (queue is null || customer is null)
+        {
+            return Results.Problem(
+                title: "Customer not found",
+                detail: $"No customer found with token '{token}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var versionBefore = queue.Version;
+        var now = timeProvider.GetUtcNow();
+        var result = queue.AcknowledgeCall(customer.Id, now);
+
+        if (result.IsFailure)
+        {
+            return Results.Problem(
+                title: "Cannot confirm you're on your way",
+                detail: result.Error.Message,
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        // Already said so - staff have been told
+        if (queue.Version == versionBefore)
+        {
+            return Results.Ok(new Response(customer.OnTheWayAt!.Value));
+        }
+
+        db.RecordAudit(httpContext, queue.Id, QueueAuditAction.OnTheWay, now, customer);
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrency conflict",
+                detail: "Please try again.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        await notifier.NotifyQueueUpdatedAsync(
+            queue.Id,
+            QueueUpdateType.CustomerOnTheWay,
+            queue.Version,
+            QueueCustomerUpdate.From(customer, position: null),
+            cancellationToken);
+
+        return Results.Ok(new Response(customer.OnTheWayAt!.Value));
+    }
+}
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Domain.Entities;
 using QueueDrop.Domain.Enums;
 using QueueDrop.Infrastructure.Persistence;
 
@@ -17,9 +18,14 @@ public static class GetPosition
         string QueueName,
         string BusinessName,
         int? EstimatedWaitMinutes,
+        WaitEstimate? EstimatedWait,
         int RecentActivity,
         string? WelcomeMessage,
-        string? CalledMessage);
+        string? CalledMessage,
+        DateTimeOffset? OnTheWayAt,
+        bool QueueIsActive,
+        bool QueueIsPaused,
+        long Version);
 
     public static void MapEndpoint(IEndpointRouteBuilder app)
     {
@@ -63,18 +69,17 @@ public static class GetPosition
                 statusCode: StatusCodes.Status404NotFound);
         }
 
-        // Calculate position (null if not waiting)
-        int? position = customer.Status == CustomerStatus.Waiting
-            ? queue.GetCustomerPosition(customer.Id)
-            : null;
+        var now = timeProvider.GetUtcNow();
 
-        // Calculate estimated wait (position * estimated service time)
-        int? estimatedWaitMinutes = position.HasValue
-            ? (position.Value - 1) * queue.Settings.EstimatedServiceTimeMinutes
-            : null;
+        // Position and wait estimate (null if not waiting)
+        var estimate = customer.Status == CustomerStatus.Waiting
+            ? queue.GetWaitEstimates(now).FirstOrDefault(e => e.CustomerId == customer.Id)
+            : default;
+        int? position = estimate.CustomerId == customer.Id ? estimate.Position : null;
+        var estimatedWait = position.HasValue ? estimate.EstimatedWait : null;
 
         // Get recent activity (customers served in last 30 minutes)
-        var thirtyMinutesAgo = timeProvider.GetUtcNow().AddMinutes(-30);
+        var thirtyMinutesAgo = now.AddMinutes(-30);
         var recentActivity = queue.GetServedCount(thirtyMinutesAgo);
 
         // Determine which message to show
@@ -87,9 +92,14 @@ public static class GetPosition
             Status: customer.Status.ToString(),
             QueueName: queue.Name,
             BusinessName: queue.Business?.Name ?? "Unknown",
-            EstimatedWaitMinutes: estimatedWaitMinutes,
+            EstimatedWaitMinutes: estimatedWait?.MidMinutes,
+            EstimatedWait: estimatedWait,
             RecentActivity: recentActivity,
             WelcomeMessage: queue.Settings.WelcomeMessage,
-            CalledMessage: calledMessage));
+            CalledMessage: calledMessage,
+            OnTheWayAt: customer.OnTheWayAt,
+            QueueIsActive: queue.IsActive,
+            QueueIsPaused: queue.IsPaused,
+            Version: queue.Version));
     }
 }
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
 using QueueDrop.Domain.Abstractions;
 using QueueDrop.Domain.Entities;
 using QueueDrop.Domain.Enums;
@@ -10,14 +11,26 @@ namespace QueueDrop.Api.Features.Customers;
 /// <summary>
 /// Vertical slice: Customer joins a queue.
 /// POST /api/join/{businessSlug}/{queueSlug?}
+/// Answers to the queue's join questions come keyed by question key, all as strings.
 /// </summary>
 public static class JoinQueue
 {
-    public sealed record Request(string Name, string? PhoneNumber = null, int? PartySize = null, string? Notes = null);
+    public sealed record Request(
+        string Name,
+        string? PhoneNumber = null,
+        int? PartySize = null,
+        string? Notes = null,
+        IReadOnlyDictionary<string, string?>? Answers = null);
 
     public sealed record Response(string Token, int Position, string QueueName, string QueueSlug);
 
-    public sealed record QueueOptionDto(string Name, string Slug, int WaitingCount, int EstimatedWaitMinutes);
+    public sealed record QueueOptionDto(
+        string Name,
+        string Slug,
+        int WaitingCount,
+        int EstimatedWaitMinutes,
+        WaitEstimate EstimatedWait,
+        OpeningStatus Opening);
 
     public sealed record MultipleQueuesResponse(string Message, IReadOnlyList<QueueOptionDto> Queues);
 
@@ -37,6 +50,7 @@ public static class JoinQueue
         string businessSlug,
         string? queueSlug,
         Request request,
+        HttpContext httpContext,
         AppDbContext db,
         IQueueHubNotifier notifier,
         TimeProvider timeProvider,
@@ -76,6 +90,7 @@ public static class JoinQueue
                 statusCode: StatusCodes.Status404NotFound);
         }
 
+        var now = timeProvider.GetUtcNow();
         Queue? queue;
 
         if (!string.IsNullOrWhiteSpace(queueSlug))
@@ -101,12 +116,19 @@ public static class JoinQueue
         {
             // Multiple queues, require selection
             var queueOptions = activeQueues
-                .OrderBy(q => q.CreatedAt)
-                .Select(q => new QueueOptionDto(
-                    q.Name,
-                    q.Slug,
-                    q.GetWaitingCount(),
-                    q.GetWaitingCount() * q.Settings.EstimatedServiceTimeMinutes))
+                .OrderBy(q => q.DisplayOrder)
+                .ThenBy(q => q.CreatedAt)
+                .Select(q =>
+                {
+                    var estimatedWait = q.EstimateWaitToJoin(now);
+                    return new QueueOptionDto(
+                        q.Name,
+                        q.Slug,
+                        q.GetWaitingCount(),
+                        estimatedWait.MidMinutes,
+                        estimatedWait,
+                        q.GetOpeningStatus(now));
+                })
                 .ToList();
 
             return Results.Json(
@@ -116,14 +138,37 @@ public static class JoinQueue
                 statusCode: StatusCodes.Status400BadRequest);
         }
 
+        // Outside operating hours, e.g. from the QR code on the window at night
+        var opening = queue.GetOpeningStatus(now);
+        if (!opening.AcceptsJoins)
+        {
+            return Results.Problem(
+                title: "Queue closed",
+                detail: opening.IsOpen
+                    ? "This queue has stopped taking new customers for today."
+                    : "This queue is closed right now.",
+                statusCode: StatusCodes.Status400BadRequest,
+                extensions: new Dictionary<string, object?> { ["opensAt"] = opening.OpensAt });
+        }
+
+        var form = JoinForm.Fill(queue.Settings.JoinFields, request.Answers ?? new Dictionary<string, string?>());
+        if (form.IsFailure)
+        {
+            return Results.Problem(
+                title: "Invalid answer",
+                detail: form.Error.Message,
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
         // Add customer to queue (domain logic)
-        var now = timeProvider.GetUtcNow();
+        var entry = form.Value;
         var result = queue.AddCustomer(
             request.Name,
             now,
-            request.PhoneNumber,
-            request.PartySize,
-            request.Notes);
+            entry.PhoneNumber ?? request.PhoneNumber,
+            entry.PartySize ?? request.PartySize,
+            entry.Notes ?? request.Notes,
+            entry.Answers);
 
         if (result.IsFailure)
         {
@@ -139,6 +184,12 @@ public static class JoinQueue
         // This is needed because adding to a tracked collection may not always detect new entities
         db.Entry(customer).State = EntityState.Added;
 
+        // Calculate position
+        var position = queue.GetCustomerPosition(customer.Id) ?? 1;
+
+        // No staff member behind a join - the entry keeps the customer's device
+        db.RecordAudit(httpContext, queue.Id, QueueAuditAction.Joined, now, customer, $"Joined at position {position}");
+
         try
         {
             await db.SaveChangesAsync(cancellationToken);
@@ -151,11 +202,13 @@ public static class JoinQueue
                 statusCode: StatusCodes.Status409Conflict);
         }
 
-        // Calculate position
-        var position = queue.GetCustomerPosition(customer.Id) ?? 1;
-
         // Notify staff that a customer joined
-        await notifier.NotifyQueueUpdatedAsync(queue.Id, QueueUpdateType.CustomerJoined, cancellationToken);
+        await notifier.NotifyQueueUpdatedAsync(
+            queue.Id,
+            QueueUpdateType.CustomerJoined,
+            queue.Version,
+            QueueCustomerUpdate.From(customer, position),
+            cancellationToken);
 
         return Results.Created(
             $"/api/q/{customer.Token}",
@@ -0,0 +1,92 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Customers;
+
+/// <summary>
+/// Vertical slice: Customer leaves the queue from their own page.
+/// POST /api/q/{token}/leave
+/// </summary>
+public static class LeaveQueue
+{
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/q/{token}/leave", Handler)
+            .WithName("LeaveQueue")
+            .WithTags("Customers")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
+    }
+
+    private static async Task<IResult> Handler(
+        string token,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Customers.Any(c => c.Token == token), cancellationToken);
+
+        var customer = queue?.GetCustomerByToken(token);
+        if (queue is null || customer is null)
+        {
+            return Results.Problem(
+                title: "Customer not found",
+                detail: $"No customer found with token '{token}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var now = timeProvider.GetUtcNow();
+        var result = queue.LeaveQueue(customer.Id, now);
+
+        if (result.IsFailure)
+        {
+            return Results.Problem(
+                title: "Cannot leave queue",
+                detail: result.Error.Message,
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        db.RecordAudit(httpContext, queue.Id, QueueAuditAction.Left, now, customer);
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrency conflict",
+                detail: "Please try again.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        // Other tabs or devices following the same token
+        await notifier.NotifyStatusChangedAsync(token, "Removed", cancellationToken);
+
+        await notifier.NotifyQueueUpdatedAsync(
+            queue.Id,
+            QueueUpdateType.CustomerRemoved,
+            queue.Version,
+            QueueCustomerUpdate.From(customer, position: null),
+            cancellationToken);
+
+        var updatedPositions = PositionUpdate.ForWaitingCustomers(queue, now);
+
+        if (updatedPositions.Count > 0)
+        {
+            await notifier.NotifyPositionsChangedAsync(updatedPositions, cancellationToken);
+        }
+
+        return Results.NoContent();
+    }
+}
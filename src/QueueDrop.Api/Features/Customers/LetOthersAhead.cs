@@ -0,0 +1,109 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Customers;
+
+/// <summary>
+/// Vertical slice: Waiting customer lets up to three people behind them go ahead.
+/// POST /api/q/{token}/let-ahead
+/// </summary>
+public static class LetOthersAhead
+{
+    public sealed record Request(int Places);
+
+    public sealed record Response(int Position);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/q/{token}/let-ahead", Handler)
+            .WithName("LetOthersAhead")
+            .WithTags("Customers")
+            .Produces<Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
+    }
+
+    private static async Task<IResult> Handler(
+        string token,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Customers.Any(c => c.Token == token), cancellationToken);
+
+        var customer = queue?.GetCustomerByToken(token);
+        if (queue is null || customer is null)
+        {
+            return Results.Problem(
+                title: "Customer not found",
+                detail: $"No customer found with token '{token}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var positionsBefore = queue.GetUpdatedPositions().ToDictionary(p => p.CustomerId, p => p.NewPosition);
+
+        var result = queue.LetOthersAhead(customer.Id, request.Places);
+
+        if (result.IsFailure)
+        {
+            return Results.Problem(
+                title: "Could not let others ahead",
+                detail: result.Error.Message,
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        var position = result.Value;
+        var now = timeProvider.GetUtcNow();
+
+        db.RecordAudit(
+            httpContext,
+            queue.Id,
+            QueueAuditAction.LetOthersAhead,
+            now,
+            customer,
+            $"Moved from position {positionsBefore[customer.Id]} to {position}");
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrency conflict",
+                detail: "Please try again.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        // Only the customer and those who went ahead of them moved
+        var movedTokens = queue.GetUpdatedPositions()
+            .Where(p => positionsBefore[p.CustomerId] != p.NewPosition)
+            .Select(p => queue.Customers.First(c => c.Id == p.CustomerId).Token)
+            .ToHashSet();
+
+        var positionUpdates = PositionUpdate.ForWaitingCustomers(queue, now)
+            .Where(u => movedTokens.Contains(u.CustomerToken))
+            .ToList();
+
+        await Task.WhenAll(
+            notifier.NotifyPositionsChangedAsync(positionUpdates, cancellationToken),
+            notifier.NotifyQueueUpdatedAsync(
+                queue.Id,
+                QueueUpdateType.CustomerMoved,
+                queue.Version,
+                QueueCustomerUpdate.From(customer, position),
+                cancellationToken));
+
+        return Results.Ok(new Response(position));
+    }
+}
@@ -11,11 +11,13 @@ namespace QueueDrop.Api.Features.Demo;
 /// Vertical slice: Seeds demo data for showcasing the app.
 /// POST /api/demo/seed - Add random demo customers
 /// POST /api/demo/reset - Clear all customers from queue
+/// POST /api/demo/session - Sign in as demo staff to drive the demo queues
 /// </summary>
 public static class SeedDemoData
 {
     public sealed record SeedResponse(int CustomersAdded, string Message);
     public sealed record ResetResponse(int CustomersRemoved, string Message);
+    public sealed record SessionResponse(string Token);
     public sealed record RoleTestResponse(
         string OwnerEmail,
         string OwnerToken,
@@ -57,6 +59,13 @@ public static class SeedDemoData
             .Produces(StatusCodes.Status404NotFound)
             .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
 
+        // Staff queue endpoints need a member's token, so the demo signs in as its own staff user
+        app.MapPost("/api/demo/session", SessionHandler)
+            .WithName("StartDemoSession")
+            .WithTags("Demo")
+            .Produces<SessionResponse>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound);
+
         // Dev-only: Create queue without auth (for testing)
         app.MapPost("/api/demo/business/{businessSlug}/queues", CreateQueueHandler)
             .WithName("DevCreateQueue")
@@ -94,13 +103,18 @@ public static class SeedDemoData
         var random = new Random(); // Random seed for variety
         var customersToAdd = Math.Min(count ?? 5, 10); // Default 5, max 10
 
-        for (var i = 0; i < customersToAdd; i++)
+        // Add in join order so the line matches who "arrived" first
+        var joinTimes = Enumerable.Range(0, customersToAdd)
+            .Select(_ => now.AddMinutes(-random.Next(1, 30)))
+            .Order()
+            .ToList();
+
+        foreach (var joinTime in joinTimes)
         {
             var firstName = FirstNames[random.Next(FirstNames.Length)];
             var lastName = LastNames[random.Next(LastNames.Length)];
             var name = $"{firstName} {lastName}";
 
-            var joinTime = now.AddMinutes(-random.Next(1, 30));
             var partySize = random.Next(1, 6);
             var notes = random.NextDouble() > 0.8 ? GetRandomNote(random) : null;
 
@@ -132,6 +146,7 @@ public static class SeedDemoData
     private static async Task<IResult> ResetHandler(
         AppDbContext db,
         Guid? queueId,
+        TimeProvider timeProvider,
         CancellationToken cancellationToken)
     {
         var queue = await GetDemoQueueAsync(db, queueId, cancellationToken);
@@ -148,9 +163,10 @@ public static class SeedDemoData
             .Where(c => c.Status is Domain.Enums.CustomerStatus.Waiting or Domain.Enums.CustomerStatus.Called)
             .ToList();
 
+        var now = timeProvider.GetUtcNow();
         foreach (var customer in customersToRemove)
         {
-            queue.RemoveCustomer(customer.Id);
+            queue.RemoveCustomer(customer.Id, now);
         }
 
         try
@@ -170,6 +186,48 @@ public static class SeedDemoData
             $"Removed {customersToRemove.Count} customers from the queue."));
     }
 
+    private static async Task<IResult> SessionHandler(
+        AppDbContext db,
+        IJwtTokenService jwtService,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        const string demoStaffEmail = "demo-staff@queuedrop.local";
+
+        var business = await db.Businesses
+            .FirstOrDefaultAsync(b => b.Slug == "demo-shop", cancellationToken);
+
+        if (business is null)
+        {
+            return Results.Problem(
+                title: "Demo business not found",
+                detail: "The demo-shop business doesn't exist.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var now = timeProvider.GetUtcNow();
+
+        var user = await db.Users.FirstOrDefaultAsync(u => u.Email == demoStaffEmail, cancellationToken);
+        if (user is null)
+        {
+            user = User.Create(demoStaffEmail, now);
+            db.Users.Add(user);
+        }
+
+        var isMember = await db.BusinessMembers
+            .AnyAsync(bm => bm.UserId == user.Id && bm.BusinessId == business.Id, cancellationToken);
+        if (!isMember)
+        {
+            var membership = BusinessMember.CreateStaffInvite(user.Id, business.Id, now);
+            membership.AcceptInvite(now);
+            db.BusinessMembers.Add(membership);
+        }
+
+        await db.SaveChangesAsync(cancellationToken);
+
+        return Results.Ok(new SessionResponse(jwtService.GenerateToken(user.Id, user.Email)));
+    }
+
     private static async Task<Queue?> GetDemoQueueAsync(
         AppDbContext db,
         Guid? queueId,
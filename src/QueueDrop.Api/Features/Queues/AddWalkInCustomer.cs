@@ -0,0 +1,126 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Api.Idempotency;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Staff adds a walk-in customer who didn't join from their own phone.
+/// POST /api/queues/{queueId}/customers
+/// </summary>
+public static class AddWalkInCustomer
+{
+    public sealed record Request(string Name, int? PartySize = null, string? Notes = null);
+
+    /// <summary>
+    /// The new customer's token lets them claim the live /q/{token} view later.
+    /// The ticket number is short enough to write down or call out.
+    /// </summary>
+    public sealed record Response(Guid CustomerId, string Token, int TicketNumber, int Position, string QueueName);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/queues/{queueId:guid}/customers", Handler)
+            .WithName("AddWalkInCustomer")
+            .WithTags("Queues")
+            .Produces<Response>(StatusCodes.Status201Created)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.CallCustomers)
+            .AddEndpointFilter<IdempotencyFilter>();
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        if (request.PartySize is < 1)
+        {
+            return Results.Problem(
+                title: "Invalid party size",
+                detail: "Party size must be at least 1.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        if (request.Notes?.Length > 500)
+        {
+            return Results.Problem(
+                title: "Invalid notes",
+                detail: "Notes must be 500 characters or fewer.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        var queue = await db.Queues
+            .Include(q => q.Settings)
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var notes = string.IsNullOrWhiteSpace(request.Notes) ? null : request.Notes.Trim();
+        var now = timeProvider.GetUtcNow();
+        var result = queue.AddCustomer(
+            request.Name,
+            now,
+            phoneNumber: null,
+            request.PartySize,
+            notes);
+
+        if (result.IsFailure)
+        {
+            return Results.Problem(
+                title: "Could not add customer",
+                detail: result.Error.Message,
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        var customer = result.Value;
+
+        // Adding to a tracked collection may not be detected - mark it explicitly, as JoinQueue does
+        db.Entry(customer).State = EntityState.Added;
+
+        var position = queue.GetCustomerPosition(customer.Id) ?? 1;
+        db.RecordAudit(httpContext, queue.Id, QueueAuditAction.Joined, now, customer, $"Walk-in added at position {position}");
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrency conflict",
+                detail: "Another staff member modified the queue. Please try again.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        await notifier.NotifyQueueUpdatedAsync(
+            queue.Id,
+            QueueUpdateType.CustomerJoined,
+            queue.Version,
+            QueueCustomerUpdate.From(customer, position),
+            cancellationToken);
+
+        return Results.Created(
+            $"/api/q/{customer.Token}",
+            new Response(customer.Id, customer.Token, customer.JoinPosition, position, queue.Name));
+    }
+}
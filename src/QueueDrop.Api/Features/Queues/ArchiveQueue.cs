@@ -0,0 +1,152 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Archive a queue or bring it back.
+/// POST /api/business/{businessSlug}/queues/{queueSlug}/archive
+/// POST /api/business/{businessSlug}/queues/{queueSlug}/restore
+/// Only business owners can archive queues. Archiving closes the queue and hides it
+/// from customers and the staff dashboard, but keeps its history.
+/// </summary>
+public static class ArchiveQueue
+{
+    public sealed record Response(Guid Id, bool IsArchived, bool IsActive);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/business/{businessSlug}/queues/{queueSlug}/archive", ArchiveHandler)
+            .WithName("ArchiveQueue")
+            .WithTags("Queues")
+            .Produces<Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .ResolveActingMember();
+
+        app.MapPost("/api/business/{businessSlug}/queues/{queueSlug}/restore", RestoreHandler)
+            .WithName("RestoreQueue")
+            .WithTags("Queues")
+            .Produces<Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .ResolveActingMember();
+    }
+
+    private static async Task<IResult> ArchiveHandler(
+        string businessSlug,
+        string queueSlug,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } userId)
+            return Results.Unauthorized();
+
+        if (!await authService.IsOwnerAsync(userId, businessSlug, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only business owners can archive queues.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var queue = await db.Queues
+            .Include(q => q.Business)
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q =>
+                q.Business != null &&
+                q.Business.Slug == businessSlug.ToLowerInvariant() &&
+                q.Slug == queueSlug.ToLowerInvariant(),
+                cancellationToken);
+
+        if (queue is null)
+            return Results.NotFound();
+
+        var versionBefore = queue.Version;
+        var result = queue.Archive(timeProvider.GetUtcNow());
+
+        if (result.IsFailure)
+        {
+            return Results.Problem(
+                title: "Customers still in line",
+                detail: result.Error.Message,
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        // Already archived
+        if (queue.Version == versionBefore)
+            return Results.Ok(new Response(queue.Id, queue.IsArchived, queue.IsActive));
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrent modification",
+                detail: "The queue was modified by another request. Please retry.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        await SetQueueStatus.NotifyStatusChangedAsync(queue, notifier, cancellationToken);
+
+        return Results.Ok(new Response(queue.Id, queue.IsArchived, queue.IsActive));
+    }
+
+    private static async Task<IResult> RestoreHandler(
+        string businessSlug,
+        string queueSlug,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } userId)
+            return Results.Unauthorized();
+
+        if (!await authService.IsOwnerAsync(userId, businessSlug, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only business owners can restore queues.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var queue = await db.Queues
+            .Include(q => q.Business)
+            .FirstOrDefaultAsync(q =>
+                q.Business != null &&
+                q.Business.Slug == businessSlug.ToLowerInvariant() &&
+                q.Slug == queueSlug.ToLowerInvariant(),
+                cancellationToken);
+
+        if (queue is null)
+            return Results.NotFound();
+
+        queue.Unarchive();
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrent modification",
+                detail: "The queue was modified by another request. Please retry.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        return Results.Ok(new Response(queue.Id, queue.IsArchived, queue.IsActive));
+    }
+}
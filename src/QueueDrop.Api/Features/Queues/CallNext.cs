@@ -1,5 +1,8 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Api.Idempotency;
 using QueueDrop.Domain.Abstractions;
 using QueueDrop.Domain.Enums;
 using QueueDrop.Infrastructure.Persistence;
@@ -27,12 +30,15 @@ public static class CallNext
             .WithTags("Queues")
             .Produces<Response>()
             .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
-            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
-        // TODO: Add .RequireAuthorization() for staff auth
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.CallCustomers)
+            .AddEndpointFilter<IdempotencyFilter>();
     }
 
     private static async Task<IResult> Handler(
         Guid queueId,
+        HttpContext httpContext,
         AppDbContext db,
         IQueueHubNotifier notifier,
         IWebPushService webPush,
@@ -55,7 +61,7 @@ public static class CallNext
 
         // Call next customer (domain logic)
         var now = timeProvider.GetUtcNow();
-        var result = queue.CallNext(now);
+        var result = queue.CallNext(now, httpContext.GetStaffUserId());
 
         if (result.IsFailure)
         {
@@ -70,6 +76,7 @@ public static class CallNext
         }
 
         var calledCustomer = result.Value;
+        db.RecordAudit(httpContext, queueId, QueueAuditAction.Called, now, calledCustomer);
 
         try
         {
@@ -84,13 +91,7 @@ public static class CallNext
         }
 
         // Get all position updates for remaining waiting customers
-        var positionUpdates = queue.GetUpdatedPositions()
-            .Select(u =>
-            {
-                var customer = queue.Customers.First(c => c.Id == u.CustomerId);
-                return (customer.Token, u.NewPosition);
-            })
-            .ToList();
+        var positionUpdates = PositionUpdate.ForWaitingCustomers(queue, now);
 
         // Send notifications in parallel
         var notificationTasks = new List<Task>
@@ -105,7 +106,12 @@ public static class CallNext
             notifier.NotifyPositionsChangedAsync(positionUpdates, cancellationToken),
 
             // Notify staff dashboard
-            notifier.NotifyQueueUpdatedAsync(queue.Id, QueueUpdateType.CustomerCalled, cancellationToken)
+            notifier.NotifyQueueUpdatedAsync(
+                queue.Id,
+                QueueUpdateType.CustomerCalled,
+                queue.Version,
+                QueueCustomerUpdate.From(calledCustomer, position: null),
+                cancellationToken)
         };
 
         // Send Web Push notification if customer has a subscription
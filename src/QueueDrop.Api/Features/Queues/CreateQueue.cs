@@ -1,4 +1,3 @@
-using System.Security.Claims;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using QueueDrop.Api.Auth;
@@ -28,24 +27,23 @@ public static class CreateQueue
         app.MapPost("/api/business/{businessSlug}/queues", Handler)
             .WithName("CreateQueue")
             .WithTags("Queues")
-            .RequireAuthorization()
             .Produces<Response>(StatusCodes.Status201Created)
             .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
             .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
-            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .ResolveActingMember();
     }
 
     private static async Task<IResult> Handler(
         string businessSlug,
         Request request,
-        ClaimsPrincipal user,
+        HttpContext httpContext,
         AppDbContext db,
         IBusinessAuthorizationService authService,
         TimeProvider timeProvider,
         CancellationToken cancellationToken)
     {
-        var userIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
-        if (!Guid.TryParse(userIdClaim, out var userId))
+        if (httpContext.GetStaffUserId() is not { } userId)
             return Results.Unauthorized();
 
         // Load business first to check if it exists
@@ -91,6 +89,15 @@ public static class CreateQueue
         var now = timeProvider.GetUtcNow();
         var queue = Queue.Create(business.Id, request.Name, slug, now);
 
+        // New queues go after the existing tabs
+        queue.SetDisplayOrder(business.Queues.Count == 0 ? 0 : business.Queues.Max(q => q.DisplayOrder) + 1);
+
+        // A new queue takes over an old slug that used to redirect elsewhere
+        var staleRedirects = await db.QueueSlugRedirects
+            .Where(r => r.BusinessId == business.Id && r.Slug == slug)
+            .ToListAsync(cancellationToken);
+        db.QueueSlugRedirects.RemoveRange(staleRedirects);
+
         // Apply optional settings if provided
         if (request.MaxQueueSize.HasValue || request.EstimatedServiceTimeMinutes.HasValue || !string.IsNullOrWhiteSpace(request.WelcomeMessage))
         {
@@ -114,7 +121,7 @@ public static class CreateQueue
             new Response(queue.Id, queue.Name, queue.Slug));
     }
 
-    private static string GenerateSlug(string input) => input
+    internal static string GenerateSlug(string input) => input
         .ToLowerInvariant()
         .Trim()
         .Replace(" ", "-")
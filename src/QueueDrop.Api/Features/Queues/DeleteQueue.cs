@@ -1,4 +1,3 @@
-using System.Security.Claims;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using QueueDrop.Api.Auth;
@@ -9,7 +8,7 @@ namespace QueueDrop.Api.Features.Queues;
 /// <summary>
 /// Vertical slice: Delete an existing queue from a business.
 /// DELETE /api/business/{businessSlug}/queues/{queueSlug}
-/// Only business owners can delete queues.
+/// Only business owners can delete queues, and only once nobody is left in line.
 /// </summary>
 public static class DeleteQueue
 {
@@ -18,22 +17,22 @@ public static class DeleteQueue
         app.MapDelete("/api/business/{businessSlug}/queues/{queueSlug}", Handler)
             .WithName("DeleteQueue")
             .WithTags("Queues")
-            .RequireAuthorization()
             .Produces(StatusCodes.Status204NoContent)
             .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
-            .Produces<ProblemDetails>(StatusCodes.Status404NotFound);
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .ResolveActingMember();
     }
 
     private static async Task<IResult> Handler(
         string businessSlug,
         string queueSlug,
-        ClaimsPrincipal user,
+        HttpContext httpContext,
         AppDbContext db,
         IBusinessAuthorizationService authService,
         CancellationToken cancellationToken)
     {
-        var userIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
-        if (!Guid.TryParse(userIdClaim, out var userId))
+        if (httpContext.GetStaffUserId() is not { } userId)
             return Results.Unauthorized();
 
         if (!await authService.IsOwnerAsync(userId, businessSlug, cancellationToken))
@@ -46,6 +45,7 @@ public static class DeleteQueue
 
         var queue = await db.Queues
             .Include(q => q.Business)
+            .Include(q => q.Customers)
             .FirstOrDefaultAsync(q =>
                 q.Business != null &&
                 q.Business.Slug == businessSlug.ToLowerInvariant() &&
@@ -55,6 +55,14 @@ public static class DeleteQueue
         if (queue is null)
             return Results.NotFound();
 
+        if (queue.HasCustomersInLine())
+        {
+            return Results.Problem(
+                title: "Customers still in line",
+                detail: "Serve, remove or transfer everyone still waiting or called before deleting this queue.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
         db.Queues.Remove(queue);
         await db.SaveChangesAsync(cancellationToken);
 
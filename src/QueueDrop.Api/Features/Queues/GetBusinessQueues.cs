@@ -1,5 +1,8 @@
+using System.Security.Claims;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
 using QueueDrop.Infrastructure.Persistence;
 
 namespace QueueDrop.Api.Features.Queues;
@@ -7,6 +10,11 @@ namespace QueueDrop.Api.Features.Queues;
 /// <summary>
 /// Vertical slice: Get all queues for a business.
 /// GET /api/business/{businessSlug}/queues
+/// Closed queues are left out unless includeClosed is set (staff dashboard),
+/// archived ones unless includeArchived is set (queue management). Both are ignored
+/// unless the caller is a member of the business.
+/// Queues come back in the owner's display order, each with whether it's within its operating hours
+/// and the questions its join form asks.
 /// </summary>
 public static class GetBusinessQueues
 {
@@ -15,12 +23,23 @@ public static class GetBusinessQueues
         string Name,
         string Slug,
         int WaitingCount,
-        int EstimatedWaitMinutes);
+        int EstimatedWaitMinutes,
+        WaitEstimate EstimatedWait,
+        bool IsActive,
+        bool IsPaused,
+        bool CanJoin,
+        bool IsArchived,
+        OpeningStatus Opening,
+        IReadOnlyList<GetSettings.JoinFieldDto> JoinFields);
+
+    /// <summary>An old queue slug that now points at <paramref name="ToSlug"/>.</summary>
+    public sealed record SlugRedirectDto(string FromSlug, string ToSlug);
 
     public sealed record Response(
         Guid BusinessId,
         string BusinessName,
-        IReadOnlyList<QueueDto> Queues);
+        IReadOnlyList<QueueDto> Queues,
+        IReadOnlyList<SlugRedirectDto> SlugRedirects);
 
     public static void MapEndpoint(IEndpointRouteBuilder app)
     {
@@ -33,7 +52,12 @@ public static class GetBusinessQueues
 
     private static async Task<IResult> Handler(
         string businessSlug,
+        bool? includeClosed,
+        bool? includeArchived,
+        ClaimsPrincipal user,
         AppDbContext db,
+        IBusinessAuthorizationService authService,
+        TimeProvider timeProvider,
         CancellationToken cancellationToken)
     {
         var business = await db.Businesses
@@ -49,20 +73,59 @@ public static class GetBusinessQueues
                 statusCode: StatusCodes.Status404NotFound);
         }
 
-        var activeQueues = business.Queues
-            .Where(q => q.IsActive)
-            .OrderBy(q => q.CreatedAt)
-            .Select(q => new QueueDto(
-                q.Id,
-                q.Name,
-                q.Slug,
-                q.GetWaitingCount(),
-                q.GetWaitingCount() * q.Settings.EstimatedServiceTimeMinutes))
+        // Customers only ever see open queues
+        if (includeClosed == true || includeArchived == true)
+        {
+            var isMember = Guid.TryParse(user.FindFirstValue(ClaimTypes.NameIdentifier), out var userId)
+                && await authService.IsMemberAsync(userId, businessSlug, cancellationToken);
+
+            if (!isMember)
+            {
+                includeClosed = null;
+                includeArchived = null;
+            }
+        }
+
+        var now = timeProvider.GetUtcNow();
+        var queues = business.Queues
+            .Where(q => q.IsArchived ? includeArchived == true : q.IsActive || includeClosed == true)
+            .OrderBy(q => q.DisplayOrder)
+            .ThenBy(q => q.CreatedAt)
+            .Select(q =>
+            {
+                var estimatedWait = q.EstimateWaitToJoin(now);
+                var opening = q.GetOpeningStatus(now);
+                return new QueueDto(
+                    q.Id,
+                    q.Name,
+                    q.Slug,
+                    q.GetWaitingCount(),
+                    estimatedWait.MidMinutes,
+                    estimatedWait,
+                    q.IsActive,
+                    q.IsPaused,
+                    opening.AcceptsJoins && (!q.IsPaused || q.Settings.AllowJoinWhenPaused),
+                    q.IsArchived,
+                    opening,
+                    q.Settings.JoinFields.Select(GetSettings.JoinFieldDto.From).ToList());
+            })
+            .ToList();
+
+        // Old links only resolve to queues this caller can see
+        var slugsById = queues.ToDictionary(q => q.QueueId, q => q.Slug);
+        var redirects = await db.QueueSlugRedirects
+            .Where(r => r.BusinessId == business.Id)
+            .ToListAsync(cancellationToken);
+
+        var slugRedirects = redirects
+            .Where(r => slugsById.ContainsKey(r.QueueId))
+            .Select(r => new SlugRedirectDto(r.Slug, slugsById[r.QueueId]))
             .ToList();
 
         return Results.Ok(new Response(
             business.Id,
             business.Name,
-            activeQueues));
+            queues,
+            slugRedirects));
     }
 }
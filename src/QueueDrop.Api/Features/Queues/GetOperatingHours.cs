@@ -0,0 +1,49 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Get a queue's operating hours and whether it's open now.
+/// GET /api/queues/{queueId}/hours
+/// </summary>
+public static class GetOperatingHours
+{
+    /// <summary>Hours is null when the queue takes customers whenever it's open.</summary>
+    public sealed record Response(OperatingHours? Hours, OpeningStatus Status);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapGet("/api/queues/{queueId:guid}/hours", Handler)
+            .WithName("GetOperatingHours")
+            .WithTags("Queues")
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueueMembership();
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        AppDbContext db,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .AsNoTracking()
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        return Results.Ok(new Response(queue.OperatingHours, queue.GetOpeningStatus(timeProvider.GetUtcNow())));
+    }
+}
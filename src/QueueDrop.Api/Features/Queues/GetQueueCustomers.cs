@@ -1,5 +1,7 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
 using QueueDrop.Domain.Enums;
 using QueueDrop.Infrastructure.Persistence;
 
@@ -19,19 +21,24 @@ public static class GetQueueCustomers
         int? Position,
         DateTimeOffset JoinedAt,
         DateTimeOffset? CalledAt,
+        DateTimeOffset? OnTheWayAt,
         int? PartySize,
-        string? Notes);
+        string? Notes,
+        string? PhoneNumber,
+        IReadOnlyList<JoinAnswer> JoinAnswers);
 
     public sealed record QueueInfoDto(
         string Name,
         bool IsActive,
         bool IsPaused,
+        DateTimeOffset? AutoCloseAt,
         int WaitingCount,
         int CalledCount);
 
     public sealed record Response(
         IReadOnlyList<CustomerDto> Customers,
-        QueueInfoDto QueueInfo);
+        QueueInfoDto QueueInfo,
+        long Version);
 
     public static void MapEndpoint(IEndpointRouteBuilder app)
     {
@@ -39,7 +46,9 @@ public static class GetQueueCustomers
             .WithName("GetQueueCustomers")
             .WithTags("Queues")
             .Produces<Response>(StatusCodes.Status200OK)
-            .Produces<ProblemDetails>(StatusCodes.Status404NotFound);
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueueMembership();
     }
 
     private static async Task<IResult> Handler(
@@ -62,7 +71,8 @@ public static class GetQueueCustomers
         // Get waiting customers ordered by position
         var waitingCustomers = queue.Customers
             .Where(c => c.Status == CustomerStatus.Waiting)
-            .OrderBy(c => c.JoinedAt)
+            .OrderBy(c => c.SortOrder)
+            .ThenBy(c => c.JoinedAt)
             .ThenBy(c => c.JoinPosition)
             .ToList();
 
@@ -86,8 +96,11 @@ public static class GetQueueCustomers
                 Position: null,
                 customer.JoinedAt,
                 customer.CalledAt,
+                customer.OnTheWayAt,
                 customer.PartySize,
-                customer.Notes));
+                customer.Notes,
+                customer.PhoneNumber,
+                customer.JoinAnswers));
         }
 
         // Add waiting customers with their positions
@@ -102,17 +115,21 @@ public static class GetQueueCustomers
                 Position: i + 1,
                 customer.JoinedAt,
                 customer.CalledAt,
+                customer.OnTheWayAt,
                 customer.PartySize,
-                customer.Notes));
+                customer.Notes,
+                customer.PhoneNumber,
+                customer.JoinAnswers));
         }
 
         var queueInfo = new QueueInfoDto(
             queue.Name,
             queue.IsActive,
             queue.IsPaused,
+            queue.AutoCloseAt,
             waitingCustomers.Count,
             calledCustomers.Count);
 
-        return Results.Ok(new Response(customerDtos, queueInfo));
+        return Results.Ok(new Response(customerDtos, queueInfo, queue.Version));
     }
 }
@@ -0,0 +1,131 @@
+using System.Text.Json;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Browse a queue's audit log, newest first.
+/// GET /api/queues/{queueId}/history?action=&amp;customer=&amp;before=&amp;limit=
+/// Pages backwards in time: pass the previous page's NextBefore as "before" to load older entries.
+/// </summary>
+public static class GetQueueHistory
+{
+    public const int DefaultLimit = 50;
+    public const int MaxLimit = 200;
+
+    public sealed record EntryDto(
+        Guid Id,
+        string Action,
+        DateTimeOffset OccurredAt,
+        Guid? ActorUserId,
+        string? ActorEmail,
+        string? Device,
+        Guid? CustomerId,
+        string? CustomerName,
+        string? Details);
+
+    public sealed record Response(IReadOnlyList<EntryDto> Entries, DateTimeOffset? NextBefore);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapGet("/api/queues/{queueId:guid}/history", Handler)
+            .WithName("GetQueueHistory")
+            .WithTags("Queues")
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .RequireQueuePermission(StaffPermission.ViewReports);
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        string? action,
+        string? customer,
+        DateTimeOffset? before,
+        int? limit,
+        AppDbContext db,
+        CancellationToken cancellationToken)
+    {
+        QueueAuditAction? actionFilter = null;
+        if (!string.IsNullOrWhiteSpace(action))
+        {
+            if (!Enum.TryParse<QueueAuditAction>(action, ignoreCase: true, out var parsed) ||
+                !Enum.IsDefined(parsed))
+            {
+                return Results.Problem(
+                    title: "Invalid action",
+                    detail: $"'{action}' is not a recorded action.",
+                    statusCode: StatusCodes.Status400BadRequest);
+            }
+
+            actionFilter = parsed;
+        }
+
+        var pageSize = Math.Clamp(limit ?? DefaultLimit, 1, MaxLimit);
+
+        if (!await db.Queues.AnyAsync(q => q.Id == queueId, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var query = db.QueueAuditEntries
+            .AsNoTracking()
+            .Where(e => e.QueueId == queueId);
+
+        if (actionFilter is { } filter)
+            query = query.Where(e => e.Action == filter);
+
+        if (!string.IsNullOrWhiteSpace(customer))
+        {
+            var search = customer.Trim().ToLower();
+            query = query.Where(e => e.CustomerName != null && e.CustomerName.ToLower().Contains(search));
+        }
+
+        if (before is { } cursor)
+            query = query.Where(e => e.OccurredAt < cursor);
+
+        // One extra row tells us whether there is an older page
+        var entries = await query
+            .OrderByDescending(e => e.OccurredAt)
+            .Take(pageSize + 1)
+            .ToListAsync(cancellationToken);
+
+        var hasMore = entries.Count > pageSize;
+        var page = entries.Take(pageSize).ToList();
+
+        var actorIds = page
+            .Where(e => e.ActorUserId.HasValue)
+            .Select(e => e.ActorUserId!.Value)
+            .Distinct()
+            .ToList();
+
+        var actorEmails = await db.Users
+            .Where(u => actorIds.Contains(u.Id))
+            .ToDictionaryAsync(u => u.Id, u => u.Email, cancellationToken);
+
+        var dtos = page
+            .Select(e => new EntryDto(
+                e.Id,
+                JsonNamingPolicy.CamelCase.ConvertName(e.Action.ToString()),
+                e.OccurredAt,
+                e.ActorUserId,
+                e.ActorUserId is { } actorId ? actorEmails.GetValueOrDefault(actorId) : null,
+                e.Device,
+                e.CustomerId,
+                e.CustomerName,
+                e.Details))
+            .ToList();
+
+        var nextBefore = hasMore ? page[^1].OccurredAt : (DateTimeOffset?)null;
+
+        return Results.Ok(new Response(dtos, nextBefore));
+    }
+}
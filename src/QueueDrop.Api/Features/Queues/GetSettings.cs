@@ -1,5 +1,7 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
 using QueueDrop.Infrastructure.Persistence;
 
 namespace QueueDrop.Api.Features.Queues;
@@ -17,7 +19,22 @@ public static class GetSettings
         bool AllowJoinWhenPaused,
         string? WelcomeMessage,
         string? CalledMessage,
-        int? NearFrontThreshold);
+        int? NearFrontThreshold,
+        IReadOnlyList<JoinFieldDto> JoinFields);
+
+    /// <summary>A join form question. Also sent to customers choosing a queue, and accepted back when saving settings.</summary>
+    public sealed record JoinFieldDto(
+        string Key,
+        string Label,
+        string Type,
+        bool Required,
+        IReadOnlyList<string>? Options,
+        int? Min,
+        int? Max)
+    {
+        public static JoinFieldDto From(JoinField field) =>
+            new(field.Key, field.Label, field.Type.ToString(), field.Required, field.Options, field.Min, field.Max);
+    }
 
     public static void MapEndpoint(IEndpointRouteBuilder app)
     {
@@ -25,7 +42,9 @@ public static class GetSettings
             .WithName("GetQueueSettings")
             .WithTags("Queues")
             .Produces<Response>(StatusCodes.Status200OK)
-            .Produces<ProblemDetails>(StatusCodes.Status404NotFound);
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueueMembership();
     }
 
     private static async Task<IResult> Handler(
@@ -53,6 +72,7 @@ public static class GetSettings
             settings.AllowJoinWhenPaused,
             settings.WelcomeMessage,
             settings.CalledMessage,
-            settings.NearFrontThreshold));
+            settings.NearFrontThreshold,
+            settings.JoinFields.Select(JoinFieldDto.From).ToList()));
     }
 }
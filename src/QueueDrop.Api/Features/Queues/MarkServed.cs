@@ -1,6 +1,10 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Api.Idempotency;
 using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
 using QueueDrop.Infrastructure.Persistence;
 
 namespace QueueDrop.Api.Features.Queues;
@@ -19,12 +23,16 @@ public static class MarkServed
             .Produces(StatusCodes.Status204NoContent)
             .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
             .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
-            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.CallCustomers)
+            .AddEndpointFilter<IdempotencyFilter>();
     }
 
     private static async Task<IResult> Handler(
         Guid queueId,
         Guid customerId,
+        HttpContext httpContext,
         AppDbContext db,
         IQueueHubNotifier notifier,
         TimeProvider timeProvider,
@@ -52,7 +60,7 @@ public static class MarkServed
         }
 
         var now = timeProvider.GetUtcNow();
-        var result = queue.MarkCustomerServed(customerId, now);
+        var result = queue.MarkCustomerServed(customerId, now, httpContext.GetStaffUserId());
 
         if (result.IsFailure)
         {
@@ -62,6 +70,8 @@ public static class MarkServed
                 statusCode: StatusCodes.Status400BadRequest);
         }
 
+        db.RecordAudit(httpContext, queueId, QueueAuditAction.Served, now, customer);
+
         try
         {
             await db.SaveChangesAsync(cancellationToken);
@@ -78,7 +88,12 @@ public static class MarkServed
         await notifier.NotifyStatusChangedAsync(customer.Token, "Served", cancellationToken);
 
         // Notify staff that queue updated
-        await notifier.NotifyQueueUpdatedAsync(queueId, QueueUpdateType.CustomerServed, cancellationToken);
+        await notifier.NotifyQueueUpdatedAsync(
+            queueId,
+            QueueUpdateType.CustomerServed,
+            queue.Version,
+            QueueCustomerUpdate.From(customer, position: null),
+            cancellationToken);
 
         return Results.NoContent();
     }
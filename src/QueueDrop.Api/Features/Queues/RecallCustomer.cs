@@ -0,0 +1,111 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+using QueueDrop.Infrastructure.PushNotifications;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Call a called customer again (restarts their call and re-sends their notifications).
+/// POST /api/queues/{queueId}/customers/{customerId}/recall
+/// </summary>
+public static class RecallCustomer
+{
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/queues/{queueId:guid}/customers/{customerId:guid}/recall", Handler)
+            .WithName("RecallCustomer")
+            .WithTags("Queues")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.CallCustomers);
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        Guid customerId,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        IWebPushService webPush,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Settings)
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var now = timeProvider.GetUtcNow();
+        var result = queue.RecallCustomer(customerId, now);
+
+        if (result.IsFailure)
+        {
+            var statusCode = result.Error.Code == "Queue.CustomerNotFound"
+                ? StatusCodes.Status404NotFound
+                : StatusCodes.Status400BadRequest;
+
+            return Results.Problem(
+                title: "Could not call customer again",
+                detail: result.Error.Message,
+                statusCode: statusCode);
+        }
+
+        var customer = result.Value;
+
+        db.RecordAudit(httpContext, queueId, QueueAuditAction.Recalled, now, customer);
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrent modification",
+                detail: "The queue was modified by another request. Please retry.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        // Staff see the new call time
+        await notifier.NotifyQueueUpdatedAsync(
+            queueId,
+            QueueUpdateType.CustomerCalled,
+            queue.Version,
+            QueueCustomerUpdate.From(customer, position: null),
+            cancellationToken);
+
+        var notificationTasks = new List<Task>
+        {
+            notifier.NotifyCustomerCalledAsync(customer.Token, queue.Settings.CalledMessage, cancellationToken)
+        };
+
+        if (!string.IsNullOrEmpty(customer.PushSubscription))
+        {
+            notificationTasks.Add(webPush.SendNotificationAsync(
+                customer.PushSubscription,
+                "It's Your Turn!",
+                queue.Settings.CalledMessage ?? "You've been called! Please proceed.",
+                cancellationToken));
+        }
+
+        await Task.WhenAll(notificationTasks);
+
+        return Results.NoContent();
+    }
+}
@@ -1,6 +1,10 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Api.Idempotency;
 using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
 using QueueDrop.Infrastructure.Persistence;
 
 namespace QueueDrop.Api.Features.Queues;
@@ -19,14 +23,19 @@ public static class RemoveCustomer
             .Produces(StatusCodes.Status204NoContent)
             .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
             .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
-            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.ManageCustomers)
+            .AddEndpointFilter<IdempotencyFilter>();
     }
 
     private static async Task<IResult> Handler(
         Guid queueId,
         Guid customerId,
+        HttpContext httpContext,
         AppDbContext db,
         IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
         CancellationToken cancellationToken)
     {
         var queue = await db.Queues
@@ -51,7 +60,8 @@ public static class RemoveCustomer
         }
 
         var customerToken = customer.Token;
-        var result = queue.RemoveCustomer(customerId);
+        var now = timeProvider.GetUtcNow();
+        var result = queue.RemoveCustomer(customerId, now);
 
         if (result.IsFailure)
         {
@@ -61,6 +71,8 @@ public static class RemoveCustomer
                 statusCode: StatusCodes.Status400BadRequest);
         }
 
+        db.RecordAudit(httpContext, queueId, QueueAuditAction.Removed, now, customer);
+
         try
         {
             await db.SaveChangesAsync(cancellationToken);
@@ -77,12 +89,15 @@ public static class RemoveCustomer
         await notifier.NotifyStatusChangedAsync(customerToken, "Removed", cancellationToken);
 
         // Notify staff that queue updated
-        await notifier.NotifyQueueUpdatedAsync(queueId, QueueUpdateType.CustomerRemoved, cancellationToken);
+        await notifier.NotifyQueueUpdatedAsync(
+            queueId,
+            QueueUpdateType.CustomerRemoved,
+            queue.Version,
+            QueueCustomerUpdate.From(customer, position: null),
+            cancellationToken);
 
         // Update positions for remaining waiting customers
-        var updatedPositions = queue.GetUpdatedPositions()
-            .Select(p => (queue.Customers.First(c => c.Id == p.CustomerId).Token, p.NewPosition))
-            .ToList();
+        var updatedPositions = PositionUpdate.ForWaitingCustomers(queue, now);
 
         if (updatedPositions.Count > 0)
         {
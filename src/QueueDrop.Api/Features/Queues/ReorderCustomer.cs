@@ -0,0 +1,127 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Api.Idempotency;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Move a waiting customer to another position in line.
+/// POST /api/queues/{queueId}/customers/{customerId}/reorder
+/// </summary>
+public static class ReorderCustomer
+{
+    /// <summary>New position (1-based). Past the end of the line means the back.</summary>
+    public sealed record Request(int Position);
+
+    public sealed record Response(Guid CustomerId, int Position);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/queues/{queueId:guid}/customers/{customerId:guid}/reorder", Handler)
+            .WithName("ReorderCustomer")
+            .WithTags("Queues")
+            .Produces<Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.ManageCustomers)
+            .AddEndpointFilter<IdempotencyFilter>();
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        Guid customerId,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var positionsBefore = queue.GetUpdatedPositions().ToDictionary(p => p.CustomerId, p => p.NewPosition);
+        var versionBefore = queue.Version;
+
+        var result = queue.MoveCustomer(customerId, request.Position);
+
+        if (result.IsFailure)
+        {
+            var statusCode = result.Error.Code == "Queue.CustomerNotFound"
+                ? StatusCodes.Status404NotFound
+                : StatusCodes.Status400BadRequest;
+
+            return Results.Problem(
+                title: "Could not move customer",
+                detail: result.Error.Message,
+                statusCode: statusCode);
+        }
+
+        var position = queue.GetCustomerPosition(customerId)!.Value;
+
+        // Already in that spot - nothing to save or tell anyone
+        if (queue.Version == versionBefore)
+        {
+            return Results.Ok(new Response(customerId, position));
+        }
+
+        db.RecordAudit(
+            httpContext,
+            queueId,
+            QueueAuditAction.Reordered,
+            timeProvider.GetUtcNow(),
+            queue.Customers.First(c => c.Id == customerId),
+            $"Moved from position {positionsBefore[customerId]} to {position}");
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrency conflict",
+                detail: "Another staff member modified the queue. Please try again.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        // Only the customers between the old and new spot actually moved
+        var movedTokens = queue.GetUpdatedPositions()
+            .Where(p => positionsBefore[p.CustomerId] != p.NewPosition)
+            .Select(p => queue.Customers.First(c => c.Id == p.CustomerId).Token)
+            .ToHashSet();
+
+        var positionUpdates = PositionUpdate.ForWaitingCustomers(queue, timeProvider.GetUtcNow())
+            .Where(u => movedTokens.Contains(u.CustomerToken))
+            .ToList();
+
+        var customer = queue.Customers.First(c => c.Id == customerId);
+
+        await Task.WhenAll(
+            notifier.NotifyPositionsChangedAsync(positionUpdates, cancellationToken),
+            notifier.NotifyQueueUpdatedAsync(
+                queueId,
+                QueueUpdateType.CustomerMoved,
+                queue.Version,
+                QueueCustomerUpdate.From(customer, position),
+                cancellationToken));
+
+        return Results.Ok(new Response(customerId, position));
+    }
+}
@@ -0,0 +1,94 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Set the order queues are shown in (dashboard tabs, join page).
+/// PUT /api/business/{businessSlug}/queue-order
+/// Only business owners can reorder queues.
+/// </summary>
+public static class ReorderQueues
+{
+    /// <summary>Every queue of the business, archived ones included, in the new order.</summary>
+    public sealed record Request(IReadOnlyList<Guid> QueueIds);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPut("/api/business/{businessSlug}/queue-order", Handler)
+            .WithName("ReorderQueues")
+            .WithTags("Queues")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .ResolveActingMember();
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } userId)
+            return Results.Unauthorized();
+
+        var business = await db.Businesses
+            .Include(b => b.Queues)
+            .FirstOrDefaultAsync(b => b.Slug == businessSlug.ToLowerInvariant(), cancellationToken);
+
+        if (business is null)
+            return Results.NotFound();
+
+        if (!await authService.IsOwnerAsync(userId, businessSlug, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only business owners can reorder queues.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        // A partial or stale list would leave gaps or duplicates in the order
+        var queueIds = request.QueueIds ?? [];
+        var sameQueues = queueIds.Count == business.Queues.Count &&
+            queueIds.Distinct().Count() == queueIds.Count &&
+            queueIds.All(id => business.Queues.Any(q => q.Id == id));
+
+        if (!sameQueues)
+        {
+            return Results.Problem(
+                title: "Invalid queue order",
+                detail: "The order must list every queue of the business exactly once.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        var positions = queueIds
+            .Select((id, index) => (id, index))
+            .ToDictionary(p => p.id, p => p.index);
+
+        foreach (var queue in business.Queues)
+        {
+            queue.SetDisplayOrder(positions[queue.Id]);
+        }
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrent modification",
+                detail: "A queue was modified by another request. Please retry.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        return Results.NoContent();
+    }
+}
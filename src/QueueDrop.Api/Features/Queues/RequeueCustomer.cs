@@ -0,0 +1,111 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Api.Idempotency;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Send a called customer back to the waiting line.
+/// POST /api/queues/{queueId}/customers/{customerId}/requeue
+/// </summary>
+public static class RequeueCustomer
+{
+    /// <summary>Position to return to (1-based). Defaults to the front of the line.</summary>
+    public sealed record Request(int? Position);
+
+    public sealed record Response(Guid CustomerId, int Position);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/queues/{queueId:guid}/customers/{customerId:guid}/requeue", Handler)
+            .WithName("RequeueCustomer")
+            .WithTags("Queues")
+            .Produces<Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.CallCustomers)
+            .AddEndpointFilter<IdempotencyFilter>();
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        Guid customerId,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var result = queue.RequeueCustomer(customerId, request.Position ?? 1);
+
+        if (result.IsFailure)
+        {
+            var statusCode = result.Error.Code == "Queue.CustomerNotFound"
+                ? StatusCodes.Status404NotFound
+                : StatusCodes.Status400BadRequest;
+
+            return Results.Problem(
+                title: "Could not send customer back to the queue",
+                detail: result.Error.Message,
+                statusCode: statusCode);
+        }
+
+        var customer = result.Value;
+        db.RecordAudit(
+            httpContext,
+            queueId,
+            QueueAuditAction.Requeued,
+            timeProvider.GetUtcNow(),
+            customer,
+            $"Sent back to position {queue.GetCustomerPosition(customerId)}");
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrency conflict",
+                detail: "Another staff member modified the queue. Please try again.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        var position = queue.GetCustomerPosition(customerId)!.Value;
+
+        // Everyone behind the customer moves back a place
+        var positionUpdates = PositionUpdate.ForWaitingCustomers(queue, timeProvider.GetUtcNow());
+
+        await Task.WhenAll(
+            notifier.NotifyStatusChangedAsync(customer.Token, CustomerStatus.Waiting.ToString(), cancellationToken),
+            notifier.NotifyPositionsChangedAsync(positionUpdates, cancellationToken),
+            notifier.NotifyQueueUpdatedAsync(
+                queueId,
+                QueueUpdateType.CustomerRequeued,
+                queue.Version,
+                QueueCustomerUpdate.From(customer, position),
+                cancellationToken));
+
+        return Results.Ok(new Response(customer.Id, position));
+    }
+}
@@ -0,0 +1,93 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Set or clear the time a queue closes itself.
+/// PUT /api/queues/{queueId}/auto-close
+/// </summary>
+public static class ScheduleAutoClose
+{
+    /// <summary>When to close the queue. Null clears the schedule.</summary>
+    public sealed record Request(DateTimeOffset? ClosesAt);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPut("/api/queues/{queueId:guid}/auto-close", Handler)
+            .WithName("ScheduleAutoClose")
+            .WithTags("Queues")
+            .Produces<SetQueueStatus.Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.EditSettings);
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var now = timeProvider.GetUtcNow();
+        var result = queue.ScheduleAutoClose(request.ClosesAt, now);
+
+        if (result.IsFailure)
+        {
+            return Results.Problem(
+                title: "Could not schedule closing time",
+                detail: result.Error.Message,
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        db.RecordAudit(
+            httpContext,
+            queueId,
+            QueueAuditAction.StatusChanged,
+            now,
+            details: request.ClosesAt is { } closesAt ? $"Auto-close set for {closesAt:u}" : "Auto-close cancelled");
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrent modification",
+                detail: "The queue was modified by another request. Please retry.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        // Other dashboards pick up the new closing time on refetch
+        await notifier.NotifyQueueUpdatedAsync(
+            queueId,
+            QueueUpdateType.QueueStatusChanged,
+            queue.Version,
+            customer: null,
+            cancellationToken);
+
+        return Results.Ok(new SetQueueStatus.Response(queue.IsActive, queue.IsPaused, queue.AutoCloseAt));
+    }
+}
@@ -0,0 +1,128 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Open, close, pause or resume a queue.
+/// POST /api/queues/{queueId}/open
+/// POST /api/queues/{queueId}/close
+/// POST /api/queues/{queueId}/pause
+/// POST /api/queues/{queueId}/resume
+/// </summary>
+public static class SetQueueStatus
+{
+    public sealed record Response(bool IsActive, bool IsPaused, DateTimeOffset? AutoCloseAt);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        Map(app, "open", "OpenQueue", "Opened", queue => queue.Activate());
+        Map(app, "close", "CloseQueue", "Closed", queue => queue.Deactivate());
+        Map(app, "pause", "PauseQueue", "Paused", queue => queue.Pause());
+        Map(app, "resume", "ResumeQueue", "Resumed", queue => queue.Resume());
+    }
+
+    private static void Map(IEndpointRouteBuilder app, string action, string name, string auditDetails, Action<Queue> change)
+    {
+        app.MapPost($"/api/queues/{{queueId:guid}}/{action}", (
+                Guid queueId,
+                HttpContext httpContext,
+                AppDbContext db,
+                IQueueHubNotifier notifier,
+                TimeProvider timeProvider,
+                CancellationToken cancellationToken) =>
+                Handler(queueId, change, auditDetails, httpContext, db, notifier, timeProvider, cancellationToken))
+            .WithName(name)
+            .WithTags("Queues")
+            .Produces<Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.EditSettings);
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        Action<Queue> change,
+        string auditDetails,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        if (queue.IsArchived)
+        {
+            return Results.Problem(
+                title: "Queue is archived",
+                detail: "Restore the queue before opening, closing or pausing it.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        var versionBefore = queue.Version;
+        change(queue);
+
+        // Already in the requested state - nothing to save or announce
+        if (queue.Version == versionBefore)
+            return Results.Ok(new Response(queue.IsActive, queue.IsPaused, queue.AutoCloseAt));
+
+        db.RecordAudit(httpContext, queueId, QueueAuditAction.StatusChanged, timeProvider.GetUtcNow(), details: auditDetails);
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrent modification",
+                detail: "The queue was modified by another request. Please retry.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        await NotifyStatusChangedAsync(queue, notifier, cancellationToken);
+
+        return Results.Ok(new Response(queue.IsActive, queue.IsPaused, queue.AutoCloseAt));
+    }
+
+    /// <summary>
+    /// Tells staff dashboards to refetch and customers still in line to update their screen.
+    /// </summary>
+    internal static async Task NotifyStatusChangedAsync(
+        Queue queue,
+        IQueueHubNotifier notifier,
+        CancellationToken cancellationToken)
+    {
+        var tokens = queue.Customers
+            .Where(c => c.Status is CustomerStatus.Waiting or CustomerStatus.Called)
+            .Select(c => c.Token);
+
+        await Task.WhenAll(
+            notifier.NotifyQueueUpdatedAsync(
+                queue.Id,
+                QueueUpdateType.QueueStatusChanged,
+                queue.Version,
+                customer: null,
+                cancellationToken),
+            notifier.NotifyQueueStatusChangedAsync(tokens, queue.IsActive, queue.IsPaused, cancellationToken));
+    }
+}
@@ -0,0 +1,149 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Api.Idempotency;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Move a customer to another queue of the same business.
+/// POST /api/queues/{queueId}/customers/{customerId}/transfer
+/// </summary>
+public static class TransferCustomer
+{
+    /// <summary>
+    /// Placement is "Back" (default) or "ByJoinTime" to slot them in by when they first joined.
+    /// </summary>
+    public sealed record Request(Guid TargetQueueId, string? Placement = null);
+
+    public sealed record Response(Guid CustomerId, Guid QueueId, string QueueName, int Position);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/queues/{queueId:guid}/customers/{customerId:guid}/transfer", Handler)
+            .WithName("TransferCustomer")
+            .WithTags("Queues")
+            .Produces<Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.ManageCustomers)
+            .AddEndpointFilter<IdempotencyFilter>();
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        Guid customerId,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var placement = TransferPlacement.Back;
+        if (request.Placement is not null && !Enum.TryParse(request.Placement, ignoreCase: true, out placement))
+        {
+            return Results.Problem(
+                title: "Invalid placement",
+                detail: "Placement must be 'Back' or 'ByJoinTime'.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        var queues = await db.Queues
+            .Include(q => q.Settings)
+            .Include(q => q.Customers)
+            .Where(q => q.Id == queueId || q.Id == request.TargetQueueId)
+            .ToListAsync(cancellationToken);
+
+        var source = queues.FirstOrDefault(q => q.Id == queueId);
+        var target = queues.FirstOrDefault(q => q.Id == request.TargetQueueId);
+
+        if (source is null || target is null)
+        {
+            var missingId = source is null ? queueId : request.TargetQueueId;
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{missingId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        // The filter checked the source queue - moving someone in needs the same right on the target
+        if (httpContext.GetStaffUserId() is not { } staffUserId ||
+            !await authService.HasQueuePermissionAsync(staffUserId, target.Id, StaffPermission.ManageCustomers, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: $"You don't have permission to move customers into {target.Name}.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var result = source.TransferCustomer(customerId, target, placement);
+
+        if (result.IsFailure)
+        {
+            var statusCode = result.Error.Code == "Queue.CustomerNotFound"
+                ? StatusCodes.Status404NotFound
+                : StatusCodes.Status400BadRequest;
+
+            return Results.Problem(
+                title: "Could not transfer customer",
+                detail: result.Error.Message,
+                statusCode: statusCode);
+        }
+
+        var customer = result.Value;
+
+        // In both histories, so either queue shows where the customer went
+        var now = timeProvider.GetUtcNow();
+        db.RecordAudit(httpContext, source.Id, QueueAuditAction.Transferred, now, customer, $"Moved to {target.Name}");
+        db.RecordAudit(
+            httpContext,
+            target.Id,
+            QueueAuditAction.Transferred,
+            now,
+            customer,
+            $"Moved from {source.Name} to position {target.GetCustomerPosition(customerId)}");
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrency conflict",
+                detail: "Another staff member modified the queue. Please try again.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        var position = target.GetCustomerPosition(customerId)!.Value;
+
+        await Task.WhenAll(
+            notifier.NotifyTransferredAsync(customer.Token, target.Name, position, cancellationToken),
+            notifier.NotifyPositionsChangedAsync(PositionUpdate.ForWaitingCustomers(source, now), cancellationToken),
+            notifier.NotifyPositionsChangedAsync(PositionUpdate.ForWaitingCustomers(target, now), cancellationToken),
+            // The customer leaves the source list - any status other than Waiting/Called drops them
+            notifier.NotifyQueueUpdatedAsync(
+                source.Id,
+                QueueUpdateType.CustomerTransferred,
+                source.Version,
+                QueueCustomerUpdate.From(customer, position: null) with { Status = "Transferred" },
+                cancellationToken),
+            notifier.NotifyQueueUpdatedAsync(
+                target.Id,
+                QueueUpdateType.CustomerTransferred,
+                target.Version,
+                QueueCustomerUpdate.From(customer, position),
+                cancellationToken));
+
+        return Results.Ok(new Response(customer.Id, target.Id, target.Name, position));
+    }
+}
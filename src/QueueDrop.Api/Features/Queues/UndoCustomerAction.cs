@@ -0,0 +1,128 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Api.Idempotency;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Undo a customer's last serve, no-show or remove.
+/// POST /api/queues/{queueId}/customers/{customerId}/undo
+/// </summary>
+public static class UndoCustomerAction
+{
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/queues/{queueId:guid}/customers/{customerId:guid}/undo", Handler)
+            .WithName("UndoCustomerAction")
+            .WithTags("Queues")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.CallCustomers)
+            .AddEndpointFilter<IdempotencyFilter>();
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        Guid customerId,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .Include(q => q.Customers)
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var customer = queue.Customers.FirstOrDefault(c => c.Id == customerId);
+        if (customer is null)
+        {
+            return Results.Problem(
+                title: "Customer not found",
+                detail: $"No customer found with ID '{customerId}' in this queue.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        // The filter checked the right to serve and no-show - bringing back someone who was removed
+        // or left needs the right to remove them
+        if (customer.Status == CustomerStatus.Removed &&
+            (httpContext.GetStaffUserId() is not { } staffUserId ||
+             !await authService.HasQueuePermissionAsync(staffUserId, queueId, StaffPermission.ManageCustomers, cancellationToken)))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "You don't have permission to bring back removed customers.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var undoneStatus = customer.Status;
+        var now = timeProvider.GetUtcNow();
+        var result = queue.UndoCustomerTransition(customerId, now);
+
+        if (result.IsFailure)
+        {
+            return Results.Problem(
+                title: "Cannot undo",
+                detail: result.Error.Message,
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        db.RecordAudit(
+            httpContext,
+            queueId,
+            QueueAuditAction.Undone,
+            now,
+            customer,
+            $"{undoneStatus} undone, back to {customer.Status}");
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrent modification",
+                detail: "The queue was modified by another request. Please retry.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        // Customer's page goes back to waiting/called
+        await notifier.NotifyStatusChangedAsync(customer.Token, customer.Status.ToString(), cancellationToken);
+
+        // Notify staff that queue updated
+        await notifier.NotifyQueueUpdatedAsync(
+            queueId,
+            QueueUpdateType.CustomerRestored,
+            queue.Version,
+            QueueCustomerUpdate.From(customer, queue.GetCustomerPosition(customerId)),
+            cancellationToken);
+
+        // A restored waiting customer takes their place back, moving everyone behind them
+        if (customer.Status == CustomerStatus.Waiting)
+        {
+            var updatedPositions = PositionUpdate.ForWaitingCustomers(queue, now);
+
+            await notifier.NotifyPositionsChangedAsync(updatedPositions, cancellationToken);
+        }
+
+        return Results.NoContent();
+    }
+}
@@ -0,0 +1,111 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Queues;
+
+/// <summary>
+/// Vertical slice: Set or clear the hours customers can join a queue in.
+/// PUT /api/queues/{queueId}/hours
+/// </summary>
+public static class UpdateOperatingHours
+{
+    /// <summary>The new hours. Null clears them, so customers can join whenever the queue is open.</summary>
+    public sealed record Request(HoursDto? Hours);
+
+    public sealed record HoursDto(
+        string TimeZone,
+        IReadOnlyList<WeeklyHours>? Weekly,
+        IReadOnlyList<HolidayHours>? Holidays,
+        int? LastJoinMinutesBeforeClose);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPut("/api/queues/{queueId:guid}/hours", Handler)
+            .WithName("UpdateOperatingHours")
+            .WithTags("Queues")
+            .Produces<GetOperatingHours.Response>()
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.EditSettings);
+    }
+
+    private static async Task<IResult> Handler(
+        Guid queueId,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var queue = await db.Queues
+            .FirstOrDefaultAsync(q => q.Id == queueId, cancellationToken);
+
+        if (queue is null)
+        {
+            return Results.Problem(
+                title: "Queue not found",
+                detail: $"No queue found with ID '{queueId}'.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        OperatingHours? hours = null;
+        if (request.Hours is { } requested)
+        {
+            var result = OperatingHours.Create(
+                requested.TimeZone,
+                requested.Weekly ?? [],
+                requested.Holidays ?? [],
+                requested.LastJoinMinutesBeforeClose);
+
+            if (result.IsFailure)
+            {
+                return Results.Problem(
+                    title: "Invalid operating hours",
+                    detail: result.Error.Message,
+                    statusCode: StatusCodes.Status400BadRequest);
+            }
+
+            hours = result.Value;
+        }
+
+        var now = timeProvider.GetUtcNow();
+        queue.SetOperatingHours(hours);
+
+        db.RecordAudit(
+            httpContext,
+            queueId,
+            QueueAuditAction.SettingsChanged,
+            now,
+            details: hours is null ? "Operating hours cleared" : $"Operating hours set ({hours.TimeZone})");
+
+        try
+        {
+            await db.SaveChangesAsync(cancellationToken);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return Results.Problem(
+                title: "Concurrent modification",
+                detail: "The queue was modified by another request. Please retry.",
+                statusCode: StatusCodes.Status409Conflict);
+        }
+
+        await notifier.NotifyQueueUpdatedAsync(
+            queueId,
+            QueueUpdateType.QueueSettingsChanged,
+            queue.Version,
+            customer: null,
+            cancellationToken);
+
+        return Results.Ok(new GetOperatingHours.Response(queue.OperatingHours, queue.GetOpeningStatus(now)));
+    }
+}
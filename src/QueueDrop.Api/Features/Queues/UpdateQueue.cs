@@ -1,4 +1,3 @@
-using System.Security.Claims;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using QueueDrop.Api.Auth;
@@ -11,11 +10,13 @@ namespace QueueDrop.Api.Features.Queues;
 /// Vertical slice: Update an existing queue for a business.
 /// PUT /api/business/{businessSlug}/queues/{queueSlug}
 /// Only business owners can update queues.
+/// Changing the slug keeps the old join link working through a redirect.
 /// </summary>
 public static class UpdateQueue
 {
     public sealed record Request(
         string? Name,
+        string? Slug,
         int? MaxQueueSize,
         int? EstimatedServiceTimeMinutes,
         string? WelcomeMessage,
@@ -28,25 +29,25 @@ public static class UpdateQueue
         app.MapPut("/api/business/{businessSlug}/queues/{queueSlug}", Handler)
             .WithName("UpdateQueue")
             .WithTags("Queues")
-            .RequireAuthorization()
             .Produces<Response>(StatusCodes.Status200OK)
             .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
             .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
             .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
-            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .ResolveActingMember();
     }
 
     private static async Task<IResult> Handler(
         string businessSlug,
         string queueSlug,
         Request request,
-        ClaimsPrincipal user,
+        HttpContext httpContext,
         AppDbContext db,
         IBusinessAuthorizationService authService,
+        TimeProvider timeProvider,
         CancellationToken cancellationToken)
     {
-        var userIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
-        if (!Guid.TryParse(userIdClaim, out var userId))
+        if (httpContext.GetStaffUserId() is not { } userId)
             return Results.Unauthorized();
 
         if (!await authService.IsOwnerAsync(userId, businessSlug, cancellationToken))
@@ -89,6 +90,35 @@ public static class UpdateQueue
         if (!string.IsNullOrWhiteSpace(request.Name))
             queue.Rename(request.Name);
 
+        if (!string.IsNullOrWhiteSpace(request.Slug))
+        {
+            var newSlug = CreateQueue.GenerateSlug(request.Slug);
+            if (newSlug != queue.Slug)
+            {
+                var slugTaken = await db.Queues.AnyAsync(
+                    q => q.BusinessId == queue.BusinessId && q.Slug == newSlug,
+                    cancellationToken);
+
+                if (slugTaken)
+                {
+                    return Results.Problem(
+                        title: "Slug already exists",
+                        detail: $"A queue with slug '{newSlug}' already exists in this business.",
+                        statusCode: StatusCodes.Status409Conflict);
+                }
+
+                // The new slug may have redirected somewhere before - it belongs to this queue now
+                var staleRedirects = await db.QueueSlugRedirects
+                    .Where(r => r.BusinessId == queue.BusinessId && r.Slug == newSlug)
+                    .ToListAsync(cancellationToken);
+                db.QueueSlugRedirects.RemoveRange(staleRedirects);
+
+                db.QueueSlugRedirects.Add(QueueSlugRedirect.Create(
+                    queue.BusinessId, queue.Slug, queue.Id, timeProvider.GetUtcNow()));
+                queue.UpdateSlug(newSlug);
+            }
+        }
+
         // Update settings using immutable record with-expression
         var currentSettings = queue.Settings;
         var updatedSettings = currentSettings with
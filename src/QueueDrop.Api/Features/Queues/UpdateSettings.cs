@@ -1,7 +1,10 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Audit;
+using QueueDrop.Api.Auth;
 using QueueDrop.Domain.Abstractions;
 using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
 using QueueDrop.Infrastructure.Persistence;
 
 namespace QueueDrop.Api.Features.Queues;
@@ -19,7 +22,8 @@ public static class UpdateSettings
         bool AllowJoinWhenPaused,
         string? WelcomeMessage,
         string? CalledMessage,
-        int? NearFrontThreshold);
+        int? NearFrontThreshold,
+        IReadOnlyList<GetSettings.JoinFieldDto>? JoinFields = null);
 
     public static void MapEndpoint(IEndpointRouteBuilder app)
     {
@@ -29,14 +33,18 @@ public static class UpdateSettings
             .Produces(StatusCodes.Status204NoContent)
             .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
             .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
-            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .RequireQueuePermission(StaffPermission.EditSettings);
     }
 
     private static async Task<IResult> Handler(
         Guid queueId,
         Request request,
+        HttpContext httpContext,
         AppDbContext db,
         IQueueHubNotifier notifier,
+        TimeProvider timeProvider,
         CancellationToken cancellationToken)
     {
         // Validation
@@ -75,6 +83,45 @@ public static class UpdateSettings
                 statusCode: StatusCodes.Status404NotFound);
         }
 
+        // Leaving the questions out keeps the current ones
+        var joinFields = queue.Settings.JoinFields;
+        if (request.JoinFields is not null)
+        {
+            var fields = new List<JoinField>();
+            foreach (var field in request.JoinFields)
+            {
+                if (!Enum.TryParse<JoinFieldType>(field.Type, ignoreCase: true, out var type) || !Enum.IsDefined(type))
+                {
+                    return Results.Problem(
+                        title: "Invalid join question",
+                        detail: $"'{field.Type}' is not a question type.",
+                        statusCode: StatusCodes.Status400BadRequest);
+                }
+
+                fields.Add(new JoinField
+                {
+                    Key = field.Key,
+                    Label = field.Label,
+                    Type = type,
+                    Required = field.Required,
+                    Options = field.Options ?? [],
+                    Min = field.Min,
+                    Max = field.Max
+                });
+            }
+
+            var created = JoinForm.Create(fields);
+            if (created.IsFailure)
+            {
+                return Results.Problem(
+                    title: "Invalid join question",
+                    detail: created.Error.Message,
+                    statusCode: StatusCodes.Status400BadRequest);
+            }
+
+            joinFields = created.Value;
+        }
+
         var newSettings = new QueueSettings
         {
             MaxQueueSize = request.MaxQueueSize,
@@ -83,11 +130,23 @@ public static class UpdateSettings
             AllowJoinWhenPaused = request.AllowJoinWhenPaused,
             WelcomeMessage = request.WelcomeMessage?.Trim(),
             CalledMessage = request.CalledMessage?.Trim(),
-            NearFrontThreshold = request.NearFrontThreshold
+            NearFrontThreshold = request.NearFrontThreshold,
+            JoinFields = joinFields
         };
 
+        var changes = DescribeChanges(queue.Settings, newSettings);
         queue.UpdateSettings(newSettings);
 
+        if (changes.Count > 0)
+        {
+            db.RecordAudit(
+                httpContext,
+                queueId,
+                QueueAuditAction.SettingsChanged,
+                timeProvider.GetUtcNow(),
+                details: string.Join("; ", changes));
+        }
+
         try
         {
             await db.SaveChangesAsync(cancellationToken);
@@ -101,8 +160,58 @@ public static class UpdateSettings
         }
 
         // Notify staff that settings changed
-        await notifier.NotifyQueueUpdatedAsync(queueId, QueueUpdateType.QueueSettingsChanged, cancellationToken);
+        await notifier.NotifyQueueUpdatedAsync(
+            queueId,
+            QueueUpdateType.QueueSettingsChanged,
+            queue.Version,
+            customer: null,
+            cancellationToken);
 
         return Results.NoContent();
     }
+
+    private static List<string> DescribeChanges(QueueSettings before, QueueSettings after)
+    {
+        var changes = new List<string>();
+
+        void Compare<T>(string name, T oldValue, T newValue)
+        {
+            if (!EqualityComparer<T>.Default.Equals(oldValue, newValue))
+                changes.Add($"{name}: {Show(oldValue)} -> {Show(newValue)}");
+        }
+
+        Compare("Max queue size", before.MaxQueueSize, after.MaxQueueSize);
+        Compare("Service time (minutes)", before.EstimatedServiceTimeMinutes, after.EstimatedServiceTimeMinutes);
+        Compare("No-show timeout (minutes)", before.NoShowTimeoutMinutes, after.NoShowTimeoutMinutes);
+        Compare("Join when paused", before.AllowJoinWhenPaused, after.AllowJoinWhenPaused);
+        Compare("Welcome message", before.WelcomeMessage, after.WelcomeMessage);
+        Compare("Called message", before.CalledMessage, after.CalledMessage);
+        Compare("Near-front alert", before.NearFrontThreshold, after.NearFrontThreshold);
+        Compare("Join questions", DescribeFields(before.JoinFields), DescribeFields(after.JoinFields));
+
+        return changes;
+    }
+
+    /// <summary>The questions as one line, e.g. "Party size (required), Service (Cut/Beard trim)".</summary>
+    private static string DescribeFields(IReadOnlyList<JoinField> fields) =>
+        string.Join(", ", fields.Select(f =>
+        {
+            var details = new List<string>();
+            if (f.Options.Count > 0)
+                details.Add(string.Join("/", f.Options));
+            if (f.Min is not null || f.Max is not null)
+                details.Add(f.Min is null ? $"up to {f.Max}" : f.Max is null ? $"{f.Min} or more" : $"{f.Min}-{f.Max}");
+            if (f.Required)
+                details.Add("required");
+            return details.Count > 0 ? $"{f.Label} ({string.Join(", ", details)})" : f.Label;
+        }));
+
+    private static string Show<T>(T value) => value switch
+    {
+        null => "none",
+        bool b => b ? "on" : "off",
+        string s when s.Length == 0 => "none",
+        string s => $"\"{s}\"",
+        _ => value.ToString()!
+    };
 }
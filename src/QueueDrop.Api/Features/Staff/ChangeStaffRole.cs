@@ -0,0 +1,85 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Staff;
+
+/// <summary>
+/// Vertical slice: Change a member's role between owner and staff.
+/// PUT /api/business/{businessSlug}/staff/{userId}/role
+/// Only business owners can change roles. A business always keeps at least one owner.
+/// </summary>
+public static class ChangeStaffRole
+{
+    public sealed record Request(string Role);
+    public sealed record Response(Guid UserId, string Role);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPut("/api/business/{businessSlug}/staff/{userId:guid}/role", Handler)
+            .WithName("ChangeStaffRole")
+            .WithTags("Staff")
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .ResolveActingMember();
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        Guid userId,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } currentUserId)
+            return Results.Unauthorized();
+
+        if (!await authService.IsOwnerAsync(currentUserId, businessSlug, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only business owners can change roles.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        if (!Enum.TryParse<BusinessRole>(request.Role, ignoreCase: true, out var role) ||
+            !Enum.IsDefined(role))
+        {
+            return Results.Problem(
+                title: "Invalid role",
+                detail: "Role must be 'owner' or 'staff'.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        var members = await db.BusinessMembers
+            .Include(bm => bm.Business)
+            .Where(bm => bm.Business.Slug == businessSlug.ToLowerInvariant() && bm.JoinedAt != null)
+            .ToListAsync(cancellationToken);
+
+        var membership = members.FirstOrDefault(bm => bm.UserId == userId);
+        if (membership is null)
+            return Results.NotFound();
+
+        // Demoting the only owner would lock everyone out of team and queue management
+        if (membership.Role == BusinessRole.Owner &&
+            role != BusinessRole.Owner &&
+            members.Count(bm => bm.Role == BusinessRole.Owner) == 1)
+        {
+            return Results.Problem(
+                title: "Last owner",
+                detail: "A business needs at least one owner. Make someone else an owner first.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        membership.ChangeRole(role);
+        await db.SaveChangesAsync(cancellationToken);
+
+        return Results.Ok(new Response(membership.UserId, membership.Role.ToString()));
+    }
+}
@@ -0,0 +1,60 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Staff;
+
+/// <summary>
+/// Vertical slice: List who can unlock a shared device.
+/// GET /api/business/{businessSlug}/lock-screen
+/// Any member can load it, since the device stays signed in as whoever set it up.
+/// Only members with a PIN are listed.
+/// </summary>
+public static class GetLockScreen
+{
+    public sealed record Member(Guid UserId, string Email);
+    public sealed record Response(List<Member> Members);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapGet("/api/business/{businessSlug}/lock-screen", Handler)
+            .WithName("GetLockScreen")
+            .WithTags("Staff")
+            .RequireAuthorization()
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden);
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        ClaimsPrincipal user,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        CancellationToken cancellationToken)
+    {
+        var userIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(userIdClaim, out var userId))
+            return Results.Unauthorized();
+
+        if (!await authService.IsMemberAsync(userId, businessSlug, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only members of this business can unlock its devices.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var members = await db.BusinessMembers
+            .Where(bm =>
+                bm.Business.Slug == businessSlug.ToLowerInvariant() &&
+                bm.JoinedAt != null &&
+                bm.PinHash != null)
+            .OrderBy(bm => bm.User.Email)
+            .Select(bm => new Member(bm.UserId, bm.User.Email))
+            .ToListAsync(cancellationToken);
+
+        return Results.Ok(new Response(members));
+    }
+}
@@ -1,8 +1,8 @@
-using System.Security.Claims;
 using System.Text.RegularExpressions;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Abstractions;
 using QueueDrop.Domain.Entities;
 using QueueDrop.Domain.Enums;
 using QueueDrop.Infrastructure.Persistence;
@@ -12,38 +12,42 @@ namespace QueueDrop.Api.Features.Staff;
 /// <summary>
 /// Vertical slice: Invite a staff member to a business.
 /// POST /api/business/{businessSlug}/staff/invite
-/// Only business owners can invite staff.
+/// Only members who can manage the team (owners, or staff with ManageTeam) can invite staff.
 /// </summary>
 public static partial class InviteStaff
 {
     public sealed record Request(string Email);
-    public sealed record Response(string Message);
+    public sealed record Response(string Message, Guid InviteId);
+
+    /// <summary>How long an invite link stays valid.</summary>
+    internal static readonly TimeSpan InviteLifetime = TimeSpan.FromDays(7);
 
     public static void MapEndpoint(IEndpointRouteBuilder app)
     {
         app.MapPost("/api/business/{businessSlug}/staff/invite", Handler)
             .WithName("InviteStaff")
             .WithTags("Staff")
-            .RequireAuthorization()
             .Produces<Response>(StatusCodes.Status201Created)
             .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
             .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
             .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
-            .Produces<ProblemDetails>(StatusCodes.Status409Conflict);
+            .Produces<ProblemDetails>(StatusCodes.Status409Conflict)
+            .ResolveActingMember();
     }
 
     private static async Task<IResult> Handler(
         string businessSlug,
         Request request,
-        ClaimsPrincipal user,
+        HttpContext httpContext,
         AppDbContext db,
         IBusinessAuthorizationService authService,
         TimeProvider timeProvider,
+        IEmailService emailService,
+        IConfiguration configuration,
         ILogger<Program> logger,
         CancellationToken cancellationToken)
     {
-        var userIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
-        if (!Guid.TryParse(userIdClaim, out var userId))
+        if (httpContext.GetStaffUserId() is not { } userId)
             return Results.Unauthorized();
 
         // Load business first to check if it exists
@@ -53,12 +57,12 @@ public static partial class InviteStaff
         if (business is null)
             return Results.NotFound();
 
-        // Check owner permission
-        if (!await authService.IsOwnerAsync(userId, businessSlug, cancellationToken))
+        // Check team permission
+        if (!await authService.HasPermissionAsync(userId, businessSlug, StaffPermission.ManageTeam, cancellationToken))
         {
             return Results.Problem(
                 title: "Forbidden",
-                detail: "Only business owners can invite staff.",
+                detail: "Only members who can manage the team can invite staff.",
                 statusCode: StatusCodes.Status403Forbidden);
         }
 
@@ -113,17 +117,48 @@ public static partial class InviteStaff
             request.Email,
             business.Id,
             now,
-            TimeSpan.FromDays(7)); // Invite links last 7 days
+            InviteLifetime);
 
         db.MagicLinks.Add(magicLink);
         await db.SaveChangesAsync(cancellationToken);
 
-        // TODO: Send email - for now, log to console
-        var inviteUrl = $"/auth/verify?token={magicLink.Token}";
         logger.LogInformation("Staff invite created for {Email} to join {Business}",
             normalizedEmail, business.Name);
 
-        return Results.Created(inviteUrl, new Response("Invite sent"));
+        await SendInviteEmailAsync(magicLink, business.Name, emailService, configuration, logger, cancellationToken);
+
+        return Results.Created(
+            $"/api/business/{businessSlug}/staff/invites/{magicLink.Id}",
+            new Response("Invite sent", magicLink.Id));
+    }
+
+    /// <summary>
+    /// Emails the invite link. A failed send is logged, not surfaced - the owner can resend.
+    /// </summary>
+    internal static async Task SendInviteEmailAsync(
+        MagicLink invite,
+        string businessName,
+        IEmailService emailService,
+        IConfiguration configuration,
+        ILogger logger,
+        CancellationToken cancellationToken)
+    {
+        var baseUrl = configuration["App:BaseUrl"] ?? "http://localhost:5173";
+        var inviteUrl = $"{baseUrl}/auth/verify?token={invite.Token}";
+
+        var emailResult = await emailService.SendStaffInviteAsync(
+            invite.Email,
+            businessName,
+            inviteUrl,
+            cancellationToken);
+
+        if (!emailResult.IsSuccess)
+        {
+            logger.LogWarning(
+                "Failed to send staff invite email to {Email}: {Error}",
+                invite.Email,
+                emailResult.Error);
+        }
     }
 
     [GeneratedRegex(@"^[^@\s]+@[^@\s]+\.[^@\s]+$", RegexOptions.Compiled)]
@@ -1,6 +1,6 @@
-using System.Security.Claims;
 using Microsoft.EntityFrameworkCore;
 using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
 using QueueDrop.Infrastructure.Persistence;
 
 namespace QueueDrop.Api.Features.Staff;
@@ -8,33 +8,42 @@ namespace QueueDrop.Api.Features.Staff;
 /// <summary>
 /// Vertical slice: List staff members of a business.
 /// GET /api/business/{businessSlug}/staff
-/// Only business owners can view staff list.
+/// Only members who can manage the team (owners, or staff with ManageTeam) can view staff list.
+/// Also returns invites nobody has accepted yet, including expired ones so they can be resent.
 /// </summary>
 public static class ListStaff
 {
-    public sealed record StaffMember(Guid UserId, string Email, string Role, DateTimeOffset JoinedAt);
-    public sealed record Response(List<StaffMember> Staff);
+    public sealed record StaffMember(
+        Guid UserId,
+        string Email,
+        string Role,
+        DateTimeOffset JoinedAt,
+        List<string> Permissions,
+        List<StaffPermissionNames.QueuePermissionsDto> QueuePermissions,
+        bool HasPin);
+    public sealed record PendingInvite(Guid InviteId, string Email, DateTimeOffset InvitedAt, DateTimeOffset ExpiresAt, bool IsExpired);
+    public sealed record Response(List<StaffMember> Staff, List<PendingInvite> Invites);
 
     public static void MapEndpoint(IEndpointRouteBuilder app)
     {
         app.MapGet("/api/business/{businessSlug}/staff", Handler)
             .WithName("ListStaff")
             .WithTags("Staff")
-            .RequireAuthorization()
             .Produces<Response>(StatusCodes.Status200OK)
             .Produces(StatusCodes.Status403Forbidden)
-            .Produces(StatusCodes.Status404NotFound);
+            .Produces(StatusCodes.Status404NotFound)
+            .ResolveActingMember();
     }
 
     private static async Task<IResult> Handler(
         string businessSlug,
-        ClaimsPrincipal user,
+        HttpContext httpContext,
         AppDbContext db,
         IBusinessAuthorizationService authService,
+        TimeProvider timeProvider,
         CancellationToken cancellationToken)
     {
-        var userIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
-        if (!Guid.TryParse(userIdClaim, out var userId))
+        if (httpContext.GetStaffUserId() is not { } userId)
             return Results.Unauthorized();
 
         // Check business exists
@@ -44,26 +53,44 @@ public static class ListStaff
         if (business is null)
             return Results.NotFound();
 
-        // Check owner permission
-        if (!await authService.IsOwnerAsync(userId, businessSlug, cancellationToken))
+        if (!await authService.HasPermissionAsync(userId, businessSlug, StaffPermission.ManageTeam, cancellationToken))
         {
             return Results.Problem(
                 title: "Forbidden",
-                detail: "Only business owners can view staff list.",
+                detail: "Only members who can manage the team can view staff list.",
                 statusCode: StatusCodes.Status403Forbidden);
         }
 
-        var staff = await db.BusinessMembers
+        var members = await db.BusinessMembers
             .Include(bm => bm.User)
-            .Include(bm => bm.Business)
-            .Where(bm => bm.Business.Slug == businessSlug.ToLowerInvariant() && bm.JoinedAt != null)
+            .Include(bm => bm.QueuePermissions)
+            .Where(bm => bm.BusinessId == business.Id && bm.JoinedAt != null)
+            .ToListAsync(cancellationToken);
+
+        var staff = members
             .Select(bm => new StaffMember(
                 bm.UserId,
                 bm.User.Email,
                 bm.Role.ToString(),
-                bm.JoinedAt!.Value))
+                bm.JoinedAt!.Value,
+                StaffPermissionNames.ToNames(bm.PermissionsFor()),
+                StaffPermissionNames.QueueOverrides(bm),
+                bm.HasPin))
+            .ToList();
+
+        var now = timeProvider.GetUtcNow();
+        var inviteLinks = await db.MagicLinks
+            .Where(ml =>
+                ml.BusinessId == business.Id &&
+                ml.Type == MagicLinkType.Invite &&
+                !ml.UsedAt.HasValue)
+            .OrderBy(ml => ml.CreatedAt)
             .ToListAsync(cancellationToken);
 
-        return Results.Ok(new Response(staff));
+        var invites = inviteLinks
+            .Select(ml => new PendingInvite(ml.Id, ml.Email, ml.CreatedAt, ml.ExpiresAt, ml.IsExpired(now)))
+            .ToList();
+
+        return Results.Ok(new Response(staff, invites));
     }
 }
@@ -1,4 +1,3 @@
-using System.Security.Claims;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using QueueDrop.Api.Auth;
@@ -10,7 +9,7 @@ namespace QueueDrop.Api.Features.Staff;
 /// <summary>
 /// Vertical slice: Remove a staff member from a business.
 /// DELETE /api/business/{businessSlug}/staff/{userId}
-/// Only business owners can remove staff. Owners cannot be removed.
+/// Only members who can manage the team (owners, or staff with ManageTeam) can remove staff. Owners cannot be removed.
 /// </summary>
 public static class RemoveStaff
 {
@@ -19,30 +18,29 @@ public static class RemoveStaff
         app.MapDelete("/api/business/{businessSlug}/staff/{userId:guid}", Handler)
             .WithName("RemoveStaff")
             .WithTags("Staff")
-            .RequireAuthorization()
             .Produces(StatusCodes.Status204NoContent)
             .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
             .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
-            .Produces<ProblemDetails>(StatusCodes.Status404NotFound);
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .ResolveActingMember();
     }
 
     private static async Task<IResult> Handler(
         string businessSlug,
         Guid userId,
-        ClaimsPrincipal user,
+        HttpContext httpContext,
         AppDbContext db,
         IBusinessAuthorizationService authService,
         CancellationToken cancellationToken)
     {
-        var currentUserIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
-        if (!Guid.TryParse(currentUserIdClaim, out var currentUserId))
+        if (httpContext.GetStaffUserId() is not { } currentUserId)
             return Results.Unauthorized();
 
-        if (!await authService.IsOwnerAsync(currentUserId, businessSlug, cancellationToken))
+        if (!await authService.HasPermissionAsync(currentUserId, businessSlug, StaffPermission.ManageTeam, cancellationToken))
         {
             return Results.Problem(
                 title: "Forbidden",
-                detail: "Only business owners can remove staff.",
+                detail: "Only members who can manage the team can remove staff.",
                 statusCode: StatusCodes.Status403Forbidden);
         }
 
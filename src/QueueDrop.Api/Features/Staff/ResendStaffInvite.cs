@@ -0,0 +1,90 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Staff;
+
+/// <summary>
+/// Vertical slice: Send a pending staff invite again.
+/// POST /api/business/{businessSlug}/staff/invites/{inviteId}/resend
+/// Replaces the old link with a fresh one, so a lost or expired email can't be used anymore.
+/// Only members who can manage the team (owners, or staff with ManageTeam) can resend invites.
+/// </summary>
+public static class ResendStaffInvite
+{
+    public sealed record Response(Guid InviteId, string Email, DateTimeOffset ExpiresAt);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/business/{businessSlug}/staff/invites/{inviteId:guid}/resend", Handler)
+            .WithName("ResendStaffInvite")
+            .WithTags("Staff")
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .ResolveActingMember();
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        Guid inviteId,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        TimeProvider timeProvider,
+        IEmailService emailService,
+        IConfiguration configuration,
+        ILogger<Program> logger,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } userId)
+            return Results.Unauthorized();
+
+        var business = await db.Businesses
+            .FirstOrDefaultAsync(b => b.Slug == businessSlug.ToLowerInvariant(), cancellationToken);
+
+        if (business is null)
+            return Results.NotFound();
+
+        if (!await authService.HasPermissionAsync(userId, businessSlug, StaffPermission.ManageTeam, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only members who can manage the team can resend invites.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var oldInvite = await db.MagicLinks
+            .FirstOrDefaultAsync(ml =>
+                ml.Id == inviteId &&
+                ml.BusinessId == business.Id &&
+                ml.Type == MagicLinkType.Invite &&
+                !ml.UsedAt.HasValue, cancellationToken);
+
+        if (oldInvite is null)
+        {
+            return Results.Problem(
+                title: "Invite not found",
+                detail: "This invite was already accepted or revoked.",
+                statusCode: StatusCodes.Status404NotFound);
+        }
+
+        var invite = MagicLink.CreateInviteLink(
+            oldInvite.Email,
+            business.Id,
+            timeProvider.GetUtcNow(),
+            InviteStaff.InviteLifetime);
+
+        db.MagicLinks.Remove(oldInvite);
+        db.MagicLinks.Add(invite);
+        await db.SaveChangesAsync(cancellationToken);
+
+        await InviteStaff.SendInviteEmailAsync(invite, business.Name, emailService, configuration, logger, cancellationToken);
+
+        return Results.Ok(new Response(invite.Id, invite.Email, invite.ExpiresAt));
+    }
+}
@@ -0,0 +1,66 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Staff;
+
+/// <summary>
+/// Vertical slice: Revoke a staff invite nobody has accepted yet.
+/// DELETE /api/business/{businessSlug}/staff/invites/{inviteId}
+/// Only members who can manage the team (owners, or staff with ManageTeam) can revoke invites.
+/// </summary>
+public static class RevokeStaffInvite
+{
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapDelete("/api/business/{businessSlug}/staff/invites/{inviteId:guid}", Handler)
+            .WithName("RevokeStaffInvite")
+            .WithTags("Staff")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status404NotFound)
+            .ResolveActingMember();
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        Guid inviteId,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } userId)
+            return Results.Unauthorized();
+
+        if (!await authService.HasPermissionAsync(userId, businessSlug, StaffPermission.ManageTeam, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only members who can manage the team can revoke invites.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var business = await db.Businesses
+            .FirstOrDefaultAsync(b => b.Slug == businessSlug.ToLowerInvariant(), cancellationToken);
+
+        var invite = business is null
+            ? null
+            : await db.MagicLinks.FirstOrDefaultAsync(ml =>
+                ml.Id == inviteId &&
+                ml.BusinessId == business.Id &&
+                ml.Type == MagicLinkType.Invite &&
+                !ml.UsedAt.HasValue, cancellationToken);
+
+        if (invite is null)
+            return Results.NotFound();
+
+        // Deleting the link is what makes it unusable
+        db.MagicLinks.Remove(invite);
+        await db.SaveChangesAsync(cancellationToken);
+
+        return Results.NoContent();
+    }
+}
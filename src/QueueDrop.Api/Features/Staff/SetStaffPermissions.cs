@@ -0,0 +1,141 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Staff;
+
+/// <summary>
+/// Vertical slice: Set what a staff member can do, business-wide and per queue.
+/// PUT /api/business/{businessSlug}/staff/{userId}/permissions
+/// Queue overrides not in the request are removed. Only business owners can change permissions.
+/// </summary>
+public static class SetStaffPermissions
+{
+    public sealed record QueuePermissionsRequest(Guid QueueId, List<string> Permissions);
+    public sealed record Request(List<string> Permissions, List<QueuePermissionsRequest>? QueuePermissions);
+    public sealed record Response(
+        Guid UserId,
+        List<string> Permissions,
+        List<StaffPermissionNames.QueuePermissionsDto> QueuePermissions);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPut("/api/business/{businessSlug}/staff/{userId:guid}/permissions", Handler)
+            .WithName("SetStaffPermissions")
+            .WithTags("Staff")
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces(StatusCodes.Status404NotFound)
+            .ResolveActingMember();
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        Guid userId,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } currentUserId)
+            return Results.Unauthorized();
+
+        // Owner-only: anyone who could grant permissions could grant themselves everything
+        if (!await authService.IsOwnerAsync(currentUserId, businessSlug, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only business owners can change permissions.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var membership = await db.BusinessMembers
+            .Include(bm => bm.Business)
+            .Include(bm => bm.QueuePermissions)
+            .FirstOrDefaultAsync(bm =>
+                bm.UserId == userId &&
+                bm.Business.Slug == businessSlug.ToLowerInvariant() &&
+                bm.JoinedAt != null,
+                cancellationToken);
+
+        if (membership is null)
+            return Results.NotFound();
+
+        if (membership.Role == BusinessRole.Owner)
+        {
+            return Results.Problem(
+                title: "Owner permissions are fixed",
+                detail: "Owners can always do everything. Change their role to staff first.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        if (!StaffPermissionNames.TryParse(request.Permissions, out var permissions))
+            return InvalidPermissions();
+
+        var queueRequests = request.QueuePermissions ?? [];
+        var queueIds = queueRequests.Select(q => q.QueueId).ToList();
+
+        if (queueIds.Distinct().Count() != queueIds.Count)
+        {
+            return Results.Problem(
+                title: "Duplicate queue",
+                detail: "Each queue can only appear once.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        var knownQueueCount = await db.Queues
+            .CountAsync(q => q.BusinessId == membership.BusinessId && queueIds.Contains(q.Id), cancellationToken);
+
+        if (knownQueueCount != queueIds.Count)
+        {
+            return Results.Problem(
+                title: "Unknown queue",
+                detail: "Every queue must belong to this business.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        var queueOverrides = new List<(Guid QueueId, StaffPermission Permissions)>();
+        foreach (var queueRequest in queueRequests)
+        {
+            if (!StaffPermissionNames.TryParse(queueRequest.Permissions, out var queuePermissions))
+                return InvalidPermissions();
+
+            queueOverrides.Add((queueRequest.QueueId, queuePermissions));
+        }
+
+        membership.SetPermissions(permissions);
+
+        foreach (var existing in membership.QueuePermissions.ToList())
+        {
+            if (!queueIds.Contains(existing.QueueId))
+                membership.SetQueuePermissions(existing.QueueId, null);
+        }
+
+        foreach (var (queueId, queuePermissions) in queueOverrides)
+        {
+            var isNew = membership.QueuePermissions.All(p => p.QueueId != queueId);
+            membership.SetQueuePermissions(queueId, queuePermissions);
+
+            // Adding to a tracked collection may not be detected - mark it explicitly, as JoinQueue does
+            if (isNew)
+                db.Entry(membership.QueuePermissions.First(p => p.QueueId == queueId)).State = EntityState.Added;
+        }
+
+        await db.SaveChangesAsync(cancellationToken);
+
+        return Results.Ok(new Response(
+            membership.UserId,
+            StaffPermissionNames.ToNames(membership.Permissions),
+            StaffPermissionNames.QueueOverrides(membership)));
+    }
+
+    private static IResult InvalidPermissions() =>
+        Results.Problem(
+            title: "Invalid permission",
+            detail: "Permissions must be callCustomers, manageCustomers, editSettings, viewReports or manageTeam.",
+            statusCode: StatusCodes.Status400BadRequest);
+}
@@ -0,0 +1,96 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Enums;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Staff;
+
+/// <summary>
+/// Vertical slice: Set or remove the PIN a member unlocks shared devices with.
+/// PUT /api/business/{businessSlug}/staff/{userId}/pin
+/// Members can set their own PIN. Owners can set staff PINs; other members who can manage the team can
+/// only remove them, so the member sets a new one themselves. Nobody else can touch an owner's PIN -
+/// a PIN unlocks devices as that member, so setting one would let the caller act as them.
+/// A null PIN removes it.
+/// </summary>
+public static class SetStaffPin
+{
+    public sealed record Request(string? Pin);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPut("/api/business/{businessSlug}/staff/{userId:guid}/pin", Handler)
+            .WithName("SetStaffPin")
+            .WithTags("Staff")
+            .Produces(StatusCodes.Status204NoContent)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces(StatusCodes.Status404NotFound)
+            .ResolveActingMember();
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        Guid userId,
+        Request request,
+        HttpContext httpContext,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        CancellationToken cancellationToken)
+    {
+        if (httpContext.GetStaffUserId() is not { } currentUserId)
+            return Results.Unauthorized();
+
+        var isSelf = currentUserId == userId;
+        if (!isSelf &&
+            !await authService.HasPermissionAsync(currentUserId, businessSlug, StaffPermission.ManageTeam, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only members who can manage the team can change other members' PINs.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var membership = await db.BusinessMembers
+            .Include(bm => bm.Business)
+            .FirstOrDefaultAsync(bm =>
+                bm.UserId == userId &&
+                bm.Business.Slug == businessSlug.ToLowerInvariant() &&
+                bm.JoinedAt != null,
+                cancellationToken);
+
+        if (membership is null)
+            return Results.NotFound();
+
+        if (!isSelf && membership.Role == BusinessRole.Owner)
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only owners can change their own PIN.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        if (!isSelf && request.Pin is not null &&
+            !await authService.IsOwnerAsync(currentUserId, businessSlug, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only owners can set other members' PINs. Remove it so they can set their own.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var result = membership.SetPin(request.Pin);
+        if (result.IsFailure)
+        {
+            return Results.Problem(
+                title: "Invalid PIN",
+                detail: result.Error.Message,
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        await db.SaveChangesAsync(cancellationToken);
+
+        return Results.NoContent();
+    }
+}
@@ -0,0 +1,103 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using QueueDrop.Api.Auth;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Infrastructure.Persistence;
+
+namespace QueueDrop.Api.Features.Staff;
+
+/// <summary>
+/// Vertical slice: Unlock a shared device as a member, using their PIN.
+/// POST /api/business/{businessSlug}/unlock
+/// The device must be signed in as a member of the business. Returns a token the device sends
+/// in the X-Acting-Member header, plus the member's permissions so the dashboard can match them.
+/// A member is locked out for a few minutes after too many wrong PINs (see <see cref="BusinessMember.TryUnlockWithPin"/>).
+/// </summary>
+public static class UnlockWithPin
+{
+    public sealed record Request(Guid UserId, string Pin);
+    public sealed record Response(
+        string ActingToken,
+        Guid UserId,
+        string Email,
+        string Role,
+        List<string> Permissions,
+        List<StaffPermissionNames.QueuePermissionsDto> QueuePermissions);
+
+    public static void MapEndpoint(IEndpointRouteBuilder app)
+    {
+        app.MapPost("/api/business/{businessSlug}/unlock", Handler)
+            .WithName("UnlockWithPin")
+            .WithTags("Staff")
+            .RequireAuthorization()
+            .Produces<Response>(StatusCodes.Status200OK)
+            .Produces<ProblemDetails>(StatusCodes.Status400BadRequest)
+            .Produces<ProblemDetails>(StatusCodes.Status403Forbidden)
+            .Produces<ProblemDetails>(StatusCodes.Status429TooManyRequests);
+    }
+
+    private static async Task<IResult> Handler(
+        string businessSlug,
+        Request request,
+        ClaimsPrincipal user,
+        AppDbContext db,
+        IBusinessAuthorizationService authService,
+        IActingMemberTokenService actingMemberTokenService,
+        TimeProvider timeProvider,
+        CancellationToken cancellationToken)
+    {
+        var userIdClaim = user.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(userIdClaim, out var deviceUserId))
+            return Results.Unauthorized();
+
+        if (!await authService.IsMemberAsync(deviceUserId, businessSlug, cancellationToken))
+        {
+            return Results.Problem(
+                title: "Forbidden",
+                detail: "Only members of this business can unlock its devices.",
+                statusCode: StatusCodes.Status403Forbidden);
+        }
+
+        var membership = await db.BusinessMembers
+            .Include(bm => bm.Business)
+            .Include(bm => bm.User)
+            .Include(bm => bm.QueuePermissions)
+            .FirstOrDefaultAsync(bm =>
+                bm.UserId == request.UserId &&
+                bm.Business.Slug == businessSlug.ToLowerInvariant() &&
+                bm.JoinedAt != null,
+                cancellationToken);
+
+        var now = timeProvider.GetUtcNow();
+        if (membership?.IsPinLockedOut(now) == true)
+        {
+            return Results.Problem(
+                title: "Too many attempts",
+                detail: "Too many wrong PINs. Try again in a few minutes.",
+                statusCode: StatusCodes.Status429TooManyRequests);
+        }
+
+        // Same answer for unknown members and wrong PINs
+        if (membership is null || !membership.TryUnlockWithPin(request.Pin ?? "", now))
+        {
+            if (membership is not null)
+                await db.SaveChangesAsync(cancellationToken);
+
+            return Results.Problem(
+                title: "Wrong PIN",
+                detail: "That PIN doesn't match.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        await db.SaveChangesAsync(cancellationToken);
+
+        return Results.Ok(new Response(
+            actingMemberTokenService.GenerateToken(membership.UserId, membership.BusinessId),
+            membership.UserId,
+            membership.User.Email,
+            membership.Role.ToString().ToLowerInvariant(),
+            StaffPermissionNames.ToNames(membership.PermissionsFor()),
+            StaffPermissionNames.QueueOverrides(membership)));
+    }
+}
@@ -0,0 +1,91 @@
+using System.Security.Claims;
+using Microsoft.Extensions.Caching.Memory;
+
+namespace QueueDrop.Api.Idempotency;
+
+/// <summary>
+/// Endpoint filter that applies a request at most once per Idempotency-Key header.
+/// Staff clients replay queued actions after going offline, and a request that reached
+/// the server before the connection dropped must not be applied a second time.
+/// Repeats get the first response back without running the handler again, and a repeat
+/// that arrives while the first is still running gets 409 so the client retries it later.
+/// </summary>
+public sealed class IdempotencyFilter(IMemoryCache cache) : IEndpointFilter
+{
+    public const string HeaderName = "Idempotency-Key";
+
+    private const int MaxKeyLength = 100;
+    private static readonly TimeSpan Retention = TimeSpan.FromHours(24);
+
+    // Holds a key while its first request runs; expires in case that request never finishes
+    private static readonly object InFlight = new();
+    private static readonly TimeSpan InFlightTimeout = TimeSpan.FromMinutes(1);
+
+    // Makes checking for a key and reserving it one step
+    private static readonly object ReserveLock = new();
+
+    public async ValueTask<object?> InvokeAsync(EndpointFilterInvocationContext context, EndpointFilterDelegate next)
+    {
+        var request = context.HttpContext.Request;
+        var key = request.Headers[HeaderName].ToString();
+
+        // Header is optional - requests without one run as usual
+        if (string.IsNullOrWhiteSpace(key))
+        {
+            return await next(context);
+        }
+
+        if (key.Length > MaxKeyLength)
+        {
+            return Results.Problem(
+                title: "Invalid idempotency key",
+                detail: $"The {HeaderName} header must be at most {MaxKeyLength} characters.",
+                statusCode: StatusCodes.Status400BadRequest);
+        }
+
+        // Same key on a different endpoint, or from a different user, is a different request
+        var userId = context.HttpContext.User.FindFirstValue(ClaimTypes.NameIdentifier) ?? "anonymous";
+        var cacheKey = $"idempotency:{userId}:{request.Method}:{request.Path}:{key}";
+
+        lock (ReserveLock)
+        {
+            if (cache.TryGetValue(cacheKey, out var cached))
+            {
+                return ReferenceEquals(cached, InFlight) ? StillRunning() : cached;
+            }
+
+            cache.Set(cacheKey, InFlight, InFlightTimeout);
+        }
+
+        object? result;
+        try
+        {
+            result = await next(context);
+        }
+        catch
+        {
+            cache.Remove(cacheKey);
+            throw;
+        }
+
+        if (IsFinal(result))
+        {
+            cache.Set(cacheKey, result, Retention);
+        }
+        else
+        {
+            cache.Remove(cacheKey);
+        }
+
+        return result;
+    }
+
+    private static IResult StillRunning() => Results.Problem(
+        title: "Request in progress",
+        detail: $"A request with this {HeaderName} is still being processed. Retry once it completes.",
+        statusCode: StatusCodes.Status409Conflict);
+
+    // Conflicts and server errors are worth retrying with the same key
+    private static bool IsFinal(object? result) =>
+        result is not IStatusCodeHttpResult { StatusCode: StatusCodes.Status409Conflict or >= 500 };
+}
@@ -2,6 +2,7 @@ using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
 using QueueDrop.Api.Auth;
 using QueueDrop.Api.BackgroundServices;
+using QueueDrop.Api.Features.Analytics;
 using QueueDrop.Api.Features.Auth;
 using QueueDrop.Api.Features.Business;
 using QueueDrop.Api.Features.Customers;
@@ -36,12 +37,16 @@ builder.Services.AddSignalR()
     });
 builder.Services.AddScoped<IQueueHubNotifier, QueueHubNotifier>();
 
+// Idempotency keys for replayed staff actions (see IdempotencyFilter) and failed PIN unlocks
+builder.Services.AddMemoryCache();
+
 // Time provider (injectable for testing)
 builder.Services.AddSingleton(TimeProvider.System);
 
 // JWT Authentication
 builder.Services.Configure<JwtOptions>(builder.Configuration.GetSection(JwtOptions.SectionName));
 builder.Services.AddSingleton<IJwtTokenService, JwtTokenService>();
+builder.Services.AddSingleton<IActingMemberTokenService, ActingMemberTokenService>();
 
 // JWT Bearer Authentication - use IConfigureOptions for testability
 builder.Services.AddAuthentication("Bearer")
@@ -72,6 +77,8 @@ builder.Services.AddEndpointsApiExplorer();
 
 // Background services
 builder.Services.AddHostedService<AutoNoShowService>();
+builder.Services.AddHostedService<AutoCloseService>();
+builder.Services.AddHostedService<ClosingTimeService>();
 
 // Web Push
 builder.Services.Configure<VapidOptions>(builder.Configuration.GetSection(VapidOptions.SectionName));
@@ -143,13 +150,27 @@ app.MapGet("/health", () => Results.Ok(new { status = "healthy", timestamp = Dat
 // Feature endpoints (vertical slices)
 JoinQueue.MapEndpoint(app);
 GetPosition.MapEndpoint(app);
+LeaveQueue.MapEndpoint(app);
+LetOthersAhead.MapEndpoint(app);
+AcknowledgeCall.MapEndpoint(app);
 CallNext.MapEndpoint(app);
 GetSettings.MapEndpoint(app);
 UpdateSettings.MapEndpoint(app);
+GetOperatingHours.MapEndpoint(app);
+UpdateOperatingHours.MapEndpoint(app);
 GetQueueCustomers.MapEndpoint(app);
+AddWalkInCustomer.MapEndpoint(app);
 MarkServed.MapEndpoint(app);
 MarkNoShow.MapEndpoint(app);
 RemoveCustomer.MapEndpoint(app);
+UndoCustomerAction.MapEndpoint(app);
+RecallCustomer.MapEndpoint(app);
+RequeueCustomer.MapEndpoint(app);
+ReorderCustomer.MapEndpoint(app);
+TransferCustomer.MapEndpoint(app);
+SetQueueStatus.MapEndpoint(app);
+ScheduleAutoClose.MapEndpoint(app);
+GetQueueHistory.MapEndpoint(app);
 GetQueueByBusiness.MapEndpoint(app);
 GetBusinessQueues.MapEndpoint(app);
 SavePushSubscription.MapEndpoint(app);
@@ -159,17 +180,36 @@ GetVapidPublicKey.MapEndpoint(app);
 SendMagicLink.MapEndpoint(app);
 VerifyMagicLink.MapEndpoint(app);
 GetMe.MapEndpoint(app);
+RefreshSession.MapEndpoint(app);
+Logout.MapEndpoint(app);
+ListSessions.MapEndpoint(app);
+RevokeSession.MapEndpoint(app);
 
 // Business endpoints
 CreateBusiness.MapEndpoint(app);
 CreateQueue.MapEndpoint(app);
 UpdateQueue.MapEndpoint(app);
 DeleteQueue.MapEndpoint(app);
+ArchiveQueue.MapEndpoint(app);
+ReorderQueues.MapEndpoint(app);
 
 // Staff endpoints
 InviteStaff.MapEndpoint(app);
 ListStaff.MapEndpoint(app);
 RemoveStaff.MapEndpoint(app);
+ChangeStaffRole.MapEndpoint(app);
+ResendStaffInvite.MapEndpoint(app);
+RevokeStaffInvite.MapEndpoint(app);
+SetStaffPermissions.MapEndpoint(app);
+SetStaffPin.MapEndpoint(app);
+GetLockScreen.MapEndpoint(app);
+UnlockWithPin.MapEndpoint(app);
+
+// Analytics endpoints
+GetQueueAnalytics.MapEndpoint(app);
+GetBusinessAnalytics.MapEndpoint(app);
+ExportQueueCustomers.MapEndpoint(app);
+ExportBusinessCustomers.MapEndpoint(app);
 
 // Demo endpoints (enabled for portfolio demo)
 SeedDemoData.MapEndpoint(app);
@@ -68,4 +68,179 @@ public class BusinessMemberTests
         // Assert
         act.Should().Throw<InvalidOperationException>();
     }
+
+    [Fact]
+    public void ChangeRole_ShouldPromoteStaffToOwner()
+    {
+        // Arrange
+        var member = BusinessMember.CreateStaffInvite(Guid.NewGuid(), Guid.NewGuid(), DateTimeOffset.UtcNow);
+
+        // Act
+        member.ChangeRole(BusinessRole.Owner);
+
+        // Assert
+        member.Role.Should().Be(BusinessRole.Owner);
+    }
+
+    [Fact]
+    public void ChangeRole_DemotingOwner_ShouldFallBackToDefaultStaffPermissions()
+    {
+        // Arrange
+        var member = BusinessMember.CreateOwner(Guid.NewGuid(), Guid.NewGuid(), DateTimeOffset.UtcNow);
+
+        // Act
+        member.ChangeRole(BusinessRole.Staff);
+
+        // Assert
+        member.PermissionsFor().Should().Be(BusinessMember.DefaultStaffPermissions);
+    }
+
+    [Fact]
+    public void HasPermission_ForOwner_ShouldAlwaysBeTrue()
+    {
+        // Arrange
+        var member = BusinessMember.CreateOwner(Guid.NewGuid(), Guid.NewGuid(), DateTimeOffset.UtcNow);
+        var queueId = Guid.NewGuid();
+        member.SetQueuePermissions(queueId, StaffPermission.None);
+
+        // Act & Assert
+        member.HasPermission(StaffPermission.ManageTeam).Should().BeTrue();
+        member.HasPermission(StaffPermission.ManageCustomers, queueId).Should().BeTrue();
+    }
+
+    [Fact]
+    public void HasPermission_WithQueueOverride_ShouldUseOverrideOnThatQueueOnly()
+    {
+        // Arrange
+        var member = BusinessMember.CreateStaffInvite(Guid.NewGuid(), Guid.NewGuid(), DateTimeOffset.UtcNow);
+        var dineInQueueId = Guid.NewGuid();
+
+        // Act
+        member.SetQueuePermissions(dineInQueueId, StaffPermission.CallCustomers);
+
+        // Assert
+        member.HasPermission(StaffPermission.ManageCustomers, dineInQueueId).Should().BeFalse();
+        member.HasPermission(StaffPermission.CallCustomers, dineInQueueId).Should().BeTrue();
+        member.HasPermission(StaffPermission.ManageCustomers, Guid.NewGuid()).Should().BeTrue();
+    }
+
+    [Fact]
+    public void SetQueuePermissions_WithNull_ShouldRemoveOverride()
+    {
+        // Arrange
+        var member = BusinessMember.CreateStaffInvite(Guid.NewGuid(), Guid.NewGuid(), DateTimeOffset.UtcNow);
+        var queueId = Guid.NewGuid();
+        member.SetQueuePermissions(queueId, StaffPermission.None);
+
+        // Act
+        member.SetQueuePermissions(queueId, null);
+
+        // Assert
+        member.QueuePermissions.Should().BeEmpty();
+        member.PermissionsFor(queueId).Should().Be(BusinessMember.DefaultStaffPermissions);
+    }
+
+    [Fact]
+    public void SetPin_ShouldOnlyVerifyThatPin()
+    {
+        // Arrange
+        var member = BusinessMember.CreateStaffInvite(Guid.NewGuid(), Guid.NewGuid(), DateTimeOffset.UtcNow);
+
+        // Act
+        var result = member.SetPin("4821");
+
+        // Assert
+        result.IsSuccess.Should().BeTrue();
+        member.HasPin.Should().BeTrue();
+        member.PinHash.Should().NotContain("4821");
+        member.VerifyPin("4821").Should().BeTrue();
+        member.VerifyPin("4822").Should().BeFalse();
+    }
+
+    [Theory]
+    [InlineData("123")]
+    [InlineData("1234567")]
+    [InlineData("12a4")]
+    public void SetPin_WithInvalidPin_ShouldFail(string pin)
+    {
+        // Arrange
+        var member = BusinessMember.CreateStaffInvite(Guid.NewGuid(), Guid.NewGuid(), DateTimeOffset.UtcNow);
+
+        // Act
+        var result = member.SetPin(pin);
+
+        // Assert
+        result.IsFailure.Should().BeTrue();
+        member.HasPin.Should().BeFalse();
+    }
+
+    [Fact]
+    public void SetPin_WithNull_ShouldRemovePin()
+    {
+        // Arrange
+        var member = BusinessMember.CreateStaffInvite(Guid.NewGuid(), Guid.NewGuid(), DateTimeOffset.UtcNow);
+        member.SetPin("4821");
+
+        // Act
+        member.SetPin(null);
+
+        // Assert
+        member.HasPin.Should().BeFalse();
+        member.VerifyPin("4821").Should().BeFalse();
+    }
+
+    [Fact]
+    public void TryUnlockWithPin_AfterTooManyWrongPins_ShouldRefuseEvenTheRightPin()
+    {
+        // Arrange
+        var now = DateTimeOffset.UtcNow;
+        var member = BusinessMember.CreateStaffInvite(Guid.NewGuid(), Guid.NewGuid(), now);
+        member.SetPin("4821");
+
+        // Act
+        for (var i = 0; i < BusinessMember.MaxFailedPinAttempts; i++)
+            member.TryUnlockWithPin("0000", now);
+
+        // Assert
+        member.IsPinLockedOut(now).Should().BeTrue();
+        member.TryUnlockWithPin("4821", now.AddMinutes(1)).Should().BeFalse();
+    }
+
+    [Fact]
+    public void TryUnlockWithPin_AfterTheLockout_ShouldAcceptTheRightPin()
+    {
+        // Arrange
+        var now = DateTimeOffset.UtcNow;
+        var member = BusinessMember.CreateStaffInvite(Guid.NewGuid(), Guid.NewGuid(), now);
+        member.SetPin("4821");
+        for (var i = 0; i < BusinessMember.MaxFailedPinAttempts; i++)
+            member.TryUnlockWithPin("0000", now);
+
+        // Act
+        var unlocked = member.TryUnlockWithPin("4821", now.AddMinutes(10));
+
+        // Assert
+        unlocked.Should().BeTrue();
+        member.FailedPinAttempts.Should().Be(0);
+        member.PinLockedUntil.Should().BeNull();
+    }
+
+    [Fact]
+    public void TryUnlockWithPin_WithTheRightPin_ShouldResetTheWrongOnes()
+    {
+        // Arrange
+        var now = DateTimeOffset.UtcNow;
+        var member = BusinessMember.CreateStaffInvite(Guid.NewGuid(), Guid.NewGuid(), now);
+        member.SetPin("4821");
+        for (var i = 0; i < BusinessMember.MaxFailedPinAttempts - 1; i++)
+            member.TryUnlockWithPin("0000", now);
+
+        // Act
+        member.TryUnlockWithPin("4821", now);
+        member.TryUnlockWithPin("0000", now);
+
+        // Assert
+        member.IsPinLockedOut(now).Should().BeFalse();
+        member.FailedPinAttempts.Should().Be(1);
+    }
 }
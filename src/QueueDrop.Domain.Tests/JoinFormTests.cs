@@ -0,0 +1,170 @@
+using FluentAssertions;
+using QueueDrop.Domain.Common;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Domain.Tests;
+
+public class JoinFormTests
+{
+    private static readonly JoinField PartySize = new()
+    {
+        Key = "party", Label = "Party size", Type = JoinFieldType.PartySize, Required = true, Max = 8
+    };
+
+    private static readonly JoinField HighChair = new()
+    {
+        Key = "high-chair", Label = "High chair", Type = JoinFieldType.Checkbox
+    };
+
+    private static readonly JoinField Service = new()
+    {
+        Key = "service", Label = "Service", Type = JoinFieldType.Choice, Required = true, Options = ["Cut", "Beard trim"]
+    };
+
+    [Fact]
+    public void Create_ShouldTrimLabelsAndDropUnusedSettings()
+    {
+        // Act
+        var result = JoinForm.Create(
+        [
+            new JoinField { Key = "seating", Label = "  Seating  ", Type = JoinFieldType.Choice, Options = [" Inside ", "", "Outside"] },
+            new JoinField { Key = "notes", Label = "Notes", Type = JoinFieldType.Notes, Options = ["ignored"], Max = 3 }
+        ]);
+
+        // Assert
+        result.IsSuccess.Should().BeTrue();
+        result.Value[0].Label.Should().Be("Seating");
+        result.Value[0].Options.Should().Equal("Inside", "Outside");
+        result.Value[1].Options.Should().BeEmpty();
+        result.Value[1].Max.Should().BeNull();
+    }
+
+    [Fact]
+    public void Create_WithTooManyFields_ShouldFail()
+    {
+        // Arrange
+        var fields = Enumerable.Range(1, JoinForm.MaxFields + 1)
+            .Select(i => new JoinField { Key = $"q{i}", Label = $"Question {i}", Type = JoinFieldType.Text })
+            .ToList();
+
+        // Act
+        var result = JoinForm.Create(fields);
+
+        // Assert
+        result.IsFailure.Should().BeTrue();
+        result.Error.Should().Be(DomainErrors.Queue.TooManyJoinFields);
+    }
+
+    [Fact]
+    public void Create_WithDuplicateKeys_ShouldFail()
+    {
+        // Act
+        var result = JoinForm.Create([HighChair, HighChair with { Label = "Booster seat" }]);
+
+        // Assert
+        result.IsFailure.Should().BeTrue();
+        result.Error.Code.Should().Be("Queue.InvalidJoinField");
+    }
+
+    [Fact]
+    public void Create_AskingForPartySizeTwice_ShouldFail()
+    {
+        // Act
+        var result = JoinForm.Create([PartySize, PartySize with { Key = "guests" }]);
+
+        // Assert
+        result.IsFailure.Should().BeTrue();
+        result.Error.Code.Should().Be("Queue.InvalidJoinField");
+    }
+
+    [Fact]
+    public void Create_ChoiceWithoutOptions_ShouldFail()
+    {
+        // Act
+        var result = JoinForm.Create([Service with { Options = [" "] }]);
+
+        // Assert
+        result.IsFailure.Should().BeTrue();
+        result.Error.Code.Should().Be("Queue.InvalidJoinField");
+    }
+
+    [Fact]
+    public void Fill_ShouldSplitBuiltInDetailsFromAnswers()
+    {
+        // Arrange
+        var fields = new[]
+        {
+            PartySize,
+            new JoinField { Key = "phone", Label = "Phone", Type = JoinFieldType.Phone },
+            HighChair,
+            Service
+        };
+
+        // Act
+        var result = JoinForm.Fill(fields, new Dictionary<string, string?>
+        {
+            ["party"] = "4",
+            ["phone"] = "+44 7700 900123",
+            ["high-chair"] = "true",
+            ["service"] = "beard trim"
+        });
+
+        // Assert
+        result.IsSuccess.Should().BeTrue();
+        result.Value.PartySize.Should().Be(4);
+        result.Value.PhoneNumber.Should().Be("+44 7700 900123");
+        result.Value.Answers.Should().Equal(new JoinAnswer("High chair", "Yes"), new JoinAnswer("Service", "Beard trim"));
+    }
+
+    [Fact]
+    public void Fill_WithUntickedCheckbox_ShouldLeaveItOut()
+    {
+        // Act
+        var result = JoinForm.Fill([HighChair], new Dictionary<string, string?> { ["high-chair"] = "false" });
+
+        // Assert
+        result.Value.Answers.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Fill_MissingRequiredAnswer_ShouldFail()
+    {
+        // Act
+        var result = JoinForm.Fill([PartySize], new Dictionary<string, string?> { ["party"] = " " });
+
+        // Assert
+        result.IsFailure.Should().BeTrue();
+        result.Error.Should().Be(DomainErrors.Customer.MissingAnswer("Party size"));
+    }
+
+    [Theory]
+    [InlineData("party", "9")]
+    [InlineData("party", "two")]
+    [InlineData("service", "Perm")]
+    public void Fill_WithAnswerOutsideTheRules_ShouldFail(string key, string value)
+    {
+        // Arrange
+        var values = new Dictionary<string, string?> { ["party"] = "2", ["service"] = "Cut", [key] = value };
+
+        // Act
+        var result = JoinForm.Fill([PartySize, Service], values);
+
+        // Assert
+        result.IsFailure.Should().BeTrue();
+        result.Error.Code.Should().Be("Customer.InvalidAnswer");
+    }
+
+    [Fact]
+    public void AddCustomer_ShouldKeepAnswers()
+    {
+        // Arrange
+        var queue = Queue.Create(Guid.NewGuid(), "Main", "main", DateTimeOffset.UtcNow);
+
+        // Act
+        var customer = queue.AddCustomer("Alice", DateTimeOffset.UtcNow, joinAnswers: [new JoinAnswer("Service", "Cut")]).Value;
+
+        // Assert
+        customer.JoinAnswers.Should().ContainSingle().Which.Value.Should().Be("Cut");
+    }
+}
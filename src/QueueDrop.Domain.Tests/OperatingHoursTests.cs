@@ -0,0 +1,197 @@
+using FluentAssertions;
+using QueueDrop.Domain.Common;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Domain.Tests;
+
+public class OperatingHoursTests
+{
+    // A Monday. London is on UTC in January, so local times read the same as UTC.
+    private static readonly DateTimeOffset Monday = new(2024, 1, 15, 0, 0, 0, TimeSpan.Zero);
+
+    [Fact]
+    public void GetStatus_WithinHours_ShouldBeOpenUntilClosing()
+    {
+        // Arrange
+        var hours = CreateHours([new WeeklyHours(DayOfWeek.Monday, new TimeOnly(11, 0), new TimeOnly(22, 0))]);
+
+        // Act
+        var status = hours.GetStatus(Monday.AddHours(12));
+
+        // Assert
+        status.IsOpen.Should().BeTrue();
+        status.AcceptsJoins.Should().BeTrue();
+        status.ClosesAt.Should().Be(Monday.AddHours(22));
+        status.TimeZone.Should().Be("Europe/London");
+    }
+
+    [Fact]
+    public void GetStatus_BeforeOpening_ShouldSayWhenItOpens()
+    {
+        // Arrange
+        var hours = CreateHours([new WeeklyHours(DayOfWeek.Monday, new TimeOnly(11, 0), new TimeOnly(22, 0))]);
+
+        // Act - 2am
+        var status = hours.GetStatus(Monday.AddHours(2));
+
+        // Assert
+        status.IsOpen.Should().BeFalse();
+        status.AcceptsJoins.Should().BeFalse();
+        status.OpensAt.Should().Be(Monday.AddHours(11));
+        status.ClosesAt.Should().BeNull();
+    }
+
+    [Fact]
+    public void GetStatus_AfterLastJoinCutoff_ShouldStayOpenButRefuseJoins()
+    {
+        // Arrange
+        var hours = CreateHours(
+            [new WeeklyHours(DayOfWeek.Monday, new TimeOnly(11, 0), new TimeOnly(22, 0))],
+            lastJoinMinutesBeforeClose: 30);
+
+        // Act
+        var status = hours.GetStatus(Monday.AddHours(21).AddMinutes(45));
+
+        // Assert
+        status.IsOpen.Should().BeTrue();
+        status.AcceptsJoins.Should().BeFalse();
+        status.LastJoinAt.Should().Be(Monday.AddHours(21).AddMinutes(30));
+    }
+
+    [Fact]
+    public void GetStatus_LateNight_ShouldRunPastMidnight()
+    {
+        // Arrange - Sunday 18:00 to Monday 02:00
+        var hours = CreateHours([new WeeklyHours(DayOfWeek.Sunday, new TimeOnly(18, 0), new TimeOnly(2, 0))]);
+
+        // Act
+        var status = hours.GetStatus(Monday.AddHours(1));
+
+        // Assert
+        status.IsOpen.Should().BeTrue();
+        status.ClosesAt.Should().Be(Monday.AddHours(2));
+    }
+
+    [Fact]
+    public void GetStatus_BackToBackPeriods_ShouldCloseAtTheEndOfTheLast()
+    {
+        // Arrange
+        var hours = CreateHours(
+        [
+            new WeeklyHours(DayOfWeek.Monday, new TimeOnly(11, 0), new TimeOnly(14, 0)),
+            new WeeklyHours(DayOfWeek.Monday, new TimeOnly(14, 0), new TimeOnly(22, 0))
+        ]);
+
+        // Act
+        var status = hours.GetStatus(Monday.AddHours(12));
+
+        // Assert
+        status.ClosesAt.Should().Be(Monday.AddHours(22));
+    }
+
+    [Fact]
+    public void GetStatus_OnClosedHoliday_ShouldOpenOnTheNextNormalDay()
+    {
+        // Arrange - open every weekday, but not this Monday
+        var weekdays = new[] { DayOfWeek.Monday, DayOfWeek.Tuesday, DayOfWeek.Wednesday, DayOfWeek.Thursday, DayOfWeek.Friday };
+        var hours = CreateHours(
+            weekdays.Select(day => new WeeklyHours(day, new TimeOnly(9, 0), new TimeOnly(17, 0))).ToList(),
+            [new HolidayHours(new DateOnly(2024, 1, 15))]);
+
+        // Act
+        var status = hours.GetStatus(Monday.AddHours(12));
+
+        // Assert
+        status.IsOpen.Should().BeFalse();
+        status.OpensAt.Should().Be(Monday.AddDays(1).AddHours(9));
+    }
+
+    [Fact]
+    public void GetStatus_ShouldFollowTheQueueTimeZone()
+    {
+        // Arrange - 11:00 in New York is 16:00 UTC in January
+        var hours = OperatingHours.Create(
+            "America/New_York",
+            [new WeeklyHours(DayOfWeek.Monday, new TimeOnly(11, 0), new TimeOnly(22, 0))],
+            [],
+            null).Value;
+
+        // Act
+        var status = hours.GetStatus(Monday.AddHours(12));
+
+        // Assert
+        status.IsOpen.Should().BeFalse();
+        status.OpensAt.Should().Be(Monday.AddHours(16));
+    }
+
+    [Fact]
+    public void Create_WithOverlappingHours_ShouldFail()
+    {
+        // Act - Saturday night runs into Sunday morning
+        var result = OperatingHours.Create(
+            "UTC",
+            [
+                new WeeklyHours(DayOfWeek.Saturday, new TimeOnly(20, 0), new TimeOnly(3, 0)),
+                new WeeklyHours(DayOfWeek.Sunday, new TimeOnly(2, 0), new TimeOnly(5, 0))
+            ],
+            [],
+            null);
+
+        // Assert
+        result.IsFailure.Should().BeTrue();
+        result.Error.Should().Be(DomainErrors.Queue.OverlappingHours);
+    }
+
+    [Fact]
+    public void Create_WithUnknownTimeZone_ShouldFail()
+    {
+        // Act
+        var result = OperatingHours.Create("Mars/Olympus_Mons", [], [], null);
+
+        // Assert
+        result.IsFailure.Should().BeTrue();
+        result.Error.Code.Should().Be("Queue.UnknownTimeZone");
+    }
+
+    [Fact]
+    public void RemoveCustomersLeftAtClosing_ShouldRemoveOnlyThoseWhoJoinedBeforeClosing()
+    {
+        // Arrange - closed at 22:00; a walk-in was added afterwards
+        var queue = Queue.Create(Guid.NewGuid(), "Main", "main", Monday.AddDays(-30));
+        queue.SetOperatingHours(CreateHours([new WeeklyHours(DayOfWeek.Monday, new TimeOnly(11, 0), new TimeOnly(22, 0))]));
+        var alice = queue.AddCustomer("Alice", Monday.AddHours(21)).Value;
+        var bob = queue.AddCustomer("Bob", Monday.AddHours(21).AddMinutes(30)).Value;
+        queue.CallNext(Monday.AddHours(21).AddMinutes(50));
+        var walkIn = queue.AddCustomer("Walk-in", Monday.AddHours(22).AddMinutes(5)).Value;
+
+        // Act
+        var removed = queue.RemoveCustomersLeftAtClosing(Monday.AddHours(22).AddMinutes(10));
+
+        // Assert - Alice was already called
+        removed.Should().ContainSingle().Which.Should().Be(bob);
+        bob.Status.Should().Be(CustomerStatus.Removed);
+        alice.Status.Should().Be(CustomerStatus.Called);
+        walkIn.Status.Should().Be(CustomerStatus.Waiting);
+    }
+
+    [Fact]
+    public void RemoveCustomersLeftAtClosing_WithoutHours_ShouldRemoveNobody()
+    {
+        // Arrange
+        var queue = Queue.Create(Guid.NewGuid(), "Main", "main", Monday.AddDays(-30));
+        queue.AddCustomer("Alice", Monday.AddDays(-1));
+
+        // Act
+        var removed = queue.RemoveCustomersLeftAtClosing(Monday);
+
+        // Assert
+        removed.Should().BeEmpty();
+    }
+
+    private static OperatingHours CreateHours(
+        IReadOnlyList<WeeklyHours> weekly,
+        IReadOnlyList<HolidayHours>? holidays = null,
+        int? lastJoinMinutesBeforeClose = null) =>
+        OperatingHours.Create("Europe/London", weekly, holidays ?? [], lastJoinMinutesBeforeClose).Value;
+}
@@ -0,0 +1,57 @@
+using FluentAssertions;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Domain.Tests;
+
+public class QueueAuditEntryTests
+{
+    private static readonly DateTimeOffset Now = new(2024, 1, 15, 10, 0, 0, TimeSpan.Zero);
+
+    [Fact]
+    public void Record_ShouldCopyTheCustomersName()
+    {
+        // Arrange
+        var queue = Queue.Create(Guid.NewGuid(), "Main", "main", Now);
+        var customer = queue.AddCustomer("Alice", Now).Value;
+        var actorId = Guid.NewGuid();
+
+        // Act
+        var entry = QueueAuditEntry.Record(queue.Id, QueueAuditAction.Called, Now, actorId, "Safari", customer);
+
+        // Assert
+        entry.QueueId.Should().Be(queue.Id);
+        entry.Action.Should().Be(QueueAuditAction.Called);
+        entry.ActorUserId.Should().Be(actorId);
+        entry.CustomerId.Should().Be(customer.Id);
+        entry.CustomerName.Should().Be("Alice");
+    }
+
+    [Fact]
+    public void Record_ShouldTruncateLongDeviceAndDetails()
+    {
+        // Act
+        var entry = QueueAuditEntry.Record(
+            Guid.NewGuid(),
+            QueueAuditAction.SettingsChanged,
+            Now,
+            actorUserId: null,
+            device: new string('d', QueueAuditEntry.MaxDeviceLength + 10),
+            details: new string('x', QueueAuditEntry.MaxDetailsLength + 10));
+
+        // Assert
+        entry.Device.Should().HaveLength(QueueAuditEntry.MaxDeviceLength);
+        entry.Details.Should().HaveLength(QueueAuditEntry.MaxDetailsLength);
+    }
+
+    [Fact]
+    public void Record_WithBlankDevice_ShouldStoreNull()
+    {
+        // Act
+        var entry = QueueAuditEntry.Record(Guid.NewGuid(), QueueAuditAction.Joined, Now, actorUserId: null, device: "  ");
+
+        // Assert
+        entry.Device.Should().BeNull();
+        entry.CustomerId.Should().BeNull();
+    }
+}
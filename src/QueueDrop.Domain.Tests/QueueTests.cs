@@ -396,6 +396,24 @@ public class QueueTests
             customer.ServedAt.Should().Be(servedTime);
         }
 
+        [Fact]
+        public void MarkCustomerServed_ShouldRecordWhoCalledAndServed()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+            var caller = Guid.NewGuid();
+            var server = Guid.NewGuid();
+            queue.CallNext(Now.AddMinutes(1), caller);
+
+            // Act
+            queue.MarkCustomerServed(customer.Id, Now.AddMinutes(5), server);
+
+            // Assert
+            customer.CalledByUserId.Should().Be(caller);
+            customer.CompletedByUserId.Should().Be(server);
+        }
+
         [Fact]
         public void MarkCustomerServed_WhenWaiting_ShouldFail()
         {
@@ -434,7 +452,7 @@ public class QueueTests
             var customer = queue.AddCustomer("Alice", Now).Value;
 
             // Act
-            var result = queue.RemoveCustomer(customer.Id);
+            var result = queue.RemoveCustomer(customer.Id, Now.AddMinutes(1));
 
             // Assert
             result.IsSuccess.Should().BeTrue();
@@ -451,7 +469,7 @@ public class QueueTests
             queue.MarkCustomerServed(customer.Id, Now.AddMinutes(5));
 
             // Act
-            var result = queue.RemoveCustomer(customer.Id);
+            var result = queue.RemoveCustomer(customer.Id, Now.AddMinutes(6));
 
             // Assert
             result.IsFailure.Should().BeTrue();
@@ -540,6 +558,84 @@ public class QueueTests
             queue.IsPaused.Should().BeFalse();
         }
 
+        [Fact]
+        public void AddCustomer_WhenPaused_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.Pause();
+
+            // Act
+            var result = queue.AddCustomer("Customer", Now);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Queue.Paused");
+        }
+
+        [Fact]
+        public void AddCustomer_WhenPausedButJoinsAllowed_ShouldSucceed()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.UpdateSettings(QueueSettings.Default with { AllowJoinWhenPaused = true });
+            queue.Pause();
+
+            // Act
+            var result = queue.AddCustomer("Customer", Now);
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+        }
+
+        [Fact]
+        public void CallNext_WhenPaused_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.AddCustomer("Customer", Now);
+            queue.Pause();
+
+            // Act
+            var result = queue.CallNext(Now);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Queue.Paused");
+        }
+
+        [Fact]
+        public void ScheduleAutoClose_InThePast_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+
+            // Act
+            var result = queue.ScheduleAutoClose(Now.AddMinutes(-1), Now);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            queue.AutoCloseAt.Should().BeNull();
+        }
+
+        [Fact]
+        public void CloseIfDue_AfterClosingTime_ShouldDeactivateAndClearSchedule()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.ScheduleAutoClose(Now.AddHours(1), Now);
+
+            // Act
+            var closedEarly = queue.CloseIfDue(Now.AddMinutes(59));
+            var closed = queue.CloseIfDue(Now.AddHours(1));
+
+            // Assert
+            closedEarly.Should().BeFalse();
+            closed.Should().BeTrue();
+            queue.IsActive.Should().BeFalse();
+            queue.AutoCloseAt.Should().BeNull();
+        }
+
         [Fact]
         public void Rename_WithValidName_ShouldUpdateName()
         {
@@ -610,5 +706,710 @@ public class QueueTests
             // Assert
             act.Should().Throw<ArgumentException>();
         }
+
+        [Fact]
+        public void Archive_WithEmptyQueue_ShouldCloseAndArchive()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.ScheduleAutoClose(Now.AddHours(1), Now);
+
+            // Act
+            var result = queue.Archive(Now);
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            queue.IsArchived.Should().BeTrue();
+            queue.IsActive.Should().BeFalse();
+            queue.AutoCloseAt.Should().BeNull();
+        }
+
+        [Fact]
+        public void Archive_WithCustomerCalled_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.AddCustomer("Alice", Now);
+            queue.CallNext(Now);
+
+            // Act
+            var result = queue.Archive(Now);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Queue.HasCustomersInLine");
+            queue.IsArchived.Should().BeFalse();
+            queue.IsActive.Should().BeTrue();
+        }
+
+        [Fact]
+        public void Unarchive_ShouldKeepQueueClosed()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.Archive(Now);
+
+            // Act
+            queue.Unarchive();
+
+            // Assert
+            queue.IsArchived.Should().BeFalse();
+            queue.IsActive.Should().BeFalse();
+        }
+    }
+
+    public class UndoTests
+    {
+        [Fact]
+        public void UndoCustomerTransition_AfterServe_ShouldRestoreCalled()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now.AddMinutes(1));
+            queue.MarkCustomerServed(customer.Id, Now.AddMinutes(5));
+
+            // Act
+            var result = queue.UndoCustomerTransition(customer.Id, Now.AddMinutes(5).AddSeconds(5));
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            customer.Status.Should().Be(CustomerStatus.Called);
+            customer.CalledAt.Should().Be(Now.AddMinutes(1));
+            customer.ServedAt.Should().BeNull();
+        }
+
+        [Fact]
+        public void UndoCustomerTransition_AfterRemove_ShouldRestorePosition()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.AddCustomer("First", Now);
+            var second = queue.AddCustomer("Second", Now.AddMinutes(1)).Value;
+            queue.AddCustomer("Third", Now.AddMinutes(2));
+            queue.RemoveCustomer(second.Id, Now.AddMinutes(3));
+
+            // Act
+            var result = queue.UndoCustomerTransition(second.Id, Now.AddMinutes(3).AddSeconds(5));
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            second.Status.Should().Be(CustomerStatus.Waiting);
+            queue.GetCustomerPosition(second.Id).Should().Be(2);
+        }
+
+        [Fact]
+        public void UndoCustomerTransition_AfterUndoWindow_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now);
+            queue.MarkCustomerNoShow(customer.Id, Now);
+
+            // Act
+            var result = queue.UndoCustomerTransition(customer.Id, Now + Queue.UndoWindow + TimeSpan.FromSeconds(1));
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Customer.UndoExpired");
+            customer.Status.Should().Be(CustomerStatus.NoShow);
+        }
+
+        [Fact]
+        public void UndoCustomerTransition_Twice_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+            queue.RemoveCustomer(customer.Id, Now);
+            queue.UndoCustomerTransition(customer.Id, Now);
+            var version = queue.Version;
+
+            // Act
+            var result = queue.UndoCustomerTransition(customer.Id, Now);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Customer.NothingToUndo");
+            queue.Version.Should().Be(version);
+        }
+
+        [Fact]
+        public void UndoCustomerTransition_WhenCalled_ShouldFail()
+        {
+            // Arrange - calling a customer is not undoable
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now);
+
+            // Act
+            var result = queue.UndoCustomerTransition(customer.Id, Now);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            customer.Status.Should().Be(CustomerStatus.Called);
+        }
+    }
+
+    public class RecallAndRequeueTests
+    {
+        [Fact]
+        public void RecallCustomer_WhenCalled_ShouldRestartTheCall()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now.AddMinutes(1));
+            queue.AcknowledgeCall(customer.Id, Now.AddMinutes(2));
+            var version = queue.Version;
+
+            // Act
+            var result = queue.RecallCustomer(customer.Id, Now.AddMinutes(4));
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            result.Value.Should().BeSameAs(customer);
+            customer.Status.Should().Be(CustomerStatus.Called);
+            customer.CalledAt.Should().Be(Now.AddMinutes(4));
+            customer.OnTheWayAt.Should().BeNull();
+            queue.Version.Should().Be(version + 1);
+        }
+
+        [Fact]
+        public void RecallCustomer_ShouldRestartTheNoShowWindow()
+        {
+            // Arrange - called after a minute, recalled just before the no-show timeout runs out
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now.AddMinutes(1));
+            var timeout = TimeSpan.FromMinutes(queue.Settings.NoShowTimeoutMinutes);
+
+            // Act
+            queue.RecallCustomer(customer.Id, Now.AddMinutes(5));
+
+            // Assert - past the first call's deadline, still within the recall's
+            var checkedAt = Now.AddMinutes(1) + timeout + TimeSpan.FromMinutes(1);
+            (customer.CalledAt!.Value + timeout).Should().BeAfter(checkedAt);
+        }
+
+        [Fact]
+        public void RecallCustomer_WhenWaiting_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+
+            // Act
+            var result = queue.RecallCustomer(customer.Id);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Customer.NotCalled");
+        }
+
+        [Fact]
+        public void RequeueCustomer_ToFront_ShouldBeCalledNextAgain()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            var bob = queue.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            queue.CallNext(Now.AddMinutes(2));
+
+            // Act
+            var result = queue.RequeueCustomer(alice.Id, position: 1);
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            alice.Status.Should().Be(CustomerStatus.Waiting);
+            alice.CalledAt.Should().BeNull();
+            queue.GetCustomerPosition(alice.Id).Should().Be(1);
+            queue.GetCustomerPosition(bob.Id).Should().Be(2);
+            queue.CallNext(Now.AddMinutes(3)).Value.Should().BeSameAs(alice);
+        }
+
+        [Fact]
+        public void RequeueCustomer_ToMiddle_ShouldShiftCustomersBehind()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            var bob = queue.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            var charlie = queue.AddCustomer("Charlie", Now.AddMinutes(2)).Value;
+            queue.CallNext(Now.AddMinutes(3));
+
+            // Act
+            queue.RequeueCustomer(alice.Id, position: 2);
+
+            // Assert
+            queue.GetUpdatedPositions().Should().Equal(
+                (bob.Id, 1),
+                (alice.Id, 2),
+                (charlie.Id, 3));
+        }
+
+        [Fact]
+        public void RequeueCustomer_PastEndOfLine_ShouldGoToBackAheadOfNewJoiners()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            var bob = queue.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            queue.CallNext(Now.AddMinutes(2));
+
+            // Act
+            queue.RequeueCustomer(alice.Id, position: 10);
+            var charlie = queue.AddCustomer("Charlie", Now.AddMinutes(3)).Value;
+
+            // Assert
+            queue.GetCustomerPosition(bob.Id).Should().Be(1);
+            queue.GetCustomerPosition(alice.Id).Should().Be(2);
+            queue.GetCustomerPosition(charlie.Id).Should().Be(3);
+        }
+
+        [Fact]
+        public void RequeueCustomer_WhenWaiting_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+            var version = queue.Version;
+
+            // Act
+            var result = queue.RequeueCustomer(customer.Id, position: 1);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Customer.NotCalled");
+            queue.Version.Should().Be(version);
+        }
+
+        [Fact]
+        public void RequeueCustomer_WithInvalidPosition_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now.AddMinutes(1));
+
+            // Act
+            var result = queue.RequeueCustomer(customer.Id, position: 0);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Customer.InvalidPosition");
+            customer.Status.Should().Be(CustomerStatus.Called);
+        }
+    }
+
+    public class MoveCustomerTests
+    {
+        [Fact]
+        public void MoveCustomer_Up_ShouldShiftCustomersInBetweenBack()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            var bob = queue.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            var charlie = queue.AddCustomer("Charlie", Now.AddMinutes(2)).Value;
+
+            // Act
+            var result = queue.MoveCustomer(charlie.Id, position: 1);
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            queue.GetUpdatedPositions().Should().Equal(
+                (charlie.Id, 1),
+                (alice.Id, 2),
+                (bob.Id, 3));
+        }
+
+        [Fact]
+        public void MoveCustomer_Down_ShouldShiftCustomersInBetweenForward()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            var bob = queue.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            var charlie = queue.AddCustomer("Charlie", Now.AddMinutes(2)).Value;
+
+            // Act
+            queue.MoveCustomer(alice.Id, position: 2);
+
+            // Assert
+            queue.GetUpdatedPositions().Should().Equal(
+                (bob.Id, 1),
+                (alice.Id, 2),
+                (charlie.Id, 3));
+        }
+
+        [Fact]
+        public void MoveCustomer_ToCurrentPosition_ShouldNotIncrementVersion()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.AddCustomer("Alice", Now);
+            var bob = queue.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            var version = queue.Version;
+
+            // Act
+            var result = queue.MoveCustomer(bob.Id, position: 5);
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            queue.Version.Should().Be(version);
+        }
+
+        [Fact]
+        public void MoveCustomer_WhenCalled_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now.AddMinutes(1));
+
+            // Act
+            var result = queue.MoveCustomer(alice.Id, position: 1);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Customer.NotWaiting");
+        }
+    }
+
+    public class SelfServiceTests
+    {
+        [Fact]
+        public void LeaveQueue_WhenWaiting_ShouldRemoveCustomerAndMoveOthersUp()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            var bob = queue.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+
+            // Act
+            var result = queue.LeaveQueue(alice.Id, Now.AddMinutes(5));
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            alice.Status.Should().Be(CustomerStatus.Removed);
+            queue.GetCustomerPosition(bob.Id).Should().Be(1);
+        }
+
+        [Fact]
+        public void LeaveQueue_AfterServed_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now.AddMinutes(1));
+            queue.MarkCustomerServed(alice.Id, Now.AddMinutes(2));
+
+            // Act
+            var result = queue.LeaveQueue(alice.Id, Now.AddMinutes(3));
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Should().Be(DomainErrors.Customer.NotInQueue);
+            alice.Status.Should().Be(CustomerStatus.Served);
+        }
+
+        [Fact]
+        public void LetOthersAhead_ShouldMoveCustomerBackThatManyPlaces()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            var bob = queue.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            var charlie = queue.AddCustomer("Charlie", Now.AddMinutes(2)).Value;
+            var dana = queue.AddCustomer("Dana", Now.AddMinutes(3)).Value;
+
+            // Act
+            var result = queue.LetOthersAhead(alice.Id, places: 2);
+
+            // Assert
+            result.Value.Should().Be(3);
+            queue.GetUpdatedPositions().Should().Equal(
+                (bob.Id, 1),
+                (charlie.Id, 2),
+                (alice.Id, 3),
+                (dana.Id, 4));
+        }
+
+        [Fact]
+        public void LetOthersAhead_MorePlacesThanPeopleBehind_ShouldGoToBack()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            queue.AddCustomer("Bob", Now.AddMinutes(1));
+
+            // Act
+            var result = queue.LetOthersAhead(alice.Id, places: 3);
+
+            // Assert
+            result.Value.Should().Be(2);
+        }
+
+        [Fact]
+        public void LetOthersAhead_AtBackOfLine_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            queue.AddCustomer("Alice", Now);
+            var bob = queue.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            var version = queue.Version;
+
+            // Act
+            var result = queue.LetOthersAhead(bob.Id, places: 1);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Should().Be(DomainErrors.Customer.NobodyBehind);
+            queue.Version.Should().Be(version);
+        }
+
+        [Theory]
+        [InlineData(0)]
+        [InlineData(4)]
+        public void LetOthersAhead_WithInvalidPlaces_ShouldFail(int places)
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            queue.AddCustomer("Bob", Now.AddMinutes(1));
+
+            // Act
+            var result = queue.LetOthersAhead(alice.Id, places);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Should().Be(DomainErrors.Customer.InvalidLetAhead);
+        }
+
+        [Fact]
+        public void AcknowledgeCall_WhenCalled_ShouldRecordOnTheWay()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now.AddMinutes(1));
+
+            // Act
+            var result = queue.AcknowledgeCall(alice.Id, Now.AddMinutes(2));
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            alice.OnTheWayAt.Should().Be(Now.AddMinutes(2));
+        }
+
+        [Fact]
+        public void AcknowledgeCall_Twice_ShouldKeepFirstTimeAndVersion()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now.AddMinutes(1));
+            queue.AcknowledgeCall(alice.Id, Now.AddMinutes(2));
+            var version = queue.Version;
+
+            // Act
+            queue.AcknowledgeCall(alice.Id, Now.AddMinutes(3));
+
+            // Assert
+            alice.OnTheWayAt.Should().Be(Now.AddMinutes(2));
+            queue.Version.Should().Be(version);
+        }
+
+        [Fact]
+        public void AcknowledgeCall_WhenWaiting_ShouldFail()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+
+            // Act
+            var result = queue.AcknowledgeCall(alice.Id, Now);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Should().Be(DomainErrors.Customer.NotCalled);
+        }
+
+        [Fact]
+        public void RequeueCustomer_AfterOnTheWay_ShouldClearIt()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var alice = queue.AddCustomer("Alice", Now).Value;
+            queue.CallNext(Now.AddMinutes(1));
+            queue.AcknowledgeCall(alice.Id, Now.AddMinutes(2));
+
+            // Act
+            queue.RequeueCustomer(alice.Id, position: 1);
+
+            // Assert
+            alice.OnTheWayAt.Should().BeNull();
+        }
+    }
+
+    public class TransferTests
+    {
+        [Fact]
+        public void TransferCustomer_ToBack_ShouldMoveCustomerKeepingToken()
+        {
+            // Arrange
+            var bar = CreateQueue();
+            var dineIn = CreateQueue();
+            var alice = bar.AddCustomer("Alice", Now).Value;
+            var bob = dineIn.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            var token = alice.Token;
+
+            // Act
+            var result = bar.TransferCustomer(alice.Id, dineIn, TransferPlacement.Back);
+
+            // Assert
+            result.IsSuccess.Should().BeTrue();
+            bar.Customers.Should().BeEmpty();
+            alice.QueueId.Should().Be(dineIn.Id);
+            alice.Token.Should().Be(token);
+            dineIn.GetCustomerPosition(bob.Id).Should().Be(1);
+            dineIn.GetCustomerPosition(alice.Id).Should().Be(2);
+        }
+
+        [Fact]
+        public void TransferCustomer_ByJoinTime_ShouldSlotCustomerInByWhenTheyJoined()
+        {
+            // Arrange
+            var bar = CreateQueue();
+            var dineIn = CreateQueue();
+            var bob = dineIn.AddCustomer("Bob", Now).Value;
+            var alice = bar.AddCustomer("Alice", Now.AddMinutes(1)).Value;
+            var charlie = dineIn.AddCustomer("Charlie", Now.AddMinutes(2)).Value;
+
+            // Act
+            bar.TransferCustomer(alice.Id, dineIn, TransferPlacement.ByJoinTime);
+
+            // Assert
+            dineIn.GetUpdatedPositions().Should().Equal(
+                (bob.Id, 1),
+                (alice.Id, 2),
+                (charlie.Id, 3));
+        }
+
+        [Fact]
+        public void TransferCustomer_WhenCalled_ShouldWaitAgainInNewQueue()
+        {
+            // Arrange
+            var bar = CreateQueue();
+            var dineIn = CreateQueue();
+            var alice = bar.AddCustomer("Alice", Now).Value;
+            bar.CallNext(Now.AddMinutes(1));
+
+            // Act
+            bar.TransferCustomer(alice.Id, dineIn, TransferPlacement.Back);
+
+            // Assert
+            alice.Status.Should().Be(CustomerStatus.Waiting);
+            alice.CalledAt.Should().BeNull();
+        }
+
+        [Fact]
+        public void TransferCustomer_ToOtherBusiness_ShouldFail()
+        {
+            // Arrange
+            var bar = CreateQueue();
+            var elsewhere = Queue.Create(Guid.NewGuid(), "Elsewhere", "elsewhere", Now);
+            var alice = bar.AddCustomer("Alice", Now).Value;
+
+            // Act
+            var result = bar.TransferCustomer(alice.Id, elsewhere, TransferPlacement.Back);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            result.Error.Code.Should().Be("Queue.DifferentBusiness");
+            bar.Customers.Should().ContainSingle();
+        }
+
+        [Fact]
+        public void AddCustomer_AfterTransferOut_ShouldStillJoinAtBack()
+        {
+            // Arrange
+            var bar = CreateQueue();
+            var dineIn = CreateQueue();
+            var alice = bar.AddCustomer("Alice", Now).Value;
+            var bob = bar.AddCustomer("Bob", Now.AddMinutes(1)).Value;
+            var charlie = bar.AddCustomer("Charlie", Now.AddMinutes(2)).Value;
+            bar.TransferCustomer(alice.Id, dineIn, TransferPlacement.Back);
+
+            // Act
+            var dave = bar.AddCustomer("Dave", Now.AddMinutes(3)).Value;
+
+            // Assert
+            bar.GetUpdatedPositions().Should().Equal(
+                (bob.Id, 1),
+                (charlie.Id, 2),
+                (dave.Id, 3));
+        }
+    }
+
+    public class VersionTests
+    {
+        [Fact]
+        public void Create_ShouldStartAtVersionZero()
+        {
+            // Act
+            var queue = CreateQueue();
+
+            // Assert
+            queue.Version.Should().Be(0);
+        }
+
+        [Fact]
+        public void Mutations_ShouldIncrementVersion()
+        {
+            // Arrange
+            var queue = CreateQueue();
+
+            // Act
+            var customer = queue.AddCustomer("Customer", Now).Value;
+            queue.CallNext(Now);
+            queue.MarkCustomerServed(customer.Id, Now);
+            queue.Pause();
+            queue.UpdateSettings(QueueSettings.Default);
+
+            // Assert
+            queue.Version.Should().Be(5);
+        }
+
+        [Fact]
+        public void FailedMutation_ShouldNotIncrementVersion()
+        {
+            // Arrange
+            var queue = CreateQueue();
+
+            // Act
+            var result = queue.CallNext(Now);
+
+            // Assert
+            result.IsFailure.Should().BeTrue();
+            queue.Version.Should().Be(0);
+        }
+
+        [Fact]
+        public void MarkCustomerNearFrontNotified_ShouldNotIncrementVersion()
+        {
+            // Arrange
+            var queue = CreateQueue();
+            var customer = queue.AddCustomer("Customer", Now).Value;
+            var version = queue.Version;
+
+            // Act
+            queue.MarkCustomerNearFrontNotified(customer.Id, Now);
+
+            // Assert
+            queue.Version.Should().Be(version);
+        }
     }
 }
@@ -0,0 +1,88 @@
+using FluentAssertions;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Domain.Tests;
+
+public class UserSessionTests
+{
+    private static readonly DateTimeOffset Now = new(2024, 1, 15, 10, 0, 0, TimeSpan.Zero);
+
+    [Fact]
+    public void Start_ShouldStoreOnlyTheHashOfTheRefreshToken()
+    {
+        // Act
+        var session = UserSession.Start(Guid.NewGuid(), "Safari on iPad", Now, TimeSpan.FromDays(30), out var refreshToken);
+
+        // Assert
+        refreshToken.Should().HaveLength(64);
+        session.RefreshTokenHash.Should().Be(UserSession.HashToken(refreshToken));
+        session.RefreshTokenHash.Should().NotBe(refreshToken);
+        session.Device.Should().Be("Safari on iPad");
+        session.ExpiresAt.Should().Be(Now.AddDays(30));
+        session.IsActive(Now).Should().BeTrue();
+    }
+
+    [Fact]
+    public void Start_WithoutDevice_ShouldUseFallbackName()
+    {
+        // Act
+        var session = UserSession.Start(Guid.NewGuid(), "  ", Now, TimeSpan.FromDays(30), out _);
+
+        // Assert
+        session.Device.Should().Be("Unknown device");
+    }
+
+    [Fact]
+    public void Rotate_ShouldReplaceRefreshTokenButKeepExpiry()
+    {
+        // Arrange
+        var session = UserSession.Start(Guid.NewGuid(), "Chrome", Now, TimeSpan.FromDays(30), out var original);
+
+        // Act
+        var rotated = session.Rotate(Now.AddDays(1));
+
+        // Assert
+        rotated.Should().NotBe(original);
+        session.RefreshTokenHash.Should().Be(UserSession.HashToken(rotated));
+        session.LastUsedAt.Should().Be(Now.AddDays(1));
+        session.ExpiresAt.Should().Be(Now.AddDays(30));
+    }
+
+    [Fact]
+    public void Rotate_WhenRevoked_ShouldThrow()
+    {
+        // Arrange
+        var session = UserSession.Start(Guid.NewGuid(), "Chrome", Now, TimeSpan.FromDays(30), out _);
+        session.Revoke(Now);
+
+        // Act
+        var act = () => session.Rotate(Now.AddMinutes(1));
+
+        // Assert
+        act.Should().Throw<InvalidOperationException>();
+    }
+
+    [Fact]
+    public void IsActive_AfterExpiry_ShouldReturnFalse()
+    {
+        // Arrange
+        var session = UserSession.Start(Guid.NewGuid(), "Chrome", Now, TimeSpan.FromDays(30), out _);
+
+        // Act & Assert
+        session.IsActive(Now.AddDays(30)).Should().BeFalse();
+    }
+
+    [Fact]
+    public void Revoke_Twice_ShouldKeepFirstTime()
+    {
+        // Arrange
+        var session = UserSession.Start(Guid.NewGuid(), "Chrome", Now, TimeSpan.FromDays(30), out _);
+
+        // Act
+        session.Revoke(Now.AddHours(1));
+        session.Revoke(Now.AddHours(2));
+
+        // Assert
+        session.RevokedAt.Should().Be(Now.AddHours(1));
+    }
+}
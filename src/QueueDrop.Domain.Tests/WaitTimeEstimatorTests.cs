@@ -0,0 +1,168 @@
+using FluentAssertions;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Domain.Tests;
+
+public class WaitTimeEstimatorTests
+{
+    private static readonly DateTimeOffset Now = new(2024, 1, 15, 12, 0, 0, TimeSpan.Zero);
+
+    [Fact]
+    public void GetWaitEstimates_WithoutHistory_ShouldUseConfiguredServiceTime()
+    {
+        // Arrange - 5 minutes per customer by default
+        var queue = CreateQueue();
+        queue.AddCustomer("Alice", Now);
+        queue.AddCustomer("Bob", Now);
+        queue.AddCustomer("Carol", Now);
+
+        // Act
+        var estimates = queue.GetWaitEstimates(Now);
+
+        // Assert
+        estimates.Select(e => e.Position).Should().Equal(1, 2, 3);
+        estimates[0].EstimatedWait.Should().Be(WaitEstimate.None);
+        estimates[1].EstimatedWait.Should().Be(new WaitEstimate(3, 7));
+        estimates[2].EstimatedWait.Should().Be(new WaitEstimate(7, 13));
+    }
+
+    [Fact]
+    public void GetWaitEstimates_ShouldLearnFromRecentServiceTimes()
+    {
+        // Arrange - every customer took 10 minutes, twice the configured 5
+        var queue = CreateQueue();
+        ServeCustomers(queue, count: 5, minutes: 10, start: Now.AddHours(-1));
+        queue.AddCustomer("Alice", Now);
+        var bob = queue.AddCustomer("Bob", Now).Value;
+
+        // Act
+        var estimate = queue.GetWaitEstimates(Now).Single(e => e.CustomerId == bob.Id).EstimatedWait;
+
+        // Assert - consistent service times give a narrow range
+        estimate.Should().Be(new WaitEstimate(9, 11));
+    }
+
+    [Fact]
+    public void GetWaitEstimates_ShouldPreferServiceTimesFromTheSameTimeOfDay()
+    {
+        // Arrange - slow at this time yesterday, quick early this morning
+        var queue = CreateQueue();
+        ServeCustomers(queue, count: 5, minutes: 20, start: Now.AddDays(-1).AddMinutes(-30));
+        ServeCustomers(queue, count: 5, minutes: 2, start: Now.AddHours(-6));
+        queue.AddCustomer("Alice", Now);
+        var bob = queue.AddCustomer("Bob", Now).Value;
+
+        // Act
+        var estimate = queue.GetWaitEstimates(Now).Single(e => e.CustomerId == bob.Id).EstimatedWait;
+
+        // Assert
+        estimate.MidMinutes.Should().Be(20);
+    }
+
+    [Fact]
+    public void GetWaitEstimates_ShouldIgnoreServicesOlderThanTwoWeeks()
+    {
+        // Arrange
+        var queue = CreateQueue();
+        ServeCustomers(queue, count: 5, minutes: 30, start: Now.AddDays(-20));
+        queue.AddCustomer("Alice", Now);
+        var bob = queue.AddCustomer("Bob", Now).Value;
+
+        // Act
+        var estimate = queue.GetWaitEstimates(Now).Single(e => e.CustomerId == bob.Id).EstimatedWait;
+
+        // Assert - back to the configured 5 minutes
+        estimate.MidMinutes.Should().Be(5);
+    }
+
+    [Fact]
+    public void GetWaitEstimates_ShouldAllowLongerForBiggerParties()
+    {
+        // Arrange - a party of five counts as two customers
+        var queue = CreateQueue();
+        queue.AddCustomer("Big group", Now, partySize: 5);
+        var alice = queue.AddCustomer("Alice", Now).Value;
+
+        // Act
+        var estimate = queue.GetWaitEstimates(Now).Single(e => e.CustomerId == alice.Id).EstimatedWait;
+
+        // Assert
+        estimate.MidMinutes.Should().Be(10);
+    }
+
+    [Fact]
+    public void GetWaitEstimates_ShouldShareTheLineBetweenStaffCalling()
+    {
+        // Arrange - two members of staff have each called someone in the last hour
+        var queue = CreateQueue();
+        queue.AddCustomer("Served by one", Now.AddMinutes(-20));
+        queue.AddCustomer("Served by two", Now.AddMinutes(-20));
+        queue.CallNext(Now.AddMinutes(-15), Guid.NewGuid());
+        queue.CallNext(Now.AddMinutes(-15), Guid.NewGuid());
+        queue.AddCustomer("Alice", Now);
+        queue.AddCustomer("Bob", Now);
+        queue.AddCustomer("Carol", Now);
+        var dave = queue.AddCustomer("Dave", Now).Value;
+
+        // Act
+        var estimate = queue.GetWaitEstimates(Now).Single(e => e.CustomerId == dave.Id).EstimatedWait;
+
+        // Assert - three customers ahead at 5 minutes each, between two
+        estimate.MidMinutes.Should().Be(8);
+    }
+
+    [Fact]
+    public void GetWaitEstimates_ShouldCountWhatIsLeftOfCurrentServices()
+    {
+        // Arrange - called 2 minutes ago with 5 minutes expected
+        var queue = CreateQueue();
+        queue.AddCustomer("Being served", Now.AddMinutes(-10));
+        queue.CallNext(Now.AddMinutes(-2));
+        var alice = queue.AddCustomer("Alice", Now).Value;
+
+        // Act
+        var estimate = queue.GetWaitEstimates(Now).Single(e => e.CustomerId == alice.Id).EstimatedWait;
+
+        // Assert
+        estimate.MidMinutes.Should().Be(3);
+    }
+
+    [Fact]
+    public void EstimateWaitToJoin_ShouldCountEveryoneInLine()
+    {
+        // Arrange
+        var queue = CreateQueue();
+        queue.AddCustomer("Alice", Now);
+        queue.AddCustomer("Bob", Now);
+
+        // Act
+        var estimate = queue.EstimateWaitToJoin(Now);
+
+        // Assert
+        estimate.Should().Be(new WaitEstimate(7, 13));
+    }
+
+    [Fact]
+    public void EstimateWaitToJoin_WithEmptyQueue_ShouldBeNoWait()
+    {
+        // Act
+        var estimate = CreateQueue().EstimateWaitToJoin(Now);
+
+        // Assert
+        estimate.Should().Be(WaitEstimate.None);
+    }
+
+    private static Queue CreateQueue() => Queue.Create(Guid.NewGuid(), "Main", "main", Now.AddDays(-30));
+
+    /// <summary>Serves customers one after another, each taking the given minutes.</summary>
+    private static void ServeCustomers(Queue queue, int count, int minutes, DateTimeOffset start)
+    {
+        for (var i = 0; i < count; i++)
+        {
+            var calledAt = start.AddMinutes(i * minutes);
+            var customer = queue.AddCustomer($"Served {i}", calledAt).Value;
+            queue.CallNext(calledAt);
+            queue.MarkCustomerServed(customer.Id, calledAt.AddMinutes(minutes));
+        }
+    }
+}
@@ -12,4 +12,10 @@ public interface IEmailService
         string toEmail,
         string magicLinkUrl,
         CancellationToken cancellationToken = default);
+
+    Task<Result<string>> SendStaffInviteAsync(
+        string toEmail,
+        string businessName,
+        string inviteUrl,
+        CancellationToken cancellationToken = default);
 }
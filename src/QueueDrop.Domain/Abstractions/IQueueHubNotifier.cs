@@ -1,3 +1,5 @@
+using QueueDrop.Domain.Entities;
+
 namespace QueueDrop.Domain.Abstractions;
 
 /// <summary>
@@ -9,7 +11,7 @@ public interface IQueueHubNotifier
     /// <summary>
     /// Notifies a customer that their position in the queue has changed.
     /// </summary>
-    Task NotifyPositionChangedAsync(string customerToken, int newPosition, CancellationToken cancellationToken = default);
+    Task NotifyPositionChangedAsync(PositionUpdate update, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Notifies a customer that they have been called.
@@ -23,18 +25,87 @@ public interface IQueueHubNotifier
 
     /// <summary>
     /// Notifies staff that the queue state has changed (new customer, customer called, etc.).
+    /// The queue's version after the change lets clients detect updates they missed.
+    /// When the change affected a single customer, their new state is sent so dashboards can
+    /// patch their list; otherwise clients refetch.
     /// </summary>
-    Task NotifyQueueUpdatedAsync(Guid queueId, QueueUpdateType updateType, CancellationToken cancellationToken = default);
+    Task NotifyQueueUpdatedAsync(
+        Guid queueId,
+        QueueUpdateType updateType,
+        long version,
+        QueueCustomerUpdate? customer,
+        CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Notifies multiple customers of their new positions in batch.
     /// </summary>
-    Task NotifyPositionsChangedAsync(IEnumerable<(string CustomerToken, int NewPosition)> updates, CancellationToken cancellationToken = default);
+    Task NotifyPositionsChangedAsync(IEnumerable<PositionUpdate> updates, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Notifies a customer that they're near the front of the queue.
     /// </summary>
     Task NotifyNearFrontAsync(string customerToken, int position, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Notifies a customer that staff moved them to another queue, with their place in it.
+    /// </summary>
+    Task NotifyTransferredAsync(string customerToken, string queueName, int position, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Notifies customers in a queue that it was opened, closed, paused or resumed.
+    /// </summary>
+    Task NotifyQueueStatusChangedAsync(IEnumerable<string> customerTokens, bool isActive, bool isPaused, CancellationToken cancellationToken = default);
+}
+
+/// <summary>
+/// A customer's state after a queue update, in the shape of the staff customer list.
+/// Leaves out the customer's token, which would let anyone in the staff room act as them.
+/// </summary>
+public sealed record QueueCustomerUpdate(
+    Guid Id,
+    string Name,
+    string Status,
+    int? Position,
+    DateTimeOffset JoinedAt,
+    DateTimeOffset? CalledAt,
+    DateTimeOffset? OnTheWayAt,
+    int? PartySize,
+    string? Notes,
+    string? PhoneNumber,
+    IReadOnlyList<JoinAnswer> JoinAnswers)
+{
+    /// <summary>
+    /// Snapshots a customer. Position is the 1-based waiting position (null unless waiting).
+    /// </summary>
+    public static QueueCustomerUpdate From(QueueCustomer customer, int? position) => new(
+        customer.Id,
+        customer.Name,
+        customer.Status.ToString(),
+        position,
+        customer.JoinedAt,
+        customer.CalledAt,
+        customer.OnTheWayAt,
+        customer.PartySize,
+        customer.Notes,
+        customer.PhoneNumber,
+        customer.JoinAnswers);
+}
+
+/// <summary>
+/// A waiting customer's place in line and how long they can expect to wait from there.
+/// </summary>
+public sealed record PositionUpdate(string CustomerToken, int NewPosition, WaitEstimate EstimatedWait)
+{
+    /// <summary>
+    /// Updates for everyone waiting in a queue, in line order.
+    /// </summary>
+    public static IReadOnlyList<PositionUpdate> ForWaitingCustomers(Queue queue, DateTimeOffset now) =>
+        queue.GetWaitEstimates(now)
+            .Select(e => new PositionUpdate(
+                queue.Customers.First(c => c.Id == e.CustomerId).Token,
+                e.Position,
+                e.EstimatedWait))
+            .ToList();
 }
 
 /// <summary>
@@ -47,5 +118,11 @@ public enum QueueUpdateType
     CustomerServed,
     CustomerNoShow,
     CustomerRemoved,
-    QueueSettingsChanged
+    CustomerRestored,
+    CustomerRequeued,
+    CustomerMoved,
+    CustomerTransferred,
+    QueueSettingsChanged,
+    QueueStatusChanged,
+    CustomerOnTheWay
 }
@@ -99,7 +99,21 @@ public static class DomainErrors
         public static Error NotFound(Guid id) => new("Queue.NotFound", $"Queue with ID '{id}' was not found.");
         public static Error NotActive => new("Queue.NotActive", "Queue is not currently active.");
         public static Error Empty => new("Queue.Empty", "No customers waiting in queue.");
+        public static Error Paused => new("Queue.Paused", "Queue is currently paused.");
+        public static Error AutoCloseInPast => new("Queue.AutoCloseInPast", "Closing time must be in the future.");
+        public static Error HasCustomersInLine => new("Queue.HasCustomersInLine", "Customers are still waiting or called in this queue.");
         public static Error CustomerNotFound(Guid customerId) => new("Queue.CustomerNotFound", $"Customer '{customerId}' not found in queue.");
+        public static Error Full => new("Queue.Full", "Queue has reached maximum capacity.");
+        public static Error SameQueue => new("Queue.SameQueue", "Customer is already in this queue.");
+        public static Error DifferentBusiness => new("Queue.DifferentBusiness", "Customers can only move between queues of the same business.");
+        public static Error UnknownTimeZone(string timeZone) => new("Queue.UnknownTimeZone", $"'{timeZone}' is not a known time zone.");
+        public static Error TooManyHours => new("Queue.TooManyHours", $"A queue can have at most {Entities.OperatingHours.MaxWeeklyHours} weekly opening periods and {Entities.OperatingHours.MaxHolidays} holidays.");
+        public static Error InvalidWeekday => new("Queue.InvalidWeekday", "Each opening period needs a day of the week.");
+        public static Error OverlappingHours => new("Queue.OverlappingHours", "Opening hours overlap.");
+        public static Error InvalidHoliday => new("Queue.InvalidHoliday", "Each holiday needs its own date, and either both an opening and a closing time or neither.");
+        public static Error InvalidLastJoinCutoff => new("Queue.InvalidLastJoinCutoff", $"The last join cutoff must be between 1 and {Entities.OperatingHours.MaxLastJoinMinutesBeforeClose} minutes before closing.");
+        public static Error TooManyJoinFields => new("Queue.TooManyJoinFields", $"A join form can have at most {Entities.JoinForm.MaxFields} questions.");
+        public static Error InvalidJoinField(string reason) => new("Queue.InvalidJoinField", reason);
     }
 
     public static class Customer
@@ -108,6 +122,16 @@ public static class DomainErrors
         public static Error InvalidName => new("Customer.InvalidName", "Customer name is required and must be between 1 and 100 characters.");
         public static Error AlreadyCalled => new("Customer.AlreadyCalled", "Customer has already been called.");
         public static Error NotWaiting => new("Customer.NotWaiting", "Customer is not in waiting status.");
+        public static Error NotInLine => new("Customer.NotInLine", "Only waiting or called customers can be moved.");
+        public static Error NotCalled => new("Customer.NotCalled", "Customer has not been called.");
+        public static Error InvalidPosition => new("Customer.InvalidPosition", "Position must be 1 or greater.");
+        public static Error NothingToUndo => new("Customer.NothingToUndo", "There is no recent change to undo for this customer.");
+        public static Error UndoExpired => new("Customer.UndoExpired", "The change is too old to undo.");
+        public static Error NotInQueue => new("Customer.NotInQueue", "Customer is no longer in the queue.");
+        public static Error InvalidLetAhead => new("Customer.InvalidLetAhead", "You can let between 1 and 3 people go ahead.");
+        public static Error NobodyBehind => new("Customer.NobodyBehind", "There's nobody behind you to let ahead.");
+        public static Error MissingAnswer(string label) => new("Customer.MissingAnswer", $"Please answer \"{label}\".");
+        public static Error InvalidAnswer(string label, string reason) => new("Customer.InvalidAnswer", $"\"{label}\" {reason}.");
     }
 
     public static class Business
@@ -115,4 +139,9 @@ public static class DomainErrors
         public static Error NotFound(string slug) => new("Business.NotFound", $"Business '{slug}' was not found.");
         public static Error NoActiveQueue => new("Business.NoActiveQueue", "Business has no active queue.");
     }
+
+    public static class Member
+    {
+        public static Error InvalidPin => new("Member.InvalidPin", "PIN must be 4 to 6 digits.");
+    }
 }
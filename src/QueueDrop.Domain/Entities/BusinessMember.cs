@@ -1,3 +1,4 @@
+using System.Security.Cryptography;
 using QueueDrop.Domain.Common;
 using QueueDrop.Domain.Enums;
 
@@ -8,12 +9,44 @@ namespace QueueDrop.Domain.Entities;
 /// </summary>
 public sealed class BusinessMember : Entity
 {
+    /// <summary>What new staff can do until an owner changes it - run the queues, not the business.</summary>
+    public const StaffPermission DefaultStaffPermissions =
+        StaffPermission.CallCustomers | StaffPermission.ManageCustomers | StaffPermission.EditSettings;
+
+    /// <summary>Wrong PINs in a row before unlocking as this member is refused for a while.</summary>
+    public const int MaxFailedPinAttempts = 5;
+
+    private const int PinHashIterations = 10_000;
+    private static readonly TimeSpan PinLockoutDuration = TimeSpan.FromMinutes(5);
+
+    private List<MemberQueuePermission> _queuePermissions = [];
+
     public Guid UserId { get; private init; }
     public Guid BusinessId { get; private init; }
-    public BusinessRole Role { get; private init; }
+    public BusinessRole Role { get; private set; }
     public DateTimeOffset InvitedAt { get; private init; }
     public DateTimeOffset? JoinedAt { get; private set; }
 
+    /// <summary>Business-wide permissions. Ignored for owners, who can do everything.</summary>
+    public StaffPermission Permissions { get; private set; }
+
+    /// <summary>
+    /// Salted hash of the PIN used to unlock a shared device as this member ("iterations.salt.hash").
+    /// Null until one is set.
+    /// </summary>
+    public string? PinHash { get; private set; }
+
+    public bool HasPin => PinHash is not null;
+
+    /// <summary>Wrong PINs since the last unlock or lockout.</summary>
+    public int FailedPinAttempts { get; private set; }
+
+    /// <summary>When unlocking with this member's PIN is allowed again after too many wrong PINs.</summary>
+    public DateTimeOffset? PinLockedUntil { get; private set; }
+
+    /// <summary>Per-queue overrides of <see cref="Permissions"/>.</summary>
+    public IReadOnlyList<MemberQueuePermission> QueuePermissions => _queuePermissions.AsReadOnly();
+
     // Navigation properties
     public User User { get; private set; } = null!;
     public Business Business { get; private set; } = null!;
@@ -30,6 +63,7 @@ public sealed class BusinessMember : Entity
             UserId = userId,
             BusinessId = businessId,
             Role = BusinessRole.Owner,
+            Permissions = StaffPermission.All,
             InvitedAt = now,
             JoinedAt = now
         };
@@ -44,11 +78,121 @@ public sealed class BusinessMember : Entity
             UserId = userId,
             BusinessId = businessId,
             Role = BusinessRole.Staff,
+            Permissions = DefaultStaffPermissions,
             InvitedAt = invitedAt,
             JoinedAt = null
         };
     }
 
+    /// <summary>Promotes staff to owner or hands an owner back to staff.</summary>
+    public void ChangeRole(BusinessRole role)
+    {
+        // A demoted owner starts from the staff defaults rather than keeping everything
+        if (Role == BusinessRole.Owner && role == BusinessRole.Staff)
+            Permissions = DefaultStaffPermissions;
+
+        Role = role;
+    }
+
+    /// <summary>Sets what this member can do across the business.</summary>
+    public void SetPermissions(StaffPermission permissions) => Permissions = permissions & StaffPermission.All;
+
+    /// <summary>
+    /// Overrides this member's permissions on one queue. Null removes the override,
+    /// so the business-wide permissions apply again.
+    /// </summary>
+    public void SetQueuePermissions(Guid queueId, StaffPermission? permissions)
+    {
+        var existing = _queuePermissions.Find(p => p.QueueId == queueId);
+
+        if (permissions is null)
+        {
+            if (existing is not null)
+                _queuePermissions.Remove(existing);
+            return;
+        }
+
+        if (existing is null)
+            _queuePermissions.Add(MemberQueuePermission.Create(Id, queueId, permissions.Value & StaffPermission.All));
+        else
+            existing.Update(permissions.Value & StaffPermission.All);
+    }
+
+    /// <summary>Effective permissions, on a specific queue when one is given.</summary>
+    public StaffPermission PermissionsFor(Guid? queueId = null)
+    {
+        if (Role == BusinessRole.Owner)
+            return StaffPermission.All;
+
+        var queueOverride = queueId is null ? null : _queuePermissions.Find(p => p.QueueId == queueId);
+        return queueOverride?.Permissions ?? Permissions;
+    }
+
+    public bool HasPermission(StaffPermission permission, Guid? queueId = null) =>
+        (PermissionsFor(queueId) & permission) == permission;
+
+    /// <summary>Sets the PIN this member unlocks shared devices with. Null removes it. Either way any lockout ends.</summary>
+    public Result SetPin(string? pin)
+    {
+        if (pin is not null && (pin.Length is < 4 or > 6 || !pin.All(char.IsAsciiDigit)))
+            return DomainErrors.Member.InvalidPin;
+
+        FailedPinAttempts = 0;
+        PinLockedUntil = null;
+
+        if (pin is null)
+        {
+            PinHash = null;
+            return Result.Success();
+        }
+
+        var salt = RandomNumberGenerator.GetBytes(16);
+        var hash = HashPin(pin, salt, PinHashIterations);
+        PinHash = $"{PinHashIterations}.{Convert.ToBase64String(salt)}.{Convert.ToBase64String(hash)}";
+        return Result.Success();
+    }
+
+    public bool VerifyPin(string pin)
+    {
+        if (PinHash?.Split('.') is not [var iterations, var salt, var hash])
+            return false;
+
+        var actual = HashPin(pin, Convert.FromBase64String(salt), int.Parse(iterations));
+        return CryptographicOperations.FixedTimeEquals(actual, Convert.FromBase64String(hash));
+    }
+
+    public bool IsPinLockedOut(DateTimeOffset now) => PinLockedUntil > now;
+
+    /// <summary>
+    /// Checks a PIN entered to unlock a device as this member. Wrong PINs count towards a lockout,
+    /// kept with the member so it holds across restarts and servers; while locked out every PIN is refused.
+    /// </summary>
+    public bool TryUnlockWithPin(string pin, DateTimeOffset now)
+    {
+        if (IsPinLockedOut(now))
+            return false;
+
+        if (VerifyPin(pin))
+        {
+            FailedPinAttempts = 0;
+            PinLockedUntil = null;
+            return true;
+        }
+
+        FailedPinAttempts++;
+        if (FailedPinAttempts >= MaxFailedPinAttempts)
+        {
+            // The count starts again once the lockout ends
+            FailedPinAttempts = 0;
+            PinLockedUntil = now + PinLockoutDuration;
+        }
+
+        return false;
+    }
+
+    private static byte[] HashPin(string pin, byte[] salt, int iterations) =>
+        Rfc2898DeriveBytes.Pbkdf2(pin, salt, iterations, HashAlgorithmName.SHA256, 32);
+
     public void AcceptInvite(DateTimeOffset joinedAt)
     {
         if (JoinedAt.HasValue)
@@ -0,0 +1,218 @@
+using System.Globalization;
+using System.Text.RegularExpressions;
+using QueueDrop.Domain.Common;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Domain.Entities;
+
+/// <summary>
+/// A question on a queue's join form, e.g. "Party size" or "Service type".
+/// </summary>
+public sealed record JoinField
+{
+    /// <summary>Identifies the question in a customer's answers. Stays the same when the label is reworded.</summary>
+    public string Key { get; init; } = null!;
+
+    public string Label { get; init; } = null!;
+
+    public JoinFieldType Type { get; init; }
+
+    public bool Required { get; init; }
+
+    /// <summary>What a customer can pick from. Only used by choice questions.</summary>
+    public IReadOnlyList<string> Options { get; init; } = [];
+
+    /// <summary>Smallest number allowed for number and party size questions.</summary>
+    public int? Min { get; init; }
+
+    /// <summary>Largest number allowed for number and party size questions.</summary>
+    public int? Max { get; init; }
+}
+
+/// <summary>
+/// A customer's answer to a custom question, kept with the label it was asked under.
+/// </summary>
+public sealed record JoinAnswer(string Label, string Value);
+
+/// <summary>
+/// A filled-in join form: the built-in customer details plus answers to custom questions.
+/// </summary>
+public sealed record JoinFormEntry(string? PhoneNumber, int? PartySize, string? Notes, IReadOnlyList<JoinAnswer> Answers);
+
+/// <summary>
+/// Builds and fills the per-queue join form kept in <see cref="QueueSettings.JoinFields"/>.
+/// </summary>
+public static partial class JoinForm
+{
+    public const int MaxFields = 10;
+    public const int MaxKeyLength = 40;
+    public const int MaxLabelLength = 60;
+    public const int MaxOptions = 20;
+    public const int MaxTextLength = 200;
+    public const int MaxNotesLength = 500;
+    public const int MaxPhoneLength = 20;
+    public const int DefaultMaxPartySize = 20;
+
+    private static readonly JoinFieldType[] BuiltInTypes = [JoinFieldType.PartySize, JoinFieldType.Phone, JoinFieldType.Notes];
+
+    /// <summary>
+    /// Checks the questions an owner set up and tidies them: labels and options are trimmed,
+    /// and options and ranges are dropped from questions that don't use them.
+    /// </summary>
+    public static Result<IReadOnlyList<JoinField>> Create(IReadOnlyList<JoinField> fields)
+    {
+        if (fields.Count > MaxFields)
+            return DomainErrors.Queue.TooManyJoinFields;
+
+        var created = new List<JoinField>();
+        foreach (var field in fields)
+        {
+            if (string.IsNullOrWhiteSpace(field.Key) || field.Key.Length > MaxKeyLength || !KeyRegex().IsMatch(field.Key))
+                return DomainErrors.Queue.InvalidJoinField("Each question needs a key of letters, numbers, dashes or underscores.");
+
+            var label = field.Label?.Trim();
+            if (string.IsNullOrEmpty(label) || label.Length > MaxLabelLength)
+                return DomainErrors.Queue.InvalidJoinField($"Each question needs a label of up to {MaxLabelLength} characters.");
+
+            if (!Enum.IsDefined(field.Type))
+                return DomainErrors.Queue.InvalidJoinField($"\"{label}\" has an unknown type.");
+
+            if (created.Any(f => f.Key == field.Key))
+                return DomainErrors.Queue.InvalidJoinField($"Two questions share the key \"{field.Key}\".");
+
+            if (BuiltInTypes.Contains(field.Type) && created.Any(f => f.Type == field.Type))
+                return DomainErrors.Queue.InvalidJoinField($"The form can only ask for {Describe(field.Type)} once.");
+
+            var options = field.Type == JoinFieldType.Choice
+                ? field.Options.Select(o => o.Trim()).Where(o => o.Length > 0).Distinct().ToList()
+                : [];
+
+            if (field.Type == JoinFieldType.Choice && options.Count == 0)
+                return DomainErrors.Queue.InvalidJoinField($"\"{label}\" needs at least one option.");
+
+            if (options.Count > MaxOptions || options.Any(o => o.Length > MaxLabelLength))
+                return DomainErrors.Queue.InvalidJoinField(
+                    $"\"{label}\" can have at most {MaxOptions} options of up to {MaxLabelLength} characters.");
+
+            var hasRange = field.Type is JoinFieldType.Number or JoinFieldType.PartySize;
+            if (hasRange && field.Min > field.Max)
+                return DomainErrors.Queue.InvalidJoinField($"\"{label}\" has a minimum above its maximum.");
+
+            if (field.Type == JoinFieldType.PartySize && (field.Min < 1 || field.Max < 1))
+                return DomainErrors.Queue.InvalidJoinField("Party size must allow at least one person.");
+
+            created.Add(new JoinField
+            {
+                Key = field.Key,
+                Label = label,
+                Type = field.Type,
+                Required = field.Required,
+                Options = options,
+                Min = hasRange ? field.Min : null,
+                Max = hasRange ? field.Max : null
+            });
+        }
+
+        return created;
+    }
+
+    /// <summary>
+    /// Checks a customer's answers, keyed by <see cref="JoinField.Key"/>, against the form.
+    /// Blank answers count as unanswered and answers to questions not on the form are ignored.
+    /// </summary>
+    public static Result<JoinFormEntry> Fill(IReadOnlyList<JoinField> fields, IReadOnlyDictionary<string, string?> values)
+    {
+        string? phoneNumber = null;
+        int? partySize = null;
+        string? notes = null;
+        var answers = new List<JoinAnswer>();
+
+        foreach (var field in fields)
+        {
+            var value = values.GetValueOrDefault(field.Key)?.Trim();
+
+            // An unticked checkbox is an answer, so "required" means it has to be ticked
+            var isAnswered = field.Type == JoinFieldType.Checkbox ? IsTicked(value) : !string.IsNullOrEmpty(value);
+            if (!isAnswered)
+            {
+                if (field.Required)
+                    return DomainErrors.Customer.MissingAnswer(field.Label);
+                continue;
+            }
+
+            switch (field.Type)
+            {
+                case JoinFieldType.PartySize:
+                    if (!TryReadNumber(value!, field.Min ?? 1, field.Max ?? DefaultMaxPartySize, out var size))
+                        return DomainErrors.Customer.InvalidAnswer(
+                            field.Label, $"must be between {field.Min ?? 1} and {field.Max ?? DefaultMaxPartySize}");
+                    partySize = size;
+                    break;
+
+                case JoinFieldType.Phone:
+                    if (value!.Length > MaxPhoneLength || !PhoneRegex().IsMatch(value))
+                        return DomainErrors.Customer.InvalidAnswer(field.Label, "isn't a phone number");
+                    phoneNumber = value;
+                    break;
+
+                case JoinFieldType.Notes:
+                    if (value!.Length > MaxNotesLength)
+                        return DomainErrors.Customer.InvalidAnswer(field.Label, $"must be {MaxNotesLength} characters or fewer");
+                    notes = value;
+                    break;
+
+                case JoinFieldType.Text:
+                    if (value!.Length > MaxTextLength)
+                        return DomainErrors.Customer.InvalidAnswer(field.Label, $"must be {MaxTextLength} characters or fewer");
+                    answers.Add(new JoinAnswer(field.Label, value));
+                    break;
+
+                case JoinFieldType.Number:
+                    if (!TryReadNumber(value!, field.Min ?? int.MinValue, field.Max ?? int.MaxValue, out var number))
+                        return DomainErrors.Customer.InvalidAnswer(field.Label, DescribeRange(field));
+                    answers.Add(new JoinAnswer(field.Label, number.ToString(CultureInfo.InvariantCulture)));
+                    break;
+
+                case JoinFieldType.Choice:
+                    var option = field.Options.FirstOrDefault(o => string.Equals(o, value, StringComparison.OrdinalIgnoreCase));
+                    if (option is null)
+                        return DomainErrors.Customer.InvalidAnswer(field.Label, "isn't one of the options");
+                    answers.Add(new JoinAnswer(field.Label, option));
+                    break;
+
+                case JoinFieldType.Checkbox:
+                    answers.Add(new JoinAnswer(field.Label, "Yes"));
+                    break;
+            }
+        }
+
+        return new JoinFormEntry(phoneNumber, partySize, notes, answers);
+    }
+
+    private static bool IsTicked(string? value) =>
+        value is not null && (bool.TryParse(value, out var ticked) ? ticked : value.Equals("yes", StringComparison.OrdinalIgnoreCase));
+
+    private static bool TryReadNumber(string value, int min, int max, out int number) =>
+        int.TryParse(value, NumberStyles.Integer, CultureInfo.InvariantCulture, out number) && number >= min && number <= max;
+
+    private static string DescribeRange(JoinField field) => (field.Min, field.Max) switch
+    {
+        ({ } min, { } max) => $"must be between {min} and {max}",
+        ({ } min, null) => $"must be {min} or more",
+        (null, { } max) => $"must be {max} or less",
+        _ => "must be a whole number"
+    };
+
+    private static string Describe(JoinFieldType type) => type switch
+    {
+        JoinFieldType.PartySize => "party size",
+        JoinFieldType.Phone => "a phone number",
+        _ => "notes"
+    };
+
+    [GeneratedRegex(@"^[A-Za-z0-9_-]+$")]
+    private static partial Regex KeyRegex();
+
+    [GeneratedRegex(@"^\+?[0-9 ()-]{6,}$")]
+    private static partial Regex PhoneRegex();
+}
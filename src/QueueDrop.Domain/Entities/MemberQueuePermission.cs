@@ -0,0 +1,32 @@
+using QueueDrop.Domain.Common;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Domain.Entities;
+
+/// <summary>
+/// Replaces a staff member's business-wide permissions on one queue,
+/// e.g. letting bar staff call customers on the dine-in queue but not remove them.
+/// Owned by BusinessMember - changes go through BusinessMember.SetQueuePermissions.
+/// </summary>
+public sealed class MemberQueuePermission : Entity
+{
+    public Guid BusinessMemberId { get; private init; }
+    public Guid QueueId { get; private init; }
+    public StaffPermission Permissions { get; private set; }
+
+    // EF Core constructor
+    private MemberQueuePermission() { }
+
+    internal static MemberQueuePermission Create(Guid businessMemberId, Guid queueId, StaffPermission permissions)
+    {
+        return new MemberQueuePermission
+        {
+            Id = Guid.NewGuid(),
+            BusinessMemberId = businessMemberId,
+            QueueId = queueId,
+            Permissions = permissions
+        };
+    }
+
+    internal void Update(StaffPermission permissions) => Permissions = permissions;
+}
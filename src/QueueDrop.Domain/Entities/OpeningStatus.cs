@@ -0,0 +1,23 @@
+namespace QueueDrop.Domain.Entities;
+
+/// <summary>
+/// Where a queue stands against its operating hours at a moment.
+/// Times are instants; <see cref="TimeZone"/> is for showing them as the queue's local times.
+/// </summary>
+/// <param name="IsOpen">Within opening hours.</param>
+/// <param name="AcceptsJoins">Open and before the last-join cutoff.</param>
+/// <param name="OpensAt">Start of the next opening period, if there's one in the next few weeks.</param>
+/// <param name="ClosesAt">End of the current opening period. Null while closed.</param>
+/// <param name="LastJoinAt">When joins stop in the current period. Null while closed or without a cutoff.</param>
+/// <param name="TimeZone">The queue's IANA time zone. Null without operating hours.</param>
+public sealed record OpeningStatus(
+    bool IsOpen,
+    bool AcceptsJoins,
+    DateTimeOffset? OpensAt,
+    DateTimeOffset? ClosesAt,
+    DateTimeOffset? LastJoinAt,
+    string? TimeZone)
+{
+    /// <summary>A queue without operating hours: open whenever staff have it open.</summary>
+    public static OpeningStatus AlwaysOpen { get; } = new(true, true, null, null, null, null);
+}
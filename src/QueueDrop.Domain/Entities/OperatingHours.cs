@@ -0,0 +1,195 @@
+using QueueDrop.Domain.Common;
+
+namespace QueueDrop.Domain.Entities;
+
+/// <summary>
+/// Hours a queue is open on one day of the week, in the queue's time zone.
+/// Closing at or before opening runs past midnight, so 18:00-02:00 is a late night and 00:00-00:00 a full day.
+/// </summary>
+public sealed record WeeklyHours(DayOfWeek Day, TimeOnly Opens, TimeOnly Closes);
+
+/// <summary>
+/// Replaces the weekly hours on one date, e.g. a public holiday. No times means closed all day.
+/// </summary>
+public sealed record HolidayHours(DateOnly Date, TimeOnly? Opens = null, TimeOnly? Closes = null)
+{
+    public bool IsClosed => Opens is null || Closes is null;
+}
+
+/// <summary>
+/// Value object: when a queue takes customers - weekly hours, holiday exceptions and a
+/// last-join cutoff - in the queue's own time zone. Stored on the queue as JSON.
+/// </summary>
+public sealed record OperatingHours
+{
+    public const int MaxWeeklyHours = 28;
+    public const int MaxHolidays = 100;
+    public const int MaxLastJoinMinutesBeforeClose = 720;
+
+    /// <summary>How far ahead to look for the next opening, so a long holiday closure still finds it.</summary>
+    private const int LookAheadDays = 21;
+
+    /// <summary>IANA time zone the hours are in, e.g. "Europe/London".</summary>
+    public string TimeZone { get; init; } = "UTC";
+
+    public IReadOnlyList<WeeklyHours> Weekly { get; init; } = [];
+
+    public IReadOnlyList<HolidayHours> Holidays { get; init; } = [];
+
+    /// <summary>Minutes before closing that joins stop. Null lets customers join until closing.</summary>
+    public int? LastJoinMinutesBeforeClose { get; init; }
+
+    public static Result<OperatingHours> Create(
+        string timeZone,
+        IReadOnlyList<WeeklyHours> weekly,
+        IReadOnlyList<HolidayHours> holidays,
+        int? lastJoinMinutesBeforeClose)
+    {
+        if (string.IsNullOrWhiteSpace(timeZone) || !TimeZoneInfo.TryFindSystemTimeZoneById(timeZone, out _))
+            return DomainErrors.Queue.UnknownTimeZone(timeZone);
+
+        if (weekly.Count > MaxWeeklyHours || holidays.Count > MaxHolidays)
+            return DomainErrors.Queue.TooManyHours;
+
+        if (weekly.Any(w => !Enum.IsDefined(w.Day)))
+            return DomainErrors.Queue.InvalidWeekday;
+
+        if (Overlaps(weekly))
+            return DomainErrors.Queue.OverlappingHours;
+
+        if (holidays.Any(h => h.Opens.HasValue != h.Closes.HasValue) ||
+            holidays.DistinctBy(h => h.Date).Count() != holidays.Count)
+            return DomainErrors.Queue.InvalidHoliday;
+
+        if (lastJoinMinutesBeforeClose is < 1 or > MaxLastJoinMinutesBeforeClose)
+            return DomainErrors.Queue.InvalidLastJoinCutoff;
+
+        return new OperatingHours
+        {
+            TimeZone = timeZone,
+            Weekly = weekly.OrderBy(w => w.Day).ThenBy(w => w.Opens).ToList(),
+            Holidays = holidays.OrderBy(h => h.Date).ToList(),
+            LastJoinMinutesBeforeClose = lastJoinMinutesBeforeClose
+        };
+    }
+
+    /// <summary>
+    /// Whether the queue is open at <paramref name="now"/>, whether it still takes joins,
+    /// and when it next opens and closes.
+    /// </summary>
+    public OpeningStatus GetStatus(DateTimeOffset now)
+    {
+        var periods = GetPeriods(now);
+        var current = periods.FirstOrDefault(p => p.Opens <= now && now < p.Closes);
+        DateTimeOffset? opensAt = periods.FirstOrDefault(p => p.Opens > now)?.Opens;
+
+        if (current is null)
+            return new OpeningStatus(false, false, opensAt, null, null, TimeZone);
+
+        DateTimeOffset? lastJoinAt = LastJoinMinutesBeforeClose is { } minutes
+            ? current.Closes.AddMinutes(-minutes)
+            : null;
+
+        return new OpeningStatus(true, lastJoinAt is null || now < lastJoinAt, opensAt, current.Closes, lastJoinAt, TimeZone);
+    }
+
+    /// <summary>When the queue last closed before <paramref name="now"/>, if it has in the past week.</summary>
+    public DateTimeOffset? GetLastClosedAt(DateTimeOffset now) =>
+        GetPeriods(now).LastOrDefault(p => p.Closes <= now)?.Closes;
+
+    private sealed record Period(DateTimeOffset Opens, DateTimeOffset Closes);
+
+    /// <summary>
+    /// Opening periods from a week before <paramref name="now"/> until <see cref="LookAheadDays"/> after,
+    /// in order, with back-to-back periods (e.g. a late night into the next day) joined up.
+    /// </summary>
+    private List<Period> GetPeriods(DateTimeOffset now)
+    {
+        var zone = TimeZoneInfo.FindSystemTimeZoneById(TimeZone);
+        var today = DateOnly.FromDateTime(TimeZoneInfo.ConvertTime(now, zone).DateTime);
+
+        var periods = Enumerable.Range(-7, 7 + LookAheadDays)
+            .Select(today.AddDays)
+            .SelectMany(date => GetPeriodsOn(date, zone))
+            .OrderBy(p => p.Opens);
+
+        var merged = new List<Period>();
+        foreach (var period in periods)
+        {
+            if (merged.Count > 0 && period.Opens <= merged[^1].Closes)
+            {
+                if (period.Closes > merged[^1].Closes)
+                    merged[^1] = merged[^1] with { Closes = period.Closes };
+            }
+            else
+            {
+                merged.Add(period);
+            }
+        }
+
+        return merged;
+    }
+
+    private IEnumerable<Period> GetPeriodsOn(DateOnly date, TimeZoneInfo zone)
+    {
+        var holiday = Holidays.FirstOrDefault(h => h.Date == date);
+        if (holiday is not null)
+        {
+            return holiday.IsClosed
+                ? []
+                : [ToPeriod(date, holiday.Opens!.Value, holiday.Closes!.Value, zone)];
+        }
+
+        return Weekly
+            .Where(w => w.Day == date.DayOfWeek)
+            .Select(w => ToPeriod(date, w.Opens, w.Closes, zone));
+    }
+
+    private static Period ToPeriod(DateOnly date, TimeOnly opens, TimeOnly closes, TimeZoneInfo zone)
+    {
+        var closesOn = closes <= opens ? date.AddDays(1) : date;
+        return new Period(ToInstant(date.ToDateTime(opens), zone), ToInstant(closesOn.ToDateTime(closes), zone));
+    }
+
+    /// <summary>
+    /// The moment a local clock time happens. Times skipped when the clocks go forward
+    /// are taken an hour later; repeated times when they go back, the first time round.
+    /// </summary>
+    private static DateTimeOffset ToInstant(DateTime local, TimeZoneInfo zone)
+    {
+        if (zone.IsInvalidTime(local))
+            local = local.AddHours(1);
+
+        var offset = zone.IsAmbiguousTime(local)
+            ? zone.GetAmbiguousTimeOffsets(local).Max()
+            : zone.GetUtcOffset(local);
+
+        return new DateTimeOffset(local, offset);
+    }
+
+    /// <summary>Whether any two weekly periods share a minute, counting Saturday nights running into Sunday.</summary>
+    private static bool Overlaps(IReadOnlyList<WeeklyHours> weekly)
+    {
+        const int minutesPerDay = 24 * 60;
+        const int minutesPerWeek = 7 * minutesPerDay;
+
+        var spans = weekly
+            .Select(w =>
+            {
+                var start = (int)w.Day * minutesPerDay + (int)w.Opens.ToTimeSpan().TotalMinutes;
+                var length = (int)(w.Closes - w.Opens).TotalMinutes;
+                return (Start: start, End: start + (length == 0 ? minutesPerDay : length));
+            })
+            .OrderBy(s => s.Start)
+            .ToList();
+
+        for (var i = 0; i < spans.Count; i++)
+        {
+            var next = i + 1 < spans.Count ? spans[i + 1].Start : spans[0].Start + minutesPerWeek;
+            if (spans[i].End > next)
+                return true;
+        }
+
+        return false;
+    }
+}
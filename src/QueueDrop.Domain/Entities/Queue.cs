@@ -23,6 +23,20 @@ public sealed class Queue : Entity
     /// <summary>Whether the queue is paused (not calling next, but may accept joins).</summary>
     public bool IsPaused { get; private set; }
 
+    /// <summary>When the queue closes itself. Null means it stays open until closed by hand.</summary>
+    public DateTimeOffset? AutoCloseAt { get; private set; }
+
+    /// <summary>When customers can join. Null means whenever the queue is open.</summary>
+    public OperatingHours? OperatingHours { get; private set; }
+
+    /// <summary>Position among the business's queues; lower comes first.</summary>
+    public int DisplayOrder { get; private set; }
+
+    /// <summary>When the queue was archived. Archived queues are hidden but keep their history.</summary>
+    public DateTimeOffset? ArchivedAt { get; private set; }
+
+    public bool IsArchived => ArchivedAt.HasValue;
+
     /// <summary>Foreign key to parent business.</summary>
     public Guid BusinessId { get; private init; }
 
@@ -32,6 +46,21 @@ public sealed class Queue : Entity
     /// <summary>Concurrency token for optimistic concurrency.</summary>
     public byte[] RowVersion { get; private set; } = [];
 
+    /// <summary>
+    /// Monotonically increasing version, bumped by every change clients can observe.
+    /// Sent with real-time updates so clients can detect missed events and resync.
+    /// </summary>
+    public long Version { get; private set; }
+
+    /// <summary>
+    /// How long a serve, no-show or remove can be undone.
+    /// Longer than the dashboard's undo prompt to allow for slow connections.
+    /// </summary>
+    public static readonly TimeSpan UndoWindow = TimeSpan.FromSeconds(30);
+
+    /// <summary>Most people a waiting customer can let go ahead of them at once.</summary>
+    public const int MaxLetAhead = 3;
+
     /// <summary>When the queue was created.</summary>
     public DateTimeOffset CreatedAt { get; private init; }
 
@@ -79,7 +108,8 @@ public sealed class Queue : Entity
         DateTimeOffset joinedAt,
         string? phoneNumber = null,
         int? partySize = null,
-        string? notes = null)
+        string? notes = null,
+        IReadOnlyList<JoinAnswer>? joinAnswers = null)
     {
         if (string.IsNullOrWhiteSpace(name) || name.Length > 100)
             return DomainErrors.Customer.InvalidName;
@@ -87,48 +117,54 @@ public sealed class Queue : Entity
         if (!IsActive)
             return DomainErrors.Queue.NotActive;
 
+        if (IsPaused && !Settings.AllowJoinWhenPaused)
+            return DomainErrors.Queue.Paused;
+
         if (Settings.MaxQueueSize.HasValue && GetWaitingCount() >= Settings.MaxQueueSize.Value)
-            return new Error("Queue.Full", "Queue has reached maximum capacity.");
+            return DomainErrors.Queue.Full;
 
         var joinPosition = _customers.Count + 1;
         var customer = QueueCustomer.Create(
             Id,
             name.Trim(),
             joinPosition,
+            GetNextSortOrder(),
             joinedAt,
             phoneNumber,
             partySize,
-            notes);
+            notes,
+            joinAnswers);
 
         _customers.Add(customer);
+        IncrementVersion();
         return customer;
     }
 
     /// <summary>
-    /// Calls the next waiting customer.
+    /// Calls the next waiting customer, recording which staff member did it when known.
     /// </summary>
-    public Result<QueueCustomer> CallNext(DateTimeOffset calledAt)
+    public Result<QueueCustomer> CallNext(DateTimeOffset calledAt, Guid? staffUserId = null)
     {
         if (!IsActive)
             return DomainErrors.Queue.NotActive;
 
-        var nextCustomer = _customers
-            .Where(c => c.Status == CustomerStatus.Waiting)
-            .OrderBy(c => c.JoinedAt)
-            .ThenBy(c => c.JoinPosition)
-            .FirstOrDefault();
+        if (IsPaused)
+            return DomainErrors.Queue.Paused;
+
+        var nextCustomer = GetWaitingInLine().FirstOrDefault();
 
         if (nextCustomer is null)
             return DomainErrors.Queue.Empty;
 
-        nextCustomer.MarkAsCalled(calledAt);
+        nextCustomer.MarkAsCalled(calledAt, staffUserId);
+        IncrementVersion();
         return nextCustomer;
     }
 
     /// <summary>
     /// Marks a customer as served (completed).
     /// </summary>
-    public Result MarkCustomerServed(Guid customerId, DateTimeOffset servedAt)
+    public Result MarkCustomerServed(Guid customerId, DateTimeOffset servedAt, Guid? staffUserId = null)
     {
         var customer = _customers.Find(c => c.Id == customerId);
         if (customer is null)
@@ -137,14 +173,15 @@ public sealed class Queue : Entity
         if (customer.Status != CustomerStatus.Called)
             return DomainErrors.Customer.NotWaiting;
 
-        customer.MarkAsServed(servedAt);
+        customer.MarkAsServed(servedAt, staffUserId);
+        IncrementVersion();
         return Result.Success();
     }
 
     /// <summary>
-    /// Marks a customer as no-show.
+    /// Marks a customer as no-show. No staff member for automatic no-shows.
     /// </summary>
-    public Result MarkCustomerNoShow(Guid customerId, DateTimeOffset timestamp)
+    public Result MarkCustomerNoShow(Guid customerId, DateTimeOffset timestamp, Guid? staffUserId = null)
     {
         var customer = _customers.Find(c => c.Id == customerId);
         if (customer is null)
@@ -153,14 +190,15 @@ public sealed class Queue : Entity
         if (customer.Status != CustomerStatus.Called)
             return new Error("Customer.NotCalled", "Can only mark called customers as no-show.");
 
-        customer.MarkAsNoShow(timestamp);
+        customer.MarkAsNoShow(timestamp, staffUserId);
+        IncrementVersion();
         return Result.Success();
     }
 
     /// <summary>
     /// Removes a customer from the queue.
     /// </summary>
-    public Result RemoveCustomer(Guid customerId)
+    public Result RemoveCustomer(Guid customerId, DateTimeOffset removedAt)
     {
         var customer = _customers.Find(c => c.Id == customerId);
         if (customer is null)
@@ -169,21 +207,206 @@ public sealed class Queue : Entity
         if (customer.Status is CustomerStatus.Served or CustomerStatus.NoShow)
             return new Error("Customer.AlreadyCompleted", "Cannot remove a customer who has already been served.");
 
-        customer.MarkAsRemoved();
+        customer.MarkAsRemoved(removedAt);
+        IncrementVersion();
+        return Result.Success();
+    }
+
+    /// <summary>
+    /// Takes a waiting or called customer out of the queue at their own request.
+    /// Recorded like a staff removal, so staff can still undo it.
+    /// </summary>
+    public Result LeaveQueue(Guid customerId, DateTimeOffset leftAt)
+    {
+        var customer = _customers.Find(c => c.Id == customerId);
+        if (customer is null)
+            return DomainErrors.Queue.CustomerNotFound(customerId);
+
+        if (customer.Status is not (CustomerStatus.Waiting or CustomerStatus.Called))
+            return DomainErrors.Customer.NotInQueue;
+
+        customer.MarkAsRemoved(leftAt);
+        IncrementVersion();
+        return Result.Success();
+    }
+
+    /// <summary>
+    /// Lets up to <see cref="MaxLetAhead"/> people behind a waiting customer go ahead of them,
+    /// e.g. when they're running late. Returns the customer's new position.
+    /// </summary>
+    public Result<int> LetOthersAhead(Guid customerId, int places)
+    {
+        var customer = _customers.Find(c => c.Id == customerId);
+        if (customer is null)
+            return DomainErrors.Queue.CustomerNotFound(customerId);
+
+        if (customer.Status != CustomerStatus.Waiting)
+            return DomainErrors.Customer.NotWaiting;
+
+        if (places is < 1 or > MaxLetAhead)
+            return DomainErrors.Customer.InvalidLetAhead;
+
+        var position = GetCustomerPosition(customerId)!.Value;
+        if (position == GetWaitingCount())
+            return DomainErrors.Customer.NobodyBehind;
+
+        PlaceInLine(customer, position + places);
+        IncrementVersion();
+        return GetCustomerPosition(customerId)!.Value;
+    }
+
+    /// <summary>
+    /// Records that a called customer is on their way, so staff know to wait for them.
+    /// Saying so again changes nothing.
+    /// </summary>
+    public Result<QueueCustomer> AcknowledgeCall(Guid customerId, DateTimeOffset now)
+    {
+        var customer = _customers.Find(c => c.Id == customerId);
+        if (customer is null)
+            return DomainErrors.Queue.CustomerNotFound(customerId);
+
+        if (customer.Status != CustomerStatus.Called)
+            return DomainErrors.Customer.NotCalled;
+
+        if (customer.OnTheWayAt is null)
+        {
+            customer.MarkOnTheWay(now);
+            IncrementVersion();
+        }
+
+        return customer;
+    }
+
+    /// <summary>
+    /// Undoes a customer's last serve, no-show or remove, restoring their prior status.
+    /// Only allowed within <see cref="UndoWindow"/> of the change.
+    /// </summary>
+    public Result UndoCustomerTransition(Guid customerId, DateTimeOffset now)
+    {
+        var customer = _customers.Find(c => c.Id == customerId);
+        if (customer is null)
+            return DomainErrors.Queue.CustomerNotFound(customerId);
+
+        if (customer.Status is not (CustomerStatus.Served or CustomerStatus.NoShow or CustomerStatus.Removed)
+            || customer.PreviousStatus is null
+            || customer.StatusChangedAt is null)
+            return DomainErrors.Customer.NothingToUndo;
+
+        if (now - customer.StatusChangedAt.Value > UndoWindow)
+            return DomainErrors.Customer.UndoExpired;
+
+        customer.RevertLastTransition();
+        IncrementVersion();
         return Result.Success();
     }
 
+    /// <summary>
+    /// Calls a customer again who was already called, e.g. because they didn't come up.
+    /// Their call restarts at the given time, giving them the full no-show timeout again.
+    /// The caller re-sends the notification.
+    /// </summary>
+    public Result<QueueCustomer> RecallCustomer(Guid customerId, DateTimeOffset recalledAt)
+    {
+        var customer = _customers.Find(c => c.Id == customerId);
+        if (customer is null)
+            return DomainErrors.Queue.CustomerNotFound(customerId);
+
+        if (customer.Status != CustomerStatus.Called)
+            return DomainErrors.Customer.NotCalled;
+
+        customer.MarkRecalled(recalledAt);
+        IncrementVersion();
+        return customer;
+    }
+
+    /// <summary>
+    /// Sends a called customer back to the waiting line at the given position (1-based).
+    /// Positions past the end of the line put them at the back.
+    /// </summary>
+    public Result<QueueCustomer> RequeueCustomer(Guid customerId, int position)
+    {
+        var customer = _customers.Find(c => c.Id == customerId);
+        if (customer is null)
+            return DomainErrors.Queue.CustomerNotFound(customerId);
+
+        if (customer.Status != CustomerStatus.Called)
+            return DomainErrors.Customer.NotCalled;
+
+        if (position < 1)
+            return DomainErrors.Customer.InvalidPosition;
+
+        customer.ReturnToWaiting();
+        PlaceInLine(customer, position);
+        IncrementVersion();
+        return customer;
+    }
+
+    /// <summary>
+    /// Moves a waiting customer to another position in line (1-based), e.g. for VIPs or to fix a mistake.
+    /// Positions past the end of the line put them at the back.
+    /// </summary>
+    public Result MoveCustomer(Guid customerId, int position)
+    {
+        var customer = _customers.Find(c => c.Id == customerId);
+        if (customer is null)
+            return DomainErrors.Queue.CustomerNotFound(customerId);
+
+        if (customer.Status != CustomerStatus.Waiting)
+            return DomainErrors.Customer.NotWaiting;
+
+        if (position < 1)
+            return DomainErrors.Customer.InvalidPosition;
+
+        if (GetCustomerPosition(customerId) == Math.Min(position, GetWaitingCount()))
+            return Result.Success();
+
+        PlaceInLine(customer, position);
+        IncrementVersion();
+        return Result.Success();
+    }
+
+    /// <summary>
+    /// Moves a waiting or called customer to another queue of the same business.
+    /// The customer keeps their token, so their page keeps working, and waits again in the new queue.
+    /// </summary>
+    public Result<QueueCustomer> TransferCustomer(Guid customerId, Queue target, TransferPlacement placement)
+    {
+        var customer = _customers.Find(c => c.Id == customerId);
+        if (customer is null)
+            return DomainErrors.Queue.CustomerNotFound(customerId);
+
+        if (target.Id == Id)
+            return DomainErrors.Queue.SameQueue;
+
+        if (target.BusinessId != BusinessId)
+            return DomainErrors.Queue.DifferentBusiness;
+
+        if (customer.Status is not (CustomerStatus.Waiting or CustomerStatus.Called))
+            return DomainErrors.Customer.NotInLine;
+
+        if (!target.IsActive)
+            return DomainErrors.Queue.NotActive;
+
+        if (target.Settings.MaxQueueSize.HasValue && target.GetWaitingCount() >= target.Settings.MaxQueueSize.Value)
+            return DomainErrors.Queue.Full;
+
+        if (customer.Status == CustomerStatus.Called)
+            customer.ReturnToWaiting();
+
+        _customers.Remove(customer);
+        IncrementVersion();
+
+        target.AcceptTransfer(customer, placement);
+        return customer;
+    }
+
     /// <summary>
     /// Gets the current position of a customer (1-based).
     /// Returns null if customer is not waiting.
     /// </summary>
     public int? GetCustomerPosition(Guid customerId)
     {
-        var waitingCustomers = _customers
-            .Where(c => c.Status == CustomerStatus.Waiting)
-            .OrderBy(c => c.JoinedAt)
-            .ThenBy(c => c.JoinPosition) // Secondary sort for stable ordering
-            .ToList();
+        var waitingCustomers = GetWaitingInLine().ToList();
 
         var index = waitingCustomers.FindIndex(c => c.Id == customerId);
         return index >= 0 ? index + 1 : null;
@@ -194,33 +417,179 @@ public sealed class Queue : Entity
     /// </summary>
     public IReadOnlyList<(Guid CustomerId, int NewPosition)> GetUpdatedPositions()
     {
-        return _customers
-            .Where(c => c.Status == CustomerStatus.Waiting)
-            .OrderBy(c => c.JoinedAt)
-            .ThenBy(c => c.JoinPosition)
+        return GetWaitingInLine()
             .Select((c, index) => (c.Id, NewPosition: index + 1))
             .ToList();
     }
 
+    /// <summary>
+    /// Wait estimates for everyone waiting, in line order, learned from recent service times.
+    /// </summary>
+    public IReadOnlyList<(Guid CustomerId, int Position, WaitEstimate EstimatedWait)> GetWaitEstimates(DateTimeOffset now)
+    {
+        var waiting = GetWaitingInLine().ToList();
+        var estimates = CreateWaitTimeEstimator(now).EstimateLine(waiting, GetBeingServed(), now);
+
+        return waiting
+            .Select((c, index) => (c.Id, index + 1, estimates[index]))
+            .ToList();
+    }
+
+    /// <summary>
+    /// Wait estimate for someone joining the back of the line now.
+    /// </summary>
+    public WaitEstimate EstimateWaitToJoin(DateTimeOffset now) =>
+        CreateWaitTimeEstimator(now).EstimateToJoin(GetWaitingInLine().ToList(), GetBeingServed(), now);
+
     /// <summary>
     /// Gets number of customers currently waiting.
     /// </summary>
     public int GetWaitingCount() => _customers.Count(c => c.Status == CustomerStatus.Waiting);
 
+    /// <summary>
+    /// Whether anyone is still waiting or has been called.
+    /// </summary>
+    public bool HasCustomersInLine() =>
+        _customers.Any(c => c.Status is CustomerStatus.Waiting or CustomerStatus.Called);
+
     /// <summary>
     /// Gets number of customers served in a time window.
     /// </summary>
     public int GetServedCount(DateTimeOffset since) =>
         _customers.Count(c => c.Status == CustomerStatus.Served && c.ServedAt >= since);
 
-    public void Activate() => IsActive = true;
-    public void Deactivate() => IsActive = false;
-    public void Pause() => IsPaused = true;
-    public void Resume() => IsPaused = false;
+    public void Activate() => SetActive(true);
+    public void Deactivate() => SetActive(false);
+    public void Pause() => SetPaused(true);
+    public void Resume() => SetPaused(false);
+
+    private void SetActive(bool isActive)
+    {
+        if (IsActive == isActive)
+            return;
+
+        IsActive = isActive;
+        // A schedule only makes sense for an open queue
+        if (!isActive)
+            AutoCloseAt = null;
+        IncrementVersion();
+    }
+
+    private void SetPaused(bool isPaused)
+    {
+        if (IsPaused == isPaused)
+            return;
+
+        IsPaused = isPaused;
+        IncrementVersion();
+    }
+
+    /// <summary>
+    /// Schedules the queue to close itself at the given time, or clears the schedule when null.
+    /// </summary>
+    public Result ScheduleAutoClose(DateTimeOffset? closesAt, DateTimeOffset now)
+    {
+        if (closesAt.HasValue)
+        {
+            if (!IsActive)
+                return DomainErrors.Queue.NotActive;
+
+            if (closesAt.Value <= now)
+                return DomainErrors.Queue.AutoCloseInPast;
+        }
+
+        AutoCloseAt = closesAt;
+        IncrementVersion();
+        return Result.Success();
+    }
+
+    /// <summary>
+    /// Closes the queue if its scheduled closing time has passed.
+    /// Returns whether it was closed.
+    /// </summary>
+    public bool CloseIfDue(DateTimeOffset now)
+    {
+        if (!IsActive || AutoCloseAt is null || AutoCloseAt > now)
+            return false;
+
+        Deactivate();
+        return true;
+    }
+
+    /// <summary>
+    /// Sets the hours customers can join in, or clears them when null.
+    /// </summary>
+    public void SetOperatingHours(OperatingHours? operatingHours)
+    {
+        OperatingHours = operatingHours;
+        IncrementVersion();
+    }
+
+    /// <summary>
+    /// Whether the queue is within its operating hours and taking joins.
+    /// Says nothing about staff opening, closing or pausing it.
+    /// </summary>
+    public OpeningStatus GetOpeningStatus(DateTimeOffset now) =>
+        OperatingHours?.GetStatus(now) ?? OpeningStatus.AlwaysOpen;
+
+    /// <summary>
+    /// Takes everyone still waiting since before the queue last closed off the list,
+    /// so nobody waits overnight for a queue that won't call them. Returns who was removed.
+    /// </summary>
+    public IReadOnlyList<QueueCustomer> RemoveCustomersLeftAtClosing(DateTimeOffset now)
+    {
+        if (OperatingHours?.GetLastClosedAt(now) is not { } closedAt)
+            return [];
+
+        var leftOver = _customers
+            .Where(c => c.Status == CustomerStatus.Waiting && c.JoinedAt < closedAt)
+            .ToList();
+
+        if (leftOver.Count == 0)
+            return [];
+
+        foreach (var customer in leftOver)
+            customer.MarkAsRemoved(now);
+
+        IncrementVersion();
+        return leftOver;
+    }
+
+    /// <summary>
+    /// Archives the queue, closing it for good. Refused while customers are still in line.
+    /// </summary>
+    public Result Archive(DateTimeOffset now)
+    {
+        if (IsArchived)
+            return Result.Success();
+
+        if (HasCustomersInLine())
+            return DomainErrors.Queue.HasCustomersInLine;
+
+        Deactivate();
+        ArchivedAt = now;
+        IncrementVersion();
+        return Result.Success();
+    }
+
+    /// <summary>
+    /// Brings an archived queue back. It stays closed until staff open it.
+    /// </summary>
+    public void Unarchive()
+    {
+        if (!IsArchived)
+            return;
+
+        ArchivedAt = null;
+        IncrementVersion();
+    }
+
+    public void SetDisplayOrder(int displayOrder) => DisplayOrder = displayOrder;
 
     public void UpdateSettings(QueueSettings settings)
     {
         Settings = settings ?? throw new ArgumentNullException(nameof(settings));
+        IncrementVersion();
     }
 
     public void Rename(string name)
@@ -228,6 +597,7 @@ public sealed class Queue : Entity
         if (string.IsNullOrWhiteSpace(name))
             throw new ArgumentException("Queue name is required", nameof(name));
         Name = name;
+        IncrementVersion();
     }
 
     public void UpdateSlug(string slug)
@@ -270,4 +640,49 @@ public sealed class Queue : Entity
         customer.MarkNearFrontNotified(timestamp);
         return Result.Success();
     }
+
+    private void AcceptTransfer(QueueCustomer customer, TransferPlacement placement)
+    {
+        var position = placement == TransferPlacement.ByJoinTime
+            ? GetWaitingInLine().Count(c => c.JoinedAt <= customer.JoinedAt) + 1
+            : int.MaxValue;
+
+        customer.MoveToQueue(Id);
+        _customers.Add(customer);
+        PlaceInLine(customer, position);
+        IncrementVersion();
+    }
+
+    private WaitTimeEstimator CreateWaitTimeEstimator(DateTimeOffset now) =>
+        WaitTimeEstimator.FromHistory(_customers, Settings.EstimatedServiceTimeMinutes, now);
+
+    private IEnumerable<QueueCustomer> GetBeingServed() =>
+        _customers.Where(c => c.Status == CustomerStatus.Called);
+
+    private int GetNextSortOrder() => _customers.Count == 0 ? 1 : _customers.Max(c => c.SortOrder) + 1;
+
+    /// <summary>
+    /// Waiting customers in the order they'll be called.
+    /// </summary>
+    private IEnumerable<QueueCustomer> GetWaitingInLine() =>
+        _customers
+            .Where(c => c.Status == CustomerStatus.Waiting)
+            .OrderBy(c => c.SortOrder)
+            .ThenBy(c => c.JoinedAt)
+            .ThenBy(c => c.JoinPosition); // Secondary sorts for stable ordering
+
+    /// <summary>
+    /// Puts a waiting customer at the given position and renumbers the line. New joiners
+    /// still go to the back, since their sort order is always past everyone else's.
+    /// </summary>
+    private void PlaceInLine(QueueCustomer customer, int position)
+    {
+        var line = GetWaitingInLine().Where(c => c.Id != customer.Id).ToList();
+        line.Insert(Math.Min(position - 1, line.Count), customer);
+
+        for (var i = 0; i < line.Count; i++)
+            line[i].MoveInLine(i + 1);
+    }
+
+    private void IncrementVersion() => Version++;
 }
@@ -0,0 +1,68 @@
+using QueueDrop.Domain.Common;
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Domain.Entities;
+
+/// <summary>
+/// One thing that happened in a queue: who did what, when and from which device.
+/// Entries are never changed once written, so the history still answers
+/// "was I skipped?" after the customer has left the queue.
+/// </summary>
+public sealed class QueueAuditEntry : Entity
+{
+    public const int MaxDeviceLength = 256;
+    public const int MaxDetailsLength = 500;
+
+    public Guid QueueId { get; private init; }
+    public QueueAuditAction Action { get; private init; }
+    public DateTimeOffset OccurredAt { get; private init; }
+
+    /// <summary>Null when the customer did it themselves or the system did (e.g. auto no-show).</summary>
+    public Guid? ActorUserId { get; private init; }
+
+    /// <summary>User agent of the device the action came from; null for system actions.</summary>
+    public string? Device { get; private init; }
+
+    public Guid? CustomerId { get; private init; }
+
+    /// <summary>Copied so the entry still reads well if the customer's data is cleaned up.</summary>
+    public string? CustomerName { get; private init; }
+
+    /// <summary>What changed, in words (e.g. "Moved to position 3").</summary>
+    public string? Details { get; private init; }
+
+    // EF Core constructor
+    private QueueAuditEntry() { }
+
+    public static QueueAuditEntry Record(
+        Guid queueId,
+        QueueAuditAction action,
+        DateTimeOffset occurredAt,
+        Guid? actorUserId,
+        string? device,
+        QueueCustomer? customer = null,
+        string? details = null)
+    {
+        return new QueueAuditEntry
+        {
+            Id = Guid.NewGuid(),
+            QueueId = queueId,
+            Action = action,
+            OccurredAt = occurredAt,
+            ActorUserId = actorUserId,
+            Device = Truncate(device, MaxDeviceLength),
+            CustomerId = customer?.Id,
+            CustomerName = customer?.Name,
+            Details = Truncate(details, MaxDetailsLength)
+        };
+    }
+
+    private static string? Truncate(string? value, int maxLength)
+    {
+        if (string.IsNullOrWhiteSpace(value))
+            return null;
+
+        var trimmed = value.Trim();
+        return trimmed.Length > maxLength ? trimmed[..maxLength] : trimmed;
+    }
+}
@@ -21,6 +21,12 @@ public sealed class QueueCustomer : Entity
     /// <summary>Position when customer joined (1-based, for historical reference).</summary>
     public int JoinPosition { get; private init; }
 
+    /// <summary>
+    /// Place in the waiting line - lower goes first. Starts past everyone already in the queue
+    /// and changes when staff move a customer or send them back to a chosen spot.
+    /// </summary>
+    public int SortOrder { get; private set; }
+
     /// <summary>When the customer joined the queue.</summary>
     public DateTimeOffset JoinedAt { get; private init; }
 
@@ -30,8 +36,23 @@ public sealed class QueueCustomer : Entity
     /// <summary>When the customer was served/completed (null if not yet served).</summary>
     public DateTimeOffset? ServedAt { get; private set; }
 
-    /// <summary>Foreign key to parent queue.</summary>
-    public Guid QueueId { get; private init; }
+    /// <summary>When the customer said they're on their way after being called. Null until then.</summary>
+    public DateTimeOffset? OnTheWayAt { get; private set; }
+
+    /// <summary>Staff member who called the customer. Null when called before this was recorded.</summary>
+    public Guid? CalledByUserId { get; private set; }
+
+    /// <summary>Staff member who marked the customer served or no-show. Null for automatic no-shows.</summary>
+    public Guid? CompletedByUserId { get; private set; }
+
+    /// <summary>Status before the last staff transition (serve, no-show, remove), kept so it can be undone.</summary>
+    public CustomerStatus? PreviousStatus { get; private set; }
+
+    /// <summary>When the status last changed through a transition that can be undone.</summary>
+    public DateTimeOffset? StatusChangedAt { get; private set; }
+
+    /// <summary>Foreign key to parent queue. Changes when the customer is transferred.</summary>
+    public Guid QueueId { get; private set; }
 
     /// <summary>Optional phone number for notifications.</summary>
     public string? PhoneNumber { get; private init; }
@@ -42,6 +63,9 @@ public sealed class QueueCustomer : Entity
     /// <summary>Optional notes from customer.</summary>
     public string? Notes { get; private init; }
 
+    /// <summary>Answers to the queue's custom join questions, in the order they were asked.</summary>
+    public IReadOnlyList<JoinAnswer> JoinAnswers { get; private init; } = [];
+
     /// <summary>Serialized Web Push subscription (JSON) for notifications.</summary>
     public string? PushSubscription { get; private set; }
 
@@ -63,10 +87,12 @@ public sealed class QueueCustomer : Entity
         Guid queueId,
         string name,
         int joinPosition,
+        int sortOrder,
         DateTimeOffset joinedAt,
         string? phoneNumber = null,
         int? partySize = null,
-        string? notes = null)
+        string? notes = null,
+        IReadOnlyList<JoinAnswer>? joinAnswers = null)
     {
         return new QueueCustomer
         {
@@ -76,48 +102,119 @@ public sealed class QueueCustomer : Entity
             Name = name,
             Status = CustomerStatus.Waiting,
             JoinPosition = joinPosition,
+            SortOrder = sortOrder,
             JoinedAt = joinedAt,
             PhoneNumber = phoneNumber,
             PartySize = partySize,
-            Notes = notes
+            Notes = notes,
+            JoinAnswers = joinAnswers ?? []
         };
     }
 
-    internal void MarkAsCalled(DateTimeOffset calledAt)
+    internal void MarkAsCalled(DateTimeOffset calledAt, Guid? staffUserId)
     {
         if (Status != CustomerStatus.Waiting)
             throw new InvalidOperationException($"Cannot call customer with status {Status}");
 
         Status = CustomerStatus.Called;
         CalledAt = calledAt;
+        CalledByUserId = staffUserId;
+    }
+
+    internal void MarkOnTheWay(DateTimeOffset timestamp)
+    {
+        if (Status != CustomerStatus.Called)
+            throw new InvalidOperationException($"Cannot mark customer with status {Status} as on the way");
+
+        OnTheWayAt = timestamp;
+    }
+
+    /// <summary>
+    /// Calls an already called customer again. The call counts from now, so the no-show
+    /// timeout starts over and an earlier "on my way" no longer answers it.
+    /// </summary>
+    internal void MarkRecalled(DateTimeOffset recalledAt)
+    {
+        if (Status != CustomerStatus.Called)
+            throw new InvalidOperationException($"Cannot recall customer with status {Status}");
+
+        CalledAt = recalledAt;
+        OnTheWayAt = null;
     }
 
-    internal void MarkAsServed(DateTimeOffset servedAt)
+    /// <summary>
+    /// Puts a called customer back in the waiting line, e.g. after they stepped away.
+    /// The caller is responsible for giving them a place in line.
+    /// </summary>
+    internal void ReturnToWaiting()
+    {
+        if (Status != CustomerStatus.Called)
+            throw new InvalidOperationException($"Cannot return customer with status {Status} to waiting");
+
+        Status = CustomerStatus.Waiting;
+        CalledAt = null;
+        CalledByUserId = null;
+        OnTheWayAt = null;
+        NearFrontNotifiedAt = null;
+    }
+
+    internal void MoveInLine(int sortOrder) => SortOrder = sortOrder;
+
+    internal void MoveToQueue(Guid queueId) => QueueId = queueId;
+
+    internal void MarkAsServed(DateTimeOffset servedAt, Guid? staffUserId)
     {
         if (Status != CustomerStatus.Called)
             throw new InvalidOperationException($"Cannot mark customer as served with status {Status}");
 
+        RecordTransition(servedAt);
         Status = CustomerStatus.Served;
         ServedAt = servedAt;
+        CompletedByUserId = staffUserId;
     }
 
-    internal void MarkAsNoShow(DateTimeOffset timestamp)
+    internal void MarkAsNoShow(DateTimeOffset timestamp, Guid? staffUserId)
     {
         if (Status != CustomerStatus.Called)
             throw new InvalidOperationException($"Cannot mark customer as no-show with status {Status}");
 
+        RecordTransition(timestamp);
         Status = CustomerStatus.NoShow;
         ServedAt = timestamp;
+        CompletedByUserId = staffUserId;
     }
 
-    internal void MarkAsRemoved()
+    internal void MarkAsRemoved(DateTimeOffset timestamp)
     {
         if (Status is CustomerStatus.Served or CustomerStatus.NoShow)
             throw new InvalidOperationException($"Cannot remove customer with status {Status}");
 
+        RecordTransition(timestamp);
         Status = CustomerStatus.Removed;
     }
 
+    /// <summary>
+    /// Restores the status from before the last serve, no-show or remove.
+    /// Waiting customers get their place back, since their sort order is left untouched.
+    /// </summary>
+    internal void RevertLastTransition()
+    {
+        if (PreviousStatus is not { } previousStatus)
+            throw new InvalidOperationException($"Customer with status {Status} has no transition to revert");
+
+        Status = previousStatus;
+        ServedAt = null;
+        CompletedByUserId = null;
+        PreviousStatus = null;
+        StatusChangedAt = null;
+    }
+
+    private void RecordTransition(DateTimeOffset timestamp)
+    {
+        PreviousStatus = Status;
+        StatusChangedAt = timestamp;
+    }
+
     private static string GenerateToken()
     {
         // Generate URL-safe token: 8 random bytes = 11 base64 chars (trimmed)
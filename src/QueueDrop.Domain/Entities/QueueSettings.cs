@@ -9,7 +9,10 @@ public sealed record QueueSettings
     /// <summary>Maximum customers allowed in queue. Null means unlimited.</summary>
     public int? MaxQueueSize { get; init; }
 
-    /// <summary>Estimated service time per customer in minutes.</summary>
+    /// <summary>
+    /// Estimated service time per customer in minutes.
+    /// Wait estimates use it until the queue has served enough customers to learn from.
+    /// </summary>
     public int EstimatedServiceTimeMinutes { get; init; } = 5;
 
     /// <summary>Whether to allow customers to join when queue is paused.</summary>
@@ -27,5 +30,8 @@ public sealed record QueueSettings
     /// <summary>Position at which to send "almost your turn" notification. Null means disabled.</summary>
     public int? NearFrontThreshold { get; init; }
 
+    /// <summary>Extra questions customers answer when they join, in the order they're asked.</summary>
+    public IReadOnlyList<JoinField> JoinFields { get; init; } = [];
+
     public static QueueSettings Default => new();
 }
@@ -0,0 +1,33 @@
+using QueueDrop.Domain.Common;
+
+namespace QueueDrop.Domain.Entities;
+
+/// <summary>
+/// Keeps an old queue slug pointing at its queue after a rename,
+/// so printed QR codes and shared join links keep working.
+/// </summary>
+public sealed class QueueSlugRedirect : Entity
+{
+    public Guid BusinessId { get; private init; }
+    public string Slug { get; private init; } = null!;
+    public Guid QueueId { get; private init; }
+    public DateTimeOffset CreatedAt { get; private init; }
+
+    // EF Core constructor
+    private QueueSlugRedirect() { }
+
+    public static QueueSlugRedirect Create(Guid businessId, string slug, Guid queueId, DateTimeOffset createdAt)
+    {
+        if (string.IsNullOrWhiteSpace(slug))
+            throw new ArgumentException("Slug is required", nameof(slug));
+
+        return new QueueSlugRedirect
+        {
+            Id = Guid.NewGuid(),
+            BusinessId = businessId,
+            Slug = slug,
+            QueueId = queueId,
+            CreatedAt = createdAt
+        };
+    }
+}
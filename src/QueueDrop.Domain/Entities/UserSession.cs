@@ -0,0 +1,91 @@
+using System.Security.Cryptography;
+using System.Text;
+using QueueDrop.Domain.Common;
+
+namespace QueueDrop.Domain.Entities;
+
+/// <summary>
+/// A signed-in device. Holds the refresh token (hashed) that lets the device get new access tokens
+/// until the session expires or is revoked.
+/// </summary>
+public sealed class UserSession : Entity
+{
+    public const int MaxDeviceLength = 256;
+
+    public Guid UserId { get; private init; }
+
+    /// <summary>SHA-256 of the current refresh token. Rotated on every refresh.</summary>
+    public string RefreshTokenHash { get; private set; } = null!;
+
+    /// <summary>User agent of the device that signed in, for the sessions list.</summary>
+    public string Device { get; private init; } = null!;
+
+    public DateTimeOffset CreatedAt { get; private init; }
+    public DateTimeOffset LastUsedAt { get; private set; }
+
+    /// <summary>Fixed at sign-in - refreshing doesn't extend it, so shared devices have to sign in again.</summary>
+    public DateTimeOffset ExpiresAt { get; private init; }
+
+    public DateTimeOffset? RevokedAt { get; private set; }
+
+    // EF Core constructor
+    private UserSession() { }
+
+    /// <summary>
+    /// Starts a session. The plain refresh token is only available here and from <see cref="Rotate"/>.
+    /// </summary>
+    public static UserSession Start(
+        Guid userId,
+        string? device,
+        DateTimeOffset now,
+        TimeSpan lifetime,
+        out string refreshToken)
+    {
+        refreshToken = GenerateToken();
+
+        var trimmed = string.IsNullOrWhiteSpace(device) ? "Unknown device" : device.Trim();
+
+        return new UserSession
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            RefreshTokenHash = HashToken(refreshToken),
+            Device = trimmed.Length > MaxDeviceLength ? trimmed[..MaxDeviceLength] : trimmed,
+            CreatedAt = now,
+            LastUsedAt = now,
+            ExpiresAt = now.Add(lifetime)
+        };
+    }
+
+    public bool IsActive(DateTimeOffset now) => RevokedAt is null && now < ExpiresAt;
+
+    /// <summary>
+    /// Replaces the refresh token, so a copied old one stops working.
+    /// </summary>
+    public string Rotate(DateTimeOffset now)
+    {
+        if (!IsActive(now))
+            throw new InvalidOperationException("Session is no longer active");
+
+        var refreshToken = GenerateToken();
+        RefreshTokenHash = HashToken(refreshToken);
+        LastUsedAt = now;
+        return refreshToken;
+    }
+
+    public void Revoke(DateTimeOffset now)
+    {
+        RevokedAt ??= now;
+    }
+
+    /// <summary>Sessions are looked up by the hash; the plain token is never stored.</summary>
+    public static string HashToken(string refreshToken)
+    {
+        return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(refreshToken))).ToLowerInvariant();
+    }
+
+    private static string GenerateToken()
+    {
+        return Convert.ToHexString(RandomNumberGenerator.GetBytes(32)).ToLowerInvariant();
+    }
+}
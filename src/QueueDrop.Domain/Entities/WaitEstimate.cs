@@ -0,0 +1,13 @@
+namespace QueueDrop.Domain.Entities;
+
+/// <summary>
+/// Value object: how long a customer can expect to wait, as a range of whole minutes
+/// (e.g. 12-18) rather than a single figure that is bound to be wrong.
+/// </summary>
+public sealed record WaitEstimate(int MinMinutes, int MaxMinutes)
+{
+    public static readonly WaitEstimate None = new(0, 0);
+
+    /// <summary>Middle of the range, for places that show a single figure.</summary>
+    public int MidMinutes => (int)Math.Round((MinMinutes + MaxMinutes) / 2.0, MidpointRounding.AwayFromZero);
+}
@@ -0,0 +1,157 @@
+using QueueDrop.Domain.Enums;
+
+namespace QueueDrop.Domain.Entities;
+
+/// <summary>
+/// Learns how long serving a customer takes from a queue's recent history and turns it
+/// into wait estimates for the people in line.
+/// Prefers customers served around the same time of day (lunch is slower than mid-afternoon),
+/// allows extra time for bigger parties and divides the work between the staff currently
+/// calling customers. Falls back to the queue's configured service time until there is
+/// enough history.
+/// </summary>
+public sealed class WaitTimeEstimator
+{
+    /// <summary>Fewer served customers than this and the configured service time is used.</summary>
+    public const int MinSamples = 5;
+
+    /// <summary>How many of the most recent services the rolling average covers.</summary>
+    public const int RollingWindow = 30;
+
+    /// <summary>Extra service time for each person in a party beyond the first, as a share of one person's.</summary>
+    public const double ExtraPersonFactor = 0.25;
+
+    private static readonly TimeSpan HistoryWindow = TimeSpan.FromDays(14);
+    private static readonly TimeSpan StaffingWindow = TimeSpan.FromHours(1);
+
+    // Longer than this and staff most likely forgot to mark the customer served
+    private static readonly TimeSpan MaxServiceTime = TimeSpan.FromHours(2);
+
+    // How far the range reaches either side of the estimate, as a share of it
+    private const double MinSpread = 0.1;
+    private const double MaxSpread = 0.5;
+    private const double FallbackSpread = 0.3;
+
+    private WaitTimeEstimator(double serviceMinutes, double variation, int servers, bool isLearned)
+    {
+        ServiceMinutes = serviceMinutes;
+        Variation = variation;
+        Servers = servers;
+        IsLearned = isLearned;
+    }
+
+    /// <summary>Typical minutes to serve a party of one.</summary>
+    public double ServiceMinutes { get; }
+
+    /// <summary>How much service times vary (standard deviation over the mean); 0 when they don't.</summary>
+    public double Variation { get; }
+
+    /// <summary>Staff serving customers in parallel - at least one.</summary>
+    public int Servers { get; }
+
+    /// <summary>Whether the figures come from history rather than the configured service time.</summary>
+    public bool IsLearned { get; }
+
+    public static WaitTimeEstimator FromHistory(
+        IEnumerable<QueueCustomer> customers,
+        int configuredServiceMinutes,
+        DateTimeOffset now)
+    {
+        var all = customers.ToList();
+
+        var samples = all
+            .Where(c => c.Status == CustomerStatus.Served && c.CalledAt.HasValue && c.ServedAt.HasValue)
+            .Where(c => c.ServedAt >= now - HistoryWindow)
+            .Select(c => (c.CalledAt!.Value, Duration: c.ServedAt!.Value - c.CalledAt!.Value, c.PartySize))
+            .Where(s => s.Duration > TimeSpan.Zero && s.Duration <= MaxServiceTime)
+            .OrderByDescending(s => s.Value)
+            .ToList();
+
+        // Same time of day first; the most recent services overall otherwise
+        var sameTimeOfDay = samples.Where(s => IsNearHour(s.Value, now)).ToList();
+        var window = (sameTimeOfDay.Count >= MinSamples ? sameTimeOfDay : samples)
+            .Take(RollingWindow)
+            .Select(s => s.Duration.TotalMinutes / PartyWeight(s.PartySize))
+            .ToList();
+
+        // Everyone someone called in the last hour is being served by the same people
+        var servers = Math.Max(1, all
+            .Where(c => c.CalledByUserId.HasValue && c.CalledAt >= now - StaffingWindow)
+            .Select(c => c.CalledByUserId)
+            .Distinct()
+            .Count());
+
+        if (window.Count < MinSamples)
+            return new WaitTimeEstimator(Math.Max(1, configuredServiceMinutes), FallbackSpread, servers, isLearned: false);
+
+        var mean = window.Average();
+        var deviation = Math.Sqrt(window.Sum(m => (m - mean) * (m - mean)) / window.Count);
+        return new WaitTimeEstimator(mean, mean > 0 ? deviation / mean : 0, servers, isLearned: true);
+    }
+
+    /// <summary>
+    /// Estimates for everyone in line, in line order, from the customers being served now
+    /// and each customer's place in the line.
+    /// </summary>
+    public IReadOnlyList<WaitEstimate> EstimateLine(
+        IReadOnlyList<QueueCustomer> waitingInLine,
+        IEnumerable<QueueCustomer> beingServed,
+        DateTimeOffset now)
+    {
+        var estimates = new List<WaitEstimate>(waitingInLine.Count);
+        var workAhead = beingServed.Sum(c => RemainingMinutes(c, now));
+
+        for (var i = 0; i < waitingInLine.Count; i++)
+        {
+            estimates.Add(ForWorkAhead(workAhead, partiesAhead: i));
+            workAhead += ServiceMinutes * PartyWeight(waitingInLine[i].PartySize);
+        }
+
+        return estimates;
+    }
+
+    /// <summary>Estimate for someone joining behind everyone in line.</summary>
+    public WaitEstimate EstimateToJoin(
+        IReadOnlyList<QueueCustomer> waitingInLine,
+        IEnumerable<QueueCustomer> beingServed,
+        DateTimeOffset now)
+    {
+        var workAhead = beingServed.Sum(c => RemainingMinutes(c, now)) +
+            waitingInLine.Sum(c => ServiceMinutes * PartyWeight(c.PartySize));
+
+        return ForWorkAhead(workAhead, waitingInLine.Count);
+    }
+
+    private WaitEstimate ForWorkAhead(double workMinutes, int partiesAhead)
+    {
+        var minutes = workMinutes / Servers;
+        if (minutes <= 0)
+            return WaitEstimate.None;
+
+        // Differences between customers even out the longer the line ahead
+        var spread = IsLearned
+            ? Math.Clamp(Variation / Math.Sqrt(Math.Max(1, partiesAhead)), MinSpread, MaxSpread)
+            : FallbackSpread;
+
+        var min = (int)Math.Floor(minutes * (1 - spread));
+        var max = (int)Math.Ceiling(minutes * (1 + spread));
+        return new WaitEstimate(Math.Max(0, min), Math.Max(max, min + 1));
+    }
+
+    private double RemainingMinutes(QueueCustomer customer, DateTimeOffset now)
+    {
+        var expected = ServiceMinutes * PartyWeight(customer.PartySize);
+        var elapsed = customer.CalledAt.HasValue ? (now - customer.CalledAt.Value).TotalMinutes : 0;
+        return Math.Max(0, expected - elapsed);
+    }
+
+    private static double PartyWeight(int? partySize) =>
+        1 + ExtraPersonFactor * (Math.Max(partySize ?? 1, 1) - 1);
+
+    /// <summary>Within an hour either side of now's time of day, wrapping around midnight.</summary>
+    private static bool IsNearHour(DateTimeOffset value, DateTimeOffset now)
+    {
+        var difference = Math.Abs(value.UtcDateTime.TimeOfDay.TotalHours - now.UtcDateTime.TimeOfDay.TotalHours);
+        return Math.Min(difference, 24 - difference) <= 1;
+    }
+}
@@ -0,0 +1,29 @@
+namespace QueueDrop.Domain.Enums;
+
+/// <summary>
+/// Kind of question on a queue's join form.
+/// Party size, phone and notes fill the customer's own fields; the rest are kept as answers.
+/// </summary>
+public enum JoinFieldType
+{
+    /// <summary>How many people are in the party.</summary>
+    PartySize,
+
+    /// <summary>Phone number to reach the customer on.</summary>
+    Phone,
+
+    /// <summary>Free-form notes for staff.</summary>
+    Notes,
+
+    /// <summary>Short free-text answer.</summary>
+    Text,
+
+    /// <summary>Whole number, optionally within a range.</summary>
+    Number,
+
+    /// <summary>One of a fixed list of options, e.g. a service type.</summary>
+    Choice,
+
+    /// <summary>Yes or no, e.g. "Need a high chair?".</summary>
+    Checkbox
+}
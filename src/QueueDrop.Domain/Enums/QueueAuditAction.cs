@@ -0,0 +1,46 @@
+namespace QueueDrop.Domain.Enums;
+
+/// <summary>
+/// What happened in a queue, as recorded in its audit log.
+/// Stored as numbers - only ever add new values at the end.
+/// </summary>
+public enum QueueAuditAction
+{
+    /// <summary>Customer joined, from their phone or as a walk-in added by staff.</summary>
+    Joined = 0,
+
+    Called = 1,
+
+    /// <summary>A called customer was called again.</summary>
+    Recalled = 2,
+
+    /// <summary>A called customer was sent back to wait.</summary>
+    Requeued = 3,
+
+    Served = 4,
+    NoShow = 5,
+    Removed = 6,
+
+    /// <summary>A waiting customer was moved to a different place in line.</summary>
+    Reordered = 7,
+
+    /// <summary>Customer was moved to or from another queue.</summary>
+    Transferred = 8,
+
+    /// <summary>A serve, no-show or removal was reverted.</summary>
+    Undone = 9,
+
+    SettingsChanged = 10,
+
+    /// <summary>Queue was opened, closed, paused or resumed, or its auto-close was changed.</summary>
+    StatusChanged = 11,
+
+    /// <summary>Customer left the queue from their own page.</summary>
+    Left = 12,
+
+    /// <summary>A waiting customer let people behind them go ahead.</summary>
+    LetOthersAhead = 13,
+
+    /// <summary>A called customer said they're on their way.</summary>
+    OnTheWay = 14
+}
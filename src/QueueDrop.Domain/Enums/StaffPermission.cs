@@ -0,0 +1,28 @@
+namespace QueueDrop.Domain.Enums;
+
+/// <summary>
+/// What a member may do in a business. Owners always hold every permission;
+/// staff get theirs from the owner, optionally narrowed per queue.
+/// </summary>
+[Flags]
+public enum StaffPermission
+{
+    None = 0,
+
+    /// <summary>Call next, serve, no-show, recall, requeue, undo and add walk-ins.</summary>
+    CallCustomers = 1,
+
+    /// <summary>Remove, reorder and transfer customers, and undo a removal.</summary>
+    ManageCustomers = 2,
+
+    /// <summary>Edit queue settings and open, close or pause queues.</summary>
+    EditSettings = 4,
+
+    /// <summary>See queue history and reports.</summary>
+    ViewReports = 8,
+
+    /// <summary>Invite staff, handle pending invites and remove staff.</summary>
+    ManageTeam = 16,
+
+    All = CallCustomers | ManageCustomers | EditSettings | ViewReports | ManageTeam
+}
@@ -0,0 +1,13 @@
+namespace QueueDrop.Domain.Enums;
+
+/// <summary>
+/// Where a transferred customer goes in their new queue's line.
+/// </summary>
+public enum TransferPlacement
+{
+    /// <summary>Behind everyone already waiting.</summary>
+    Back,
+
+    /// <summary>Among the waiting customers by when they originally joined.</summary>
+    ByJoinTime
+}
@@ -30,4 +30,19 @@ public sealed class ConsoleEmailService : IEmailService
 
         return Task.FromResult(Result<string>.Success("console-dev-email"));
     }
+
+    public Task<Result<string>> SendStaffInviteAsync(
+        string toEmail,
+        string businessName,
+        string inviteUrl,
+        CancellationToken cancellationToken = default)
+    {
+        _logger.LogWarning("=== DEVELOPMENT EMAIL (Resend not configured) ===");
+        _logger.LogWarning("To: {Email}", toEmail);
+        _logger.LogWarning("Subject: Join {Business} on QueueDrop", businessName);
+        _logger.LogWarning("Invite Link: {Url}", inviteUrl);
+        _logger.LogWarning("================================================");
+
+        return Task.FromResult(Result<string>.Success("console-dev-email"));
+    }
 }
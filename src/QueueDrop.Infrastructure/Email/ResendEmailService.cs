@@ -22,27 +22,56 @@ public sealed class ResendEmailService : IEmailService
         _logger = logger;
     }
 
-    public async Task<Result<string>> SendMagicLinkAsync(
+    public Task<Result<string>> SendMagicLinkAsync(
         string toEmail,
         string magicLinkUrl,
-        CancellationToken cancellationToken = default)
+        CancellationToken cancellationToken = default) =>
+        SendAsync(
+            toEmail,
+            "Sign in to QueueDrop",
+            BuildHtmlBody(magicLinkUrl),
+            BuildTextBody(magicLinkUrl),
+            "Magic link",
+            cancellationToken);
+
+    public Task<Result<string>> SendStaffInviteAsync(
+        string toEmail,
+        string businessName,
+        string inviteUrl,
+        CancellationToken cancellationToken = default) =>
+        SendAsync(
+            toEmail,
+            $"Join {businessName} on QueueDrop",
+            BuildInviteHtmlBody(businessName, inviteUrl),
+            BuildInviteTextBody(businessName, inviteUrl),
+            "Staff invite",
+            cancellationToken);
+
+    private async Task<Result<string>> SendAsync(
+        string toEmail,
+        string subject,
+        string htmlBody,
+        string textBody,
+        string kind,
+        CancellationToken cancellationToken)
     {
         try
         {
             var message = new EmailMessage
             {
                 From = $"{_options.FromName} <{_options.FromEmail}>",
-                Subject = "Sign in to QueueDrop"
+                Subject = subject
             };
             message.To.Add(toEmail);
-            message.HtmlBody = BuildHtmlBody(magicLinkUrl);
-            message.TextBody = BuildTextBody(magicLinkUrl);
+            message.HtmlBody = htmlBody;
+            message.TextBody = textBody;
 
             var response = await _resend.EmailSendAsync(message, cancellationToken);
             var emailId = response.Content.ToString();
 
             _logger.LogInformation(
-                "Magic link email sent to {Email}, Resend ID: {EmailId}",
+                "{Kind} email sent to {Email}, Resend ID: {EmailId}",
+                kind,
                 toEmail,
                 emailId);
 
@@ -50,7 +79,7 @@ public sealed class ResendEmailService : IEmailService
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Failed to send magic link email to {Email}", toEmail);
+            _logger.LogError(ex, "Failed to send {Kind} email to {Email}", kind, toEmail);
             return Result<string>.Failure("Email.SendFailed", $"Failed to send email: {ex.Message}");
         }
     }
@@ -97,4 +126,47 @@ public sealed class ResendEmailService : IEmailService
 
         If you didn't request this email, you can safely ignore it.
         """;
+
+    private static string BuildInviteHtmlBody(string businessName, string inviteUrl) => $"""
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #334155; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+            <div style="text-align: center; margin-bottom: 32px;">
+                <div style="display: inline-block; width: 48px; height: 48px; background: #0d9488; border-radius: 12px; margin-bottom: 16px;"></div>
+                <h1 style="margin: 0; font-size: 24px; font-weight: 600; color: #0f172a;">QueueDrop</h1>
+            </div>
+
+            <div style="background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 12px; padding: 32px; text-align: center;">
+                <h2 style="margin: 0 0 16px 0; font-size: 20px; font-weight: 600; color: #0f172a;">You're invited to join {businessName}</h2>
+                <p style="margin: 0 0 24px 0; color: #64748b;">Accept the invite to start running the queue with your team. This link expires in 7 days.</p>
+
+                <a href="{inviteUrl}"
+                   style="display: inline-block; background: #0d9488; color: white; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                    Accept invite
+                </a>
+            </div>
+
+            <div style="margin-top: 32px; text-align: center; color: #94a3b8; font-size: 14px;">
+                <p style="margin: 0 0 8px 0;">If you weren't expecting this invite, you can safely ignore it.</p>
+                <p style="margin: 0;">Button not working? Copy and paste this link:</p>
+                <p style="margin: 8px 0 0 0; word-break: break-all; color: #64748b;">{inviteUrl}</p>
+            </div>
+        </body>
+        </html>
+        """;
+
+    private static string BuildInviteTextBody(string businessName, string inviteUrl) => $"""
+        You're invited to join {businessName} on QueueDrop
+
+        Open the link below to accept the invite.
+        This link expires in 7 days.
+
+        {inviteUrl}
+
+        If you weren't expecting this invite, you can safely ignore it.
+        """;
 }
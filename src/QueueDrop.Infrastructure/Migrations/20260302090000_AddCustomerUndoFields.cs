@@ -0,0 +1,39 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace QueueDrop.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCustomerUndoFields : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "PreviousStatus",
+                table: "queue_customers",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTimeOffset>(
+                name: "StatusChangedAt",
+                table: "queue_customers",
+                type: "timestamp with time zone",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "PreviousStatus",
+                table: "queue_customers");
+
+            migrationBuilder.DropColumn(
+                name: "StatusChangedAt",
+                table: "queue_customers");
+        }
+    }
+}
@@ -0,0 +1,41 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace QueueDrop.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCustomerSortOrder : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "SortOrder",
+                table: "queue_customers",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+
+            // Existing customers keep the order they joined in
+            migrationBuilder.Sql(
+                """
+                UPDATE queue_customers AS c
+                SET "SortOrder" = ordered.rn
+                FROM (
+                    SELECT "Id", ROW_NUMBER() OVER (PARTITION BY "QueueId" ORDER BY "JoinedAt", "JoinPosition") AS rn
+                    FROM queue_customers
+                ) AS ordered
+                WHERE c."Id" = ordered."Id";
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "SortOrder",
+                table: "queue_customers");
+        }
+    }
+}
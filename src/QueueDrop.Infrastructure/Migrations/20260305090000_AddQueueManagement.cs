@@ -0,0 +1,87 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace QueueDrop.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddQueueManagement : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTimeOffset>(
+                name: "ArchivedAt",
+                table: "queues",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "DisplayOrder",
+                table: "queues",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+
+            // Existing queues keep the order they were created in
+            migrationBuilder.Sql(
+                """
+                UPDATE queues AS q
+                SET "DisplayOrder" = ordered.rn - 1
+                FROM (
+                    SELECT "Id", ROW_NUMBER() OVER (PARTITION BY "BusinessId" ORDER BY "CreatedAt", "Id") AS rn
+                    FROM queues
+                ) AS ordered
+                WHERE q."Id" = ordered."Id";
+                """);
+
+            migrationBuilder.CreateTable(
+                name: "queue_slug_redirects",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    BusinessId = table.Column<Guid>(type: "uuid", nullable: false),
+                    Slug = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    QueueId = table.Column<Guid>(type: "uuid", nullable: false),
+                    CreatedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_queue_slug_redirects", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_queue_slug_redirects_queues_QueueId",
+                        column: x => x.QueueId,
+                        principalTable: "queues",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_queue_slug_redirects_BusinessId_Slug",
+                table: "queue_slug_redirects",
+                columns: new[] { "BusinessId", "Slug" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_queue_slug_redirects_QueueId",
+                table: "queue_slug_redirects",
+                column: "QueueId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "queue_slug_redirects");
+
+            migrationBuilder.DropColumn(
+                name: "ArchivedAt",
+                table: "queues");
+
+            migrationBuilder.DropColumn(
+                name: "DisplayOrder",
+                table: "queues");
+        }
+    }
+}
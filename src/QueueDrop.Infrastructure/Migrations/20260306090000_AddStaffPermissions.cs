@@ -0,0 +1,78 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace QueueDrop.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddStaffPermissions : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "Permissions",
+                table: "business_members",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+
+            // Owners get everything; existing staff keep running queues as before
+            // (CallCustomers | ManageCustomers | EditSettings)
+            migrationBuilder.Sql(
+                """
+                UPDATE business_members
+                SET "Permissions" = CASE WHEN "Role" = 'Owner' THEN 31 ELSE 7 END;
+                """);
+
+            migrationBuilder.CreateTable(
+                name: "member_queue_permissions",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    BusinessMemberId = table.Column<Guid>(type: "uuid", nullable: false),
+                    QueueId = table.Column<Guid>(type: "uuid", nullable: false),
+                    Permissions = table.Column<int>(type: "integer", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_member_queue_permissions", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_member_queue_permissions_business_members_BusinessMemberId",
+                        column: x => x.BusinessMemberId,
+                        principalTable: "business_members",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_member_queue_permissions_queues_QueueId",
+                        column: x => x.QueueId,
+                        principalTable: "queues",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_member_queue_permissions_BusinessMemberId_QueueId",
+                table: "member_queue_permissions",
+                columns: new[] { "BusinessMemberId", "QueueId" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_member_queue_permissions_QueueId",
+                table: "member_queue_permissions",
+                column: "QueueId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "member_queue_permissions");
+
+            migrationBuilder.DropColumn(
+                name: "Permissions",
+                table: "business_members");
+        }
+    }
+}
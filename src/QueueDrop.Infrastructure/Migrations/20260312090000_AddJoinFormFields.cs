@@ -0,0 +1,62 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace QueueDrop.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddJoinFormFields : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "settings_join_fields",
+                table: "queues",
+                type: "text",
+                nullable: false,
+                defaultValue: "[]");
+
+            migrationBuilder.AddColumn<string>(
+                name: "JoinAnswers",
+                table: "queue_customers",
+                type: "text",
+                nullable: false,
+                defaultValue: "[]");
+
+            migrationBuilder.UpdateData(
+                table: "queues",
+                keyColumn: "Id",
+                keyValue: new Guid("22222222-2222-2222-2222-222222222222"),
+                column: "settings_join_fields",
+                value: "[]");
+
+            migrationBuilder.UpdateData(
+                table: "queues",
+                keyColumn: "Id",
+                keyValue: new Guid("33333333-3333-3333-3333-333333333333"),
+                column: "settings_join_fields",
+                value: "[]");
+
+            migrationBuilder.UpdateData(
+                table: "queues",
+                keyColumn: "Id",
+                keyValue: new Guid("44444444-4444-4444-4444-444444444444"),
+                column: "settings_join_fields",
+                value: "[]");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "settings_join_fields",
+                table: "queues");
+
+            migrationBuilder.DropColumn(
+                name: "JoinAnswers",
+                table: "queue_customers");
+        }
+    }
+}
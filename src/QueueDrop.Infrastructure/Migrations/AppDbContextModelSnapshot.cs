@@ -72,12 +72,25 @@ namespace QueueDrop.Infrastructure.Migrations
                     b.Property<Guid>("BusinessId")
                         .HasColumnType("uuid");
 
+                    b.Property<int>("FailedPinAttempts")
+                        .HasColumnType("integer");
+
                     b.Property<DateTimeOffset>("InvitedAt")
                         .HasColumnType("timestamp with time zone");
 
                     b.Property<DateTimeOffset?>("JoinedAt")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<int>("Permissions")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("PinHash")
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<DateTimeOffset?>("PinLockedUntil")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<string>("Role")
                         .IsRequired()
                         .HasMaxLength(50)
@@ -141,18 +154,52 @@ namespace QueueDrop.Infrastructure.Migrations
                     b.ToTable("magic_links", (string)null);
                 });
 
+            modelBuilder.Entity("QueueDrop.Domain.Entities.MemberQueuePermission", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<Guid>("BusinessMemberId")
+                        .HasColumnType("uuid");
+
+                    b.Property<int>("Permissions")
+                        .HasColumnType("integer");
+
+                    b.Property<Guid>("QueueId")
+                        .HasColumnType("uuid");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("QueueId");
+
+                    b.HasIndex("BusinessMemberId", "QueueId")
+                        .IsUnique();
+
+                    b.ToTable("member_queue_permissions", (string)null);
+                });
+
             modelBuilder.Entity("QueueDrop.Domain.Entities.Queue", b =>
                 {
                     b.Property<Guid>("Id")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("uuid");
 
+                    b.Property<DateTimeOffset?>("ArchivedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<DateTimeOffset?>("AutoCloseAt")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<Guid>("BusinessId")
                         .HasColumnType("uuid");
 
                     b.Property<DateTimeOffset>("CreatedAt")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<int>("DisplayOrder")
+                        .HasColumnType("integer");
+
                     b.Property<bool>("IsActive")
                         .HasColumnType("boolean");
 
@@ -164,6 +211,9 @@ namespace QueueDrop.Infrastructure.Migrations
                         .HasMaxLength(200)
                         .HasColumnType("character varying(200)");
 
+                    b.Property<string>("OperatingHours")
+                        .HasColumnType("text");
+
                     b.Property<byte[]>("RowVersion")
                         .IsConcurrencyToken()
                         .IsRequired()
@@ -174,6 +224,10 @@ namespace QueueDrop.Infrastructure.Migrations
                         .HasMaxLength(100)
                         .HasColumnType("character varying(100)");
 
+                    b.Property<long>("Version")
+                        .IsConcurrencyToken()
+                        .HasColumnType("bigint");
+
                     b.HasKey("Id");
 
                     b.HasIndex("BusinessId");
@@ -191,36 +245,84 @@ namespace QueueDrop.Infrastructure.Migrations
                             Id = new Guid("22222222-2222-2222-2222-222222222222"),
                             BusinessId = new Guid("11111111-1111-1111-1111-111111111111"),
                             CreatedAt = new DateTimeOffset(new DateTime(2024, 1, 1, 0, 0, 0, 0, DateTimeKind.Unspecified), new TimeSpan(0, 0, 0, 0, 0)),
+                            DisplayOrder = 0,
                             IsActive = true,
                             IsPaused = false,
                             Name = "Main Queue",
                             RowVersion = new byte[] { 0, 0, 0, 0, 0, 0, 0, 1 },
-                            Slug = "main-queue"
+                            Slug = "main-queue",
+                            Version = 0L
                         },
                         new
                         {
                             Id = new Guid("33333333-3333-3333-3333-333333333333"),
                             BusinessId = new Guid("11111111-1111-1111-1111-111111111111"),
                             CreatedAt = new DateTimeOffset(new DateTime(2024, 1, 1, 0, 0, 0, 0, DateTimeKind.Unspecified), new TimeSpan(0, 0, 0, 0, 0)),
+                            DisplayOrder = 1,
                             IsActive = true,
                             IsPaused = false,
                             Name = "Takeout",
                             RowVersion = new byte[] { 0, 0, 0, 0, 0, 0, 0, 1 },
-                            Slug = "takeout"
+                            Slug = "takeout",
+                            Version = 0L
                         },
                         new
                         {
                             Id = new Guid("44444444-4444-4444-4444-444444444444"),
                             BusinessId = new Guid("11111111-1111-1111-1111-111111111111"),
                             CreatedAt = new DateTimeOffset(new DateTime(2024, 1, 1, 0, 0, 0, 0, DateTimeKind.Unspecified), new TimeSpan(0, 0, 0, 0, 0)),
+                            DisplayOrder = 2,
                             IsActive = true,
                             IsPaused = false,
                             Name = "Bar",
                             RowVersion = new byte[] { 0, 0, 0, 0, 0, 0, 0, 1 },
-                            Slug = "bar"
+                            Slug = "bar",
+                            Version = 0L
                         });
                 });
 
+            modelBuilder.Entity("QueueDrop.Domain.Entities.QueueAuditEntry", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<int>("Action")
+                        .HasColumnType("integer");
+
+                    b.Property<Guid?>("ActorUserId")
+                        .HasColumnType("uuid");
+
+                    b.Property<Guid?>("CustomerId")
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("CustomerName")
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<string>("Details")
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)");
+
+                    b.Property<string>("Device")
+                        .HasMaxLength(256)
+                        .HasColumnType("character varying(256)");
+
+                    b.Property<DateTimeOffset>("OccurredAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<Guid>("QueueId")
+                        .HasColumnType("uuid");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("CustomerId");
+
+                    b.HasIndex("QueueId", "OccurredAt");
+
+                    b.ToTable("queue_audit_entries", (string)null);
+                });
+
             modelBuilder.Entity("QueueDrop.Domain.Entities.QueueCustomer", b =>
                 {
                     b.Property<Guid>("Id")
@@ -230,6 +332,16 @@ namespace QueueDrop.Infrastructure.Migrations
                     b.Property<DateTimeOffset?>("CalledAt")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<Guid?>("CalledByUserId")
+                        .HasColumnType("uuid");
+
+                    b.Property<Guid?>("CompletedByUserId")
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("JoinAnswers")
+                        .IsRequired()
+                        .HasColumnType("text");
+
                     b.Property<int>("JoinPosition")
                         .HasColumnType("integer");
 
@@ -248,6 +360,9 @@ namespace QueueDrop.Infrastructure.Migrations
                         .HasMaxLength(500)
                         .HasColumnType("character varying(500)");
 
+                    b.Property<DateTimeOffset?>("OnTheWayAt")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<int?>("PartySize")
                         .HasColumnType("integer");
 
@@ -255,6 +370,9 @@ namespace QueueDrop.Infrastructure.Migrations
                         .HasMaxLength(20)
                         .HasColumnType("character varying(20)");
 
+                    b.Property<int?>("PreviousStatus")
+                        .HasColumnType("integer");
+
                     b.Property<string>("PushSubscription")
                         .HasColumnType("text");
 
@@ -264,9 +382,15 @@ namespace QueueDrop.Infrastructure.Migrations
                     b.Property<DateTimeOffset?>("ServedAt")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<int>("SortOrder")
+                        .HasColumnType("integer");
+
                     b.Property<int>("Status")
                         .HasColumnType("integer");
 
+                    b.Property<DateTimeOffset?>("StatusChangedAt")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<string>("Token")
                         .IsRequired()
                         .HasMaxLength(20)
@@ -286,6 +410,36 @@ namespace QueueDrop.Infrastructure.Migrations
                     b.ToTable("queue_customers", (string)null);
                 });
 
+            modelBuilder.Entity("QueueDrop.Domain.Entities.QueueSlugRedirect", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<Guid>("BusinessId")
+                        .HasColumnType("uuid");
+
+                    b.Property<DateTimeOffset>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<Guid>("QueueId")
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("Slug")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("QueueId");
+
+                    b.HasIndex("BusinessId", "Slug")
+                        .IsUnique();
+
+                    b.ToTable("queue_slug_redirects", (string)null);
+                });
+
             modelBuilder.Entity("QueueDrop.Domain.Entities.User", b =>
                 {
                     b.Property<Guid>("Id")
@@ -308,6 +462,47 @@ namespace QueueDrop.Infrastructure.Migrations
                     b.ToTable("users", (string)null);
                 });
 
+            modelBuilder.Entity("QueueDrop.Domain.Entities.UserSession", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<DateTimeOffset>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("Device")
+                        .IsRequired()
+                        .HasMaxLength(256)
+                        .HasColumnType("character varying(256)");
+
+                    b.Property<DateTimeOffset>("ExpiresAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<DateTimeOffset>("LastUsedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("RefreshTokenHash")
+                        .IsRequired()
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)");
+
+                    b.Property<DateTimeOffset?>("RevokedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<Guid>("UserId")
+                        .HasColumnType("uuid");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RefreshTokenHash")
+                        .IsUnique();
+
+                    b.HasIndex("UserId");
+
+                    b.ToTable("user_sessions", (string)null);
+                });
+
             modelBuilder.Entity("QueueDrop.Domain.Entities.BusinessMember", b =>
                 {
                     b.HasOne("QueueDrop.Domain.Entities.Business", "Business")
@@ -327,6 +522,21 @@ namespace QueueDrop.Infrastructure.Migrations
                     b.Navigation("User");
                 });
 
+            modelBuilder.Entity("QueueDrop.Domain.Entities.MemberQueuePermission", b =>
+                {
+                    b.HasOne("QueueDrop.Domain.Entities.BusinessMember", null)
+                        .WithMany("QueuePermissions")
+                        .HasForeignKey("BusinessMemberId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.HasOne("QueueDrop.Domain.Entities.Queue", null)
+                        .WithMany()
+                        .HasForeignKey("QueueId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
             modelBuilder.Entity("QueueDrop.Domain.Entities.Queue", b =>
                 {
                     b.HasOne("QueueDrop.Domain.Entities.Business", "Business")
@@ -357,6 +567,11 @@ namespace QueueDrop.Infrastructure.Migrations
                                 .HasDefaultValue(5)
                                 .HasColumnName("settings_estimated_service_time_minutes");
 
+                            b1.Property<string>("JoinFields")
+                                .IsRequired()
+                                .HasColumnType("text")
+                                .HasColumnName("settings_join_fields");
+
                             b1.Property<int?>("MaxQueueSize")
                                 .HasColumnType("integer")
                                 .HasColumnName("settings_max_queue_size");
@@ -388,6 +603,7 @@ namespace QueueDrop.Infrastructure.Migrations
                                     QueueId = new Guid("22222222-2222-2222-2222-222222222222"),
                                     AllowJoinWhenPaused = false,
                                     EstimatedServiceTimeMinutes = 5,
+                                    JoinFields = "[]",
                                     NoShowTimeoutMinutes = 5
                                 },
                                 new
@@ -395,6 +611,7 @@ namespace QueueDrop.Infrastructure.Migrations
                                     QueueId = new Guid("33333333-3333-3333-3333-333333333333"),
                                     AllowJoinWhenPaused = false,
                                     EstimatedServiceTimeMinutes = 3,
+                                    JoinFields = "[]",
                                     NoShowTimeoutMinutes = 5
                                 },
                                 new
@@ -402,6 +619,7 @@ namespace QueueDrop.Infrastructure.Migrations
                                     QueueId = new Guid("44444444-4444-4444-4444-444444444444"),
                                     AllowJoinWhenPaused = false,
                                     EstimatedServiceTimeMinutes = 10,
+                                    JoinFields = "[]",
                                     MaxQueueSize = 20,
                                     NoShowTimeoutMinutes = 5
                                 });
@@ -413,6 +631,15 @@ namespace QueueDrop.Infrastructure.Migrations
                         .IsRequired();
                 });
 
+            modelBuilder.Entity("QueueDrop.Domain.Entities.QueueAuditEntry", b =>
+                {
+                    b.HasOne("QueueDrop.Domain.Entities.Queue", null)
+                        .WithMany()
+                        .HasForeignKey("QueueId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
             modelBuilder.Entity("QueueDrop.Domain.Entities.QueueCustomer", b =>
                 {
                     b.HasOne("QueueDrop.Domain.Entities.Queue", null)
@@ -422,11 +649,34 @@ namespace QueueDrop.Infrastructure.Migrations
                         .IsRequired();
                 });
 
+            modelBuilder.Entity("QueueDrop.Domain.Entities.QueueSlugRedirect", b =>
+                {
+                    b.HasOne("QueueDrop.Domain.Entities.Queue", null)
+                        .WithMany()
+                        .HasForeignKey("QueueId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
+            modelBuilder.Entity("QueueDrop.Domain.Entities.UserSession", b =>
+                {
+                    b.HasOne("QueueDrop.Domain.Entities.User", null)
+                        .WithMany()
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
             modelBuilder.Entity("QueueDrop.Domain.Entities.Business", b =>
                 {
                     b.Navigation("Queues");
                 });
 
+            modelBuilder.Entity("QueueDrop.Domain.Entities.BusinessMember", b =>
+                {
+                    b.Navigation("QueuePermissions");
+                });
+
             modelBuilder.Entity("QueueDrop.Domain.Entities.Queue", b =>
                 {
                     b.Navigation("Customers");
@@ -13,9 +13,13 @@ public class AppDbContext : DbContext
     public DbSet<Business> Businesses => Set<Business>();
     public DbSet<Queue> Queues => Set<Queue>();
     public DbSet<QueueCustomer> QueueCustomers => Set<QueueCustomer>();
+    public DbSet<QueueSlugRedirect> QueueSlugRedirects => Set<QueueSlugRedirect>();
     public DbSet<User> Users => Set<User>();
     public DbSet<BusinessMember> BusinessMembers => Set<BusinessMember>();
     public DbSet<MagicLink> MagicLinks => Set<MagicLink>();
+    public DbSet<UserSession> UserSessions => Set<UserSession>();
+    public DbSet<MemberQueuePermission> MemberQueuePermissions => Set<MemberQueuePermission>();
+    public DbSet<QueueAuditEntry> QueueAuditEntries => Set<QueueAuditEntry>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
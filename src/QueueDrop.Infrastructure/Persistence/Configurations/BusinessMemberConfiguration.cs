@@ -20,6 +20,16 @@ public sealed class BusinessMemberConfiguration : IEntityTypeConfiguration<Busin
         builder.Property(bm => bm.InvitedAt)
             .IsRequired();
 
+        // Flags - stored as the combined integer value
+        builder.Property(bm => bm.Permissions)
+            .IsRequired();
+
+        builder.Property(bm => bm.PinHash)
+            .HasMaxLength(100);
+
+        builder.Property(bm => bm.FailedPinAttempts)
+            .IsRequired();
+
         builder.HasIndex(bm => new { bm.UserId, bm.BusinessId })
             .IsUnique();
 
@@ -35,5 +45,13 @@ public sealed class BusinessMemberConfiguration : IEntityTypeConfiguration<Busin
             .WithMany()
             .HasForeignKey(bm => bm.BusinessId)
             .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasMany(bm => bm.QueuePermissions)
+            .WithOne()
+            .HasForeignKey(p => p.BusinessMemberId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Navigation(bm => bm.QueuePermissions)
+            .UsePropertyAccessMode(PropertyAccessMode.Field);
     }
 }
@@ -0,0 +1,29 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Infrastructure.Persistence.Configurations;
+
+public sealed class MemberQueuePermissionConfiguration : IEntityTypeConfiguration<MemberQueuePermission>
+{
+    public void Configure(EntityTypeBuilder<MemberQueuePermission> builder)
+    {
+        builder.ToTable("member_queue_permissions");
+
+        builder.HasKey(p => p.Id);
+
+        builder.Property(p => p.Permissions)
+            .IsRequired();
+
+        // One override per member per queue
+        builder.HasIndex(p => new { p.BusinessMemberId, p.QueueId })
+            .IsUnique();
+
+        builder.HasIndex(p => p.QueueId);
+
+        builder.HasOne<Queue>()
+            .WithMany()
+            .HasForeignKey(p => p.QueueId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
@@ -0,0 +1,40 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Infrastructure.Persistence.Configurations;
+
+public sealed class QueueAuditEntryConfiguration : IEntityTypeConfiguration<QueueAuditEntry>
+{
+    public void Configure(EntityTypeBuilder<QueueAuditEntry> builder)
+    {
+        builder.ToTable("queue_audit_entries");
+
+        builder.HasKey(e => e.Id);
+
+        builder.Property(e => e.Action)
+            .IsRequired();
+
+        builder.Property(e => e.OccurredAt)
+            .IsRequired();
+
+        builder.Property(e => e.Device)
+            .HasMaxLength(QueueAuditEntry.MaxDeviceLength);
+
+        builder.Property(e => e.CustomerName)
+            .HasMaxLength(100);
+
+        builder.Property(e => e.Details)
+            .HasMaxLength(QueueAuditEntry.MaxDetailsLength);
+
+        // History is read newest first, per queue and per customer
+        builder.HasIndex(e => new { e.QueueId, e.OccurredAt });
+        builder.HasIndex(e => e.CustomerId);
+
+        // Plain ids rather than foreign keys for the actor and customer, so the history outlives them
+        builder.HasOne<Queue>()
+            .WithMany()
+            .HasForeignKey(e => e.QueueId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
@@ -1,4 +1,7 @@
+using System.Text.Json;
+using System.Text.Json.Serialization;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.ChangeTracking;
 using Microsoft.EntityFrameworkCore.Metadata.Builders;
 using QueueDrop.Domain.Entities;
 
@@ -6,6 +9,14 @@ namespace QueueDrop.Infrastructure.Persistence.Configurations;
 
 public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
 {
+    private static readonly JsonSerializerOptions OperatingHoursJson = new(JsonSerializerDefaults.Web);
+
+    // Field types by name, so stored forms survive new types being added to the enum
+    private static readonly JsonSerializerOptions JoinFieldsJson = new(JsonSerializerDefaults.Web)
+    {
+        Converters = { new JsonStringEnumConverter() }
+    };
+
     public void Configure(EntityTypeBuilder<Queue> builder)
     {
         builder.ToTable("queues");
@@ -26,6 +37,25 @@ public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
         builder.Property(q => q.IsPaused)
             .IsRequired();
 
+        builder.Property(q => q.AutoCloseAt);
+
+        // Operating hours as one JSON document - always read and replaced whole, never queried into.
+        // The domain swaps in a new object on every change, so comparing references is enough.
+        builder.Property(q => q.OperatingHours)
+            .HasConversion(
+                hours => JsonSerializer.Serialize(hours, OperatingHoursJson),
+                json => JsonSerializer.Deserialize<OperatingHours>(json, OperatingHoursJson),
+                new ValueComparer<OperatingHours?>(
+                    (a, b) => ReferenceEquals(a, b),
+                    hours => hours == null ? 0 : hours.GetHashCode(),
+                    hours => hours))
+            .HasColumnType("text");
+
+        builder.Property(q => q.DisplayOrder)
+            .IsRequired();
+
+        builder.Property(q => q.ArchivedAt);
+
         builder.Property(q => q.BusinessId)
             .IsRequired();
 
@@ -37,6 +67,12 @@ public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
         builder.Property(q => q.RowVersion)
             .IsConcurrencyToken();
 
+        // Change counter sent with real-time updates. Also a concurrency token so two
+        // concurrent writers can't stamp different changes with the same version.
+        builder.Property(q => q.Version)
+            .IsRequired()
+            .IsConcurrencyToken();
+
         // QueueSettings as owned entity (stored in same table)
         builder.OwnsOne(q => q.Settings, settings =>
         {
@@ -62,6 +98,19 @@ public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
             settings.Property(s => s.CalledMessage)
                 .HasColumnName("settings_called_message")
                 .HasMaxLength(500);
+
+            // Join questions as one JSON document, replaced whole like the operating hours
+            settings.Property(s => s.JoinFields)
+                .HasColumnName("settings_join_fields")
+                .HasConversion(
+                    fields => JsonSerializer.Serialize(fields, JoinFieldsJson),
+                    json => JsonSerializer.Deserialize<List<JoinField>>(json, JoinFieldsJson) ?? new List<JoinField>(),
+                    new ValueComparer<IReadOnlyList<JoinField>>(
+                        (a, b) => ReferenceEquals(a, b),
+                        fields => fields.GetHashCode(),
+                        fields => fields))
+                .HasColumnType("text")
+                .IsRequired();
         });
 
         builder.Navigation(q => q.Settings).IsRequired();
@@ -88,8 +137,10 @@ public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
             Slug = "main-queue",
             IsActive = true,
             IsPaused = false,
+            DisplayOrder = 0,
             CreatedAt = SeedData.SeedDate,
-            RowVersion = new byte[] { 0, 0, 0, 0, 0, 0, 0, 1 }
+            RowVersion = new byte[] { 0, 0, 0, 0, 0, 0, 0, 1 },
+            Version = 0L
         });
 
         // Seed data - Takeout Queue
@@ -101,8 +152,10 @@ public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
             Slug = "takeout",
             IsActive = true,
             IsPaused = false,
+            DisplayOrder = 1,
             CreatedAt = SeedData.SeedDate,
-            RowVersion = new byte[] { 0, 0, 0, 0, 0, 0, 0, 1 }
+            RowVersion = new byte[] { 0, 0, 0, 0, 0, 0, 0, 1 },
+            Version = 0L
         });
 
         // Seed data - Bar Queue
@@ -114,8 +167,10 @@ public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
             Slug = "bar",
             IsActive = true,
             IsPaused = false,
+            DisplayOrder = 2,
             CreatedAt = SeedData.SeedDate,
-            RowVersion = new byte[] { 0, 0, 0, 0, 0, 0, 0, 1 }
+            RowVersion = new byte[] { 0, 0, 0, 0, 0, 0, 0, 1 },
+            Version = 0L
         });
 
         // Seed owned entity data (QueueSettings) - Main Queue
@@ -127,7 +182,8 @@ public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
             AllowJoinWhenPaused = false,
             NoShowTimeoutMinutes = 5,
             WelcomeMessage = (string?)null,
-            CalledMessage = (string?)null
+            CalledMessage = (string?)null,
+            JoinFields = new List<JoinField>()
         });
 
         // Seed owned entity data (QueueSettings) - Takeout Queue
@@ -139,7 +195,8 @@ public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
             AllowJoinWhenPaused = false,
             NoShowTimeoutMinutes = 5,
             WelcomeMessage = (string?)null,
-            CalledMessage = (string?)null
+            CalledMessage = (string?)null,
+            JoinFields = new List<JoinField>()
         });
 
         // Seed owned entity data (QueueSettings) - Bar Queue
@@ -151,7 +208,8 @@ public sealed class QueueConfiguration : IEntityTypeConfiguration<Queue>
             AllowJoinWhenPaused = false,
             NoShowTimeoutMinutes = 5,
             WelcomeMessage = (string?)null,
-            CalledMessage = (string?)null
+            CalledMessage = (string?)null,
+            JoinFields = new List<JoinField>()
         });
     }
 }
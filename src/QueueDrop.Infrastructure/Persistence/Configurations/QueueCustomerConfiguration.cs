@@ -1,4 +1,6 @@
+using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.ChangeTracking;
 using Microsoft.EntityFrameworkCore.Metadata.Builders;
 using QueueDrop.Domain.Entities;
 
@@ -6,6 +8,8 @@ namespace QueueDrop.Infrastructure.Persistence.Configurations;
 
 public sealed class QueueCustomerConfiguration : IEntityTypeConfiguration<QueueCustomer>
 {
+    private static readonly JsonSerializerOptions JoinAnswersJson = new(JsonSerializerDefaults.Web);
+
     public void Configure(EntityTypeBuilder<QueueCustomer> builder)
     {
         builder.ToTable("queue_customers");
@@ -30,6 +34,9 @@ public sealed class QueueCustomerConfiguration : IEntityTypeConfiguration<QueueC
         builder.Property(c => c.JoinPosition)
             .IsRequired();
 
+        builder.Property(c => c.SortOrder)
+            .IsRequired();
+
         builder.Property(c => c.JoinedAt)
             .IsRequired();
 
@@ -37,6 +44,14 @@ public sealed class QueueCustomerConfiguration : IEntityTypeConfiguration<QueueC
 
         builder.Property(c => c.ServedAt);
 
+        builder.Property(c => c.PreviousStatus);
+
+        builder.Property(c => c.StatusChangedAt);
+
+        // Plain ids rather than foreign keys - the record stays when a member leaves
+        builder.Property(c => c.CalledByUserId);
+        builder.Property(c => c.CompletedByUserId);
+
         builder.Property(c => c.QueueId)
             .IsRequired();
 
@@ -48,6 +63,18 @@ public sealed class QueueCustomerConfiguration : IEntityTypeConfiguration<QueueC
         builder.Property(c => c.Notes)
             .HasMaxLength(500);
 
+        // Answers are written once when the customer joins and only ever read back for display
+        builder.Property(c => c.JoinAnswers)
+            .HasConversion(
+                answers => JsonSerializer.Serialize(answers, JoinAnswersJson),
+                json => JsonSerializer.Deserialize<List<JoinAnswer>>(json, JoinAnswersJson) ?? new List<JoinAnswer>(),
+                new ValueComparer<IReadOnlyList<JoinAnswer>>(
+                    (a, b) => ReferenceEquals(a, b),
+                    answers => answers.GetHashCode(),
+                    answers => answers))
+            .HasColumnType("text")
+            .IsRequired();
+
         // Indexes for common queries
         builder.HasIndex(c => c.QueueId);
         builder.HasIndex(c => new { c.QueueId, c.Status });
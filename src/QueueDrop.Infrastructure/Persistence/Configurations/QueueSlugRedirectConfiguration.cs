@@ -0,0 +1,33 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Infrastructure.Persistence.Configurations;
+
+public sealed class QueueSlugRedirectConfiguration : IEntityTypeConfiguration<QueueSlugRedirect>
+{
+    public void Configure(EntityTypeBuilder<QueueSlugRedirect> builder)
+    {
+        builder.ToTable("queue_slug_redirects");
+
+        builder.HasKey(r => r.Id);
+
+        builder.Property(r => r.Slug)
+            .HasMaxLength(100)
+            .IsRequired();
+
+        builder.Property(r => r.CreatedAt)
+            .IsRequired();
+
+        // One old slug can only point at one queue per business
+        builder.HasIndex(r => new { r.BusinessId, r.Slug })
+            .IsUnique();
+
+        builder.HasIndex(r => r.QueueId);
+
+        builder.HasOne<Queue>()
+            .WithMany()
+            .HasForeignKey(r => r.QueueId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
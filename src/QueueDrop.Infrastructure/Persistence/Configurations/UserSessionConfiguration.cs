@@ -0,0 +1,42 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using QueueDrop.Domain.Entities;
+
+namespace QueueDrop.Infrastructure.Persistence.Configurations;
+
+public sealed class UserSessionConfiguration : IEntityTypeConfiguration<UserSession>
+{
+    public void Configure(EntityTypeBuilder<UserSession> builder)
+    {
+        builder.ToTable("user_sessions");
+
+        builder.HasKey(s => s.Id);
+
+        builder.Property(s => s.RefreshTokenHash)
+            .HasMaxLength(64)
+            .IsRequired();
+
+        builder.HasIndex(s => s.RefreshTokenHash)
+            .IsUnique();
+
+        builder.Property(s => s.Device)
+            .HasMaxLength(UserSession.MaxDeviceLength)
+            .IsRequired();
+
+        builder.Property(s => s.CreatedAt)
+            .IsRequired();
+
+        builder.Property(s => s.LastUsedAt)
+            .IsRequired();
+
+        builder.Property(s => s.ExpiresAt)
+            .IsRequired();
+
+        builder.HasIndex(s => s.UserId);
+
+        builder.HasOne<User>()
+            .WithMany()
+            .HasForeignKey(s => s.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
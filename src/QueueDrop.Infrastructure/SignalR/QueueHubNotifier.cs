@@ -1,5 +1,9 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
 using QueueDrop.Domain.Abstractions;
+using QueueDrop.Domain.Entities;
+using QueueDrop.Infrastructure.Persistence;
 
 namespace QueueDrop.Infrastructure.SignalR;
 
@@ -17,13 +21,12 @@ public sealed class QueueHubNotifier : IQueueHubNotifier
     }
 
     public async Task NotifyPositionChangedAsync(
-        string customerToken,
-        int newPosition,
+        PositionUpdate update,
         CancellationToken cancellationToken = default)
     {
         await _hubContext.Clients
-            .Group($"customer:{customerToken}")
-            .PositionChanged(newPosition);
+            .Group($"customer:{update.CustomerToken}")
+            .PositionChanged(update.NewPosition, update.EstimatedWait);
     }
 
     public async Task NotifyCustomerCalledAsync(
@@ -49,22 +52,24 @@ public sealed class QueueHubNotifier : IQueueHubNotifier
     public async Task NotifyQueueUpdatedAsync(
         Guid queueId,
         QueueUpdateType updateType,
+        long version,
+        QueueCustomerUpdate? customer,
         CancellationToken cancellationToken = default)
     {
         await _hubContext.Clients
             .Group($"queue:{queueId}")
-            .QueueUpdated(queueId.ToString(), updateType.ToString());
+            .QueueUpdated(queueId.ToString(), updateType.ToString(), version, customer);
     }
 
     public async Task NotifyPositionsChangedAsync(
-        IEnumerable<(string CustomerToken, int NewPosition)> updates,
+        IEnumerable<PositionUpdate> updates,
         CancellationToken cancellationToken = default)
     {
         // Send updates in parallel for better performance
         var tasks = updates.Select(u =>
             _hubContext.Clients
                 .Group($"customer:{u.CustomerToken}")
-                .PositionChanged(u.NewPosition));
+                .PositionChanged(u.NewPosition, u.EstimatedWait));
 
         await Task.WhenAll(tasks);
     }
@@ -78,27 +83,64 @@ public sealed class QueueHubNotifier : IQueueHubNotifier
             .Group($"customer:{customerToken}")
             .NearFront(position);
     }
+
+    public async Task NotifyTransferredAsync(
+        string customerToken,
+        string queueName,
+        int position,
+        CancellationToken cancellationToken = default)
+    {
+        await _hubContext.Clients
+            .Group($"customer:{customerToken}")
+            .Transferred(queueName, position);
+    }
+
+    public async Task NotifyQueueStatusChangedAsync(
+        IEnumerable<string> customerTokens,
+        bool isActive,
+        bool isPaused,
+        CancellationToken cancellationToken = default)
+    {
+        var tasks = customerTokens.Select(token =>
+            _hubContext.Clients
+                .Group($"customer:{token}")
+                .QueueStatusChanged(isActive, isPaused));
+
+        await Task.WhenAll(tasks);
+    }
 }
 
 /// <summary>
 /// Strongly-typed hub client interface.
 /// Defines methods that can be called on connected clients.
+/// Mirrored by QueueHubEvents in client/src/shared/signalr/queueHubContract.ts - keep both in sync.
 /// </summary>
 public interface IQueueHubClient
 {
-    Task PositionChanged(int newPosition);
+    Task PositionChanged(int newPosition, WaitEstimate estimatedWait);
     Task YouAreCalled(string? message);
     Task StatusChanged(string status);
-    Task QueueUpdated(string queueId, string updateType);
+    Task QueueUpdated(string queueId, string updateType, long version, QueueCustomerUpdate? customer);
     Task NearFront(int position);
+    Task Transferred(string queueName, int position);
+    Task QueueStatusChanged(bool isActive, bool isPaused);
 }
 
 /// <summary>
 /// SignalR hub for queue real-time updates.
-/// Clients join rooms based on their role (customer or staff).
+/// Clients join rooms based on their role (customer or staff). Customers connect anonymously;
+/// staff rooms carry customer details, so only signed-in members of the queue's business get in.
+/// Mirrored by QueueHubMethods in client/src/shared/signalr/queueHubContract.ts - keep both in sync.
 /// </summary>
 public sealed class QueueHub : Hub<IQueueHubClient>
 {
+    private readonly AppDbContext _db;
+
+    public QueueHub(AppDbContext db)
+    {
+        _db = db;
+    }
+
     /// <summary>
     /// Customer joins their personal notification room.
     /// Called from client: connection.invoke("JoinCustomerRoom", token)
@@ -123,12 +165,24 @@ public sealed class QueueHub : Hub<IQueueHubClient>
     }
 
     /// <summary>
-    /// Staff joins a queue's management room.
+    /// Staff joins a queue's management room. Needs a signed-in member of the queue's business.
     /// Called from client: connection.invoke("JoinStaffRoom", queueId)
     /// </summary>
+    [Authorize]
     public async Task JoinStaffRoom(Guid queueId)
     {
-        // TODO: Verify staff authorization for this queue
+        if (!Guid.TryParse(Context.UserIdentifier, out var userId))
+            throw new HubException("Sign in to follow this queue.");
+
+        var isMember = await _db.BusinessMembers.AnyAsync(
+            bm => bm.UserId == userId
+                && bm.JoinedAt != null
+                && _db.Queues.Any(q => q.Id == queueId && q.BusinessId == bm.BusinessId),
+            Context.ConnectionAborted);
+
+        if (!isMember)
+            throw new HubException("You are not a member of this queue's business.");
+
         await Groups.AddToGroupAsync(Context.ConnectionId, $"queue:{queueId}");
     }
 
@@ -139,4 +193,9 @@ public sealed class QueueHub : Hub<IQueueHubClient>
     {
         await Groups.RemoveFromGroupAsync(Context.ConnectionId, $"queue:{queueId}");
     }
+
+    /// <summary>
+    /// No-op the client times to measure round-trip latency for connection diagnostics.
+    /// </summary>
+    public Task Ping() => Task.CompletedTask;
 }
@@ -1,6 +1,8 @@
 import type { Metadata } from "next";
+import { redirect } from "next/navigation";
 import { JoinQueueClient } from "./JoinQueueClient";
 import type { QueuesResponse } from "@/features/customer/JoinQueue";
+import { findRenamedQueueSlug } from "@/features/customer/queueLinks";
 
 interface Props {
   params: Promise<{
@@ -56,6 +58,12 @@ export default async function JoinPage({ params }: Props) {
   // Fetch queue data server-side for faster initial render
   const serverData = await getQueueData(businessSlug);
 
+  // Old links to a renamed queue forward to its current slug
+  const renamedSlug = serverData && queueSlug?.[0] ? findRenamedQueueSlug(serverData, queueSlug[0]) : undefined;
+  if (renamedSlug) {
+    redirect(`/join/${businessSlug}/${renamedSlug}`);
+  }
+
   return (
     <JoinQueueClient
       businessSlug={businessSlug}
@@ -0,0 +1,25 @@
+"use client";
+
+import { use } from "react";
+import { AnalyticsPage } from "@/features/staff/AnalyticsPage";
+import { ProtectedRoute } from "@/features/auth/components/ProtectedRoute";
+
+interface Props {
+  params: Promise<{
+    businessSlug: string;
+  }>;
+  searchParams: Promise<{
+    queue?: string;
+  }>;
+}
+
+export default function StaffAnalyticsPage({ params, searchParams }: Props) {
+  const { businessSlug } = use(params);
+  const { queue } = use(searchParams);
+
+  return (
+    <ProtectedRoute requireBusiness={businessSlug} requirePermission="viewReports">
+      <AnalyticsPage businessSlug={businessSlug} initialQueueId={queue} />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { use } from "react";
+import { QueueHistoryPage } from "@/features/staff/QueueHistoryPage";
+import { ProtectedRoute } from "@/features/auth/components/ProtectedRoute";
+
+interface Props {
+  params: Promise<{
+    businessSlug: string;
+    queueId: string;
+  }>;
+}
+
+export default function StaffQueueHistoryPage({ params }: Props) {
+  const { businessSlug, queueId } = use(params);
+
+  // viewReports can be granted per queue, so the API decides - a refusal shows on the page
+  return (
+    <ProtectedRoute requireBusiness={businessSlug}>
+      <QueueHistoryPage businessSlug={businessSlug} queueId={queueId} />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { use } from "react";
+import type { ReactNode } from "react";
+import { LockModeProvider } from "@/features/staff/LockModeProvider";
+
+interface Props {
+  children: ReactNode;
+  params: Promise<{
+    businessSlug: string;
+  }>;
+}
+
+export default function StaffLayout({ children, params }: Props) {
+  const { businessSlug } = use(params);
+
+  // Lock mode outlives the pages, so a shared device stays unlocked (or locked) while staff move between them
+  return <LockModeProvider businessSlug={businessSlug}>{children}</LockModeProvider>;
+}
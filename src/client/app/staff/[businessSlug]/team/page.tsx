@@ -0,0 +1,21 @@
+"use client";
+
+import { use } from "react";
+import { TeamPage } from "@/features/staff/TeamPage";
+import { ProtectedRoute } from "@/features/auth/components/ProtectedRoute";
+
+interface Props {
+  params: Promise<{
+    businessSlug: string;
+  }>;
+}
+
+export default function StaffTeamPage({ params }: Props) {
+  const { businessSlug } = use(params);
+
+  return (
+    <ProtectedRoute requireBusiness={businessSlug} requirePermission="manageTeam">
+      <TeamPage businessSlug={businessSlug} />
+    </ProtectedRoute>
+  );
+}
@@ -3,11 +3,14 @@
 import type { ReactNode } from "react";
 import { AuthProvider } from "@/features/auth/AuthContext";
 import { ErrorBoundary } from "@/shared/components/ErrorBoundary";
+import { HubConnectionProvider } from "@/shared/signalr/HubConnectionProvider";
 
 export function Providers({ children }: { children: ReactNode }) {
   return (
     <ErrorBoundary>
-      <AuthProvider>{children}</AuthProvider>
+      <AuthProvider>
+        <HubConnectionProvider>{children}</HubConnectionProvider>
+      </AuthProvider>
     </ErrorBoundary>
   );
 }
@@ -2,6 +2,7 @@ import { render, screen, waitFor, act } from "@testing-library/react";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { AuthProvider } from "./AuthContext";
 import { useAuth } from "./hooks/useAuth";
+import { apiFetch } from "../../shared/utils/apiClient";
 
 // Mock fetch
 const mockFetch = vi.fn();
@@ -201,6 +202,106 @@ describe("AuthContext", () => {
     expect(screen.getByTestId("user").textContent).toBe("null");
   });
 
+  it("sends the token with API requests and signs out when the server rejects it", async () => {
+    localStorage.setItem("auth_token", "valid-token");
+
+    mockFetch.mockImplementation((url: string) => {
+      if (url.includes("/api/auth/me")) {
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ userId: "user-1", email: "test@example.com", businesses: [] }),
+        });
+      }
+      return Promise.resolve({ ok: false, status: 401 });
+    });
+
+    render(
+      <AuthProvider>
+        <AuthStateDisplay />
+      </AuthProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId("isAuthenticated").textContent).toBe("true");
+    });
+
+    await act(async () => {
+      await apiFetch("/api/queues/queue-1/customers");
+    });
+
+    expect(mockFetch).toHaveBeenLastCalledWith("/api/queues/queue-1/customers", {
+      headers: { Authorization: "Bearer valid-token" },
+      body: undefined,
+    });
+    expect(localStorage.getItem("auth_token")).toBeNull();
+    expect(screen.getByTestId("isAuthenticated").textContent).toBe("false");
+  });
+
+  it("refreshes a rejected token and retries the request", async () => {
+    localStorage.setItem("auth_token", "old-token");
+    localStorage.setItem("auth_refresh_token", "refresh-1");
+
+    mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+      const authorization = (init?.headers as Record<string, string> | undefined)?.Authorization;
+      if (url.includes("/api/auth/refresh")) {
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          text: () => Promise.resolve(JSON.stringify({ token: "new-token", refreshToken: "refresh-2" })),
+        });
+      }
+      if (authorization !== "Bearer new-token") {
+        return Promise.resolve({ ok: false, status: 401, text: () => Promise.resolve("") });
+      }
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ userId: "user-1", email: "test@example.com", businesses: [] }),
+      });
+    });
+
+    render(
+      <AuthProvider>
+        <AuthStateDisplay />
+      </AuthProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId("isAuthenticated").textContent).toBe("true");
+    });
+    expect(localStorage.getItem("auth_token")).toBe("new-token");
+    expect(localStorage.getItem("auth_refresh_token")).toBe("refresh-2");
+    expect(mockFetch).toHaveBeenCalledWith("/api/auth/refresh", expect.objectContaining({
+      body: JSON.stringify({ refreshToken: "refresh-1" }),
+    }));
+  });
+
+  it("signs out when another tab signs out", async () => {
+    localStorage.setItem("auth_token", "valid-token");
+
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ userId: "user-1", email: "test@example.com", businesses: [] }),
+    });
+
+    render(
+      <AuthProvider>
+        <AuthStateDisplay />
+      </AuthProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId("isAuthenticated").textContent).toBe("true");
+    });
+
+    act(() => {
+      localStorage.removeItem("auth_token");
+      window.dispatchEvent(new StorageEvent("storage", { key: "auth_token", newValue: null }));
+    });
+
+    expect(screen.getByTestId("isAuthenticated").textContent).toBe("false");
+  });
+
   it("addBusiness function adds to businesses array", async () => {
     localStorage.setItem("auth_token", "valid-token");
 
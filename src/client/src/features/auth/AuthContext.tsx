@@ -1,9 +1,14 @@
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useLayoutEffect, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import { AuthContext, TOKEN_KEY } from './authTypes';
-import type { AuthState, User, Business } from './authTypes';
+import type { AuthState, User, Business, Permission } from './authTypes';
+import { getPermissions } from './permissions';
+import { apiFetch, setApiAuth } from '../../shared/utils/apiClient';
+import { REFRESH_AHEAD_MS, clearSession, refreshSession, storeSession, tokenExpiresAt } from './authSession';
+
+const signedOut: AuthState = { user: null, businesses: [], token: null, isLoading: false, isAuthenticated: false };
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<AuthState>({
@@ -25,13 +30,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     try {
-      const response = await fetch('/api/auth/me', {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      // Goes through the API client so an expired token is refreshed first
+      const response = await apiFetch('/api/auth/me');
 
       if (!response.ok) {
-        localStorage.removeItem(TOKEN_KEY);
-        setState({ user: null, businesses: [], token: null, isLoading: false, isAuthenticated: false });
+        clearSession();
+        setState(signedOut);
         return;
       }
 
@@ -39,13 +43,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setState({
         user: { id: data.userId, email: data.email },
         businesses: data.businesses || [],
-        token,
+        token: localStorage.getItem(TOKEN_KEY),
         isLoading: false,
         isAuthenticated: true,
       });
     } catch {
-      localStorage.removeItem(TOKEN_KEY);
-      setState({ user: null, businesses: [], token: null, isLoading: false, isAuthenticated: false });
+      clearSession();
+      setState(signedOut);
     }
   }, []);
 
@@ -53,16 +57,74 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     fetchMe();
   }, [fetchMe]);
 
-  const login = useCallback((token: string, user: User) => {
-    localStorage.setItem(TOKEN_KEY, token);
+  const login = useCallback((token: string, user: User, refreshToken?: string) => {
+    storeSession(token, refreshToken);
     setState(s => ({ ...s, token, user, isAuthenticated: true, isLoading: false }));
   }, []);
 
+  // Local only - the server already rejected the session
+  const endSession = useCallback(() => {
+    clearSession();
+    setState(signedOut);
+  }, []);
+
   const logout = useCallback(() => {
-    localStorage.removeItem(TOKEN_KEY);
-    setState({ user: null, businesses: [], token: null, isLoading: false, isAuthenticated: false });
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (token) {
+      // Best effort: a session the server doesn't hear about still expires
+      apiFetch('/api/auth/logout', { method: 'POST', token }).catch(() => {});
+    }
+    endSession();
+  }, [endSession]);
+
+  const refresh = useCallback(async (staleToken: string) => {
+    const token = await refreshSession(staleToken);
+    if (token) setState(s => ({ ...s, token }));
+    return token;
   }, []);
 
+  // Layout effect so it is in place before children's effects make their first requests
+  useLayoutEffect(() => setApiAuth({
+    getToken: () => localStorage.getItem(TOKEN_KEY),
+    refresh,
+    onUnauthorized: endSession,
+  }), [refresh, endSession]);
+
+  // Refresh shortly before the access token expires so requests don't have to wait for it
+  useEffect(() => {
+    const token = state.token;
+    const expiresAt = token ? tokenExpiresAt(token) : null;
+    if (!token || expiresAt === null) return;
+
+    const timer = setTimeout(() => {
+      refresh(token)
+        .then(token => {
+          if (!token) endSession();
+        })
+        // Offline - the next request refreshes when it gets a 401
+        .catch(() => {});
+    }, Math.max(0, expiresAt - Date.now() - REFRESH_AHEAD_MS));
+
+    return () => clearTimeout(timer);
+  }, [state.token, refresh, endSession]);
+
+  // Other tabs signing in, refreshing or signing out
+  useEffect(() => {
+    function handleStorage(event: StorageEvent) {
+      // key is null when storage was cleared
+      if (event.key !== TOKEN_KEY && event.key !== null) return;
+
+      if (localStorage.getItem(TOKEN_KEY)) {
+        fetchMe();
+      } else {
+        setState(signedOut);
+      }
+    }
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [fetchMe]);
+
   const addBusiness = useCallback((business: Business) => {
     setState(s => ({ ...s, businesses: [...s.businesses, business] }));
   }, []);
@@ -72,8 +134,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return business?.role === "owner";
   }, [state.businesses]);
 
+  const can = useCallback((businessSlug: string, permission: Permission, queueId?: string | null): boolean => {
+    const business = state.businesses.find(b => b.slug === businessSlug);
+    return getPermissions(business, queueId).includes(permission);
+  }, [state.businesses]);
+
   return (
-    <AuthContext.Provider value={{ ...state, login, logout, addBusiness, fetchMe, isOwner }}>
+    <AuthContext.Provider value={{ ...state, login, logout, addBusiness, fetchMe, isOwner, can }}>
       {children}
     </AuthContext.Provider>
   );
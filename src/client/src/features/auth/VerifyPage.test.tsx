@@ -130,6 +130,47 @@ describe("VerifyPage", () => {
     });
   });
 
+  it("redirects to the inviting business after accepting a staff invite", async () => {
+    mockFetch.mockImplementation((url: string) => {
+      if (url.includes("/api/auth/verify")) {
+        const data = {
+          token: "jwt-token",
+          userId: "user-1",
+          email: "staff@example.com",
+          isNewUser: false,
+          invitedBusinessSlug: "second-shop",
+        };
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(data),
+          text: () => Promise.resolve(JSON.stringify(data)),
+        });
+      }
+      if (url.includes("/api/auth/me")) {
+        const data = {
+          userId: "user-1",
+          email: "staff@example.com",
+          businesses: [
+            { id: "biz-1", name: "My Shop", slug: "my-shop", role: "owner" },
+            { id: "biz-2", name: "Second Shop", slug: "second-shop", role: "staff" },
+          ],
+        };
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(data),
+          text: () => Promise.resolve(JSON.stringify(data)),
+        });
+      }
+      return Promise.resolve({ ok: false, status: 404, text: () => Promise.resolve("") });
+    });
+
+    renderVerifyPage();
+
+    await waitFor(() => {
+      expect(mockReplace).toHaveBeenCalledWith("/staff/second-shop");
+    });
+  });
+
   it("shows error for invalid token", async () => {
     mockFetch.mockImplementation((url: string) => {
       if (url.includes("/api/auth/me")) {
@@ -177,6 +218,7 @@ describe("VerifyPage", () => {
       if (url.includes("/api/auth/verify")) {
         const data = {
           token: "jwt-token-123",
+          refreshToken: "refresh-token-123",
           userId: "user-1",
           email: "test@example.com",
           isNewUser: false,
@@ -207,5 +249,6 @@ describe("VerifyPage", () => {
     await waitFor(() => {
       expect(localStorage.getItem("auth_token")).toBe("jwt-token-123");
     });
+    expect(localStorage.getItem("auth_refresh_token")).toBe("refresh-token-123");
   });
 });
@@ -10,8 +10,11 @@ type VerifyState = "loading" | "error";
 
 interface VerifyResponse {
   token: string;
+  refreshToken: string;
   userId: string;
   email: string;
+  /** Set when the link was a staff invite */
+  invitedBusinessSlug?: string | null;
 }
 
 export function VerifyPage() {
@@ -20,6 +23,7 @@ export function VerifyPage() {
   const { login, fetchMe, businesses } = useAuth();
   const [pageState, setPageState] = useState<VerifyState>("loading");
   const [error, setError] = useState<string | null>(null);
+  const [invitedBusinessSlug, setInvitedBusinessSlug] = useState<string | null>(null);
 
   useEffect(() => {
     const token = searchParams.get("token");
@@ -54,7 +58,10 @@ export function VerifyPage() {
         const data: VerifyResponse = await response.json();
 
         // Step 2: Store the JWT and user info in auth context
-        login(data.token, { id: data.userId, email: data.email });
+        login(data.token, { id: data.userId, email: data.email }, data.refreshToken);
+        if (!isCancelled && data.invitedBusinessSlug) {
+          setInvitedBusinessSlug(data.invitedBusinessSlug);
+        }
 
         // Step 3: Fetch user's businesses
         await fetchMe();
@@ -80,7 +87,9 @@ export function VerifyPage() {
       // Check if businesses have been loaded (fetchMe completed)
       // We need to wait for the auth context to update after fetchMe
       if (businesses.length > 0) {
-        router.replace(`/staff/${businesses[0].slug}`);
+        // Accepted invites open the business that sent them
+        const invited = businesses.find((b) => b.slug === invitedBusinessSlug);
+        router.replace(`/staff/${(invited ?? businesses[0]).slug}`);
       } else if (businesses.length === 0) {
         // Only redirect to onboarding if we've confirmed no businesses
         // We need to check if auth is complete
@@ -91,7 +100,7 @@ export function VerifyPage() {
         }
       }
     }
-  }, [pageState, businesses, router]);
+  }, [pageState, businesses, router, invitedBusinessSlug]);
 
   if (pageState === "loading") {
     return (
@@ -0,0 +1,89 @@
+import { apiRequest } from '../../shared/utils/apiClient';
+import { REFRESH_TOKEN_KEY, TOKEN_KEY } from './authTypes';
+
+/** Refresh this long before the access token expires, so requests never race the expiry */
+export const REFRESH_AHEAD_MS = 60_000;
+
+const REFRESH_LOCK = 'queuedrop-auth-refresh';
+
+interface RefreshResponse {
+  token: string;
+  refreshToken: string;
+}
+
+/** When a JWT expires (ms since epoch), or null if the token isn't one we can read */
+export function tokenExpiresAt(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeSession(token: string, refreshToken?: string) {
+  localStorage.setItem(TOKEN_KEY, token);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  } else {
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+}
+
+export function clearSession() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+async function exchangeRefreshToken(staleToken: string): Promise<string | null> {
+  // Another tab (or an earlier caller) already replaced it
+  const current = localStorage.getItem(TOKEN_KEY);
+  if (current && current !== staleToken) return current;
+
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return null;
+
+  const result = await apiRequest<RefreshResponse>(
+    '/api/auth/refresh',
+    { method: 'POST', json: { refreshToken }, token: null },
+    'Session expired',
+  );
+
+  if (!result.ok) {
+    if (result.status !== 401) throw new Error(result.error);
+    clearSession();
+    return null;
+  }
+
+  if (!result.data) throw new Error('Invalid response from server');
+
+  storeSession(result.data.token, result.data.refreshToken);
+  return result.data.token;
+}
+
+let inFlight: Promise<string | null> | null = null;
+
+async function refreshInTurn(staleToken: string): Promise<string | null> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return exchangeRefreshToken(staleToken);
+  }
+  return navigator.locks.request(REFRESH_LOCK, () => exchangeRefreshToken(staleToken));
+}
+
+/**
+ * Replaces staleToken: swaps the stored refresh token for a new access token and stores both.
+ * Resolves to null once the session is over. Network and server errors throw and leave the session alone.
+ *
+ * Refresh tokens are single-use, so concurrent callers share one request and tabs
+ * take turns through a Web Lock - two tabs racing would sign each other out.
+ */
+export function refreshSession(staleToken: string): Promise<string | null> {
+  const request = inFlight ?? refreshInTurn(staleToken).finally(() => {
+    inFlight = null;
+  });
+  inFlight = request;
+  return request;
+}
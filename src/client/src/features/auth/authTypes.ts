@@ -7,11 +7,22 @@ export interface User {
 
 export type BusinessRole = "owner" | "staff";
 
+export type Permission = "callCustomers" | "manageCustomers" | "editSettings" | "viewReports" | "manageTeam";
+
+/** Replaces the business-wide permissions on one queue */
+export interface QueuePermissions {
+  queueId: string;
+  permissions: Permission[];
+}
+
 export interface Business {
   id: string;
   name: string;
   slug: string;
   role: BusinessRole;
+  /** Business-wide permissions. Missing for businesses added on the client (e.g. right after onboarding) */
+  permissions?: Permission[];
+  queuePermissions?: QueuePermissions[];
 }
 
 export interface AuthState {
@@ -23,13 +34,17 @@ export interface AuthState {
 }
 
 export interface AuthContextValue extends AuthState {
-  login: (token: string, user: User) => void;
+  /** refreshToken is missing for sessions that can't be refreshed; they end when the token expires */
+  login: (token: string, user: User, refreshToken?: string) => void;
   logout: () => void;
   addBusiness: (business: Business) => void;
   fetchMe: () => Promise<void>;
   isOwner: (businessSlug: string) => boolean;
+  /** Whether the user may do something in a business, on a specific queue when one is given */
+  can: (businessSlug: string, permission: Permission, queueId?: string | null) => boolean;
 }
 
 export const AuthContext = createContext<AuthContextValue | null>(null);
 
 export const TOKEN_KEY = 'auth_token';
+export const REFRESH_TOKEN_KEY = 'auth_refresh_token';
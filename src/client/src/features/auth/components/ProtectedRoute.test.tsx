@@ -3,6 +3,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { useRouter, usePathname } from "next/navigation";
 import { ProtectedRoute } from "./ProtectedRoute";
 import { AuthProvider } from "../AuthContext";
+import type { Permission } from "../authTypes";
 
 // Get mock router
 const mockReplace = vi.fn();
@@ -25,10 +26,11 @@ global.fetch = mockFetch;
 
 function renderProtectedRoute(options: {
   authenticated?: boolean;
-  businesses?: Array<{ id: string; name: string; slug: string }>;
+  businesses?: Array<{ id: string; name: string; slug: string; role?: string; permissions?: Permission[] }>;
   requireBusiness?: string;
+  requirePermission?: Permission;
 }) {
-  const { authenticated = false, businesses = [], requireBusiness } = options;
+  const { authenticated = false, businesses = [], requireBusiness, requirePermission } = options;
 
   if (authenticated) {
     localStorage.setItem("auth_token", "test-token");
@@ -55,7 +57,7 @@ function renderProtectedRoute(options: {
 
   return render(
     <AuthProvider>
-      <ProtectedRoute requireBusiness={requireBusiness}>
+      <ProtectedRoute requireBusiness={requireBusiness} requirePermission={requirePermission}>
         <div>Protected Content</div>
       </ProtectedRoute>
     </AuthProvider>
@@ -136,4 +138,31 @@ describe("ProtectedRoute", () => {
       expect(screen.getByText("Protected Content")).toBeInTheDocument();
     });
   });
+
+  it("sends staff without the required permission back to the dashboard", async () => {
+    renderProtectedRoute({
+      authenticated: true,
+      businesses: [{ id: "biz-1", name: "My Shop", slug: "my-shop", role: "staff", permissions: ["callCustomers"] }],
+      requireBusiness: "my-shop",
+      requirePermission: "manageTeam",
+    });
+
+    await waitFor(() => {
+      expect(mockReplace).toHaveBeenCalledWith("/staff/my-shop");
+    });
+    expect(screen.queryByText("Protected Content")).not.toBeInTheDocument();
+  });
+
+  it("renders children for staff granted the required permission", async () => {
+    renderProtectedRoute({
+      authenticated: true,
+      businesses: [{ id: "biz-1", name: "My Shop", slug: "my-shop", role: "staff", permissions: ["manageTeam"] }],
+      requireBusiness: "my-shop",
+      requirePermission: "manageTeam",
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText("Protected Content")).toBeInTheDocument();
+    });
+  });
 });
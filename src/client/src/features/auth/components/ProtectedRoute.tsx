@@ -3,14 +3,16 @@
 import { useRouter, usePathname } from "next/navigation";
 import { useEffect } from "react";
 import { useAuth } from "../hooks/useAuth";
+import type { Permission } from "../authTypes";
 
 interface Props {
   children: React.ReactNode;
   requireBusiness?: string; // Optional: require membership in specific business
+  requirePermission?: Permission; // Optional: also require a permission in that business
 }
 
-export function ProtectedRoute({ children, requireBusiness }: Props) {
-  const { isAuthenticated, isLoading, businesses } = useAuth();
+export function ProtectedRoute({ children, requireBusiness, requirePermission }: Props) {
+  const { isAuthenticated, isLoading, businesses, can } = useAuth();
   const router = useRouter();
   const pathname = usePathname();
 
@@ -26,8 +28,14 @@ export function ProtectedRoute({ children, requireBusiness }: Props) {
 
     if (requireBusiness && !businesses.some((b) => b.slug === requireBusiness)) {
       router.replace("/404");
+      return;
+    }
+
+    // Members without the permission go back to the dashboard they can use
+    if (requireBusiness && requirePermission && !can(requireBusiness, requirePermission)) {
+      router.replace(`/staff/${requireBusiness}`);
     }
-  }, [isAuthenticated, isLoading, businesses, requireBusiness, router, pathname]);
+  }, [isAuthenticated, isLoading, businesses, requireBusiness, requirePermission, can, router, pathname]);
 
   if (isLoading) {
     return (
@@ -45,7 +53,11 @@ export function ProtectedRoute({ children, requireBusiness }: Props) {
     );
   }
 
-  if (requireBusiness && !businesses.some((b) => b.slug === requireBusiness)) {
+  if (
+    requireBusiness &&
+    (!businesses.some((b) => b.slug === requireBusiness) ||
+      (requirePermission && !can(requireBusiness, requirePermission)))
+  ) {
     return (
       <div className="min-h-screen bg-slate-950 flex items-center justify-center">
         <div className="text-slate-400">Redirecting...</div>
@@ -0,0 +1,107 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { apiRequest } from "../../../shared/utils/apiClient";
+import { describeDevice } from "../deviceName";
+
+interface Session {
+  sessionId: string;
+  device: string;
+  createdAt: string;
+  lastUsedAt: string;
+  isCurrent: boolean;
+}
+
+/**
+ * The devices the user is signed in on, with a way to sign the others out
+ * (a lost phone, or a tablet left behind at a previous job).
+ */
+export function SessionList() {
+  const [sessions, setSessions] = useState<Session[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const result = await apiRequest<{ sessions: Session[] }>(
+        "/api/auth/sessions",
+        {},
+        "Failed to load your sessions",
+      );
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setSessions(result.data?.sessions ?? []);
+    } catch {
+      setError("Couldn't reach the server. Check your connection.");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  async function handleRevoke(session: Session) {
+    setRevokingId(session.sessionId);
+    setError(null);
+    try {
+      const result = await apiRequest(
+        `/api/auth/sessions/${session.sessionId}`,
+        { method: "DELETE" },
+        "Failed to sign that device out",
+      );
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setSessions((current) => current?.filter((s) => s.sessionId !== session.sessionId) ?? null);
+    } catch {
+      setError("Couldn't reach the server. Check your connection.");
+    } finally {
+      setRevokingId(null);
+    }
+  }
+
+  return (
+    <div className="px-4 py-2">
+      {error && (
+        <p role="alert" className="text-xs text-red-400 mb-2">
+          {error}
+        </p>
+      )}
+      {sessions === null && !error && <p className="text-xs text-slate-500">Loading sessions...</p>}
+      {sessions && (
+        <ul className="space-y-2" aria-label="Your sessions">
+          {sessions.map((session) => {
+            const name = describeDevice(session.device);
+            return (
+              <li key={session.sessionId} className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-slate-300 truncate" title={session.device}>
+                    {name}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {session.isCurrent
+                      ? "This device"
+                      : `Last active ${new Date(session.lastUsedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {!session.isCurrent && (
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={revokingId === session.sessionId}
+                    aria-label={`Sign out ${name}`}
+                    className="shrink-0 px-2 py-1 text-xs rounded-none border border-slate-700 text-slate-300 hover:border-red-400 hover:text-red-400 disabled:opacity-40 transition-colors"
+                  >
+                    Sign out
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -48,6 +48,35 @@ function renderUserMenu(options: {
       }
       return Promise.resolve({ ok: false, status: 401, text: () => Promise.resolve("") });
     }
+    if (url.endsWith("/api/auth/sessions")) {
+      const data = {
+        sessions: [
+          {
+            sessionId: "session-1",
+            device: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 Version/17.0 Safari/605.1.15",
+            createdAt: "2024-01-01T10:00:00Z",
+            lastUsedAt: "2024-01-02T10:00:00Z",
+            isCurrent: true,
+          },
+          {
+            sessionId: "session-2",
+            device: "Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile Safari/604.1",
+            createdAt: "2024-01-01T09:00:00Z",
+            lastUsedAt: "2024-01-01T18:00:00Z",
+            isCurrent: false,
+          },
+        ],
+      };
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(data),
+        text: () => Promise.resolve(JSON.stringify(data)),
+      });
+    }
+    if (url.includes("/api/auth/sessions/")) {
+      return Promise.resolve({ ok: true, status: 204, text: () => Promise.resolve("") });
+    }
     return Promise.resolve({ ok: false, status: 404, text: () => Promise.resolve("") });
   });
 
@@ -229,4 +258,31 @@ describe("UserMenu", () => {
     expect(screen.queryByText("Switch business")).not.toBeInTheDocument();
     expect(screen.getByText("Sign out")).toBeInTheDocument();
   });
+
+  it("lists signed-in devices and signs another one out", async () => {
+    const user = userEvent.setup();
+    renderUserMenu({ authenticated: true });
+
+    await waitFor(() => {
+      expect(screen.getByText("T")).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByRole("button", { expanded: false }));
+    await user.click(screen.getByRole("button", { name: "Your sessions" }));
+
+    expect(await screen.findByText("Safari on Mac")).toBeInTheDocument();
+    expect(screen.getByText("This device")).toBeInTheDocument();
+    // The current device is signed out with "Sign out" below, not from the list
+    expect(screen.queryByRole("button", { name: "Sign out Safari on Mac" })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Sign out Safari on iPad" }));
+
+    await waitFor(() => {
+      expect(screen.queryByText("Safari on iPad")).not.toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith(
+      "/api/auth/sessions/session-2",
+      expect.objectContaining({ method: "DELETE" }),
+    );
+  });
 });
@@ -3,10 +3,12 @@
 import { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '../hooks/useAuth';
+import { SessionList } from './SessionList';
 
 export function UserMenu() {
   const { user, logout, businesses } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
 
@@ -104,6 +106,21 @@ export function UserMenu() {
             </div>
           )}
 
+          {/* Signed-in devices */}
+          <div className="py-1 border-b border-slate-800">
+            <button
+              onClick={() => setShowSessions(!showSessions)}
+              aria-expanded={showSessions}
+              className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:bg-slate-800 transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" />
+              </svg>
+              Your sessions
+            </button>
+            {showSessions && <SessionList />}
+          </div>
+
           {/* Sign out */}
           <div className="py-1">
             <button
@@ -0,0 +1,31 @@
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(A|iOS)?\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/iPad/, "iPad"],
+  [/iPhone/, "iPhone"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Macintosh|Mac OS X/, "Mac"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+function firstMatch(userAgent: string, patterns: Array<[RegExp, string]>) {
+  return patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+}
+
+/** Short name for a signed-in device, e.g. "Safari on iPad" */
+export function describeDevice(userAgent: string): string {
+  const browser = firstMatch(userAgent, BROWSERS);
+  const system = firstMatch(userAgent, SYSTEMS);
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? userAgent;
+}
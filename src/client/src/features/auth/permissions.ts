@@ -0,0 +1,35 @@
+import type { Business, Permission } from "./authTypes";
+
+export const ALL_PERMISSIONS: Permission[] = [
+  "callCustomers",
+  "manageCustomers",
+  "editSettings",
+  "viewReports",
+  "manageTeam",
+];
+
+/** Permissions that can be narrowed on a single queue - the rest only make sense business-wide */
+export const QUEUE_PERMISSIONS: Permission[] = ["callCustomers", "manageCustomers", "editSettings"];
+
+/** What the server gives new staff */
+export const DEFAULT_STAFF_PERMISSIONS: Permission[] = ["callCustomers", "manageCustomers", "editSettings"];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  callCustomers: "Call and serve customers",
+  manageCustomers: "Remove, reorder and transfer customers",
+  editSettings: "Edit settings and open or close queues",
+  viewReports: "View reports",
+  manageTeam: "Invite and remove staff",
+};
+
+/** Effective permissions in a business, on a queue when one is given. Owners can do everything. */
+export function getPermissions(
+  business: Pick<Business, "role" | "permissions" | "queuePermissions"> | undefined,
+  queueId?: string | null,
+): Permission[] {
+  if (!business) return [];
+  if (business.role === "owner") return ALL_PERMISSIONS;
+
+  const queueOverride = queueId ? business.queuePermissions?.find((q) => q.queueId === queueId) : undefined;
+  return queueOverride?.permissions ?? business.permissions ?? DEFAULT_STAFF_PERMISSIONS;
+}
@@ -1,11 +1,13 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
 import { JoinQueue } from "./JoinQueue";
 
 // Mock next/navigation
 const mockPush = vi.fn();
+const mockReplace = vi.fn();
 vi.mock("next/navigation", () => ({
-  useRouter: () => ({ push: mockPush }),
+  useRouter: () => ({ push: mockPush, replace: mockReplace }),
   notFound: vi.fn(),
 }));
 
@@ -41,6 +43,16 @@ function createMockResponse(data: unknown, ok = true, status = 200) {
   };
 }
 
+// A queue without operating hours
+const alwaysOpen = {
+  isOpen: true,
+  acceptsJoins: true,
+  opensAt: null,
+  closesAt: null,
+  lastJoinAt: null,
+  timeZone: null,
+};
+
 const mockServerData = {
   businessId: "b-1",
   businessName: "Test Shop",
@@ -51,6 +63,11 @@ const mockServerData = {
       slug: "main-queue",
       waitingCount: 3,
       estimatedWaitMinutes: 10,
+      estimatedWait: { minMinutes: 7, maxMinutes: 13 },
+      isPaused: false,
+      canJoin: true,
+      opening: alwaysOpen,
+      joinFields: [],
     },
   ],
 };
@@ -83,6 +100,21 @@ describe("JoinQueue", () => {
         expect(screen.getByText("Test Shop")).toBeInTheDocument();
       });
     });
+
+    it("should forward an old link to the renamed queue", async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({
+          ...mockServerData,
+          slugRedirects: [{ fromSlug: "old-queue", toSlug: "main-queue" }],
+        }),
+      );
+
+      render(<JoinQueue businessSlug="test-shop" queueSlug="old-queue" />);
+
+      await waitFor(() => {
+        expect(mockReplace).toHaveBeenCalledWith("/join/test-shop/main-queue");
+      });
+    });
   });
 
   describe("with serverData (server-side fetch)", () => {
@@ -143,6 +175,139 @@ describe("JoinQueue", () => {
     });
   });
 
+  describe("paused queue", () => {
+    const pausedData = {
+      ...mockServerData,
+      queues: [{ ...mockServerData.queues[0], isPaused: true, canJoin: false }],
+    };
+
+    it("should explain the pause and block joining", () => {
+      render(<JoinQueue businessSlug="test-shop" queueSlug="main-queue" serverData={pausedData} />);
+
+      expect(screen.getByText("This queue is paused")).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Join Queue" })).toBeDisabled();
+    });
+
+    it("should still allow joining when the queue takes customers while paused", () => {
+      const joinablePausedData = {
+        ...pausedData,
+        queues: [{ ...pausedData.queues[0], canJoin: true }],
+      };
+      render(<JoinQueue businessSlug="test-shop" queueSlug="main-queue" serverData={joinablePausedData} />);
+
+      expect(screen.getByText(/You can still join/)).toBeInTheDocument();
+    });
+  });
+
+  describe("outside opening hours", () => {
+    // Monday 02:00 in London
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-01-15T02:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function closedData(opensAt: string | null) {
+      return {
+        ...mockServerData,
+        queues: [
+          {
+            ...mockServerData.queues[0],
+            canJoin: false,
+            opening: { ...alwaysOpen, isOpen: false, acceptsJoins: false, opensAt, timeZone: "Europe/London" },
+          },
+        ],
+      };
+    }
+
+    it("should say when the queue opens and block joining", () => {
+      render(
+        <JoinQueue businessSlug="test-shop" queueSlug="main-queue" serverData={closedData("2024-01-15T11:00:00Z")} />,
+      );
+
+      expect(screen.getByText("Opens at 11:00")).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Join Queue" })).toBeDisabled();
+    });
+
+    it("should say closed today when the queue doesn't open again today", () => {
+      render(
+        <JoinQueue businessSlug="test-shop" queueSlug="main-queue" serverData={closedData("2024-01-16T09:00:00Z")} />,
+      );
+
+      expect(screen.getByText("Closed today")).toBeInTheDocument();
+      expect(screen.getByText("Opens tomorrow at 09:00.")).toBeInTheDocument();
+    });
+  });
+
+  describe("with join questions", () => {
+    const restaurantData = {
+      ...mockServerData,
+      queues: [
+        {
+          ...mockServerData.queues[0],
+          joinFields: [
+            {
+              key: "party",
+              label: "Party size",
+              type: "PartySize" as const,
+              required: true,
+              options: [],
+              min: 1,
+              max: 8,
+            },
+            {
+              key: "high-chair",
+              label: "High chair",
+              type: "Checkbox" as const,
+              required: false,
+              options: [],
+              min: null,
+              max: null,
+            },
+            {
+              key: "seating",
+              label: "Seating",
+              type: "Choice" as const,
+              required: false,
+              options: ["Inside", "Outside"],
+              min: null,
+              max: null,
+            },
+          ],
+        },
+      ],
+    };
+
+    it("should ask the queue's questions after the name", () => {
+      render(<JoinQueue businessSlug="test-shop" queueSlug="main-queue" serverData={restaurantData} />);
+
+      expect(screen.getByLabelText("Party size")).toBeRequired();
+      expect(screen.getByLabelText("High chair")).not.toBeChecked();
+      expect(screen.getByRole("option", { name: "Outside" })).toBeInTheDocument();
+    });
+
+    it("should send the answers with the name", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockResolvedValue(
+        createMockResponse({ token: "abc", position: 1, queueName: "Main Queue", queueSlug: "main-queue" }),
+      );
+      render(<JoinQueue businessSlug="test-shop" queueSlug="main-queue" serverData={restaurantData} />);
+
+      await user.type(screen.getByLabelText("Your name"), "Alice");
+      await user.type(screen.getByLabelText("Party size"), "4");
+      await user.click(screen.getByLabelText("High chair"));
+      await user.selectOptions(screen.getByLabelText(/Seating/), "Outside");
+      await user.click(screen.getByRole("button", { name: "Join Queue" }));
+
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith("/q/abc"));
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toEqual({ name: "Alice", answers: { party: "4", "high-chair": "true", seating: "Outside" } });
+    });
+  });
+
   describe("with multiple queues", () => {
     const multiQueueData = {
       businessId: "b-1",
@@ -154,6 +319,11 @@ describe("JoinQueue", () => {
           slug: "main-queue",
           waitingCount: 3,
           estimatedWaitMinutes: 10,
+          estimatedWait: { minMinutes: 7, maxMinutes: 13 },
+          isPaused: false,
+          canJoin: true,
+          opening: alwaysOpen,
+          joinFields: [],
         },
         {
           queueId: "q-2",
@@ -161,6 +331,11 @@ describe("JoinQueue", () => {
           slug: "express-queue",
           waitingCount: 1,
           estimatedWaitMinutes: 5,
+          estimatedWait: { minMinutes: 0, maxMinutes: 0 },
+          isPaused: false,
+          canJoin: true,
+          opening: alwaysOpen,
+          joinFields: [],
         },
       ],
     };
@@ -181,6 +356,15 @@ describe("JoinQueue", () => {
       expect(screen.getByRole("button", { name: /Main Queue/i })).toBeInTheDocument();
       expect(screen.getByRole("button", { name: /Express Queue/i })).toBeInTheDocument();
     });
+
+    it("should show each queue's estimated wait as a range", () => {
+      render(
+        <JoinQueue businessSlug="test-shop" serverData={multiQueueData} />
+      );
+
+      expect(screen.getByRole("button", { name: /Main Queue/i })).toHaveTextContent("7–13 min");
+      expect(screen.getByRole("button", { name: /Express Queue/i })).toHaveTextContent("Any moment now");
+    });
   });
 
   describe("error handling", () => {
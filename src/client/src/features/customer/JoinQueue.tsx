@@ -3,6 +3,11 @@ import { useRouter } from "next/navigation";
 import { notFound } from "next/navigation";
 import { getApiErrorMessage, safeJsonParse } from "../../shared/utils/api";
 import { QueueSelector } from "./components/QueueSelector";
+import { JoinFormFields, type JoinAnswers, type JoinField } from "./components/JoinFormFields";
+import { findRenamedQueueSlug } from "./queueLinks";
+import { queueTokenKey } from "./queueTokens";
+import { describeOpening, type OpeningStatus } from "./openingHours";
+import type { WaitEstimate } from "../../shared/signalr/queueHubContract";
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || "";
 
@@ -11,13 +16,22 @@ interface Queue {
   name: string;
   slug: string;
   waitingCount: number;
-  estimatedWaitMinutes: number;
+  /** Wait for someone joining now */
+  estimatedWait: WaitEstimate;
+  isPaused: boolean;
+  /** False outside opening hours, and while paused unless the queue lets people join anyway */
+  canJoin: boolean;
+  opening: OpeningStatus;
+  /** The queue's own questions, asked after the name */
+  joinFields: JoinField[];
 }
 
 export interface QueuesResponse {
   businessId: string;
   businessName: string;
   queues: Queue[];
+  /** Old queue slugs that still forward to a renamed queue */
+  slugRedirects?: { fromSlug: string; toSlug: string }[];
 }
 
 interface JoinResponse {
@@ -52,7 +66,7 @@ function determineInitialState(
 
     // Check for existing token for this specific queue (client-side only)
     const token = typeof window !== "undefined"
-      ? localStorage.getItem(`queue_token_${businessSlug}_${urlQueueSlug}`)
+      ? localStorage.getItem(queueTokenKey(businessSlug, urlQueueSlug))
       : null;
 
     if (token) {
@@ -67,7 +81,7 @@ function determineInitialState(
 
     // Check for existing token (client-side only)
     const token = typeof window !== "undefined"
-      ? localStorage.getItem(`queue_token_${businessSlug}_${singleQueue.slug}`)
+      ? localStorage.getItem(queueTokenKey(businessSlug, singleQueue.slug))
       : null;
 
     if (token) {
@@ -97,6 +111,7 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
   const [loadError, setLoadError] = useState<string | null>(null);
 
   const [name, setName] = useState("");
+  const [answers, setAnswers] = useState<JoinAnswers>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
 
@@ -123,6 +138,12 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
           throw new Error("Invalid response from server");
         }
 
+        const renamedSlug = urlQueueSlug ? findRenamedQueueSlug(data, urlQueueSlug) : undefined;
+        if (renamedSlug) {
+          router.replace(`/join/${businessSlug}/${renamedSlug}`);
+          return;
+        }
+
         setBusinessName(data.businessName);
         setQueues(data.queues);
 
@@ -153,9 +174,10 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
 
     setSelectedQueueSlug(queueSlug);
     setSelectedQueueName(selected.name);
+    setAnswers({});
 
     // Check for existing token for this queue
-    const token = localStorage.getItem(`queue_token_${businessSlug}_${queueSlug}`);
+    const token = localStorage.getItem(queueTokenKey(businessSlug, queueSlug));
     if (token) {
       setExistingToken(token);
       setPageState("already-joined");
@@ -175,7 +197,7 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
       const response = await fetch(`${API_BASE}/api/join/${businessSlug}/${selectedQueueSlug}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: name.trim() }),
+        body: JSON.stringify({ name: name.trim(), answers }),
       });
 
       if (!response.ok) {
@@ -189,7 +211,7 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
       }
 
       // Save token to localStorage with queue-specific key
-      localStorage.setItem(`queue_token_${businessSlug}_${selectedQueueSlug}`, data.token);
+      localStorage.setItem(queueTokenKey(businessSlug, selectedQueueSlug), data.token);
 
       // Navigate to position page
       router.push(`/q/${data.token}`);
@@ -202,7 +224,7 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
 
   const handleJoinAgain = () => {
     if (businessSlug && selectedQueueSlug) {
-      localStorage.removeItem(`queue_token_${businessSlug}_${selectedQueueSlug}`);
+      localStorage.removeItem(queueTokenKey(businessSlug, selectedQueueSlug));
     }
     setExistingToken(null);
     setPageState("join-form");
@@ -315,7 +337,9 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
               name: q.name,
               slug: q.slug,
               waitingCount: q.waitingCount,
-              estimatedWaitMinutes: q.estimatedWaitMinutes,
+              estimatedWait: q.estimatedWait,
+              isPaused: q.isPaused,
+              opening: q.opening,
             }))}
             onSelect={handleQueueSelect}
           />
@@ -325,6 +349,10 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
   }
 
   // Join form state
+  const selectedQueue = queues.find((q) => q.slug === selectedQueueSlug);
+  const joinsPaused = selectedQueue?.canJoin === false;
+  const closedNotice = selectedQueue ? describeOpening(selectedQueue.opening) : null;
+
   return (
     <div className="min-h-screen bg-slate-950 text-white">
       <div className="max-w-md mx-auto px-4 py-8">
@@ -346,6 +374,22 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
           <p className="text-slate-500 mt-2">We'll let you know when it's your turn</p>
         </div>
 
+        {closedNotice ? (
+          <div role="status" className="p-4 bg-slate-900 border border-slate-800 rounded-none mb-6">
+            <p className="text-white font-medium">{closedNotice.title}</p>
+            {closedNotice.detail && <p className="text-slate-400 text-sm">{closedNotice.detail}</p>}
+          </div>
+        ) : selectedQueue?.isPaused && (
+          <div role="status" className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-none mb-6">
+            <p className="text-amber-300 font-medium">This queue is paused</p>
+            <p className="text-amber-400/70 text-sm">
+              {joinsPaused
+                ? "New customers can't join right now. Please check back shortly."
+                : "You can still join - staff will start calling again shortly."}
+            </p>
+          </div>
+        )}
+
         {/* Form */}
         <form onSubmit={handleSubmit}>
           <div className="mb-6">
@@ -366,6 +410,15 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
             />
           </div>
 
+          {selectedQueue && (
+            <JoinFormFields
+              fields={selectedQueue.joinFields}
+              answers={answers}
+              onChange={setAnswers}
+              disabled={isSubmitting}
+            />
+          )}
+
           {submitError && (
             <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-none mb-6">
               <p className="text-red-400 text-sm">{submitError}</p>
@@ -374,7 +427,7 @@ export function JoinQueue({ businessSlug, queueSlug: urlQueueSlug, serverData }:
 
           <button
             type="submit"
-            disabled={isSubmitting || !name.trim()}
+            disabled={isSubmitting || !name.trim() || joinsPaused}
             className="w-full py-4 bg-gradient-to-r from-teal-500 via-emerald-500 to-teal-400 text-slate-950 font-semibold rounded-none hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-[0_14px_30px_rgba(16,185,129,0.28)]"
           >
             {isSubmitting ? (
@@ -1,5 +1,8 @@
+import { useState } from "react";
 import { useQueuePosition } from "./hooks/useQueuePosition";
 import { usePushNotifications } from "./hooks/usePushNotifications";
+import { formatWaitEstimate } from "./waitEstimate";
+import type { WaitEstimate } from "../../shared/signalr/queueHubContract";
 
 function ConnectionIndicator({ state }: { state: "connecting" | "connected" | "reconnecting" | "disconnected" }) {
   const colors = {
@@ -26,7 +29,7 @@ function ConnectionIndicator({ state }: { state: "connecting" | "connected" | "r
   );
 }
 
-function PositionDisplay({ position }: { position: number }) {
+function PositionDisplay({ position, estimatedWait }: { position: number; estimatedWait: WaitEstimate | null }) {
   return (
     <div className="relative overflow-hidden rounded-none border border-white/10 bg-gradient-to-b from-slate-900/80 to-slate-900/40 p-7 text-center shadow-[0_12px_34px_rgba(0,0,0,0.3)]">
       <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_0%,rgba(16,185,129,0.18),transparent_30%)] blur-3xl" />
@@ -39,6 +42,11 @@ function PositionDisplay({ position }: { position: number }) {
       <p className="text-slate-300 mt-4 text-sm">
         {position === 1 ? "You're next!" : `${position - 1} ${position - 1 === 1 ? "person" : "people"} ahead of you`}
       </p>
+      {estimatedWait && (
+        <p className="text-slate-400 mt-1 text-sm">
+          Estimated wait <span className="font-medium text-white">{formatWaitEstimate(estimatedWait)}</span>
+        </p>
+      )}
       <div className="mt-4 h-px w-full bg-gradient-to-r from-transparent via-white/10 to-transparent" />
       <p className="text-[11px] uppercase tracking-[0.16em] mt-3 text-emerald-300/80">
         Live updates on deck
@@ -64,6 +72,102 @@ function CalledCard({ message }: { message: string | null }) {
   );
 }
 
+function OnMyWay({
+  onTheWayAt,
+  isBusy,
+  onConfirm,
+}: {
+  onTheWayAt: string | null;
+  isBusy: boolean;
+  onConfirm: () => void;
+}) {
+  if (onTheWayAt) {
+    return (
+      <p
+        role="status"
+        className="mt-4 p-4 bg-emerald-500/10 border border-emerald-500/20 rounded-none text-center text-emerald-300 text-sm"
+      >
+        Staff know you're on your way
+      </p>
+    );
+  }
+
+  return (
+    <button
+      onClick={onConfirm}
+      disabled={isBusy}
+      className="w-full mt-4 py-4 bg-emerald-500 text-white font-semibold rounded-none hover:bg-emerald-400 transition-colors disabled:opacity-50"
+    >
+      I'm on my way
+    </button>
+  );
+}
+
+const MAX_LET_AHEAD = 3;
+
+function LetOthersAhead({ isBusy, onLetAhead }: { isBusy: boolean; onLetAhead: (places: number) => void }) {
+  return (
+    <div className="p-4 bg-slate-900 border border-slate-800 rounded-none">
+      <p className="text-white text-sm font-medium">Running late?</p>
+      <p className="text-slate-400 text-sm mt-0.5">Let people behind you go first and keep your spot after them.</p>
+      <div role="group" aria-label="Let people go ahead" className="flex gap-2 mt-3">
+        {Array.from({ length: MAX_LET_AHEAD }, (_, i) => i + 1).map((places) => (
+          <button
+            key={places}
+            onClick={() => onLetAhead(places)}
+            disabled={isBusy}
+            className="flex-1 py-2 bg-slate-800 text-slate-200 text-sm font-medium rounded-none border border-slate-700 hover:bg-slate-700 transition-colors disabled:opacity-50"
+          >
+            Let {places} go ahead
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function LeaveQueue({ isBusy, onLeave }: { isBusy: boolean; onLeave: () => void }) {
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  if (!isConfirming) {
+    return (
+      <button
+        onClick={() => setIsConfirming(true)}
+        className="w-full py-3 text-red-400 text-sm font-medium rounded-none border border-red-500/20 hover:bg-red-500/10 transition-colors"
+      >
+        Leave queue
+      </button>
+    );
+  }
+
+  return (
+    <div
+      role="alertdialog"
+      aria-label="Leave the queue?"
+      className="p-4 bg-red-500/5 border border-red-500/20 rounded-none"
+    >
+      <p className="text-white text-sm font-medium">Leave the queue?</p>
+      <p className="text-slate-400 text-sm mt-0.5">You'll lose your place and have to join again at the back.</p>
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={onLeave}
+          disabled={isBusy}
+          className="flex-1 py-2 bg-red-500 text-white text-sm font-medium rounded-none hover:bg-red-400 transition-colors disabled:opacity-50"
+        >
+          {isBusy ? "Leaving..." : "Yes, leave"}
+        </button>
+        <button
+          onClick={() => setIsConfirming(false)}
+          disabled={isBusy}
+          className="flex-1 py-2 bg-slate-800 text-slate-200 text-sm font-medium rounded-none hover:bg-slate-700 transition-colors disabled:opacity-50"
+        >
+          Stay in line
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function NearFrontBanner({ position }: { position: number }) {
   return (
     <div className="mb-4 p-4 bg-amber-500/10 border border-amber-500/20 rounded-none">
@@ -82,6 +186,21 @@ function NearFrontBanner({ position }: { position: number }) {
   );
 }
 
+function QueueStatusBanner({ isActive, isPaused }: { isActive: boolean; isPaused: boolean }) {
+  if (isActive && !isPaused) return null;
+
+  return (
+    <div role="status" className="mb-4 p-4 bg-amber-500/10 border border-amber-500/20 rounded-none">
+      <p className="text-amber-300 font-medium">{isActive ? "Queue paused" : "Queue closed"}</p>
+      <p className="text-amber-400/70 text-sm">
+        {isActive
+          ? "Staff have paused the line for a moment. You keep your place."
+          : "Nobody is being called right now. You keep your place if it reopens."}
+      </p>
+    </div>
+  );
+}
+
 function NotificationBanner({
   isSupported,
   permission,
@@ -146,8 +265,24 @@ interface QueuePositionProps {
 }
 
 export function QueuePosition({ token }: QueuePositionProps) {
-  const { data, isLoading, error, connectionState, refresh } = useQueuePosition(token);
+  const { data, isLoading, error, connectionState, refresh, leave, letOthersAhead, sayOnMyWay } =
+    useQueuePosition(token);
   const pushNotifications = usePushNotifications(token);
+  const [isActing, setIsActing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [hasLeft, setHasLeft] = useState(false);
+
+  const runAction = async (action: () => Promise<string | null>) => {
+    setIsActing(true);
+    const actionFailure = await action();
+    setActionError(actionFailure);
+    setIsActing(false);
+    return actionFailure === null;
+  };
+
+  const handleLeave = async () => {
+    if (await runAction(leave)) setHasLeft(true);
+  };
 
   if (isLoading) {
     return (
@@ -204,12 +339,29 @@ export function QueuePosition({ token }: QueuePositionProps) {
           <NearFrontBanner position={data.position} />
         )}
 
+        {/* Paused or closed queue */}
+        {isWaiting && <QueueStatusBanner isActive={data.queueIsActive} isPaused={data.queueIsPaused} />}
+
         {/* Main status */}
         <div className="mb-8">
           {isCalled ? (
-            <CalledCard message={data.calledMessage} />
+            <>
+              <CalledCard message={data.calledMessage} />
+              <OnMyWay onTheWayAt={data.onTheWayAt} isBusy={isActing} onConfirm={() => runAction(sayOnMyWay)} />
+            </>
           ) : isWaiting && data.position ? (
-            <PositionDisplay position={data.position} />
+            <PositionDisplay position={data.position} estimatedWait={data.estimatedWait} />
+          ) : data.status === "Removed" ? (
+            <div className="bg-slate-800/50 border border-slate-700 rounded-none p-6 text-center">
+              <p className="text-white font-medium">
+                {hasLeft ? "You've left the queue" : "You're no longer in the queue"}
+              </p>
+              <p className="text-slate-400 text-sm mt-1">
+                {hasLeft
+                  ? "Thanks for letting us know. Join again any time."
+                  : "Staff took you off the list, or the queue closed for the day."}
+              </p>
+            </div>
           ) : (
             <div className="bg-slate-800/50 border border-slate-700 rounded-none p-6 text-center">
               <p className="text-slate-400">Status: {data.status}</p>
@@ -237,6 +389,24 @@ export function QueuePosition({ token }: QueuePositionProps) {
           </div>
         )}
 
+        {/* Self-service */}
+        {(isWaiting || isCalled) && (
+          <div className="mt-4 space-y-4">
+            {actionError && (
+              <div
+                role="alert"
+                className="p-3 bg-red-500/10 border border-red-500/20 text-red-400 rounded-none text-sm"
+              >
+                {actionError}
+              </div>
+            )}
+            {isWaiting && (
+              <LetOthersAhead isBusy={isActing} onLetAhead={(places) => runAction(() => letOthersAhead(places))} />
+            )}
+            <LeaveQueue isBusy={isActing} onLeave={handleLeave} />
+          </div>
+        )}
+
         {/* Offline refresh */}
         {connectionState === "disconnected" && (
           <button
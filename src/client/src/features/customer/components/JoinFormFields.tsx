@@ -0,0 +1,169 @@
+export type JoinFieldType = "PartySize" | "Phone" | "Notes" | "Text" | "Number" | "Choice" | "Checkbox";
+
+/** A question the queue asks when customers join */
+export interface JoinField {
+  key: string;
+  label: string;
+  type: JoinFieldType;
+  required: boolean;
+  options: string[];
+  min: number | null;
+  max: number | null;
+}
+
+/** Answers by question key, as the join endpoint takes them. A ticked checkbox is "true". */
+export type JoinAnswers = Record<string, string>;
+
+/** Party sizes above this need the owner to set a maximum */
+const DEFAULT_MAX_PARTY_SIZE = 20;
+
+const INPUT_CLASS =
+  "w-full px-5 py-4 bg-slate-900 border border-slate-800 rounded-none text-white placeholder-slate-600 focus:outline-none focus:border-slate-600 focus:ring-1 focus:ring-slate-600 transition-all";
+
+interface JoinFormFieldsProps {
+  fields: JoinField[];
+  answers: JoinAnswers;
+  onChange: (answers: JoinAnswers) => void;
+  disabled?: boolean;
+}
+
+function FieldInput({
+  field,
+  id,
+  value,
+  onChange,
+  disabled,
+}: {
+  field: JoinField;
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  switch (field.type) {
+    case "PartySize":
+    case "Number":
+      return (
+        <input
+          type="number"
+          id={id}
+          inputMode="numeric"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          min={field.min ?? (field.type === "PartySize" ? 1 : undefined)}
+          max={field.max ?? (field.type === "PartySize" ? DEFAULT_MAX_PARTY_SIZE : undefined)}
+          required={field.required}
+          disabled={disabled}
+          className={INPUT_CLASS}
+        />
+      );
+    case "Phone":
+      return (
+        <input
+          type="tel"
+          id={id}
+          autoComplete="tel"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={20}
+          required={field.required}
+          disabled={disabled}
+          className={INPUT_CLASS}
+        />
+      );
+    case "Notes":
+      return (
+        <textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={500}
+          rows={3}
+          required={field.required}
+          disabled={disabled}
+          className={`${INPUT_CLASS} resize-none`}
+        />
+      );
+    case "Choice":
+      return (
+        <select
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          required={field.required}
+          disabled={disabled}
+          className={INPUT_CLASS}
+        >
+          <option value="">Choose...</option>
+          {field.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    default:
+      return (
+        <input
+          type="text"
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={200}
+          required={field.required}
+          disabled={disabled}
+          className={INPUT_CLASS}
+        />
+      );
+  }
+}
+
+/**
+ * The queue's own questions on the join form, e.g. party size or service type.
+ */
+export function JoinFormFields({ fields, answers, onChange, disabled }: JoinFormFieldsProps) {
+  const setAnswer = (key: string, value: string) => onChange({ ...answers, [key]: value });
+
+  return (
+    <>
+      {fields.map((field) => {
+        const id = `joinField-${field.key}`;
+        const value = answers[field.key] ?? "";
+
+        if (field.type === "Checkbox") {
+          return (
+            <div key={field.key} className="mb-6">
+              <label className="flex items-center gap-3 text-white">
+                <input
+                  type="checkbox"
+                  checked={value === "true"}
+                  onChange={(e) => setAnswer(field.key, e.target.checked ? "true" : "")}
+                  required={field.required}
+                  disabled={disabled}
+                  className="w-5 h-5 accent-teal-500"
+                />
+                {field.label}
+              </label>
+            </div>
+          );
+        }
+
+        return (
+          <div key={field.key} className="mb-6">
+            <label htmlFor={id} className="block text-sm font-medium text-slate-400 mb-2">
+              {field.label}
+              {!field.required && <span className="text-slate-600 font-normal"> (optional)</span>}
+            </label>
+            <FieldInput
+              field={field}
+              id={id}
+              value={value}
+              onChange={(next) => setAnswer(field.key, next)}
+              disabled={disabled}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useQueuePosition } from "./useQueuePosition";
+import { queueTokenKey } from "../queueTokens";
+
+const handlers = new Map<string, (...args: unknown[]) => void>();
+const mockOn = vi.fn((event: string, handler: (...args: unknown[]) => void) => {
+  handlers.set(event, handler);
+  return () => handlers.delete(event);
+});
+
+vi.mock("../../../shared/hooks/useSignalR", () => ({
+  useSignalR: vi.fn(() => ({
+    state: "connected",
+    on: mockOn,
+    joinRoom: vi.fn(() => () => {}),
+  })),
+}));
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe("useQueuePosition", () => {
+  const position = {
+    position: 3,
+    status: "Waiting",
+    queueName: "Main Queue",
+    businessName: "Test Shop",
+    estimatedWaitMinutes: 10,
+    estimatedWait: { minMinutes: 7, maxMinutes: 13 },
+    recentActivity: 2,
+    welcomeMessage: null,
+    calledMessage: null,
+    onTheWayAt: null,
+    queueIsActive: true,
+    queueIsPaused: false,
+    version: 4,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers.clear();
+    mockFetch.mockResolvedValue({
+      ok: true,
+      text: () => Promise.resolve(JSON.stringify(position)),
+    });
+  });
+
+  it("should load the estimated wait with the position", async () => {
+    const { result } = renderHook(() => useQueuePosition("token-1"));
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    expect(result.current.data?.estimatedWait).toEqual({ minMinutes: 7, maxMinutes: 13 });
+  });
+
+  it("should take the server's estimate when the position changes", async () => {
+    const { result } = renderHook(() => useQueuePosition("token-1"));
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    act(() => {
+      handlers.get("PositionChanged")?.(2, { minMinutes: 4, maxMinutes: 8 });
+    });
+
+    expect(result.current.data?.position).toBe(2);
+    expect(result.current.data?.estimatedWait).toEqual({ minMinutes: 4, maxMinutes: 8 });
+  });
+
+  it("should forget the saved token after leaving", async () => {
+    localStorage.setItem(queueTokenKey("test-shop", "main"), "token-1");
+    const { result } = renderHook(() => useQueuePosition("token-1"));
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+
+    let leaveError: string | null = "";
+    await act(async () => {
+      leaveError = await result.current.leave();
+    });
+
+    expect(leaveError).toBeNull();
+    expect(mockFetch).toHaveBeenLastCalledWith("/api/q/token-1/leave", { method: "POST" });
+    expect(result.current.data?.status).toBe("Removed");
+    expect(localStorage.getItem(queueTokenKey("test-shop", "main"))).toBeNull();
+  });
+
+  it("should keep the token when leaving fails", async () => {
+    localStorage.setItem(queueTokenKey("test-shop", "main"), "token-1");
+    const { result } = renderHook(() => useQueuePosition("token-1"));
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      text: () => Promise.resolve(JSON.stringify({ detail: "Customer is no longer in the queue." })),
+    });
+
+    let leaveError: string | null = null;
+    await act(async () => {
+      leaveError = await result.current.leave();
+    });
+
+    expect(leaveError).toBe("Customer is no longer in the queue.");
+    expect(result.current.data?.status).toBe("Waiting");
+    expect(localStorage.getItem(queueTokenKey("test-shop", "main"))).toBe("token-1");
+  });
+
+  it("should send how many people to let ahead", async () => {
+    const { result } = renderHook(() => useQueuePosition("token-1"));
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    await act(async () => {
+      await result.current.letOthersAhead(2);
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith("/api/q/token-1/let-ahead", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ places: 2 }),
+    });
+  });
+
+  it("should show when the customer said they're on their way", async () => {
+    const { result } = renderHook(() => useQueuePosition("token-1"));
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      text: () => Promise.resolve(JSON.stringify({ onTheWayAt: "2024-01-01T10:05:00Z" })),
+    });
+
+    await act(async () => {
+      await result.current.sayOnMyWay();
+    });
+
+    expect(result.current.data?.onTheWayAt).toBe("2024-01-01T10:05:00Z");
+  });
+});
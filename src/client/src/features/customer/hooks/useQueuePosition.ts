@@ -1,16 +1,27 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useSignalR } from "../../../shared/hooks/useSignalR";
-import { safeJsonParse } from "../../../shared/utils/api";
+import { customerRoom, type WaitEstimate } from "../../../shared/signalr/queueHubContract";
+import { getApiErrorMessage, safeJsonParse } from "../../../shared/utils/api";
+import { forgetQueueToken } from "../queueTokens";
 
 interface QueuePosition {
   position: number | null;
   status: string;
   queueName: string;
   businessName: string;
-  estimatedWaitMinutes: number | null;
+  /** Null unless waiting */
+  estimatedWait: WaitEstimate | null;
   recentActivity: number;
   welcomeMessage: string | null;
   calledMessage: string | null;
+  /** When the customer, once called, said they're on their way */
+  onTheWayAt: string | null;
+  /** False once the queue has closed */
+  queueIsActive: boolean;
+  /** Staff paused the queue - nobody is being called for now */
+  queueIsPaused: boolean;
+  /** Queue version the snapshot reflects */
+  version: number;
   nearFrontAlert: boolean;
 }
 
@@ -25,6 +36,12 @@ interface UseQueuePositionResult {
   connectionState: "connecting" | "connected" | "reconnecting" | "disconnected";
   /** Manually refresh position */
   refresh: () => Promise<void>;
+  /** Leave the queue and forget the saved token. Resolves to an error message, or null once done. */
+  leave: () => Promise<string | null>;
+  /** Let 1-3 people behind go ahead. Resolves to an error message, or null once done. */
+  letOthersAhead: (places: number) => Promise<string | null>;
+  /** Tell staff a called customer is on their way. Resolves to an error message, or null once done. */
+  sayOnMyWay: () => Promise<string | null>;
 }
 
 const POLLING_INTERVAL = 30000; // 30 seconds fallback
@@ -37,15 +54,7 @@ export function useQueuePosition(token: string): UseQueuePositionResult {
   const [data, setData] = useState<QueuePosition | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-
-  const {
-    state: connectionState,
-    invoke,
-    on,
-  } = useSignalR({
-    hubUrl: "/hubs/queue",
-    autoConnect: true,
-  });
+  const versionRef = useRef<number | null>(null);
 
   // Fetch position from API
   const fetchPosition = useCallback(async () => {
@@ -61,6 +70,11 @@ export function useQueuePosition(token: string): UseQueuePositionResult {
       if (!result) {
         throw new Error("Invalid response from server");
       }
+      // Ignore a poll that resolves after a newer resync
+      if (versionRef.current !== null && result.version < versionRef.current) {
+        return;
+      }
+      versionRef.current = result.version;
       setData({ ...result, nearFrontAlert: false });
       setError(null);
     } catch (err) {
@@ -70,37 +84,36 @@ export function useQueuePosition(token: string): UseQueuePositionResult {
     }
   }, [token]);
 
+  const {
+    state: connectionState,
+    on,
+    joinRoom,
+  } = useSignalR({
+    hubUrl: "/hubs/queue",
+    autoConnect: true,
+    // Position updates sent while the connection was down are lost - resync
+    onReconnected: fetchPosition,
+  });
+
   // Initial fetch
   useEffect(() => {
+    versionRef.current = null;
     fetchPosition();
   }, [fetchPosition]);
 
-  // Join customer room when connected
+  // Join customer room; the shared connection re-joins it after reconnects
   useEffect(() => {
-    if (connectionState === "connected" && token) {
-      invoke("JoinCustomerRoom", token).catch(console.error);
-    }
-  }, [connectionState, token, invoke]);
+    if (!token) return;
+    return joinRoom(customerRoom(token));
+  }, [token, joinRoom]);
 
   // Listen for real-time updates
   useEffect(() => {
-    const unsubPosition = on<number>("PositionChanged", (newPosition) => {
-      setData((prev) =>
-        prev
-          ? {
-              ...prev,
-              position: newPosition,
-              // Recalculate estimated wait based on new position
-              estimatedWaitMinutes:
-                prev.estimatedWaitMinutes !== null
-                  ? Math.max(0, (newPosition - 1) * 5) // Assume 5 min per customer
-                  : null,
-            }
-          : null,
-      );
+    const unsubPosition = on("PositionChanged", (newPosition, estimatedWait) => {
+      setData((prev) => (prev ? { ...prev, position: newPosition, estimatedWait } : null));
     });
 
-    const unsubCalled = on<string | null>("YouAreCalled", (message) => {
+    const unsubCalled = on("YouAreCalled", (message) => {
       setData((prev) =>
         prev
           ? {
@@ -113,11 +126,15 @@ export function useQueuePosition(token: string): UseQueuePositionResult {
       );
     });
 
-    const unsubStatus = on<string>("StatusChanged", (status) => {
+    const unsubStatus = on("StatusChanged", (status) => {
       setData((prev) => (prev ? { ...prev, status } : null));
+      // Back in line (sent back by staff or an undo) - fetch the new position and wait
+      if (status === "Waiting") {
+        fetchPosition();
+      }
     });
 
-    const unsubNearFront = on<number>("NearFront", (position) => {
+    const unsubNearFront = on("NearFront", (position) => {
       setData((prev) =>
         prev
           ? {
@@ -129,13 +146,70 @@ export function useQueuePosition(token: string): UseQueuePositionResult {
       );
     });
 
+    const unsubTransferred = on("Transferred", (queueName, position) => {
+      // The new queue counts versions from its own start - drop the old queue's
+      versionRef.current = null;
+      setData((prev) => (prev ? { ...prev, queueName, position, status: "Waiting" } : null));
+      fetchPosition();
+    });
+
+    const unsubQueueStatus = on("QueueStatusChanged", (queueIsActive, queueIsPaused) => {
+      setData((prev) => (prev ? { ...prev, queueIsActive, queueIsPaused } : null));
+    });
+
     return () => {
       unsubPosition();
       unsubCalled();
       unsubStatus();
       unsubNearFront();
+      unsubTransferred();
+      unsubQueueStatus();
     };
-  }, [on]);
+  }, [on, fetchPosition]);
+
+  // Customer actions on their own place in line
+  const runAction = useCallback(
+    async (action: string, fallback: string, onDone: (response: Response) => unknown, body?: object) => {
+      try {
+        const response = await fetch(`/api/q/${token}/${action}`, {
+          method: "POST",
+          ...(body && { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }),
+        });
+        if (!response.ok) {
+          return await getApiErrorMessage(response, fallback);
+        }
+        await onDone(response);
+        return null;
+      } catch {
+        return "Couldn't reach the server. Check your connection.";
+      }
+    },
+    [token],
+  );
+
+  const leave = useCallback(
+    () =>
+      runAction("leave", "Couldn't leave the queue", () => {
+        forgetQueueToken(token);
+        setData((prev) => (prev ? { ...prev, status: "Removed", position: null, estimatedWait: null } : null));
+      }),
+    [runAction, token],
+  );
+
+  // The new position's wait estimate comes with a fresh fetch
+  const letOthersAhead = useCallback(
+    (places: number) => runAction("let-ahead", "Couldn't let others go ahead", fetchPosition, { places }),
+    [runAction, fetchPosition],
+  );
+
+  const sayOnMyWay = useCallback(
+    () =>
+      runAction("on-my-way", "Couldn't tell staff you're on your way", async (response) => {
+        const result = await safeJsonParse<{ onTheWayAt: string }>(response);
+        setData((prev) => (prev && result ? { ...prev, onTheWayAt: result.onTheWayAt } : prev));
+      }),
+    [runAction],
+  );
 
   // Fallback polling when disconnected
   useEffect(() => {
@@ -151,5 +225,8 @@ export function useQueuePosition(token: string): UseQueuePositionResult {
     error,
     connectionState,
     refresh: fetchPosition,
+    leave,
+    letOthersAhead,
+    sayOnMyWay,
   };
 }
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { describeOpening, type OpeningStatus } from "./openingHours";
+
+// Monday 15 January 2024, 02:00 in London (on UTC in winter)
+const NOW = new Date("2024-01-15T02:00:00Z");
+
+function opening(overrides: Partial<OpeningStatus> = {}): OpeningStatus {
+  return {
+    isOpen: false,
+    acceptsJoins: false,
+    opensAt: null,
+    closesAt: null,
+    lastJoinAt: null,
+    timeZone: "Europe/London",
+    ...overrides,
+  };
+}
+
+describe("describeOpening", () => {
+  it("should say nothing while the queue takes joins", () => {
+    expect(describeOpening(opening({ isOpen: true, acceptsJoins: true }), NOW)).toBeNull();
+  });
+
+  it("should give the opening time when the queue opens later today", () => {
+    const notice = describeOpening(opening({ opensAt: "2024-01-15T11:00:00Z" }), NOW);
+
+    expect(notice?.title).toBe("Opens at 11:00");
+  });
+
+  it("should show times in the queue's time zone", () => {
+    // 16:00 UTC is 11:00 in New York, still Sunday night there
+    const notice = describeOpening(
+      opening({ opensAt: "2024-01-15T16:00:00Z", timeZone: "America/New_York" }),
+      NOW,
+    );
+
+    expect(notice?.title).toBe("Closed today");
+    expect(notice?.detail).toBe("Opens tomorrow at 11:00.");
+  });
+
+  it("should say closed today when the queue doesn't open again today", () => {
+    const notice = describeOpening(opening({ opensAt: "2024-01-16T09:00:00Z" }), NOW);
+
+    expect(notice).toEqual({ title: "Closed today", detail: "Opens tomorrow at 09:00." });
+  });
+
+  it("should explain the last-join cutoff while still open", () => {
+    const notice = describeOpening(
+      opening({
+        isOpen: true,
+        closesAt: "2024-01-15T22:00:00Z",
+        lastJoinAt: "2024-01-15T21:30:00Z",
+        opensAt: "2024-01-16T11:00:00Z",
+      }),
+      new Date("2024-01-15T21:45:00Z"),
+    );
+
+    expect(notice).toEqual({
+      title: "No more joins today",
+      detail: "Last joins were at 21:30. Opens tomorrow at 11:00.",
+    });
+  });
+});
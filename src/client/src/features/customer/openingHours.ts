@@ -0,0 +1,67 @@
+/** Where a queue stands against its operating hours, as sent with each queue */
+export interface OpeningStatus {
+  isOpen: boolean;
+  acceptsJoins: boolean;
+  opensAt: string | null;
+  closesAt: string | null;
+  lastJoinAt: string | null;
+  /** The queue's IANA time zone; null when it has no operating hours */
+  timeZone: string | null;
+}
+
+export interface OpeningNotice {
+  title: string;
+  detail: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Clock time at the queue, e.g. "11:00" - customers read it off the sign on the door */
+function formatTime(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat(undefined, { hour: "2-digit", minute: "2-digit", hourCycle: "h23", timeZone }).format(
+    instant,
+  );
+}
+
+/** The queue's local date as YYYY-MM-DD, for comparing days */
+function localDate(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { year: "numeric", month: "2-digit", day: "2-digit", timeZone }).format(
+    instant,
+  );
+}
+
+/** "at 11:00", "tomorrow at 11:00" or "Tuesday at 11:00", in the queue's time zone */
+function describeWhen(instant: Date, now: Date, timeZone: string): string {
+  const time = formatTime(instant, timeZone);
+  const day = localDate(instant, timeZone);
+  if (day === localDate(now, timeZone)) return `at ${time}`;
+  if (day === localDate(new Date(now.getTime() + DAY_MS), timeZone)) return `tomorrow at ${time}`;
+  const weekday = new Intl.DateTimeFormat(undefined, { weekday: "long", timeZone }).format(instant);
+  return `${weekday} at ${time}`;
+}
+
+/**
+ * Why customers can't join right now because of the queue's hours, e.g. "Opens at 11:00"
+ * or "Closed today". Null while the queue takes joins.
+ */
+export function describeOpening(opening: OpeningStatus, now: Date = new Date()): OpeningNotice | null {
+  if (opening.acceptsJoins || !opening.timeZone) return null;
+
+  const timeZone = opening.timeZone;
+  const opensAt = opening.opensAt ? new Date(opening.opensAt) : null;
+  const reopens = opensAt ? `Opens ${describeWhen(opensAt, now, timeZone)}` : null;
+
+  if (opening.isOpen) {
+    const lastJoin = opening.lastJoinAt
+      ? `Last joins were at ${formatTime(new Date(opening.lastJoinAt), timeZone)}.`
+      : null;
+    const detail = [lastJoin, reopens && `${reopens}.`].filter(Boolean).join(" ");
+    return { title: "No more joins today", detail: detail || null };
+  }
+
+  if (opensAt && localDate(opensAt, timeZone) === localDate(now, timeZone)) {
+    return { title: `Opens at ${formatTime(opensAt, timeZone)}`, detail: "Come back then to join the queue." };
+  }
+
+  return { title: "Closed today", detail: reopens && `${reopens}.` };
+}
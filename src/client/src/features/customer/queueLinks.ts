@@ -0,0 +1,10 @@
+import type { QueuesResponse } from "./JoinQueue";
+
+/**
+ * Where an outdated queue link should go now, if the queue was renamed.
+ * Printed QR codes keep the old slug forever.
+ */
+export function findRenamedQueueSlug(data: QueuesResponse, queueSlug: string): string | undefined {
+  if (data.queues.some((q) => q.slug === queueSlug)) return undefined;
+  return data.slugRedirects?.find((r) => r.fromSlug === queueSlug)?.toSlug;
+}
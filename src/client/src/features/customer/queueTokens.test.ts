@@ -0,0 +1,27 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { forgetQueueToken, queueTokenKey } from "./queueTokens";
+
+describe("forgetQueueToken", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should remove the key the token was saved under", () => {
+    localStorage.setItem(queueTokenKey("coffee-shop", "takeout"), "token-1");
+
+    forgetQueueToken("token-1");
+
+    expect(localStorage.getItem(queueTokenKey("coffee-shop", "takeout"))).toBeNull();
+  });
+
+  it("should keep tokens for other queues", () => {
+    localStorage.setItem(queueTokenKey("coffee-shop", "takeout"), "token-1");
+    localStorage.setItem(queueTokenKey("coffee-shop", "dine-in"), "token-2");
+    localStorage.setItem("auth_token", "token-1");
+
+    forgetQueueToken("token-1");
+
+    expect(localStorage.getItem(queueTokenKey("coffee-shop", "dine-in"))).toBe("token-2");
+    expect(localStorage.getItem("auth_token")).toBe("token-1");
+  });
+});
@@ -0,0 +1,19 @@
+const KEY_PREFIX = "queue_token_";
+
+/** Where JoinQueue keeps a customer's token, so coming back to the join page finds their place. */
+export function queueTokenKey(businessSlug: string, queueSlug: string): string {
+  return `${KEY_PREFIX}${businessSlug}_${queueSlug}`;
+}
+
+/**
+ * Forgets a token once its customer has left the queue, so the join page offers a fresh join.
+ * Found by value, since the position page doesn't know the slugs it was saved under.
+ */
+export function forgetQueueToken(token: string): void {
+  for (let i = localStorage.length - 1; i >= 0; i--) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(KEY_PREFIX) && localStorage.getItem(key) === token) {
+      localStorage.removeItem(key);
+    }
+  }
+}
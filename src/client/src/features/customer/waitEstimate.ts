@@ -0,0 +1,8 @@
+import type { WaitEstimate } from "../../shared/signalr/queueHubContract";
+
+/** A wait estimate as customers read it, e.g. "12–18 min" */
+export function formatWaitEstimate({ minMinutes, maxMinutes }: WaitEstimate): string {
+  if (maxMinutes <= 0) return "Any moment now";
+  if (minMinutes <= 0) return `Up to ${maxMinutes} min`;
+  return `${minMinutes}–${maxMinutes} min`;
+}
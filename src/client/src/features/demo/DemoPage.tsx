@@ -1,10 +1,14 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { getApiErrorMessage, safeJsonParse } from "../../shared/utils/api";
+import { apiFetch, apiRequest } from "../../shared/utils/apiClient";
 import { useDarkMode } from "@/shared/hooks/useDarkMode";
-import { useSignalR, type ConnectionState } from "../../shared/hooks/useSignalR";
+import { useSignalR, type ConnectionState, type UseSignalRResult } from "../../shared/hooks/useSignalR";
+import { HubConnectionProvider } from "../../shared/signalr/HubConnectionProvider";
+import { defaultHubConnectionOptions } from "../../shared/signalr/hubConnectionManager";
+import { customerRoom, staffRoom } from "../../shared/signalr/queueHubContract";
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || "";
 const SIGNALR_HUB_URL = `${API_BASE}/hubs/queue`;
@@ -150,6 +154,8 @@ function Panel({ title, variant, children, isDark }: PanelProps) {
 interface StaffPanelProps {
   isDark: boolean;
   queueData: QueueData;
+  /** The demo's own staff session */
+  token: string;
   onRefresh: () => void;
   onCustomerSelect: (token: string | null) => void;
   selectedCustomerToken: string | null;
@@ -158,6 +164,7 @@ interface StaffPanelProps {
 function StaffPanel({
   isDark,
   queueData,
+  token,
   onRefresh,
   onCustomerSelect,
   selectedCustomerToken,
@@ -172,8 +179,9 @@ function StaffPanel({
   const handleCallNext = useCallback(async () => {
     setIsCallingNext(true);
     try {
-      const response = await fetch(`${API_BASE}/api/queues/${queueData.queueId}/call-next`, {
+      const response = await apiFetch(`/api/queues/${queueData.queueId}/call-next`, {
         method: "POST",
+        token,
       });
       if (!response.ok) {
         const errorMessage = await getApiErrorMessage(response, "Failed to call next customer");
@@ -185,14 +193,14 @@ function StaffPanel({
     } finally {
       setIsCallingNext(false);
     }
-  }, [queueData.queueId, onRefresh]);
+  }, [queueData.queueId, token, onRefresh]);
 
   const [isResetting, setIsResetting] = useState(false);
 
   const handleSeedCustomers = useCallback(async () => {
     setIsSeeding(true);
     try {
-      const response = await fetch(`${API_BASE}/api/demo/seed?queueId=${queueData.queueId}`, {
+      const response = await apiFetch(`/api/demo/seed?queueId=${queueData.queueId}`, {
         method: "POST",
       });
       if (!response.ok) {
@@ -210,7 +218,7 @@ function StaffPanel({
   const handleReset = useCallback(async () => {
     setIsResetting(true);
     try {
-      const response = await fetch(`${API_BASE}/api/demo/reset?queueId=${queueData.queueId}`, {
+      const response = await apiFetch(`/api/demo/reset?queueId=${queueData.queueId}`, {
         method: "POST",
       });
       if (!response.ok) {
@@ -230,9 +238,9 @@ function StaffPanel({
     async (customerId: string) => {
       setActionInProgress(customerId);
       try {
-        const response = await fetch(
-          `${API_BASE}/api/queues/${queueData.queueId}/customers/${customerId}/serve`,
-          { method: "POST" }
+        const response = await apiFetch(
+          `/api/queues/${queueData.queueId}/customers/${customerId}/serve`,
+          { method: "POST", token }
         );
         if (!response.ok) {
           const errorMessage = await getApiErrorMessage(response, "Failed to mark as served");
@@ -245,16 +253,16 @@ function StaffPanel({
         setActionInProgress(null);
       }
     },
-    [queueData.queueId, onRefresh]
+    [queueData.queueId, token, onRefresh]
   );
 
   const handleMarkNoShow = useCallback(
     async (customerId: string) => {
       setActionInProgress(customerId);
       try {
-        const response = await fetch(
-          `${API_BASE}/api/queues/${queueData.queueId}/customers/${customerId}/no-show`,
-          { method: "POST" }
+        const response = await apiFetch(
+          `/api/queues/${queueData.queueId}/customers/${customerId}/no-show`,
+          { method: "POST", token }
         );
         if (!response.ok) {
           const errorMessage = await getApiErrorMessage(response, "Failed to mark as no-show");
@@ -267,16 +275,16 @@ function StaffPanel({
         setActionInProgress(null);
       }
     },
-    [queueData.queueId, onRefresh]
+    [queueData.queueId, token, onRefresh]
   );
 
   const handleRemoveCustomer = useCallback(
     async (customerId: string) => {
       setActionInProgress(customerId);
       try {
-        const response = await fetch(
-          `${API_BASE}/api/queues/${queueData.queueId}/customers/${customerId}`,
-          { method: "DELETE" }
+        const response = await apiFetch(
+          `/api/queues/${queueData.queueId}/customers/${customerId}`,
+          { method: "DELETE", token }
         );
         if (!response.ok) {
           const errorMessage = await getApiErrorMessage(response, "Failed to remove customer");
@@ -289,7 +297,7 @@ function StaffPanel({
         setActionInProgress(null);
       }
     },
-    [queueData.queueId, onRefresh]
+    [queueData.queueId, token, onRefresh]
   );
 
   return (
@@ -550,26 +558,17 @@ interface CustomerPositionData {
   welcomeMessage?: string;
 }
 
-interface PositionChangedPayload {
-  position: number;
-  status: string;
-}
-
 interface CustomerPanelProps {
   token: string | null;
-  signalR: {
-    state: ConnectionState;
-    invoke: <T = void>(methodName: string, ...args: unknown[]) => Promise<T>;
-    on: <T = unknown>(eventName: string, callback: (data: T) => void) => () => void;
-  };
+  signalR: Pick<UseSignalRResult, "on" | "joinRoom">;
   isDark: boolean;
 }
 
 function CustomerPanel({ token, signalR, isDark }: CustomerPanelProps) {
+  const { on, joinRoom } = signalR;
   const [data, setData] = useState<CustomerPositionData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const previousTokenRef = useRef<string | null>(null);
 
   const fetchPosition = useCallback(async () => {
     if (!token) {
@@ -609,74 +608,47 @@ function CustomerPanel({ token, signalR, isDark }: CustomerPanelProps) {
     fetchPosition();
   }, [fetchPosition]);
 
-  // SignalR room management and event listeners
+  // Customer room membership - the shared connection joins it once connected and after reconnects
   useEffect(() => {
-    if (!token || signalR.state !== "connected") {
-      return;
-    }
-
-    const previousToken = previousTokenRef.current;
-
-    // Leave previous room if token changed
-    if (previousToken && previousToken !== token) {
-      signalR.invoke("LeaveCustomerRoom", previousToken).catch((err) => {
-        console.error("Failed to leave customer room:", err);
-      });
-    }
+    if (!token) return;
+    return joinRoom(customerRoom(token));
+  }, [token, joinRoom]);
 
-    // Join new room
-    signalR.invoke("JoinCustomerRoom", token).catch((err) => {
-      if (err instanceof Error && err.message === "SignalR not connected") {
-        return; // avoid noisy console when connection is still warming up
-      }
-      console.error("Failed to join customer room:", err);
-    });
-
-    previousTokenRef.current = token;
+  // Customer event listeners
+  useEffect(() => {
+    if (!token) return;
 
-    // Set up event listeners
-    function handlePositionChanged(payload: PositionChangedPayload): void {
+    function handlePositionChanged(newPosition: number): void {
       setData((current) => {
         if (!current) return current;
         return {
           ...current,
-          position: payload.position,
-          status: payload.status,
+          position: newPosition,
+          status: "Waiting",
         };
       });
     }
 
-    function handleCalled(): void {
+    function handleCalled(message: string | null): void {
       setData((current) => {
         if (!current) return current;
         return {
           ...current,
           status: "Called",
           position: null,
+          calledMessage: message ?? current.calledMessage,
         };
       });
     }
 
-    const unsubscribePositionChanged = signalR.on<PositionChangedPayload>("PositionChanged", handlePositionChanged);
-    const unsubscribeCalled = signalR.on("Called", handleCalled);
+    const unsubscribePositionChanged = on("PositionChanged", handlePositionChanged);
+    const unsubscribeCalled = on("YouAreCalled", handleCalled);
 
-    // Cleanup: leave room and remove listeners
     return () => {
       unsubscribePositionChanged();
       unsubscribeCalled();
-
-      // Only try to leave room if still connected (may already be disconnected during cleanup)
-      if (token && signalR.state === "connected") {
-        signalR.invoke("LeaveCustomerRoom", token).catch((err) => {
-          if (err instanceof Error && err.message === "SignalR not connected") {
-            return;
-          }
-          console.warn("Failed to leave customer room:", err);
-        });
-      }
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps -- signalR methods are stable
-  }, [token, signalR.state, signalR.invoke, signalR.on]);
+  }, [token, on]);
 
   // No token selected - show placeholder
   if (!token) {
@@ -823,7 +795,7 @@ function CustomerPanel({ token, signalR, isDark }: CustomerPanelProps) {
   );
 }
 
-export function DemoPage() {
+function DemoView({ demoToken }: { demoToken: string }) {
   const [queues, setQueues] = useState<QueueInfo[]>([]);
   const [businessName, setBusinessName] = useState<string>("");
   const [selectedQueueId, setSelectedQueueId] = useState<string | null>(null);
@@ -834,13 +806,14 @@ export function DemoPage() {
   const [isDark, setIsDark] = useDarkMode();
 
   const signalR = useSignalR({ hubUrl: SIGNALR_HUB_URL });
+  const { joinRoom: joinHubRoom, on: onHubEvent } = signalR;
 
   const fetchQueues = useCallback(async () => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/api/business/demo-shop/queues`);
+      const response = await apiFetch("/api/business/demo-shop/queues");
 
       if (!response.ok) {
         if (response.status === 404) {
@@ -873,7 +846,7 @@ export function DemoPage() {
     if (!selectedQueueId) return;
 
     try {
-      const response = await fetch(`${API_BASE}/api/queues/${selectedQueueId}/customers`);
+      const response = await apiFetch(`/api/queues/${selectedQueueId}/customers`, { token: demoToken });
       if (!response.ok) {
         throw new Error("Failed to fetch queue customers");
       }
@@ -893,7 +866,7 @@ export function DemoPage() {
     } catch (err) {
       console.error("Failed to fetch queue data:", err);
     }
-  }, [selectedQueueId]);
+  }, [selectedQueueId, demoToken]);
 
   useEffect(() => {
     fetchQueues();
@@ -924,41 +897,19 @@ export function DemoPage() {
     return queues.find((q) => q.queueId === queueId)?.waitingCount ?? 0;
   }, [queueData, queues]);
 
-  // Staff room SignalR: join room and listen for QueueUpdated
+  // Staff room SignalR: join the selected queue's room and listen for QueueUpdated
   useEffect(() => {
-    if (signalR.state !== "connected" || !queueData) {
-      return;
-    }
-
-    const DEMO_BUSINESS_ID = "11111111-1111-1111-1111-111111111111";
-
-    signalR.invoke("JoinStaffRoom", DEMO_BUSINESS_ID).catch((err) => {
-      if (err instanceof Error && err.message === "SignalR not connected") {
-        return;
-      }
-      console.error("Failed to join staff room:", err);
-    });
+    if (!selectedQueueId) return;
+    return joinHubRoom(staffRoom(selectedQueueId));
+  }, [selectedQueueId, joinHubRoom]);
 
+  useEffect(() => {
     function handleQueueUpdated(): void {
       fetchQueueData();
     }
 
-    const unsubscribe = signalR.on("QueueUpdated", handleQueueUpdated);
-
-    return () => {
-      unsubscribe();
-      // Only try to leave room if still connected (may already be disconnected during cleanup)
-      if (signalR.state === "connected") {
-        signalR.invoke("LeaveStaffRoom", DEMO_BUSINESS_ID).catch((err) => {
-          if (err instanceof Error && err.message === "SignalR not connected") {
-            return;
-          }
-          console.warn("Failed to leave staff room:", err);
-        });
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps -- signalR methods are stable
-  }, [signalR.state, queueData, signalR.invoke, signalR.on, fetchQueueData]);
+    return onHubEvent("QueueUpdated", handleQueueUpdated);
+  }, [onHubEvent, fetchQueueData]);
 
   const handleCustomerSelect = useCallback((token: string | null) => {
     if (token === null) {
@@ -1072,6 +1023,7 @@ export function DemoPage() {
               <StaffPanel
                 isDark={isDark}
                 queueData={queueData}
+                token={demoToken}
                 onRefresh={fetchQueueData}
           onCustomerSelect={handleCustomerSelect}
                 selectedCustomerToken={selectedCustomerToken}
@@ -1093,3 +1045,50 @@ export function DemoPage() {
     </div>
   );
 }
+
+/**
+ * Staff queue endpoints and the staff room need a member's token, so the demo signs in
+ * as its own staff user and keeps its live updates on a connection that uses that token.
+ */
+export function DemoPage() {
+  const [demoToken, setDemoToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const startSession = useCallback(() => {
+    apiRequest<{ token: string }>("/api/demo/session", { method: "POST", token: null }, "Failed to start the demo")
+      .then((result) => {
+        if (result.ok && result.data) {
+          setDemoToken(result.data.token);
+        } else {
+          setError(result.ok ? "Failed to start the demo" : result.error);
+        }
+      })
+      .catch(() => setError("Couldn't reach the server. Check your connection."));
+  }, []);
+
+  useEffect(() => {
+    startSession();
+  }, [startSession]);
+
+  if (error) {
+    return (
+      <ErrorDisplay
+        message={error}
+        onRetry={() => {
+          setError(null);
+          startSession();
+        }}
+      />
+    );
+  }
+
+  if (!demoToken) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <HubConnectionProvider options={{ ...defaultHubConnectionOptions, accessTokenFactory: () => demoToken }}>
+      <DemoView demoToken={demoToken} />
+    </HubConnectionProvider>
+  );
+}
@@ -0,0 +1,227 @@
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useRouter } from "next/navigation";
+import { AnalyticsPage } from "./AnalyticsPage";
+import { AuthProvider } from "../auth/AuthContext";
+
+vi.mocked(useRouter).mockReturnValue({
+  push: vi.fn(),
+  replace: vi.fn(),
+  back: vi.fn(),
+  forward: vi.fn(),
+  refresh: vi.fn(),
+  prefetch: vi.fn(),
+});
+
+// Mock fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const summary = {
+  joinedCount: 40,
+  servedCount: 30,
+  noShowCount: 5,
+  abandonedCount: 4,
+  averageWaitMinutes: 12.5,
+  p90WaitMinutes: 25,
+  averageServiceMinutes: 4,
+  p90ServiceMinutes: 7.5,
+  servedPerHour: 6.5,
+  noShowRate: 0.143,
+  abandonmentRate: 0.1,
+};
+
+const hours = Array.from({ length: 24 }, (_, hour) => ({
+  hour,
+  joined: hour === 12 ? 25 : 0,
+  served: hour === 12 ? 20 : 0,
+}));
+
+const heatmap = Array.from({ length: 7 }, (_, day) => Array.from({ length: 24 }, (_, hour) => (day === 1 && hour === 12 ? 25 : 0)));
+
+const businessAnalytics = {
+  summary,
+  hours,
+  heatmap,
+  queues: [
+    { queueId: "queue-bar", name: "Bar", isArchived: false, summary: { ...summary, joinedCount: 30 } },
+    { queueId: "queue-old", name: "Patio", isArchived: true, summary: { ...summary, joinedCount: 10, noShowRate: null } },
+  ],
+};
+
+function jsonResponse(data: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(data),
+    text: () => Promise.resolve(data === undefined ? "" : JSON.stringify(data)),
+  });
+}
+
+function mockApi() {
+  mockFetch.mockImplementation((url: string) => {
+    if (url.includes("/api/auth/me")) {
+      return jsonResponse({
+        userId: "user-1",
+        email: "owner@example.com",
+        businesses: [{ id: "business-1", name: "Test Business", slug: "test-business", role: "owner" }],
+      });
+    }
+    if (url.includes("/api/business/test-business/queues")) {
+      return jsonResponse({
+        queues: [
+          { queueId: "queue-bar", name: "Bar" },
+          { queueId: "queue-old", name: "Patio" },
+        ],
+      });
+    }
+    if (url.includes("/api/business/test-business/analytics")) {
+      return jsonResponse(businessAnalytics);
+    }
+    if (url.includes("/export?")) {
+      return Promise.resolve({ ok: true, status: 200, blob: () => Promise.resolve(new Blob(["Customer ID"])) });
+    }
+    if (url.includes("/api/queues/queue-bar/analytics")) {
+      return jsonResponse({ queueId: "queue-bar", name: "Bar", summary: { ...summary, averageWaitMinutes: 8 }, hours, heatmap });
+    }
+    return jsonResponse({});
+  });
+}
+
+function analyticsRequests() {
+  return mockFetch.mock.calls.map(([url]) => url as string).filter((url) => url.includes("/analytics?"));
+}
+
+function exportRequests() {
+  return mockFetch.mock.calls.map(([url]) => url as string).filter((url) => url.includes("/export?"));
+}
+
+function renderAnalyticsPage(initialQueueId?: string) {
+  localStorage.setItem("auth_token", "test-token");
+
+  return render(
+    <AuthProvider>
+      <AnalyticsPage businessSlug="test-business" initialQueueId={initialQueueId} />
+    </AuthProvider>
+  );
+}
+
+describe("AnalyticsPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    mockApi();
+  });
+
+  it("shows the business's wait, service and outcome figures", async () => {
+    renderAnalyticsPage();
+
+    const wait = await screen.findByRole("group", { name: "Average wait" });
+    expect(wait).toHaveTextContent("12.5 min");
+    expect(wait).toHaveTextContent("90% called within 25 min");
+    expect(screen.getByRole("group", { name: "Service time" })).toHaveTextContent("4 min");
+    expect(screen.getByRole("group", { name: "Served per hour" })).toHaveTextContent("6.5");
+    expect(screen.getByRole("group", { name: "No-shows" })).toHaveTextContent("14%");
+    expect(screen.getByRole("group", { name: "Abandoned" })).toHaveTextContent("10%");
+    expect(screen.getByRole("listitem", { name: "12pm: 25 joined, 20 served" })).toBeInTheDocument();
+    expect(screen.getByTitle("Mon 12pm: 25 joined")).toBeInTheDocument();
+  });
+
+  it("compares queues, archived ones included", async () => {
+    renderAnalyticsPage();
+
+    const table = await screen.findByRole("table", { name: "Queues" });
+    const patio = within(table).getByRole("rowheader", { name: /Patio/ });
+    expect(patio).toHaveTextContent("Archived");
+  });
+
+  it("asks for the last week in the browser's time zone", async () => {
+    renderAnalyticsPage();
+
+    await screen.findByRole("group", { name: "Average wait" });
+    const url = new URL(analyticsRequests()[0], "http://localhost");
+    expect(url.pathname).toBe("/api/business/test-business/analytics");
+    expect(url.searchParams.get("timeZone")).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    const days = (Date.parse(url.searchParams.get("to")!) - Date.parse(url.searchParams.get("from")!)) / 86_400_000;
+    expect(days).toBe(7);
+  });
+
+  it("switches to one queue", async () => {
+    const user = userEvent.setup();
+    renderAnalyticsPage();
+    await screen.findByRole("table", { name: "Queues" });
+    await screen.findByRole("option", { name: "Bar" });
+
+    await user.selectOptions(screen.getByLabelText("Queue"), "queue-bar");
+
+    await waitFor(() => {
+      expect(screen.getByRole("group", { name: "Average wait" })).toHaveTextContent("8 min");
+    });
+    // A single queue has nothing to compare
+    expect(screen.queryByRole("table", { name: "Queues" })).not.toBeInTheDocument();
+    expect(analyticsRequests().at(-1)).toContain("/api/queues/queue-bar/analytics?");
+  });
+
+  it("starts on the queue it was opened from", async () => {
+    renderAnalyticsPage("queue-bar");
+
+    expect(await screen.findByRole("group", { name: "Average wait" })).toHaveTextContent("8 min");
+    expect(analyticsRequests()).toHaveLength(1);
+  });
+
+  it("shows the server's reason when analytics are refused", async () => {
+    const allowed = mockFetch.getMockImplementation()!;
+    mockFetch.mockImplementation((url: string) =>
+      url.includes("/analytics")
+        ? jsonResponse({ detail: "Only members who can view reports can see analytics." }, 403)
+        : allowed(url),
+    );
+    renderAnalyticsPage();
+
+    await waitFor(() => {
+      expect(screen.getByRole("alert")).toHaveTextContent("Only members who can view reports");
+    });
+  });
+
+  describe("export", () => {
+    beforeEach(() => {
+      URL.createObjectURL = vi.fn(() => "blob:customers");
+      URL.revokeObjectURL = vi.fn();
+    });
+
+    it("downloads the period's customers in the chosen format", async () => {
+      const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+      const user = userEvent.setup();
+      renderAnalyticsPage("queue-bar");
+      await screen.findByRole("group", { name: "Average wait" });
+
+      await user.selectOptions(screen.getByLabelText("Export format"), "json");
+      await user.click(screen.getByRole("button", { name: "Export customers" }));
+
+      await waitFor(() => expect(click).toHaveBeenCalled());
+      const url = new URL(exportRequests()[0], "http://localhost");
+      expect(url.pathname).toBe("/api/queues/queue-bar/export");
+      expect(url.searchParams.get("format")).toBe("json");
+      expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe("test-business-customers-week.json");
+      click.mockRestore();
+    });
+
+    it("shows the server's reason when the export is refused", async () => {
+      const allowed = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation((url: string) =>
+        url.includes("/export?")
+          ? jsonResponse({ detail: "Only members who can view reports can export customers." }, 403)
+          : allowed(url),
+      );
+      const user = userEvent.setup();
+      renderAnalyticsPage();
+      await screen.findByRole("group", { name: "Average wait" });
+
+      await user.click(screen.getByRole("button", { name: "Export customers" }));
+
+      expect(await screen.findByRole("alert")).toHaveTextContent("Only members who can view reports can export");
+      expect(exportRequests()[0]).toContain("/api/business/test-business/export?");
+    });
+  });
+});
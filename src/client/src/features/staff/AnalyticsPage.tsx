@@ -0,0 +1,342 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "../auth/hooks/useAuth";
+import { UserMenu } from "../auth/components/UserMenu";
+import { apiFetch, apiRequest } from "../../shared/utils/apiClient";
+import { getApiErrorMessage } from "../../shared/utils/api";
+import { HourlyChart, PeakHeatmap, type HourTotals } from "./components/AnalyticsCharts";
+
+interface Summary {
+  joinedCount: number;
+  servedCount: number;
+  noShowCount: number;
+  abandonedCount: number;
+  averageWaitMinutes: number | null;
+  p90WaitMinutes: number | null;
+  averageServiceMinutes: number | null;
+  p90ServiceMinutes: number | null;
+  servedPerHour: number | null;
+  noShowRate: number | null;
+  abandonmentRate: number | null;
+}
+
+interface QueueSummary {
+  queueId: string;
+  name: string;
+  isArchived: boolean;
+  summary: Summary;
+}
+
+interface AnalyticsResponse {
+  summary: Summary;
+  hours: HourTotals[];
+  heatmap: number[][];
+  /** Only for the whole business */
+  queues?: QueueSummary[];
+}
+
+interface QueueOption {
+  queueId: string;
+  name: string;
+}
+
+type Period = "today" | "week" | "month";
+
+type ExportFormat = "csv" | "json";
+
+const PERIOD_LABELS: Record<Period, string> = {
+  today: "Today",
+  week: "Last 7 days",
+  month: "Last 30 days",
+};
+
+const SELECT_CLASS =
+  "px-3 py-2 bg-slate-800 border border-slate-700 rounded-none text-sm text-white focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 transition-all";
+
+function periodStart(period: Period, now: Date): Date {
+  if (period === "today") {
+    const midnight = new Date(now);
+    midnight.setHours(0, 0, 0, 0);
+    return midnight;
+  }
+
+  const days = period === "week" ? 7 : 30;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+/** from/to for the period, ending now */
+function periodParams(period: Period): URLSearchParams {
+  const now = new Date();
+  return new URLSearchParams({ from: periodStart(period, now).toISOString(), to: now.toISOString() });
+}
+
+function formatMinutes(minutes: number | null) {
+  return minutes === null ? "-" : `${minutes} min`;
+}
+
+function formatRate(rate: number | null) {
+  return rate === null ? "-" : `${Math.round(rate * 100)}%`;
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div role="group" aria-label={label} className="p-4 bg-slate-900 border border-slate-800 rounded-none">
+      <dt className="text-xs font-medium uppercase tracking-wide text-slate-500">{label}</dt>
+      <dd className="mt-1 text-2xl font-bold text-white">{value}</dd>
+      {hint && <dd className="mt-1 text-xs text-slate-500">{hint}</dd>}
+    </div>
+  );
+}
+
+interface AnalyticsPageProps {
+  businessSlug: string;
+  /** Queue to show first; the whole business when not given */
+  initialQueueId?: string;
+}
+
+/**
+ * Wait times, throughput and busy hours for the whole business or one queue,
+ * for owners planning staffing.
+ */
+export function AnalyticsPage({ businessSlug, initialQueueId }: AnalyticsPageProps) {
+  const { businesses } = useAuth();
+  const [queues, setQueues] = useState<QueueOption[]>([]);
+  const [queueId, setQueueId] = useState(initialQueueId ?? "");
+  const [period, setPeriod] = useState<Period>("week");
+  const [analytics, setAnalytics] = useState<AnalyticsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const businessName = businesses.find((b) => b.slug === businessSlug)?.name ?? businessSlug;
+
+  useEffect(() => {
+    apiRequest<{ queues: QueueOption[] }>(
+      `/api/business/${businessSlug}/queues?includeClosed=true`,
+      {},
+      "Failed to load queues",
+    )
+      .then((result) => {
+        if (result.ok) setQueues(result.data?.queues ?? []);
+      })
+      .catch((err) => console.error("load queues error:", err));
+  }, [businessSlug]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = periodParams(period);
+    params.set("timeZone", Intl.DateTimeFormat().resolvedOptions().timeZone);
+    const path = queueId
+      ? `/api/queues/${queueId}/analytics?${params}`
+      : `/api/business/${businessSlug}/analytics?${params}`;
+
+    setIsLoading(true);
+    apiRequest<AnalyticsResponse>(path, {}, "Failed to load analytics")
+      .then((result) => {
+        if (cancelled) return;
+        if (result.ok) {
+          setAnalytics(result.data);
+          setError(null);
+        } else {
+          setError(result.error);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError("Couldn't reach the server. Check your connection.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [businessSlug, queueId, period]);
+
+  // Every customer in the period, for the accounts - fetched with the session token, then saved
+  const handleExport = async () => {
+    const params = periodParams(period);
+    params.set("format", exportFormat);
+    const path = queueId
+      ? `/api/queues/${queueId}/export?${params}`
+      : `/api/business/${businessSlug}/export?${params}`;
+
+    setIsExporting(true);
+    try {
+      const response = await apiFetch(path);
+      if (!response.ok) {
+        setError(await getApiErrorMessage(response, "Failed to export customers"));
+        return;
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${businessSlug}-customers-${period}.${exportFormat}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setError(null);
+    } catch {
+      setError("Couldn't reach the server. Check your connection.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const summary = analytics?.summary;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <div className="max-w-5xl mx-auto p-4 space-y-6">
+        <header className="flex items-center justify-between">
+          <div>
+            <Link href={`/staff/${businessSlug}`} className="text-sm text-slate-400 hover:text-white transition-colors">
+              &larr; Back to queues
+            </Link>
+            <h1 className="text-xl font-bold text-white">{businessName} Analytics</h1>
+          </div>
+          <UserMenu />
+        </header>
+
+        <section className="flex flex-col sm:flex-row gap-3">
+          <label htmlFor="analyticsQueue" className="sr-only">
+            Queue
+          </label>
+          <select id="analyticsQueue" value={queueId} onChange={(e) => setQueueId(e.target.value)} className={SELECT_CLASS}>
+            <option value="">All queues</option>
+            {queues.map((queue) => (
+              <option key={queue.queueId} value={queue.queueId}>
+                {queue.name}
+              </option>
+            ))}
+          </select>
+          <label htmlFor="analyticsPeriod" className="sr-only">
+            Period
+          </label>
+          <select
+            id="analyticsPeriod"
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as Period)}
+            className={SELECT_CLASS}
+          >
+            {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-3 sm:ml-auto">
+            <label htmlFor="exportFormat" className="sr-only">
+              Export format
+            </label>
+            <select
+              id="exportFormat"
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              className={SELECT_CLASS}
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="px-4 py-2 text-sm font-semibold rounded-none bg-teal-400 text-slate-950 hover:bg-teal-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              {isExporting ? "Exporting..." : "Export customers"}
+            </button>
+          </div>
+        </section>
+
+        {error && (
+          <div role="alert" className="p-3 bg-red-500/10 border border-red-500/20 rounded-none text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading && !analytics ? (
+          <p className="text-slate-400 text-sm">Loading analytics...</p>
+        ) : (
+          summary &&
+          analytics && (
+            <>
+              <dl className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                <StatCard
+                  label="Average wait"
+                  value={formatMinutes(summary.averageWaitMinutes)}
+                  hint={`90% called within ${formatMinutes(summary.p90WaitMinutes)}`}
+                />
+                <StatCard
+                  label="Service time"
+                  value={formatMinutes(summary.averageServiceMinutes)}
+                  hint={`90% done within ${formatMinutes(summary.p90ServiceMinutes)}`}
+                />
+                <StatCard
+                  label="Served per hour"
+                  value={summary.servedPerHour === null ? "-" : String(summary.servedPerHour)}
+                  hint={`${summary.servedCount} served of ${summary.joinedCount} joined`}
+                />
+                <StatCard
+                  label="No-shows"
+                  value={formatRate(summary.noShowRate)}
+                  hint={`${summary.noShowCount} didn't turn up when called`}
+                />
+                <StatCard
+                  label="Abandoned"
+                  value={formatRate(summary.abandonmentRate)}
+                  hint={`${summary.abandonedCount} left or were removed`}
+                />
+              </dl>
+
+              <section className="p-6 bg-slate-900 border border-slate-800 rounded-none">
+                <h2 className="text-lg font-semibold mb-4">Throughput by hour</h2>
+                <HourlyChart hours={analytics.hours} />
+              </section>
+
+              <section className="p-6 bg-slate-900 border border-slate-800 rounded-none">
+                <h2 className="text-lg font-semibold mb-4">Peak hours</h2>
+                <PeakHeatmap heatmap={analytics.heatmap} />
+              </section>
+
+              {analytics.queues && analytics.queues.length > 1 && (
+                <section className="p-6 bg-slate-900 border border-slate-800 rounded-none overflow-x-auto">
+                  <h2 className="text-lg font-semibold mb-4">By queue</h2>
+                  <table className="w-full text-sm" aria-label="Queues">
+                    <thead>
+                      <tr className="text-left text-xs uppercase tracking-wide text-slate-500">
+                        <th className="py-2 font-medium">Queue</th>
+                        <th className="py-2 font-medium">Joined</th>
+                        <th className="py-2 font-medium">Served</th>
+                        <th className="py-2 font-medium">Average wait</th>
+                        <th className="py-2 font-medium">No-shows</th>
+                        <th className="py-2 font-medium">Abandoned</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800">
+                      {analytics.queues.map((queue) => (
+                        <tr key={queue.queueId}>
+                          <th scope="row" className="py-2 font-normal text-left text-white">
+                            {queue.name}
+                            {queue.isArchived && <span className="ml-2 text-xs text-slate-500">Archived</span>}
+                          </th>
+                          <td className="py-2 text-slate-300">{queue.summary.joinedCount}</td>
+                          <td className="py-2 text-slate-300">{queue.summary.servedCount}</td>
+                          <td className="py-2 text-slate-300">{formatMinutes(queue.summary.averageWaitMinutes)}</td>
+                          <td className="py-2 text-slate-300">{formatRate(queue.summary.noShowRate)}</td>
+                          <td className="py-2 text-slate-300">{formatRate(queue.summary.abandonmentRate)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
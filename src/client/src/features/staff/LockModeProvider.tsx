@@ -0,0 +1,35 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useAuth } from "../auth/hooks/useAuth";
+import { LockScreen } from "./components/LockScreen";
+import { LockModeContext, useLockModeState } from "./hooks/useLockMode";
+
+interface LockModeProviderProps {
+  businessSlug: string;
+  children: ReactNode;
+}
+
+/**
+ * Holds shared-device lock mode for all of a business's staff pages, so moving between
+ * the dashboard, team, history and analytics keeps the unlocked member - and locks every page.
+ */
+export function LockModeProvider({ businessSlug, children }: LockModeProviderProps) {
+  const lockMode = useLockModeState(businessSlug);
+  const { isAuthenticated, businesses } = useAuth();
+  const businessName = businesses.find((b) => b.slug === businessSlug)?.name ?? "";
+
+  return (
+    <LockModeContext.Provider value={lockMode}>
+      {children}
+      {lockMode.locked && isAuthenticated && (
+        <LockScreen
+          businessSlug={businessSlug}
+          businessName={businessName}
+          onUnlock={lockMode.unlock}
+          onExit={lockMode.disable}
+        />
+      )}
+    </LockModeContext.Provider>
+  );
+}
@@ -0,0 +1,165 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useRouter } from "next/navigation";
+import { QueueHistoryPage } from "./QueueHistoryPage";
+import { AuthProvider } from "../auth/AuthContext";
+
+vi.mocked(useRouter).mockReturnValue({
+  push: vi.fn(),
+  replace: vi.fn(),
+  back: vi.fn(),
+  forward: vi.fn(),
+  refresh: vi.fn(),
+  prefetch: vi.fn(),
+});
+
+// Mock fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const IPAD = "Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1";
+
+const servedEntry = {
+  id: "entry-3",
+  action: "served",
+  occurredAt: "2024-01-15T10:05:00Z",
+  actorUserId: "user-2",
+  actorEmail: "sam@example.com",
+  device: IPAD,
+  customerId: "customer-1",
+  customerName: "Alice",
+  details: null,
+};
+
+const joinedEntry = {
+  id: "entry-1",
+  action: "joined",
+  occurredAt: "2024-01-15T10:00:00Z",
+  actorUserId: null,
+  actorEmail: null,
+  device: IPAD,
+  customerId: "customer-1",
+  customerName: "Alice",
+  details: "Joined at position 1",
+};
+
+const noShowEntry = {
+  id: "entry-0",
+  action: "noShow",
+  occurredAt: "2024-01-15T09:00:00Z",
+  actorUserId: null,
+  actorEmail: null,
+  device: null,
+  customerId: "customer-0",
+  customerName: "Bob",
+  details: "Not served within 5 minutes of being called",
+};
+
+function jsonResponse(data: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(data),
+    text: () => Promise.resolve(data === undefined ? "" : JSON.stringify(data)),
+  });
+}
+
+function mockApi(history: (url: string) => Promise<unknown>) {
+  mockFetch.mockImplementation((url: string) => {
+    if (url.includes("/api/auth/me")) {
+      return jsonResponse({
+        userId: "user-1",
+        email: "owner@example.com",
+        businesses: [{ id: "business-1", name: "Test Business", slug: "test-business", role: "owner" }],
+      });
+    }
+    if (url.includes("/api/business/test-business/queues")) {
+      return jsonResponse({ queues: [{ queueId: "queue-bar", name: "Bar" }] });
+    }
+    if (url.includes("/api/queues/queue-bar/history")) {
+      return history(url);
+    }
+    return jsonResponse({});
+  });
+}
+
+function historyRequests() {
+  return mockFetch.mock.calls
+    .map(([url]) => url as string)
+    .filter((url) => url.includes("/api/queues/queue-bar/history"));
+}
+
+function renderHistoryPage() {
+  localStorage.setItem("auth_token", "test-token");
+
+  return render(
+    <AuthProvider>
+      <QueueHistoryPage businessSlug="test-business" queueId="queue-bar" />
+    </AuthProvider>
+  );
+}
+
+describe("QueueHistoryPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it("lists who did what and from which device", async () => {
+    mockApi(() => jsonResponse({ entries: [servedEntry, joinedEntry], nextBefore: null }));
+    renderHistoryPage();
+
+    expect(await screen.findByText("Bar History")).toBeInTheDocument();
+    const list = await screen.findByRole("list", { name: "Queue history" });
+    expect(list).toHaveTextContent("Served");
+    expect(list).toHaveTextContent("sam@example.com · Safari on iPad");
+    // Customers join on their own
+    expect(list).toHaveTextContent("Customer · Safari on iPad");
+    expect(list).toHaveTextContent("Joined at position 1");
+    expect(screen.queryByRole("button", { name: "Load more" })).not.toBeInTheDocument();
+  });
+
+  it("filters by action and customer name", async () => {
+    const user = userEvent.setup();
+    mockApi(() => jsonResponse({ entries: [servedEntry], nextBefore: null }));
+    renderHistoryPage();
+    await screen.findByRole("list", { name: "Queue history" });
+
+    await user.selectOptions(screen.getByLabelText("Action"), "served");
+    await user.type(screen.getByLabelText("Customer name"), "ali");
+    await user.click(screen.getByRole("button", { name: "Search" }));
+
+    await waitFor(() => {
+      expect(historyRequests().at(-1)).toContain("?action=served&customer=ali");
+    });
+  });
+
+  it("loads older entries", async () => {
+    const user = userEvent.setup();
+    mockApi((url) =>
+      url.includes("before=")
+        ? jsonResponse({ entries: [noShowEntry], nextBefore: null })
+        : jsonResponse({ entries: [servedEntry], nextBefore: servedEntry.occurredAt }),
+    );
+    renderHistoryPage();
+
+    await user.click(await screen.findByRole("button", { name: "Load more" }));
+
+    const list = await screen.findByRole("list", { name: "Queue history" });
+    await waitFor(() => {
+      expect(list).toHaveTextContent("Bob");
+    });
+    // Automatic no-shows aren't anyone's doing
+    expect(list).toHaveTextContent("System");
+    expect(list).toHaveTextContent("Alice");
+    expect(historyRequests().at(-1)).toContain(`before=${encodeURIComponent(servedEntry.occurredAt)}`);
+  });
+
+  it("shows the server's reason when history is refused", async () => {
+    mockApi(() => jsonResponse({ detail: "You don't have permission to view reports for this queue." }, 403));
+    renderHistoryPage();
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("You don't have permission to view reports");
+  });
+});
@@ -0,0 +1,261 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "../auth/hooks/useAuth";
+import { UserMenu } from "../auth/components/UserMenu";
+import { describeDevice } from "../auth/deviceName";
+import { apiRequest } from "../../shared/utils/apiClient";
+
+type HistoryAction =
+  | "joined"
+  | "called"
+  | "recalled"
+  | "requeued"
+  | "served"
+  | "noShow"
+  | "removed"
+  | "reordered"
+  | "transferred"
+  | "undone"
+  | "settingsChanged"
+  | "statusChanged"
+  | "left"
+  | "letOthersAhead"
+  | "onTheWay";
+
+/** Actions customers take themselves from their queue page */
+const CUSTOMER_ACTIONS: HistoryAction[] = ["joined", "left", "letOthersAhead", "onTheWay"];
+
+interface HistoryEntry {
+  id: string;
+  action: HistoryAction;
+  occurredAt: string;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  device: string | null;
+  customerId: string | null;
+  customerName: string | null;
+  details: string | null;
+}
+
+interface HistoryResponse {
+  entries: HistoryEntry[];
+  nextBefore: string | null;
+}
+
+interface Filters {
+  action: HistoryAction | "";
+  customer: string;
+}
+
+const ACTION_LABELS: Record<HistoryAction, string> = {
+  joined: "Joined",
+  called: "Called",
+  recalled: "Recalled",
+  requeued: "Sent back",
+  served: "Served",
+  noShow: "No-show",
+  removed: "Removed",
+  reordered: "Moved",
+  transferred: "Transferred",
+  undone: "Undone",
+  settingsChanged: "Settings changed",
+  statusChanged: "Status changed",
+  left: "Left",
+  letOthersAhead: "Let others ahead",
+  onTheWay: "On the way",
+};
+
+const INPUT_CLASS =
+  "px-3 py-2 bg-slate-800 border border-slate-700 rounded-none text-sm text-white placeholder-slate-500 focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 transition-all";
+
+/** Who an entry is credited to: a staff member, the customer themselves, or the system */
+function describeActor(entry: HistoryEntry): string {
+  if (entry.actorEmail) return entry.actorEmail;
+  if (entry.actorUserId) return "Former staff member";
+  return CUSTOMER_ACTIONS.includes(entry.action) ? "Customer" : "System";
+}
+
+interface QueueHistoryPageProps {
+  businessSlug: string;
+  queueId: string;
+}
+
+/**
+ * Everything that happened in one queue, newest first: who did what, when and from which device.
+ * Settles "I was skipped" disputes and shows how each member of staff runs the queue.
+ */
+export function QueueHistoryPage({ businessSlug, queueId }: QueueHistoryPageProps) {
+  const { businesses } = useAuth();
+  const [queueName, setQueueName] = useState<string | null>(null);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [filters, setFilters] = useState<Filters>({ action: "", customer: "" });
+  const [customerSearch, setCustomerSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const businessName = businesses.find((b) => b.slug === businessSlug)?.name ?? businessSlug;
+
+  const loadPage = useCallback(
+    async (before: string | null) => {
+      const params = new URLSearchParams();
+      if (filters.action) params.set("action", filters.action);
+      if (filters.customer) params.set("customer", filters.customer);
+      if (before) params.set("before", before);
+      const query = params.toString();
+
+      try {
+        const result = await apiRequest<HistoryResponse>(
+          `/api/queues/${queueId}/history${query ? `?${query}` : ""}`,
+          {},
+          "Failed to load history",
+        );
+        if (!result.ok) {
+          setError(result.error);
+          return;
+        }
+
+        const page = result.data?.entries ?? [];
+        setEntries((current) => (before ? [...current, ...page] : page));
+        setNextBefore(result.data?.nextBefore ?? null);
+        setError(null);
+      } catch {
+        setError("Couldn't reach the server. Check your connection.");
+      }
+    },
+    [queueId, filters],
+  );
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadPage(null).finally(() => setIsLoading(false));
+  }, [loadPage]);
+
+  useEffect(() => {
+    apiRequest<{ queues: { queueId: string; name: string }[] }>(
+      `/api/business/${businessSlug}/queues?includeClosed=true`,
+      {},
+      "Failed to load queues",
+    )
+      .then((result) => {
+        if (result.ok) setQueueName(result.data?.queues.find((q) => q.queueId === queueId)?.name ?? null);
+      })
+      .catch((err) => console.error("load queues error:", err));
+  }, [businessSlug, queueId]);
+
+  const handleLoadMore = async () => {
+    if (!nextBefore) return;
+    setIsLoadingMore(true);
+    await loadPage(nextBefore);
+    setIsLoadingMore(false);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters((current) => ({ ...current, customer: customerSearch.trim() }));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <div className="max-w-4xl mx-auto p-4 space-y-6">
+        <header className="flex items-center justify-between">
+          <div>
+            <Link href={`/staff/${businessSlug}`} className="text-sm text-slate-400 hover:text-white transition-colors">
+              &larr; Back to queues
+            </Link>
+            <h1 className="text-xl font-bold text-white">{queueName ?? businessName} History</h1>
+          </div>
+          <UserMenu />
+        </header>
+
+        <section className="flex flex-col sm:flex-row gap-3">
+          <label htmlFor="historyAction" className="sr-only">
+            Action
+          </label>
+          <select
+            id="historyAction"
+            value={filters.action}
+            onChange={(e) => setFilters((current) => ({ ...current, action: e.target.value as Filters["action"] }))}
+            className={INPUT_CLASS}
+          >
+            <option value="">All actions</option>
+            {Object.entries(ACTION_LABELS).map(([action, label]) => (
+              <option key={action} value={action}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <form onSubmit={handleSearch} className="flex flex-1 gap-3">
+            <label htmlFor="historyCustomer" className="sr-only">
+              Customer name
+            </label>
+            <input
+              id="historyCustomer"
+              type="search"
+              value={customerSearch}
+              onChange={(e) => setCustomerSearch(e.target.value)}
+              placeholder="Customer name"
+              className={`${INPUT_CLASS} flex-1`}
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-semibold rounded-none bg-teal-400 text-slate-950 hover:bg-teal-300 transition-colors"
+            >
+              Search
+            </button>
+          </form>
+        </section>
+
+        {error && (
+          <div role="alert" className="p-3 bg-red-500/10 border border-red-500/20 rounded-none text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-slate-400 text-sm">Loading history...</p>
+        ) : entries.length === 0 ? (
+          !error && <p className="text-slate-500 text-sm">Nothing recorded yet.</p>
+        ) : (
+          <section className="bg-slate-900 border border-slate-800 rounded-none">
+            <ul aria-label="Queue history" className="divide-y divide-slate-800">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-start gap-4 p-4">
+                  <span className="w-32 shrink-0 text-xs font-medium uppercase tracking-wide text-teal-400">
+                    {ACTION_LABELS[entry.action] ?? entry.action}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white">
+                      {entry.customerName ?? <span className="text-slate-400">Queue</span>}
+                      {entry.details && <span className="ml-2 text-sm text-slate-400">{entry.details}</span>}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {describeActor(entry)}
+                      {entry.device && ` · ${describeDevice(entry.device)}`}
+                    </p>
+                  </div>
+                  <time dateTime={entry.occurredAt} className="shrink-0 text-xs text-slate-500">
+                    {new Date(entry.occurredAt).toLocaleString()}
+                  </time>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {nextBefore && !isLoading && (
+          <button
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+            className="w-full px-4 py-2 text-sm text-slate-300 border border-slate-700 rounded-none hover:border-slate-600 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            {isLoadingMore ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQueueSettings } from "./hooks/useQueueSettings";
+import { OperatingHoursEditor } from "./components/OperatingHoursEditor";
+import { JoinFieldsEditor } from "./components/JoinFieldsEditor";
 import type { QueueSettings as QueueSettingsType } from "./hooks/useQueueSettings";
 
 interface QueueSettingsProps {
@@ -168,6 +170,12 @@ export function QueueSettings({ queueId, onClose }: QueueSettingsProps) {
           />
         </div>
 
+        {/* Join Questions */}
+        <JoinFieldsEditor
+          fields={formData.joinFields}
+          onChange={(joinFields) => setFormData((prev) => (prev ? { ...prev, joinFields } : null))}
+        />
+
         {/* Actions */}
         <div className="flex gap-3 pt-4">
           {onClose && (
@@ -189,6 +197,11 @@ export function QueueSettings({ queueId, onClose }: QueueSettingsProps) {
           </button>
         </div>
       </form>
+
+      {/* Saved on their own, so a half-edited schedule doesn't hold up the settings above */}
+      <div className="mt-6 pt-6 border-t border-slate-800">
+        <OperatingHoursEditor queueId={queueId} />
+      </div>
     </div>
   );
 }
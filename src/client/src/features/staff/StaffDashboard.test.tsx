@@ -1,9 +1,11 @@
-import { render, screen, waitFor, act } from "@testing-library/react";
+import { render, screen, waitFor, act, fireEvent, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { useRouter } from "next/navigation";
 import { StaffDashboard } from "./StaffDashboard";
 import { AuthProvider } from "../auth/AuthContext";
+import { LockModeProvider } from "./LockModeProvider";
+import { getActingMember } from "../../shared/utils/apiClient";
 
 // Get mock router
 const mockReplace = vi.fn();
@@ -20,12 +22,14 @@ vi.mocked(useRouter).mockReturnValue({
 // Mock useSignalR
 const mockInvoke = vi.fn();
 const mockOn = vi.fn();
+const mockJoinRoom = vi.fn();
 
 vi.mock("../../shared/hooks/useSignalR", () => ({
   useSignalR: vi.fn(() => ({
     state: "connected",
     invoke: mockInvoke,
     on: mockOn,
+    joinRoom: mockJoinRoom,
   })),
 }));
 
@@ -60,9 +64,11 @@ const mockQueue1Customers = {
       calledAt: null,
       partySize: 2,
       notes: null,
+      phoneNumber: null,
+      joinAnswers: [],
     },
   ],
-  queueInfo: { name: "Queue 1", isActive: true, isPaused: false, waitingCount: 1, calledCount: 0 },
+  queueInfo: { name: "Queue 1", isActive: true, isPaused: false, autoCloseAt: null, waitingCount: 1, calledCount: 0 },
 };
 
 const mockQueue2Customers = {
@@ -77,9 +83,11 @@ const mockQueue2Customers = {
       calledAt: null,
       partySize: 1,
       notes: null,
+      phoneNumber: null,
+      joinAnswers: [],
     },
   ],
-  queueInfo: { name: "Queue 2", isActive: true, isPaused: false, waitingCount: 1, calledCount: 0 },
+  queueInfo: { name: "Queue 2", isActive: true, isPaused: false, autoCloseAt: null, waitingCount: 1, calledCount: 0 },
 };
 
 function renderDashboard(businessSlug: string = "test-business") {
@@ -88,7 +96,9 @@ function renderDashboard(businessSlug: string = "test-business") {
 
   return render(
     <AuthProvider>
-      <StaffDashboard businessSlug={businessSlug} />
+      <LockModeProvider businessSlug={businessSlug}>
+        <StaffDashboard businessSlug={businessSlug} />
+      </LockModeProvider>
     </AuthProvider>
   );
 }
@@ -99,6 +109,7 @@ describe("StaffDashboard", () => {
     localStorage.clear();
     mockInvoke.mockResolvedValue(undefined);
     mockOn.mockReturnValue(() => {});
+    mockJoinRoom.mockReturnValue(() => {});
 
     // Set up default mock responses
     mockFetch.mockImplementation((url: string) => {
@@ -242,6 +253,339 @@ describe("StaffDashboard", () => {
     });
   });
 
+  describe("Called customer actions", () => {
+    const queue1WithCalled = {
+      ...mockQueue1Customers,
+      customers: [
+        {
+          id: "c3",
+          name: "Carol",
+          token: "t3",
+          status: "Called",
+          position: null,
+          joinedAt: "2024-01-01T09:00:00Z",
+          calledAt: "2024-01-01T10:30:00Z",
+          partySize: null,
+          notes: null,
+          phoneNumber: null,
+          joinAnswers: [],
+        },
+        ...mockQueue1Customers.customers,
+      ],
+    };
+
+    beforeEach(() => {
+      const defaultFetch = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+        if (url.endsWith("/api/queues/queue-1/customers")) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve(queue1WithCalled),
+            text: () => Promise.resolve(JSON.stringify(queue1WithCalled)),
+          });
+        }
+        if (url.endsWith("/recall") || url.endsWith("/requeue")) {
+          return Promise.resolve({ ok: true, status: 204, text: () => Promise.resolve("") });
+        }
+        return defaultFetch(url, init);
+      });
+    });
+
+    it("should call a customer again", async () => {
+      const user = userEvent.setup();
+      renderDashboard();
+
+      await user.click(await screen.findByRole("button", { name: "Call again" }));
+
+      expect(mockFetch).toHaveBeenCalledWith("/api/queues/queue-1/customers/c3/recall", {
+        method: "POST",
+        headers: { Authorization: "Bearer test-token" },
+        body: undefined,
+      });
+    });
+
+    it("should send a customer back to the chosen position", async () => {
+      const user = userEvent.setup();
+      renderDashboard();
+
+      await user.click(await screen.findByRole("button", { name: "Send back" }));
+      const positionInput = screen.getByRole("spinbutton");
+      await user.clear(positionInput);
+      await user.type(positionInput, "2");
+      await user.click(screen.getByRole("button", { name: "Confirm" }));
+
+      expect(mockFetch).toHaveBeenCalledWith("/api/queues/queue-1/customers/c3/requeue", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Bearer test-token" },
+        body: JSON.stringify({ position: 2 }),
+      });
+    });
+  });
+
+  describe("Reordering waiting customers", () => {
+    const queue1WithTwoWaiting = {
+      ...mockQueue1Customers,
+      customers: [
+        ...mockQueue1Customers.customers,
+        {
+          id: "c4",
+          name: "Dave",
+          token: "t4",
+          status: "Waiting",
+          position: 2,
+          joinedAt: "2024-01-01T10:05:00Z",
+          calledAt: null,
+          partySize: null,
+          notes: null,
+          phoneNumber: null,
+          joinAnswers: [],
+        },
+      ],
+    };
+
+    const reorderCall = (customerId: string, position: number) => [
+      `/api/queues/queue-1/customers/${customerId}/reorder`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Bearer test-token" },
+        body: JSON.stringify({ position }),
+      },
+    ];
+
+    beforeEach(() => {
+      const defaultFetch = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+        if (url.endsWith("/api/queues/queue-1/customers")) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve(queue1WithTwoWaiting),
+            text: () => Promise.resolve(JSON.stringify(queue1WithTwoWaiting)),
+          });
+        }
+        if (url.endsWith("/reorder")) {
+          return Promise.resolve({ ok: true, status: 200, text: () => Promise.resolve("") });
+        }
+        return defaultFetch(url, init);
+      });
+    });
+
+    it("should move a customer up with the move buttons", async () => {
+      const user = userEvent.setup();
+      renderDashboard();
+
+      const daveCard = (await screen.findByText("Dave")).closest("[draggable]") as HTMLElement;
+      await user.click(within(daveCard).getByRole("button", { name: "Move up" }));
+
+      expect(mockFetch).toHaveBeenCalledWith(...reorderCall("c4", 1));
+    });
+
+    it("should move a customer into the slot they are dropped on", async () => {
+      renderDashboard();
+
+      const daveCard = (await screen.findByText("Dave")).closest("[draggable]") as HTMLElement;
+      const aliceCard = screen.getByText("Alice").closest("[draggable]") as HTMLElement;
+      const dataTransfer = { setData: vi.fn(), effectAllowed: "none" };
+
+      fireEvent.dragStart(daveCard, { dataTransfer });
+      fireEvent.dragOver(aliceCard, { dataTransfer });
+      fireEvent.drop(aliceCard, { dataTransfer });
+
+      expect(mockFetch).toHaveBeenCalledWith(...reorderCall("c4", 1));
+    });
+
+    it("should not drop a customer onto another queue", async () => {
+      renderDashboard();
+
+      const daveCard = (await screen.findByText("Dave")).closest("[draggable]") as HTMLElement;
+      const bobCard = screen.getByText("Bob").closest("[draggable]") as HTMLElement;
+      const dataTransfer = { setData: vi.fn(), effectAllowed: "none" };
+
+      fireEvent.dragStart(daveCard, { dataTransfer });
+      fireEvent.dragOver(bobCard, { dataTransfer });
+      fireEvent.drop(bobCard, { dataTransfer });
+
+      expect(mockFetch).not.toHaveBeenCalledWith(expect.stringContaining("/reorder"), expect.anything());
+    });
+  });
+
+  describe("Transferring customers", () => {
+    it("should move a customer to another queue by join time", async () => {
+      const user = userEvent.setup();
+      renderDashboard();
+
+      const aliceCard = (await screen.findByText("Alice")).closest("[draggable]") as HTMLElement;
+      await user.click(within(aliceCard).getByRole("button", { name: "Move to queue…" }));
+      expect(within(aliceCard).getByRole("combobox")).toHaveValue("queue-2");
+      await user.click(within(aliceCard).getByRole("button", { name: "By join time" }));
+
+      expect(mockFetch).toHaveBeenCalledWith("/api/queues/queue-1/customers/c1/transfer", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Bearer test-token" },
+        body: JSON.stringify({ targetQueueId: "queue-2", placement: "ByJoinTime" }),
+      });
+    });
+  });
+
+  describe("Adding a walk-in", () => {
+    it("should add the customer and show their ticket", async () => {
+      const defaultFetch = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+        if (url === "/api/queues/queue-2/customers" && init?.method === "POST") {
+          const ticket = { customerId: "c9", token: "walkin-token", ticketNumber: 7, position: 2, queueName: "Queue 2" };
+          return Promise.resolve({
+            ok: true,
+            status: 201,
+            json: () => Promise.resolve(ticket),
+            text: () => Promise.resolve(JSON.stringify(ticket)),
+          });
+        }
+        return defaultFetch(url, init);
+      });
+      const user = userEvent.setup();
+      renderDashboard();
+
+      await user.click(await screen.findByRole("button", { name: "Add Customer" }));
+      await user.selectOptions(screen.getByLabelText("Queue"), "queue-2");
+      await user.type(screen.getByLabelText("Name"), "Margaret");
+      await user.type(screen.getByLabelText(/Party size/), "3");
+      await user.click(screen.getByRole("button", { name: "Add to Queue" }));
+
+      expect(await screen.findByText("#7")).toBeInTheDocument();
+      expect(screen.getByText(/\/q\/walkin-token$/)).toBeInTheDocument();
+      expect(mockFetch).toHaveBeenCalledWith("/api/queues/queue-2/customers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Bearer test-token" },
+        body: JSON.stringify({ name: "Margaret", partySize: 3, notes: null }),
+      });
+    });
+  });
+
+  describe("Queue status controls", () => {
+    beforeEach(() => {
+      const defaultFetch = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+        if (url === "/api/queues/queue-1/pause" || url === "/api/queues/queue-1/auto-close") {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ isActive: true, isPaused: true, autoCloseAt: null }),
+            text: () => Promise.resolve("{}"),
+          });
+        }
+        return defaultFetch(url, init);
+      });
+    });
+
+    it("should pause a queue only after confirmation", async () => {
+      const user = userEvent.setup();
+      renderDashboard();
+
+      await user.click(await screen.findByRole("button", { name: /^Queue 1/ }));
+      await user.click(await screen.findByRole("button", { name: "Pause" }));
+      expect(mockFetch).not.toHaveBeenCalledWith("/api/queues/queue-1/pause", expect.anything());
+
+      const dialog = screen.getByRole("alertdialog", { name: "Pause queue" });
+      await user.click(within(dialog).getByRole("button", { name: "Pause queue" }));
+
+      expect(mockFetch).toHaveBeenCalledWith("/api/queues/queue-1/pause", {
+        method: "POST",
+        headers: { Authorization: "Bearer test-token" },
+        body: undefined,
+      });
+    });
+
+    it("should schedule the queue to close at the chosen time", async () => {
+      const user = userEvent.setup();
+      renderDashboard();
+
+      await user.click(await screen.findByRole("button", { name: /^Queue 1/ }));
+      fireEvent.change(await screen.findByLabelText("Close automatically at"), { target: { value: "23:59" } });
+      await user.click(screen.getByRole("button", { name: "Set" }));
+
+      const call = mockFetch.mock.calls.find(([url]) => url === "/api/queues/queue-1/auto-close");
+      expect(call![1].method).toBe("PUT");
+      const { closesAt } = JSON.parse(call![1].body);
+      expect(new Date(closesAt).getHours()).toBe(23);
+      expect(new Date(closesAt).getMinutes()).toBe(59);
+    });
+
+    it("should show the All view as paused when every open queue is paused", async () => {
+      const defaultFetch = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+        const queue = url.endsWith("/api/queues/queue-1/customers")
+          ? mockQueue1Customers
+          : url.endsWith("/api/queues/queue-2/customers")
+            ? mockQueue2Customers
+            : null;
+        if (queue) {
+          const paused = { ...queue, queueInfo: { ...queue.queueInfo, isPaused: true } };
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve(paused),
+            text: () => Promise.resolve(JSON.stringify(paused)),
+          });
+        }
+        return defaultFetch(url, init);
+      });
+
+      renderDashboard();
+
+      expect(await screen.findByText("Paused")).toBeInTheDocument();
+    });
+  });
+
+  describe("Managing queues", () => {
+    beforeEach(() => {
+      const defaultFetch = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+        if (url === "/api/business/test-business/queues/queue-1" && init?.method === "PUT") {
+          return Promise.resolve({ ok: true, text: () => Promise.resolve("{}") });
+        }
+        if (url === "/api/business/test-business/queues/queue-1" && init?.method === "DELETE") {
+          const problem = { title: "Customers still in line", detail: "Serve, remove or transfer everyone first." };
+          return Promise.resolve({ ok: false, status: 409, text: () => Promise.resolve(JSON.stringify(problem)) });
+        }
+        return defaultFetch(url, init);
+      });
+    });
+
+    async function openManageQueues() {
+      const user = userEvent.setup();
+      renderDashboard();
+
+      await user.click(await screen.findByRole("button", { name: "Manage Queues" }));
+      const dialog = await screen.findByRole("dialog", { name: "Manage Queues" });
+      await within(dialog).findByText("Queue 1");
+      return { user, dialog };
+    }
+
+    it("should rename a queue and change its link", async () => {
+      const { user, dialog } = await openManageQueues();
+
+      await user.click(within(dialog).getAllByRole("button", { name: "Edit" })[0]);
+      const slugInput = within(dialog).getByLabelText("Link name");
+      await user.clear(slugInput);
+      await user.type(slugInput, "front-desk");
+      expect(within(dialog).getByText(/old link and QR codes keep working/)).toBeInTheDocument();
+      await user.click(within(dialog).getByRole("button", { name: "Save" }));
+
+      const call = mockFetch.mock.calls.find(
+        ([url, init]) => url === "/api/business/test-business/queues/queue-1" && init?.method === "PUT",
+      );
+      expect(JSON.parse(call![1].body)).toEqual({ name: "Queue 1", slug: "front-desk" });
+      expect(call![1].headers.Authorization).toBe("Bearer test-token");
+    });
+
+    it("should show why a queue with customers can't be deleted", async () => {
+      const { user, dialog } = await openManageQueues();
+
+      await user.click(within(dialog).getAllByRole("button", { name: "Delete" })[0]);
+      const confirm = within(dialog).getByRole("alertdialog", { name: "Delete Queue 1" });
+      await user.click(within(confirm).getByRole("button", { name: "Delete Queue" }));
+
+      expect(await within(dialog).findByRole("alert")).toHaveTextContent("Serve, remove or transfer everyone first.");
+    });
+  });
+
   describe("Role-based UI for NoQueuesState", () => {
     it("shows create queue UI for owners when no queues exist", async () => {
       // Set up mock responses for owner with no queues
@@ -375,6 +719,160 @@ describe("StaffDashboard", () => {
       // Queue tabs should be visible
       expect(screen.getByRole("button", { name: /^Queue 1/ })).toBeInTheDocument();
       expect(screen.getByRole("button", { name: /^Queue 2/ })).toBeInTheDocument();
+
+      // Renaming and deleting queues is for owners only
+      expect(screen.queryByRole("button", { name: "Manage Queues" })).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Per-queue permissions", () => {
+    it("hides actions the staff member isn't allowed on a queue", async () => {
+      const me = {
+        userId: "user-1",
+        email: "bar@example.com",
+        businesses: [
+          {
+            id: "business-1",
+            name: "Test Business",
+            slug: "test-business",
+            role: "staff",
+            permissions: ["callCustomers", "manageCustomers", "editSettings"],
+            // Can work the bar queue but not clear the dine-in one
+            queuePermissions: [{ queueId: "queue-2", permissions: ["callCustomers"] }],
+          },
+        ],
+      };
+      const defaultFetch = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+        if (url.includes("/api/auth/me")) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve(me),
+            text: () => Promise.resolve(JSON.stringify(me)),
+          });
+        }
+        return defaultFetch(url, init);
+      });
+
+      renderDashboard();
+
+      const aliceCard = (await screen.findByText("Alice")).closest("[draggable]") as HTMLElement;
+      const bobCard = (await screen.findByText("Bob")).closest("[draggable]") as HTMLElement;
+      expect(within(aliceCard).getByRole("button", { name: "Remove" })).toBeInTheDocument();
+      expect(within(bobCard).queryByRole("button", { name: "Remove" })).not.toBeInTheDocument();
+      expect(bobCard).toHaveAttribute("draggable", "false");
+      expect(screen.queryByRole("link", { name: /Team/ })).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Shared-device lock mode", () => {
+    const sam = {
+      actingToken: "sam-acting-token",
+      userId: "user-2",
+      email: "sam@example.com",
+      role: "staff",
+      permissions: ["callCustomers", "manageCustomers"],
+      // Sam can't clear the second queue
+      queuePermissions: [{ queueId: "queue-2", permissions: ["callCustomers"] }],
+    };
+
+    beforeEach(() => {
+      const defaultFetch = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+        if (url.endsWith("/lock-screen")) {
+          const body = { members: [{ userId: "user-2", email: "sam@example.com" }] };
+          return Promise.resolve({ ok: true, status: 200, text: () => Promise.resolve(JSON.stringify(body)) });
+        }
+        if (url.endsWith("/unlock")) {
+          const { pin } = JSON.parse(init!.body as string);
+          return pin === "2468"
+            ? Promise.resolve({ ok: true, status: 200, text: () => Promise.resolve(JSON.stringify(sam)) })
+            : Promise.resolve({
+                ok: false,
+                status: 400,
+                text: () => Promise.resolve(JSON.stringify({ detail: "That PIN doesn't match." })),
+              });
+        }
+        if (init?.method === "DELETE") {
+          return Promise.resolve({ ok: true, status: 204, text: () => Promise.resolve("") });
+        }
+        return defaultFetch(url, init);
+      });
+    });
+
+    it("locks the dashboard until a member unlocks it with their PIN", async () => {
+      const user = userEvent.setup();
+      renderDashboard();
+
+      await user.click(await screen.findByRole("button", { name: /Lock mode/ }));
+      const lockScreen = screen.getByRole("dialog", { name: "Locked" });
+      await user.click(await within(lockScreen).findByRole("button", { name: "sam@example.com" }));
+
+      await user.type(within(lockScreen).getByLabelText("PIN"), "1111");
+      await user.click(within(lockScreen).getByRole("button", { name: "Unlock" }));
+      expect(await within(lockScreen).findByRole("alert")).toHaveTextContent("That PIN doesn't match.");
+
+      await user.type(within(lockScreen).getByLabelText("PIN"), "2468");
+      await user.click(within(lockScreen).getByRole("button", { name: "Unlock" }));
+
+      expect(await screen.findByText("Acting as sam@example.com")).toBeInTheDocument();
+      expect(screen.queryByRole("dialog", { name: "Locked" })).not.toBeInTheDocument();
+      // Sam's own permissions apply, not the signed-in owner's
+      const bobCard = screen.getByText("Bob").closest("[draggable]") as HTMLElement;
+      expect(within(bobCard).queryByRole("button", { name: "Remove" })).not.toBeInTheDocument();
+      expect(screen.queryByRole("button", { name: "Exit lock mode" })).not.toBeInTheDocument();
+    });
+
+    it("sends actions as the unlocked member and locks again on request", async () => {
+      const user = userEvent.setup();
+      localStorage.setItem("lock_mode_test-business", "true");
+      renderDashboard();
+
+      const lockScreen = await screen.findByRole("dialog", { name: "Locked" });
+      await user.click(await within(lockScreen).findByRole("button", { name: "sam@example.com" }));
+      await user.type(within(lockScreen).getByLabelText("PIN"), "2468");
+      await user.click(within(lockScreen).getByRole("button", { name: "Unlock" }));
+
+      const aliceCard = (await screen.findByText("Alice")).closest("[draggable]") as HTMLElement;
+      await user.click(within(aliceCard).getByRole("button", { name: "Remove" }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(
+          "/api/queues/queue-1/customers/c1",
+          expect.objectContaining({
+            method: "DELETE",
+            headers: expect.objectContaining({ "X-Acting-Member": "sam-acting-token" }),
+          }),
+        );
+      });
+
+      await user.click(screen.getByRole("button", { name: "Lock" }));
+      expect(screen.getByRole("dialog", { name: "Locked" })).toBeInTheDocument();
+    });
+
+    it("stays unlocked as the same member on the other staff pages", async () => {
+      const user = userEvent.setup();
+      localStorage.setItem("lock_mode_test-business", "true");
+      const { rerender } = renderDashboard();
+
+      const lockScreen = await screen.findByRole("dialog", { name: "Locked" });
+      await user.click(await within(lockScreen).findByRole("button", { name: "sam@example.com" }));
+      await user.type(within(lockScreen).getByLabelText("PIN"), "2468");
+      await user.click(within(lockScreen).getByRole("button", { name: "Unlock" }));
+      await screen.findByText("Acting as sam@example.com");
+
+      // Navigating to the team page swaps the page but keeps the layout's provider
+      rerender(
+        <AuthProvider>
+          <LockModeProvider businessSlug="test-business">
+            <p>Team page</p>
+          </LockModeProvider>
+        </AuthProvider>,
+      );
+
+      expect(screen.getByText("Team page")).toBeInTheDocument();
+      expect(screen.queryByRole("dialog", { name: "Locked" })).not.toBeInTheDocument();
+      expect(getActingMember()).toBe("sam-acting-token");
     });
   });
 });
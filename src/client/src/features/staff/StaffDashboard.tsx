@@ -1,19 +1,33 @@
 import { useState, useEffect, useCallback, useMemo, memo, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { notFound } from "next/navigation";
-import { safeJsonParse } from "../../shared/utils/api";
+import Link from "next/link";
+import { getApiErrorMessage, safeJsonParse } from "../../shared/utils/api";
+import { apiFetch, apiRequest } from "../../shared/utils/apiClient";
+import { useSignalR } from "../../shared/hooks/useSignalR";
+import { staffRoom } from "../../shared/signalr/queueHubContract";
 import { type Customer, type QueueInfo as HookQueueInfo, useStaffQueue } from "./hooks/useStaffQueue";
-import { CustomerCard } from "./components/CustomerCard";
-import { QueueControls } from "./components/QueueControls";
+import { applyCustomerUpdate } from "./queueUpdates";
+import { CustomerCard, type TransferPlacement } from "./components/CustomerCard";
+import { QueueControls, type QueueStatusAction } from "./components/QueueControls";
+import { ConnectionDiagnosticsPanel } from "./components/ConnectionDiagnosticsPanel";
+import { PendingActionsBanner } from "./components/PendingActionsBanner";
+import { AddCustomerModal } from "./components/AddCustomerModal";
+import { UndoToast } from "./components/UndoToast";
+import { useStaffOutbox } from "./hooks/useStaffOutbox";
+import { useUndoAction, type UndoableAction } from "./hooks/useUndoAction";
+import { useLockMode } from "./hooks/useLockMode";
 import { QueueSettings } from "./QueueSettings";
 import { QRCodeModal } from "./components/QRCodeModal";
 import { QRCodeDisplay } from "../../shared/components/QRCodeDisplay";
 import { QueueTabs } from "./components/QueueTabs";
+import { ManageQueuesModal } from "./components/ManageQueuesModal";
 import { DashboardSkeleton } from "../../shared/components/Skeleton";
 import { UserMenu } from "../auth/components/UserMenu";
 import { useAuth } from "../auth/hooks/useAuth";
+import { getPermissions } from "../auth/permissions";
+import type { Permission } from "../auth/authTypes";
 
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || "";
 
 interface QueueInfo {
   queueId: string;
@@ -29,6 +43,30 @@ interface QueuesResponse {
   queues: QueueInfo[];
 }
 
+type AllViewCustomer = Customer & { queueName: string; queueId: string };
+
+// Interleave queues by place in line (staff can move customers), then by arrival
+function sortByPosition(customers: AllViewCustomer[]): AllViewCustomer[] {
+  return customers.sort(
+    (a, b) =>
+      (a.position ?? 0) - (b.position ?? 0) || new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime(),
+  );
+}
+
+const CUSTOMER_ACTION_ERRORS = {
+  recall: "Failed to call customer again",
+  requeue: "Failed to send customer back",
+  reorder: "Failed to move customer",
+  transfer: "Failed to move customer to the other queue",
+};
+
+const QUEUE_STATUS_ERRORS: Record<QueueStatusAction, string> = {
+  open: "Failed to open queue",
+  close: "Failed to close queue",
+  pause: "Failed to pause queue",
+  resume: "Failed to resume queue",
+};
+
 function EmptyQueueState({ onShowQRCode }: { onShowQRCode: () => void }) {
   return (
     <div className="bg-slate-900 border border-slate-800 rounded-none p-8 text-center">
@@ -57,40 +95,48 @@ function EmptyQueueState({ onShowQRCode }: { onShowQRCode: () => void }) {
   );
 }
 
+function LockIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+    </svg>
+  );
+}
+
+interface CreatedQueue {
+  id: string;
+  name: string;
+  slug: string;
+}
+
 interface AddQueueModalProps {
   businessSlug: string;
-  token: string | null;
   onClose: () => void;
   onQueueCreated: (queue: QueueInfo) => void;
 }
 
-function AddQueueModal({ businessSlug, token, onClose, onQueueCreated }: AddQueueModalProps) {
+function AddQueueModal({ businessSlug, onClose, onQueueCreated }: AddQueueModalProps) {
   const [queueName, setQueueName] = useState("");
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const handleCreate = async () => {
-    if (!queueName.trim() || !token) return;
+    if (!queueName.trim()) return;
 
     setIsCreating(true);
     setError(null);
 
     try {
-      const response = await fetch(`/api/business/${businessSlug}/queues`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ name: queueName.trim() }),
-      });
+      const result = await apiRequest<CreatedQueue>(
+        `/api/business/${businessSlug}/queues`,
+        { method: "POST", json: { name: queueName.trim() } },
+        "Failed to create queue",
+      );
 
-      if (!response.ok) {
-        const data = await response.json().catch(() => ({}));
-        throw new Error(data.detail || "Failed to create queue");
-      }
+      if (!result.ok) throw new Error(result.error);
+      if (!result.data) throw new Error("Invalid response from server");
 
-      const data = await response.json();
+      const data = result.data;
       onQueueCreated({
         queueId: data.id,
         name: data.name,
@@ -193,22 +239,14 @@ function NoQueuesState({ businessSlug, businessName, isOwner, onQueueCreated }:
     setError(null);
 
     try {
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-      };
-      if (token) {
-        headers.Authorization = `Bearer ${token}`;
-      }
-
       // Use dev endpoint in development mode (no auth required)
       const endpoint = isDev && !token
         ? `/api/demo/business/${businessSlug}/queues`
         : `/api/business/${businessSlug}/queues`;
 
-      const response = await fetch(endpoint, {
+      const response = await apiFetch(endpoint, {
         method: "POST",
-        headers,
-        body: JSON.stringify({ name: queueName.trim() }),
+        json: { name: queueName.trim() },
       });
 
       if (!response.ok) {
@@ -339,7 +377,8 @@ export function StaffDashboard({ businessSlug }: StaffDashboardProps) {
       if (!businessSlug) return;
 
       try {
-        const response = await fetch(`${API_BASE}/api/business/${businessSlug}/queues`);
+        // Closed queues too, so they can be reopened
+        const response = await apiFetch(`/api/business/${businessSlug}/queues?includeClosed=true`);
 
         if (!response.ok) {
           if (response.status === 404) {
@@ -372,6 +411,24 @@ export function StaffDashboard({ businessSlug }: StaffDashboardProps) {
     fetchQueues();
   }, [businessSlug, router]);
 
+  // Reload after the owner renames, reorders, archives or deletes queues
+  const reloadQueues = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/api/business/${businessSlug}/queues?includeClosed=true`);
+      const data = response.ok ? await safeJsonParse<QueuesResponse>(response) : null;
+      if (!data?.queues) return;
+
+      setQueues(data.queues);
+      // The selected queue may be gone (archived or deleted)
+      setActiveQueueId((current) => {
+        if (data.queues.length === 1) return data.queues[0].queueId;
+        return data.queues.some((q) => q.queueId === current) ? current : null;
+      });
+    } catch (error) {
+      console.error("Failed to reload queues:", error);
+    }
+  }, [businessSlug]);
+
   if (loadingQueues) {
     return <DashboardSkeleton />;
   }
@@ -402,6 +459,7 @@ export function StaffDashboard({ businessSlug }: StaffDashboardProps) {
         setQueues((prev) => [...prev, queue]);
         setActiveQueueId(queue.queueId);
       }}
+      onQueuesChanged={reloadQueues}
     />
   );
 }
@@ -414,6 +472,7 @@ interface MultiQueueDashboardProps {
   onSelectQueue: (queueId: string | null) => void;
   isOwner: boolean;
   onQueueCreated: (queue: QueueInfo) => void;
+  onQueuesChanged: () => void;
 }
 
 function MultiQueueDashboard({
@@ -422,14 +481,27 @@ function MultiQueueDashboard({
   businessName,
   activeQueueId,
   onSelectQueue,
-  isOwner,
+  isOwner: isDeviceOwner,
   onQueueCreated,
+  onQueuesChanged,
 }: MultiQueueDashboardProps) {
-  const { token } = useAuth();
+  const { can } = useAuth();
+  const lockMode = useLockMode();
+  const { actingMember } = lockMode;
+  // While a shared device is unlocked it does what the unlocked member may do, not the signed-in account
+  const isOwner = actingMember ? actingMember.role === "owner" : isDeviceOwner;
+  const allowsAnywhere = (permission: Permission, queueId?: string | null) =>
+    actingMember ? getPermissions(actingMember, queueId).includes(permission) : can(businessSlug, permission, queueId);
   const [showSettings, setShowSettings] = useState(false);
   const [showQRCode, setShowQRCode] = useState(false);
   const [showQR, setShowQR] = useState(false);
   const [showAddQueue, setShowAddQueue] = useState(false);
+  const [showManageQueues, setShowManageQueues] = useState(false);
+  const [showAddCustomer, setShowAddCustomer] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const draggedRef = useRef<AllViewCustomer | null>(null);
 
   // Track queue counts separately for tabs - updated when active queue changes
   const [queueCounts, setQueueCounts] = useState<Record<string, number>>(() =>
@@ -437,10 +509,14 @@ function MultiQueueDashboard({
   );
 
   // For "All" view, we fetch all customers separately
-  const [allViewCustomers, setAllViewCustomers] = useState<(Customer & { queueName: string; queueId: string })[]>([]);
+  const [allViewCustomers, setAllViewCustomers] = useState<AllViewCustomer[]>([]);
+  const [allViewQueueInfos, setAllViewQueueInfos] = useState<Record<string, HookQueueInfo>>({});
   const [allViewLoading, setAllViewLoading] = useState(false);
   // Track whether All view data has been fetched (cache invalidated by SignalR or manual refresh)
   const allViewFetchedRef = useRef(false);
+  // Queue version each queue's slice of the All view reflects
+  const allViewVersionsRef = useRef<Record<string, number>>({});
+  const isAllView = activeQueueId === null && initialQueues.length > 1;
 
   // Get the selected queue info
   const selectedQueue = activeQueueId ? initialQueues.find((q) => q.queueId === activeQueueId) : null;
@@ -451,6 +527,14 @@ function MultiQueueDashboard({
   // Use SINGLE staff queue hook - only for the active queue
   const { customers, queueInfo, isLoading, error, connectionState, refresh, callNext } = useStaffQueue(primaryQueueId);
 
+  // Actions taken while offline wait here and are replayed on reconnect
+  const { pendingActions, conflicts, submit, dismissConflict } = useStaffOutbox();
+
+  const pendingByCustomer = useMemo(
+    () => new Map(pendingActions.filter((a) => a.customerId).map((a) => [a.customerId, a.type])),
+    [pendingActions],
+  );
+
   // Update queue counts when active queue data changes
   // Also invalidate All view cache when data changes (SignalR update)
   useEffect(() => {
@@ -478,12 +562,15 @@ function MultiQueueDashboard({
     async function fetchAllQueues() {
       setAllViewLoading(true);
       try {
-        const allCustomers: (Customer & { queueName: string; queueId: string })[] = [];
+        const allCustomers: AllViewCustomer[] = [];
         const newCounts: Record<string, number> = {};
+        const queueInfos: Record<string, HookQueueInfo> = {};
 
         // Fetch all queues in parallel
         const responses = await Promise.all(
-          initialQueues.map((q) => fetch(`/api/queues/${q.queueId}/customers`).then((r) => (r.ok ? r.json() : null))),
+          initialQueues.map((q) =>
+            apiFetch(`/api/queues/${q.queueId}/customers`).then((r) => (r.ok ? r.json() : null)),
+          ),
         );
 
         if (cancelled) return;
@@ -491,6 +578,8 @@ function MultiQueueDashboard({
         responses.forEach((data, index) => {
           if (data?.customers) {
             const queue = initialQueues[index];
+            allViewVersionsRef.current[queue.queueId] = data.version;
+            if (data.queueInfo) queueInfos[queue.queueId] = data.queueInfo;
             newCounts[queue.queueId] = data.customers.filter((c: Customer) => c.status === "Waiting").length;
             data.customers.forEach((c: Customer) => {
               allCustomers.push({ ...c, queueName: queue.name, queueId: queue.queueId });
@@ -498,10 +587,8 @@ function MultiQueueDashboard({
           }
         });
 
-        // Sort by joinedAt
-        allCustomers.sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime());
-
-        setAllViewCustomers(allCustomers);
+        setAllViewCustomers(sortByPosition(allCustomers));
+        setAllViewQueueInfos(queueInfos);
         setQueueCounts((prev) => ({ ...prev, ...newCounts }));
         allViewFetchedRef.current = true;
       } catch (err) {
@@ -517,7 +604,97 @@ function MultiQueueDashboard({
     };
   }, [activeQueueId, initialQueues, allViewCustomers.length]);
 
+  // Replace one queue's slice of the All view with a fresh snapshot
+  const refetchAllViewQueue = useCallback(
+    async (queueId: string) => {
+      const queue = initialQueues.find((q) => q.queueId === queueId);
+      if (!queue) return;
+
+      try {
+        const response = await apiFetch(`/api/queues/${queueId}/customers`);
+        if (!response.ok) return;
+        const data = await safeJsonParse<{ customers: Customer[]; queueInfo: HookQueueInfo; version: number }>(
+          response,
+        );
+        if (!data) return;
+
+        allViewVersionsRef.current[queueId] = data.version;
+        if (data.queueInfo) setAllViewQueueInfos((prev) => ({ ...prev, [queueId]: data.queueInfo }));
+        const queueCustomers = data.customers.map((c) => ({ ...c, queueName: queue.name, queueId }));
+        setAllViewCustomers((prev) => sortByPosition([...prev.filter((c) => c.queueId !== queueId), ...queueCustomers]));
+      } catch (err) {
+        console.error("Failed to refresh queue:", err);
+      }
+    },
+    [initialQueues],
+  );
+
+  // The All view listens to every queue's staff room (the hook above only covers one queue)
+  const resyncAllView = useCallback(() => {
+    if (!isAllView || !allViewFetchedRef.current) return;
+    initialQueues.forEach((q) => refetchAllViewQueue(q.queueId));
+  }, [isAllView, initialQueues, refetchAllViewQueue]);
+
+  const { on: onHubEvent, joinRoom: joinHubRoom } = useSignalR({
+    hubUrl: "/hubs/queue",
+    autoConnect: true,
+    onReconnected: resyncAllView,
+  });
+
+  useEffect(() => {
+    if (!isAllView) return;
+    const leaveRooms = initialQueues.map((q) => joinHubRoom(staffRoom(q.queueId)));
+    return () => leaveRooms.forEach((leave) => leave());
+  }, [isAllView, initialQueues, joinHubRoom]);
+
+  useEffect(() => {
+    if (!isAllView) return;
+
+    return onHubEvent("QueueUpdated", (queueId, _updateType, version, customer) => {
+      const queue = initialQueues.find((q) => q.queueId === queueId);
+      const knownVersion = allViewVersionsRef.current[queueId];
+      // Not loaded yet - the initial fetch will include this change
+      if (!queue || knownVersion === undefined || version <= knownVersion) return;
+
+      // Next update in sequence - patch this queue's customers in place
+      if (version === knownVersion + 1 && customer) {
+        allViewVersionsRef.current[queueId] = version;
+        setAllViewCustomers((prev) => {
+          const patched = applyCustomerUpdate(
+            prev.filter((c) => c.queueId === queueId),
+            { ...customer, queueName: queue.name, queueId },
+          );
+          return sortByPosition([...prev.filter((c) => c.queueId !== queueId), ...patched]);
+        });
+        return;
+      }
+
+      // Missed an update - refetch just this queue
+      refetchAllViewQueue(queueId);
+    });
+  }, [isAllView, initialQueues, onHubEvent, refetchAllViewQueue]);
+
+  // Keep tab counts in step with the live All view
+  useEffect(() => {
+    if (!isAllView || !allViewFetchedRef.current) return;
+    const counts = Object.fromEntries(
+      initialQueues.map((q) => [
+        q.queueId,
+        allViewCustomers.filter((c) => c.queueId === q.queueId && c.status === "Waiting").length,
+      ]),
+    );
+    setQueueCounts((prev) => ({ ...prev, ...counts }));
+  }, [isAllView, initialQueues, allViewCustomers]);
+
   // Build tab data from tracked counts
+  const openManageQueues = useCallback(() => setShowManageQueues(true), []);
+
+  const handleQueuesChanged = useCallback(() => {
+    // Names and membership of the All view may have changed
+    allViewFetchedRef.current = false;
+    onQueuesChanged();
+  }, [onQueuesChanged]);
+
   const queueTabsData = useMemo(
     () =>
       initialQueues.map((q) => ({
@@ -537,36 +714,143 @@ function MultiQueueDashboard({
     return customers.map((c) => ({ ...c, queueName: queueInfo?.name || "", queueId: primaryQueueId }));
   }, [activeQueueId, initialQueues.length, allViewCustomers, customers, queueInfo, primaryQueueId]);
 
-  // Action handler for customers - routes to correct API endpoint
+  // Undo puts the customer back - reload whichever list shows them
+  const handleUndone = useCallback(
+    (action: UndoableAction) => {
+      if (isAllView) {
+        refetchAllViewQueue(action.queueId);
+      } else {
+        refresh();
+      }
+    },
+    [isAllView, refetchAllViewQueue, refresh],
+  );
+
+  const { undoable, isUndoing, error: undoError, offerUndo, undo, dismiss: dismissUndo } = useUndoAction({
+    onUndone: handleUndone,
+  });
+
+  // Action handler for customers - sent through the outbox so it survives a dropped connection
   const handleAction = useCallback(
-    async (action: "serve" | "no-show" | "remove", customerId: string, queueId: string): Promise<boolean> => {
+    async (action: "serve" | "no-show" | "remove", customer: AllViewCustomer): Promise<boolean> => {
+      const result = await submit({
+        queueId: customer.queueId,
+        type: action,
+        customerId: customer.id,
+        customerName: customer.name,
+      });
+
+      if (result.status === "rejected") return false;
+
+      // A mis-tap shouldn't lose the customer
+      offerUndo({
+        type: action,
+        queueId: customer.queueId,
+        customerId: customer.id,
+        customerName: customer.name,
+        outboxId: result.status === "queued" ? result.id : null,
+      });
+
+      // Queued - the card stays, marked pending, until the action is replayed
+      if (result.status === "queued") return true;
+
+      // If in "All" view, update local state immediately (tab counts follow the list)
+      if (activeQueueId === null) {
+        setAllViewCustomers((prev) => prev.filter((c) => c.id !== customer.id));
+      } else {
+        // Let the hook refresh handle it
+        await refresh();
+      }
+
+      return true;
+    },
+    [activeQueueId, refresh, submit, offerUndo],
+  );
+
+  // Show the walk-in straight away, even if the live update is slow to arrive
+  const handleWalkInAdded = useCallback(
+    (queueId: string) => {
+      if (isAllView) {
+        refetchAllViewQueue(queueId);
+      } else {
+        refresh();
+      }
+    },
+    [isAllView, refetchAllViewQueue, refresh],
+  );
+
+  // Call again, send back and moves go straight to the server - replayed later, they'd only confuse customers
+  const postCustomerAction = useCallback(
+    async (customer: AllViewCustomer, action: keyof typeof CUSTOMER_ACTION_ERRORS, body?: object): Promise<boolean> => {
+      setActionError(null);
       try {
-        const endpoints: Record<string, string> = {
-          serve: `/api/queues/${queueId}/customers/${customerId}/serve`,
-          "no-show": `/api/queues/${queueId}/customers/${customerId}/no-show`,
-          remove: `/api/queues/${queueId}/customers/${customerId}`,
-        };
-
-        const response = await fetch(endpoints[action], {
-          method: action === "remove" ? "DELETE" : "POST",
+        const response = await apiFetch(`/api/queues/${customer.queueId}/customers/${customer.id}/${action}`, {
+          method: "POST",
+          json: body,
         });
 
-        if (!response.ok) return false;
-
-        // If in "All" view, update local state immediately
-        if (activeQueueId === null) {
-          setAllViewCustomers((prev) => prev.filter((c) => c.id !== customerId));
-          setQueueCounts((prev) => ({
-            ...prev,
-            [queueId]: Math.max(0, (prev[queueId] ?? 0) - 1),
-          }));
-        } else {
-          // Let the hook refresh handle it
-          await refresh();
+        if (!response.ok) {
+          setActionError(await getApiErrorMessage(response, CUSTOMER_ACTION_ERRORS[action]));
+          return false;
         }
 
+        if (action !== "recall") {
+          if (isAllView) {
+            refetchAllViewQueue(customer.queueId);
+          } else {
+            await refresh();
+          }
+        }
+        return true;
+      } catch (err) {
+        console.error(`${action} error:`, err);
+        setActionError("Couldn't reach the server. Check your connection.");
+        return false;
+      }
+    },
+    [isAllView, refetchAllViewQueue, refresh],
+  );
+
+  // Open, close, pause or resume the selected queue
+  const setQueueStatus = useCallback(
+    async (action: QueueStatusAction): Promise<boolean> => {
+      if (!activeQueueId) return false;
+      setActionError(null);
+      try {
+        const response = await apiFetch(`/api/queues/${activeQueueId}/${action}`, { method: "POST" });
+        if (!response.ok) {
+          setActionError(await getApiErrorMessage(response, QUEUE_STATUS_ERRORS[action]));
+          return false;
+        }
+        await refresh();
         return true;
-      } catch {
+      } catch (err) {
+        console.error(`${action} queue error:`, err);
+        setActionError("Couldn't reach the server. Check your connection.");
+        return false;
+      }
+    },
+    [activeQueueId, refresh],
+  );
+
+  const scheduleAutoClose = useCallback(
+    async (closesAt: string | null): Promise<boolean> => {
+      if (!activeQueueId) return false;
+      setActionError(null);
+      try {
+        const response = await apiFetch(`/api/queues/${activeQueueId}/auto-close`, {
+          method: "PUT",
+          json: { closesAt },
+        });
+        if (!response.ok) {
+          setActionError(await getApiErrorMessage(response, "Failed to schedule closing time"));
+          return false;
+        }
+        await refresh();
+        return true;
+      } catch (err) {
+        console.error("auto-close error:", err);
+        setActionError("Couldn't reach the server. Check your connection.");
         return false;
       }
     },
@@ -577,16 +861,20 @@ function MultiQueueDashboard({
   const activeQueueInfo = useMemo((): HookQueueInfo | null => {
     if (activeQueueId === null) {
       const totalWaiting = Object.values(queueCounts).reduce((sum, count) => sum + count, 0);
+      const infos = Object.values(allViewQueueInfos);
+      const openInfos = infos.filter((i) => i.isActive);
       return {
         name: businessName,
-        isActive: true,
-        isPaused: false,
+        // Open if any queue is; paused only when every open queue is
+        isActive: infos.length === 0 || openInfos.length > 0,
+        isPaused: openInfos.length > 0 && openInfos.every((i) => i.isPaused),
+        autoCloseAt: null,
         waitingCount: totalWaiting,
         calledCount: allViewCustomers.filter((c) => c.status === "Called").length,
       };
     }
     return queueInfo;
-  }, [activeQueueId, queueInfo, queueCounts, allViewCustomers, businessName]);
+  }, [activeQueueId, queueInfo, queueCounts, allViewCustomers, allViewQueueInfos, businessName]);
 
   const effectiveLoading = activeQueueId === null ? allViewLoading : isLoading;
 
@@ -608,6 +896,20 @@ function MultiQueueDashboard({
   // Separate customers by status
   const calledCustomers = displayCustomers.filter((c) => c.status === "Called");
   const waitingCustomers = displayCustomers.filter((c) => c.status === "Waiting");
+  const waitingCountIn = (queueId: string) => waitingCustomers.filter((c) => c.queueId === queueId).length;
+  // Actions the member isn't allowed on a queue are hidden by leaving their callback out
+  const allows = (permission: Permission, queueId: string) => allowsAnywhere(permission, queueId);
+  const canCall = (customer: AllViewCustomer) => allows("callCustomers", customer.queueId);
+  const canManage = (customer: AllViewCustomer) => allows("manageCustomers", customer.queueId);
+  const otherQueues = (queueId: string) =>
+    initialQueues.filter((q) => q.queueId !== queueId && allows("manageCustomers", q.queueId));
+  const walkInQueues = initialQueues.filter((q) => allows("callCustomers", q.queueId));
+  const transfer = async (customer: AllViewCustomer, targetQueueId: string, placement: TransferPlacement) => {
+    // The customer also shows up in the other queue
+    if ((await postCustomerAction(customer, "transfer", { targetQueueId, placement })) && isAllView) {
+      refetchAllViewQueue(targetQueueId);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-slate-950 text-white">
@@ -632,7 +934,6 @@ function MultiQueueDashboard({
       {showAddQueue && (
         <AddQueueModal
           businessSlug={businessSlug}
-          token={token}
           onClose={() => setShowAddQueue(false)}
           onQueueCreated={(queue) => {
             onQueueCreated(queue);
@@ -641,11 +942,44 @@ function MultiQueueDashboard({
         />
       )}
 
-      <div className="max-w-4xl mx-auto p-4 space-y-6">
+      {/* Manage Queues Modal (owners) */}
+      {showManageQueues && (
+        <ManageQueuesModal
+          businessSlug={businessSlug}
+          onClose={() => setShowManageQueues(false)}
+          onChanged={handleQueuesChanged}
+        />
+      )}
+
+      {/* Add Customer (walk-in) Modal */}
+      {showAddCustomer && walkInQueues.length > 0 && (
+        <AddCustomerModal
+          queues={walkInQueues}
+          defaultQueueId={walkInQueues.some((q) => q.queueId === primaryQueueId) ? primaryQueueId : walkInQueues[0].queueId}
+          onClose={() => setShowAddCustomer(false)}
+          onAdded={handleWalkInAdded}
+        />
+      )}
+
+      <div className="max-w-4xl mx-auto p-4 space-y-6 print:hidden">
         {/* Header with business name and user menu */}
         <header className="flex items-center justify-between">
-          <h1 className="text-xl font-bold text-white">{businessName}</h1>
+          <div>
+            <h1 className="text-xl font-bold text-white">{businessName}</h1>
+            {actingMember && <p className="text-sm text-slate-400">Acting as {actingMember.email}</p>}
+          </div>
           <div className="flex items-center gap-3">
+            {walkInQueues.length > 0 && (
+              <button
+                onClick={() => setShowAddCustomer(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-slate-950 font-semibold bg-teal-400 rounded-none hover:bg-teal-300 transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
+                </svg>
+                Add Customer
+              </button>
+            )}
             {isOwner && (
               <button
                 onClick={() => setShowAddQueue(true)}
@@ -657,6 +991,39 @@ function MultiQueueDashboard({
                 Add Queue
               </button>
             )}
+            {allowsAnywhere("manageTeam") && (
+              <Link
+                href={`/staff/${businessSlug}/team`}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 rounded-none hover:border-slate-600 transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+                Team
+              </Link>
+            )}
+            {!isAllView && allowsAnywhere("viewReports", primaryQueueId) && (
+              <Link
+                href={`/staff/${businessSlug}/history/${primaryQueueId}`}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 rounded-none hover:border-slate-600 transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                History
+              </Link>
+            )}
+            {allowsAnywhere("viewReports") && (
+              <Link
+                href={`/staff/${businessSlug}/analytics${isAllView ? "" : `?queue=${primaryQueueId}`}`}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 rounded-none hover:border-slate-600 transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+                Analytics
+              </Link>
+            )}
             <button
               onClick={() => setShowQR(!showQR)}
               className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 rounded-none hover:border-slate-600 transition-colors"
@@ -666,13 +1033,48 @@ function MultiQueueDashboard({
               </svg>
               QR Code
             </button>
-            <UserMenu />
+            {lockMode.enabled ? (
+              <>
+                {/* Only someone who manages the team can take the device out of lock mode */}
+                {allowsAnywhere("manageTeam") && (
+                  <button
+                    onClick={lockMode.disable}
+                    className="px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 rounded-none hover:border-slate-600 transition-colors"
+                  >
+                    Exit lock mode
+                  </button>
+                )}
+                <button
+                  onClick={lockMode.lock}
+                  className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 rounded-none hover:border-slate-600 transition-colors"
+                >
+                  <LockIcon />
+                  Lock
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={lockMode.enable}
+                title="Share this device: staff unlock it with their own PIN"
+                className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 rounded-none hover:border-slate-600 transition-colors"
+              >
+                <LockIcon />
+                Lock mode
+              </button>
+            )}
+            {/* Staff unlocking a shared device shouldn't be able to sign its account out */}
+            {!lockMode.enabled && <UserMenu />}
           </div>
         </header>
 
-        {/* Queue Tabs - only show if multiple queues */}
-        {initialQueues.length > 1 && (
-          <MemoizedQueueTabs queues={queueTabsData} activeQueueId={activeQueueId} onSelectQueue={onSelectQueue} />
+        {/* Queue Tabs - shown for multiple queues, and for owners so they can reach queue management */}
+        {(initialQueues.length > 1 || isOwner) && (
+          <MemoizedQueueTabs
+            queues={queueTabsData}
+            activeQueueId={activeQueueId}
+            onSelectQueue={onSelectQueue}
+            onManage={isOwner ? openManageQueues : undefined}
+          />
         )}
 
         {/* Inline QR Code Display */}
@@ -692,16 +1094,35 @@ function MultiQueueDashboard({
         {/* Controls */}
         <QueueControls
           queueInfo={activeQueueInfo}
-          onCallNext={activeQueueId !== null ? callNext : undefined}
-          onOpenSettings={activeQueueId !== null ? () => setShowSettings(true) : undefined}
+          onCallNext={activeQueueId !== null && allows("callCustomers", activeQueueId) ? callNext : undefined}
+          onOpenSettings={
+            activeQueueId !== null && allows("editSettings", activeQueueId) ? () => setShowSettings(true) : undefined
+          }
           onOpenQRCode={activeQueueId !== null ? () => setShowQRCode(true) : undefined}
           isConnected={connectionState === "connected"}
           showAllControls={activeQueueId !== null}
+          onOpenDiagnostics={() => setShowDiagnostics((prev) => !prev)}
+          onSetStatus={activeQueueId !== null && allows("editSettings", activeQueueId) ? setQueueStatus : undefined}
+          onScheduleAutoClose={
+            activeQueueId !== null && allows("editSettings", activeQueueId) ? scheduleAutoClose : undefined
+          }
+        />
+
+        {showDiagnostics && (
+          <ConnectionDiagnosticsPanel hubUrl="/hubs/queue" onClose={() => setShowDiagnostics(false)} />
+        )}
+
+        <PendingActionsBanner
+          pendingCount={pendingActions.length}
+          conflicts={conflicts}
+          onDismissConflict={dismissConflict}
         />
 
         {/* Error banner */}
-        {error && (
-          <div className="bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-none">{error}</div>
+        {(error || actionError) && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-none">
+            {error || actionError}
+          </div>
         )}
 
         {/* Called customers section */}
@@ -714,8 +1135,22 @@ function MultiQueueDashboard({
                   key={customer.id}
                   customer={customer}
                   queueName={activeQueueId === null ? customer.queueName : undefined}
-                  onMarkServed={(id) => handleAction("serve", id, customer.queueId)}
-                  onMarkNoShow={(id) => handleAction("no-show", id, customer.queueId)}
+                  onMarkServed={canCall(customer) ? () => handleAction("serve", customer) : undefined}
+                  onMarkNoShow={canCall(customer) ? () => handleAction("no-show", customer) : undefined}
+                  onRecall={canCall(customer) ? () => postCustomerAction(customer, "recall") : undefined}
+                  onRequeue={
+                    canCall(customer)
+                      ? (_, position) => postCustomerAction(customer, "requeue", { position })
+                      : undefined
+                  }
+                  waitingCount={waitingCountIn(customer.queueId)}
+                  transferQueues={otherQueues(customer.queueId)}
+                  onTransfer={
+                    canManage(customer)
+                      ? (_, targetQueueId, placement) => transfer(customer, targetQueueId, placement)
+                      : undefined
+                  }
+                  pendingAction={pendingByCustomer.get(customer.id)}
                 />
               ))}
             </div>
@@ -736,17 +1171,71 @@ function MultiQueueDashboard({
           ) : (
             <div className="space-y-3">
               {waitingCustomers.map((customer) => (
-                <CustomerCard
+                // Drag a card onto another in the same queue to take its place
+                <div
                   key={customer.id}
-                  customer={customer}
-                  queueName={activeQueueId === null ? customer.queueName : undefined}
-                  onRemove={(id) => handleAction("remove", id, customer.queueId)}
-                />
+                  draggable={canManage(customer) && !pendingByCustomer.has(customer.id)}
+                  onDragStart={(e) => {
+                    draggedRef.current = customer;
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData("text/plain", customer.id);
+                  }}
+                  onDragOver={(e) => {
+                    const dragged = draggedRef.current;
+                    if (!dragged || dragged.id === customer.id || dragged.queueId !== customer.queueId) return;
+                    e.preventDefault();
+                    setDropTargetId(customer.id);
+                  }}
+                  onDragLeave={() => setDropTargetId((id) => (id === customer.id ? null : id))}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    const dragged = draggedRef.current;
+                    draggedRef.current = null;
+                    setDropTargetId(null);
+                    if (dragged?.queueId === customer.queueId && dragged.id !== customer.id && customer.position) {
+                      postCustomerAction(dragged, "reorder", { position: customer.position });
+                    }
+                  }}
+                  onDragEnd={() => {
+                    draggedRef.current = null;
+                    setDropTargetId(null);
+                  }}
+                  className={dropTargetId === customer.id ? "outline outline-2 outline-teal-500" : undefined}
+                >
+                  <CustomerCard
+                    customer={customer}
+                    queueName={activeQueueId === null ? customer.queueName : undefined}
+                    onRemove={canManage(customer) ? () => handleAction("remove", customer) : undefined}
+                    onMove={
+                      canManage(customer)
+                        ? (_, position) => postCustomerAction(customer, "reorder", { position })
+                        : undefined
+                    }
+                    waitingCount={waitingCountIn(customer.queueId)}
+                    transferQueues={otherQueues(customer.queueId)}
+                    onTransfer={
+                      canManage(customer)
+                        ? (_, targetQueueId, placement) => transfer(customer, targetQueueId, placement)
+                        : undefined
+                    }
+                    pendingAction={pendingByCustomer.get(customer.id)}
+                  />
+                </div>
               ))}
             </div>
           )}
         </section>
       </div>
+
+      {undoable && (
+        <UndoToast
+          action={undoable}
+          isUndoing={isUndoing}
+          error={undoError}
+          onUndo={undo}
+          onDismiss={dismissUndo}
+        />
+      )}
     </div>
   );
 }
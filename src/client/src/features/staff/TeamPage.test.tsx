@@ -0,0 +1,281 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useRouter } from "next/navigation";
+import { TeamPage } from "./TeamPage";
+import { AuthProvider } from "../auth/AuthContext";
+import type { BusinessRole, Permission } from "../auth/authTypes";
+
+vi.mocked(useRouter).mockReturnValue({
+  push: vi.fn(),
+  replace: vi.fn(),
+  back: vi.fn(),
+  forward: vi.fn(),
+  refresh: vi.fn(),
+  prefetch: vi.fn(),
+});
+
+// Mock fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const mockTeamResponse = {
+  staff: [
+    {
+      userId: "user-1",
+      email: "owner@example.com",
+      role: "Owner",
+      joinedAt: "2024-01-01T10:00:00Z",
+      permissions: ["callCustomers", "manageCustomers", "editSettings", "viewReports", "manageTeam"],
+      queuePermissions: [],
+      hasPin: false,
+    },
+    {
+      userId: "user-2",
+      email: "sam@example.com",
+      role: "Staff",
+      joinedAt: "2024-02-01T10:00:00Z",
+      permissions: ["callCustomers", "manageCustomers", "editSettings"],
+      queuePermissions: [],
+      hasPin: true,
+    },
+  ],
+  invites: [
+    {
+      inviteId: "invite-1",
+      email: "new@example.com",
+      invitedAt: "2024-03-01T10:00:00Z",
+      expiresAt: "2099-03-08T10:00:00Z",
+      isExpired: false,
+    },
+    {
+      inviteId: "invite-2",
+      email: "late@example.com",
+      invitedAt: "2024-01-01T10:00:00Z",
+      expiresAt: "2024-01-08T10:00:00Z",
+      isExpired: true,
+    },
+  ],
+};
+
+function jsonResponse(data: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(data),
+    text: () => Promise.resolve(data === undefined ? "" : JSON.stringify(data)),
+  });
+}
+
+function mockApi(role: BusinessRole = "owner", permissions?: Permission[]) {
+  mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+    if (url.includes("/api/auth/me")) {
+      return jsonResponse({
+        userId: "user-1",
+        email: "owner@example.com",
+        businesses: [{ id: "business-1", name: "Test Business", slug: "test-business", role, permissions }],
+      });
+    }
+    if (url.includes("/api/business/test-business/queues")) {
+      return jsonResponse({
+        queues: [
+          { queueId: "queue-bar", name: "Bar" },
+          { queueId: "queue-dine", name: "Dine-in" },
+        ],
+      });
+    }
+    if (url.endsWith("/api/business/test-business/staff") && !init?.method) {
+      return jsonResponse(mockTeamResponse);
+    }
+    if (init?.method === "DELETE") {
+      return jsonResponse(undefined, 204);
+    }
+    return jsonResponse({});
+  });
+}
+
+function renderTeamPage() {
+  localStorage.setItem("auth_token", "test-token");
+
+  return render(
+    <AuthProvider>
+      <TeamPage businessSlug="test-business" />
+    </AuthProvider>
+  );
+}
+
+function findRequest(method: string, path: string) {
+  return mockFetch.mock.calls.find(
+    ([url, init]) => (url as string).endsWith(path) && (init as RequestInit | undefined)?.method === method,
+  );
+}
+
+describe("TeamPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    mockApi();
+  });
+
+  it("lists members and pending invites", async () => {
+    renderTeamPage();
+
+    expect(await screen.findByText("sam@example.com")).toBeInTheDocument();
+    expect(screen.getByLabelText("Role for sam@example.com")).toHaveValue("staff");
+    expect(screen.getByLabelText("Role for owner@example.com")).toHaveValue("owner");
+    expect(screen.getByText("new@example.com")).toBeInTheDocument();
+    expect(screen.getByText(/expired - resend/i)).toBeInTheDocument();
+    // Owners can't be removed, only demoted
+    expect(screen.queryByRole("button", { name: "Remove owner@example.com" })).not.toBeInTheDocument();
+  });
+
+  it("invites staff by email", async () => {
+    const user = userEvent.setup();
+    renderTeamPage();
+
+    await user.type(await screen.findByLabelText("Email address"), "jo@example.com");
+    await user.click(screen.getByRole("button", { name: "Send Invite" }));
+
+    await waitFor(() => {
+      expect(screen.getByRole("status")).toHaveTextContent("Invite sent to jo@example.com");
+    });
+    const [, init] = findRequest("POST", "/staff/invite")!;
+    expect(JSON.parse((init as RequestInit).body as string)).toEqual({ email: "jo@example.com" });
+  });
+
+  it("changes a member's role", async () => {
+    const user = userEvent.setup();
+    renderTeamPage();
+
+    await user.selectOptions(await screen.findByLabelText("Role for sam@example.com"), "owner");
+
+    await waitFor(() => {
+      expect(findRequest("PUT", "/staff/user-2/role")).toBeDefined();
+    });
+    const [, init] = findRequest("PUT", "/staff/user-2/role")!;
+    expect(JSON.parse((init as RequestInit).body as string)).toEqual({ role: "owner" });
+  });
+
+  it("resends and revokes pending invites", async () => {
+    const user = userEvent.setup();
+    renderTeamPage();
+
+    await user.click(await screen.findByRole("button", { name: "Resend invite to late@example.com" }));
+    await waitFor(() => {
+      expect(findRequest("POST", "/staff/invites/invite-2/resend")).toBeDefined();
+    });
+
+    await user.click(screen.getByRole("button", { name: "Revoke invite to new@example.com" }));
+    await waitFor(() => {
+      expect(findRequest("DELETE", "/staff/invites/invite-1")).toBeDefined();
+    });
+  });
+
+  it("shows the server's reason when a change is refused", async () => {
+    const user = userEvent.setup();
+    mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+      if (init?.method === "PUT") {
+        return jsonResponse({ detail: "A business needs at least one owner." }, 400);
+      }
+      if (url.includes("/api/auth/me")) {
+        return jsonResponse({
+          userId: "user-1",
+          email: "owner@example.com",
+          businesses: [{ id: "business-1", name: "Test Business", slug: "test-business", role: "owner" }],
+        });
+      }
+      return jsonResponse(mockTeamResponse);
+    });
+    renderTeamPage();
+
+    await user.selectOptions(await screen.findByLabelText("Role for owner@example.com"), "staff");
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("A business needs at least one owner.");
+  });
+
+  it("saves business-wide and per-queue permissions", async () => {
+    const user = userEvent.setup();
+    renderTeamPage();
+
+    await user.click(await screen.findByRole("button", { name: "Edit permissions for sam@example.com" }));
+    await user.click(screen.getByLabelText("View reports"));
+    await user.click(await screen.findByLabelText("Different access on Dine-in"));
+    await user.click(screen.getByLabelText("Remove, reorder and transfer customers on Dine-in"));
+    await user.click(screen.getByRole("button", { name: "Save Permissions" }));
+
+    await waitFor(() => {
+      expect(screen.getByRole("status")).toHaveTextContent("Permissions saved for sam@example.com");
+    });
+    const [, init] = findRequest("PUT", "/staff/user-2/permissions")!;
+    expect(JSON.parse((init as RequestInit).body as string)).toEqual({
+      permissions: ["callCustomers", "manageCustomers", "editSettings", "viewReports"],
+      queuePermissions: [{ queueId: "queue-dine", permissions: ["callCustomers", "editSettings"] }],
+    });
+  });
+
+  it("sets and removes the PIN a member unlocks shared devices with", async () => {
+    const user = userEvent.setup();
+    renderTeamPage();
+
+    await user.click(await screen.findByRole("button", { name: "Set PIN for owner@example.com" }));
+    expect(screen.queryByRole("button", { name: "Remove PIN" })).not.toBeInTheDocument();
+    await user.type(screen.getByLabelText("New PIN (4 to 6 digits)"), "48a21");
+    await user.click(screen.getByRole("button", { name: "Save PIN" }));
+
+    await waitFor(() => {
+      expect(screen.getByRole("status")).toHaveTextContent("PIN set for owner@example.com");
+    });
+    const [, init] = findRequest("PUT", "/staff/user-1/pin")!;
+    expect(JSON.parse((init as RequestInit).body as string)).toEqual({ pin: "4821" });
+
+    await user.click(screen.getByRole("button", { name: "Set PIN for sam@example.com" }));
+    await user.click(screen.getByRole("button", { name: "Remove PIN" }));
+
+    await waitFor(() => {
+      expect(screen.getByRole("status")).toHaveTextContent("PIN removed for sam@example.com");
+    });
+    const [, removeInit] = findRequest("PUT", "/staff/user-2/pin")!;
+    expect(JSON.parse((removeInit as RequestInit).body as string)).toEqual({ pin: null });
+  });
+
+  it("lets staff who can manage the team invite people but not change access", async () => {
+    mockApi("staff", ["callCustomers", "manageTeam"]);
+    renderTeamPage();
+
+    expect(await screen.findByText("sam@example.com")).toBeInTheDocument();
+    expect(screen.getByLabelText("Email address")).toBeInTheDocument();
+    expect(screen.queryByLabelText("Role for sam@example.com")).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Edit permissions for sam@example.com" })).not.toBeInTheDocument();
+  });
+
+  it("only lets staff who can manage the team remove other members' PINs", async () => {
+    const user = userEvent.setup();
+    mockApi("staff", ["callCustomers", "manageTeam"]);
+    renderTeamPage();
+
+    await user.click(await screen.findByRole("button", { name: "Set PIN for sam@example.com" }));
+    expect(screen.queryByLabelText("New PIN (4 to 6 digits)")).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Save PIN" })).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Remove PIN" }));
+
+    await waitFor(() => {
+      expect(screen.getByRole("status")).toHaveTextContent("PIN removed for sam@example.com");
+    });
+    const [, init] = findRequest("PUT", "/staff/user-2/pin")!;
+    expect(JSON.parse((init as RequestInit).body as string)).toEqual({ pin: null });
+  });
+
+  it("tells staff without team access that they can't manage the team", async () => {
+    mockApi("staff");
+    renderTeamPage();
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining("/api/auth/me"), expect.anything());
+    });
+    expect(screen.getByText(/don't have permission to manage the team/i)).toBeInTheDocument();
+    expect(mockFetch).not.toHaveBeenCalledWith(
+      expect.stringContaining("/api/business/test-business/staff"),
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,398 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "../auth/hooks/useAuth";
+import { UserMenu } from "../auth/components/UserMenu";
+import type { BusinessRole, Permission, QueuePermissions } from "../auth/authTypes";
+import { getApiErrorMessage, safeJsonParse } from "../../shared/utils/api";
+import { apiFetch, type ApiRequestInit } from "../../shared/utils/apiClient";
+import { MemberPermissionsEditor } from "./components/MemberPermissionsEditor";
+import { MemberPinEditor } from "./components/MemberPinEditor";
+
+interface TeamMember {
+  userId: string;
+  email: string;
+  role: string;
+  joinedAt: string;
+  permissions: Permission[];
+  queuePermissions: QueuePermissions[];
+  /** Whether they can unlock shared devices */
+  hasPin: boolean;
+}
+
+interface QueueOption {
+  queueId: string;
+  name: string;
+}
+
+interface PendingInvite {
+  inviteId: string;
+  email: string;
+  invitedAt: string;
+  expiresAt: string;
+  isExpired: boolean;
+}
+
+interface StaffListResponse {
+  staff: TeamMember[];
+  invites: PendingInvite[];
+}
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-none text-white placeholder-slate-500 focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 transition-all";
+
+const ROW_BUTTON_CLASS =
+  "px-3 py-1.5 text-xs font-medium rounded-none border border-slate-700 text-slate-300 hover:border-slate-600 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+interface TeamPageProps {
+  businessSlug: string;
+}
+
+/**
+ * View for inviting staff, handling pending invites and setting the PINs staff unlock
+ * shared devices with. Owners also change roles and what each staff member is allowed to do.
+ */
+export function TeamPage({ businessSlug }: TeamPageProps) {
+  const { user, businesses, isOwner, can, fetchMe } = useAuth();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [queues, setQueues] = useState<QueueOption[]>([]);
+  const [editingUserId, setEditingUserId] = useState<string | null>(null);
+  const [pinUserId, setPinUserId] = useState<string | null>(null);
+  const [invites, setInvites] = useState<PendingInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // One change at a time - each reloads the list
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+
+  const canManage = can(businessSlug, "manageTeam");
+  const canEditAccess = isOwner(businessSlug);
+  const businessName = businesses.find((b) => b.slug === businessSlug)?.name ?? businessSlug;
+
+  const loadTeam = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/api/business/${businessSlug}/staff`);
+      if (!response.ok) {
+        setError(await getApiErrorMessage(response, "Failed to load team"));
+        return;
+      }
+
+      const data = await safeJsonParse<StaffListResponse>(response);
+      if (data) {
+        setMembers(data.staff);
+        setInvites(data.invites ?? []);
+      }
+    } catch (err) {
+      console.error("load team error:", err);
+      setError("Couldn't reach the server. Check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [businessSlug]);
+
+  useEffect(() => {
+    if (canManage) {
+      loadTeam();
+    }
+  }, [canManage, loadTeam]);
+
+  // Queues for per-queue permissions - only owners assign those
+  useEffect(() => {
+    if (!canEditAccess) return;
+
+    apiFetch(`/api/business/${businessSlug}/queues?includeClosed=true`)
+      .then((response) => (response.ok ? safeJsonParse<{ queues: QueueOption[] }>(response) : null))
+      .then((data) => setQueues(data?.queues ?? []))
+      .catch((err) => console.error("load queues error:", err));
+  }, [businessSlug, canEditAccess]);
+
+  // Runs an owner request; on success reloads the team
+  const send = async (path: string, init: ApiRequestInit, fallback: string): Promise<boolean> => {
+    setIsBusy(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await apiFetch(`/api/business/${businessSlug}/staff${path}`, init);
+
+      if (!response.ok) {
+        setError(await getApiErrorMessage(response, fallback));
+        return false;
+      }
+
+      await loadTeam();
+      return true;
+    } catch (err) {
+      console.error("team change error:", err);
+      setError("Couldn't reach the server. Check your connection.");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteEmail.trim();
+    if (!email) return;
+
+    const sent = await send("/invite", { method: "POST", json: { email } }, "Failed to send invite");
+    if (sent) {
+      setInviteEmail("");
+      setNotice(`Invite sent to ${email}`);
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: BusinessRole) => {
+    const changed = await send(
+      `/${member.userId}/role`,
+      { method: "PUT", json: { role } },
+      "Failed to change role",
+    );
+    // Our own role drives what the rest of the app shows
+    if (changed && member.userId === user?.id) {
+      await fetchMe();
+    }
+  };
+
+  const handleSavePermissions = async (
+    member: TeamMember,
+    permissions: Permission[],
+    queuePermissions: QueuePermissions[],
+  ) => {
+    const saved = await send(
+      `/${member.userId}/permissions`,
+      { method: "PUT", json: { permissions, queuePermissions } },
+      "Failed to save permissions",
+    );
+    if (saved) {
+      setEditingUserId(null);
+      setNotice(`Permissions saved for ${member.email}`);
+    }
+  };
+
+  const handleSavePin = async (member: TeamMember, pin: string | null) => {
+    const saved = await send(`/${member.userId}/pin`, { method: "PUT", json: { pin } }, "Failed to save PIN");
+    if (saved) {
+      setPinUserId(null);
+      setNotice(pin ? `PIN set for ${member.email}` : `PIN removed for ${member.email}`);
+    }
+  };
+
+  const handleRemove = (member: TeamMember) =>
+    send(`/${member.userId}`, { method: "DELETE" }, "Failed to remove member");
+
+  const handleResend = async (invite: PendingInvite) => {
+    const resent = await send(`/invites/${invite.inviteId}/resend`, { method: "POST" }, "Failed to resend invite");
+    if (resent) setNotice(`Invite resent to ${invite.email}`);
+  };
+
+  const handleRevoke = (invite: PendingInvite) =>
+    send(`/invites/${invite.inviteId}`, { method: "DELETE" }, "Failed to revoke invite");
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <div className="max-w-4xl mx-auto p-4 space-y-6">
+        <header className="flex items-center justify-between">
+          <div>
+            <Link href={`/staff/${businessSlug}`} className="text-sm text-slate-400 hover:text-white transition-colors">
+              &larr; Back to queues
+            </Link>
+            <h1 className="text-xl font-bold text-white">{businessName} Team</h1>
+          </div>
+          <UserMenu />
+        </header>
+
+        {!canManage ? (
+          <div className="p-6 bg-slate-900 border border-slate-800 rounded-none text-slate-400">
+            You don&apos;t have permission to manage the team. Ask an owner of {businessName} to invite people or
+            change roles.
+          </div>
+        ) : (
+          <>
+            <section className="p-6 bg-slate-900 border border-slate-800 rounded-none">
+              <h2 className="text-lg font-semibold mb-4">Invite staff</h2>
+              <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3">
+                <label htmlFor="inviteEmail" className="sr-only">
+                  Email address
+                </label>
+                <input
+                  id="inviteEmail"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  className={INPUT_CLASS}
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={isBusy || !inviteEmail.trim()}
+                  className="px-4 py-2 text-sm font-semibold rounded-none bg-teal-400 text-slate-950 hover:bg-teal-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+                >
+                  Send Invite
+                </button>
+              </form>
+              <p className="mt-2 text-xs text-slate-500">
+                They get an email with a sign-in link that adds them as staff. Links last 7 days.
+              </p>
+            </section>
+
+            {error && (
+              <div role="alert" className="p-3 bg-red-500/10 border border-red-500/20 rounded-none text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+            {notice && (
+              <div role="status" className="p-3 bg-teal-500/10 border border-teal-500/20 rounded-none text-teal-300 text-sm">
+                {notice}
+              </div>
+            )}
+
+            {isLoading ? (
+              <p className="text-slate-400 text-sm">Loading team...</p>
+            ) : (
+              <>
+                <section className="p-6 bg-slate-900 border border-slate-800 rounded-none">
+                  <h2 className="text-lg font-semibold mb-4">Members</h2>
+                  <ul className="space-y-3">
+                    {members.map((member) => {
+                      const role = member.role.toLowerCase() as BusinessRole;
+                      const isSelf = member.userId === user?.id;
+                      // Matches the API: owners set staff PINs, others who manage the team can only remove them
+                      const canSetPin = isSelf || (role === "staff" && canEditAccess);
+                      const canChangePin = canSetPin || (role === "staff" && member.hasPin);
+                      return (
+                        <li key={member.userId} className="p-4 bg-slate-950/60 border border-slate-800 rounded-none">
+                          <div className="flex items-center gap-3">
+                            <p className="flex-1 min-w-0 text-white truncate">
+                              {member.email}
+                              {isSelf && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                              {member.hasPin && <span className="ml-2 text-xs text-slate-500">PIN set</span>}
+                            </p>
+                            {canEditAccess ? (
+                              <select
+                                value={role}
+                                onChange={(e) => handleRoleChange(member, e.target.value as BusinessRole)}
+                                disabled={isBusy}
+                                aria-label={`Role for ${member.email}`}
+                                className="px-2 py-1.5 text-xs bg-slate-800 border border-slate-700 rounded-none text-slate-200 focus:outline-none focus:border-teal-500"
+                              >
+                                <option value="owner">Owner</option>
+                                <option value="staff">Staff</option>
+                              </select>
+                            ) : (
+                              <span className="px-2 py-1.5 text-xs text-slate-400">{role === "owner" ? "Owner" : "Staff"}</span>
+                            )}
+                            {role === "staff" && canEditAccess && (
+                              <button
+                                onClick={() => setEditingUserId(editingUserId === member.userId ? null : member.userId)}
+                                disabled={isBusy}
+                                aria-label={`Edit permissions for ${member.email}`}
+                                aria-expanded={editingUserId === member.userId}
+                                className={ROW_BUTTON_CLASS}
+                              >
+                                Permissions
+                              </button>
+                            )}
+                            {canChangePin && (
+                              <button
+                                onClick={() => setPinUserId(pinUserId === member.userId ? null : member.userId)}
+                                disabled={isBusy}
+                                aria-label={`Set PIN for ${member.email}`}
+                                aria-expanded={pinUserId === member.userId}
+                                className={ROW_BUTTON_CLASS}
+                              >
+                                PIN
+                              </button>
+                            )}
+                            {role === "staff" && (
+                              <button
+                                onClick={() => handleRemove(member)}
+                                disabled={isBusy}
+                                aria-label={`Remove ${member.email}`}
+                                className={`${ROW_BUTTON_CLASS} hover:border-red-500/50 hover:text-red-400`}
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </div>
+                          {editingUserId === member.userId && (
+                            <MemberPermissionsEditor
+                              email={member.email}
+                              permissions={member.permissions ?? []}
+                              queuePermissions={member.queuePermissions ?? []}
+                              queues={queues}
+                              isBusy={isBusy}
+                              onSave={(permissions, queuePermissions) =>
+                                handleSavePermissions(member, permissions, queuePermissions)
+                              }
+                              onCancel={() => setEditingUserId(null)}
+                            />
+                          )}
+                          {pinUserId === member.userId && (
+                            <MemberPinEditor
+                              email={member.email}
+                              hasPin={member.hasPin}
+                              canSet={canSetPin}
+                              isBusy={isBusy}
+                              onSave={(pin) => handleSavePin(member, pin)}
+                              onCancel={() => setPinUserId(null)}
+                            />
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+
+                <section className="p-6 bg-slate-900 border border-slate-800 rounded-none">
+                  <h2 className="text-lg font-semibold mb-4">Pending invites</h2>
+                  {invites.length === 0 ? (
+                    <p className="text-sm text-slate-500">No pending invites.</p>
+                  ) : (
+                    <ul className="space-y-3">
+                      {invites.map((invite) => (
+                        <li
+                          key={invite.inviteId}
+                          className="flex items-center gap-3 p-4 bg-slate-950/60 border border-slate-800 rounded-none"
+                        >
+                          <div className="flex-1 min-w-0">
+                            <p className="text-white truncate">{invite.email}</p>
+                            <p className={`text-xs ${invite.isExpired ? "text-amber-300" : "text-slate-500"}`}>
+                              {invite.isExpired
+                                ? "Expired - resend to give them a new link"
+                                : `Expires ${new Date(invite.expiresAt).toLocaleDateString()}`}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => handleResend(invite)}
+                            disabled={isBusy}
+                            aria-label={`Resend invite to ${invite.email}`}
+                            className={ROW_BUTTON_CLASS}
+                          >
+                            Resend
+                          </button>
+                          <button
+                            onClick={() => handleRevoke(invite)}
+                            disabled={isBusy}
+                            aria-label={`Revoke invite to ${invite.email}`}
+                            className={`${ROW_BUTTON_CLASS} hover:border-red-500/50 hover:text-red-400`}
+                          >
+                            Revoke
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import { useState } from "react";
+import dynamic from "next/dynamic";
+import { getApiErrorMessage, safeJsonParse } from "../../../shared/utils/api";
+import { apiFetch } from "../../../shared/utils/apiClient";
+
+// Dynamic import - QRCodeSVG is only loaded once a ticket is shown
+const QRCodeSVG = dynamic(
+  () => import("qrcode.react").then((mod) => mod.QRCodeSVG),
+  {
+    loading: () => <div className="animate-pulse bg-slate-200 rounded w-40 h-40" />,
+    ssr: false,
+  }
+);
+
+interface QueueOption {
+  queueId: string;
+  name: string;
+}
+
+interface WalkInTicket {
+  customerId: string;
+  token: string;
+  ticketNumber: number;
+  position: number;
+  queueName: string;
+}
+
+interface AddCustomerModalProps {
+  queues: QueueOption[];
+  /** Queue to add to by default - the active tab, or the first queue in the All view */
+  defaultQueueId: string;
+  onClose: () => void;
+  onAdded: (queueId: string) => void;
+}
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-none text-white placeholder-slate-500 focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 transition-all";
+
+/**
+ * Staff form for adding a walk-in who can't or won't join from their phone.
+ * Ends on a ticket with a QR code the customer can scan later to follow their place live.
+ */
+export function AddCustomerModal({ queues, defaultQueueId, onClose, onAdded }: AddCustomerModalProps) {
+  const [queueId, setQueueId] = useState(defaultQueueId);
+  const [name, setName] = useState("");
+  const [partySize, setPartySize] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ticket, setTicket] = useState<WalkInTicket | null>(null);
+
+  const handleAdd = async () => {
+    if (!name.trim()) return;
+
+    setIsAdding(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`/api/queues/${queueId}/customers`, {
+        method: "POST",
+        json: {
+          name: name.trim(),
+          partySize: partySize ? Number(partySize) : null,
+          notes: notes.trim() || null,
+        },
+      });
+
+      if (!response.ok) {
+        setError(await getApiErrorMessage(response, "Failed to add customer"));
+        return;
+      }
+
+      const result = await safeJsonParse<WalkInTicket>(response);
+      if (!result) {
+        setError("Invalid response from server");
+        return;
+      }
+
+      setTicket(result);
+      onAdded(queueId);
+    } catch (err) {
+      console.error("add walk-in error:", err);
+      setError("Couldn't reach the server. Check your connection.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleAddAnother = () => {
+    setTicket(null);
+    setName("");
+    setPartySize("");
+    setNotes("");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 print:static print:bg-white print:backdrop-blur-none">
+      <div className="bg-slate-900 border border-slate-800 rounded-none p-6 w-full max-w-md print:bg-white print:border-0">
+        <div className="flex items-center justify-between mb-6 print:hidden">
+          <h2 className="text-xl font-bold text-white">{ticket ? "Walk-in Ticket" : "Add Customer"}</h2>
+          <button onClick={onClose} aria-label="Close" className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {ticket ? (
+          <TicketView ticket={ticket} onAddAnother={handleAddAnother} onDone={onClose} />
+        ) : (
+          <>
+            {queues.length > 1 && (
+              <>
+                <label htmlFor="walkInQueue" className="block text-sm font-medium text-slate-400 mb-2">
+                  Queue
+                </label>
+                <select
+                  id="walkInQueue"
+                  value={queueId}
+                  onChange={(e) => setQueueId(e.target.value)}
+                  className={`${INPUT_CLASS} mb-4`}
+                >
+                  {queues.map((q) => (
+                    <option key={q.queueId} value={q.queueId}>
+                      {q.name}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+
+            <label htmlFor="walkInName" className="block text-sm font-medium text-slate-400 mb-2">
+              Name
+            </label>
+            <input
+              id="walkInName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              placeholder="Customer's name"
+              className={`${INPUT_CLASS} mb-4`}
+              autoFocus
+            />
+
+            <label htmlFor="walkInPartySize" className="block text-sm font-medium text-slate-400 mb-2">
+              Party size <span className="text-slate-600">(optional)</span>
+            </label>
+            <input
+              id="walkInPartySize"
+              type="number"
+              min={1}
+              value={partySize}
+              onChange={(e) => setPartySize(e.target.value)}
+              className={`${INPUT_CLASS} mb-4`}
+            />
+
+            <label htmlFor="walkInNotes" className="block text-sm font-medium text-slate-400 mb-2">
+              Notes <span className="text-slate-600">(optional)</span>
+            </label>
+            <textarea
+              id="walkInNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              rows={2}
+              className={`${INPUT_CLASS} mb-4 resize-none`}
+            />
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-none text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 py-3 text-slate-400 font-medium rounded-none border border-slate-700 hover:border-slate-600 hover:text-white transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAdd}
+                disabled={isAdding || !name.trim()}
+                className="flex-1 py-3 bg-gradient-to-r from-teal-500 via-emerald-500 to-teal-400 text-slate-950 font-semibold rounded-none hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-[0_14px_30px_rgba(16,185,129,0.28)]"
+              >
+                {isAdding ? "Adding..." : "Add to Queue"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TicketView({
+  ticket,
+  onAddAnother,
+  onDone,
+}: {
+  ticket: WalkInTicket;
+  onAddAnother: () => void;
+  onDone: () => void;
+}) {
+  const liveUrl = `${window.location.origin}/q/${ticket.token}`;
+
+  return (
+    <>
+      {/* The printable part - white like a paper ticket */}
+      <div className="bg-white rounded-none p-6 text-center text-slate-900">
+        <p className="text-xs font-medium uppercase tracking-wider text-slate-500">{ticket.queueName}</p>
+        <p className="mt-1 text-5xl font-bold">#{ticket.ticketNumber}</p>
+        <p className="mt-2 text-sm text-slate-600">Position {ticket.position} in line</p>
+        <div className="mt-4 flex justify-center">
+          <QRCodeSVG value={liveUrl} size={160} level="M" includeMargin={false} />
+        </div>
+        <p className="mt-3 text-xs text-slate-500">Scan to follow your place in line</p>
+        <p className="mt-1 text-xs font-mono text-slate-400 break-all">{liveUrl}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mt-6 print:hidden">
+        <button
+          onClick={() => window.print()}
+          className="py-3 bg-white text-slate-900 rounded-none font-semibold hover:bg-slate-100 transition-colors"
+        >
+          Print
+        </button>
+        <button
+          onClick={onAddAnother}
+          className="py-3 bg-slate-800 text-white rounded-none font-medium hover:bg-slate-700 transition-colors"
+        >
+          Add Another
+        </button>
+        <button
+          onClick={onDone}
+          className="py-3 text-slate-400 font-medium rounded-none border border-slate-700 hover:border-slate-600 hover:text-white transition-all"
+        >
+          Done
+        </button>
+      </div>
+    </>
+  );
+}
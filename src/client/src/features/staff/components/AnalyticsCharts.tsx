@@ -0,0 +1,94 @@
+export interface HourTotals {
+  hour: number;
+  joined: number;
+  served: number;
+}
+
+/** Rows follow JavaScript's getDay(): Sunday first */
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function formatHour(hour: number) {
+  if (hour === 0) return "12am";
+  if (hour === 12) return "12pm";
+  return hour < 12 ? `${hour}am` : `${hour - 12}pm`;
+}
+
+/** Joins and serves for each hour of the day, side by side */
+export function HourlyChart({ hours }: { hours: HourTotals[] }) {
+  const max = Math.max(1, ...hours.map((h) => Math.max(h.joined, h.served)));
+
+  return (
+    <figure>
+      <div className="flex items-end gap-1 h-40" role="list" aria-label="Customers by hour">
+        {hours.map((h) => (
+          <div
+            key={h.hour}
+            role="listitem"
+            aria-label={`${formatHour(h.hour)}: ${h.joined} joined, ${h.served} served`}
+            title={`${formatHour(h.hour)}: ${h.joined} joined, ${h.served} served`}
+            className="flex-1 flex items-end gap-px h-full"
+          >
+            <div className="flex-1 bg-slate-600" style={{ height: `${(h.joined / max) * 100}%` }} />
+            <div className="flex-1 bg-teal-400" style={{ height: `${(h.served / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-slate-500">
+        <span>12am</span>
+        <span>6am</span>
+        <span>12pm</span>
+        <span>6pm</span>
+        <span>11pm</span>
+      </div>
+      <figcaption className="flex gap-4 mt-3 text-xs text-slate-400">
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 bg-slate-600" /> Joined
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 bg-teal-400" /> Served
+        </span>
+      </figcaption>
+    </figure>
+  );
+}
+
+/** When customers arrive: a cell per day of the week and hour, darker for busier */
+export function PeakHeatmap({ heatmap }: { heatmap: number[][] }) {
+  const max = Math.max(1, ...heatmap.flat());
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-0.5 text-xs" aria-label="Arrivals by day and hour">
+        <thead>
+          <tr>
+            <th />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <th key={hour} scope="col" className="w-5 font-normal text-slate-500">
+                {hour % 6 === 0 ? formatHour(hour) : <span className="sr-only">{formatHour(hour)}</span>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {heatmap.map((hours, day) => (
+            <tr key={DAY_LABELS[day]}>
+              <th scope="row" className="pr-2 font-normal text-left text-slate-400">
+                {DAY_LABELS[day]}
+              </th>
+              {hours.map((count, hour) => (
+                <td
+                  key={hour}
+                  title={`${DAY_LABELS[day]} ${formatHour(hour)}: ${count} joined`}
+                  className="w-5 h-5 bg-teal-400"
+                  style={{ opacity: count === 0 ? 0.05 : 0.2 + (count / max) * 0.8 }}
+                >
+                  <span className="sr-only">{count}</span>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
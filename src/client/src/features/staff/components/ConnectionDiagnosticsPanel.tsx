@@ -0,0 +1,73 @@
+import { useConnectionDiagnostics } from "../../../shared/hooks/useConnectionDiagnostics";
+import type { HubTransport } from "../../../shared/signalr/hubConnectionManager";
+
+const TRANSPORT_LABELS: Record<HubTransport, string> = {
+  WebSockets: "WebSockets",
+  ServerSentEvents: "Server-Sent Events",
+  LongPolling: "Long polling",
+};
+
+const STATE_LABELS = {
+  connecting: "Connecting",
+  connected: "Connected",
+  reconnecting: "Reconnecting",
+  disconnected: "Disconnected",
+} as const;
+
+interface ConnectionDiagnosticsPanelProps {
+  hubUrl: string;
+  onClose: () => void;
+}
+
+export function ConnectionDiagnosticsPanel({ hubUrl, onClose }: ConnectionDiagnosticsPanelProps) {
+  const { state, diagnostics, measureLatency } = useConnectionDiagnostics({ hubUrl });
+  const { transport, skippedTransports, latencyMs, reconnectCount, lastEventAt } = diagnostics;
+
+  const rows = [
+    { label: "Status", value: STATE_LABELS[state] },
+    { label: "Transport", value: transport ? TRANSPORT_LABELS[transport] : "—" },
+    { label: "Latency", value: latencyMs !== null ? `${latencyMs} ms` : "—" },
+    { label: "Reconnects", value: String(reconnectCount) },
+    { label: "Last event", value: lastEventAt ? lastEventAt.toLocaleTimeString() : "None yet" },
+  ];
+
+  return (
+    <section
+      aria-label="Connection diagnostics"
+      className="bg-slate-900 border border-slate-800 rounded-none p-4 text-sm"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-medium text-slate-500 uppercase tracking-wider">Connection</h2>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={measureLatency}
+            disabled={state !== "connected"}
+            className="text-xs text-teal-400 hover:text-teal-300 disabled:text-slate-600 disabled:cursor-not-allowed"
+          >
+            Ping
+          </button>
+          <button onClick={onClose} className="text-xs text-slate-500 hover:text-white" aria-label="Close diagnostics">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {rows.map((row) => (
+          <div key={row.label}>
+            <dt className="text-[11px] uppercase tracking-[0.08em] text-slate-500">{row.label}</dt>
+            <dd className="text-white tabular-nums">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {skippedTransports.length > 0 && (
+        <p className="mt-3 text-xs text-amber-300/90">
+          {skippedTransports.map((t) => TRANSPORT_LABELS[t]).join(", ")} could not connect - the network is
+          probably blocking {skippedTransports.length === 1 ? "it" : "them"}. Updates still arrive over{" "}
+          {transport ? TRANSPORT_LABELS[transport] : "the next available transport"}, with slightly higher delay.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -1,5 +1,15 @@
-import { memo } from "react";
+import { memo, useState } from "react";
 import type { Customer } from "../hooks/useStaffQueue";
+import type { StaffActionType } from "../staffOutbox";
+
+export type TransferPlacement = "Back" | "ByJoinTime";
+
+const PENDING_LABELS: Record<StaffActionType, string> = {
+  "call-next": "Calling",
+  serve: "Marking served",
+  "no-show": "Marking no-show",
+  remove: "Removing",
+};
 
 interface CustomerCardProps {
   customer: Customer;
@@ -7,6 +17,20 @@ interface CustomerCardProps {
   onMarkServed?: (id: string) => void;
   onMarkNoShow?: (id: string) => void;
   onRemove?: (id: string) => void;
+  /** Re-send the "you're called" notification */
+  onRecall?: (id: string) => void;
+  /** Return a called customer to the waiting line at a 1-based position */
+  onRequeue?: (id: string, position: number) => void;
+  /** Move a waiting customer to a 1-based position */
+  onMove?: (id: string, position: number) => void;
+  /** Other queues of the business the customer can be transferred to */
+  transferQueues?: { queueId: string; name: string }[];
+  /** Move the customer to another queue, at the back or by when they joined */
+  onTransfer?: (id: string, targetQueueId: string, placement: TransferPlacement) => void;
+  /** Length of the waiting line, bounding the positions offered when sending back or moving */
+  waitingCount?: number;
+  /** Action taken on this customer that hasn't reached the server yet */
+  pendingAction?: StaffActionType;
 }
 
 function formatTime(dateString: string): string {
@@ -14,19 +38,98 @@ function formatTime(dateString: string): string {
   return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 }
 
+const MOVE_BUTTON_CLASS =
+  "w-9 h-9 flex items-center justify-center bg-slate-800 text-slate-400 rounded-none hover:bg-slate-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+function MoveButtons({
+  position,
+  waitingCount,
+  disabled,
+  onMove,
+}: {
+  position: number;
+  waitingCount: number;
+  disabled: boolean;
+  onMove: (position: number) => void;
+}) {
+  const isFirst = position <= 1;
+  const isLast = position >= waitingCount;
+
+  return (
+    <div className="flex gap-1">
+      <button
+        onClick={() => onMove(1)}
+        disabled={disabled || isFirst}
+        aria-label="Move to front"
+        className={MOVE_BUTTON_CLASS}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 11l7-7 7 7M5 19l7-7 7 7" />
+        </svg>
+      </button>
+      <button
+        onClick={() => onMove(position - 1)}
+        disabled={disabled || isFirst}
+        aria-label="Move up"
+        className={MOVE_BUTTON_CLASS}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+        </svg>
+      </button>
+      <button
+        onClick={() => onMove(position + 1)}
+        disabled={disabled || isLast}
+        aria-label="Move down"
+        className={MOVE_BUTTON_CLASS}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+    </div>
+  );
+}
+
 export const CustomerCard = memo(function CustomerCard({
   customer,
   queueName,
   onMarkServed,
   onMarkNoShow,
   onRemove,
+  onRecall,
+  onRequeue,
+  onMove,
+  transferQueues = [],
+  onTransfer,
+  waitingCount = 0,
+  pendingAction,
 }: CustomerCardProps) {
+  const [isChoosingPosition, setIsChoosingPosition] = useState(false);
+  const [requeuePosition, setRequeuePosition] = useState(1);
+  const [isChoosingQueue, setIsChoosingQueue] = useState(false);
+  const [transferQueueId, setTransferQueueId] = useState("");
   const isCalled = customer.status === "Called";
   const isWaiting = customer.status === "Waiting";
+  const onTheWayAt = isCalled ? customer.onTheWayAt : null;
+  const isPending = pendingAction !== undefined;
+
+  const canTransfer = (isWaiting || isCalled) && onTransfer !== undefined && transferQueues.length > 0;
+  const selectedTransferQueueId = transferQueueId || transferQueues[0]?.queueId;
+
+  const sendBack = (position: number) => {
+    setIsChoosingPosition(false);
+    onRequeue?.(customer.id, position);
+  };
+
+  const transfer = (placement: TransferPlacement) => {
+    setIsChoosingQueue(false);
+    onTransfer?.(customer.id, selectedTransferQueueId, placement);
+  };
 
   return (
     <div
-      className={`border rounded-none p-4 transition-all ${
+      className={`border rounded-none p-4 transition-all ${isPending ? "opacity-60" : ""} ${
         isCalled
           ? "bg-amber-500/10 border-amber-500/20 shadow-[0_12px_32px_rgba(245,158,11,0.15)]"
           : "bg-slate-900 border-slate-800 hover:border-slate-700"
@@ -55,8 +158,24 @@ export const CustomerCard = memo(function CustomerCard({
             </p>
 
             {/* Tags */}
-            {(queueName || customer.partySize || customer.notes) && (
+            {(queueName ||
+              customer.partySize ||
+              customer.notes ||
+              customer.phoneNumber ||
+              customer.joinAnswers.length > 0 ||
+              isPending ||
+              onTheWayAt) && (
               <div className="mt-2 flex flex-wrap gap-2">
+                {pendingAction && (
+                  <span className="inline-flex items-center px-2 py-0.5 bg-amber-500/20 rounded-none text-xs text-amber-300 font-medium">
+                    {PENDING_LABELS[pendingAction]} · Pending sync
+                  </span>
+                )}
+                {onTheWayAt && (
+                  <span className="inline-flex items-center px-2 py-0.5 bg-emerald-500/20 rounded-none text-xs text-emerald-300 font-medium">
+                    On the way · {formatTime(onTheWayAt)}
+                  </span>
+                )}
                 {queueName && (
                   <span className="inline-flex items-center px-2 py-0.5 bg-teal-500/20 rounded-none text-xs text-teal-400 font-medium">
                     {queueName}
@@ -67,6 +186,22 @@ export const CustomerCard = memo(function CustomerCard({
                     Party of {customer.partySize}
                   </span>
                 )}
+                {customer.joinAnswers.map((answer) => (
+                  <span
+                    key={answer.label}
+                    className="inline-flex items-center px-2 py-0.5 bg-slate-800 rounded-none text-xs text-slate-400"
+                  >
+                    {answer.label}: {answer.value}
+                  </span>
+                ))}
+                {customer.phoneNumber && (
+                  <a
+                    href={`tel:${customer.phoneNumber}`}
+                    className="inline-flex items-center px-2 py-0.5 bg-slate-800 rounded-none text-xs text-slate-400 hover:text-white"
+                  >
+                    {customer.phoneNumber}
+                  </a>
+                )}
                 {customer.notes && (
                   <span className="inline-flex items-center px-2 py-0.5 bg-slate-800 rounded-none text-xs text-slate-400 italic max-w-[200px] truncate">
                     {customer.notes}
@@ -82,29 +217,131 @@ export const CustomerCard = memo(function CustomerCard({
           {isCalled && onMarkServed && (
             <button
               onClick={() => onMarkServed(customer.id)}
-              className="px-4 py-2 bg-emerald-500 text-white text-sm font-medium rounded-none hover:bg-emerald-400 transition-colors"
+              disabled={isPending}
+              className="px-4 py-2 bg-emerald-500 text-white text-sm font-medium rounded-none hover:bg-emerald-400 disabled:cursor-not-allowed transition-colors"
             >
               Done
             </button>
           )}
+          {isCalled && onRecall && (
+            <button
+              onClick={() => onRecall(customer.id)}
+              disabled={isPending}
+              className="px-4 py-2 bg-amber-500/20 text-amber-300 text-sm font-medium rounded-none hover:bg-amber-500/30 disabled:cursor-not-allowed transition-colors"
+            >
+              Call again
+            </button>
+          )}
+          {isCalled && onRequeue && (
+            <button
+              onClick={() => setIsChoosingPosition((prev) => !prev)}
+              disabled={isPending}
+              aria-expanded={isChoosingPosition}
+              className="px-4 py-2 bg-slate-700 text-slate-300 text-sm font-medium rounded-none hover:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+            >
+              Send back
+            </button>
+          )}
           {isCalled && onMarkNoShow && (
             <button
               onClick={() => onMarkNoShow(customer.id)}
-              className="px-4 py-2 bg-slate-700 text-slate-300 text-sm font-medium rounded-none hover:bg-slate-600 transition-colors"
+              disabled={isPending}
+              className="px-4 py-2 bg-slate-700 text-slate-300 text-sm font-medium rounded-none hover:bg-slate-600 disabled:cursor-not-allowed transition-colors"
             >
               No-show
             </button>
           )}
+          {isWaiting && onMove && customer.position && (
+            <MoveButtons
+              position={customer.position}
+              waitingCount={waitingCount}
+              disabled={isPending}
+              onMove={(position) => onMove(customer.id, position)}
+            />
+          )}
+          {canTransfer && (
+            <button
+              onClick={() => setIsChoosingQueue((prev) => !prev)}
+              disabled={isPending}
+              aria-expanded={isChoosingQueue}
+              className="px-4 py-2 bg-slate-800 text-slate-300 text-sm font-medium rounded-none hover:bg-slate-700 disabled:cursor-not-allowed transition-colors"
+            >
+              Move to queue…
+            </button>
+          )}
           {isWaiting && onRemove && (
             <button
               onClick={() => onRemove(customer.id)}
-              className="px-4 py-2 bg-red-500/10 text-red-400 text-sm font-medium rounded-none hover:bg-red-500/20 transition-colors"
+              disabled={isPending}
+              className="px-4 py-2 bg-red-500/10 text-red-400 text-sm font-medium rounded-none hover:bg-red-500/20 disabled:cursor-not-allowed transition-colors"
             >
               Remove
             </button>
           )}
         </div>
       </div>
+
+      {/* Position picker for sending a called customer back to the line */}
+      {isCalled && onRequeue && isChoosingPosition && (
+        <div className="mt-4 pt-4 border-t border-amber-500/20 flex flex-wrap items-center gap-3">
+          <span className="text-sm text-slate-400">Return to line:</span>
+          <button
+            onClick={() => sendBack(1)}
+            className="px-3 py-1.5 bg-teal-500 text-white text-sm font-medium rounded-none hover:bg-teal-400 transition-colors"
+          >
+            Front
+          </button>
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            or position
+            <input
+              type="number"
+              min={1}
+              max={waitingCount + 1}
+              value={requeuePosition}
+              onChange={(e) => setRequeuePosition(Number(e.target.value))}
+              className="w-16 px-2 py-1 bg-slate-900 border border-slate-700 rounded-none text-white focus:outline-none focus:border-teal-500"
+            />
+          </label>
+          <button
+            onClick={() => sendBack(Math.min(Math.max(1, Math.floor(requeuePosition) || 1), waitingCount + 1))}
+            className="px-3 py-1.5 bg-slate-700 text-slate-200 text-sm font-medium rounded-none hover:bg-slate-600 transition-colors"
+          >
+            Confirm
+          </button>
+        </div>
+      )}
+
+      {/* Queue picker for transferring the customer */}
+      {canTransfer && isChoosingQueue && (
+        <div className="mt-4 pt-4 border-t border-slate-800 flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            Move to
+            <select
+              value={selectedTransferQueueId}
+              onChange={(e) => setTransferQueueId(e.target.value)}
+              className="px-2 py-1 bg-slate-900 border border-slate-700 rounded-none text-white focus:outline-none focus:border-teal-500"
+            >
+              {transferQueues.map((q) => (
+                <option key={q.queueId} value={q.queueId}>
+                  {q.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => transfer("Back")}
+            className="px-3 py-1.5 bg-teal-500 text-white text-sm font-medium rounded-none hover:bg-teal-400 transition-colors"
+          >
+            At the back
+          </button>
+          <button
+            onClick={() => transfer("ByJoinTime")}
+            className="px-3 py-1.5 bg-slate-700 text-slate-200 text-sm font-medium rounded-none hover:bg-slate-600 transition-colors"
+          >
+            By join time
+          </button>
+        </div>
+      )}
     </div>
   );
 });
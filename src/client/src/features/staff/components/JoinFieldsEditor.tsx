@@ -0,0 +1,141 @@
+import type { JoinField, JoinFieldType } from "../hooks/useQueueSettings";
+
+/** Matches the limit the API enforces */
+const MAX_FIELDS = 10;
+
+const TYPE_LABELS: Record<JoinFieldType, string> = {
+  PartySize: "Party size",
+  Phone: "Phone number",
+  Notes: "Notes",
+  Text: "Short answer",
+  Number: "Number",
+  Choice: "Dropdown",
+  Checkbox: "Checkbox",
+};
+
+const INPUT_CLASS =
+  "px-3 py-2 bg-slate-800 border border-slate-700 rounded-none text-sm text-white placeholder-slate-600 focus:outline-none focus:border-slate-500";
+
+const ROW_BUTTON_CLASS =
+  "px-3 py-2 text-xs font-medium rounded-none border border-slate-700 text-slate-300 hover:border-slate-600 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+function parseLimit(value: string): number | null {
+  return value ? parseInt(value, 10) : null;
+}
+
+interface JoinFieldsEditorProps {
+  fields: JoinField[];
+  onChange: (fields: JoinField[]) => void;
+}
+
+/**
+ * The extra questions on a queue's join form, e.g. party size for a restaurant or service type for a barber.
+ * Saved with the rest of the settings.
+ */
+export function JoinFieldsEditor({ fields, onChange }: JoinFieldsEditorProps) {
+  const updateField = (index: number, changes: Partial<JoinField>) =>
+    onChange(fields.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+
+  const addField = () =>
+    onChange([
+      ...fields,
+      { key: crypto.randomUUID(), label: "", type: "Text", required: false, options: [], min: null, max: null },
+    ]);
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="text-sm font-medium text-slate-400 mb-2">Join questions</legend>
+      <p className="text-xs text-slate-600">Asked when customers join, after their name</p>
+
+      {fields.map((field, index) => {
+        const hasRange = field.type === "Number" || field.type === "PartySize";
+        return (
+          <div
+            key={field.key}
+            role="group"
+            aria-label={`Question ${index + 1}`}
+            className="p-3 bg-slate-800/50 border border-slate-800 space-y-2"
+          >
+            <div className="flex gap-2">
+              <input
+                aria-label="Question"
+                value={field.label}
+                onChange={(e) => updateField(index, { label: e.target.value })}
+                placeholder="e.g. Service type"
+                maxLength={60}
+                required
+                className={`${INPUT_CLASS} flex-1 min-w-0`}
+              />
+              <select
+                aria-label="Answer type"
+                value={field.type}
+                onChange={(e) => updateField(index, { type: e.target.value as JoinFieldType })}
+                className={INPUT_CLASS}
+              >
+                {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {field.type === "Choice" && (
+              <textarea
+                aria-label="Options"
+                value={field.options.join("\n")}
+                onChange={(e) => updateField(index, { options: e.target.value.split("\n") })}
+                placeholder={"One option per line, e.g.\nHaircut\nBeard trim"}
+                rows={3}
+                className={`${INPUT_CLASS} w-full resize-none`}
+              />
+            )}
+
+            {hasRange && (
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  aria-label="Minimum"
+                  value={field.min ?? ""}
+                  onChange={(e) => updateField(index, { min: parseLimit(e.target.value) })}
+                  placeholder="Min"
+                  className={`${INPUT_CLASS} flex-1 min-w-0`}
+                />
+                <input
+                  type="number"
+                  aria-label="Maximum"
+                  value={field.max ?? ""}
+                  onChange={(e) => updateField(index, { max: parseLimit(e.target.value) })}
+                  placeholder="Max"
+                  className={`${INPUT_CLASS} flex-1 min-w-0`}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={field.required}
+                  onChange={(e) => updateField(index, { required: e.target.checked })}
+                />
+                Required
+              </label>
+              <button
+                type="button"
+                onClick={() => onChange(fields.filter((_, i) => i !== index))}
+                className={ROW_BUTTON_CLASS}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <button type="button" onClick={addField} disabled={fields.length >= MAX_FIELDS} className={ROW_BUTTON_CLASS}>
+        Add question
+      </button>
+    </fieldset>
+  );
+}
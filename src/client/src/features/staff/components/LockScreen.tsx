@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { apiRequest } from "../../../shared/utils/apiClient";
+
+interface LockScreenMember {
+  userId: string;
+  email: string;
+}
+
+interface LockScreenProps {
+  businessSlug: string;
+  businessName: string;
+  /** Returns why the PIN was refused, or null once unlocked */
+  onUnlock: (userId: string, pin: string) => Promise<string | null>;
+  /** Offered only while nobody could unlock the device */
+  onExit: () => void;
+}
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-none text-white text-center text-2xl tracking-[0.5em] placeholder-slate-600 focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 transition-all";
+
+/**
+ * Covers the staff pages of a shared device until a member unlocks it.
+ * The page keeps running underneath, so it is up to date the moment someone unlocks.
+ */
+export function LockScreen({ businessSlug, businessName, onUnlock, onExit }: LockScreenProps) {
+  const [members, setMembers] = useState<LockScreenMember[] | null>(null);
+  const [selected, setSelected] = useState<LockScreenMember | null>(null);
+  const [pin, setPin] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ members: LockScreenMember[] }>(`/api/business/${businessSlug}/lock-screen`, {}, "Failed to load staff")
+      .then((result) => {
+        if (cancelled) return;
+        if (result.ok) setMembers(result.data?.members ?? []);
+        else setError(result.error);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Couldn't reach the server. Check your connection.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [businessSlug]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !pin) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    const refused = await onUnlock(selected.userId, pin);
+    setIsUnlocking(false);
+
+    if (refused) {
+      setError(refused);
+      setPin("");
+    }
+  };
+
+  const chooseAnother = () => {
+    setSelected(null);
+    setPin("");
+    setError(null);
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Locked"
+      className="fixed inset-0 bg-slate-950 flex items-center justify-center z-50 p-4"
+    >
+      <div className="bg-slate-900 border border-slate-800 rounded-none p-6 w-full max-w-sm">
+        <h2 className="text-xl font-bold text-white">{businessName}</h2>
+        <p className="text-sm text-slate-400 mt-1 mb-6">
+          {selected ? `Enter the PIN for ${selected.email}` : "Who's using this device?"}
+        </p>
+
+        {selected ? (
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <label htmlFor="unlockPin" className="sr-only">
+              PIN
+            </label>
+            <input
+              id="unlockPin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              maxLength={6}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              placeholder="••••"
+              className={INPUT_CLASS}
+            />
+            <button
+              type="submit"
+              disabled={isUnlocking || pin.length < 4}
+              className="w-full px-4 py-3 bg-teal-400 text-slate-950 font-semibold rounded-none hover:bg-teal-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isUnlocking ? "Unlocking..." : "Unlock"}
+            </button>
+            <button
+              type="button"
+              onClick={chooseAnother}
+              className="w-full px-4 py-2 text-sm text-slate-400 hover:text-white transition-colors"
+            >
+              Not {selected.email}?
+            </button>
+          </form>
+        ) : members === null ? (
+          !error && <p className="text-slate-500">Loading...</p>
+        ) : members.length === 0 ? (
+          <>
+            <p className="text-slate-400 mb-4">Nobody has a PIN yet. Set PINs for your team on the Team page.</p>
+            <button
+              onClick={onExit}
+              className="w-full px-4 py-3 text-white bg-slate-800 border border-slate-700 rounded-none hover:border-slate-600 transition-colors"
+            >
+              Exit lock mode
+            </button>
+          </>
+        ) : (
+          <ul className="space-y-2">
+            {members.map((member) => (
+              <li key={member.userId}>
+                <button
+                  onClick={() => setSelected(member)}
+                  className="w-full px-4 py-3 text-left text-white bg-slate-800 border border-slate-700 rounded-none hover:border-teal-600 transition-colors"
+                >
+                  {member.email}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && (
+          <p role="alert" className="mt-4 text-sm text-red-400">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getApiErrorMessage, safeJsonParse } from "../../../shared/utils/api";
+import { apiFetch, type ApiRequestInit } from "../../../shared/utils/apiClient";
+
+interface ManagedQueue {
+  queueId: string;
+  name: string;
+  slug: string;
+  waitingCount: number;
+  isActive: boolean;
+  isArchived: boolean;
+}
+
+interface ManageQueuesModalProps {
+  businessSlug: string;
+  onClose: () => void;
+  /** Called after any change so the dashboard can reload its tabs */
+  onChanged: () => void;
+}
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-none text-white placeholder-slate-500 focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 transition-all";
+
+const ROW_BUTTON_CLASS =
+  "px-3 py-1.5 text-xs font-medium rounded-none border border-slate-700 text-slate-300 hover:border-slate-600 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+/**
+ * Owner view for renaming, reordering, archiving and deleting queues.
+ * Archived queues stay listed here so they can be restored.
+ */
+export function ManageQueuesModal({ businessSlug, onClose, onChanged }: ManageQueuesModalProps) {
+  const [queues, setQueues] = useState<ManagedQueue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // One change at a time - each reloads the list
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingQueueId, setEditingQueueId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editSlug, setEditSlug] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const loadQueues = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/api/business/${businessSlug}/queues?includeClosed=true&includeArchived=true`);
+      if (!response.ok) {
+        setError(await getApiErrorMessage(response, "Failed to load queues"));
+        return;
+      }
+
+      const data = await safeJsonParse<{ queues: ManagedQueue[] }>(response);
+      if (data?.queues) {
+        setQueues(data.queues);
+      }
+    } catch (err) {
+      console.error("load queues error:", err);
+      setError("Couldn't reach the server. Check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [businessSlug]);
+
+  useEffect(() => {
+    loadQueues();
+  }, [loadQueues]);
+
+  // Runs an owner request; on success reloads the list and tells the dashboard
+  const send = async (path: string, init: ApiRequestInit, fallback: string): Promise<boolean> => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`/api/business/${businessSlug}${path}`, init);
+
+      if (!response.ok) {
+        setError(await getApiErrorMessage(response, fallback));
+        return false;
+      }
+
+      await loadQueues();
+      onChanged();
+      return true;
+    } catch (err) {
+      console.error("manage queue error:", err);
+      setError("Couldn't reach the server. Check your connection.");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const startEditing = (queue: ManagedQueue) => {
+    setEditingQueueId(queue.queueId);
+    setEditName(queue.name);
+    setEditSlug(queue.slug);
+    setConfirmDeleteId(null);
+  };
+
+  const handleSave = async (queue: ManagedQueue) => {
+    if (!editName.trim() || !editSlug.trim()) return;
+
+    const saved = await send(
+      `/queues/${queue.slug}`,
+      { method: "PUT", json: { name: editName.trim(), slug: editSlug.trim() } },
+      "Failed to save queue",
+    );
+    if (saved) setEditingQueueId(null);
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= queues.length) return;
+
+    const reordered = [...queues];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const previous = queues;
+    setQueues(reordered);
+
+    const saved = await send(
+      "/queue-order",
+      { method: "PUT", json: { queueIds: reordered.map((q) => q.queueId) } },
+      "Failed to reorder queues",
+    );
+    if (!saved) setQueues(previous);
+  };
+
+  const handleArchive = (queue: ManagedQueue) =>
+    send(
+      `/queues/${queue.slug}/${queue.isArchived ? "restore" : "archive"}`,
+      { method: "POST" },
+      queue.isArchived ? "Failed to restore queue" : "Failed to archive queue",
+    );
+
+  const handleDelete = async (queue: ManagedQueue) => {
+    await send(`/queues/${queue.slug}`, { method: "DELETE" }, "Failed to delete queue");
+    setConfirmDeleteId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-labelledby="manageQueuesTitle"
+        className="bg-slate-900 border border-slate-800 rounded-none p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="manageQueuesTitle" className="text-xl font-bold text-white">
+            Manage Queues
+          </h2>
+          <button onClick={onClose} aria-label="Close" className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div role="alert" className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-none text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-slate-400 text-sm">Loading queues...</p>
+        ) : (
+          <ul className="space-y-3">
+            {queues.map((queue, index) => (
+              <li key={queue.queueId} className="p-4 bg-slate-950/60 border border-slate-800 rounded-none">
+                <div className="flex items-center gap-3">
+                  <div className="flex flex-col gap-1">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={isBusy || index === 0}
+                      aria-label={`Move ${queue.name} up`}
+                      className="text-slate-500 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={isBusy || index === queues.length - 1}
+                      aria-label={`Move ${queue.name} down`}
+                      className="text-slate-500 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </button>
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-white truncate">
+                      {queue.name}
+                      {queue.isArchived ? (
+                        <span className="ml-2 px-2 py-0.5 text-xs border border-slate-700 text-slate-400">Archived</span>
+                      ) : (
+                        !queue.isActive && (
+                          <span className="ml-2 px-2 py-0.5 text-xs border border-slate-700 text-slate-400">Closed</span>
+                        )
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500 font-mono truncate">
+                      /join/{businessSlug}/{queue.slug}
+                    </p>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button onClick={() => startEditing(queue)} disabled={isBusy} className={ROW_BUTTON_CLASS}>
+                      Edit
+                    </button>
+                    <button onClick={() => handleArchive(queue)} disabled={isBusy} className={ROW_BUTTON_CLASS}>
+                      {queue.isArchived ? "Restore" : "Archive"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setConfirmDeleteId(queue.queueId);
+                        setEditingQueueId(null);
+                      }}
+                      disabled={isBusy}
+                      className={`${ROW_BUTTON_CLASS} hover:border-red-500/50 hover:text-red-400`}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {editingQueueId === queue.queueId && (
+                  <div className="mt-4 grid gap-3 sm:grid-cols-2">
+                    <div>
+                      <label htmlFor={`queueName-${queue.queueId}`} className="block text-xs font-medium text-slate-400 mb-1">
+                        Queue name
+                      </label>
+                      <input
+                        id={`queueName-${queue.queueId}`}
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        maxLength={200}
+                        className={INPUT_CLASS}
+                        autoFocus
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor={`queueSlug-${queue.queueId}`} className="block text-xs font-medium text-slate-400 mb-1">
+                        Link name
+                      </label>
+                      <input
+                        id={`queueSlug-${queue.queueId}`}
+                        type="text"
+                        value={editSlug}
+                        onChange={(e) => setEditSlug(e.target.value)}
+                        maxLength={100}
+                        className={`${INPUT_CLASS} font-mono`}
+                      />
+                    </div>
+                    {editSlug.trim() !== queue.slug && (
+                      <p className="sm:col-span-2 text-xs text-slate-500">
+                        The old link and QR codes keep working and forward to the new one.
+                      </p>
+                    )}
+                    <div className="sm:col-span-2 flex justify-end gap-2">
+                      <button onClick={() => setEditingQueueId(null)} className={ROW_BUTTON_CLASS}>
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleSave(queue)}
+                        disabled={isBusy || !editName.trim() || !editSlug.trim()}
+                        className="px-3 py-1.5 text-xs font-semibold rounded-none bg-teal-400 text-slate-950 hover:bg-teal-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {confirmDeleteId === queue.queueId && (
+                  <div
+                    role="alertdialog"
+                    aria-label={`Delete ${queue.name}`}
+                    className="mt-4 p-3 bg-red-500/5 border border-red-500/20 rounded-none"
+                  >
+                    <p className="text-sm text-slate-300">
+                      Delete {queue.name} and its history? This can&apos;t be undone. Archive it instead to keep the
+                      history.
+                    </p>
+                    {queue.waitingCount > 0 && (
+                      <p className="mt-1 text-sm text-amber-300">
+                        {queue.waitingCount} {queue.waitingCount === 1 ? "customer is" : "customers are"} still
+                        waiting.
+                      </p>
+                    )}
+                    <div className="mt-3 flex justify-end gap-2">
+                      <button onClick={() => setConfirmDeleteId(null)} className={ROW_BUTTON_CLASS}>
+                        Keep Queue
+                      </button>
+                      <button
+                        onClick={() => handleDelete(queue)}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 text-xs font-semibold rounded-none bg-red-500 text-white hover:bg-red-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Delete Queue
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import type { Permission, QueuePermissions } from "../../auth/authTypes";
+import { ALL_PERMISSIONS, PERMISSION_LABELS, QUEUE_PERMISSIONS } from "../../auth/permissions";
+
+interface QueueOption {
+  queueId: string;
+  name: string;
+}
+
+interface MemberPermissionsEditorProps {
+  email: string;
+  permissions: Permission[];
+  queuePermissions: QueuePermissions[];
+  queues: QueueOption[];
+  isBusy: boolean;
+  onSave: (permissions: Permission[], queuePermissions: QueuePermissions[]) => void;
+  onCancel: () => void;
+}
+
+const ROW_BUTTON_CLASS =
+  "px-3 py-1.5 text-xs font-medium rounded-none border border-slate-700 text-slate-300 hover:border-slate-600 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+function toggle(list: Permission[], permission: Permission, checked: boolean): Permission[] {
+  return checked ? [...list, permission] : list.filter((p) => p !== permission);
+}
+
+/**
+ * Edits what a staff member may do across the business, and optionally narrows
+ * that on individual queues (a bar staffer who shouldn't clear the dine-in queue).
+ */
+export function MemberPermissionsEditor({
+  email,
+  permissions: initialPermissions,
+  queuePermissions: initialQueuePermissions,
+  queues,
+  isBusy,
+  onSave,
+  onCancel,
+}: MemberPermissionsEditorProps) {
+  const [permissions, setPermissions] = useState(initialPermissions);
+  // Queues without an entry follow the business-wide permissions
+  const [overrides, setOverrides] = useState<Record<string, Permission[]>>(() =>
+    Object.fromEntries(initialQueuePermissions.map((q) => [q.queueId, q.permissions])),
+  );
+
+  const setOverride = (queueId: string, value: Permission[] | null) => {
+    setOverrides((current) => {
+      const next = { ...current };
+      if (value) {
+        next[queueId] = value;
+      } else {
+        delete next[queueId];
+      }
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    // Keep the permissions in a stable order so the request is predictable
+    const ordered = (list: Permission[]) => ALL_PERMISSIONS.filter((p) => list.includes(p));
+    onSave(
+      ordered(permissions),
+      Object.entries(overrides).map(([queueId, list]) => ({ queueId, permissions: ordered(list) })),
+    );
+  };
+
+  return (
+    <div role="group" aria-label={`Permissions for ${email}`} className="mt-4 space-y-4">
+      <fieldset>
+        <legend className="text-xs font-medium text-slate-400 mb-2">Across the business</legend>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {ALL_PERMISSIONS.map((permission) => (
+            <label key={permission} className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={permissions.includes(permission)}
+                onChange={(e) => setPermissions((list) => toggle(list, permission, e.target.checked))}
+                className="accent-teal-400"
+              />
+              {PERMISSION_LABELS[permission]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {queues.length > 0 && (
+        <fieldset>
+          <legend className="text-xs font-medium text-slate-400 mb-2">Per queue</legend>
+          <ul className="space-y-3">
+            {queues.map((queue) => {
+              const override = overrides[queue.queueId];
+              return (
+                <li key={queue.queueId} className="p-3 bg-slate-900 border border-slate-800 rounded-none">
+                  <label className="flex items-center gap-2 text-sm text-white">
+                    <input
+                      type="checkbox"
+                      checked={override !== undefined}
+                      onChange={(e) =>
+                        setOverride(
+                          queue.queueId,
+                          e.target.checked ? QUEUE_PERMISSIONS.filter((p) => permissions.includes(p)) : null,
+                        )
+                      }
+                      className="accent-teal-400"
+                    />
+                    Different access on {queue.name}
+                  </label>
+                  {override && (
+                    <div className="mt-2 ml-6 grid gap-2">
+                      {QUEUE_PERMISSIONS.map((permission) => (
+                        <label key={permission} className="flex items-center gap-2 text-sm text-slate-300">
+                          <input
+                            type="checkbox"
+                            checked={override.includes(permission)}
+                            onChange={(e) =>
+                              setOverride(queue.queueId, toggle(override, permission, e.target.checked))
+                            }
+                            aria-label={`${PERMISSION_LABELS[permission]} on ${queue.name}`}
+                            className="accent-teal-400"
+                          />
+                          {PERMISSION_LABELS[permission]}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </fieldset>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className={ROW_BUTTON_CLASS}>
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isBusy}
+          className="px-3 py-1.5 text-xs font-semibold rounded-none bg-teal-400 text-slate-950 hover:bg-teal-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          Save Permissions
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useId, useState } from "react";
+
+interface MemberPinEditorProps {
+  email: string;
+  hasPin: boolean;
+  /** False when the PIN can only be removed, for the member to set a new one themselves */
+  canSet: boolean;
+  isBusy: boolean;
+  /** null removes the PIN */
+  onSave: (pin: string | null) => void;
+  onCancel: () => void;
+}
+
+const ROW_BUTTON_CLASS =
+  "px-3 py-1.5 text-xs font-medium rounded-none border border-slate-700 text-slate-300 hover:border-slate-600 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+/**
+ * Sets the PIN a member unlocks shared devices with. The PIN is never shown again,
+ * so changing it means typing a new one.
+ */
+export function MemberPinEditor({ email, hasPin, canSet, isBusy, onSave, onCancel }: MemberPinEditorProps) {
+  const inputId = useId();
+  const [pin, setPin] = useState("");
+  const isValid = /^\d{4,6}$/.test(pin);
+
+  return (
+    <div role="group" aria-label={`PIN for ${email}`} className="mt-4 space-y-3">
+      {canSet ? (
+        <>
+          <label htmlFor={inputId} className="block text-xs font-medium text-slate-400">
+            New PIN (4 to 6 digits)
+          </label>
+          <input
+            id={inputId}
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            maxLength={6}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+            className="w-40 px-3 py-2 bg-slate-800 border border-slate-700 rounded-none text-white tracking-widest focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500 transition-all"
+          />
+        </>
+      ) : (
+        <p className="text-xs text-slate-400">Only an owner can set this PIN. Remove it and {email} can set a new one.</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {hasPin && (
+          <button
+            onClick={() => onSave(null)}
+            disabled={isBusy}
+            className={`${ROW_BUTTON_CLASS} hover:border-red-500/50 hover:text-red-400`}
+          >
+            Remove PIN
+          </button>
+        )}
+        <button onClick={onCancel} className={ROW_BUTTON_CLASS}>
+          Cancel
+        </button>
+        {canSet && (
+          <button
+            onClick={() => onSave(pin)}
+            disabled={isBusy || !isValid}
+            className="px-3 py-1.5 text-xs font-semibold rounded-none bg-teal-400 text-slate-950 hover:bg-teal-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            Save PIN
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { apiRequest } from "../../../shared/utils/apiClient";
+
+interface WeeklyHours {
+  /** 0 is Sunday, as in getDay() */
+  day: number;
+  opens: string;
+  closes: string;
+}
+
+interface HolidayHours {
+  date: string;
+  /** Both null when closed all day */
+  opens: string | null;
+  closes: string | null;
+}
+
+interface OperatingHours {
+  timeZone: string;
+  weekly: WeeklyHours[];
+  holidays: HolidayHours[];
+  lastJoinMinutesBeforeClose: number | null;
+}
+
+interface HoursResponse {
+  hours: OperatingHours | null;
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const INPUT_CLASS =
+  "px-3 py-2 bg-slate-800 border border-slate-700 rounded-none text-sm text-white focus:outline-none focus:border-slate-500";
+
+const ROW_BUTTON_CLASS =
+  "px-3 py-2 text-xs font-medium rounded-none border border-slate-700 text-slate-300 hover:border-slate-600 hover:text-white transition-colors";
+
+/** The API sends times as "11:00:00"; time inputs want "11:00" */
+function toInputTime(time: string | null): string | null {
+  return time && time.slice(0, 5);
+}
+
+function toApiTime(time: string | null): string | null {
+  return time && `${time}:00`;
+}
+
+function mapTimes(hours: OperatingHours, map: (time: string | null) => string | null): OperatingHours {
+  return {
+    ...hours,
+    weekly: hours.weekly.map((w) => ({ ...w, opens: map(w.opens)!, closes: map(w.closes)! })),
+    holidays: hours.holidays.map((h) => ({ ...h, opens: map(h.opens), closes: map(h.closes) })),
+  };
+}
+
+/** Weekdays 9 to 5 in this device's time zone, as a starting point */
+function defaultHours(): OperatingHours {
+  return {
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    weekly: [1, 2, 3, 4, 5].map((day) => ({ day, opens: "09:00", closes: "17:00" })),
+    holidays: [],
+    lastJoinMinutesBeforeClose: null,
+  };
+}
+
+/**
+ * When customers can join the queue: weekly hours, holiday exceptions and a last-join cutoff.
+ * Staff can still add walk-ins outside these hours.
+ */
+export function OperatingHoursEditor({ queueId }: { queueId: string }) {
+  const [hours, setHours] = useState<OperatingHours | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<HoursResponse>(`/api/queues/${queueId}/hours`, {}, "Failed to load opening hours")
+      .then((result) => {
+        if (result.ok) {
+          setHours(result.data?.hours ? mapTimes(result.data.hours, toInputTime) : null);
+        } else {
+          setError(result.error);
+        }
+      })
+      .catch(() => setError("Couldn't reach the server. Check your connection."))
+      .finally(() => setIsLoading(false));
+  }, [queueId]);
+
+  const updateWeekly = (index: number, changes: Partial<WeeklyHours>) =>
+    setHours((prev) =>
+      prev ? { ...prev, weekly: prev.weekly.map((w, i) => (i === index ? { ...w, ...changes } : w)) } : prev,
+    );
+
+  const updateHoliday = (index: number, changes: Partial<HolidayHours>) =>
+    setHours((prev) =>
+      prev ? { ...prev, holidays: prev.holidays.map((h, i) => (i === index ? { ...h, ...changes } : h)) } : prev,
+    );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSuccessMessage(null);
+    try {
+      const result = await apiRequest<HoursResponse>(
+        `/api/queues/${queueId}/hours`,
+        { method: "PUT", json: { hours: hours && mapTimes(hours, toApiTime) } },
+        "Failed to save opening hours",
+      );
+      if (result.ok) {
+        setError(null);
+        setSuccessMessage("Opening hours saved!");
+        setTimeout(() => setSuccessMessage(null), 3000);
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("Couldn't reach the server. Check your connection.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading opening hours...</p>;
+  }
+
+  return (
+    <section aria-label="Opening hours" className="space-y-4">
+      <div className="flex items-center justify-between p-4 bg-slate-800 rounded-none">
+        <div>
+          <p className="text-sm font-medium text-white">Opening hours</p>
+          <p className="text-xs text-slate-500 mt-0.5">Customers can only join during these hours</p>
+        </div>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={hours !== null}
+          aria-label="Use opening hours"
+          onClick={() => setHours((prev) => (prev ? null : defaultHours()))}
+          className={`relative w-12 h-7 rounded-full transition-colors ${hours ? "bg-teal-500" : "bg-slate-700"}`}
+        >
+          <span
+            className={`absolute top-1 w-5 h-5 bg-white rounded-full transition-transform ${
+              hours ? "translate-x-6" : "translate-x-1"
+            }`}
+          />
+        </button>
+      </div>
+
+      {hours && (
+        <>
+          <div>
+            <label htmlFor="hoursTimeZone" className="block text-sm font-medium text-slate-400 mb-2">
+              Time zone
+            </label>
+            <input
+              id="hoursTimeZone"
+              value={hours.timeZone}
+              onChange={(e) => setHours({ ...hours, timeZone: e.target.value })}
+              placeholder="Europe/London"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-slate-400 mb-2">Weekly hours</legend>
+            {hours.weekly.map((period, index) => (
+              <div key={index} role="group" aria-label={`Opening period ${index + 1}`} className="flex gap-2">
+                <select
+                  aria-label="Day"
+                  value={period.day}
+                  onChange={(e) => updateWeekly(index, { day: Number(e.target.value) })}
+                  className={`${INPUT_CLASS} flex-1`}
+                >
+                  {DAY_NAMES.map((name, day) => (
+                    <option key={name} value={day}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="time"
+                  aria-label="Opens"
+                  value={period.opens}
+                  onChange={(e) => updateWeekly(index, { opens: e.target.value })}
+                  className={INPUT_CLASS}
+                />
+                <input
+                  type="time"
+                  aria-label="Closes"
+                  value={period.closes}
+                  onChange={(e) => updateWeekly(index, { closes: e.target.value })}
+                  className={INPUT_CLASS}
+                />
+                <button
+                  type="button"
+                  onClick={() => setHours({ ...hours, weekly: hours.weekly.filter((_, i) => i !== index) })}
+                  className={ROW_BUTTON_CLASS}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setHours({ ...hours, weekly: [...hours.weekly, { day: 1, opens: "09:00", closes: "17:00" }] })}
+              className={ROW_BUTTON_CLASS}
+            >
+              Add hours
+            </button>
+            <p className="text-xs text-slate-600">Closing before opening runs past midnight</p>
+          </fieldset>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-slate-400 mb-2">Holidays</legend>
+            {hours.holidays.map((holiday, index) => {
+              const isClosed = holiday.opens === null;
+              return (
+                <div key={index} role="group" aria-label={`Holiday ${index + 1}`} className="flex flex-wrap gap-2">
+                  <input
+                    type="date"
+                    aria-label="Date"
+                    value={holiday.date}
+                    onChange={(e) => updateHoliday(index, { date: e.target.value })}
+                    className={`${INPUT_CLASS} flex-1`}
+                  />
+                  <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={isClosed}
+                      onChange={(e) =>
+                        updateHoliday(
+                          index,
+                          e.target.checked ? { opens: null, closes: null } : { opens: "10:00", closes: "16:00" },
+                        )
+                      }
+                    />
+                    Closed all day
+                  </label>
+                  {!isClosed && (
+                    <>
+                      <input
+                        type="time"
+                        aria-label="Opens"
+                        value={holiday.opens ?? ""}
+                        onChange={(e) => updateHoliday(index, { opens: e.target.value })}
+                        className={INPUT_CLASS}
+                      />
+                      <input
+                        type="time"
+                        aria-label="Closes"
+                        value={holiday.closes ?? ""}
+                        onChange={(e) => updateHoliday(index, { closes: e.target.value })}
+                        className={INPUT_CLASS}
+                      />
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setHours({ ...hours, holidays: hours.holidays.filter((_, i) => i !== index) })}
+                    className={ROW_BUTTON_CLASS}
+                  >
+                    Remove
+                  </button>
+                </div>
+              );
+            })}
+            <button
+              type="button"
+              onClick={() =>
+                setHours({
+                  ...hours,
+                  holidays: [...hours.holidays, { date: new Date().toISOString().slice(0, 10), opens: null, closes: null }],
+                })
+              }
+              className={ROW_BUTTON_CLASS}
+            >
+              Add holiday
+            </button>
+          </fieldset>
+
+          <div>
+            <label htmlFor="lastJoinCutoff" className="block text-sm font-medium text-slate-400 mb-2">
+              Last join (minutes before closing)
+            </label>
+            <input
+              id="lastJoinCutoff"
+              type="number"
+              min={1}
+              max={720}
+              value={hours.lastJoinMinutesBeforeClose ?? ""}
+              onChange={(e) =>
+                setHours({
+                  ...hours,
+                  lastJoinMinutesBeforeClose: e.target.value ? parseInt(e.target.value, 10) : null,
+                })
+              }
+              placeholder="Until closing"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div role="alert" className="p-3 bg-red-500/10 border border-red-500/20 text-red-400 rounded-none text-sm">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-3 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-none text-sm">
+          {successMessage}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full py-3 bg-slate-800 text-white rounded-none font-medium hover:bg-slate-700 disabled:opacity-50 transition-colors"
+      >
+        {isSaving ? "Saving..." : "Save opening hours"}
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,56 @@
+import type { StaffAction } from "../staffOutbox";
+
+interface PendingActionsBannerProps {
+  pendingCount: number;
+  conflicts: StaffAction[];
+  onDismissConflict: (id: string) => void;
+}
+
+function describeAction(action: StaffAction): string {
+  const name = action.customerName ?? "customer";
+
+  switch (action.type) {
+    case "call-next":
+      return "call the next customer";
+    case "serve":
+      return `mark ${name} as served`;
+    case "no-show":
+      return `mark ${name} as no-show`;
+    case "remove":
+      return `remove ${name}`;
+  }
+}
+
+export function PendingActionsBanner({ pendingCount, conflicts, onDismissConflict }: PendingActionsBannerProps) {
+  if (pendingCount === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {pendingCount > 0 && (
+        <div role="status" className="bg-amber-500/10 border border-amber-500/20 text-amber-300 px-4 py-3 rounded-none text-sm">
+          {pendingCount === 1 ? "1 action is" : `${pendingCount} actions are`} waiting to sync. They&apos;ll be sent
+          in order once the connection is back.
+        </div>
+      )}
+
+      {conflicts.map((conflict) => (
+        <div
+          key={conflict.id}
+          role="alert"
+          className="flex items-start justify-between gap-4 bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-none text-sm"
+        >
+          <p>
+            Couldn&apos;t {describeAction(conflict)} - it may have been handled on another device.
+            {conflict.error && <span className="block text-xs text-red-400/80 mt-1">{conflict.error}</span>}
+          </p>
+          <button
+            onClick={() => onDismissConflict(conflict.id)}
+            className="text-xs text-slate-400 hover:text-white shrink-0"
+          >
+            Dismiss
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,34 @@
+import { useState } from "react";
 import type { QueueInfo } from "../hooks/useStaffQueue";
 
+export type QueueStatusAction = "open" | "close" | "pause" | "resume";
+
+const STATUS_CONFIRMATIONS: Record<QueueStatusAction, { label: string; message: string }> = {
+  pause: {
+    label: "Pause queue",
+    message: "Nobody can be called while paused. Customers keep their place and see that the queue is paused.",
+  },
+  resume: { label: "Resume queue", message: "Customers can join and be called again." },
+  close: {
+    label: "Close queue",
+    message: "New customers can't join and nobody can be called until it reopens. Customers in line keep their place.",
+  },
+  open: { label: "Open queue", message: "Customers can join from the QR code and link again." },
+};
+
+/** Next time the clock shows `time` ("HH:MM", local) - today if still ahead, otherwise tomorrow */
+function nextOccurrence(time: string, now: Date): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const next = new Date(now);
+  next.setHours(hours, minutes, 0, 0);
+  if (next <= now) next.setDate(next.getDate() + 1);
+  return next;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
 interface QueueControlsProps {
   queueInfo: QueueInfo;
   onCallNext?: () => void | Promise<unknown>;
@@ -7,6 +36,12 @@ interface QueueControlsProps {
   onOpenQRCode?: () => void;
   isConnected: boolean;
   showAllControls?: boolean;
+  /** Opens connection diagnostics from the live indicator */
+  onOpenDiagnostics?: () => void;
+  /** Open, close, pause or resume the queue (asked for confirmation first) */
+  onSetStatus?: (action: QueueStatusAction) => Promise<unknown>;
+  /** Set the time the queue closes itself (ISO string), or clear it with null */
+  onScheduleAutoClose?: (closesAt: string | null) => Promise<unknown>;
 }
 
 export function QueueControls({
@@ -16,8 +51,32 @@ export function QueueControls({
   onOpenQRCode,
   isConnected,
   showAllControls = true,
+  onOpenDiagnostics,
+  onSetStatus,
+  onScheduleAutoClose,
 }: QueueControlsProps) {
+  const [pendingAction, setPendingAction] = useState<QueueStatusAction | null>(null);
+  const [isChanging, setIsChanging] = useState(false);
+  const [autoCloseTime, setAutoCloseTime] = useState("");
   const hasWaiting = queueInfo.waitingCount > 0;
+  const canCall = hasWaiting && queueInfo.isActive && !queueInfo.isPaused;
+
+  const confirmStatusChange = async () => {
+    if (!pendingAction || !onSetStatus) return;
+    setIsChanging(true);
+    try {
+      await onSetStatus(pendingAction);
+      setPendingAction(null);
+    } finally {
+      setIsChanging(false);
+    }
+  };
+
+  const scheduleAutoClose = async () => {
+    if (!autoCloseTime || !onScheduleAutoClose) return;
+    await onScheduleAutoClose(nextOccurrence(autoCloseTime, new Date()).toISOString());
+    setAutoCloseTime("");
+  };
 
   return (
     <div className="bg-slate-900 border border-slate-800 rounded-none p-6 shadow-[0_14px_40px_rgba(0,0,0,0.30)]">
@@ -40,10 +99,16 @@ export function QueueControls({
                 <span className="text-[11px] uppercase tracking-[0.08em]">Paused</span>
               </span>
             )}
-            <span className="flex items-center gap-1.5">
+            <button
+              type="button"
+              onClick={onOpenDiagnostics}
+              disabled={!onOpenDiagnostics}
+              title={onOpenDiagnostics ? "Connection diagnostics" : undefined}
+              className="flex items-center gap-1.5 enabled:hover:text-white transition-colors"
+            >
               <span className={`w-1.5 h-1.5 rounded-full ${isConnected ? "bg-emerald-500 animate-pulse" : "bg-slate-600"}`} />
               <span className="text-[11px] uppercase tracking-[0.08em]">{isConnected ? "Live" : "Connecting"}</span>
-            </span>
+            </button>
           </div>
         </div>
 
@@ -75,7 +140,7 @@ export function QueueControls({
         {showAllControls && onCallNext && (
           <button
             onClick={onCallNext}
-            disabled={!hasWaiting}
+            disabled={!canCall}
             className="flex-1 sm:flex-none px-8 py-4 bg-gradient-to-r from-teal-500 via-emerald-500 to-teal-400 text-slate-950 rounded-none font-semibold hover:brightness-110 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-[0_14px_30px_rgba(16,185,129,0.28)]"
           >
             Call Next
@@ -113,7 +178,85 @@ export function QueueControls({
             </svg>
           </button>
         )}
+        {showAllControls && onSetStatus && queueInfo.isActive && (
+          <button
+            onClick={() => setPendingAction(queueInfo.isPaused ? "resume" : "pause")}
+            className="px-6 py-4 bg-slate-800 text-amber-300 rounded-none font-medium border border-slate-700 hover:border-amber-400/40 transition-all"
+          >
+            {queueInfo.isPaused ? "Resume" : "Pause"}
+          </button>
+        )}
+        {showAllControls && onSetStatus && (
+          <button
+            onClick={() => setPendingAction(queueInfo.isActive ? "close" : "open")}
+            className={`px-6 py-4 bg-slate-800 rounded-none font-medium border border-slate-700 transition-all ${
+              queueInfo.isActive ? "text-red-300 hover:border-red-400/40" : "text-emerald-300 hover:border-emerald-400/40"
+            }`}
+          >
+            {queueInfo.isActive ? "Close" : "Open"}
+          </button>
+        )}
       </div>
+
+      {/* Confirm before changing the queue's status */}
+      {pendingAction && (
+        <div role="alertdialog" aria-label={STATUS_CONFIRMATIONS[pendingAction].label} className="mt-4 p-4 bg-slate-800/60 border border-slate-700 rounded-none">
+          <p className="text-white font-medium">
+            {STATUS_CONFIRMATIONS[pendingAction].label} &ldquo;{queueInfo.name}&rdquo;?
+          </p>
+          <p className="mt-1 text-sm text-slate-400">{STATUS_CONFIRMATIONS[pendingAction].message}</p>
+          <div className="mt-3 flex gap-3">
+            <button
+              onClick={() => setPendingAction(null)}
+              disabled={isChanging}
+              className="px-4 py-2 text-sm text-slate-400 rounded-none border border-slate-700 hover:border-slate-600 hover:text-white transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmStatusChange}
+              disabled={isChanging}
+              className="px-4 py-2 text-sm font-semibold text-slate-950 bg-teal-400 rounded-none hover:bg-teal-300 disabled:opacity-60 transition-colors"
+            >
+              {isChanging ? "Saving..." : STATUS_CONFIRMATIONS[pendingAction].label}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Scheduled closing time */}
+      {showAllControls && onScheduleAutoClose && queueInfo.isActive && (
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-slate-400">
+          {queueInfo.autoCloseAt ? (
+            <>
+              <span>
+                Closes automatically at <span className="text-white">{formatTime(queueInfo.autoCloseAt)}</span>
+              </span>
+              <button onClick={() => onScheduleAutoClose(null)} className="text-teal-400 hover:text-teal-300">
+                Cancel auto-close
+              </button>
+            </>
+          ) : (
+            <>
+              <label htmlFor="autoCloseTime">Close automatically at</label>
+              <input
+                id="autoCloseTime"
+                type="time"
+                value={autoCloseTime}
+                onChange={(e) => setAutoCloseTime(e.target.value)}
+                className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-none text-white focus:outline-none focus:border-teal-500"
+              />
+              <button
+                onClick={scheduleAutoClose}
+                disabled={!autoCloseTime}
+                className="text-teal-400 hover:text-teal-300 disabled:text-slate-600 disabled:cursor-not-allowed"
+              >
+                Set
+              </button>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -9,35 +9,39 @@ interface QueueTabsProps {
   queues: QueueTab[];
   activeQueueId: string | null;
   onSelectQueue: (queueId: string | null) => void;
+  /** Opens queue management - only passed for owners */
+  onManage?: () => void;
 }
 
-export function QueueTabs({ queues, activeQueueId, onSelectQueue }: QueueTabsProps) {
+export function QueueTabs({ queues, activeQueueId, onSelectQueue, onManage }: QueueTabsProps) {
   const totalWaiting = queues.reduce((sum, q) => sum + q.waitingCount, 0);
 
   return (
     <div className="flex flex-wrap gap-2 mb-6">
-      {/* All queues tab */}
-      <button
-        onClick={() => onSelectQueue(null)}
-        className={`px-4 py-2 rounded-none font-medium text-sm transition-all border ${
-          activeQueueId === null
-            ? "bg-emerald-500/20 border-emerald-400/40 text-white shadow-[0_14px_30px_rgba(16,185,129,0.25)]"
-            : "bg-slate-900/60 border-slate-800 text-slate-400 hover:border-emerald-400/30 hover:text-white"
-        }`}
-      >
-        All
-        {totalWaiting > 0 && (
-          <span
-            className={`ml-2 px-2 py-0.5 rounded-full text-xs tabular-nums border ${
-              activeQueueId === null
-                ? "bg-emerald-500/25 text-emerald-50 border-transparent"
-                : "bg-slate-800 text-slate-400 border-slate-700"
-            }`}
-          >
-            {totalWaiting}
-          </span>
-        )}
-      </button>
+      {/* All queues tab - nothing to combine with a single queue */}
+      {queues.length > 1 && (
+        <button
+          onClick={() => onSelectQueue(null)}
+          className={`px-4 py-2 rounded-none font-medium text-sm transition-all border ${
+            activeQueueId === null
+              ? "bg-emerald-500/20 border-emerald-400/40 text-white shadow-[0_14px_30px_rgba(16,185,129,0.25)]"
+              : "bg-slate-900/60 border-slate-800 text-slate-400 hover:border-emerald-400/30 hover:text-white"
+          }`}
+        >
+          All
+          {totalWaiting > 0 && (
+            <span
+              className={`ml-2 px-2 py-0.5 rounded-full text-xs tabular-nums border ${
+                activeQueueId === null
+                  ? "bg-emerald-500/25 text-emerald-50 border-transparent"
+                  : "bg-slate-800 text-slate-400 border-slate-700"
+              }`}
+            >
+              {totalWaiting}
+            </span>
+          )}
+        </button>
+      )}
 
       {/* Individual queue tabs */}
       {queues.map((queue) => (
@@ -64,6 +68,18 @@ export function QueueTabs({ queues, activeQueueId, onSelectQueue }: QueueTabsPro
           )}
         </button>
       ))}
+
+      {onManage && (
+        <button
+          onClick={onManage}
+          className="ml-auto flex items-center gap-2 px-4 py-2 rounded-none text-sm text-slate-400 hover:text-white border border-slate-700 hover:border-slate-600 transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+          </svg>
+          Manage Queues
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,45 @@
+import type { UndoableAction } from "../hooks/useUndoAction";
+
+interface UndoToastProps {
+  action: UndoableAction;
+  isUndoing: boolean;
+  error: string | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const ACTION_LABELS: Record<UndoableAction["type"], string> = {
+  serve: "marked as served",
+  "no-show": "marked as no-show",
+  remove: "removed",
+};
+
+export function UndoToast({ action, isUndoing, error, onUndo, onDismiss }: UndoToastProps) {
+  return (
+    <div
+      role="status"
+      className="print:hidden fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md bg-slate-900 border border-slate-700 rounded-none px-4 py-3 shadow-[0_18px_40px_rgba(2,6,23,0.6)]"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-white truncate">
+          {action.customerName} {ACTION_LABELS[action.type]}
+        </p>
+        <div className="flex items-center gap-3 shrink-0">
+          <button
+            onClick={onUndo}
+            disabled={isUndoing}
+            className="text-sm font-semibold text-teal-400 hover:text-teal-300 disabled:text-slate-600 disabled:cursor-not-allowed"
+          >
+            {isUndoing ? "Undoing..." : "Undo"}
+          </button>
+          <button onClick={onDismiss} className="text-slate-500 hover:text-white" aria-label="Dismiss">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { apiRequest, setActingMember } from "../../../shared/utils/apiClient";
+import type { BusinessRole, Permission, QueuePermissions } from "../../auth/authTypes";
+
+/** How long an unlocked device can sit untouched before it locks again */
+export const AUTO_LOCK_MS = 2 * 60 * 1000;
+
+/** The member a locked device was unlocked as, with their own permissions */
+export interface ActingMember {
+  token: string;
+  userId: string;
+  email: string;
+  role: BusinessRole;
+  permissions: Permission[];
+  queuePermissions: QueuePermissions[];
+}
+
+interface UnlockResponse {
+  actingToken: string;
+  userId: string;
+  email: string;
+  role: BusinessRole;
+  permissions: Permission[];
+  queuePermissions: QueuePermissions[];
+}
+
+export interface LockModeState {
+  /** Whether this device is in lock mode (kept across reloads) */
+  enabled: boolean;
+  /** In lock mode with nobody unlocked - the dashboard should be covered */
+  locked: boolean;
+  actingMember: ActingMember | null;
+  enable: () => void;
+  disable: () => void;
+  /** Hand the device back, e.g. at the end of a shift */
+  lock: () => void;
+  /** Returns why the PIN was refused, or null once unlocked */
+  unlock: (userId: string, pin: string) => Promise<string | null>;
+}
+
+const storageKey = (businessSlug: string) => `lock_mode_${businessSlug}`;
+
+/** Lock mode for the business's staff pages. Null outside a LockModeProvider. */
+export const LockModeContext = createContext<LockModeState | null>(null);
+
+/**
+ * Shared-device lock mode, as held by the LockModeProvider around the staff pages.
+ * The device stays signed in as whoever set it up; staff unlock it with their own PIN
+ * and their actions are checked against and credited to them. The unlocked member is
+ * only kept in memory, so a reload locks the device again.
+ */
+export function useLockMode(): LockModeState {
+  const context = useContext(LockModeContext);
+  if (!context) {
+    throw new Error("useLockMode must be used within LockModeProvider");
+  }
+  return context;
+}
+
+/** The state behind LockModeProvider - one per business, so it outlives the individual pages */
+export function useLockModeState(businessSlug: string): LockModeState {
+  const [enabled, setEnabled] = useState(() =>
+    typeof window === "undefined" ? false : localStorage.getItem(storageKey(businessSlug)) === "true",
+  );
+  const [actingMember, setActing] = useState<ActingMember | null>(null);
+
+  // Requests carry the unlocked member's token until the device locks
+  useEffect(() => {
+    setActingMember(actingMember?.token ?? null);
+    return () => setActingMember(null);
+  }, [actingMember]);
+
+  // Lock again once nobody has touched the device for a while
+  useEffect(() => {
+    if (!actingMember) return;
+
+    let timer = setTimeout(() => setActing(null), AUTO_LOCK_MS);
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => setActing(null), AUTO_LOCK_MS);
+    };
+
+    window.addEventListener("pointerdown", restart);
+    window.addEventListener("keydown", restart);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("pointerdown", restart);
+      window.removeEventListener("keydown", restart);
+    };
+  }, [actingMember]);
+
+  const enable = useCallback(() => {
+    localStorage.setItem(storageKey(businessSlug), "true");
+    setActing(null);
+    setEnabled(true);
+  }, [businessSlug]);
+
+  const disable = useCallback(() => {
+    localStorage.removeItem(storageKey(businessSlug));
+    setActing(null);
+    setEnabled(false);
+  }, [businessSlug]);
+
+  const lock = useCallback(() => setActing(null), []);
+
+  const unlock = useCallback(
+    async (userId: string, pin: string) => {
+      try {
+        const result = await apiRequest<UnlockResponse>(
+          `/api/business/${businessSlug}/unlock`,
+          // The previous member's token has nothing to do with this request
+          { method: "POST", json: { userId, pin }, actingMember: null },
+          "Failed to unlock",
+        );
+
+        if (!result.ok) return result.error;
+        if (!result.data) return "Invalid response from server";
+
+        const { actingToken, ...member } = result.data;
+        setActing({ token: actingToken, ...member });
+        return null;
+      } catch {
+        return "Failed to unlock. Check your connection and try again.";
+      }
+    },
+    [businessSlug],
+  );
+
+  return {
+    enabled,
+    locked: enabled && actingMember === null,
+    actingMember: enabled ? actingMember : null,
+    enable,
+    disable,
+    lock,
+    unlock,
+  };
+}
@@ -1,5 +1,22 @@
 import { useCallback, useEffect, useState } from "react";
 import { getApiErrorMessage, safeJsonParse } from "../../../shared/utils/api";
+import { apiFetch } from "../../../shared/utils/apiClient";
+
+export type JoinFieldType = "PartySize" | "Phone" | "Notes" | "Text" | "Number" | "Choice" | "Checkbox";
+
+/** A question customers answer when they join. Party size, phone and notes fill in the customer's own details. */
+export interface JoinField {
+  /** Identifies the question in answers; stays the same when the label changes */
+  key: string;
+  label: string;
+  type: JoinFieldType;
+  required: boolean;
+  /** Choices for "Choice" questions */
+  options: string[];
+  /** Range for "Number" and "PartySize" questions */
+  min: number | null;
+  max: number | null;
+}
 
 export interface QueueSettings {
   maxQueueSize: number | null;
@@ -9,6 +26,7 @@ export interface QueueSettings {
   allowJoinWhenPaused: boolean;
   welcomeMessage: string | null;
   calledMessage: string | null;
+  joinFields: JoinField[];
 }
 
 interface UseQueueSettingsResult {
@@ -40,7 +58,7 @@ export function useQueueSettings(queueId: string): UseQueueSettingsResult {
   const fetchSettings = useCallback(async () => {
     try {
       setIsLoading(true);
-      const response = await fetch(`/api/queues/${queueId}/settings`);
+      const response = await apiFetch(`/api/queues/${queueId}/settings`);
 
       if (!response.ok) {
         if (response.status === 404) {
@@ -69,12 +87,9 @@ export function useQueueSettings(queueId: string): UseQueueSettingsResult {
         setIsSaving(true);
         setError(null);
 
-        const response = await fetch(`/api/queues/${queueId}/settings`, {
+        const response = await apiFetch(`/api/queues/${queueId}/settings`, {
           method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(newSettings),
+          json: newSettings,
         });
 
         if (!response.ok) {
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { staffOutbox, type StaffAction, type StaffOutbox } from "../staffOutbox";
+
+interface UseStaffOutboxResult {
+  /** Actions waiting to reach the server */
+  pendingActions: StaffAction[];
+  /** Replayed actions the server rejected */
+  conflicts: StaffAction[];
+  /** Record an action and send it, or queue it while offline */
+  submit: StaffOutbox["submit"];
+  /** Retry queued actions now */
+  flush: () => Promise<void>;
+  /** Forget a reported conflict */
+  dismissConflict: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook for the shared staff action outbox.
+ * Replays queued actions on mount and whenever the browser comes back online.
+ */
+export function useStaffOutbox(outbox: StaffOutbox = staffOutbox): UseStaffOutboxResult {
+  const [actions, setActions] = useState<StaffAction[]>(outbox.snapshot);
+
+  useEffect(() => {
+    setActions(outbox.snapshot);
+    const unsubscribe = outbox.subscribe(setActions);
+
+    // Send anything left over from before a reload or a dropped connection
+    outbox.flush();
+
+    const handleOnline = () => outbox.flush();
+    window.addEventListener("online", handleOnline);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [outbox]);
+
+  const submit = useCallback<StaffOutbox["submit"]>((input) => outbox.submit(input), [outbox]);
+  const flush = useCallback(() => outbox.flush(), [outbox]);
+  const dismissConflict = useCallback((id: string) => outbox.dismiss(id), [outbox]);
+
+  const pendingActions = useMemo(() => actions.filter((a) => a.status === "pending"), [actions]);
+  const conflicts = useMemo(() => actions.filter((a) => a.status === "conflict"), [actions]);
+
+  return { pendingActions, conflicts, submit, flush, dismissConflict };
+}
@@ -5,12 +5,15 @@ import { useStaffQueue } from "./useStaffQueue";
 // Mock useSignalR
 const mockInvoke = vi.fn();
 const mockOn = vi.fn();
+const mockLeaveRoom = vi.fn();
+const mockJoinRoom = vi.fn();
 
 vi.mock("../../../shared/hooks/useSignalR", () => ({
   useSignalR: vi.fn(() => ({
     state: "connected",
     invoke: mockInvoke,
     on: mockOn,
+    joinRoom: mockJoinRoom,
   })),
 }));
 
@@ -32,8 +35,11 @@ describe("useStaffQueue", () => {
       position: 1,
       joinedAt: "2024-01-01T10:00:00Z",
       calledAt: null,
+      onTheWayAt: null,
       partySize: 2,
       notes: null,
+      phoneNumber: null,
+      joinAnswers: [],
     },
   ];
   const mockQueueInfo = {
@@ -48,10 +54,11 @@ describe("useStaffQueue", () => {
     vi.clearAllMocks();
     mockInvoke.mockResolvedValue(undefined);
     mockOn.mockReturnValue(() => {}); // Return unsubscribe function
+    mockJoinRoom.mockReturnValue(mockLeaveRoom); // Return leave function
     mockFetch.mockResolvedValue({
       ok: true,
-      json: () => Promise.resolve({ customers: mockCustomers, queueInfo: mockQueueInfo }),
-      text: () => Promise.resolve(JSON.stringify({ customers: mockCustomers, queueInfo: mockQueueInfo })),
+      json: () => Promise.resolve({ customers: mockCustomers, queueInfo: mockQueueInfo, version: 1 }),
+      text: () => Promise.resolve(JSON.stringify({ customers: mockCustomers, queueInfo: mockQueueInfo, version: 1 })),
     });
 
     // Reset useSignalR mock to default connected state
@@ -59,33 +66,36 @@ describe("useStaffQueue", () => {
       state: "connected",
       invoke: mockInvoke,
       on: mockOn,
+      joinRoom: mockJoinRoom,
     });
   });
 
   describe("SignalR room management", () => {
-    it("should join staff room when connected", async () => {
+    const staffRoomFor = (queueId: string) => ({ join: "JoinStaffRoom", leave: "LeaveStaffRoom", id: queueId });
+
+    it("should join staff room on mount", async () => {
       renderHook(() => useStaffQueue(mockQueueId));
 
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalledWith("JoinStaffRoom", mockQueueId);
+        expect(mockJoinRoom).toHaveBeenCalledWith(staffRoomFor(mockQueueId));
       });
     });
 
-    it("should not join staff room when disconnected", async () => {
+    it("should register the room even while disconnected so it is joined on connect", async () => {
       (useSignalR as Mock).mockReturnValue({
         state: "disconnected",
         invoke: mockInvoke,
         on: mockOn,
+        joinRoom: mockJoinRoom,
       });
 
       renderHook(() => useStaffQueue(mockQueueId));
 
-      // Wait a tick to ensure effect has run
-      await act(async () => {
-        await new Promise((r) => setTimeout(r, 10));
+      await waitFor(() => {
+        expect(mockJoinRoom).toHaveBeenCalledWith(staffRoomFor(mockQueueId));
       });
-
-      expect(mockInvoke).not.toHaveBeenCalledWith("JoinStaffRoom", expect.anything());
+      // Room membership goes through the shared connection, never a direct invoke
+      expect(mockInvoke).not.toHaveBeenCalled();
     });
 
     it("should leave old room and join new room when queueId changes", async () => {
@@ -97,18 +107,18 @@ describe("useStaffQueue", () => {
 
       // Wait for initial join
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalledWith("JoinStaffRoom", mockQueueId);
+        expect(mockJoinRoom).toHaveBeenCalledWith(staffRoomFor(mockQueueId));
       });
 
-      mockInvoke.mockClear();
+      mockJoinRoom.mockClear();
 
       // Change queueId
       rerender({ queueId: newQueueId });
 
       // Should leave old room and join new room
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalledWith("LeaveStaffRoom", mockQueueId);
-        expect(mockInvoke).toHaveBeenCalledWith("JoinStaffRoom", newQueueId);
+        expect(mockLeaveRoom).toHaveBeenCalled();
+        expect(mockJoinRoom).toHaveBeenCalledWith(staffRoomFor(newQueueId));
       });
     });
 
@@ -116,14 +126,14 @@ describe("useStaffQueue", () => {
       const { unmount } = renderHook(() => useStaffQueue(mockQueueId));
 
       await waitFor(() => {
-        expect(mockInvoke).toHaveBeenCalledWith("JoinStaffRoom", mockQueueId);
+        expect(mockJoinRoom).toHaveBeenCalledWith(staffRoomFor(mockQueueId));
       });
 
-      mockInvoke.mockClear();
+      mockLeaveRoom.mockClear();
 
       unmount();
 
-      expect(mockInvoke).toHaveBeenCalledWith("LeaveStaffRoom", mockQueueId);
+      expect(mockLeaveRoom).toHaveBeenCalled();
     });
   });
 
@@ -138,7 +148,7 @@ describe("useStaffQueue", () => {
 
     it("should only refetch when QueueUpdated matches current queueId", async () => {
       // Capture the QueueUpdated handler
-      let queueUpdatedHandler: (queueId: string, updateType: string) => void = () => {};
+      let queueUpdatedHandler: (queueId: string, updateType: string, version: number) => void = () => {};
       mockOn.mockImplementation((event, handler) => {
         if (event === "QueueUpdated") {
           queueUpdatedHandler = handler;
@@ -150,14 +160,14 @@ describe("useStaffQueue", () => {
 
       // Wait for initial fetch
       await waitFor(() => {
-        expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${mockQueueId}/customers`);
+        expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${mockQueueId}/customers`, expect.anything());
       });
 
       mockFetch.mockClear();
 
       // Trigger QueueUpdated for a DIFFERENT queue
       await act(async () => {
-        queueUpdatedHandler("different-queue-id", "CustomerJoined");
+        queueUpdatedHandler("different-queue-id", "CustomerJoined", 2);
         // Wait for debounce
         await new Promise((r) => setTimeout(r, 200));
       });
@@ -167,13 +177,126 @@ describe("useStaffQueue", () => {
 
       // Trigger QueueUpdated for the CURRENT queue
       await act(async () => {
-        queueUpdatedHandler(mockQueueId, "CustomerJoined");
+        queueUpdatedHandler(mockQueueId, "CustomerJoined", 2);
         // Wait for debounce
         await new Promise((r) => setTimeout(r, 200));
       });
 
       // Should refetch because queueId matches
-      expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${mockQueueId}/customers`);
+      expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${mockQueueId}/customers`, expect.anything());
+    });
+
+    it("should skip QueueUpdated versions the fetched data already reflects", async () => {
+      let queueUpdatedHandler: (queueId: string, updateType: string, version: number) => void = () => {};
+      mockOn.mockImplementation((event, handler) => {
+        if (event === "QueueUpdated") {
+          queueUpdatedHandler = handler;
+        }
+        return () => {};
+      });
+
+      const { result } = renderHook(() => useStaffQueue(mockQueueId));
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      mockFetch.mockClear();
+
+      // Fetched snapshot is at version 1
+      await act(async () => {
+        queueUpdatedHandler(mockQueueId, "CustomerJoined", 1);
+        await new Promise((r) => setTimeout(r, 200));
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("QueueUpdated patches", () => {
+    type QueueUpdatedHandler = (queueId: string, updateType: string, version: number, customer: unknown) => void;
+
+    async function renderWithHandler() {
+      let queueUpdatedHandler: QueueUpdatedHandler = () => {};
+      mockOn.mockImplementation((event, handler) => {
+        if (event === "QueueUpdated") {
+          queueUpdatedHandler = handler;
+        }
+        return () => {};
+      });
+
+      const hook = renderHook(() => useStaffQueue(mockQueueId));
+      await waitFor(() => {
+        expect(hook.result.current.customers).toHaveLength(1);
+      });
+      mockFetch.mockClear();
+
+      return { ...hook, emit: (...args: Parameters<QueueUpdatedHandler>) => queueUpdatedHandler(...args) };
+    }
+
+    it("should apply the next update in sequence without refetching", async () => {
+      const { result, emit } = await renderWithHandler();
+      const bob = { ...mockCustomers[0], id: "c2", name: "Bob", token: "token-2", position: 2 };
+
+      await act(async () => {
+        emit(mockQueueId, "CustomerJoined", 2, bob);
+        await new Promise((r) => setTimeout(r, 200));
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.current.customers.map((c) => c.name)).toEqual(["Alice", "Bob"]);
+      expect(result.current.queueInfo?.waitingCount).toBe(2);
+    });
+
+    it("should refetch instead of patching when a version was skipped", async () => {
+      const { emit } = await renderWithHandler();
+      const served = { ...mockCustomers[0], status: "Served", position: null };
+
+      await act(async () => {
+        emit(mockQueueId, "CustomerServed", 3, served);
+        await new Promise((r) => setTimeout(r, 200));
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${mockQueueId}/customers`, expect.anything());
+    });
+  });
+
+  describe("reconnect resync", () => {
+    it("should refetch when the SignalR connection is re-established", async () => {
+      renderHook(() => useStaffQueue(mockQueueId));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+
+      const { onReconnected } = (useSignalR as Mock).mock.lastCall![0];
+      await act(async () => {
+        await onReconnected();
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenLastCalledWith(`/api/queues/${mockQueueId}/customers`, expect.anything());
+    });
+
+    it("should ignore a snapshot older than the one already shown", async () => {
+      const { result } = renderHook(() => useStaffQueue(mockQueueId));
+
+      await waitFor(() => {
+        expect(result.current.customers).toHaveLength(1);
+      });
+
+      const staleSnapshot = { customers: [], queueInfo: mockQueueInfo, version: 0 };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(staleSnapshot),
+        text: () => Promise.resolve(JSON.stringify(staleSnapshot)),
+      });
+
+      await act(async () => {
+        await result.current.refresh();
+      });
+
+      expect(result.current.customers).toHaveLength(1);
     });
   });
 
@@ -185,7 +308,7 @@ describe("useStaffQueue", () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${mockQueueId}/customers`);
+      expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${mockQueueId}/customers`, expect.anything());
       expect(result.current.customers).toEqual(mockCustomers);
       expect(result.current.queueInfo).toEqual(mockQueueInfo);
     });
@@ -206,7 +329,7 @@ describe("useStaffQueue", () => {
       rerender({ queueId: newQueueId });
 
       await waitFor(() => {
-        expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${newQueueId}/customers`);
+        expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${newQueueId}/customers`, expect.anything());
       });
     });
 
@@ -258,6 +381,7 @@ describe("useStaffQueue", () => {
 
       expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${mockQueueId}/call-next`, {
         method: "POST",
+        headers: { "Idempotency-Key": expect.any(String) },
       });
     });
 
@@ -277,6 +401,7 @@ describe("useStaffQueue", () => {
 
       expect(mockFetch).toHaveBeenCalledWith(`/api/queues/${mockQueueId}/customers/c1/serve`, {
         method: "POST",
+        headers: { "Idempotency-Key": expect.any(String) },
       });
     });
 
@@ -310,5 +435,41 @@ describe("useStaffQueue", () => {
       // Customer should be back after revert
       expect(result.current.customers).toHaveLength(1);
     });
+
+    it("should keep an action pending while offline and replay it when back online", async () => {
+      const { result } = renderHook(() => useStaffQueue(mockQueueId));
+
+      await waitFor(() => {
+        expect(result.current.customers).toHaveLength(1);
+      });
+
+      // Network is down
+      mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+      await act(async () => {
+        const success = await result.current.markServed("c1");
+        expect(success).toBe(true);
+      });
+
+      // Customer stays on screen, marked pending
+      expect(result.current.customers).toHaveLength(1);
+      expect(result.current.error).toBeNull();
+      expect(result.current.pendingActions).toEqual([
+        expect.objectContaining({ type: "serve", customerId: "c1", customerName: "Alice" }),
+      ]);
+
+      await act(async () => {
+        window.dispatchEvent(new Event("online"));
+      });
+
+      await waitFor(() => {
+        expect(result.current.pendingActions).toHaveLength(0);
+      });
+
+      // Replayed with the same idempotency key
+      const serveCalls = mockFetch.mock.calls.filter(([url]) => url === `/api/queues/${mockQueueId}/customers/c1/serve`);
+      expect(serveCalls).toHaveLength(2);
+      expect(serveCalls[1][1].headers).toEqual(serveCalls[0][1].headers);
+    });
   });
 });
@@ -1,23 +1,34 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useSignalR } from "../../../shared/hooks/useSignalR";
-import { getApiErrorMessage, safeJsonParse } from "../../../shared/utils/api";
+import { staffRoom, type JoinAnswer } from "../../../shared/signalr/queueHubContract";
+import { safeJsonParse } from "../../../shared/utils/api";
+import { apiFetch } from "../../../shared/utils/apiClient";
+import { applyCustomerUpdate, countCustomers } from "../queueUpdates";
+import type { StaffAction, StaffActionType } from "../staffOutbox";
+import { useStaffOutbox } from "./useStaffOutbox";
 
 export interface Customer {
   id: string;
   name: string;
-  token: string;
   status: string;
   position: number | null;
   joinedAt: string;
   calledAt: string | null;
+  /** When a called customer said they're on their way */
+  onTheWayAt: string | null;
   partySize: number | null;
   notes: string | null;
+  phoneNumber: string | null;
+  /** Answers to the queue's own join questions */
+  joinAnswers: JoinAnswer[];
 }
 
 export interface QueueInfo {
   name: string;
   isActive: boolean;
   isPaused: boolean;
+  /** When the queue closes itself (ISO string), if scheduled */
+  autoCloseAt: string | null;
   waitingCount: number;
   calledCount: number;
 }
@@ -35,7 +46,9 @@ interface UseStaffQueueResult {
   connectionState: "connecting" | "connected" | "reconnecting" | "disconnected";
   /** Refresh data from server */
   refresh: () => Promise<void>;
-  /** Call the next waiting customer */
+  /** Actions on this queue that haven't reached the server yet */
+  pendingActions: StaffAction[];
+  /** Call the next waiting customer (false if the server rejected it; queued while offline) */
   callNext: () => Promise<boolean>;
   /** Mark a customer as served */
   markServed: (customerId: string) => Promise<boolean>;
@@ -53,30 +66,31 @@ export function useStaffQueue(queueId: string): UseStaffQueueResult {
   const [queueInfo, setQueueInfo] = useState<QueueInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-
-  const {
-    state: connectionState,
-    invoke,
-    on,
-  } = useSignalR({
-    hubUrl: "/hubs/queue",
-    autoConnect: true,
-  });
+  // Queue version of the data currently shown (null until the first fetch)
+  const versionRef = useRef<number | null>(null);
 
   // Fetch customers from API
   const fetchCustomers = useCallback(async () => {
     try {
-      const response = await fetch(`/api/queues/${queueId}/customers`);
+      const response = await apiFetch(`/api/queues/${queueId}/customers`);
       if (!response.ok) {
         if (response.status === 404) {
           throw new Error("Queue not found.");
         }
+        if (response.status === 403) {
+          throw new Error("You don't have access to this queue.");
+        }
         throw new Error("Failed to fetch queue data");
       }
-      const data = await safeJsonParse<{ customers: Customer[]; queueInfo: QueueInfo }>(response);
+      const data = await safeJsonParse<{ customers: Customer[]; queueInfo: QueueInfo; version: number }>(response);
       if (!data) {
         throw new Error("Invalid response from server");
       }
+      // A slower, older response must not overwrite a newer snapshot
+      if (versionRef.current !== null && data.version < versionRef.current) {
+        return;
+      }
+      versionRef.current = data.version;
       setCustomers(data.customers);
       setQueueInfo(data.queueInfo);
       setError(null);
@@ -87,48 +101,64 @@ export function useStaffQueue(queueId: string): UseStaffQueueResult {
     }
   }, [queueId]);
 
-  // Initial fetch
+  const { submit, flush, pendingActions: allPendingActions } = useStaffOutbox();
+
+  // Back online: replay actions taken meanwhile, then resync - updates sent while
+  // the connection was down are lost
+  const handleReconnected = useCallback(async () => {
+    await flush();
+    await fetchCustomers();
+  }, [flush, fetchCustomers]);
+
+  const {
+    state: connectionState,
+    on,
+    joinRoom,
+  } = useSignalR({
+    hubUrl: "/hubs/queue",
+    autoConnect: true,
+    onReconnected: handleReconnected,
+  });
+
+  // Initial fetch (versions are per queue, so start over when the queue changes)
   useEffect(() => {
+    versionRef.current = null;
     fetchCustomers();
   }, [fetchCustomers]);
 
-  // Track the current room we've joined for cleanup
-  const joinedRoomRef = useRef<string | null>(null);
-
-  // Join staff room when connected, leave when queueId changes or unmount
+  // Join the queue's staff room; the shared connection re-joins it after reconnects
   useEffect(() => {
-    if (connectionState === "connected" && queueId) {
-      // Leave previous room if we were in one
-      if (joinedRoomRef.current && joinedRoomRef.current !== queueId) {
-        invoke("LeaveStaffRoom", joinedRoomRef.current).catch(console.error);
-      }
-      // Join new room
-      invoke("JoinStaffRoom", queueId).catch(console.error);
-      joinedRoomRef.current = queueId;
-    }
-
-    // Cleanup: leave room on unmount or when dependencies change
-    return () => {
-      if (joinedRoomRef.current) {
-        invoke("LeaveStaffRoom", joinedRoomRef.current).catch(() => {
-          // Ignore errors during cleanup - connection may be closing
-        });
-        joinedRoomRef.current = null;
-      }
-    };
-  }, [connectionState, queueId, invoke]);
+    if (!queueId) return;
+    return joinRoom(staffRoom(queueId));
+  }, [queueId, joinRoom]);
 
   // Listen for real-time updates with debouncing to prevent rapid re-renders
   const updateTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
-    // Handler receives (queueId, updateType) from SignalR
-    const unsub = on<string>("QueueUpdated", (eventQueueId: string) => {
+    // Handler receives (queueId, updateType, version, customer) from SignalR
+    const unsub = on("QueueUpdated", (eventQueueId, _updateType, version, customer) => {
       // Only process updates for the current queue
       if (eventQueueId !== queueId) {
         return;
       }
 
+      const knownVersion = versionRef.current;
+
+      // Already reflected in the data we have (e.g. refetched after our own action)
+      if (knownVersion !== null && version <= knownVersion) {
+        return;
+      }
+
+      // Next update in sequence - patch the list in place
+      if (knownVersion !== null && version === knownVersion + 1 && customer) {
+        versionRef.current = version;
+        setCustomers((prev) => applyCustomerUpdate(prev, customer));
+        return;
+      }
+
+      // Missed an update, or there's nothing to patch with - fall back to a full fetch
+
       // Debounce rapid updates (e.g., multiple customers joining at once)
       if (updateTimeoutRef.current) {
         clearTimeout(updateTimeoutRef.current);
@@ -146,129 +176,60 @@ export function useStaffQueue(queueId: string): UseStaffQueueResult {
     };
   }, [on, fetchCustomers, queueId]);
 
-  // Call next waiting customer
-  const callNext = useCallback(async (): Promise<boolean> => {
-    try {
-      setError(null);
-      const response = await fetch(`/api/queues/${queueId}/call-next`, {
-        method: "POST",
-      });
-
-      if (!response.ok) {
-        const errorMessage = await getApiErrorMessage(response, "Failed to call next customer");
-        throw new Error(errorMessage);
-      }
-
-      // Refresh immediately (don't wait for SignalR in case it's disconnected)
-      await fetchCustomers();
-      return true;
-    } catch (err) {
-      console.error("callNext error:", err);
-      setError(err instanceof Error ? err.message : "Unknown error");
-      return false;
-    }
-  }, [queueId, fetchCustomers]);
-
-  // Optimistic update helper - removes customer from local state immediately
-  const optimisticRemove = useCallback((customerId: string) => {
-    setCustomers((prev) => prev.filter((c) => c.id !== customerId));
-    setQueueInfo((prev) => (prev ? { ...prev, waitingCount: Math.max(0, prev.waitingCount - 1) } : prev));
-  }, []);
-
-  // Mark customer as served
-  const markServed = useCallback(
-    async (customerId: string): Promise<boolean> => {
-      // Optimistic update - remove from UI immediately
-      optimisticRemove(customerId);
-
-      try {
-        setError(null);
-        const response = await fetch(`/api/queues/${queueId}/customers/${customerId}/serve`, {
-          method: "POST",
-        });
+  // Counts follow the customer list, which is patched between fetches
+  const currentQueueInfo = useMemo(
+    () => (queueInfo ? { ...queueInfo, ...countCustomers(customers) } : null),
+    [queueInfo, customers],
+  );
 
-        if (!response.ok) {
-          const errorMessage = await getApiErrorMessage(response, "Failed to mark as served");
-          throw new Error(errorMessage);
-        }
+  // Send an action through the outbox - while offline it is queued and replayed later
+  // instead of failing, so the customer stays on screen marked as pending
+  const runAction = useCallback(
+    async (type: StaffActionType, customerId: string | null): Promise<boolean> => {
+      setError(null);
+      const customerName = customers.find((c) => c.id === customerId)?.name ?? null;
+      const result = await submit({ queueId, type, customerId, customerName });
 
-        return true;
-      } catch (err) {
-        console.error("markServed error:", err);
-        setError(err instanceof Error ? err.message : "Unknown error");
-        // Revert on error
+      if (result.status === "rejected") {
+        console.error(`${type} error:`, result.error);
+        setError(result.error);
+        // Show what actually happened (e.g. another device already handled the customer)
         await fetchCustomers();
         return false;
       }
-    },
-    [queueId, fetchCustomers, optimisticRemove],
-  );
-
-  // Mark customer as no-show
-  const markNoShow = useCallback(
-    async (customerId: string): Promise<boolean> => {
-      // Optimistic update - remove from UI immediately
-      optimisticRemove(customerId);
-
-      try {
-        setError(null);
-        const response = await fetch(`/api/queues/${queueId}/customers/${customerId}/no-show`, {
-          method: "POST",
-        });
 
-        if (!response.ok) {
-          const errorMessage = await getApiErrorMessage(response, "Failed to mark as no-show");
-          throw new Error(errorMessage);
+      if (result.status === "sent") {
+        if (customerId) {
+          setCustomers((prev) => prev.filter((c) => c.id !== customerId));
+        } else {
+          // Refresh immediately (don't wait for SignalR in case it's disconnected)
+          await fetchCustomers();
         }
-
-        return true;
-      } catch (err) {
-        console.error("markNoShow error:", err);
-        setError(err instanceof Error ? err.message : "Unknown error");
-        // Revert on error
-        await fetchCustomers();
-        return false;
       }
+
+      return true;
     },
-    [queueId, fetchCustomers, optimisticRemove],
+    [queueId, customers, submit, fetchCustomers],
   );
 
-  // Remove customer from queue
-  const removeCustomer = useCallback(
-    async (customerId: string): Promise<boolean> => {
-      // Optimistic update - remove from UI immediately
-      optimisticRemove(customerId);
-
-      try {
-        setError(null);
-        const response = await fetch(`/api/queues/${queueId}/customers/${customerId}`, {
-          method: "DELETE",
-        });
-
-        if (!response.ok) {
-          const errorMessage = await getApiErrorMessage(response, "Failed to remove customer");
-          throw new Error(errorMessage);
-        }
+  const callNext = useCallback(() => runAction("call-next", null), [runAction]);
+  const markServed = useCallback((customerId: string) => runAction("serve", customerId), [runAction]);
+  const markNoShow = useCallback((customerId: string) => runAction("no-show", customerId), [runAction]);
+  const removeCustomer = useCallback((customerId: string) => runAction("remove", customerId), [runAction]);
 
-        return true;
-      } catch (err) {
-        console.error("removeCustomer error:", err);
-        setError(err instanceof Error ? err.message : "Unknown error");
-        // Revert on error
-        await fetchCustomers();
-        return false;
-      }
-    },
-    [queueId, fetchCustomers, optimisticRemove],
+  const pendingActions = useMemo(
+    () => allPendingActions.filter((a) => a.queueId === queueId),
+    [allPendingActions, queueId],
   );
 
   return {
     customers,
-    queueInfo,
+    queueInfo: currentQueueInfo,
     isLoading,
     error,
     connectionState,
     refresh: fetchCustomers,
+    pendingActions,
     callNext,
     markServed,
     markNoShow,
@@ -0,0 +1,89 @@
+import { renderHook, act } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { useUndoAction, UNDO_TIMEOUT_MS, type UndoableAction } from "./useUndoAction";
+import { staffOutbox } from "../staffOutbox";
+
+// Mock fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const servedAlice: UndoableAction = {
+  type: "serve",
+  queueId: "queue-1",
+  customerId: "c1",
+  customerName: "Alice",
+  outboxId: null,
+};
+
+describe("useUndoAction", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch.mockResolvedValue({ ok: true, status: 204 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should withdraw the offer after the timeout", () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => useUndoAction());
+
+    act(() => result.current.offerUndo(servedAlice));
+    expect(result.current.undoable).toEqual(servedAlice);
+
+    act(() => vi.advanceTimersByTime(UNDO_TIMEOUT_MS));
+    expect(result.current.undoable).toBeNull();
+  });
+
+  it("should revert an applied action on the server", async () => {
+    const onUndone = vi.fn();
+    const { result } = renderHook(() => useUndoAction({ onUndone }));
+
+    act(() => result.current.offerUndo(servedAlice));
+    await act(async () => {
+      await result.current.undo();
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith("/api/queues/queue-1/customers/c1/undo", expect.objectContaining({ method: "POST" }));
+    expect(onUndone).toHaveBeenCalledWith(servedAlice);
+    expect(result.current.undoable).toBeNull();
+  });
+
+  it("should keep the offer and show why when the undo is refused", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      text: () => Promise.resolve(JSON.stringify({ detail: "The change is too old to undo." })),
+    });
+    const { result } = renderHook(() => useUndoAction());
+
+    act(() => result.current.offerUndo(servedAlice));
+    await act(async () => {
+      await result.current.undo();
+    });
+
+    expect(result.current.error).toBe("The change is too old to undo.");
+    expect(result.current.undoable).toEqual(servedAlice);
+  });
+
+  it("should drop an action still waiting in the outbox instead of calling the server", async () => {
+    // Queue the action while offline
+    mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    const submitted = await staffOutbox.submit({ queueId: "queue-1", type: "serve", customerId: "c1", customerName: "Alice" });
+    if (submitted.status !== "queued") throw new Error("expected the action to be queued");
+
+    const onUndone = vi.fn();
+    const { result } = renderHook(() => useUndoAction({ onUndone }));
+    mockFetch.mockClear();
+
+    act(() => result.current.offerUndo({ ...servedAlice, outboxId: submitted.id }));
+    await act(async () => {
+      await result.current.undo();
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(staffOutbox.snapshot).toEqual([]);
+    expect(onUndone).toHaveBeenCalled();
+  });
+});
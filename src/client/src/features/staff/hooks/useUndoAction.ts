@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from "react";
+import { getApiErrorMessage } from "../../../shared/utils/api";
+import { apiFetch } from "../../../shared/utils/apiClient";
+import { staffOutbox } from "../staffOutbox";
+
+/** How long the undo prompt stays up. The server accepts undos for a while longer. */
+export const UNDO_TIMEOUT_MS = 10000;
+
+export interface UndoableAction {
+  type: "serve" | "no-show" | "remove";
+  queueId: string;
+  customerId: string;
+  customerName: string;
+  /** Outbox id if the action was queued offline - it may not have reached the server yet */
+  outboxId: string | null;
+}
+
+interface UseUndoActionOptions {
+  /** Called once an action has been undone, to refresh the affected queue */
+  onUndone?: (action: UndoableAction) => void;
+}
+
+interface UseUndoActionResult {
+  /** The most recent action that can still be undone */
+  undoable: UndoableAction | null;
+  /** Whether an undo request is in flight */
+  isUndoing: boolean;
+  /** Why the last undo failed */
+  error: string | null;
+  /** Offer to undo an action - replaces any earlier offer */
+  offerUndo: (action: UndoableAction) => void;
+  /** Undo the offered action */
+  undo: () => Promise<void>;
+  /** Close the prompt without undoing */
+  dismiss: () => void;
+}
+
+/**
+ * Hook for the time-limited undo after serving, no-showing or removing a customer.
+ * An action still waiting in the outbox is simply dropped; one the server has applied
+ * is reverted through the undo endpoint.
+ */
+export function useUndoAction({ onUndone }: UseUndoActionOptions = {}): UseUndoActionResult {
+  const [undoable, setUndoable] = useState<UndoableAction | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Expire the offer (restarts for each new action)
+  useEffect(() => {
+    if (!undoable || isUndoing) return;
+
+    const timer = setTimeout(() => setUndoable(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [undoable, isUndoing]);
+
+  const offerUndo = useCallback((action: UndoableAction) => {
+    setError(null);
+    setUndoable(action);
+  }, []);
+
+  const dismiss = useCallback(() => {
+    setError(null);
+    setUndoable(null);
+  }, []);
+
+  const undo = useCallback(async () => {
+    if (!undoable) return;
+
+    setIsUndoing(true);
+    setError(null);
+
+    try {
+      // Never reached the server - dropping it from the outbox is the whole undo
+      const cancelled = undoable.outboxId !== null && (await staffOutbox.cancel(undoable.outboxId));
+
+      if (!cancelled) {
+        const response = await apiFetch(`/api/queues/${undoable.queueId}/customers/${undoable.customerId}/undo`, {
+          method: "POST",
+        });
+
+        if (!response.ok) {
+          setError(await getApiErrorMessage(response, "Failed to undo"));
+          return;
+        }
+      }
+
+      setUndoable(null);
+      onUndone?.(undoable);
+    } catch (err) {
+      console.error("undo error:", err);
+      setError("Couldn't reach the server to undo. Check your connection.");
+    } finally {
+      setIsUndoing(false);
+    }
+  }, [undoable, onUndone]);
+
+  return { undoable, isUndoing, error, offerUndo, undo, dismiss };
+}
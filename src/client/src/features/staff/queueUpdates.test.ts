@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { applyCustomerUpdate, countCustomers } from "./queueUpdates";
+import type { Customer } from "./hooks/useStaffQueue";
+
+function customer(id: string, overrides: Partial<Customer> = {}): Customer {
+  return {
+    id,
+    name: id,
+    status: "Waiting",
+    position: null,
+    joinedAt: "2024-01-01T10:00:00Z",
+    calledAt: null,
+    onTheWayAt: null,
+    partySize: null,
+    notes: null,
+    phoneNumber: null,
+    joinAnswers: [],
+    ...overrides,
+  };
+}
+
+describe("applyCustomerUpdate", () => {
+  const queue = [
+    customer("called", { status: "Called", calledAt: "2024-01-01T10:05:00Z" }),
+    customer("a", { position: 1 }),
+    customer("b", { position: 2 }),
+  ];
+
+  it("should append a joined customer at their position", () => {
+    const result = applyCustomerUpdate(queue, customer("c", { position: 3 }));
+
+    expect(result.map((c) => [c.id, c.position])).toEqual([
+      ["called", null],
+      ["a", 1],
+      ["b", 2],
+      ["c", 3],
+    ]);
+  });
+
+  it("should move a called customer out of the waiting list and renumber the rest", () => {
+    const result = applyCustomerUpdate(queue, customer("a", { status: "Called", calledAt: "2024-01-01T10:10:00Z" }));
+
+    expect(result.map((c) => [c.id, c.status, c.position])).toEqual([
+      ["called", "Called", null],
+      ["a", "Called", null],
+      ["b", "Waiting", 1],
+    ]);
+  });
+
+  it("should drop customers who left the queue", () => {
+    const served = applyCustomerUpdate(queue, customer("called", { status: "Served" }));
+    const removed = applyCustomerUpdate(queue, customer("a", { status: "Removed" }));
+
+    expect(served.map((c) => c.id)).toEqual(["a", "b"]);
+    expect(removed.map((c) => [c.id, c.position])).toEqual([
+      ["called", null],
+      ["b", 1],
+    ]);
+  });
+
+  it("should not modify the original list", () => {
+    applyCustomerUpdate(queue, customer("a", { status: "Removed" }));
+
+    expect(queue.map((c) => c.id)).toEqual(["called", "a", "b"]);
+    expect(queue[2].position).toBe(2);
+  });
+});
+
+describe("countCustomers", () => {
+  it("should count waiting and called customers", () => {
+    const counts = countCustomers([
+      customer("a", { status: "Called" }),
+      customer("b"),
+      customer("c"),
+    ]);
+
+    expect(counts).toEqual({ waitingCount: 2, calledCount: 1 });
+  });
+});
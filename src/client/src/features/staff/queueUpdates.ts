@@ -0,0 +1,36 @@
+import type { Customer, QueueInfo } from "./hooks/useStaffQueue";
+
+const byPosition = (a: Customer, b: Customer) => (a.position ?? 0) - (b.position ?? 0);
+const byCalledAt = (a: Customer, b: Customer) =>
+  new Date(a.calledAt ?? 0).getTime() - new Date(b.calledAt ?? 0).getTime();
+
+/**
+ * Applies a customer update pushed with QueueUpdated to one queue's customer list.
+ * Keeps the order GetQueueCustomers returns - called customers first (oldest call first),
+ * then waiting customers by position - and renumbers waiting positions, since calling or
+ * removing someone moves everyone behind them up.
+ */
+export function applyCustomerUpdate<T extends Customer>(customers: T[], update: T): T[] {
+  const others = customers.filter((c) => c.id !== update.id);
+  const called = others.filter((c) => c.status === "Called");
+  const waiting = others.filter((c) => c.status === "Waiting").sort(byPosition);
+
+  if (update.status === "Called") {
+    called.push(update);
+  } else if (update.status === "Waiting") {
+    const index = update.position !== null ? Math.min(update.position - 1, waiting.length) : waiting.length;
+    waiting.splice(Math.max(0, index), 0, update);
+  }
+  // Any other status (served, no-show, removed) drops the customer from the list
+
+  called.sort(byCalledAt);
+  return [...called, ...waiting.map((c, index) => (c.position === index + 1 ? c : { ...c, position: index + 1 }))];
+}
+
+/** Waiting and called counts for a customer list, as reported in QueueInfo. */
+export function countCustomers(customers: Customer[]): Pick<QueueInfo, "waitingCount" | "calledCount"> {
+  return {
+    waitingCount: customers.filter((c) => c.status === "Waiting").length,
+    calledCount: customers.filter((c) => c.status === "Called").length,
+  };
+}
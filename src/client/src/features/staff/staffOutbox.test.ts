@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { setActingMember } from "../../shared/utils/apiClient";
+import { StaffOutbox, createMemoryStorage, type OutboxStorage, type StaffActionInput } from "./staffOutbox";
+
+const serveAlice: StaffActionInput = { queueId: "q1", type: "serve", customerId: "c1", customerName: "Alice" };
+const removeBob: StaffActionInput = { queueId: "q1", type: "remove", customerId: "c2", customerName: "Bob" };
+
+const ok = () => ({ ok: true, status: 204 }) as Response;
+const rejected = (status: number, detail: string) =>
+  ({ ok: false, status, text: () => Promise.resolve(JSON.stringify({ detail })) }) as Response;
+const offline = () => Promise.reject(new TypeError("Failed to fetch"));
+
+describe("StaffOutbox", () => {
+  let storage: OutboxStorage;
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = createMemoryStorage();
+    mockFetch.mockResolvedValue(ok());
+  });
+
+  it("should send an action straight away when online", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+
+    const result = await outbox.submit(serveAlice);
+
+    expect(result.status).toBe("sent");
+    expect(mockFetch).toHaveBeenCalledWith("/api/queues/q1/customers/c1/serve", {
+      method: "POST",
+      headers: { "Idempotency-Key": expect.any(String) },
+      actingMember: null,
+    });
+    expect(outbox.snapshot).toEqual([]);
+    expect(await storage.getAll()).toEqual([]);
+  });
+
+  it("should queue actions while offline and replay them in order with the same keys", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+    mockFetch.mockImplementation(offline);
+
+    expect(await outbox.submit(serveAlice)).toEqual({ status: "queued", id: expect.any(String) });
+    expect(await outbox.submit(removeBob)).toEqual({ status: "queued", id: expect.any(String) });
+    expect(outbox.snapshot.map((a) => a.status)).toEqual(["pending", "pending"]);
+    expect(await storage.getAll()).toHaveLength(2);
+
+    const keys = outbox.snapshot.map((a) => a.id);
+    mockFetch.mockClear();
+    mockFetch.mockResolvedValue(ok());
+
+    await outbox.flush();
+
+    expect(mockFetch.mock.calls).toEqual([
+      ["/api/queues/q1/customers/c1/serve", { method: "POST", headers: { "Idempotency-Key": keys[0] }, actingMember: null }],
+      ["/api/queues/q1/customers/c2", { method: "DELETE", headers: { "Idempotency-Key": keys[1] }, actingMember: null }],
+    ]);
+    expect(outbox.snapshot).toEqual([]);
+  });
+
+  it("should replay an action as the member the device was unlocked as when it was taken", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+    mockFetch.mockImplementation(offline);
+    setActingMember("sam-token");
+    await outbox.submit(serveAlice);
+
+    // Someone else unlocks before the connection comes back
+    setActingMember("jo-token");
+    mockFetch.mockClear();
+    mockFetch.mockResolvedValue(ok());
+    await outbox.flush();
+    setActingMember(null);
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "/api/queues/q1/customers/c1/serve",
+      expect.objectContaining({ actingMember: "sam-token" }),
+    );
+  });
+
+  it("should hold later actions behind one that is still waiting", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+    mockFetch.mockImplementationOnce(offline);
+    await outbox.submit(serveAlice);
+
+    // Network is back, but the earlier action goes first
+    mockFetch.mockClear();
+    const result = await outbox.submit(removeBob);
+
+    expect(result.status).toBe("sent");
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      "/api/queues/q1/customers/c1/serve",
+      "/api/queues/q1/customers/c2",
+    ]);
+  });
+
+  it("should report a rejected action to the caller without keeping it", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+    mockFetch.mockResolvedValue(rejected(400, "Customer is not in called status."));
+
+    const result = await outbox.submit(serveAlice);
+
+    expect(result).toEqual({ status: "rejected", error: "Customer is not in called status." });
+    expect(outbox.snapshot).toEqual([]);
+  });
+
+  it("should keep a replay the server rejects as a conflict until dismissed", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+    mockFetch.mockImplementation(offline);
+    await outbox.submit(serveAlice);
+
+    // Another device served Alice meanwhile
+    mockFetch.mockResolvedValue(rejected(400, "Customer is not in called status."));
+    await outbox.flush();
+
+    const [conflict] = outbox.snapshot;
+    expect(conflict).toMatchObject({ status: "conflict", customerName: "Alice", error: "Customer is not in called status." });
+    expect(await storage.getAll()).toEqual([conflict]);
+
+    await outbox.dismiss(conflict.id);
+
+    expect(outbox.snapshot).toEqual([]);
+    expect(await storage.getAll()).toEqual([]);
+  });
+
+  it("should retry a replay that failed on the server's side", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+    mockFetch.mockImplementation(offline);
+    await outbox.submit(serveAlice);
+
+    mockFetch.mockResolvedValue(rejected(503, "Service unavailable"));
+    await outbox.flush();
+
+    expect(outbox.snapshot.map((a) => a.status)).toEqual(["pending"]);
+  });
+
+  it("should keep a replay until the user signs back in", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+    mockFetch.mockImplementation(offline);
+    await outbox.submit(serveAlice);
+
+    mockFetch.mockResolvedValue(rejected(401, "Unauthorized"));
+    await outbox.flush();
+
+    expect(outbox.snapshot.map((a) => a.status)).toEqual(["pending"]);
+  });
+
+  it("should cancel a pending action so it is never sent", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+    mockFetch.mockImplementation(offline);
+    const result = await outbox.submit(serveAlice);
+    if (result.status !== "queued") throw new Error("expected the action to be queued");
+
+    expect(await outbox.cancel(result.id)).toBe(true);
+
+    mockFetch.mockClear();
+    await outbox.flush();
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(await storage.getAll()).toEqual([]);
+  });
+
+  it("should not cancel an action that was already sent", async () => {
+    const outbox = new StaffOutbox(storage, mockFetch);
+    mockFetch.mockImplementation(offline);
+    const result = await outbox.submit(serveAlice);
+    if (result.status !== "queued") throw new Error("expected the action to be queued");
+
+    mockFetch.mockResolvedValue(ok());
+    await outbox.flush();
+
+    expect(await outbox.cancel(result.id)).toBe(false);
+  });
+
+  it("should restore queued actions after a reload", async () => {
+    mockFetch.mockImplementation(offline);
+    await new StaffOutbox(storage, mockFetch).submit(serveAlice);
+
+    const reloaded = new StaffOutbox(storage, mockFetch);
+    const listener = vi.fn();
+    reloaded.subscribe(listener);
+    await reloaded.load();
+
+    expect(reloaded.snapshot).toEqual([expect.objectContaining({ type: "serve", customerId: "c1", status: "pending" })]);
+    expect(listener).toHaveBeenCalledWith(reloaded.snapshot);
+  });
+});
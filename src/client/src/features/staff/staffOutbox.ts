@@ -0,0 +1,286 @@
+import { getApiErrorMessage } from "../../shared/utils/api";
+import { apiFetch, getActingMember, type ApiRequestInit } from "../../shared/utils/apiClient";
+
+export type StaffActionType = "call-next" | "serve" | "no-show" | "remove";
+
+export interface StaffAction {
+  /** Also sent as the Idempotency-Key header, so a replay is applied at most once */
+  id: string;
+  queueId: string;
+  type: StaffActionType;
+  customerId: string | null;
+  /** Shown when the action is reported as a conflict */
+  customerName: string | null;
+  createdAt: number;
+  /** Waiting to reach the server, or rejected by it on replay */
+  status: "pending" | "conflict";
+  /** Why the server rejected the action */
+  error: string | null;
+  /** Who the device was unlocked as when the action was taken, so a replay is credited to them */
+  actingMember?: string | null;
+}
+
+export type StaffActionInput = Pick<StaffAction, "queueId" | "type" | "customerId" | "customerName">;
+
+export type SubmitResult =
+  | { status: "sent"; response: Response }
+  | { status: "queued"; id: string }
+  | { status: "rejected"; error: string };
+
+/** Where queued actions are kept between page loads */
+export interface OutboxStorage {
+  getAll(): Promise<StaffAction[]>;
+  put(action: StaffAction): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const DB_NAME = "queuedrop-staff";
+const STORE_NAME = "outbox";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDbStorage(): OutboxStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+  };
+
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    getAll: async () => promisify<StaffAction[]>((await store("readonly")).getAll()),
+    put: async (action) => {
+      await promisify((await store("readwrite")).put(action));
+    },
+    delete: async (id) => {
+      await promisify((await store("readwrite")).delete(id));
+    },
+  };
+}
+
+/** Keeps actions for this page load only - used where IndexedDB isn't available (SSR, tests) */
+export function createMemoryStorage(): OutboxStorage {
+  const actions = new Map<string, StaffAction>();
+
+  return {
+    getAll: async () => [...actions.values()],
+    put: async (action) => {
+      actions.set(action.id, action);
+    },
+    delete: async (id) => {
+      actions.delete(id);
+    },
+  };
+}
+
+function createOutboxStorage(): OutboxStorage {
+  return typeof indexedDB === "undefined" ? createMemoryStorage() : createIndexedDbStorage();
+}
+
+function toRequest(action: StaffAction): { url: string; method: string } {
+  const customerUrl = `/api/queues/${action.queueId}/customers/${action.customerId}`;
+
+  switch (action.type) {
+    case "call-next":
+      return { url: `/api/queues/${action.queueId}/call-next`, method: "POST" };
+    case "serve":
+      return { url: `${customerUrl}/serve`, method: "POST" };
+    case "no-show":
+      return { url: `${customerUrl}/no-show`, method: "POST" };
+    case "remove":
+      return { url: customerUrl, method: "DELETE" };
+  }
+}
+
+const FALLBACK_ERRORS: Record<StaffActionType, string> = {
+  "call-next": "Failed to call next customer",
+  serve: "Failed to mark as served",
+  "no-show": "Failed to mark as no-show",
+  remove: "Failed to remove customer",
+};
+
+type OutboxListener = (actions: StaffAction[]) => void;
+
+/**
+ * Persistent queue of staff actions.
+ * Actions are sent in the order they were taken. When the network is down they stay
+ * queued (and survive a reload) until flush() runs again - on the browser's online
+ * event or a hub reconnect. A replay the server rejects, e.g. because the customer
+ * was already handled on another device, is kept as a conflict until dismissed.
+ */
+export class StaffOutbox {
+  private actions: StaffAction[] = [];
+  private readonly listeners = new Set<OutboxListener>();
+  // Outcomes for actions a submit() call is waiting on
+  private readonly results = new Map<string, SubmitResult | null>();
+  private loaded: Promise<void> | null = null;
+  // Action whose request is on the wire - too late to cancel
+  private sendingId: string | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly storage: OutboxStorage = createOutboxStorage(),
+    // Resolve fetch at call time so it can be swapped out (e.g. mocked in tests)
+    private readonly fetchImpl: (url: string, init: ApiRequestInit) => Promise<Response> = (url, init) =>
+      apiFetch(url, init),
+  ) {}
+
+  get snapshot(): StaffAction[] {
+    return this.actions;
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Restore actions left over from a previous page load */
+  load(): Promise<void> {
+    this.loaded ??= this.storage
+      .getAll()
+      .then((stored) => {
+        const known = new Set(this.actions.map((a) => a.id));
+        const restored = stored.filter((a) => !known.has(a.id));
+        this.setActions([...restored, ...this.actions].sort((a, b) => a.createdAt - b.createdAt));
+      })
+      .catch((err) => console.error("Failed to load staff outbox:", err));
+    return this.loaded;
+  }
+
+  /**
+   * Record an action and try to send it (after anything queued before it).
+   * "queued" means the network is down - the action is kept and replayed later.
+   */
+  async submit(input: StaffActionInput): Promise<SubmitResult> {
+    await this.load();
+
+    const action: StaffAction = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      status: "pending",
+      error: null,
+      actingMember: getActingMember(),
+    };
+
+    this.results.set(action.id, null);
+    this.setActions([...this.actions, action]);
+    await this.persist(() => this.storage.put(action));
+    await this.flush();
+
+    const result = this.results.get(action.id);
+    this.results.delete(action.id);
+    return result ?? { status: "queued", id: action.id };
+  }
+
+  /** Send pending actions in order, stopping at the first one the network can't deliver */
+  flush(): Promise<void> {
+    // Runs one at a time, each after the last, so actions added mid-flush are never skipped
+    this.flushing = this.flushing.then(() => this.sendPending());
+    return this.flushing;
+  }
+
+  /** Forget a reported conflict */
+  dismiss(id: string): Promise<void> {
+    return this.remove(id);
+  }
+
+  /**
+   * Drop a pending action before it is sent.
+   * Returns false if it was already sent (or is being sent) - undo it on the server instead.
+   */
+  async cancel(id: string): Promise<boolean> {
+    const action = this.actions.find((a) => a.id === id);
+    if (!action || action.status !== "pending" || this.sendingId === id) return false;
+
+    await this.remove(id);
+    return true;
+  }
+
+  private async sendPending(): Promise<void> {
+    await this.load();
+
+    let next: StaffAction | undefined;
+    while ((next = this.actions.find((a) => a.status === "pending"))) {
+      const action = next;
+      const { url, method } = toRequest(action);
+
+      let response: Response;
+      this.sendingId = action.id;
+      try {
+        response = await this.fetchImpl(url, {
+          method,
+          headers: { "Idempotency-Key": action.id },
+          actingMember: action.actingMember ?? null,
+        });
+      } catch {
+        // Still offline - keep this and everything after it for the next flush
+        return;
+      } finally {
+        this.sendingId = null;
+      }
+
+      const isAwaited = this.results.has(action.id);
+
+      if (response.ok) {
+        if (isAwaited) this.results.set(action.id, { status: "sent", response });
+        await this.remove(action.id);
+        continue;
+      }
+
+      // Signed out, server trouble or a concurrent write rather than a verdict on the action - retry on the next flush
+      if (!isAwaited && (response.status === 401 || response.status === 409 || response.status >= 500)) {
+        return;
+      }
+
+      const error = await getApiErrorMessage(response, FALLBACK_ERRORS[action.type]);
+
+      // The submitting caller reports its own rejection - only replays become conflicts
+      if (isAwaited) {
+        this.results.set(action.id, { status: "rejected", error });
+        await this.remove(action.id);
+        continue;
+      }
+
+      const conflict: StaffAction = { ...action, status: "conflict", error };
+      this.setActions(this.actions.map((a) => (a.id === action.id ? conflict : a)));
+      await this.persist(() => this.storage.put(conflict));
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.setActions(this.actions.filter((a) => a.id !== id));
+    await this.persist(() => this.storage.delete(id));
+  }
+
+  // Storage failures (private browsing, quota) only cost persistence across reloads
+  private async persist(write: () => Promise<void>): Promise<void> {
+    try {
+      await write();
+    } catch (err) {
+      console.error("Failed to persist staff outbox:", err);
+    }
+  }
+
+  private setActions(actions: StaffAction[]): void {
+    this.actions = actions;
+    this.listeners.forEach((listener) => listener(actions));
+  }
+}
+
+/** Outbox shared by every staff view in the page */
+export const staffOutbox = new StaffOutbox();
@@ -0,0 +1,86 @@
+import { useCallback, useContext, useEffect, useState } from "react";
+import { HubConnectionContext } from "../signalr/hubConnectionContext";
+import {
+  defaultHubConnectionManager,
+  type ConnectionDiagnostics,
+  type ConnectionState,
+  type SharedHubConnection,
+} from "../signalr/hubConnectionManager";
+import type { HubMemberName, QueueHubMethods } from "../signalr/queueHubContract";
+
+interface UseConnectionDiagnosticsOptions {
+  /** URL of the SignalR hub */
+  hubUrl: string;
+  /** Hub method to time for latency */
+  pingMethod?: HubMemberName<QueueHubMethods>;
+  /** How often to measure latency while connected */
+  pingIntervalMs?: number;
+}
+
+interface UseConnectionDiagnosticsResult {
+  state: ConnectionState;
+  diagnostics: ConnectionDiagnostics;
+  /** Measure latency now */
+  measureLatency: () => Promise<void>;
+}
+
+const DEFAULT_PING_INTERVAL = 15000; // 15 seconds
+
+/**
+ * Hook for watching the shared hub connection's transport, latency and reconnects.
+ * Does not start the connection - it reports on the one other hooks use.
+ */
+export function useConnectionDiagnostics({
+  hubUrl,
+  pingMethod = "Ping",
+  pingIntervalMs = DEFAULT_PING_INTERVAL,
+}: UseConnectionDiagnosticsOptions): UseConnectionDiagnosticsResult {
+  const manager = useContext(HubConnectionContext) ?? defaultHubConnectionManager;
+  const [shared, setShared] = useState<SharedHubConnection | null>(null);
+  const [state, setState] = useState<ConnectionState>("disconnected");
+  const [diagnostics, setDiagnostics] = useState<ConnectionDiagnostics>({
+    transport: null,
+    skippedTransports: [],
+    latencyMs: null,
+    reconnectCount: 0,
+    lastEventAt: null,
+  });
+
+  useEffect(() => {
+    const connection = manager.acquire(hubUrl);
+    setShared(connection);
+    setState(connection.state);
+    setDiagnostics(connection.diagnostics);
+
+    const unsubscribeState = connection.subscribe(setState);
+    const unsubscribeDiagnostics = connection.subscribeDiagnostics(setDiagnostics);
+
+    return () => {
+      unsubscribeState();
+      unsubscribeDiagnostics();
+      connection.release();
+    };
+  }, [manager, hubUrl]);
+
+  const measureLatency = useCallback(async () => {
+    if (!shared) return;
+
+    try {
+      await shared.measureLatency(pingMethod);
+    } catch (err) {
+      // Connection dropped mid-ping - the state change already tells the story
+      console.warn("SignalR ping failed:", err);
+    }
+  }, [shared, pingMethod]);
+
+  // Measure latency on connect, then periodically
+  useEffect(() => {
+    if (state !== "connected") return;
+
+    measureLatency();
+    const interval = setInterval(measureLatency, pingIntervalMs);
+    return () => clearInterval(interval);
+  }, [state, measureLatency, pingIntervalMs]);
+
+  return { state, diagnostics, measureLatency };
+}
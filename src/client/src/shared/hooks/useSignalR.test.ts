@@ -51,19 +51,32 @@ vi.mock("@microsoft/signalr", async () => {
       Connected: 2,
       Reconnecting: 3,
     },
+    HttpTransportType: {
+      WebSockets: 1,
+      ServerSentEvents: 2,
+      LongPolling: 4,
+    },
     LogLevel: {
       Warning: 2,
     },
   };
 });
 
+/** Options the connection passes to withUrl for a transport */
+const urlOptions = (transport: number) => ({ transport, accessTokenFactory: expect.any(Function) });
+
 describe("useSignalR", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.useFakeTimers();
     mockConnectionState = 0; // Disconnected
-    mockStart.mockResolvedValue(undefined);
-    mockStop.mockResolvedValue(undefined);
+    // Starting/stopping moves the underlying connection between states like the real client
+    mockStart.mockImplementation(async () => {
+      mockConnectionState = 2;
+    });
+    mockStop.mockImplementation(async () => {
+      mockConnectionState = 0;
+    });
   });
 
   afterEach(() => {
@@ -94,7 +107,6 @@ describe("useSignalR", () => {
 
       // Connect
       await act(async () => {
-        mockConnectionState = 2;
         await result.current.connect();
       });
 
@@ -108,15 +120,15 @@ describe("useSignalR", () => {
       );
 
       await act(async () => {
-        mockConnectionState = 2;
         await result.current.connect();
       });
 
-      expect(mockWithUrl).toHaveBeenCalledWith("/hubs/queue");
+      expect(mockWithUrl).toHaveBeenCalledWith("/hubs/queue", urlOptions(1)); // WebSockets first
     });
 
     it("should handle connection errors gracefully", async () => {
-      mockStart.mockRejectedValueOnce(new Error("Connection failed"));
+      // Fails on every transport - server unreachable
+      mockStart.mockRejectedValue(new Error("Connection failed"));
 
       const { result } = renderHook(() =>
         useSignalR({ hubUrl: "/hubs/queue", autoConnect: false })
@@ -140,19 +152,59 @@ describe("useSignalR", () => {
 
       // First connect
       await act(async () => {
-        mockConnectionState = 2;
         await result.current.connect();
       });
 
       // Then disconnect
       await act(async () => {
-        mockConnectionState = 0;
         await result.current.disconnect();
       });
 
       expect(mockStop).toHaveBeenCalled();
       expect(result.current.state).toBe("disconnected");
     });
+
+    it("should call onReconnected only when the connection comes back after being lost", async () => {
+      const onReconnected = vi.fn();
+      const { result } = renderHook(() =>
+        useSignalR({ hubUrl: "/hubs/queue", autoConnect: false, onReconnected })
+      );
+
+      await act(async () => {
+        await result.current.connect();
+      });
+      expect(onReconnected).not.toHaveBeenCalled();
+
+      await act(async () => {
+        await result.current.disconnect();
+        await result.current.connect();
+      });
+      expect(onReconnected).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("shared connection", () => {
+    it("should open a single connection for hooks on the same hub URL", async () => {
+      const first = renderHook(() => useSignalR({ hubUrl: "/hubs/queue", autoConnect: false }));
+      const second = renderHook(() => useSignalR({ hubUrl: "/hubs/queue", autoConnect: false }));
+
+      await act(async () => {
+        await first.result.current.connect();
+        await second.result.current.connect();
+      });
+
+      expect(mockWithUrl).toHaveBeenCalledTimes(1);
+      expect(mockStart).toHaveBeenCalledTimes(1);
+      expect(first.result.current.state).toBe("connected");
+      expect(second.result.current.state).toBe("connected");
+
+      // Connection stays open while another hook still uses it
+      first.unmount();
+      expect(mockStop).not.toHaveBeenCalled();
+
+      second.unmount();
+      expect(mockStop).toHaveBeenCalled();
+    });
   });
 
   describe("auto-connect behavior", () => {
@@ -168,13 +220,12 @@ describe("useSignalR", () => {
 
       // Wait for the auto-connect timeout (100ms) + async import
       await act(async () => {
-        mockConnectionState = 2;
         await new Promise((resolve) => setTimeout(resolve, 250));
       });
 
       // Verify auto-connect was triggered by checking state change to "connecting"
       expect(onStateChange).toHaveBeenCalledWith("connecting");
-      expect(mockWithUrl).toHaveBeenCalledWith("/hubs/queue");
+      expect(mockWithUrl).toHaveBeenCalledWith("/hubs/queue", urlOptions(1)); // WebSockets first
 
       // Restore fake timers for other tests
       vi.useFakeTimers();
@@ -191,17 +242,16 @@ describe("useSignalR", () => {
 
       // Connect first
       await act(async () => {
-        mockConnectionState = 2;
         await result.current.connect();
       });
 
       // Then invoke
       await act(async () => {
-        const response = await result.current.invoke("JoinGroup", "group-1");
+        const response = await result.current.invoke("JoinStaffRoom", "queue-1");
         expect(response).toEqual({ result: "success" });
       });
 
-      expect(mockInvoke).toHaveBeenCalledWith("JoinGroup", "group-1");
+      expect(mockInvoke).toHaveBeenCalledWith("JoinStaffRoom", "queue-1");
     });
 
     it("should register and unregister event handlers", async () => {
@@ -211,7 +261,6 @@ describe("useSignalR", () => {
 
       // Connect first
       await act(async () => {
-        mockConnectionState = 2;
         await result.current.connect();
       });
 
@@ -238,7 +287,7 @@ describe("useSignalR", () => {
 
       // Try to invoke without connecting
       await act(async () => {
-        await expect(result.current.invoke("JoinGroup", "group-1")).rejects.toThrow(
+        await expect(result.current.invoke("JoinStaffRoom", "queue-1")).rejects.toThrow(
           "SignalR not connected"
         );
       });
@@ -1,7 +1,20 @@
-import type { HubConnection } from "@microsoft/signalr";
-import { useCallback, useEffect, useRef, useState } from "react";
-
-export type ConnectionState = "connecting" | "connected" | "reconnecting" | "disconnected";
+import { useCallback, useContext, useEffect, useRef, useState } from "react";
+import { HubConnectionContext } from "../signalr/hubConnectionContext";
+import {
+  defaultHubConnectionManager,
+  type ConnectionState,
+  type HubRoom,
+  type SharedHubConnection,
+} from "../signalr/hubConnectionManager";
+import type {
+  HubHandlerMap,
+  HubMemberName,
+  HubMethodResult,
+  QueueHubEvents,
+  QueueHubMethods,
+} from "../signalr/queueHubContract";
+
+export type { ConnectionState };
 
 interface UseSignalROptions {
   /** URL of the SignalR hub */
@@ -10,199 +23,165 @@ interface UseSignalROptions {
   autoConnect?: boolean;
   /** Callback when connection state changes */
   onStateChange?: (state: ConnectionState) => void;
+  /** Callback when the connection is back after being lost - events sent meanwhile were missed */
+  onReconnected?: () => void;
 }
 
-interface UseSignalRResult {
+export interface UseSignalRResult<
+  TEvents extends HubHandlerMap<TEvents> = QueueHubEvents,
+  TMethods extends HubHandlerMap<TMethods> = QueueHubMethods,
+> {
   /** Current connection state */
   state: ConnectionState;
-  /** Invoke a hub method */
-  invoke: <T = void>(methodName: string, ...args: unknown[]) => Promise<T>;
-  /** Subscribe to a hub event */
-  on: <T = unknown>(eventName: string, callback: (data: T) => void) => () => void;
+  /** Invoke a hub method - name and arguments are checked against the hub contract */
+  invoke: <M extends HubMemberName<TMethods>>(
+    methodName: M,
+    ...args: Parameters<TMethods[M]>
+  ) => Promise<HubMethodResult<TMethods, M>>;
+  /** Subscribe to a hub event - the callback's parameters are inferred from the hub contract */
+  on: <E extends HubMemberName<TEvents>>(eventName: E, callback: TEvents[E]) => () => void;
+  /** Join a hub group; it is re-joined after every reconnect. Returns a leave function. */
+  joinRoom: (room: HubRoom<TMethods>) => () => void;
   /** Manually connect */
   connect: () => Promise<void>;
   /** Manually disconnect */
   disconnect: () => Promise<void>;
 }
 
-// Lazy-loaded SignalR module
-let signalRModule: typeof import("@microsoft/signalr") | null = null;
-
-async function getSignalR() {
-  if (!signalRModule) {
-    signalRModule = await import("@microsoft/signalr");
-  }
-  return signalRModule;
-}
-
 /**
- * Hook for managing SignalR connection lifecycle.
- * Handles auto-reconnect with exponential backoff.
+ * Hook for using a SignalR hub connection.
+ * Every hook on the same hub URL shares one ref-counted connection (see HubConnectionProvider),
+ * which handles auto-reconnect with exponential backoff and re-joins active rooms afterwards.
  * SignalR module is lazy-loaded only when a connection is needed.
+ * Typed against the queue hub contract by default.
  */
-export function useSignalR({ hubUrl, autoConnect = true, onStateChange }: UseSignalROptions): UseSignalRResult {
+export function useSignalR<
+  TEvents extends HubHandlerMap<TEvents> = QueueHubEvents,
+  TMethods extends HubHandlerMap<TMethods> = QueueHubMethods,
+>({ hubUrl, autoConnect = true, onStateChange, onReconnected }: UseSignalROptions): UseSignalRResult<TEvents, TMethods> {
+  const manager = useContext(HubConnectionContext) ?? defaultHubConnectionManager;
+  const [shared, setShared] = useState<SharedHubConnection | null>(null);
   const [state, setState] = useState<ConnectionState>("disconnected");
-  const connectionRef = useRef<HubConnection | null>(null);
-  const mountedRef = useRef(true);
-  const hubUrlRef = useRef(hubUrl);
+  const sharedRef = useRef<SharedHubConnection | null>(null);
+  const onStateChangeRef = useRef(onStateChange);
+  const onReconnectedRef = useRef(onReconnected);
 
-  // Keep hubUrl ref updated (in effect to satisfy lint rules)
+  // Keep callback refs updated (in effect to satisfy lint rules)
   useEffect(() => {
-    hubUrlRef.current = hubUrl;
-  }, [hubUrl]);
-
-  // Update state helper
-  const updateState = useCallback(
-    (newState: ConnectionState) => {
-      if (mountedRef.current) {
-        setState(newState);
-        onStateChange?.(newState);
-      }
-    },
-    [onStateChange],
-  );
-
-  // Create connection (lazy - only imports SignalR when called)
-  const ensureConnection = useCallback(async (): Promise<HubConnection> => {
-    if (connectionRef.current) {
-      return connectionRef.current;
-    }
+    onStateChangeRef.current = onStateChange;
+    onReconnectedRef.current = onReconnected;
+  }, [onStateChange, onReconnected]);
 
-    // Dynamic import - SignalR is only loaded when we actually need to connect
-    const { HubConnectionBuilder, LogLevel } = await getSignalR();
-
-    const connection = new HubConnectionBuilder()
-      .withUrl(hubUrlRef.current)
-      .withAutomaticReconnect({
-        nextRetryDelayInMilliseconds: (retryContext) => {
-          // Exponential backoff: 1s, 2s, 4s, 8s, 16s, max 30s
-          const delay = Math.min(1000 * Math.pow(2, retryContext.previousRetryCount), 30000);
-          return delay;
-        },
-      })
-      .configureLogging(LogLevel.Warning)
-      .build();
-
-    // Set up event handlers
-    connection.onreconnecting(() => updateState("reconnecting"));
-    connection.onreconnected(() => updateState("connected"));
-    connection.onclose(() => {
-      if (mountedRef.current) {
-        updateState("disconnected");
+  // Take a reference to the shared connection for this hub, release it on unmount
+  useEffect(() => {
+    const connection = manager.acquire(hubUrl);
+    sharedRef.current = connection;
+    setShared(connection);
+    setState(connection.state);
+
+    let hasConnected = connection.state === "connected";
+    const unsubscribe = connection.subscribe((newState) => {
+      setState(newState);
+      onStateChangeRef.current?.(newState);
+
+      if (newState === "connected") {
+        if (hasConnected) {
+          onReconnectedRef.current?.();
+        }
+        hasConnected = true;
       }
     });
 
-    connectionRef.current = connection;
-    return connection;
-  }, [updateState]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    mountedRef.current = true;
-
     return () => {
-      mountedRef.current = false;
-      if (connectionRef.current) {
-        connectionRef.current.stop().catch(() => {
-          // Ignore errors during cleanup
-        });
-      }
+      unsubscribe();
+      sharedRef.current = null;
+      connection.release();
     };
-  }, []);
+  }, [manager, hubUrl]);
 
   // Start connection helper
-  const startConnection = useCallback(async () => {
-    if (!mountedRef.current) return;
-
-    updateState("connecting");
+  const startConnection = useCallback(async (connection: SharedHubConnection) => {
     try {
-      const connection = await ensureConnection();
-      const { HubConnectionState } = await getSignalR();
-
-      if (connection.state !== HubConnectionState.Disconnected) return;
-
       await connection.start();
-      if (mountedRef.current) {
-        updateState("connected");
-      }
     } catch (err) {
       // Ignore abort errors from StrictMode cleanup
       if (err instanceof Error && err.message.includes("stopped")) {
         return;
       }
       console.error("SignalR connection failed:", err);
-      if (mountedRef.current) {
-        updateState("disconnected");
-      }
     }
-  }, [ensureConnection, updateState]);
+  }, []);
 
   // Auto-connect (with small delay to handle StrictMode double-mount)
   useEffect(() => {
-    if (!autoConnect) return;
+    if (!autoConnect || !shared) return;
 
     // Small delay allows StrictMode cleanup to complete before connecting
     const timer = setTimeout(() => {
-      if (mountedRef.current) {
-        startConnection();
-      }
+      startConnection(shared);
     }, 100);
 
     return () => clearTimeout(timer);
-  }, [autoConnect, startConnection]);
+  }, [autoConnect, shared, startConnection]);
 
   // Invoke method
-  const invoke = useCallback(async <T = void>(methodName: string, ...args: unknown[]): Promise<T> => {
-    const connection = connectionRef.current;
+  const invoke = useCallback(async <M extends HubMemberName<TMethods>>(
+    methodName: M,
+    ...args: Parameters<TMethods[M]>
+  ): Promise<HubMethodResult<TMethods, M>> => {
+    const connection = sharedRef.current;
     if (!connection) {
-      return Promise.reject(new Error("SignalR not connected"));
-    }
-
-    const { HubConnectionState } = await getSignalR();
-    if (connection.state !== HubConnectionState.Connected) {
-      return Promise.reject(new Error("SignalR not connected"));
+      throw new Error("SignalR not connected");
     }
 
-    return connection.invoke<T>(methodName, ...args);
+    return connection.invoke<HubMethodResult<TMethods, M>>(methodName, ...args);
   }, []);
 
-  // Subscribe to event
-  const on = useCallback(<T = unknown>(eventName: string, callback: (data: T) => void): (() => void) => {
-    const connection = connectionRef.current;
-    if (!connection) {
-      return () => {};
-    }
+  // Subscribe to event - handlers registered before the connection is built are attached once it is
+  const on = useCallback(
+    <E extends HubMemberName<TEvents>>(eventName: E, callback: TEvents[E]): (() => void) => {
+      if (!shared) {
+        return () => {};
+      }
 
-    connection.on(eventName, callback);
-    return () => connection.off(eventName, callback);
-  }, []);
+      // SignalR hands the wire arguments over untyped; the hub contract is what types them for the callback
+      return shared.on(eventName, callback as unknown as (...args: unknown[]) => void);
+    },
+    [shared],
+  );
+
+  // Join a room on the shared connection
+  const joinRoom = useCallback(
+    (room: HubRoom<TMethods>): (() => void) => {
+      if (!shared) {
+        return () => {};
+      }
+
+      return shared.joinRoom(room);
+    },
+    [shared],
+  );
 
   // Manual connect
   const connect = useCallback(async () => {
-    updateState("connecting");
-    try {
-      const connection = await ensureConnection();
-      const { HubConnectionState } = await getSignalR();
+    const connection = sharedRef.current;
+    if (!connection) return;
 
-      if (connection.state === HubConnectionState.Disconnected) {
-        await connection.start();
-        updateState("connected");
-      }
+    try {
+      await connection.start();
     } catch (err) {
       console.error("SignalR connection failed:", err);
-      updateState("disconnected");
       throw err;
     }
-  }, [ensureConnection, updateState]);
+  }, []);
 
   // Manual disconnect
   const disconnect = useCallback(async () => {
-    const connection = connectionRef.current;
+    const connection = sharedRef.current;
     if (!connection) return;
 
     await connection.stop();
-    updateState("disconnected");
-  }, [updateState]);
+  }, []);
 
-  return { state, invoke, on, connect, disconnect };
+  return { state, invoke, on, joinRoom, connect, disconnect };
 }
@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import { HubConnectionContext } from "./hubConnectionContext";
+import { defaultHubConnectionOptions, HubConnectionManager, type HubConnectionOptions } from "./hubConnectionManager";
+
+interface HubConnectionProviderProps {
+  children: ReactNode;
+  /** Transport and logging options - defaults come from the environment. Read once on mount. */
+  options?: HubConnectionOptions;
+}
+
+/**
+ * Provides one ref-counted SignalR connection per hub URL to every hook below it,
+ * so nested views share a single WebSocket instead of opening one each.
+ */
+export function HubConnectionProvider({ children, options = defaultHubConnectionOptions }: HubConnectionProviderProps) {
+  const [manager] = useState(() => new HubConnectionManager(options));
+
+  useEffect(() => {
+    return () => manager.dispose();
+  }, [manager]);
+
+  return <HubConnectionContext.Provider value={manager}>{children}</HubConnectionContext.Provider>;
+}
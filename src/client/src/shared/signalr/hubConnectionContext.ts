@@ -0,0 +1,8 @@
+import { createContext } from "react";
+import type { HubConnectionManager } from "./hubConnectionManager";
+
+/**
+ * Manager for shared hub connections. Null outside a HubConnectionProvider,
+ * in which case hooks fall back to the module-level default manager.
+ */
+export const HubConnectionContext = createContext<HubConnectionManager | null>(null);
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HubConnectionManager, parseHubTransports } from "./hubConnectionManager";
+import { customerRoom, staffRoom } from "./queueHubContract";
+
+let mockConnectionState = 0; // HubConnectionState.Disconnected
+
+const mockStart = vi.fn();
+const mockStop = vi.fn();
+const mockOn = vi.fn();
+const mockOff = vi.fn();
+const mockInvoke = vi.fn();
+const mockBuild = vi.fn();
+const mockWithUrl = vi.fn();
+let reconnectedCallback: (() => void) | null = null;
+let reconnectingCallback: (() => void) | null = null;
+
+vi.mock("@microsoft/signalr", async () => {
+  return {
+    HubConnectionBuilder: class {
+      withUrl(...args: unknown[]) {
+        mockWithUrl(...args);
+        return this;
+      }
+      withAutomaticReconnect() {
+        return this;
+      }
+      configureLogging() {
+        return this;
+      }
+      build() {
+        mockBuild();
+        return {
+          start: mockStart,
+          stop: mockStop,
+          on: mockOn,
+          off: mockOff,
+          invoke: mockInvoke,
+          onreconnecting: (cb: () => void) => {
+            reconnectingCallback = cb;
+          },
+          onreconnected: (cb: () => void) => {
+            reconnectedCallback = cb;
+          },
+          onclose: vi.fn(),
+          get state() {
+            return mockConnectionState;
+          },
+        };
+      }
+    },
+    HubConnectionState: {
+      Disconnected: 0,
+      Connecting: 1,
+      Connected: 2,
+      Reconnecting: 3,
+    },
+    HttpTransportType: {
+      WebSockets: 1,
+      ServerSentEvents: 2,
+      LongPolling: 4,
+    },
+    LogLevel: {
+      Warning: 2,
+    },
+  };
+});
+
+/** Options the connection passes to withUrl for a transport */
+const urlOptions = (transport: number) => ({ transport, accessTokenFactory: expect.any(Function) });
+
+// Room joins go through an async invoke - let pending promises settle
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("HubConnectionManager", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConnectionState = 0;
+    reconnectedCallback = null;
+    reconnectingCallback = null;
+    mockStart.mockImplementation(async () => {
+      mockConnectionState = 2;
+    });
+    mockStop.mockImplementation(async () => {
+      mockConnectionState = 0;
+    });
+    mockInvoke.mockResolvedValue(undefined);
+  });
+
+  describe("connection sharing", () => {
+    it("should share one connection between consumers of the same hub URL", async () => {
+      const manager = new HubConnectionManager();
+
+      const first = manager.acquire("/hubs/queue");
+      const second = manager.acquire("/hubs/queue");
+      await Promise.all([first.start(), second.start()]);
+
+      expect(first).toBe(second);
+      expect(manager.size).toBe(1);
+      expect(mockBuild).toHaveBeenCalledTimes(1);
+      expect(mockStart).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only stop the connection when the last consumer releases it", async () => {
+      const manager = new HubConnectionManager();
+
+      const first = manager.acquire("/hubs/queue");
+      manager.acquire("/hubs/queue");
+      await first.start();
+
+      first.release();
+      expect(mockStop).not.toHaveBeenCalled();
+      expect(manager.size).toBe(1);
+
+      first.release();
+      expect(mockStop).toHaveBeenCalledTimes(1);
+      expect(manager.size).toBe(0);
+    });
+
+    it("should attach event handlers registered before the connection was built", async () => {
+      const manager = new HubConnectionManager();
+      const shared = manager.acquire("/hubs/queue");
+      const handler = vi.fn();
+
+      shared.on("QueueUpdated", handler);
+      expect(mockOn).not.toHaveBeenCalled();
+
+      await shared.start();
+
+      expect(mockOn).toHaveBeenCalledWith("QueueUpdated", handler);
+    });
+  });
+
+  describe("rooms", () => {
+    it("should join rooms registered before the connection started", async () => {
+      const manager = new HubConnectionManager();
+      const shared = manager.acquire("/hubs/queue");
+
+      shared.joinRoom(staffRoom("queue-1"));
+      expect(mockInvoke).not.toHaveBeenCalled();
+
+      await shared.start();
+      await flushPromises();
+
+      expect(mockInvoke).toHaveBeenCalledWith("JoinStaffRoom", "queue-1");
+    });
+
+    it("should only leave a room once its last consumer leaves", async () => {
+      const manager = new HubConnectionManager();
+      const shared = manager.acquire("/hubs/queue");
+      await shared.start();
+
+      const leaveFirst = shared.joinRoom(customerRoom("token-1"));
+      const leaveSecond = shared.joinRoom(customerRoom("token-1"));
+      await flushPromises();
+      expect(mockInvoke).toHaveBeenCalledTimes(1);
+
+      leaveFirst();
+      leaveFirst(); // Leaving twice is a no-op
+      await flushPromises();
+      expect(mockInvoke).not.toHaveBeenCalledWith("LeaveCustomerRoom", "token-1");
+
+      leaveSecond();
+      await flushPromises();
+      expect(mockInvoke).toHaveBeenCalledWith("LeaveCustomerRoom", "token-1");
+      expect(shared.roomCount).toBe(0);
+    });
+
+    it("should re-join every active room after a reconnect", async () => {
+      const manager = new HubConnectionManager();
+      const shared = manager.acquire("/hubs/queue");
+      const states: string[] = [];
+      shared.subscribe((state) => states.push(state));
+
+      shared.joinRoom(staffRoom("queue-1"));
+      shared.joinRoom(customerRoom("token-1"));
+      await shared.start();
+      await flushPromises();
+      mockInvoke.mockClear();
+
+      // Connection drops and comes back with a new connection id
+      mockConnectionState = 3;
+      reconnectingCallback?.();
+      mockConnectionState = 2;
+      reconnectedCallback?.();
+
+      expect(states).toEqual(["connecting", "connected", "reconnecting", "connected"]);
+      await vi.waitFor(() => {
+        expect(mockInvoke).toHaveBeenCalledWith("JoinStaffRoom", "queue-1");
+        expect(mockInvoke).toHaveBeenCalledWith("JoinCustomerRoom", "token-1");
+      });
+    });
+  });
+
+  describe("transports", () => {
+    it("should fall back to the next transport when one fails to connect", async () => {
+      mockStart.mockRejectedValueOnce(new Error("WebSocket failed to connect"));
+      const manager = new HubConnectionManager({});
+      const shared = manager.acquire("/hubs/queue");
+
+      await shared.start();
+
+      expect(mockWithUrl).toHaveBeenNthCalledWith(1, "/hubs/queue", urlOptions(1));
+      expect(mockWithUrl).toHaveBeenNthCalledWith(2, "/hubs/queue", urlOptions(2));
+      expect(shared.state).toBe("connected");
+      expect(shared.diagnostics.transport).toBe("ServerSentEvents");
+      expect(shared.diagnostics.skippedTransports).toEqual(["WebSockets"]);
+    });
+
+    it("should keep the preferred transport when every transport fails", async () => {
+      mockStart.mockRejectedValue(new Error("Server unreachable"));
+      const manager = new HubConnectionManager({});
+      const shared = manager.acquire("/hubs/queue");
+
+      await expect(shared.start()).rejects.toThrow("Server unreachable");
+      expect(shared.state).toBe("disconnected");
+
+      mockWithUrl.mockClear();
+      mockStart.mockImplementation(async () => {
+        mockConnectionState = 2;
+      });
+      await shared.start();
+
+      expect(mockWithUrl).toHaveBeenCalledWith("/hubs/queue", urlOptions(1));
+      expect(shared.diagnostics.skippedTransports).toEqual([]);
+    });
+
+    it("should only use the configured transports", async () => {
+      const manager = new HubConnectionManager({ transports: ["LongPolling"] });
+      const shared = manager.acquire("/hubs/queue");
+
+      await shared.start();
+
+      expect(mockWithUrl).toHaveBeenCalledWith("/hubs/queue", urlOptions(4));
+      expect(shared.diagnostics.transport).toBe("LongPolling");
+    });
+
+    it("should sign in with the configured token, or anonymously without one", async () => {
+      let token: string | null = "staff-token";
+      const manager = new HubConnectionManager({ accessTokenFactory: () => token });
+      const shared = manager.acquire("/hubs/queue");
+
+      await shared.start();
+
+      const { accessTokenFactory } = mockWithUrl.mock.calls[0][1] as { accessTokenFactory: () => string };
+      expect(accessTokenFactory()).toBe("staff-token");
+      token = null;
+      expect(accessTokenFactory()).toBe("");
+    });
+
+    it("should parse a transport list and ignore unknown names", () => {
+      expect(parseHubTransports("ServerSentEvents, LongPolling,Carrier")).toEqual(["ServerSentEvents", "LongPolling"]);
+      expect(parseHubTransports("")).toBeUndefined();
+      expect(parseHubTransports(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("diagnostics", () => {
+    it("should count reconnects and record when events arrive", async () => {
+      const manager = new HubConnectionManager({});
+      const shared = manager.acquire("/hubs/queue");
+      const handler = vi.fn();
+
+      shared.on("QueueUpdated", handler);
+      await shared.start();
+
+      reconnectingCallback?.();
+      expect(shared.diagnostics.reconnectCount).toBe(1);
+
+      // A recorder is registered for the event alongside the consumer's handler
+      const recordEvent = mockOn.mock.calls.find(([event, fn]) => event === "QueueUpdated" && fn !== handler)?.[1];
+      recordEvent();
+      expect(shared.diagnostics.lastEventAt).toBeInstanceOf(Date);
+    });
+
+    it("should record ping round-trip time", async () => {
+      const manager = new HubConnectionManager({});
+      const shared = manager.acquire("/hubs/queue");
+      await shared.start();
+
+      const latency = await shared.measureLatency("Ping");
+
+      expect(mockInvoke).toHaveBeenCalledWith("Ping");
+      expect(shared.diagnostics.latencyMs).toBe(latency);
+    });
+  });
+});
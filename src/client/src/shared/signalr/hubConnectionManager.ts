@@ -0,0 +1,420 @@
+import type { HubConnection } from "@microsoft/signalr";
+import { getApiToken } from "../utils/apiClient";
+
+export type ConnectionState = "connecting" | "connected" | "reconnecting" | "disconnected";
+
+/** SignalR transports, named as in HttpTransportType. */
+export type HubTransport = "WebSockets" | "ServerSentEvents" | "LongPolling";
+
+/** Log levels, named as in the SignalR LogLevel enum. */
+export type HubLogLevel = "Trace" | "Debug" | "Information" | "Warning" | "Error" | "Critical" | "None";
+
+export interface HubConnectionOptions {
+  /**
+   * Transports to use, most preferred first. When one fails to connect (e.g. a proxy
+   * blocks WebSockets) the connection downgrades to the next for the rest of the session.
+   */
+  transports?: HubTransport[];
+  /** SignalR client log level */
+  logLevel?: HubLogLevel;
+  /**
+   * Token the connection signs in with, read on every (re)connect. Staff rooms need a
+   * member's token; customer rooms work without one.
+   */
+  accessTokenFactory?: () => string | null;
+}
+
+/** Live connection details for troubleshooting. */
+export interface ConnectionDiagnostics {
+  /** Transport of the current connection (null until connected) */
+  transport: HubTransport | null;
+  /** Transports that failed to connect and were skipped */
+  skippedTransports: HubTransport[];
+  /** Round-trip time of the last ping */
+  latencyMs: number | null;
+  /** Times the connection dropped and had to reconnect */
+  reconnectCount: number;
+  /** When the server last pushed an event */
+  lastEventAt: Date | null;
+}
+
+const ALL_TRANSPORTS: HubTransport[] = ["WebSockets", "ServerSentEvents", "LongPolling"];
+
+/**
+ * Parses a comma-separated transport list (e.g. "ServerSentEvents,LongPolling"),
+ * ignoring unknown names. Returns undefined when nothing usable is listed.
+ */
+export function parseHubTransports(value: string | undefined): HubTransport[] | undefined {
+  const transports = (value ?? "")
+    .split(",")
+    .map((t) => t.trim())
+    .filter((t): t is HubTransport => (ALL_TRANSPORTS as string[]).includes(t));
+  return transports.length > 0 ? transports : undefined;
+}
+
+/** Options from the environment (NEXT_PUBLIC_SIGNALR_TRANSPORTS), signed in as the current user. */
+export const defaultHubConnectionOptions: HubConnectionOptions = {
+  transports: parseHubTransports(process.env.NEXT_PUBLIC_SIGNALR_TRANSPORTS),
+  accessTokenFactory: getApiToken,
+};
+
+/**
+ * A hub group the client belongs to, described by the hub methods that join and
+ * leave it. Rooms are tracked by the shared connection and re-joined after reconnects.
+ */
+export interface HubRoom<TMethods = Record<string, unknown>> {
+  join: keyof TMethods & string;
+  leave: keyof TMethods & string;
+  /** Group identifier passed to both methods (queue id, customer token, ...) */
+  id: string;
+}
+
+type AnyHandler = (...args: unknown[]) => void;
+
+// Lazy-loaded SignalR module
+let signalRModule: typeof import("@microsoft/signalr") | null = null;
+
+async function getSignalR() {
+  if (!signalRModule) {
+    signalRModule = await import("@microsoft/signalr");
+  }
+  return signalRModule;
+}
+
+function roomKey<TMethods>(room: HubRoom<TMethods>): string {
+  return `${room.join}:${room.id}`;
+}
+
+/**
+ * One hub connection shared by every hook using the same hub URL.
+ * Reference-counted: the connection stops when the last consumer releases it.
+ * Event handlers and rooms registered before the connection exists are applied
+ * once it is built, and rooms are re-joined whenever the connection (re)starts.
+ */
+export class SharedHubConnection {
+  private connection: HubConnection | null = null;
+  private buildPromise: Promise<HubConnection> | null = null;
+  private startPromise: Promise<void> | null = null;
+  private stopRequested = false;
+  private refCount = 0;
+  private currentState: ConnectionState = "disconnected";
+  private readonly transports: HubTransport[];
+  // Index into transports of the one to use - only moves forward when a transport fails
+  private transportIndex = 0;
+  private currentDiagnostics: ConnectionDiagnostics = {
+    transport: null,
+    skippedTransports: [],
+    latencyMs: null,
+    reconnectCount: 0,
+    lastEventAt: null,
+  };
+  private readonly stateListeners = new Set<(state: ConnectionState) => void>();
+  private readonly diagnosticsListeners = new Set<(diagnostics: ConnectionDiagnostics) => void>();
+  private readonly handlers = new Map<string, Set<AnyHandler>>();
+  private readonly rooms = new Map<string, { room: HubRoom; refCount: number }>();
+
+  constructor(
+    readonly hubUrl: string,
+    private readonly onIdle: (shared: SharedHubConnection) => void,
+    private readonly options: HubConnectionOptions = {},
+  ) {
+    this.transports = options.transports?.length ? options.transports : ALL_TRANSPORTS;
+  }
+
+  get state(): ConnectionState {
+    return this.currentState;
+  }
+
+  get diagnostics(): ConnectionDiagnostics {
+    return this.currentDiagnostics;
+  }
+
+  /** Number of rooms currently joined (or waiting to be joined) */
+  get roomCount(): number {
+    return this.rooms.size;
+  }
+
+  retain(): void {
+    this.refCount++;
+  }
+
+  release(): void {
+    this.refCount = Math.max(0, this.refCount - 1);
+    if (this.refCount > 0) return;
+
+    this.onIdle(this);
+    this.stop().catch(() => {
+      // Ignore errors during cleanup
+    });
+  }
+
+  subscribe(listener: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  subscribeDiagnostics(listener: (diagnostics: ConnectionDiagnostics) => void): () => void {
+    this.diagnosticsListeners.add(listener);
+    return () => this.diagnosticsListeners.delete(listener);
+  }
+
+  /** Starts the connection if it is not already running. Safe to call from every consumer. */
+  start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.startWithFallback().finally(() => {
+        this.startPromise = null;
+      });
+    }
+    return this.startPromise;
+  }
+
+  async stop(): Promise<void> {
+    this.stopRequested = true;
+    const connection = this.connection;
+    if (!connection) return;
+
+    await connection.stop();
+    this.setState("disconnected");
+  }
+
+  /** Invokes a no-op hub method and records the round-trip time. */
+  async measureLatency(pingMethod: string): Promise<number> {
+    const startedAt = performance.now();
+    await this.invoke(pingMethod);
+    const latencyMs = Math.round(performance.now() - startedAt);
+    this.updateDiagnostics({ latencyMs });
+    return latencyMs;
+  }
+
+  async invoke<T>(methodName: string, ...args: unknown[]): Promise<T> {
+    const connection = this.connection;
+    if (!connection) {
+      throw new Error("SignalR not connected");
+    }
+
+    const { HubConnectionState } = await getSignalR();
+    if (connection.state !== HubConnectionState.Connected) {
+      throw new Error("SignalR not connected");
+    }
+
+    return connection.invoke<T>(methodName, ...args);
+  }
+
+  on(eventName: string, handler: AnyHandler): () => void {
+    let eventHandlers = this.handlers.get(eventName);
+    if (!eventHandlers) {
+      eventHandlers = new Set();
+      this.handlers.set(eventName, eventHandlers);
+      this.connection?.on(eventName, this.recordEvent);
+    }
+    eventHandlers.add(handler);
+    this.connection?.on(eventName, handler);
+
+    return () => {
+      this.handlers.get(eventName)?.delete(handler);
+      this.connection?.off(eventName, handler);
+    };
+  }
+
+  /**
+   * Joins a hub group, shared between consumers of the same room.
+   * Returns a function that leaves the room once its last consumer is gone.
+   */
+  joinRoom<TMethods>(room: HubRoom<TMethods>): () => void {
+    const key = roomKey(room);
+    const entry = this.rooms.get(key);
+    if (entry) {
+      entry.refCount++;
+    } else {
+      this.rooms.set(key, { room: { join: room.join, leave: room.leave, id: room.id }, refCount: 1 });
+      if (this.currentState === "connected") {
+        this.invokeRoomMethod(room.join, room.id);
+      }
+    }
+
+    let left = false;
+    return () => {
+      if (left) return;
+      left = true;
+
+      const current = this.rooms.get(key);
+      if (!current) return;
+      current.refCount--;
+      if (current.refCount > 0) return;
+
+      this.rooms.delete(key);
+      if (this.currentState === "connected") {
+        this.invokeRoomMethod(room.leave, room.id);
+      }
+    };
+  }
+
+  private joinAllRooms(): void {
+    for (const { room } of this.rooms.values()) {
+      this.invokeRoomMethod(room.join, room.id);
+    }
+  }
+
+  private invokeRoomMethod(methodName: string, id: string): void {
+    this.invoke(methodName, id).catch((err: unknown) => {
+      // Connection may drop between the state check and the call - rooms re-join on reconnect
+      if (err instanceof Error && err.message === "SignalR not connected") return;
+      console.error(`SignalR ${methodName} failed:`, err);
+    });
+  }
+
+  private async startWithFallback(): Promise<void> {
+    this.stopRequested = false;
+    const { HubConnectionState } = await getSignalR();
+    if (this.connection && this.connection.state !== HubConnectionState.Disconnected) return;
+
+    this.setState("connecting");
+    const skipped: HubTransport[] = [];
+    let lastError: unknown;
+
+    for (let index = this.transportIndex; index < this.transports.length; index++) {
+      const transport = this.transports[index];
+      const connection = await this.ensureConnection(transport);
+      try {
+        await connection.start();
+        this.transportIndex = index;
+        this.updateDiagnostics({
+          transport,
+          skippedTransports: [...this.currentDiagnostics.skippedTransports, ...skipped],
+        });
+        this.setState("connected");
+        this.joinAllRooms();
+        return;
+      } catch (err) {
+        lastError = err;
+        // Stopped while starting (e.g. StrictMode cleanup) - not a transport problem
+        if (this.stopRequested) break;
+
+        // Transport may be blocked (e.g. a proxy dropping WebSockets) - try the next one
+        skipped.push(transport);
+        this.discardConnection();
+      }
+    }
+
+    // Nothing connected - the server is unreachable rather than one transport being
+    // blocked, so keep the preferred transport for the next attempt
+    this.setState("disconnected");
+    throw lastError;
+  }
+
+  private discardConnection(): void {
+    this.connection = null;
+    this.buildPromise = null;
+  }
+
+  // Arrow function so the same reference is registered with, and removed from, every connection
+  private readonly recordEvent = (): void => {
+    this.updateDiagnostics({ lastEventAt: new Date() });
+  };
+
+  private updateDiagnostics(changes: Partial<ConnectionDiagnostics>): void {
+    this.currentDiagnostics = { ...this.currentDiagnostics, ...changes };
+    this.diagnosticsListeners.forEach((listener) => listener(this.currentDiagnostics));
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.currentState === state) return;
+    this.currentState = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+
+  private ensureConnection(transport: HubTransport): Promise<HubConnection> {
+    if (!this.buildPromise) {
+      this.buildPromise = this.buildConnection(transport);
+    }
+    return this.buildPromise;
+  }
+
+  private async buildConnection(transport: HubTransport): Promise<HubConnection> {
+    // Dynamic import - SignalR is only loaded when we actually need to connect
+    const { HubConnectionBuilder, HttpTransportType, LogLevel } = await getSignalR();
+
+    // One transport per connection so we always know which one is in use
+    const connection = new HubConnectionBuilder()
+      .withUrl(this.hubUrl, {
+        transport: HttpTransportType[transport],
+        // An empty token connects anonymously
+        accessTokenFactory: () => this.options.accessTokenFactory?.() ?? "",
+      })
+      .withAutomaticReconnect({
+        nextRetryDelayInMilliseconds: (retryContext) => {
+          // Exponential backoff: 1s, 2s, 4s, 8s, 16s, max 30s
+          const delay = Math.min(1000 * Math.pow(2, retryContext.previousRetryCount), 30000);
+          return delay;
+        },
+      })
+      .configureLogging(LogLevel[this.options.logLevel ?? "Warning"])
+      .build();
+
+    connection.onreconnecting(() => {
+      this.updateDiagnostics({ reconnectCount: this.currentDiagnostics.reconnectCount + 1 });
+      this.setState("reconnecting");
+    });
+    connection.onreconnected(() => {
+      this.setState("connected");
+      // Groups are per connection id on the server - a reconnect drops them all
+      this.joinAllRooms();
+    });
+    connection.onclose(() => this.setState("disconnected"));
+
+    // Attach handlers registered before the connection existed
+    for (const [eventName, eventHandlers] of this.handlers) {
+      connection.on(eventName, this.recordEvent);
+      eventHandlers.forEach((handler) => connection.on(eventName, handler));
+    }
+
+    this.connection = connection;
+    return connection;
+  }
+}
+
+/**
+ * Owns one SharedHubConnection per hub URL.
+ */
+export class HubConnectionManager {
+  private readonly connections = new Map<string, SharedHubConnection>();
+
+  constructor(private readonly options: HubConnectionOptions = defaultHubConnectionOptions) {}
+
+  /** Gets (or creates) the shared connection for a hub URL and takes a reference to it. */
+  acquire(hubUrl: string): SharedHubConnection {
+    let shared = this.connections.get(hubUrl);
+    if (!shared) {
+      shared = new SharedHubConnection(
+        hubUrl,
+        (idle) => {
+          if (this.connections.get(idle.hubUrl) === idle) {
+            this.connections.delete(idle.hubUrl);
+          }
+        },
+        this.options,
+      );
+      this.connections.set(hubUrl, shared);
+    }
+    shared.retain();
+    return shared;
+  }
+
+  /** Number of live connections (one per hub URL in use) */
+  get size(): number {
+    return this.connections.size;
+  }
+
+  /** Stops every connection - used when the owning provider unmounts. */
+  dispose(): void {
+    for (const shared of this.connections.values()) {
+      shared.stop().catch(() => {
+        // Ignore errors during cleanup
+      });
+    }
+    this.connections.clear();
+  }
+}
+
+/** Manager used by hooks rendered outside a HubConnectionProvider. */
+export const defaultHubConnectionManager = new HubConnectionManager();
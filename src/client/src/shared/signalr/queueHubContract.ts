@@ -0,0 +1,119 @@
+import type { HubRoom } from "./hubConnectionManager";
+
+/**
+ * Typed contract for the queue SignalR hub (/hubs/queue).
+ *
+ * Mirrors the server-side IQueueHubClient (events pushed to clients) and
+ * QueueHub (methods clients may invoke) in QueueDrop.Infrastructure/SignalR.
+ * Update both sides together - a signature change here surfaces every
+ * consumer that needs to follow at compile time.
+ */
+
+/** Update kinds sent with QueueUpdated. Mirrors the QueueUpdateType enum. */
+export type QueueUpdateType =
+  | "CustomerJoined"
+  | "CustomerCalled"
+  | "CustomerServed"
+  | "CustomerNoShow"
+  | "CustomerRemoved"
+  | "CustomerRestored"
+  | "CustomerRequeued"
+  | "CustomerMoved"
+  | "CustomerTransferred"
+  | "QueueSettingsChanged"
+  | "QueueStatusChanged"
+  | "CustomerOnTheWay";
+
+/** A customer's state after a queue update. Mirrors QueueCustomerUpdate - it never carries the customer's token. */
+export interface QueueCustomerUpdate {
+  id: string;
+  name: string;
+  /** "Waiting" or "Called" while in the queue; anything else means the customer left the list */
+  status: string;
+  position: number | null;
+  joinedAt: string;
+  calledAt: string | null;
+  /** When a called customer said they're on their way */
+  onTheWayAt: string | null;
+  partySize: number | null;
+  notes: string | null;
+  phoneNumber: string | null;
+  /** Answers to the queue's own join questions */
+  joinAnswers: JoinAnswer[];
+}
+
+/** A customer's answer to one of the queue's join questions. Mirrors JoinAnswer. */
+export interface JoinAnswer {
+  label: string;
+  value: string;
+}
+
+/** How long a customer can expect to wait, in whole minutes. Mirrors WaitEstimate. */
+export interface WaitEstimate {
+  minMinutes: number;
+  maxMinutes: number;
+}
+
+/** Events the server pushes to connected clients (IQueueHubClient). */
+export interface QueueHubEvents {
+  /** Customer room: the customer's 1-based position changed, with the wait from there. */
+  PositionChanged: (newPosition: number, estimatedWait: WaitEstimate) => void;
+  /** Customer room: the customer was called, with the queue's called message. */
+  YouAreCalled: (message: string | null) => void;
+  /** Customer room: the customer's status changed (e.g. "Served", "NoShow"). */
+  StatusChanged: (status: string) => void;
+  /**
+   * Staff room: something changed in the queue. `version` is the queue's version after
+   * the change - it increases with every change, so a jump means updates were missed.
+   * `customer` is the affected customer's new state, or null when the change can't be
+   * described by one customer (settings, batch no-shows) and clients should refetch.
+   */
+  QueueUpdated: (
+    queueId: string,
+    updateType: QueueUpdateType,
+    version: number,
+    customer: QueueCustomerUpdate | null,
+  ) => void;
+  /** Customer room: the customer reached the near-front threshold. */
+  NearFront: (position: number) => void;
+  /** Customer room: staff moved the customer to another queue; their token stays the same. */
+  Transferred: (queueName: string, position: number) => void;
+  /** Customer room: the customer's queue was opened, closed, paused or resumed. */
+  QueueStatusChanged: (isActive: boolean, isPaused: boolean) => void;
+}
+
+/** Methods clients can invoke on the hub (QueueHub). */
+export interface QueueHubMethods {
+  JoinCustomerRoom: (token: string) => void;
+  LeaveCustomerRoom: (token: string) => void;
+  JoinStaffRoom: (queueId: string) => void;
+  LeaveStaffRoom: (queueId: string) => void;
+  /** No-op used to measure round-trip latency */
+  Ping: () => void;
+}
+
+/**
+ * Constraint for a hub's event or method map: every member is a handler signature.
+ * Written as a mapped type over the map's own keys so plain interfaces (which have
+ * no index signature) satisfy it and unknown names stay compile errors. Arguments are
+ * typed never[] so any parameter list is accepted without falling back to any.
+ */
+export type HubHandlerMap<T> = {
+  [K in keyof T]: (...args: never[]) => unknown;
+};
+
+/** Names of the members of a hub map, as the string SignalR sends on the wire. */
+export type HubMemberName<T> = keyof T & string;
+
+/** Resolved value of invoking a hub method. */
+export type HubMethodResult<T extends HubHandlerMap<T>, M extends keyof T> = Awaited<ReturnType<T[M]>>;
+
+/** Staff room for a queue: receives QueueUpdated. */
+export function staffRoom(queueId: string): HubRoom<QueueHubMethods> {
+  return { join: "JoinStaffRoom", leave: "LeaveStaffRoom", id: queueId };
+}
+
+/** Personal room for a customer token: receives position and status events. */
+export function customerRoom(token: string): HubRoom<QueueHubMethods> {
+  return { join: "JoinCustomerRoom", leave: "LeaveCustomerRoom", id: token };
+}
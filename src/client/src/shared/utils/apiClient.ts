@@ -0,0 +1,118 @@
+import { getApiErrorMessage, safeJsonParse } from "./api";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || "";
+
+/** How the client finds the signed-in user's token and what it does when the server rejects it */
+export interface ApiAuth {
+  getToken: () => string | null;
+  /** Gets a token to use instead of the rejected one; null when the session can't be refreshed */
+  refresh: (rejectedToken: string) => Promise<string | null>;
+  onUnauthorized: () => void;
+}
+
+const anonymous: ApiAuth = {
+  getToken: () => null,
+  refresh: async () => null,
+  onUnauthorized: () => {},
+};
+
+let currentAuth: ApiAuth = anonymous;
+
+/**
+ * Connects the client to the signed-in session (done by AuthProvider).
+ * Returns a function that disconnects it again.
+ */
+export function setApiAuth(auth: ApiAuth): () => void {
+  currentAuth = auth;
+  return () => {
+    if (currentAuth === auth) currentAuth = anonymous;
+  };
+}
+
+/** The signed-in user's token, e.g. for the SignalR connection. Null when signed out. */
+export function getApiToken(): string | null {
+  return currentAuth.getToken();
+}
+
+const ACTING_MEMBER_HEADER = "X-Acting-Member";
+
+let currentActingMember: string | null = null;
+
+/**
+ * Sets the member a shared device is unlocked as (see useLockMode).
+ * Their token is sent with every request until it is cleared with null.
+ */
+export function setActingMember(token: string | null): void {
+  currentActingMember = token;
+}
+
+export function getActingMember(): string | null {
+  return currentActingMember;
+}
+
+export interface ApiRequestInit extends Omit<RequestInit, "body" | "headers"> {
+  headers?: Record<string, string>;
+  /** Sent as a JSON body */
+  json?: unknown;
+  /**
+   * Token to send instead of the signed-in user's (e.g. the demo's own session).
+   * A 401 for an explicit token is left to the caller.
+   */
+  token?: string | null;
+  /** Acting-member token to send instead of the current one (e.g. one captured when an action was queued) */
+  actingMember?: string | null;
+}
+
+/**
+ * fetch() for our API: prefixes the API base URL, sends the bearer token,
+ * refreshes it once when it has expired and signs the user out when the
+ * server no longer accepts the session.
+ */
+export async function apiFetch(path: string, init: ApiRequestInit = {}): Promise<Response> {
+  const { json, token: explicitToken, actingMember: explicitActingMember, headers: extraHeaders, ...rest } = init;
+  const usesSession = explicitToken === undefined;
+  const auth = currentAuth;
+  const token = usesSession ? auth.getToken() : explicitToken;
+  const actingMember = explicitActingMember === undefined ? currentActingMember : explicitActingMember;
+
+  const send = (bearer: string | null | undefined) => {
+    const headers: Record<string, string> = { ...extraHeaders };
+    if (json !== undefined) headers["Content-Type"] = "application/json";
+    if (bearer) headers.Authorization = `Bearer ${bearer}`;
+    if (actingMember) headers[ACTING_MEMBER_HEADER] = actingMember;
+
+    return fetch(`${API_BASE}${path}`, {
+      ...rest,
+      headers,
+      body: json !== undefined ? JSON.stringify(json) : undefined,
+    });
+  };
+
+  let response = await send(token);
+
+  if (response.status === 401 && usesSession && token) {
+    const refreshed = await auth.refresh(token);
+    if (refreshed) response = await send(refreshed);
+
+    // Revoked or expired session - every later request would fail the same way
+    if (response.status === 401) auth.onUnauthorized();
+  }
+
+  return response;
+}
+
+export type ApiResult<T> = { ok: true; status: number; data: T | null } | { ok: false; status: number; error: string };
+
+/**
+ * apiFetch() that reads the JSON body, or the server's error message when the request fails.
+ * Network errors still throw.
+ */
+export async function apiRequest<T>(path: string, init: ApiRequestInit, fallbackError: string): Promise<ApiResult<T>> {
+  const response = await apiFetch(path, init);
+
+  if (!response.ok) {
+    return { ok: false, status: response.status, error: await getApiErrorMessage(response, fallbackError) };
+  }
+
+  return { ok: true, status: response.status, data: await safeJsonParse<T>(response) };
+}